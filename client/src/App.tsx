@@ -1,5 +1,6 @@
 import { Switch, Route } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { useEffect } from "react";
+import { queryClient, connectRealtime } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -12,6 +13,8 @@ import CartPage from "@/pages/cart";
 import CheckoutPage from "@/pages/checkout";
 import CheckoutSuccessPage from "@/pages/checkout-success";
 import WishlistPage from "@/pages/account/wishlist";
+import RfqsPage from "@/pages/account/rfqs";
+import NotificationsPage from "@/pages/account/notifications";
 import OrderTrackingPage from "@/pages/account/order-tracking";
 import OrderDetailsPage from "@/pages/account/order-details";
 import RefundDetailsPage from "@/pages/account/refund-details";
@@ -23,6 +26,7 @@ import SupplierRegisterPage from "@/pages/auth/supplier-register";
 import VerifyEmailPage from "@/pages/auth/verify-email";
 import AddPhonePage from "@/pages/auth/add-phone";
 import VerifyPhonePage from "@/pages/auth/verify-phone";
+import ForgotPasswordPage from "@/pages/auth/forgot-password";
 import ProfilePage from "@/pages/account/profile";
 
 import VendorDashboard from "@/pages/vendor/dashboard";
@@ -50,6 +54,8 @@ function Router() {
       <Route path="/checkout" component={CheckoutPage} />
       <Route path="/checkout/success" component={CheckoutSuccessPage} />
       <Route path="/account/wishlist" component={WishlistPage} />
+      <Route path="/account/rfqs" component={RfqsPage} />
+      <Route path="/account/notifications" component={NotificationsPage} />
       <Route path="/account/orders/:id/track" component={OrderTrackingPage} />
       <Route path="/account/orders/:id/details" component={OrderDetailsPage} />
       <Route path="/account/refunds/:id" component={RefundDetailsPage} />
@@ -61,6 +67,7 @@ function Router() {
       <Route path="/auth/verify-email" component={VerifyEmailPage} />
       <Route path="/auth/add-phone" component={AddPhonePage} />
       <Route path="/auth/verify-phone" component={VerifyPhonePage} />
+      <Route path="/auth/forgot-password" component={ForgotPasswordPage} />
       <Route path="/account/profile" component={ProfilePage} />
       
       {/* Vendor Onboarding Routes */}
@@ -89,6 +96,8 @@ function Router() {
 }
 
 function App() {
+  useEffect(() => connectRealtime(), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
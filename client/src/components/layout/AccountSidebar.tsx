@@ -2,13 +2,13 @@ import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { 
   User, Package, Heart, RotateCcw, Shield, Bell, Lock, 
-  LogOut, Monitor, CreditCard, MapPin
+  LogOut, Monitor, CreditCard, MapPin, FileText, Wallet
 } from "lucide-react";
 
 interface AccountSidebarProps {
   currentUser?: { name?: string; email?: string; completionPercentage?: number; userType?: string } | null;
-  activeSection?: 'orders' | 'sessions' | 'addresses' | 'payments' | 'profile' | 'wishlist';
-  onSectionChange?: (section: 'orders' | 'sessions' | 'addresses' | 'payments') => void;
+  activeSection?: 'orders' | 'sessions' | 'addresses' | 'payments' | 'credit' | 'profile' | 'wishlist' | 'rfqs' | 'notifications';
+  onSectionChange?: (section: 'orders' | 'sessions' | 'addresses' | 'payments' | 'credit') => void;
   onLogout?: () => void;
 }
 
@@ -70,6 +70,7 @@ export default function AccountSidebar({ currentUser, activeSection, onSectionCh
           href="/account/profile?section=orders"
         />
         <SidebarItem icon={Heart} label="Wishlist" href="/account/wishlist" active={activeSection === 'wishlist'} />
+        <SidebarItem icon={FileText} label="Quote Requests" href="/account/rfqs" active={activeSection === 'rfqs'} />
         <SidebarItem icon={RotateCcw} label="Returns" />
         <SidebarItem icon={Shield} label="Warranty Claims" />
         
@@ -92,6 +93,12 @@ export default function AccountSidebar({ currentUser, activeSection, onSectionCh
           active={activeSection === 'payments'} 
           href="/account/profile?section=payments"
         />
+        <SidebarItem 
+          icon={Wallet} 
+          label="Credit & Invoices" 
+          active={activeSection === 'credit'} 
+          href="/account/profile?section=credit"
+        />
 
         <div className="px-4 py-3 bg-[#3D4A26] text-xs font-bold text-white uppercase mt-2">Others</div>
         <SidebarItem 
@@ -100,7 +107,7 @@ export default function AccountSidebar({ currentUser, activeSection, onSectionCh
           active={activeSection === 'sessions'} 
           href="/account/profile?section=sessions"
         />
-        <SidebarItem icon={Bell} label="Notifications" />
+        <SidebarItem icon={Bell} label="Notifications" href="/account/notifications" active={activeSection === 'notifications'} />
         <SidebarItem icon={Lock} label="Security Settings" />
         
         {onLogout && (
@@ -1,11 +1,12 @@
 import { Link, useLocation } from "wouter";
-import { Search, ShoppingCart, User, Menu, X, LayoutDashboard, LogOut, MapPin, CreditCard, Package } from "lucide-react";
+import { Search, ShoppingCart, User, Menu, X, LayoutDashboard, LogOut, MapPin, CreditCard, Package, Bell } from "lucide-react";
 import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Input } from "@/components/ui/input";
 import { useQuery } from "@tanstack/react-query";
 import { api, getAccessToken, clearTokens } from "@/lib/api";
+import { useCurrency } from "@/hooks/use-currency";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,6 +27,7 @@ export default function Navbar() {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const { currency, currencies, setCurrency, format } = useCurrency();
 
   const { data: products } = useQuery({
     queryKey: ['products'],
@@ -43,6 +45,13 @@ export default function Navbar() {
 
   const cartCount = cartItems?.reduce((sum, item) => sum + item.quantity, 0) || 0;
 
+  // Kept current by the realtime connection, which pushes the count whenever it changes
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ['notifications', 'unread-count'],
+    queryFn: async () => (await api.notifications.getAll({ limit: 1 })).unreadCount,
+    enabled: isLoggedIn,
+  });
+
   const searchSuggestions = useMemo(() => {
     if (!products || !searchTerm.trim() || searchTerm.length < 2) return [];
     const term = searchTerm.toLowerCase();
@@ -176,7 +185,7 @@ export default function Navbar() {
                         <div className="text-xs text-slate-500">{product.make} • {product.model}</div>
                       </div>
                       {isLoggedIn ? (
-                        <div className="text-sm font-bold text-[#D97706]">AED {parseFloat(product.price).toLocaleString()}</div>
+                        <div className="text-sm font-bold text-[#D97706]">{product.price ? format(product.price, product.currency) : 'Price on request'}</div>
                       ) : (
                         <div className="text-xs text-slate-400 italic">Login for price</div>
                       )}
@@ -202,6 +211,29 @@ export default function Navbar() {
               <span>EN</span>
             </div>
 
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="hidden md:flex items-center border border-slate-300 px-2 py-1 rounded-sm text-xs font-bold text-slate-700 hover:bg-slate-50"
+                  data-testid="button-display-currency"
+                >
+                  {currency}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-28">
+                {currencies.map((code) => (
+                  <DropdownMenuItem
+                    key={code}
+                    onClick={() => setCurrency(code)}
+                    className={code === currency ? "font-bold" : undefined}
+                    data-testid={`option-display-currency-${code.toLowerCase()}`}
+                  >
+                    {code}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             {isVendor && (
               <Link href="/vendor/supplier-zone">
                 <Button 
@@ -271,6 +303,19 @@ export default function Navbar() {
               </Link>
             )}
 
+            {isLoggedIn && (
+              <Link href="/account/notifications">
+                <Button variant="ghost" size="icon" className="relative text-slate-600 hover:text-[#D97706]" data-testid="button-notifications">
+                  <Bell className="h-5 w-5" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-[#D97706] text-white text-[10px] w-4 h-4 rounded-full grid place-items-center font-bold">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </Button>
+              </Link>
+            )}
+
             <Link href="/cart">
               <Button variant="ghost" size="icon" className="relative text-slate-600 hover:text-[#D97706]">
                 <ShoppingCart className="h-5 w-5" />
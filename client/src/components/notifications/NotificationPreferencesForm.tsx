@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { api, type NotificationPreferenceSetting } from "@/lib/api";
+import { Loader2 } from "lucide-react";
+
+// In-app and email switches for each notification type the signed-in user's role receives
+export default function NotificationPreferencesForm() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<NotificationPreferenceSetting[]>([]);
+
+  const { data: preferences, isLoading } = useQuery({
+    queryKey: ['notifications', 'preferences'],
+    queryFn: () => api.notifications.getPreferences(),
+  });
+
+  useEffect(() => {
+    if (preferences) setDraft(preferences);
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.notifications.updatePreferences(draft.map(({ type, inApp, email }) => ({ type, inApp, email }))),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['notifications', 'preferences'], saved);
+      toast({ title: "Notifications updated", description: "Your notification preferences have been saved." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save preferences", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (type: string, channel: 'inApp' | 'email', value: boolean) => {
+    setDraft(draft.map(preference => preference.type === type ? { ...preference, [channel]: value } : preference));
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-6 w-6 animate-spin text-orange-600" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end gap-8 text-xs font-medium text-slate-500 uppercase">
+        <span>In-app</span>
+        <span>Email</span>
+      </div>
+      {draft.map((preference, index) => (
+        <div key={preference.type}>
+          {index > 0 && <Separator className="mb-4" />}
+          <div className="flex items-center justify-between gap-4">
+            <Label>{preference.label}</Label>
+            <div className="flex items-center gap-8">
+              <Switch
+                checked={preference.inApp}
+                onCheckedChange={(checked) => update(preference.type, 'inApp', checked)}
+                data-testid={`switch-${preference.type}-in-app`}
+              />
+              <Switch
+                checked={preference.email}
+                onCheckedChange={(checked) => update(preference.type, 'email', checked)}
+                data-testid={`switch-${preference.type}-email`}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+      <Button
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending || draft.length === 0}
+        data-testid="button-save-notifications"
+      >
+        Save Preferences
+      </Button>
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Package } from "lucide-react";
+import { decode } from "blurhash";
+import type { ProductImageSet } from "@shared/schema";
 
 interface ProductImageProps {
   src?: string | null;
+  // Processed renditions from the product APIs; preferred over src when present
+  image?: ProductImageSet | null;
+  // Rendered width hint for picking a rendition, e.g. "(min-width: 1024px) 25vw, 50vw"
+  sizes?: string;
   alt: string;
   className?: string;
   placeholderClassName?: string;
@@ -10,11 +16,30 @@ interface ProductImageProps {
 
 const PLACEHOLDER_IMAGE = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='400' viewBox='0 0 400 400'%3E%3Crect fill='%23e2e8f0' width='400' height='400'/%3E%3Ctext x='50%25' y='50%25' dominant-baseline='middle' text-anchor='middle' font-family='sans-serif' font-size='48' fill='%2394a3b8'%3ENo Image%3C/text%3E%3C/svg%3E";
 
-export default function ProductImage({ src, alt, className = "", placeholderClassName = "" }: ProductImageProps) {
+// Small blurred preview shown while the real image loads
+function blurhashToDataUrl(hash: string): string | undefined {
+  try {
+    const size = 32;
+    const pixels = decode(hash, size, size);
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext("2d");
+    if (!context) return undefined;
+    context.putImageData(new ImageData(pixels, size, size), 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return undefined;
+  }
+}
+
+export default function ProductImage({ src, image, sizes = "100vw", alt, className = "", placeholderClassName = "" }: ProductImageProps) {
   const [hasError, setHasError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const blurPreview = useMemo(() => image?.blurhash ? blurhashToDataUrl(image.blurhash) : undefined, [image?.blurhash]);
 
-  const showPlaceholder = !src || hasError;
+  const fallbackSrc = image?.src || src;
+  const showPlaceholder = !fallbackSrc || hasError;
 
   if (showPlaceholder) {
     return (
@@ -27,23 +52,39 @@ export default function ProductImage({ src, alt, className = "", placeholderClas
     );
   }
 
+  const img = (
+    <img
+      src={fallbackSrc}
+      alt={alt}
+      width={image?.width ?? undefined}
+      height={image?.height ?? undefined}
+      decoding="async"
+      className={`${className} ${isLoading ? 'hidden' : ''}`}
+      onError={() => {
+        setHasError(true);
+        setIsLoading(false);
+      }}
+      onLoad={() => setIsLoading(false)}
+    />
+  );
+
   return (
     <>
-      {isLoading && (
+      {isLoading && (blurPreview ? (
+        <img src={blurPreview} alt="" aria-hidden="true" className={`${placeholderClassName || className} object-cover`} />
+      ) : (
         <div className={`flex items-center justify-center bg-slate-100 animate-pulse ${placeholderClassName || className}`}>
           <Package className="h-8 w-8 text-slate-300" />
         </div>
-      )}
-      <img
-        src={src}
-        alt={alt}
-        className={`${className} ${isLoading ? 'hidden' : ''}`}
-        onError={() => {
-          setHasError(true);
-          setIsLoading(false);
-        }}
-        onLoad={() => setIsLoading(false)}
-      />
+      ))}
+      {image && image.sources.length > 0 ? (
+        <picture>
+          {image.sources.map((source) => (
+            <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+          ))}
+          {img}
+        </picture>
+      ) : img}
     </>
   );
 }
@@ -0,0 +1,62 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { api, getAccessToken } from "@/lib/api";
+import { BASE_CURRENCY, convertCurrency, currencyDecimals } from "@shared/schema";
+
+const DISPLAY_CURRENCY_KEY = "display_currency";
+
+// The buyer's display currency: their local choice, else the one saved on their account
+async function loadDisplayCurrency(): Promise<string> {
+  const stored = localStorage.getItem(DISPLAY_CURRENCY_KEY);
+  if (stored) return stored;
+  if (getAccessToken()) {
+    try {
+      const me = await api.auth.me();
+      if (me.displayCurrency) return me.displayCurrency;
+    } catch {
+      // Fall back to the base currency
+    }
+  }
+  return BASE_CURRENCY;
+}
+
+export function useCurrency() {
+  const queryClient = useQueryClient();
+
+  const { data: fx } = useQuery({
+    queryKey: ['fx-rates'],
+    queryFn: api.fxRates.getCurrent,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const { data: currency = BASE_CURRENCY } = useQuery({
+    queryKey: ['display-currency'],
+    queryFn: loadDisplayCurrency,
+    staleTime: Infinity,
+  });
+
+  const currencies = fx ? Object.keys(fx.rates).sort((a, b) => (a === BASE_CURRENCY ? -1 : b === BASE_CURRENCY ? 1 : a.localeCompare(b))) : [BASE_CURRENCY];
+
+  const setCurrency = useCallback((code: string) => {
+    localStorage.setItem(DISPLAY_CURRENCY_KEY, code);
+    queryClient.setQueryData(['display-currency'], code);
+    if (getAccessToken()) {
+      api.auth.updatePreferences({ displayCurrency: code }).catch(() => {
+        // The local choice still applies on this device
+      });
+    }
+  }, [queryClient]);
+
+  // Formats an amount priced in `from` (the base currency when unset) in the display currency;
+  // amounts that cannot be converted are shown in their own currency
+  const format = useCallback((amount: number | string, from?: string | null) => {
+    const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+    const source = (from || BASE_CURRENCY).toUpperCase();
+    const converted = fx ? convertCurrency(value, source, currency, fx.rates) : null;
+    const [code, shown] = converted === null ? [source, value] : [currency, converted];
+    const decimals = currencyDecimals(code);
+    return `${code} ${shown.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`;
+  }, [fx, currency]);
+
+  return { currency, currencies, setCurrency, format, rates: fx?.rates };
+}
@@ -1,7 +1,13 @@
-import type { Product, Category, Review, CartItem, Order, Refund, RefundItem, Address, SavedPaymentMethod } from "@shared/schema";
+import type { Product, ProductSearchParams, ProductSearchResult, ProductVehicleFitmentWithVehicle, Vehicle, UserVehicle, UserVehicleWithVehicle, Category, Review, CartItem, CartItemPricing, Wishlist, WishlistItem, WishlistItemWithProduct, Rfq, RfqQuote, RfqWithDetails, Order, Refund, RefundItem, Address, SavedPaymentMethod, ProductImageSet, ProductVariant, ComplianceDocument, CreditAccountWithBalance, Invoice, InvoiceWithDetails, TaxDocument, CartTotals, FxRateTable, Notification, NotificationEventType } from "@shared/schema";
 
 const API_BASE = "/api";
 
+// Product list endpoints add the processed cover image; the details endpoint adds every image
+export type ProductWithCover = Product & { coverImage?: ProductImageSet | null };
+export type ProductWithImages = Product & { images: ProductImageSet[]; variants: ProductVariant[] };
+// One notification type with the user's channels, defaults filled in
+export type NotificationPreferenceSetting = { type: NotificationEventType; label: string; inApp: boolean; email: boolean };
+
 // Token storage keys
 const ACCESS_TOKEN_KEY = 'access_token';
 const REFRESH_TOKEN_KEY = 'refresh_token';
@@ -81,6 +87,14 @@ async function refreshAccessToken(): Promise<boolean> {
   return refreshPromise;
 }
 
+// Access token for connections that cannot retry on 401 (e.g. the realtime socket)
+export async function getFreshAccessToken(): Promise<string | null> {
+  if (isTokenExpiringSoon() && getRefreshToken()) {
+    await refreshAccessToken();
+  }
+  return getAccessToken();
+}
+
 function getAuthHeaders(): HeadersInit {
   const token = getAccessToken();
   return token ? { Authorization: `Bearer ${token}` } : {};
@@ -117,6 +131,43 @@ async function fetchJson<T>(url: string, options?: RequestInit, retry = true): P
   return response.json();
 }
 
+// Fetches an authenticated file (e.g. a PDF) and hands it to the browser as a download
+async function downloadFile(url: string, fileName: string): Promise<void> {
+  if (isTokenExpiringSoon() && getRefreshToken()) {
+    await refreshAccessToken();
+  }
+
+  const response = await fetch(`${API_BASE}${url}`, { headers: getAuthHeaders() });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || "Download failed");
+  }
+
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+// Move wishlist product IDs saved in the browser (pre-login) to the server-side default list
+export async function syncLocalWishlist(): Promise<void> {
+  const stored = localStorage.getItem('wishlist');
+  if (!stored) return;
+
+  try {
+    const productIds = JSON.parse(stored);
+    if (Array.isArray(productIds) && productIds.length > 0) {
+      await api.wishlists.import(productIds.filter((id): id is number => typeof id === 'number'));
+    }
+    localStorage.removeItem('wishlist');
+  } catch (error) {
+    // Keep the local list so the next login can retry
+    console.error("Failed to sync local wishlist:", error);
+  }
+}
+
 export const api = {
   // Products
   products: {
@@ -133,18 +184,76 @@ export const api = {
       if (filters?.maxPrice) params.set("maxPrice", filters.maxPrice.toString());
       
       const query = params.toString();
-      return fetchJson<Product[]>(`/products${query ? `?${query}` : ""}`);
+      return fetchJson<ProductWithCover[]>(`/products${query ? `?${query}` : ""}`);
     },
     
-    getFeatured: () => fetchJson<Product[]>("/products/featured"),
+    search: (params: ProductSearchParams) => {
+      const query = new URLSearchParams();
+      if (params.q) query.set("q", params.q);
+      if (params.categoryId) query.set("categoryId", params.categoryId.toString());
+      if (params.minPrice !== undefined) query.set("minPrice", params.minPrice.toString());
+      if (params.maxPrice !== undefined) query.set("maxPrice", params.maxPrice.toString());
+      if (params.sort) query.set("sort", params.sort);
+      if (params.page) query.set("page", params.page.toString());
+      if (params.limit) query.set("limit", params.limit.toString());
+      if (params.vehicleId) query.set("vehicleId", params.vehicleId.toString());
+      if (params.vehicleYear) query.set("year", params.vehicleYear.toString());
+      Object.entries(params.filters || {}).forEach(([field, values]) => {
+        if (values && values.length > 0) query.set(field, values.join(","));
+      });
+
+      return fetchJson<ProductSearchResult>(`/products/search?${query.toString()}`);
+    },
     
-    getTopSelling: () => fetchJson<Product[]>("/products/top-selling"),
+    getFeatured: () => fetchJson<ProductWithCover[]>("/products/featured"),
     
-    getById: (id: number) => fetchJson<Product>(`/products/${id}`),
+    getTopSelling: () => fetchJson<ProductWithCover[]>("/products/top-selling"),
     
-    getSimilar: (id: number) => fetchJson<Product[]>(`/products/${id}/similar`),
+    getById: (id: number) => fetchJson<ProductWithImages>(`/products/${id}`),
     
-    getRecommended: (id: number) => fetchJson<Product[]>(`/products/${id}/recommended`),
+    getSimilar: (id: number) => fetchJson<ProductWithCover[]>(`/products/${id}/similar`),
+    
+    getRecommended: (id: number) => fetchJson<ProductWithCover[]>(`/products/${id}/recommended`),
+
+    getFitment: (id: number) => fetchJson<ProductVehicleFitmentWithVehicle[]>(`/products/${id}/fitment`),
+  },
+
+  // Vehicle catalogue
+  vehicles: {
+    getMakes: () => fetchJson<string[]>("/vehicles/makes"),
+
+    getModels: (make: string) => fetchJson<string[]>(`/vehicles/models?make=${encodeURIComponent(make)}`),
+
+    search: (filters: { make?: string; model?: string; year?: number }) => {
+      const params = new URLSearchParams();
+      if (filters.make) params.set("make", filters.make);
+      if (filters.model) params.set("model", filters.model);
+      if (filters.year) params.set("year", filters.year.toString());
+      return fetchJson<Vehicle[]>(`/vehicles?${params.toString()}`);
+    },
+  },
+
+  // My garage
+  garage: {
+    getAll: () => fetchJson<UserVehicleWithVehicle[]>("/garage"),
+
+    add: (data: { vehicleId: number; year?: number; nickname?: string; isDefault?: boolean }) =>
+      fetchJson<UserVehicleWithVehicle>("/garage", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
+    update: (id: number, data: { year?: number | null; nickname?: string | null; isDefault?: boolean }) =>
+      fetchJson<UserVehicle>(`/garage/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }),
+
+    remove: (id: number) =>
+      fetch(`${API_BASE}/garage/${id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      }),
   },
 
   // Categories
@@ -152,6 +261,11 @@ export const api = {
     getAll: () => fetchJson<Category[]>("/categories"),
   },
 
+  // Exchange rates in force, as AED per unit of each currency
+  fxRates: {
+    getCurrent: () => fetchJson<FxRateTable>("/reference/fx-rates"),
+  },
+
   // Reviews
   reviews: {
     getByProduct: (productId: number) => 
@@ -166,12 +280,15 @@ export const api = {
 
   // Cart
   cart: {
-    get: () => fetchJson<(CartItem & { product: Product })[]>("/cart"),
+    get: () => fetchJson<(CartItem & { product: Product; variant: ProductVariant | null; pricing: CartItemPricing })[]>("/cart"),
+
+    getTotals: (addressId?: number) =>
+      fetchJson<CartTotals>(`/cart/totals${addressId ? `?addressId=${addressId}` : ''}`),
     
-    add: (productId: number, quantity: number = 1) =>
+    add: (productId: number, quantity: number = 1, variantId?: number) =>
       fetchJson<CartItem>("/cart", {
         method: "POST",
-        body: JSON.stringify({ productId, quantity }),
+        body: JSON.stringify({ productId, quantity, variantId }),
       }),
     
     update: (id: number, quantity: number) =>
@@ -185,12 +302,135 @@ export const api = {
         method: "DELETE",
         headers: getAuthHeaders(),
       }),
+
+    moveToWishlist: (id: number, wishlistId?: number) =>
+      fetchJson<WishlistItem>(`/cart/${id}/move-to-wishlist`, {
+        method: "POST",
+        body: JSON.stringify({ wishlistId }),
+      }),
+  },
+
+  // Wishlists
+  wishlists: {
+    getAll: () => fetchJson<(Wishlist & { itemCount: number })[]>("/wishlists"),
+
+    get: (id: number) => fetchJson<Wishlist & { items: WishlistItemWithProduct[] }>(`/wishlists/${id}`),
+
+    create: (name: string) =>
+      fetchJson<Wishlist>("/wishlists", {
+        method: "POST",
+        body: JSON.stringify({ name }),
+      }),
+
+    rename: (id: number, name: string) =>
+      fetchJson<Wishlist>(`/wishlists/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name }),
+      }),
+
+    remove: (id: number) =>
+      fetch(`${API_BASE}/wishlists/${id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      }),
+
+    addItem: (wishlistId: number | 'default', productId: number) =>
+      fetchJson<WishlistItem>(`/wishlists/${wishlistId}/items`, {
+        method: "POST",
+        body: JSON.stringify({ productId }),
+      }),
+
+    removeItem: (wishlistId: number, itemId: number) =>
+      fetch(`${API_BASE}/wishlists/${wishlistId}/items/${itemId}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      }),
+
+    moveToCart: (wishlistId: number, itemId: number) =>
+      fetchJson<CartItem>(`/wishlists/${wishlistId}/items/${itemId}/move-to-cart`, {
+        method: "POST",
+      }),
+
+    import: (productIds: number[]) =>
+      fetchJson<{ wishlist: Wishlist; imported: number }>("/wishlists/import", {
+        method: "POST",
+        body: JSON.stringify({ productIds }),
+      }),
   },
   
   // Checkout
   checkout: {
-    createSession: () => 
-      fetchJson<{ url?: string; testMode?: boolean; error?: string }>("/checkout/create-session", {
+    // addressId and complianceDocumentId are required when the cart has export-controlled items;
+    // savedPaymentMethodId charges a saved card instead of opening the Stripe payment page;
+    // paymentMethod 'invoice' places the order on the buyer's credit account against a PO number;
+    // currency charges in that currency instead of AED
+    createSession: (body: { addressId?: number; complianceDocumentId?: string; savedPaymentMethodId?: number; paymentMethod?: 'card' | 'invoice'; poNumber?: string; currency?: string } = {}) => 
+      fetchJson<{ url?: string | null; testMode?: boolean; orderId?: string; held?: boolean; paid?: boolean; processing?: boolean; invoiced?: boolean; invoice?: Invoice; savedMethodError?: string; message?: string; error?: string }>("/checkout/create-session", {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+  },
+
+  // Export compliance documents for controlled items
+  compliance: {
+    getDocuments: () => fetchJson<ComplianceDocument[]>("/compliance/documents"),
+
+    createDocument: (data: Pick<ComplianceDocument, 'type' | 'documentNumber' | 'issuingCountry' | 'endUserName' | 'fileId'> & { validUntil?: string }) =>
+      fetchJson<ComplianceDocument>("/compliance/documents", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+  },
+
+  // Net-terms credit for business buyers
+  credit: {
+    get: () => fetchJson<CreditAccountWithBalance | null>("/credit-account"),
+
+    apply: (data: { requestedLimit: number; paymentTerms: 'net_30' | 'net_60'; billingEmail?: string; note?: string }) =>
+      fetchJson<CreditAccountWithBalance>("/credit-account", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+  },
+
+  invoices: {
+    getAll: (status?: Invoice['status']) =>
+      fetchJson<{ invoices: Invoice[]; total: number }>(`/invoices${status ? `?status=${status}` : ''}`),
+
+    get: (id: string) => fetchJson<InvoiceWithDetails>(`/invoices/${id}`),
+  },
+
+  // Requests for quotation
+  rfqs: {
+    getAll: (status?: Rfq['status']) =>
+      fetchJson<RfqWithDetails[]>(`/rfqs${status ? `?status=${status}` : ''}`),
+
+    get: (id: string) => fetchJson<RfqWithDetails>(`/rfqs/${id}`),
+
+    create: (data: {
+      items: { productId: number; variantId?: number; quantity: number; notes?: string }[];
+      deliveryTerms?: string;
+      deliveryCountry?: string;
+      targetDate?: string;
+      notes?: string;
+    }) =>
+      fetchJson<Rfq[]>("/rfqs", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
+    cancel: (id: string) =>
+      fetchJson<Rfq>(`/rfqs/${id}/cancel`, {
+        method: "POST",
+      }),
+
+    acceptQuote: (id: string, quoteId: number) =>
+      fetchJson<{ url?: string; testMode?: boolean; orderId: string }>(`/rfqs/${id}/quotes/${quoteId}/accept`, {
+        method: "POST",
+      }),
+
+    rejectQuote: (id: string, quoteId: number) =>
+      fetchJson<RfqQuote>(`/rfqs/${id}/quotes/${quoteId}/reject`, {
         method: "POST",
       }),
   },
@@ -206,6 +446,23 @@ export const api = {
         method: "POST",
         body: JSON.stringify({ items }),
       }),
+
+    getCompliance: (id: string) =>
+      fetchJson<{ status: 'held' | 'approved' | 'rejected' | null; reviewedAt: string | null; note: string | null; canPay: boolean }>(`/orders/${id}/compliance`),
+
+    // Tax invoices (one per shipped vendor shipment) and credit notes for completed refunds
+    getTaxDocuments: (id: string) => fetchJson<TaxDocument[]>(`/orders/${id}/tax-documents`),
+
+    // Starts payment for an order approved after a compliance hold
+    pay: (id: string) =>
+      fetchJson<{ url?: string | null; testMode?: boolean; orderId: string; message?: string }>(`/orders/${id}/pay`, {
+        method: "POST",
+      }),
+  },
+
+  taxDocuments: {
+    downloadPdf: (document: Pick<TaxDocument, 'id' | 'documentNumber'>) =>
+      downloadFile(`/tax-documents/${document.id}/pdf`, `${document.documentNumber}.pdf`),
   },
 
   // Refunds
@@ -215,6 +472,36 @@ export const api = {
     getById: (id: string) => fetchJson<Refund & { items: RefundItem[] }>(`/refunds/${id}`),
   },
 
+  // In-app notifications and per-type channel preferences, for every role
+  notifications: {
+    getAll: (filters?: { unreadOnly?: boolean; page?: number; limit?: number }) => {
+      const params = new URLSearchParams();
+      if (filters?.unreadOnly) params.set("unreadOnly", "true");
+      if (filters?.page) params.set("page", filters.page.toString());
+      if (filters?.limit) params.set("limit", filters.limit.toString());
+
+      const query = params.toString();
+      return fetchJson<{ notifications: Notification[]; total: number; unreadCount: number }>(`/notifications${query ? `?${query}` : ""}`);
+    },
+
+    markRead: (id: number) =>
+      fetchJson<Notification>(`/notifications/${id}/read`, { method: "POST" }),
+
+    markAllRead: () =>
+      fetchJson<{ marked: number }>("/notifications/read-all", { method: "POST" }),
+
+    delete: (id: number) =>
+      fetchJson<{ success: boolean }>(`/notifications/${id}`, { method: "DELETE" }),
+
+    getPreferences: () => fetchJson<NotificationPreferenceSetting[]>("/notifications/preferences"),
+
+    updatePreferences: (preferences: Pick<NotificationPreferenceSetting, 'type' | 'inApp' | 'email'>[]) =>
+      fetchJson<NotificationPreferenceSetting[]>("/notifications/preferences", {
+        method: "PUT",
+        body: JSON.stringify({ preferences }),
+      }),
+  },
+
   // Vendor
   vendor: {
     getStats: () => 
@@ -231,6 +518,11 @@ export const api = {
     deleteProduct: (id: number) =>
       fetchJson<{ success: boolean }>(`/vendor/products/${id}`, { method: "DELETE" }),
     
+    getProductVariants: (id: number) => fetchJson<ProductVariant[]>(`/vendor/products/${id}/variants`),
+    
+    setProductVariants: (id: number, variants: (Pick<ProductVariant, 'sku' | 'size' | 'color' | 'thickness' | 'driveType' | 'price' | 'stock'> & { id?: number })[]) =>
+      fetchJson<ProductVariant[]>(`/vendor/products/${id}/variants`, { method: "PUT", body: JSON.stringify({ variants }) }),
+    
     getOrders: () => fetchJson<any[]>("/vendor/orders"),
     
     updateOrderStatus: (orderId: string, status: string, note?: string) =>
@@ -241,6 +533,8 @@ export const api = {
     
     getOrderHistory: (orderId: string) => fetchJson<any[]>(`/vendor/orders/${orderId}/history`),
     
+    getOrderTaxDocuments: (orderId: string) => fetchJson<TaxDocument[]>(`/vendor/orders/${orderId}/tax-documents`),
+    
     getCustomers: () => fetchJson<any[]>("/vendor/customers"),
     
     getAnalytics: () => fetchJson<{
@@ -260,10 +554,7 @@ export const api = {
     get: () => 
       fetchJson<{
         brands: string[];
-        departments: string[];
-        productTypes: { name: string; image: string }[];
-        surfaceTypes: string[];
-        frictionalMaterials: string[];
+        facets: ProductSearchResult['facets'];
       }>("/filters"),
   },
 
@@ -307,6 +598,28 @@ export const api = {
         };
       }),
 
+    forgotPassword: (email: string) =>
+      fetch(`${API_BASE}/auth/password/forgot`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      }).then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Could not send reset code');
+        return data as { message: string; expiresIn: number; debugOtp?: string };
+      }),
+
+    resetPassword: (data: { email?: string; code?: string; token?: string; password: string }) =>
+      fetch(`${API_BASE}/auth/password/reset`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      }).then(async (res) => {
+        const result = await res.json();
+        if (!res.ok) throw new Error(result.error || 'Password reset failed');
+        return result as { message: string };
+      }),
+
     logout: () =>
       fetch(`${API_BASE}/auth/logout`, {
         method: 'POST',
@@ -330,7 +643,13 @@ export const api = {
       fetchJson<{ message: string }>(`/auth/sessions/${sessionId}`, { method: 'DELETE' }),
 
     me: () =>
-      fetchJson<{ id: string; email: string; name: string; userType: string; completionPercentage?: number }>('/auth/me'),
+      fetchJson<{ id: string; email: string; name: string; userType: string; displayCurrency?: string | null; completionPercentage?: number }>('/auth/me'),
+
+    updatePreferences: (preferences: { displayCurrency: string | null }) =>
+      fetchJson<{ displayCurrency: string | null }>('/auth/preferences', {
+        method: 'PUT',
+        body: JSON.stringify(preferences),
+      }),
   },
 
   // Addresses
@@ -349,7 +668,10 @@ export const api = {
   // Saved Payments (PCI-DSS, RBI, UAE Central Bank compliant)
   payments: {
     getAll: () => fetchJson<SavedPaymentMethod[]>('/payments'),
-    create: (data: Partial<SavedPaymentMethod>) => 
+    // Cards are entered on Stripe's hosted page, which returns with a setup_session_id to save
+    createSetupSession: () =>
+      fetchJson<{ url: string }>('/payments/setup-session', { method: 'POST' }),
+    create: (data: { setupSessionId?: string; setupIntentId?: string; country?: string; hasRbiConsent?: boolean; isDefault?: boolean }) => 
       fetchJson<SavedPaymentMethod>('/payments', { method: 'POST', body: JSON.stringify(data) }),
     delete: (id: number) => 
       fetchJson<{ success: boolean }>(`/payments/${id}`, { method: 'DELETE' }),
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { getAccessToken, getFreshAccessToken } from "./api";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -167,6 +168,25 @@ export async function api<T = unknown>(
   }
 }
 
+// Uploads one file (multipart) and returns its id and /api/files/:id URL for use in later requests
+export async function uploadFileRecord(file: File, purpose: string): Promise<{ id: string; url: string }> {
+  const response = await api<{ id: string; url: string }>({
+    endpoint: "/api/uploads",
+    method: "POST",
+    body: { purpose, file },
+    bodyType: "formdata",
+    requireAuth: true,
+  });
+  if (!response.ok || !response.data) {
+    throw new Error(response.error || "Upload failed");
+  }
+  return response.data;
+}
+
+export async function uploadFile(file: File, purpose: string): Promise<string> {
+  return (await uploadFileRecord(file, purpose)).url;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -245,3 +265,130 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// ===== Realtime =====
+// The server pushes small "something changed" messages over /api/realtime; each one
+// invalidates the queries that show that data so they refetch in the background.
+
+type RealtimeMessage =
+  | { type: 'notifications.count'; unreadCount: number }
+  | { type: 'order.created'; orderId: string }
+  | { type: 'order.status_changed'; orderId: string; shipmentId?: string; status: string }
+  | { type: 'refund.updated'; refundId: string; orderId: string }
+  | { type: 'product.reviewed'; productId: number }
+  | { type: 'ticket.message'; ticketId: string }
+  | { type: 'catalog_import.updated'; jobId: string; status: string }
+  | { type: 'admin.queue'; queue: 'orders' | 'refunds' | 'products' | 'tickets' | 'vendors' | 'compliance' | 'credit' };
+
+const REALTIME_PATH = "/api/realtime";
+// Sent by the server when the access token expires; reconnect straight away with a fresh one
+const CLOSE_AUTH_EXPIRED = 4001;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const TOKEN_CHECK_INTERVAL_MS = 5000;
+
+function invalidateForMessage(message: RealtimeMessage) {
+  const keys: unknown[][] = [];
+  switch (message.type) {
+    case 'order.created':
+    case 'order.status_changed':
+      // Net-terms orders change the invoice list and credit balance; cancelled RFQ orders reopen their RFQ
+      keys.push(['orders'], ['vendor-orders'], ['vendor-analytics'], ['vendor-customers'], ['invoices'], ['credit-account'], ['rfqs']);
+      break;
+    case 'refund.updated':
+      keys.push(['refund', message.refundId], ['orders'], ['vendor-orders'], ['invoices'], ['credit-account']);
+      break;
+    case 'product.reviewed':
+      keys.push(['vendor-products'], ['product', message.productId]);
+      break;
+    case 'catalog_import.updated':
+      keys.push(['vendor-products']);
+      break;
+    case 'notifications.count':
+      keys.push(['notifications', 'list']);
+      break;
+    // No screen in this client lists support tickets or admin queues yet
+    case 'ticket.message':
+    case 'admin.queue':
+      break;
+  }
+  keys.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  if (message.type === 'notifications.count') {
+    queryClient.setQueryData(['notifications', 'unread-count'], message.unreadCount);
+  }
+}
+
+/**
+ * Keeps a realtime connection open for whoever is signed in. Reconnects with backoff when the
+ * connection drops and switches user when the stored token changes (login, logout, refresh).
+ * Returns a function that closes the connection.
+ */
+export function connectRealtime(): () => void {
+  let socket: WebSocket | null = null;
+  let connectedToken: string | null = null;
+  let connecting = false;
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const scheduleReconnect = (delay: number) => {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    if (connecting || stopped) return;
+    connecting = true;
+    const token = await getFreshAccessToken().finally(() => { connecting = false; });
+    if (stopped || !token || socket) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?token=${encodeURIComponent(token)}`);
+    socket = ws;
+    connectedToken = token;
+
+    ws.onopen = () => {
+      attempts = 0;
+    };
+    ws.onmessage = (event) => {
+      try {
+        invalidateForMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Invalid realtime message:", error);
+      }
+    };
+    ws.onclose = (event) => {
+      // Replaced connections were already cleared by the token check
+      if (socket !== ws) return;
+      socket = null;
+      connectedToken = null;
+      if (stopped) return;
+      scheduleReconnect(event.code === CLOSE_AUTH_EXPIRED
+        ? 0
+        : Math.min(1000 * 2 ** attempts++, RECONNECT_MAX_DELAY_MS));
+    };
+  };
+
+  const tokenCheck = setInterval(() => {
+    const stored = getAccessToken();
+    if (stored === connectedToken) return;
+    if (socket) {
+      const previous = socket;
+      socket = null;
+      connectedToken = null;
+      previous.close();
+    }
+    if (stored && reconnectTimer === undefined) connect();
+  }, TOKEN_CHECK_INTERVAL_MS);
+
+  connect();
+
+  return () => {
+    stopped = true;
+    clearInterval(tokenCheck);
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+}
@@ -0,0 +1,180 @@
+import Layout from "@/components/layout/Layout";
+import AccountSidebar from "@/components/layout/AccountSidebar";
+import NotificationPreferencesForm from "@/components/notifications/NotificationPreferencesForm";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, getAccessToken, clearTokens } from "@/lib/api";
+import { Link, useLocation } from "wouter";
+import { Bell, Loader2, Trash2 } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+export default function NotificationsPage() {
+  const [, setLocation] = useLocation();
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const authenticated = !!getAccessToken();
+    setIsAuthenticated(authenticated);
+
+    if (!authenticated) {
+      setLocation('/auth/login');
+    }
+  }, [setLocation]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notifications', 'list'],
+    queryFn: () => api.notifications.getAll({ limit: 50 }),
+    enabled: !!isAuthenticated,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
+    queryClient.invalidateQueries({ queryKey: ['notifications', 'unread-count'] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: number) => api.notifications.markRead(id),
+    onSuccess: refresh,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => api.notifications.markAllRead(),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Could not mark notifications as read", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.notifications.delete(id),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Could not delete notification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleLogout = async () => {
+    try {
+      await api.auth.logout();
+    } catch (e) {
+      // Ignore errors
+    }
+    clearTokens();
+    setLocation('/');
+  };
+
+  if (isAuthenticated === null || isLoading) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex items-center justify-center bg-slate-50">
+          <Loader2 className="h-8 w-8 animate-spin text-orange-600" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const notifications = data?.notifications || [];
+
+  return (
+    <Layout>
+      <div className="bg-slate-50 min-h-screen py-8">
+        <div className="container mx-auto px-4">
+          <div className="flex flex-col lg:flex-row gap-8">
+
+            <AccountSidebar
+              activeSection="notifications"
+              onLogout={handleLogout}
+            />
+
+            <main className="flex-1 space-y-8">
+              <section>
+                <div className="flex justify-between items-center mb-6">
+                  <h1 className="text-2xl font-display font-bold uppercase">Notifications</h1>
+                  {!!data?.unreadCount && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => markAllReadMutation.mutate()}
+                      disabled={markAllReadMutation.isPending}
+                      data-testid="button-mark-all-read"
+                    >
+                      Mark all as read
+                    </Button>
+                  )}
+                </div>
+
+                {notifications.length === 0 ? (
+                  <div className="bg-[#EFEBE4] rounded-lg p-12 text-center">
+                    <Bell className="h-16 w-16 mx-auto text-slate-400 mb-4" />
+                    <h2 className="text-xl font-bold mb-2 text-slate-800">No notifications yet</h2>
+                    <p className="text-slate-500">Order, refund and invoice updates will appear here</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-sm divide-y">
+                    {notifications.map((notification) => (
+                      <div
+                        key={notification.id}
+                        className={`flex items-start gap-4 p-4 ${notification.isRead ? '' : 'bg-orange-50'}`}
+                        data-testid={`notification-${notification.id}`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="font-bold text-sm text-slate-900">{notification.title}</div>
+                          <p className="text-sm text-slate-600 mt-1">{notification.message}</p>
+                          <div className="flex items-center gap-3 text-xs text-muted-foreground mt-2">
+                            <span>{new Date(notification.createdAt).toLocaleString()}</span>
+                            {notification.link && (
+                              <Link href={notification.link}>
+                                <span
+                                  className="text-orange-600 hover:underline cursor-pointer"
+                                  onClick={() => !notification.isRead && markReadMutation.mutate(notification.id)}
+                                >
+                                  View details
+                                </span>
+                              </Link>
+                            )}
+                            {!notification.isRead && (
+                              <button
+                                className="hover:text-slate-900"
+                                onClick={() => markReadMutation.mutate(notification.id)}
+                                data-testid={`notification-read-${notification.id}`}
+                              >
+                                Mark as read
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-slate-400 hover:text-red-500"
+                          onClick={() => deleteMutation.mutate(notification.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`notification-delete-${notification.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-lg font-bold mb-1">Preferences</h2>
+                <p className="text-sm text-slate-500 mb-6">Choose how you hear about each kind of update</p>
+                <NotificationPreferencesForm />
+              </section>
+            </main>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -2,20 +2,23 @@ import Layout from "@/components/layout/Layout";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import ProductImage from "@/components/ui/product-image";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { getAccessToken, clearTokens, api } from "@/lib/api";
 import { Link, useLocation, useRoute } from "wouter";
 import { 
   User, Package, Heart, RotateCcw, Shield, Bell, Lock, 
   LogOut, ChevronLeft, CheckCircle2, XCircle, Clock, Truck, MapPin,
-  CreditCard, AlertCircle
+  CreditCard, AlertCircle, ShieldCheck, Loader2, FileText, Download
 } from "lucide-react";
 import { useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { BASE_CURRENCY } from "@shared/schema";
 
 export default function OrderDetailsPage() {
   const [, setLocation] = useLocation();
   const [, params] = useRoute("/account/orders/:id/details");
   const orderId = params?.id || "";
+  const { toast } = useToast();
 
   useEffect(() => {
     const token = getAccessToken();
@@ -36,6 +39,40 @@ export default function OrderDetailsPage() {
 
   const order = orders?.find(o => o.id === orderId);
 
+  // Orders with export-controlled items may be held for review before payment
+  const { data: compliance } = useQuery({
+    queryKey: ['orders', orderId, 'compliance'],
+    queryFn: () => api.orders.getCompliance(orderId),
+    enabled: !!order,
+  });
+
+  const { data: taxDocuments } = useQuery({
+    queryKey: ['orders', orderId, 'tax-documents'],
+    queryFn: () => api.orders.getTaxDocuments(orderId),
+    enabled: !!order,
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: api.taxDocuments.downloadPdf,
+    onError: (error: Error) => {
+      toast({ title: "Download failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: () => api.orders.pay(orderId),
+    onSuccess: (data) => {
+      if (data.url) {
+        window.location.href = data.url;
+      } else if (data.testMode) {
+        toast({ title: "Sample Environment", description: data.message || "Stripe is not configured." });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Payment Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleLogout = async () => {
     clearTokens();
     setLocation('/');
@@ -174,6 +211,45 @@ export default function OrderDetailsPage() {
                 </h1>
               </div>
 
+              {compliance?.status && (
+                <div className={`mb-6 p-4 rounded-lg border flex items-center justify-between gap-4 ${compliance.status === 'rejected' ? 'bg-red-50 border-red-200' : compliance.status === 'held' ? 'bg-orange-50 border-orange-200' : 'bg-green-50 border-green-200'}`} data-testid="compliance-status">
+                  <div className="flex items-start gap-3">
+                    <ShieldCheck className="h-5 w-5 mt-0.5 text-slate-700" />
+                    <div className="text-sm">
+                      {compliance.status === 'held' && (
+                        <>
+                          <p className="font-bold">Export compliance review in progress</p>
+                          <p className="text-slate-600">This order contains export-controlled items. You'll be notified when it is cleared for payment.</p>
+                        </>
+                      )}
+                      {compliance.status === 'approved' && (
+                        <>
+                          <p className="font-bold">Cleared for payment</p>
+                          <p className="text-slate-600">{compliance.canPay ? 'Complete payment to confirm your order.' : 'This order passed export compliance review.'}</p>
+                        </>
+                      )}
+                      {compliance.status === 'rejected' && (
+                        <>
+                          <p className="font-bold text-red-700">Order declined by export compliance review</p>
+                          {compliance.note && <p className="text-slate-600">{compliance.note}</p>}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {compliance.canPay && (
+                    <Button
+                      className="bg-orange-600 hover:bg-orange-700"
+                      onClick={() => payMutation.mutate()}
+                      disabled={payMutation.isPending}
+                      data-testid="button-pay-order"
+                    >
+                      {payMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                      Pay Now
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Shipment Info Bar */}
               <div className="flex justify-between items-center mb-6 text-sm">
                 <div>
@@ -232,10 +308,62 @@ export default function OrderDetailsPage() {
                 <div className="border-t border-slate-200 pt-6 mb-6">
                   <div className="flex justify-between items-center">
                     <h3 className="font-bold text-slate-900 uppercase">View Order / Invoice Summary</h3>
-                    <button className="text-sm text-slate-600 hover:text-orange-600 flex items-center gap-1" data-testid="view-invoice">
-                      Find invoice and shipping details here <ChevronLeft className="h-4 w-4 rotate-180" />
-                    </button>
+                    {!taxDocuments?.length && (
+                      <span className="text-sm text-slate-500" data-testid="view-invoice">
+                        Tax invoices are issued when your items ship
+                      </span>
+                    )}
                   </div>
+                  {order.subtotal !== null && (
+                    <div className="mt-4 space-y-1 text-sm" data-testid="order-totals">
+                      <div className="flex justify-between text-slate-600">
+                        <span>Subtotal</span>
+                        <span>{BASE_CURRENCY} {parseFloat(order.subtotal).toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between text-slate-600">
+                        <span>Tax</span>
+                        <span>{BASE_CURRENCY} {parseFloat(order.taxAmount).toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-bold text-slate-900">
+                        <span>Total</span>
+                        <span>{BASE_CURRENCY} {parseFloat(order.total).toFixed(2)}</span>
+                      </div>
+                      {order.currency !== BASE_CURRENCY && (
+                        <div className="flex justify-between text-slate-600" data-testid="order-charged-amount">
+                          <span>Charged in {order.currency} at {parseFloat(order.exchangeRate).toFixed(4)} per {BASE_CURRENCY}</span>
+                          <span>{order.currency} {(parseFloat(order.total) * parseFloat(order.exchangeRate)).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {order.taxNote && <p className="text-xs text-slate-500">{order.taxNote}</p>}
+                    </div>
+                  )}
+                  {taxDocuments && taxDocuments.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      {taxDocuments.map(document => (
+                        <div key={document.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-200 text-sm" data-testid={`tax-document-${document.id}`}>
+                          <div className="flex items-center gap-3">
+                            <FileText className="h-4 w-4 text-slate-500" />
+                            <div>
+                              <p className="font-medium text-slate-900">
+                                {document.type === 'invoice' ? 'Tax invoice' : 'Credit note'} {document.documentNumber}
+                              </p>
+                              <p className="text-xs text-slate-500">
+                                {document.sellerName} · {new Date(document.issuedAt).toLocaleDateString()} · {document.currency} {parseFloat(document.total).toFixed(2)}
+                              </p>
+                            </div>
+                          </div>
+                          <button
+                            className="text-sm text-slate-600 hover:text-orange-600 flex items-center gap-1"
+                            onClick={() => downloadMutation.mutate(document)}
+                            disabled={downloadMutation.isPending}
+                            data-testid={`button-download-tax-document-${document.id}`}
+                          >
+                            <Download className="h-4 w-4" /> PDF
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Item Summary */}
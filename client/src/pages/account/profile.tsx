@@ -8,22 +8,22 @@ import { api, clearTokens, getAccessToken } from "@/lib/api";
 import { 
   User, CheckCircle2, XCircle, Search, ChevronDown, LogOut,
   Monitor, Smartphone, Laptop, Tablet, Globe, Trash2, CreditCard,
-  MapPin, Plus, Home, Building2, Star, Wallet, Shield
+  MapPin, Plus, Home, Building2, Star, Wallet, Shield, FileText
 } from "lucide-react";
 import { Link, useLocation, useSearch } from "wouter";
 import { Input } from "@/components/ui/input";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import type { Address, SavedPaymentMethod } from "@shared/schema";
+import type { Address, SavedPaymentMethod, Invoice } from "@shared/schema";
 
 export default function ProfilePage() {
   const [, setLocation] = useLocation();
   const searchString = useSearch();
-  const [activeSection, setActiveSection] = useState<'orders' | 'sessions' | 'addresses' | 'payments'>('orders');
+  const [activeSection, setActiveSection] = useState<'orders' | 'sessions' | 'addresses' | 'payments' | 'credit'>('orders');
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showAddressDialog, setShowAddressDialog] = useState(false);
@@ -31,12 +31,13 @@ export default function ProfilePage() {
   const [addressType, setAddressType] = useState<'home' | 'work' | 'other'>('home');
   const [addressCountry, setAddressCountry] = useState('AE');
   const [addressIsDefault, setAddressIsDefault] = useState(false);
+  const [creditForm, setCreditForm] = useState({ requestedLimit: '', paymentTerms: 'net_30' as 'net_30' | 'net_60', billingEmail: '', note: '' });
 
   // Read section from URL query parameter
   useEffect(() => {
     const params = new URLSearchParams(searchString);
     const section = params.get('section');
-    if (section === 'orders' || section === 'sessions' || section === 'addresses' || section === 'payments') {
+    if (section === 'orders' || section === 'sessions' || section === 'addresses' || section === 'payments' || section === 'credit') {
       setActiveSection(section);
     }
   }, [searchString]);
@@ -75,6 +76,35 @@ export default function ProfilePage() {
     enabled: activeSection === 'payments',
   });
 
+  const { data: creditAccount, isLoading: creditLoading } = useQuery({
+    queryKey: ['credit-account'],
+    queryFn: api.credit.get,
+    enabled: activeSection === 'credit',
+  });
+
+  const { data: invoiceList } = useQuery({
+    queryKey: ['invoices'],
+    queryFn: () => api.invoices.getAll(),
+    enabled: activeSection === 'credit' && !!creditAccount,
+  });
+
+  const applyForCreditMutation = useMutation({
+    mutationFn: () => api.credit.apply({
+      requestedLimit: parseFloat(creditForm.requestedLimit),
+      paymentTerms: creditForm.paymentTerms,
+      billingEmail: creditForm.billingEmail.trim() || undefined,
+      note: creditForm.note.trim() || undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['credit-account'] });
+      setCreditForm({ requestedLimit: '', paymentTerms: 'net_30', billingEmail: '', note: '' });
+      toast({ title: "Application submitted", description: "We'll let you know once your credit account has been reviewed." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Application not submitted", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Address mutations
   const createAddressMutation = useMutation({
     mutationFn: (data: Partial<Address>) => api.addresses.create(data),
@@ -136,6 +166,40 @@ export default function ProfilePage() {
     },
   });
 
+  const addCardMutation = useMutation({
+    mutationFn: api.payments.createSetupSession,
+    onSuccess: (data) => {
+      window.location.href = data.url;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveCardMutation = useMutation({
+    mutationFn: (setupSessionId: string) => api.payments.create({ setupSessionId }),
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-payments'] });
+      toast({ title: "Card saved", description: `${payment.cardBrand || 'Card'} ending ${payment.lastFourDigits} is ready for checkout.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Card not saved", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      setLocation('/account/profile?section=payments', { replace: true });
+    },
+  });
+
+  // Stripe's hosted card form returns here with the session that confirmed the SetupIntent
+  const savedSetupSession = useRef<string | null>(null);
+  useEffect(() => {
+    const setupSessionId = new URLSearchParams(searchString).get('setup_session_id');
+    if (setupSessionId && savedSetupSession.current !== setupSessionId) {
+      savedSetupSession.current = setupSessionId;
+      saveCardMutation.mutate(setupSessionId);
+    }
+  }, [searchString]);
+
   const setDefaultPaymentMutation = useMutation({
     mutationFn: (id: number) => api.payments.setDefault(id),
     onSuccess: () => {
@@ -641,6 +705,14 @@ export default function ProfilePage() {
                 <>
                   <div className="flex items-center justify-between mb-6">
                     <h1 className="text-2xl font-display font-bold uppercase">Saved Payment Methods</h1>
+                    <Button
+                      className="bg-orange-600 hover:bg-orange-700"
+                      onClick={() => addCardMutation.mutate()}
+                      disabled={addCardMutation.isPending || saveCardMutation.isPending}
+                      data-testid="button-add-card"
+                    >
+                      <Plus className="h-4 w-4 mr-2" /> Add Card
+                    </Button>
                   </div>
 
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
@@ -658,7 +730,7 @@ export default function ProfilePage() {
                   </div>
 
                   <p className="text-sm text-muted-foreground mb-6">
-                    Payment methods saved during checkout will appear here. You can manage and remove saved methods.
+                    Cards are added on Stripe's secure page. Your default card can be charged at checkout without re-entering it.
                   </p>
 
                   {paymentsLoading ? (
@@ -674,7 +746,7 @@ export default function ProfilePage() {
                     <div className="bg-[#EFEBE4] rounded-lg p-8 text-center">
                       <Wallet className="h-12 w-12 mx-auto text-slate-400 mb-4" />
                       <p className="text-slate-600">No payment methods saved yet.</p>
-                      <p className="text-sm text-slate-500 mt-2">Payment methods will be saved automatically during checkout when you choose "Save for future purchases".</p>
+                      <p className="text-sm text-slate-500 mt-2">Add a card to pay faster at checkout.</p>
                     </div>
                   ) : (
                     <div className="space-y-4">
@@ -750,6 +822,156 @@ export default function ProfilePage() {
                 </>
               )}
 
+              {activeSection === 'credit' && (
+                <>
+                  <h1 className="text-2xl font-display font-bold uppercase mb-6">Credit Account</h1>
+
+                  {creditLoading ? (
+                    <div className="bg-[#EFEBE4] rounded-lg p-6 border border-slate-200 animate-pulse">
+                      <div className="h-5 bg-slate-300 rounded w-1/4 mb-3" />
+                      <div className="h-4 bg-slate-200 rounded w-1/2" />
+                    </div>
+                  ) : creditAccount && creditAccount.status !== 'rejected' ? (
+                    <div className="bg-[#EFEBE4] rounded-lg p-6 border border-slate-200 mb-6" data-testid="credit-account">
+                      <div className="flex items-center gap-2 mb-4">
+                        <h3 className="font-bold text-sm uppercase">{creditAccount.paymentTerms === 'net_60' ? 'NET-60' : 'NET-30'} Terms</h3>
+                        <Badge className={creditAccount.status === 'approved' ? 'bg-green-600 text-white' : creditAccount.status === 'pending' ? 'bg-orange-500 text-white' : 'bg-red-600 text-white'}>
+                          {creditAccount.status === 'pending' ? 'Under review' : creditAccount.status}
+                        </Badge>
+                      </div>
+                      {creditAccount.status === 'pending' ? (
+                        <p className="text-sm text-slate-600">
+                          You applied for AED {parseFloat(creditAccount.requestedLimit).toFixed(2)} of credit. We'll notify you once it has been reviewed.
+                        </p>
+                      ) : (
+                        <div className="grid grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <p className="text-xs text-slate-500">Credit limit</p>
+                            <p className="font-bold">AED {parseFloat(creditAccount.creditLimit).toFixed(2)}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-slate-500">Outstanding</p>
+                            <p className="font-bold">AED {parseFloat(creditAccount.outstanding).toFixed(2)}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-slate-500">Available</p>
+                            <p className="font-bold text-green-700">AED {parseFloat(creditAccount.available).toFixed(2)}</p>
+                          </div>
+                        </div>
+                      )}
+                      {creditAccount.status === 'suspended' && (
+                        <p className="text-sm text-red-600 mt-4">Your account is suspended. Settle overdue invoices or contact support to pay by invoice again.</p>
+                      )}
+                      {creditAccount.overdueCount > 0 && creditAccount.status !== 'suspended' && (
+                        <p className="text-sm text-red-600 mt-4">You have {creditAccount.overdueCount} overdue invoice{creditAccount.overdueCount > 1 ? 's' : ''}.</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="bg-[#EFEBE4] rounded-lg p-6 border border-slate-200 mb-6">
+                      <h3 className="font-bold text-sm uppercase mb-2">Apply for net terms</h3>
+                      <p className="text-sm text-slate-600 mb-4">
+                        Business, government and reseller buyers can pay by invoice against a purchase order, with 30 or 60 days to pay.
+                      </p>
+                      {creditAccount?.status === 'rejected' && (
+                        <p className="text-sm text-red-600 mb-4">
+                          Your previous application was declined{creditAccount.reviewNote ? `: ${creditAccount.reviewNote}` : '.'}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="credit-limit">Requested limit (AED)</Label>
+                          <Input
+                            id="credit-limit"
+                            type="number"
+                            min="1"
+                            value={creditForm.requestedLimit}
+                            onChange={(e) => setCreditForm({ ...creditForm, requestedLimit: e.target.value })}
+                            className="bg-white"
+                            data-testid="input-credit-limit"
+                          />
+                        </div>
+                        <div>
+                          <Label>Payment terms</Label>
+                          <Select value={creditForm.paymentTerms} onValueChange={(value) => setCreditForm({ ...creditForm, paymentTerms: value as 'net_30' | 'net_60' })}>
+                            <SelectTrigger className="bg-white" data-testid="select-credit-terms">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="net_30">NET-30</SelectItem>
+                              <SelectItem value="net_60">NET-60</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label htmlFor="credit-billing-email">Accounts payable email (optional)</Label>
+                          <Input
+                            id="credit-billing-email"
+                            type="email"
+                            value={creditForm.billingEmail}
+                            onChange={(e) => setCreditForm({ ...creditForm, billingEmail: e.target.value })}
+                            className="bg-white"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="credit-note">Note (optional)</Label>
+                          <Input
+                            id="credit-note"
+                            value={creditForm.note}
+                            onChange={(e) => setCreditForm({ ...creditForm, note: e.target.value })}
+                            placeholder="Trade licence number, expected monthly spend..."
+                            className="bg-white"
+                          />
+                        </div>
+                      </div>
+                      <Button
+                        className="mt-4 bg-orange-600 hover:bg-orange-700"
+                        onClick={() => applyForCreditMutation.mutate()}
+                        disabled={applyForCreditMutation.isPending || !(parseFloat(creditForm.requestedLimit) > 0)}
+                        data-testid="button-apply-credit"
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  )}
+
+                  {invoiceList && invoiceList.invoices.length > 0 && (
+                    <>
+                      <h2 className="font-bold text-sm uppercase mb-3">Invoices</h2>
+                      <div className="bg-[#EFEBE4] rounded-lg divide-y divide-slate-200">
+                        {invoiceList.invoices.map((invoice: Invoice) => (
+                          <div key={invoice.id} className="flex items-center justify-between p-4 text-sm" data-testid={`invoice-${invoice.id}`}>
+                            <div className="flex items-start gap-3">
+                              <FileText className="h-5 w-5 text-slate-500 mt-0.5" />
+                              <div>
+                                <p className="font-bold">{invoice.invoiceNumber}</p>
+                                <p className="text-xs text-slate-500">
+                                  PO {invoice.poNumber} · Due {new Date(invoice.dueDate).toLocaleDateString()}
+                                </p>
+                                <Link href={`/account/orders/${invoice.orderId}/details`}>
+                                  <span className="text-xs text-orange-600 hover:underline cursor-pointer">View order</span>
+                                </Link>
+                              </div>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold">AED {parseFloat(invoice.amount).toFixed(2)}</p>
+                              {parseFloat(invoice.amountPaid) > 0 && invoice.status !== 'paid' && (
+                                <p className="text-xs text-slate-500">AED {parseFloat(invoice.amountPaid).toFixed(2)} paid</p>
+                              )}
+                              {parseFloat(invoice.creditedAmount) > 0 && (
+                                <p className="text-xs text-slate-500" data-testid={`text-invoice-credited-${invoice.id}`}>AED {parseFloat(invoice.creditedAmount).toFixed(2)} credited</p>
+                              )}
+                              <Badge className={`mt-1 capitalize ${invoice.status === 'paid' ? 'bg-green-600' : invoice.status === 'overdue' ? 'bg-red-600' : 'bg-slate-500'} text-white`}>
+                                {invoice.status}
+                              </Badge>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+
             </main>
           </div>
         </div>
@@ -353,6 +353,9 @@ export default function RefundDetailsPage() {
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-slate-900 line-clamp-2">{item.name}</p>
+                  {'variantName' in item && item.variantName && (
+                    <p className="text-xs text-slate-500">{item.variantName}</p>
+                  )}
                   <p className="text-lg font-bold text-green-600 mt-1">৳ {item.price}</p>
                 </div>
               </div>
@@ -0,0 +1,246 @@
+import Layout from "@/components/layout/Layout";
+import AccountSidebar from "@/components/layout/AccountSidebar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, getAccessToken, clearTokens } from "@/lib/api";
+import { Link, useLocation } from "wouter";
+import { FileText, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { describeVariant, type Rfq, type RfqQuote } from "@shared/schema";
+
+const rfqStatusStyles: Record<Rfq['status'], string> = {
+  open: "bg-blue-100 text-blue-700",
+  quoted: "bg-orange-100 text-orange-700",
+  accepted: "bg-green-100 text-green-700",
+  declined: "bg-slate-200 text-slate-600",
+  cancelled: "bg-slate-200 text-slate-600",
+  expired: "bg-slate-200 text-slate-600",
+};
+
+const quoteStatusStyles: Record<RfqQuote['status'], string> = {
+  submitted: "bg-orange-100 text-orange-700",
+  accepted: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  withdrawn: "bg-slate-200 text-slate-600",
+  expired: "bg-slate-200 text-slate-600",
+};
+
+export default function RfqsPage() {
+  const [, setLocation] = useLocation();
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const authenticated = !!getAccessToken();
+    setIsAuthenticated(authenticated);
+
+    if (!authenticated) {
+      setLocation('/auth/login');
+    }
+  }, [setLocation]);
+
+  const { data: rfqs, isLoading } = useQuery({
+    queryKey: ['rfqs'],
+    queryFn: () => api.rfqs.getAll(),
+    enabled: !!isAuthenticated,
+  });
+
+  const acceptQuoteMutation = useMutation({
+    mutationFn: ({ rfqId, quoteId }: { rfqId: string; quoteId: number }) => api.rfqs.acceptQuote(rfqId, quoteId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['rfqs'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      if (result.url) {
+        window.location.href = result.url;
+        return;
+      }
+      toast({ title: "Quote accepted", description: "Your order has been placed at the quoted prices." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not accept quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectQuoteMutation = useMutation({
+    mutationFn: ({ rfqId, quoteId }: { rfqId: string; quoteId: number }) => api.rfqs.rejectQuote(rfqId, quoteId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rfqs'] });
+      toast({ title: "Quote rejected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reject quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (rfqId: string) => api.rfqs.cancel(rfqId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rfqs'] });
+      toast({ title: "Quote request cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleLogout = async () => {
+    try {
+      await api.auth.logout();
+    } catch (e) {
+      // Ignore errors
+    }
+    clearTokens();
+    setLocation('/');
+  };
+
+  if (isAuthenticated === null || isLoading) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex items-center justify-center bg-slate-50">
+          <Loader2 className="h-8 w-8 animate-spin text-orange-600" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="bg-slate-50 min-h-screen py-8">
+        <div className="container mx-auto px-4">
+          <div className="flex flex-col lg:flex-row gap-8">
+
+            <AccountSidebar
+              activeSection="rfqs"
+              onLogout={handleLogout}
+            />
+
+            <main className="flex-1">
+              <h1 className="text-2xl font-display font-bold mb-6 uppercase">Quote Requests</h1>
+
+              {!rfqs || rfqs.length === 0 ? (
+                <div className="bg-[#EFEBE4] rounded-lg p-12 text-center">
+                  <FileText className="h-16 w-16 mx-auto text-slate-400 mb-4" />
+                  <h2 className="text-xl font-bold mb-2 text-slate-800">No quote requests yet</h2>
+                  <p className="text-slate-500 mb-6">Use "Request a Quote" on a product page to ask a seller for pricing</p>
+                  <Link href="/products">
+                    <Button className="bg-orange-600 hover:bg-orange-700">Browse Products</Button>
+                  </Link>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {rfqs.map((rfq) => (
+                    <div key={rfq.id} className="bg-[#EFEBE4] rounded-lg p-6 border border-slate-200" data-testid={`rfq-${rfq.id}`}>
+                      <div className="flex flex-wrap justify-between items-start gap-2 mb-4">
+                        <div>
+                          <div className="font-bold text-sm text-slate-900">RFQ #{rfq.id.slice(0, 8).toUpperCase()}</div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {rfq.vendor.name} · {new Date(rfq.createdAt).toLocaleDateString()}
+                            {rfq.targetDate && ` · Needed by ${rfq.targetDate}`}
+                            {rfq.deliveryTerms && ` · ${rfq.deliveryTerms}`}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge className={`${rfqStatusStyles[rfq.status]} capitalize`}>{rfq.status}</Badge>
+                          {(rfq.status === 'open' || rfq.status === 'quoted') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-500 hover:bg-red-50"
+                              onClick={() => cancelMutation.mutate(rfq.id)}
+                              disabled={cancelMutation.isPending}
+                              data-testid={`rfq-cancel-${rfq.id}`}
+                            >
+                              Cancel
+                            </Button>
+                          )}
+                          {rfq.orderId && (
+                            <Link href="/account/profile?section=orders">
+                              <Button variant="outline" size="sm">View Order</Button>
+                            </Link>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="bg-white rounded p-3 text-sm space-y-1 mb-4">
+                        {rfq.items.map((item) => (
+                          <div key={item.id} className="flex justify-between">
+                            <Link href={`/products/${item.productId}`}>
+                              <span className="hover:text-orange-600 cursor-pointer">
+                                {item.product.name}{item.variant && ` (${describeVariant(item.variant)})`}
+                              </span>
+                            </Link>
+                            <span className="text-muted-foreground">Qty {item.quantity}</span>
+                          </div>
+                        ))}
+                      </div>
+
+                      {rfq.quotes.map((quote) => (
+                        <div key={quote.id} className="border-t border-slate-300 pt-3 mt-3" data-testid={`rfq-quote-${quote.id}`}>
+                          <div className="flex flex-wrap justify-between items-center gap-2">
+                            <div className="text-sm">
+                              <span className="font-bold">AED {parseFloat(quote.total).toLocaleString()}</span>
+                              <span className="text-xs text-muted-foreground ml-2">
+                                Valid until {new Date(quote.validUntil).toLocaleDateString()}
+                                {quote.leadTimeDays != null && ` · ${quote.leadTimeDays} day lead time`}
+                                {quote.deliveryTerms && ` · ${quote.deliveryTerms}`}
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Badge className={`${quoteStatusStyles[quote.status]} capitalize`}>{quote.status}</Badge>
+                              {quote.status === 'submitted' && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    className="bg-[#3D4736] hover:bg-[#2A3324] text-xs"
+                                    onClick={() => acceptQuoteMutation.mutate({ rfqId: rfq.id, quoteId: quote.id })}
+                                    disabled={acceptQuoteMutation.isPending}
+                                    data-testid={`rfq-quote-accept-${quote.id}`}
+                                  >
+                                    <CheckCircle2 className="h-4 w-4 mr-1" /> Accept
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-xs"
+                                    onClick={() => rejectQuoteMutation.mutate({ rfqId: rfq.id, quoteId: quote.id })}
+                                    disabled={rejectQuoteMutation.isPending}
+                                    data-testid={`rfq-quote-reject-${quote.id}`}
+                                  >
+                                    <XCircle className="h-4 w-4 mr-1" /> Reject
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                          <div className="text-xs text-slate-600 mt-2 space-y-0.5">
+                            {quote.items.map((line) => {
+                              const item = rfq.items.find(i => i.id === line.rfqItemId);
+                              return (
+                                <div key={line.id} className="flex justify-between">
+                                  <span>{item?.product.name}{item?.variant && ` (${describeVariant(item.variant)})`}</span>
+                                  <span>{line.quantity} × AED {parseFloat(line.unitPrice).toLocaleString()}</span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {quote.notes && <p className="text-xs text-muted-foreground mt-2">{quote.notes}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </main>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
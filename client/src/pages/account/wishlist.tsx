@@ -1,19 +1,23 @@
 import Layout from "@/components/layout/Layout";
 import AccountSidebar from "@/components/layout/AccountSidebar";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import ProductImage from "@/components/ui/product-image";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, getAccessToken, clearTokens } from "@/lib/api";
 import { Link, useLocation } from "wouter";
-import { Heart, Trash2, ShoppingCart, Loader2, User } from "lucide-react";
+import { Heart, Trash2, ShoppingCart, Loader2, User, Plus, TrendingDown, PackageCheck } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 
 export default function WishlistPage() {
   const [location, setLocation] = useLocation();
-  const [wishlistIds, setWishlistIds] = useState<number[]>([]);
+  const [selectedListId, setSelectedListId] = useState<number | null>(null);
+  const [newListName, setNewListName] = useState("");
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     const token = getAccessToken();
@@ -22,34 +26,78 @@ export default function WishlistPage() {
     
     if (!authenticated) {
       setLocation('/auth/login');
-      return;
-    }
-    
-    const stored = localStorage.getItem('wishlist');
-    if (stored) {
-      try {
-        setWishlistIds(JSON.parse(stored));
-      } catch {
-        setWishlistIds([]);
-      }
     }
   }, [setLocation]);
 
-  const { data: allProducts, isLoading } = useQuery({
-    queryKey: ['products'],
-    queryFn: () => api.products.getAll(),
+  const { data: wishlists, isLoading } = useQuery({
+    queryKey: ['wishlists'],
+    queryFn: () => api.wishlists.getAll(),
+    enabled: !!isAuthenticated,
+  });
+
+  const activeList = wishlists?.find(list => list.id === selectedListId)
+    || wishlists?.find(list => list.isDefault)
+    || wishlists?.[0];
+
+  const { data: wishlistDetail, isLoading: isLoadingItems } = useQuery({
+    queryKey: ['wishlists', activeList?.id],
+    queryFn: () => api.wishlists.get(activeList!.id),
+    enabled: !!activeList,
+  });
+
+  const wishlistItems = wishlistDetail?.items || [];
+
+  const createListMutation = useMutation({
+    mutationFn: (name: string) => api.wishlists.create(name),
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: ['wishlists'] });
+      setSelectedListId(list.id);
+      setNewListName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create list", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: (id: number) => api.wishlists.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlists'] });
+      setSelectedListId(null);
+      toast({ title: "List deleted" });
+    },
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: ({ listId, itemId }: { listId: number; itemId: number }) =>
+      api.wishlists.removeItem(listId, itemId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlists'] });
+      toast({
+        title: "Removed from wishlist",
+        description: "Product has been removed from your wishlist.",
+      });
+    },
   });
 
-  const wishlistProducts = allProducts?.filter(p => wishlistIds.includes(p.id)) || [];
+  const moveToCartMutation = useMutation({
+    mutationFn: ({ listId, itemId }: { listId: number; itemId: number }) =>
+      api.wishlists.moveToCart(listId, itemId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlists'] });
+      queryClient.invalidateQueries({ queryKey: ['cart'] });
+      toast({ title: "Moved to cart" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not move to cart", description: error.message, variant: "destructive" });
+    },
+  });
 
-  const removeFromWishlist = (productId: number) => {
-    const newWishlist = wishlistIds.filter(id => id !== productId);
-    setWishlistIds(newWishlist);
-    localStorage.setItem('wishlist', JSON.stringify(newWishlist));
-    toast({
-      title: "Removed from wishlist",
-      description: "Product has been removed from your wishlist.",
-    });
+  const handleCreateList = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newListName.trim();
+    if (!name) return;
+    createListMutation.mutate(name);
   };
 
   const handleLogout = async () => {
@@ -111,7 +159,53 @@ export default function WishlistPage() {
             <main className="flex-1">
               <h1 className="text-2xl font-display font-bold mb-6 uppercase">Wishlist</h1>
 
-              {wishlistProducts.length === 0 ? (
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                {wishlists?.map((list) => (
+                  <Button
+                    key={list.id}
+                    size="sm"
+                    variant={list.id === activeList?.id ? "default" : "outline"}
+                    className={list.id === activeList?.id ? "bg-[#3D4736] hover:bg-[#2A3324]" : ""}
+                    onClick={() => setSelectedListId(list.id)}
+                    data-testid={`wishlist-tab-${list.id}`}
+                  >
+                    {list.name} ({list.itemCount})
+                  </Button>
+                ))}
+                <form onSubmit={handleCreateList} className="flex gap-2 ml-auto">
+                  <Input
+                    value={newListName}
+                    onChange={(e) => setNewListName(e.target.value)}
+                    placeholder="New list, e.g. Fleet A"
+                    className="h-9 w-48 bg-white"
+                    data-testid="input-new-wishlist"
+                  />
+                  <Button type="submit" size="sm" variant="outline" disabled={createListMutation.isPending} data-testid="btn-create-wishlist">
+                    <Plus className="h-4 w-4 mr-1" /> Add List
+                  </Button>
+                </form>
+              </div>
+
+              {activeList && !activeList.isDefault && (
+                <div className="flex justify-end mb-4">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500 hover:bg-red-50"
+                    onClick={() => deleteListMutation.mutate(activeList.id)}
+                    disabled={deleteListMutation.isPending}
+                    data-testid="btn-delete-wishlist"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" /> Delete "{activeList.name}"
+                  </Button>
+                </div>
+              )}
+
+              {isLoadingItems ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-orange-600" />
+                </div>
+              ) : wishlistItems.length === 0 ? (
                 <div className="bg-[#EFEBE4] rounded-lg p-12 text-center">
                   <Heart className="h-16 w-16 mx-auto text-slate-400 mb-4" />
                   <h2 className="text-xl font-bold mb-2 text-slate-800">Your wishlist is empty</h2>
@@ -122,11 +216,11 @@ export default function WishlistPage() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  <p className="text-sm text-muted-foreground mb-4">{wishlistProducts.length} item{wishlistProducts.length !== 1 ? 's' : ''} in your wishlist</p>
+                  <p className="text-sm text-muted-foreground mb-4">{wishlistItems.length} item{wishlistItems.length !== 1 ? 's' : ''} in this list</p>
                   
-                  {wishlistProducts.map((product) => (
+                  {wishlistItems.map(({ product, ...item }) => (
                     <div 
-                      key={product.id} 
+                      key={item.id} 
                       className="bg-[#EFEBE4] rounded-lg p-6 border border-slate-200"
                       data-testid={`wishlist-item-${product.id}`}
                     >
@@ -149,22 +243,39 @@ export default function WishlistPage() {
                             <p className="text-xs text-muted-foreground mt-1">SKU: {product.sku}</p>
                           )}
                           <div className="font-bold text-sm mt-2">AED {parseFloat(product.price?.toString() || '0').toLocaleString()}</div>
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {item.priceDropped && (
+                              <Badge className="bg-green-600 hover:bg-green-600 text-xs">
+                                <TrendingDown className="h-3 w-3 mr-1" />
+                                Price dropped by AED {parseFloat(item.priceDropAmount || '0').toLocaleString()}
+                              </Badge>
+                            )}
+                            {item.backInStock && (
+                              <Badge className="bg-blue-600 hover:bg-blue-600 text-xs">
+                                <PackageCheck className="h-3 w-3 mr-1" />
+                                Back in stock
+                              </Badge>
+                            )}
+                            {!item.inStock && (
+                              <Badge variant="outline" className="text-xs text-slate-500">Out of stock</Badge>
+                            )}
+                          </div>
                         </div>
                         <div className="flex gap-2">
-                          <Link href={`/products/${product.id}`}>
-                            <Button 
-                              className="bg-[#3D4736] hover:bg-[#2A3324] text-xs"
-                              data-testid={`wishlist-view-${product.id}`}
-                            >
-                              <ShoppingCart className="h-4 w-4 mr-1" />
-                              View Product
-                            </Button>
-                          </Link>
+                          <Button 
+                            className="bg-[#3D4736] hover:bg-[#2A3324] text-xs"
+                            onClick={() => moveToCartMutation.mutate({ listId: item.wishlistId, itemId: item.id })}
+                            disabled={!item.inStock || moveToCartMutation.isPending}
+                            data-testid={`wishlist-move-to-cart-${product.id}`}
+                          >
+                            <ShoppingCart className="h-4 w-4 mr-1" />
+                            Move to Cart
+                          </Button>
                           <Button 
                             variant="outline" 
                             size="icon"
                             className="border-red-200 hover:bg-red-50"
-                            onClick={() => removeFromWishlist(product.id)}
+                            onClick={() => removeItemMutation.mutate({ listId: item.wishlistId, itemId: item.id })}
                             data-testid={`wishlist-remove-${product.id}`}
                           >
                             <Trash2 className="h-4 w-4 text-red-500" />
@@ -0,0 +1,183 @@
+import Layout from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Link, useLocation } from "wouter";
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { api, clearTokens } from "@/lib/api";
+
+export default function ForgotPasswordPage() {
+  const [, setLocation] = useLocation();
+  // Arriving from the emailed link skips straight to choosing a new password
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [step, setStep] = useState<'request' | 'reset'>(token ? 'reset' : 'request');
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const { toast } = useToast();
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const data = await api.auth.forgotPassword(email);
+      toast({
+        title: "Check your email",
+        description: data.debugOtp ? `Dev mode code: ${data.debugOtp}` : data.message,
+      });
+      setStep('reset');
+    } catch (err: any) {
+      setError(err.message || "Could not send reset code. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await api.auth.resetPassword(token ? { token, password } : { email, code, password });
+      // Every session was revoked by the reset
+      clearTokens();
+      toast({
+        title: "Password reset",
+        description: "Log in with your new password.",
+      });
+      setLocation('/auth/login-password');
+    } catch (err: any) {
+      setError(err.message || "Password reset failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-20 flex justify-center items-center min-h-[calc(100vh-400px)] bg-slate-50">
+        <Card className="w-full max-w-md shadow-xl border-0">
+          <CardHeader className="text-center space-y-2 pb-8">
+            <h1 className="text-3xl font-display font-bold text-primary">RESET PASSWORD</h1>
+            <CardDescription className="text-base">
+              {step === 'request'
+                ? "Enter your email and we'll send you a reset code"
+                : token ? "Choose a new password" : `Enter the code sent to ${email} and choose a new password`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {step === 'request' ? (
+              <form onSubmit={handleRequest} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email Address</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="name@company.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="h-11"
+                    data-testid="input-email"
+                  />
+                </div>
+
+                {error && (
+                  <div className="bg-red-50 text-red-600 p-3 rounded text-sm border border-red-200">
+                    {error}
+                  </div>
+                )}
+
+                <Button type="submit" className="w-full h-12 text-base font-bold bg-orange-600 hover:bg-orange-700" disabled={isLoading} data-testid="button-send-reset-code">
+                  {isLoading ? "Sending..." : "SEND RESET CODE"}
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={handleReset} className="space-y-6">
+                {!token && (
+                  <div className="space-y-2">
+                    <Label htmlFor="code">Verification Code</Label>
+                    <Input
+                      id="code"
+                      inputMode="numeric"
+                      maxLength={6}
+                      placeholder="6-digit code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      required
+                      className="h-11 tracking-widest"
+                      data-testid="input-reset-code"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="password">New Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    minLength={6}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="h-11"
+                    data-testid="input-new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    minLength={6}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    className="h-11"
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+
+                {error && (
+                  <div className="bg-red-50 text-red-600 p-3 rounded text-sm border border-red-200">
+                    {error}
+                  </div>
+                )}
+
+                <Button type="submit" className="w-full h-12 text-base font-bold bg-orange-600 hover:bg-orange-700" disabled={isLoading} data-testid="button-reset-password">
+                  {isLoading ? "Resetting..." : "RESET PASSWORD"}
+                </Button>
+
+                {!token && (
+                  <button
+                    type="button"
+                    className="w-full text-sm text-muted-foreground hover:underline"
+                    onClick={() => { setStep('request'); setError(""); }}
+                  >
+                    Didn't get a code? Send again
+                  </button>
+                )}
+              </form>
+            )}
+
+            <div className="mt-8 text-center text-sm text-muted-foreground">
+              Remembered it? <Link href="/auth/login-password" className="text-primary font-bold hover:underline">Back to login</Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
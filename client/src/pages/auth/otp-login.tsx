@@ -6,7 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Mail, ArrowRight, Loader2, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { storeTokens } from "@/lib/api";
+import { storeTokens, syncLocalWishlist } from "@/lib/api";
 import { useAuth } from "@/hooks/use-auth";
 
 export default function OtpLoginPage() {
@@ -123,6 +123,7 @@ export default function OtpLoginPage() {
       }
 
       storeTokens(data.accessToken, data.refreshToken, data.expiresIn);
+      await syncLocalWishlist();
       
       setAuth({
         user: data.user,
@@ -7,7 +7,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Link, useLocation } from "wouter";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { api, storeTokens } from "@/lib/api";
+import { api, storeTokens, syncLocalWishlist } from "@/lib/api";
 
 export default function LoginPage() {
   const [, setLocation] = useLocation();
@@ -28,6 +28,7 @@ export default function LoginPage() {
       // Store JWT tokens
       storeTokens(data.accessToken, data.refreshToken, data.expiresIn);
       localStorage.setItem('user', JSON.stringify(data.user));
+      await syncLocalWishlist();
 
       toast({
         title: "Welcome back!",
@@ -9,12 +9,15 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { describeVariant, describeTaxLine, BASE_CURRENCY, type CartItemPricing } from "@shared/schema";
+import { useCurrency } from "@/hooks/use-currency";
 
 export default function CartPage() {
   const [, setLocation] = useLocation();
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { format } = useCurrency();
 
   useEffect(() => {
     const token = localStorage.getItem('auth_token');
@@ -27,6 +30,13 @@ export default function CartPage() {
     enabled: isAuthenticated,
   });
 
+  // Tax depends on the sellers, the buyer and where the order ships, so the server prices it
+  const { data: totals } = useQuery({
+    queryKey: ['cart', 'totals'],
+    queryFn: () => api.cart.getTotals(),
+    enabled: isAuthenticated && !!cartItems?.length,
+  });
+
   const { data: recommendedProducts } = useQuery({
     queryKey: ['topSelling'],
     queryFn: api.products.getTopSelling
@@ -38,6 +48,13 @@ export default function CartPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['cart'] });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update quantity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const removeMutation = useMutation({
@@ -48,16 +65,36 @@ export default function CartPage() {
     },
   });
 
+  const saveForLaterMutation = useMutation({
+    mutationFn: (id: number) => api.cart.moveToWishlist(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cart'] });
+      queryClient.invalidateQueries({ queryKey: ['wishlists'] });
+      toast({ title: "Saved to your wishlist" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save item",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleQuantityChange = (id: number, currentQty: number, delta: number) => {
     const newQty = currentQty + delta;
     if (newQty < 1) return;
     updateMutation.mutate({ id, quantity: newQty });
   };
 
-  const subtotal = cartItems?.reduce((acc, item) => 
-    acc + (parseFloat(item.product.price) * item.quantity), 0) || 0;
-  const tax = subtotal * 0.05;
-  const total = subtotal + tax;
+  // Line prices are in the base currency unless the list currency has no exchange rate on file
+  const pricedIn = (pricing: CartItemPricing) => pricing.exchangeRate === null ? pricing.currency : BASE_CURRENCY;
+  const convertedItems = cartItems?.filter(item => item.pricing.exchangeRate !== null) || [];
+  const subtotal = convertedItems.reduce((acc, item) => 
+    acc + parseFloat(item.pricing.lineTotal), 0);
+  const totalSavings = convertedItems.reduce((acc, item) => 
+    acc + parseFloat(item.pricing.savings), 0);
+  const total = totals ? parseFloat(totals.total) : subtotal;
 
   if (!isAuthenticated) {
     return (
@@ -132,18 +169,35 @@ export default function CartPage() {
                     
                     <div className="flex-1">
                       <div className="flex justify-between items-start mb-2">
-                        <Link href={`/products/${item.product.id}`}>
-                          <h3 className="font-bold text-slate-900 text-lg leading-tight max-w-[70%] hover:text-orange-600 cursor-pointer">
-                            {item.product.name}
-                          </h3>
-                        </Link>
+                        <div className="max-w-[70%]">
+                          <Link href={`/products/${item.product.id}`}>
+                            <h3 className="font-bold text-slate-900 text-lg leading-tight hover:text-orange-600 cursor-pointer">
+                              {item.product.name}
+                            </h3>
+                          </Link>
+                          {item.variant && (
+                            <p className="text-sm text-slate-500 mt-1" data-testid={`text-variant-${item.id}`}>
+                              {describeVariant(item.variant)} · SKU {item.variant.sku}
+                            </p>
+                          )}
+                        </div>
                         <div className="text-right">
                           <div className="text-2xl font-bold font-display text-slate-900">
-                            AED {(parseFloat(item.product.price) * item.quantity).toFixed(2)}
+                            {format(item.pricing.lineTotal, pricedIn(item.pricing))}
                           </div>
                           {item.quantity > 1 && (
                             <div className="text-sm text-slate-500">
-                              AED {parseFloat(item.product.price).toFixed(2)} each
+                              {format(item.pricing.unitPrice, pricedIn(item.pricing))} each
+                            </div>
+                          )}
+                          {parseFloat(item.pricing.savings) > 0 && (
+                            <div className="text-xs text-green-600 font-medium" data-testid={`text-savings-${item.id}`}>
+                              You save {format(item.pricing.savings, pricedIn(item.pricing))} (bulk price)
+                            </div>
+                          )}
+                          {item.pricing.exchangeRate === null && (
+                            <div className="text-xs text-red-600 font-medium" data-testid={`text-fx-unavailable-${item.id}`}>
+                              Priced in {item.pricing.currency}, which cannot be checked out yet
                             </div>
                           )}
                         </div>
@@ -154,6 +208,11 @@ export default function CartPage() {
                       </div>
                       <div className="text-xs text-muted-foreground mb-1">SKU: {item.product.sku}</div>
                       <div className="text-xs text-slate-500 mb-4">{item.product.make} {item.product.model}</div>
+                      {item.pricing.nextTier && (
+                        <div className="text-xs text-orange-700 bg-orange-50 px-2 py-1 rounded inline-block mb-2" data-testid={`text-next-tier-${item.id}`}>
+                          Add {item.pricing.nextTier.quantityNeeded} more to pay {format(item.pricing.nextTier.price, pricedIn(item.pricing))} each
+                        </div>
+                      )}
 
                       <div className="flex items-center justify-between border-t border-slate-100 pt-4 mt-4">
                         <div className="text-xs text-orange-600 flex items-center gap-1 bg-orange-50 px-2 py-1 rounded">
@@ -166,7 +225,7 @@ export default function CartPage() {
                             size="icon" 
                             className="h-8 w-8 rounded-full"
                             onClick={() => handleQuantityChange(item.id, item.quantity, -1)}
-                            disabled={item.quantity <= 1 || updateMutation.isPending}
+                            disabled={item.quantity <= (item.product.minOrderQuantity || 1) || updateMutation.isPending}
                             data-testid={`btn-decrease-${item.id}`}
                           >
                             <Minus className="h-3 w-3" />
@@ -177,7 +236,7 @@ export default function CartPage() {
                             size="icon" 
                             className="h-8 w-8 rounded-full"
                             onClick={() => handleQuantityChange(item.id, item.quantity, 1)}
-                            disabled={updateMutation.isPending}
+                            disabled={item.quantity >= (item.product.stock || 0) || updateMutation.isPending}
                             data-testid={`btn-increase-${item.id}`}
                           >
                             <Plus className="h-3 w-3" />
@@ -196,7 +255,12 @@ export default function CartPage() {
                     >
                       <Trash2 className="h-3 w-3" /> Remove
                     </button>
-                    <button className="flex items-center gap-1 hover:text-primary transition-colors">
+                    <button 
+                      className="flex items-center gap-1 hover:text-primary transition-colors"
+                      onClick={() => saveForLaterMutation.mutate(item.id)}
+                      disabled={saveForLaterMutation.isPending}
+                      data-testid={`btn-save-later-${item.id}`}
+                    >
                       <Heart className="h-3 w-3" /> Save for later
                     </button>
                   </div>
@@ -211,12 +275,23 @@ export default function CartPage() {
                 <div className="space-y-4 mb-6">
                   <div className="flex justify-between text-sm font-medium">
                     <span>Subtotal ({cartItems.length} items)</span>
-                    <span>AED {subtotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm text-slate-500">
-                    <span>VAT (5%)</span>
-                    <span>AED {tax.toFixed(2)}</span>
+                    <span>{format(subtotal)}</span>
                   </div>
+                  {totalSavings > 0 && (
+                    <div className="flex justify-between text-sm text-green-700">
+                      <span>Bulk pricing savings</span>
+                      <span>- {format(totalSavings)}</span>
+                    </div>
+                  )}
+                  {totals?.taxLines.map(line => (
+                    <div key={`${line.label}-${line.rate}-${line.treatment}`} className="flex justify-between text-sm text-slate-500" data-testid={`cart-tax-${line.label}`}>
+                      <span>{describeTaxLine(line)}</span>
+                      <span>{format(line.amount)}</span>
+                    </div>
+                  ))}
+                  {totals?.taxNote && (
+                    <p className="text-xs text-slate-500">{totals.taxNote}</p>
+                  )}
                   
                   <div className="flex gap-2">
                     <Input placeholder="Enter Promo Code" className="bg-white border-white/50" />
@@ -228,9 +303,11 @@ export default function CartPage() {
                 
                 <div className="flex justify-between items-baseline mb-1">
                   <span className="font-bold text-lg">Total</span>
-                  <span className="font-bold text-xl">AED {total.toFixed(2)}</span>
+                  <span className="font-bold text-xl">{format(total)}</span>
+                </div>
+                <div className="text-xs text-muted-foreground mb-6">
+                  {totals ? `Including tax for delivery to ${totals.destinationCountry}` : 'Tax is calculated at checkout'}
                 </div>
-                <div className="text-xs text-muted-foreground mb-6">(Inclusive of VAT)</div>
 
                 <Link href="/checkout">
                   <Button 
@@ -259,7 +336,7 @@ export default function CartPage() {
                         <img src={product.image} className="max-w-full max-h-full object-contain" alt={product.name} />
                       </div>
                       <h4 className="text-sm font-medium line-clamp-2 mb-2">{product.name}</h4>
-                      <div className="font-bold text-orange-600">AED {parseFloat(product.price).toLocaleString()}</div>
+                      <div className="font-bold text-orange-600">{product.price ? format(product.price, product.currency) : 'Price on request'}</div>
                     </div>
                   </Link>
                 ))}
@@ -4,14 +4,27 @@ import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, MapPin, CreditCard, AlertTriangle, Loader2, ShoppingBag, Lock } from "lucide-react";
+import { ArrowLeft, MapPin, CreditCard, AlertTriangle, Loader2, ShoppingBag, Lock, ShieldCheck, Upload, FileText } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { api, getAccessToken } from "@/lib/api";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import { useQueryClient } from "@tanstack/react-query";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { uploadFileRecord } from "@/lib/queryClient";
+import { describeTaxLine, BASE_CURRENCY, type ComplianceDocument } from "@shared/schema";
+
+const emptyDocumentForm = {
+  type: 'end_user_certificate' as ComplianceDocument['type'],
+  documentNumber: '',
+  issuingCountry: '',
+  endUserName: '',
+  validUntil: '',
+};
 
 export default function CheckoutPage() {
   const [, setLocation] = useLocation();
@@ -20,6 +33,14 @@ export default function CheckoutPage() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState("card");
   const [showTestModeWarning, setShowTestModeWarning] = useState(false);
+  const [addressId, setAddressId] = useState<number | null>(null);
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [documentForm, setDocumentForm] = useState(emptyDocumentForm);
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [poNumber, setPoNumber] = useState('');
+  const { currency, format } = useCurrency();
+  // Cards are charged in the display currency; invoices stay in AED with the credit account
+  const chargeCurrency = paymentMethod === 'invoice' ? BASE_CURRENCY : currency;
 
   useEffect(() => {
     const token = getAccessToken();
@@ -35,14 +56,126 @@ export default function CheckoutPage() {
     enabled: isAuthenticated,
   });
 
+  const { data: addresses } = useQuery({
+    queryKey: ['addresses'],
+    queryFn: api.addresses.getAll,
+    enabled: isAuthenticated,
+  });
+
+  const { data: savedPayments } = useQuery({
+    queryKey: ['saved-payments'],
+    queryFn: api.payments.getAll,
+    enabled: isAuthenticated,
+  });
+
+  // The default saved card is preselected; "card" opens the Stripe payment page
+  useEffect(() => {
+    const defaultCard = savedPayments?.find(payment => payment.isDefault);
+    if (defaultCard) {
+      setPaymentMethod(`saved-${defaultCard.id}`);
+    }
+  }, [savedPayments]);
+
+  const { data: creditAccount } = useQuery({
+    queryKey: ['credit-account'],
+    queryFn: api.credit.get,
+    enabled: isAuthenticated,
+  });
+  const canPayByInvoice = creditAccount?.status === 'approved';
+
+  const hasControlledItems = !!cartItems?.some(item => item.product.controlledItemType || item.product.requiresExportLicense);
+
+  const { data: complianceDocuments } = useQuery({
+    queryKey: ['compliance-documents'],
+    queryFn: api.compliance.getDocuments,
+    enabled: isAuthenticated && hasControlledItems,
+  });
+
+  useEffect(() => {
+    if (addressId === null && addresses && addresses.length > 0) {
+      setAddressId((addresses.find(address => address.isDefault) || addresses[0]).id);
+    }
+  }, [addresses, addressId]);
+
+  // Re-priced when the shipping address changes, since tax follows the destination
+  const { data: totals } = useQuery({
+    queryKey: ['cart', 'totals', addressId],
+    queryFn: () => api.cart.getTotals(addressId ?? undefined),
+    enabled: isAuthenticated && !!cartItems?.length,
+  });
+
+  const addDocumentMutation = useMutation({
+    mutationFn: async () => {
+      if (!documentFile) throw new Error("Attach a copy of the document");
+      const file = await uploadFileRecord(documentFile, "compliance_document");
+      return api.compliance.createDocument({
+        type: documentForm.type,
+        documentNumber: documentForm.documentNumber,
+        issuingCountry: documentForm.issuingCountry,
+        endUserName: documentForm.endUserName,
+        fileId: file.id,
+        validUntil: documentForm.validUntil || undefined,
+      });
+    },
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: ['compliance-documents'] });
+      setDocumentId(document.id);
+      setDocumentForm(emptyDocumentForm);
+      setDocumentFile(null);
+      toast({ title: "Document added", description: `${document.documentNumber} will be used for this order.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add document", description: error.message, variant: "destructive" });
+    },
+  });
+
   const checkoutMutation = useMutation({
-    mutationFn: api.checkout.createSession,
-    onSuccess: (data: { url?: string; testMode?: boolean; orderId?: string; error?: string }) => {
-      // Invalidate cart query since checkout clears the cart
+    mutationFn: () => api.checkout.createSession({
+      addressId: addressId ?? undefined,
+      complianceDocumentId: hasControlledItems ? documentId ?? undefined : undefined,
+      savedPaymentMethodId: paymentMethod.startsWith('saved-') ? parseInt(paymentMethod.slice('saved-'.length)) : undefined,
+      paymentMethod: paymentMethod === 'invoice' ? 'invoice' : 'card',
+      poNumber: paymentMethod === 'invoice' ? poNumber.trim() : undefined,
+      currency: chargeCurrency,
+    }),
+    onSuccess: (data) => {
+      // Invalidate cart query since a completed checkout clears the cart
       queryClient.invalidateQueries({ queryKey: ['cart'] });
       queryClient.invalidateQueries({ queryKey: ['orders'] });
       
-      if (data.url) {
+      if (data.held && data.orderId) {
+        // Controlled items need a compliance decision before payment
+        toast({
+          title: "Order held for review",
+          description: data.message || "We'll notify you once your order is cleared for payment.",
+        });
+        setLocation(`/account/orders/${data.orderId}/details`);
+      } else if (data.invoiced && data.orderId) {
+        queryClient.invalidateQueries({ queryKey: ['credit-account'] });
+        toast({
+          title: "Order Placed Successfully!",
+          description: data.invoice ? `Invoice ${data.invoice.invoiceNumber} is due by ${new Date(data.invoice.dueDate).toLocaleDateString()}.` : "An invoice has been issued to your account.",
+        });
+        setLocation(`/account/orders/${data.orderId}/details`);
+      } else if (data.paid && data.orderId) {
+        toast({
+          title: "Order Placed Successfully!",
+          description: "Your saved card was charged.",
+        });
+        setLocation(`/checkout/success?order_id=${data.orderId}`);
+      } else if (data.processing && data.orderId) {
+        toast({
+          title: "Payment processing",
+          description: "Your saved card payment is being processed. We'll confirm your order once it clears.",
+        });
+        setLocation(`/account/orders/${data.orderId}/details`);
+      } else if (data.url) {
+        if (data.savedMethodError) {
+          toast({
+            title: "Saved card not charged",
+            description: `${data.savedMethodError}. Continue on the secure payment page.`,
+          });
+        }
         window.location.href = data.url;
       } else if (data.testMode && data.orderId) {
         // Order created successfully in test mode, redirect to orders
@@ -71,7 +204,7 @@ export default function CheckoutPage() {
   });
 
   const handlePlaceOrder = () => {
-    if (paymentMethod === "card") {
+    if (paymentMethod === "card" || paymentMethod === "invoice" || paymentMethod.startsWith("saved-")) {
       checkoutMutation.mutate();
     } else {
       toast({
@@ -109,9 +242,9 @@ export default function CheckoutPage() {
   }
 
   const subtotal = cartItems.reduce((acc, item) => 
-    acc + (parseFloat(item.product.price) * item.quantity), 0);
+    acc + parseFloat(item.pricing.lineTotal), 0);
   const shipping = subtotal > 500 ? 0 : 40;
-  const tax = subtotal * 0.05;
+  const tax = totals ? parseFloat(totals.tax) : 0;
   const total = subtotal + shipping + tax;
 
   return (
@@ -148,19 +281,105 @@ export default function CheckoutPage() {
             <div className="lg:col-span-2 space-y-8">
               <div className="bg-[#EFEBE4] rounded-lg p-6">
                 <h3 className="font-bold text-sm uppercase mb-4">Shipping Address</h3>
-                <div className="bg-white p-4 rounded border border-orange-200 flex justify-between items-start">
-                  <div className="flex gap-3">
-                    <MapPin className="h-5 w-5 text-slate-600 mt-1" />
-                    <div>
-                      <div className="font-bold text-sm mb-1">Default Address</div>
-                      <div className="text-xs text-muted-foreground leading-relaxed max-w-md">
-                        Please update your shipping address during checkout
+                {addresses && addresses.length > 0 ? (
+                  <RadioGroup value={addressId?.toString() ?? ''} onValueChange={(value) => setAddressId(parseInt(value))} className="gap-3">
+                    {addresses.map(address => (
+                      <label key={address.id} htmlFor={`address-${address.id}`} className="bg-white p-4 rounded border border-orange-200 flex gap-3 items-start cursor-pointer" data-testid={`address-option-${address.id}`}>
+                        <RadioGroupItem value={address.id.toString()} id={`address-${address.id}`} className="mt-1" />
+                        <MapPin className="h-5 w-5 text-slate-600 mt-0.5" />
+                        <div>
+                          <div className="font-bold text-sm mb-1">{address.label} - {address.fullName}</div>
+                          <div className="text-xs text-muted-foreground leading-relaxed max-w-md">
+                            {[address.addressLine1, address.addressLine2, address.city, address.state, address.postalCode, address.country].filter(Boolean).join(', ')}
+                          </div>
+                        </div>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <div className="bg-white p-4 rounded border border-orange-200 flex justify-between items-start">
+                    <div className="flex gap-3">
+                      <MapPin className="h-5 w-5 text-slate-600 mt-1" />
+                      <div>
+                        <div className="font-bold text-sm mb-1">No saved address</div>
+                        <div className="text-xs text-muted-foreground leading-relaxed max-w-md">
+                          Add a shipping address in <Link href="/account/profile"><span className="underline cursor-pointer">your account</span></Link>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
+                )}
               </div>
 
+              {hasControlledItems && (
+                <div className="bg-[#EFEBE4] rounded-lg p-6" data-testid="section-export-compliance">
+                  <h3 className="font-bold text-sm uppercase mb-2 flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4" />
+                    Export Compliance
+                  </h3>
+                  <p className="text-xs text-slate-600 mb-4">
+                    Your cart contains export-controlled items. Choose the end-user certificate or export licence that covers this order.
+                    Some orders are reviewed by our compliance team before payment.
+                  </p>
+
+                  {complianceDocuments && complianceDocuments.length > 0 && (
+                    <RadioGroup value={documentId ?? ''} onValueChange={setDocumentId} className="gap-3 mb-4">
+                      {complianceDocuments.map(document => {
+                        const expired = !!document.validUntil && new Date(document.validUntil) < new Date();
+                        return (
+                          <label key={document.id} htmlFor={`document-${document.id}`} className={`bg-white p-3 rounded border flex gap-3 items-start ${expired ? 'opacity-50' : 'cursor-pointer'}`}>
+                            <RadioGroupItem value={document.id} id={`document-${document.id}`} disabled={expired} className="mt-1" />
+                            <div className="text-sm">
+                              <div className="font-bold">
+                                {document.type === 'export_license' ? 'Export licence' : 'End-user certificate'} {document.documentNumber}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {document.endUserName} · {document.issuingCountry}
+                                {document.validUntil && ` · ${expired ? 'expired' : 'valid until'} ${new Date(document.validUntil).toLocaleDateString()}`}
+                              </div>
+                            </div>
+                          </label>
+                        );
+                      })}
+                    </RadioGroup>
+                  )}
+
+                  <div className="bg-white p-4 rounded border space-y-3">
+                    <div className="font-bold text-sm">Add a document</div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <Select value={documentForm.type} onValueChange={(value) => setDocumentForm({ ...documentForm, type: value as ComplianceDocument['type'] })}>
+                        <SelectTrigger data-testid="select-document-type"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="end_user_certificate">End-user certificate</SelectItem>
+                          <SelectItem value="export_license">Export licence</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input placeholder="Document number" value={documentForm.documentNumber} onChange={(e) => setDocumentForm({ ...documentForm, documentNumber: e.target.value })} data-testid="input-document-number" />
+                      <Input placeholder="End user (company or person)" value={documentForm.endUserName} onChange={(e) => setDocumentForm({ ...documentForm, endUserName: e.target.value })} data-testid="input-end-user" />
+                      <Input placeholder="Destination country code, e.g. AE" maxLength={2} value={documentForm.issuingCountry} onChange={(e) => setDocumentForm({ ...documentForm, issuingCountry: e.target.value.toUpperCase() })} data-testid="input-issuing-country" />
+                      <div>
+                        <Label htmlFor="document-valid-until" className="text-xs text-slate-500">Valid until (optional)</Label>
+                        <Input id="document-valid-until" type="date" value={documentForm.validUntil} onChange={(e) => setDocumentForm({ ...documentForm, validUntil: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label htmlFor="document-file" className="text-xs text-slate-500">Copy of the document (PDF or image)</Label>
+                        <Input id="document-file" type="file" accept=".pdf,image/*" onChange={(e) => setDocumentFile(e.target.files?.[0] ?? null)} data-testid="input-document-file" />
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addDocumentMutation.mutate()}
+                      disabled={addDocumentMutation.isPending || !documentForm.documentNumber || !documentForm.endUserName || documentForm.issuingCountry.length !== 2 || !documentFile}
+                      data-testid="button-add-document"
+                    >
+                      {addDocumentMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+                      Add Document
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               <div className="bg-[#EFEBE4] rounded-lg p-6">
                 <h3 className="font-bold text-sm uppercase mb-4 flex justify-between">
                   Delivery Instructions
@@ -190,7 +409,7 @@ export default function CheckoutPage() {
                           <span className="text-xs text-green-600 font-bold">Est. 3-5 business days</span>
                         </div>
                         <p className="text-sm font-medium mt-1 line-clamp-1">{item.product.name}</p>
-                        <p className="font-bold text-sm mt-1">AED {(parseFloat(item.product.price) * item.quantity).toFixed(2)}</p>
+                        <p className="font-bold text-sm mt-1">{format(item.pricing.lineTotal)}</p>
                       </div>
                     </div>
                   ))}
@@ -201,13 +420,55 @@ export default function CheckoutPage() {
                 <h2 className="text-2xl font-display font-bold mb-6 uppercase">Payment</h2>
                 <div className="bg-[#EFEBE4] rounded-lg overflow-hidden">
                   <RadioGroup value={paymentMethod} onValueChange={setPaymentMethod} className="gap-0 divide-y divide-slate-200">
+                    {savedPayments?.filter(payment => payment.processorToken.startsWith('pm_')).map(payment => (
+                      <div key={payment.id} className="flex items-center justify-between p-4 bg-white/50" data-testid={`saved-payment-option-${payment.id}`}>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value={`saved-${payment.id}`} id={`saved-${payment.id}`} />
+                          <Label htmlFor={`saved-${payment.id}`} className="capitalize">
+                            {payment.cardBrand || 'Card'} ending {payment.lastFourDigits}
+                            {payment.expiryMonth && payment.expiryYear && <span className="text-slate-500 normal-case font-normal"> (expires {payment.expiryMonth}/{payment.expiryYear})</span>}
+                          </Label>
+                        </div>
+                        <CreditCard className="h-5 w-5 text-slate-500" />
+                      </div>
+                    ))}
                     <div className="flex items-center justify-between p-4 bg-white/50">
                       <div className="flex items-center space-x-2">
                         <RadioGroupItem value="card" id="card" />
-                        <Label htmlFor="card">Debit/Credit Card (Stripe)</Label>
+                        <Label htmlFor="card">{savedPayments?.length ? 'Another ' : ''}Debit/Credit Card (Stripe)</Label>
                       </div>
                       <CreditCard className="h-5 w-5 text-slate-500" />
                     </div>
+                    {canPayByInvoice && creditAccount && (
+                      <div className="p-4 bg-white/50" data-testid="payment-option-invoice">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="invoice" id="invoice" disabled={parseFloat(creditAccount.available) < total} />
+                            <Label htmlFor="invoice">
+                              Pay by invoice ({creditAccount.paymentTerms === 'net_60' ? 'NET-60' : 'NET-30'})
+                              <span className="text-slate-500 font-normal"> - AED {parseFloat(creditAccount.available).toFixed(2)} credit available</span>
+                            </Label>
+                          </div>
+                          <FileText className="h-5 w-5 text-slate-500" />
+                        </div>
+                        {parseFloat(creditAccount.available) < total && (
+                          <p className="text-xs text-red-600 mt-2 ml-6">This order is more than your available credit.</p>
+                        )}
+                        {paymentMethod === 'invoice' && (
+                          <div className="mt-3 ml-6 max-w-xs">
+                            <Label htmlFor="po-number" className="text-xs">Purchase order number</Label>
+                            <Input
+                              id="po-number"
+                              value={poNumber}
+                              onChange={(e) => setPoNumber(e.target.value)}
+                              placeholder="PO-12345"
+                              className="bg-white mt-1"
+                              data-testid="input-po-number"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </RadioGroup>
                 </div>
                 <div className="mt-4 p-4 bg-slate-100 rounded-lg flex items-center gap-3 text-sm text-slate-600">
@@ -224,28 +485,35 @@ export default function CheckoutPage() {
                 <div className="space-y-3 text-sm font-medium mb-4">
                   <div className="flex justify-between">
                     <span>Subtotal ({cartItems.length} items)</span>
-                    <span>AED {subtotal.toFixed(2)}</span>
+                    <span>{format(subtotal)}</span>
                   </div>
                   <div className="flex justify-between text-slate-500">
                     <span>Shipping</span>
-                    <span>{shipping === 0 ? 'FREE' : `AED ${shipping.toFixed(2)}`}</span>
-                  </div>
-                  <div className="flex justify-between text-slate-500">
-                    <span>VAT (5%)</span>
-                    <span>AED {tax.toFixed(2)}</span>
+                    <span>{shipping === 0 ? 'FREE' : format(shipping)}</span>
                   </div>
+                  {totals?.taxLines.map(line => (
+                    <div key={`${line.label}-${line.rate}-${line.treatment}`} className="flex justify-between text-slate-500" data-testid={`checkout-tax-${line.label}`}>
+                      <span>{describeTaxLine(line)}</span>
+                      <span>{format(line.amount)}</span>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="flex justify-between items-baseline mb-1 pt-4 border-t border-slate-300">
-                  <span className="font-bold text-lg">Total <span className="text-xs font-normal text-slate-500">(Inclusive of VAT)</span></span>
-                  <span className="font-bold text-xl">AED {total.toFixed(2)}</span>
+                  <span className="font-bold text-lg">Total <span className="text-xs font-normal text-slate-500">(Inclusive of tax)</span></span>
+                  <span className="font-bold text-xl">{chargeCurrency === currency ? format(total) : `${BASE_CURRENCY} ${total.toFixed(2)}`}</span>
+                </div>
+                <div className="text-xs text-right text-slate-500 mb-6">
+                  {totals && (totals.taxNote || `Tax calculated for delivery to ${totals.destinationCountry}`)}
+                  {chargeCurrency !== BASE_CURRENCY && (
+                    <div data-testid="text-charge-currency">Charged in {chargeCurrency} at today's exchange rate</div>
+                  )}
                 </div>
-                <div className="text-xs text-right text-slate-500 mb-6">Estimated VAT: AED {tax.toFixed(2)}</div>
 
                 <Button 
                   className="w-full h-12 text-base font-bold bg-orange-600 hover:bg-orange-700 uppercase tracking-wider"
                   onClick={handlePlaceOrder}
-                  disabled={checkoutMutation.isPending}
+                  disabled={checkoutMutation.isPending || (hasControlledItems && (!addressId || !documentId)) || (paymentMethod === 'invoice' && !poNumber.trim())}
                   data-testid="button-place-order"
                 >
                   {checkoutMutation.isPending ? (
@@ -2,10 +2,10 @@ import Layout from "@/components/layout/Layout";
 import { Button } from "@/components/ui/button";
 import ProductImage from "@/components/ui/product-image";
 import { useQuery } from "@tanstack/react-query";
-import { api } from "@/lib/api";
+import { api, type ProductWithCover } from "@/lib/api";
+import { useCurrency } from "@/hooks/use-currency";
 import { Link } from "wouter";
 import { ArrowRight, Loader2, ChevronRight, ChevronLeft } from "lucide-react";
-import type { Product } from "@shared/schema";
 import {
   Carousel,
   CarouselContent,
@@ -24,6 +24,7 @@ const heroSlides = [
 
 export default function Home() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { format } = useCurrency();
 
   useEffect(() => {
     const token = localStorage.getItem('auth_token');
@@ -45,7 +46,7 @@ export default function Home() {
   }
 
   // Helper for Featured Product Card (Dark Theme)
-  const FeaturedCard = ({ product }: { product: Product }) => {
+  const FeaturedCard = ({ product }: { product: ProductWithCover }) => {
     const price = product.price ? parseFloat(product.price.toString()) : null;
     
     return (
@@ -54,6 +55,8 @@ export default function Home() {
           <div className="aspect-[4/3] w-full overflow-hidden mb-4 bg-black/20 flex items-center justify-center">
             <ProductImage 
               src={product.image} 
+              image={product.coverImage}
+              sizes="(min-width: 1024px) 33vw, 100vw"
               alt={product.name} 
               className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
               placeholderClassName="w-full h-full"
@@ -62,7 +65,7 @@ export default function Home() {
           <div className="mt-auto">
             <h3 className="text-white font-bold text-sm mb-1 line-clamp-2">{product.name}</h3>
             <div className="text-slate-400 text-xs mb-4">
-              {isAuthenticated && price ? `AED ${price.toLocaleString()}` : 'Login for Price'}
+              {isAuthenticated && price ? format(price, product.currency) : 'Login for Price'}
             </div>
             <span 
               data-testid={`button-view-${product.id}`}
@@ -223,7 +226,7 @@ export default function Home() {
                         <Link key={product.id} href={`/products/${product.id}`}>
                           <div className="group cursor-pointer text-center">
                             <div className="aspect-square bg-white border border-slate-200 mb-3 p-2 group-hover:border-[#D97706] transition-colors">
-                              <ProductImage src={product.image} className="w-full h-full object-contain" alt={product.name} placeholderClassName="w-full h-full" />
+                              <ProductImage src={product.image} image={product.coverImage} sizes="(min-width: 640px) 15vw, 45vw" className="w-full h-full object-contain" alt={product.name} placeholderClassName="w-full h-full" />
                             </div>
                             <h3 className="text-[10px] font-bold text-slate-800 uppercase leading-tight line-clamp-2 h-8">
                               {product.name}
@@ -240,7 +243,7 @@ export default function Home() {
                         <Link key={`dup-${product.id}`} href={`/products/${product.id}`}>
                           <div className="group cursor-pointer text-center">
                             <div className="aspect-square bg-white border border-slate-200 mb-3 p-2 group-hover:border-[#D97706] transition-colors">
-                              <ProductImage src={product.image} className="w-full h-full object-contain" alt={product.name} placeholderClassName="w-full h-full" />
+                              <ProductImage src={product.image} image={product.coverImage} sizes="(min-width: 640px) 15vw, 45vw" className="w-full h-full object-contain" alt={product.name} placeholderClassName="w-full h-full" />
                             </div>
                             <h3 className="text-[10px] font-bold text-slate-800 uppercase leading-tight line-clamp-2 h-8">
                               {product.name}
@@ -5,23 +5,40 @@ import { Separator } from "@/components/ui/separator";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ProductImage from "@/components/ui/product-image";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { variantOptionFields, type ProductImageSet, type VariantOptionField } from "@shared/schema";
 import { useRoute, Link, useLocation } from "wouter";
 import { 
   ShoppingCart, Heart, Truck, Shield, RotateCcw, 
   Star, Share2, Award, CheckCircle2,
-  AlertCircle, Lock, Loader2
+  AlertCircle, Lock, Loader2, FileText
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+
+const variantOptionLabels: Record<VariantOptionField, string> = {
+  size: "Size",
+  color: "Colour",
+  thickness: "Thickness",
+  driveType: "Drive Type",
+};
 
 export default function ProductDetailsPage() {
   const [, params] = useRoute("/products/:id");
   const [, setLocation] = useLocation();
   const id = params ? parseInt(params.id) : 0;
   const [activeImage, setActiveImage] = useState<string | null>(null);
+  const { format } = useCurrency();
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [showQuoteForm, setShowQuoteForm] = useState(false);
+  const [quoteRequest, setQuoteRequest] = useState({ quantity: '', deliveryTerms: '', targetDate: '', notes: '' });
+  const [selectedOptions, setSelectedOptions] = useState<Partial<Record<VariantOptionField, string>>>({});
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -47,8 +64,41 @@ export default function ProductDetailsPage() {
     enabled: !!id
   });
 
+  const { data: fitments } = useQuery({
+    queryKey: ['fitment', id],
+    queryFn: () => api.products.getFitment(id),
+    enabled: !!id
+  });
+
+  // Options shown are those the product's variants actually use, in the order they appear
+  const variants = product?.variants || [];
+  const hasVariants = variants.length > 0;
+  const variantOptions = variantOptionFields
+    .map((field) => ({
+      field,
+      values: variants
+        .map((variant) => variant[field])
+        .filter((value, index, all): value is string => !!value && all.indexOf(value) === index),
+    }))
+    .filter((option) => option.values.length > 0);
+  const selectedVariant = hasVariants
+    ? variants.find((variant) => variantOptions.every(({ field }) => variant[field] === selectedOptions[field]))
+    : undefined;
+  const displayPrice = selectedVariant?.price || product?.price || "0";
+  const displayStock = hasVariants ? selectedVariant?.stock ?? 0 : product?.stock ?? 0;
+
+  const selectOption = (field: VariantOptionField, value: string) => {
+    const next = { ...selectedOptions, [field]: value };
+    setSelectedOptions(next);
+    // Show the variant's own image when the selection lands on one that has it
+    const match = variants.find((variant) => variantOptionFields.every((f) => !next[f] || variant[f] === next[f]));
+    const image = match?.mediaId ? product?.images.find((set) => set.mediaId === match.mediaId) : undefined;
+    if (image) setActiveImage(image.src);
+  };
+
   const addToCartMutation = useMutation({
-    mutationFn: (productId: number) => api.cart.add(productId, 1),
+    mutationFn: ({ productId, variantId }: { productId: number; variantId?: number }) =>
+      api.cart.add(productId, product?.minOrderQuantity || 1, variantId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['cart'] });
       toast({
@@ -56,15 +106,63 @@ export default function ProductDetailsPage() {
         description: "Product has been added to your cart.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Please log in to add items to cart.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addToWishlistMutation = useMutation({
+    mutationFn: (productId: number) => api.wishlists.addItem('default', productId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlists'] });
+      toast({
+        title: "Added to wishlist!",
+        description: "Product has been added to your wishlist.",
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Please log in to add items to cart.",
+        description: error.message || "Could not add to wishlist.",
         variant: "destructive",
       });
     },
   });
 
+  const requestQuoteMutation = useMutation({
+    mutationFn: () => api.rfqs.create({
+      items: [{ productId: id, variantId: selectedVariant?.id, quantity: parseInt(quoteRequest.quantity) || product?.minOrderQuantity || 1 }],
+      deliveryTerms: quoteRequest.deliveryTerms || undefined,
+      targetDate: quoteRequest.targetDate || undefined,
+      notes: quoteRequest.notes || undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rfqs'] });
+      setShowQuoteForm(false);
+      setQuoteRequest({ quantity: '', deliveryTerms: '', targetDate: '', notes: '' });
+      toast({
+        title: "Quote requested",
+        description: "The seller has been notified. You can follow the request under Quote Requests.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Could not send quote request.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRequestQuote = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestQuoteMutation.mutate();
+  };
+
   const handleAddToCart = () => {
     if (!isAuthenticated) {
       toast({
@@ -74,7 +172,25 @@ export default function ProductDetailsPage() {
       setLocation('/auth/login');
       return;
     }
-    addToCartMutation.mutate(id);
+    if (hasVariants && !selectedVariant) {
+      toast({
+        title: "Choose an option",
+        description: "Select the variant you want before adding it to your cart.",
+      });
+      return;
+    }
+    addToCartMutation.mutate({ productId: id, variantId: selectedVariant?.id });
+  };
+
+  const handleOpenQuoteForm = () => {
+    if (hasVariants && !selectedVariant) {
+      toast({
+        title: "Choose an option",
+        description: "Select the variant you want a quote for.",
+      });
+      return;
+    }
+    setShowQuoteForm(true);
   };
 
   const handleAddToWishlist = () => {
@@ -86,20 +202,7 @@ export default function ProductDetailsPage() {
       setLocation('/auth/login');
       return;
     }
-    const wishlist = JSON.parse(localStorage.getItem('wishlist') || '[]');
-    if (wishlist.includes(id)) {
-      toast({
-        title: "Already in wishlist",
-        description: "This product is already in your wishlist.",
-      });
-      return;
-    }
-    wishlist.push(id);
-    localStorage.setItem('wishlist', JSON.stringify(wishlist));
-    toast({
-      title: "Added to wishlist!",
-      description: "Product has been added to your wishlist.",
-    });
+    addToWishlistMutation.mutate(id);
   };
 
   if (isLoading || !product) {
@@ -113,9 +216,25 @@ export default function ProductDetailsPage() {
     );
   }
 
-  const currentImage = activeImage || product.image;
+  // Processed images when the vendor uploaded any; otherwise the legacy image and gallery URLs
+  const galleryImages: { src: string; image?: ProductImageSet }[] = product.images?.length
+    ? product.images.map((image) => ({ src: image.src, image }))
+    : [product.image, ...(product.gallery || [])]
+        .filter((src): src is string => !!src)
+        .map((src) => ({ src }));
+  const currentImage = galleryImages.find((entry) => entry.src === activeImage) || galleryImages[0];
   const specifications = product.specifications ? JSON.parse(product.specifications) : null;
-  const vehicleFitment = product.vehicleFitment ? JSON.parse(product.vehicleFitment) : null;
+  // Prefer structured catalogue fitment; fall back to the legacy free-text JSON
+  const vehicleFitment: Record<string, string[]> | null = fitments && fitments.length > 0
+    ? fitments.reduce((groups, { vehicle }) => {
+        const years = vehicle.yearFrom || vehicle.yearTo
+          ? ` (${vehicle.yearFrom || ''}–${vehicle.yearTo || 'present'})`
+          : '';
+        const label = [vehicle.model, vehicle.variant].filter(Boolean).join(' ') + years;
+        (groups[vehicle.make] = groups[vehicle.make] || []).push(label);
+        return groups;
+      }, {} as Record<string, string[]>)
+    : product.vehicleFitment ? JSON.parse(product.vehicleFitment) : null;
   const warranty = product.warranty ? JSON.parse(product.warranty) : null;
 
   const renderStars = (rating: number = 0) => (
@@ -138,7 +257,9 @@ export default function ProductDetailsPage() {
             <div className="lg:col-span-5 space-y-4">
               <div className="aspect-[4/3] bg-white rounded-lg overflow-hidden border shadow-sm relative group">
                 <ProductImage 
-                  src={currentImage} 
+                  src={currentImage?.src} 
+                  image={currentImage?.image}
+                  sizes="(min-width: 1024px) 40vw, 100vw"
                   alt={product.name} 
                   className="w-full h-full object-contain p-4"
                   placeholderClassName="w-full h-full"
@@ -149,19 +270,13 @@ export default function ProductDetailsPage() {
               </div>
               
               <div className="grid grid-cols-4 gap-3">
-                <div 
-                  className={`aspect-square bg-white rounded-md cursor-pointer border-2 overflow-hidden ${currentImage === product.image ? "border-primary" : "border-transparent"}`}
-                  onClick={() => setActiveImage(product.image)}
-                >
-                  <ProductImage src={product.image} className="w-full h-full object-cover" alt="Main" placeholderClassName="w-full h-full" />
-                </div>
-                {product.gallery?.map((img, idx) => (
+                {galleryImages.map((entry, idx) => (
                   <div 
-                    key={idx} 
-                    className={`aspect-square bg-white rounded-md cursor-pointer border-2 overflow-hidden ${currentImage === img ? "border-primary" : "border-transparent"}`}
-                    onClick={() => setActiveImage(img)}
+                    key={entry.src} 
+                    className={`aspect-square bg-white rounded-md cursor-pointer border-2 overflow-hidden ${currentImage === entry ? "border-primary" : "border-transparent"}`}
+                    onClick={() => setActiveImage(entry.src)}
                   >
-                    <ProductImage src={img} className="w-full h-full object-cover" alt={`Gallery ${idx}`} placeholderClassName="w-full h-full" />
+                    <ProductImage src={entry.src} image={entry.image} sizes="120px" className="w-full h-full object-cover" alt={idx === 0 ? "Main" : `Gallery ${idx}`} placeholderClassName="w-full h-full" />
                   </div>
                 ))}
               </div>
@@ -172,7 +287,7 @@ export default function ProductDetailsPage() {
                 <div className="flex items-center gap-2 mb-2 text-sm text-muted-foreground">
                   <span className="font-semibold text-primary">{product.make}</span>
                   <span>•</span>
-                  <span>SKU: {product.sku}</span>
+                  <span>SKU: {selectedVariant?.sku || product.sku}</span>
                 </div>
                 
                 <h1 className="text-2xl font-display font-bold mb-2 leading-tight text-slate-900">{product.name}</h1>
@@ -186,10 +301,12 @@ export default function ProductDetailsPage() {
 
                 <div className="flex flex-wrap gap-2 mb-4">
                   <Badge variant="outline" className="text-xs">{product.condition.toUpperCase()}</Badge>
-                  <Badge variant="secondary" className="text-xs">
-                    {product.stock > 0 ? "In Stock" : "Out of Stock"}
-                  </Badge>
-                  {product.stock < 5 && product.stock > 0 && (
+                  {(!hasVariants || selectedVariant) && (
+                    <Badge variant="secondary" className="text-xs">
+                      {displayStock > 0 ? "In Stock" : "Out of Stock"}
+                    </Badge>
+                  )}
+                  {displayStock < 5 && displayStock > 0 && (
                     <Badge variant="destructive" className="text-xs">Low Stock</Badge>
                   )}
                 </div>
@@ -198,9 +315,9 @@ export default function ProductDetailsPage() {
               <div className="p-4 bg-white rounded-lg border space-y-4">
                 {isAuthenticated ? (
                   <div className="flex items-baseline gap-3">
-                    <span className="text-3xl font-bold text-slate-900">AED {parseFloat(product.price).toLocaleString()}</span>
-                    {product.originalPrice && (
-                      <span className="text-lg text-muted-foreground line-through">AED {parseFloat(product.originalPrice).toLocaleString()}</span>
+                    <span className="text-3xl font-bold text-slate-900">{format(displayPrice, product.currency)}</span>
+                    {product.originalPrice && !selectedVariant?.price && (
+                      <span className="text-lg text-muted-foreground line-through">{format(product.originalPrice, product.currency)}</span>
                     )}
                   </div>
                 ) : (
@@ -210,6 +327,33 @@ export default function ProductDetailsPage() {
                   </div>
                 )}
 
+                {variantOptions.length > 0 && (
+                  <div className="space-y-3" data-testid="variant-selectors">
+                    {variantOptions.map(({ field, values }) => (
+                      <div key={field}>
+                        <Label className="text-xs text-muted-foreground">{variantOptionLabels[field]}</Label>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {values.map((value) => (
+                            <Button
+                              key={value}
+                              type="button"
+                              size="sm"
+                              variant={selectedOptions[field] === value ? "default" : "outline"}
+                              onClick={() => selectOption(field, value)}
+                              data-testid={`option-${field}-${value}`}
+                            >
+                              {value}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                    {variantOptions.every(({ field }) => selectedOptions[field]) && !selectedVariant && (
+                      <p className="text-xs text-destructive">This combination is not available</p>
+                    )}
+                  </div>
+                )}
+
                 <Separator />
                 
                 <div className="space-y-3 text-sm">
@@ -234,7 +378,7 @@ export default function ProductDetailsPage() {
                     size="lg" 
                     className="w-full font-bold h-12 text-base shadow-lg shadow-primary/20 bg-orange-600 hover:bg-orange-700"
                     onClick={handleAddToCart}
-                    disabled={addToCartMutation.isPending || product.stock === 0}
+                    disabled={addToCartMutation.isPending || ((!hasVariants || !!selectedVariant) && displayStock === 0)}
                     data-testid="button-add-to-cart"
                   >
                     {addToCartMutation.isPending ? (
@@ -256,6 +400,18 @@ export default function ProductDetailsPage() {
                     </Button>
                   </Link>
                 )}
+                {isAuthenticated && (
+                  <Button
+                    size="lg"
+                    variant={product.actionType === 'inquiry' ? 'default' : 'outline'}
+                    className="w-full font-bold h-12 text-base"
+                    onClick={handleOpenQuoteForm}
+                    data-testid="button-request-quote"
+                  >
+                    <FileText className="h-5 w-5 mr-2" />
+                    Request a Quote
+                  </Button>
+                )}
                 <Button variant="ghost" size="sm" className="w-full text-muted-foreground" onClick={handleAddToWishlist}>
                   <Heart className="h-4 w-4 mr-2" /> Add to Wishlist
                 </Button>
@@ -423,12 +579,12 @@ export default function ProductDetailsPage() {
                     <Link key={item.id} href={`/products/${item.id}`}>
                       <div className="group flex gap-3 cursor-pointer">
                         <div className="w-16 h-16 bg-white border rounded-md overflow-hidden flex-shrink-0">
-                          <ProductImage src={item.image} className="w-full h-full object-cover group-hover:scale-105 transition-transform" alt={item.name} placeholderClassName="w-full h-full" />
+                          <ProductImage src={item.image} image={item.coverImage} sizes="64px" className="w-full h-full object-cover group-hover:scale-105 transition-transform" alt={item.name} placeholderClassName="w-full h-full" />
                         </div>
                         <div>
                           <h4 className="text-sm font-medium line-clamp-2 group-hover:text-primary transition-colors">{item.name}</h4>
                           <div className="text-xs text-muted-foreground mt-1">{item.make}</div>
-                          <div className="font-bold text-sm mt-1">AED {parseFloat(item.price).toLocaleString()}</div>
+                          <div className="font-bold text-sm mt-1">{item.price ? format(item.price, item.currency) : 'Price on request'}</div>
                         </div>
                       </div>
                     </Link>
@@ -447,7 +603,7 @@ export default function ProductDetailsPage() {
                     <Link key={item.id} href={`/products/${item.id}`}>
                       <div className="group cursor-pointer">
                         <div className="aspect-square bg-white border rounded-md overflow-hidden mb-2">
-                          <ProductImage src={item.image} className="w-full h-full object-cover group-hover:scale-105 transition-transform" alt={item.name} placeholderClassName="w-full h-full" />
+                          <ProductImage src={item.image} image={item.coverImage} sizes="(min-width: 1024px) 10vw, 50vw" className="w-full h-full object-cover group-hover:scale-105 transition-transform" alt={item.name} placeholderClassName="w-full h-full" />
                         </div>
                         <h4 className="text-xs font-medium line-clamp-2 group-hover:text-primary transition-colors">{item.name}</h4>
                       </div>
@@ -459,6 +615,63 @@ export default function ProductDetailsPage() {
           </div>
         </Tabs>
       </div>
+      <Dialog open={showQuoteForm} onOpenChange={setShowQuoteForm}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request a Quote</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRequestQuote} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-quantity">Quantity</Label>
+              <Input
+                id="quote-quantity"
+                type="number"
+                min={1}
+                placeholder={String(product.minOrderQuantity || 1)}
+                value={quoteRequest.quantity}
+                onChange={(e) => setQuoteRequest({ ...quoteRequest, quantity: e.target.value })}
+                data-testid="input-quote-quantity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-delivery-terms">Delivery Terms</Label>
+              <Input
+                id="quote-delivery-terms"
+                placeholder="e.g. DAP Abu Dhabi"
+                value={quoteRequest.deliveryTerms}
+                onChange={(e) => setQuoteRequest({ ...quoteRequest, deliveryTerms: e.target.value })}
+                data-testid="input-quote-delivery-terms"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-target-date">Target Delivery Date</Label>
+              <Input
+                id="quote-target-date"
+                type="date"
+                value={quoteRequest.targetDate}
+                onChange={(e) => setQuoteRequest({ ...quoteRequest, targetDate: e.target.value })}
+                data-testid="input-quote-target-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-notes">Notes</Label>
+              <Textarea
+                id="quote-notes"
+                placeholder="Specifications, certifications or packaging requirements"
+                value={quoteRequest.notes}
+                onChange={(e) => setQuoteRequest({ ...quoteRequest, notes: e.target.value })}
+                data-testid="input-quote-notes"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" className="bg-orange-600 hover:bg-orange-700" disabled={requestQuoteMutation.isPending} data-testid="button-submit-quote-request">
+                {requestQuoteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Send Request
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 }
@@ -4,9 +4,10 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import ProductImage from "@/components/ui/product-image";
-import { useQuery } from "@tanstack/react-query";
-import { api } from "@/lib/api";
-import type { Product } from "@shared/schema";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { api, getAccessToken, type ProductWithCover } from "@/lib/api";
+import { useCurrency } from "@/hooks/use-currency";
+import type { ProductSearchFacetField, ProductSearchParams, ProductSearchSort } from "@shared/schema";
 import { Filter, SlidersHorizontal, ChevronDown, ChevronRight, ChevronLeft, Star, Search, X } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useLocation, Link } from "wouter";
@@ -19,41 +20,77 @@ import {
   CarouselPrevious,
 } from "@/components/ui/carousel";
 
+const FACET_SECTIONS: { field: ProductSearchFacetField; title: string }[] = [
+  { field: 'vendorId', title: 'Vendor' },
+  { field: 'condition', title: 'Condition' },
+  { field: 'materials', title: 'Material' },
+  { field: 'features', title: 'Features' },
+  { field: 'driveTypes', title: 'Drive Type' },
+  { field: 'sizes', title: 'Size' },
+  { field: 'colors', title: 'Color' },
+  { field: 'countryOfOrigin', title: 'Country of Origin' },
+];
+
+const PAGE_SIZE = 24;
+
 export default function ProductsPage() {
   const [location, setLocation] = useLocation();
+  const { format } = useCurrency();
   const searchParams = new URLSearchParams(window.location.search);
   const initialSearch = searchParams.get("search") || "";
   const initialCategory = searchParams.get("category") || "";
 
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [searchTerm, setSearchTerm] = useState(initialSearch);
+  const [debouncedSearch, setDebouncedSearch] = useState(initialSearch);
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [selectedBrands, setSelectedBrands] = useState<string[]>([]);
-  const [selectedDepartments, setSelectedDepartments] = useState<string[]>([]);
-  const [selectedMaterials, setSelectedMaterials] = useState<string[]>([]);
-  const [selectedSurfaceTypes, setSelectedSurfaceTypes] = useState<string[]>([]);
+  const [selectedFacets, setSelectedFacets] = useState<Partial<Record<ProductSearchFacetField, string[]>>>({});
   const [minPrice, setMinPrice] = useState("");
   const [maxPrice, setMaxPrice] = useState("");
-  const [sortBy, setSortBy] = useState("best");
+  const [sortBy, setSortBy] = useState<ProductSearchSort>("relevance");
+  const [garageVehicleId, setGarageVehicleId] = useState("");
+  const [page, setPage] = useState(1);
 
   useEffect(() => {
     const token = localStorage.getItem('auth_token');
     setIsAuthenticated(!!token);
   }, []);
 
-  const { data: products } = useQuery({
-    queryKey: ['products'],
-    queryFn: () => api.products.getAll()
-  });
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-  const { data: categories } = useQuery({
-    queryKey: ['categories'],
-    queryFn: api.categories.getAll
+  // Any change to the query starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, selectedFacets, minPrice, maxPrice, sortBy, garageVehicleId]);
+
+  const { data: garage } = useQuery({
+    queryKey: ['garage'],
+    queryFn: api.garage.getAll,
+    enabled: !!getAccessToken(),
   });
 
-  const { data: filterOptions } = useQuery({
-    queryKey: ['filters'],
-    queryFn: api.filters.get
+  const selectedVehicle = garage?.find(v => v.id.toString() === garageVehicleId);
+
+  const searchQuery: ProductSearchParams = {
+    q: debouncedSearch || undefined,
+    categoryId: parseInt(initialCategory) || undefined,
+    minPrice: minPrice ? parseFloat(minPrice) : undefined,
+    maxPrice: maxPrice ? parseFloat(maxPrice) : undefined,
+    vehicleId: selectedVehicle?.vehicleId,
+    vehicleYear: selectedVehicle?.year ?? undefined,
+    filters: selectedFacets,
+    sort: sortBy,
+    page,
+    limit: PAGE_SIZE,
+  };
+
+  const { data: searchResult } = useQuery({
+    queryKey: ['products', 'search', searchQuery],
+    queryFn: () => api.products.search(searchQuery),
+    placeholderData: keepPreviousData,
   });
 
   const { data: topSellingProducts } = useQuery({
@@ -61,89 +98,32 @@ export default function ProductsPage() {
     queryFn: api.products.getTopSelling
   });
 
-  const filteredProducts = useMemo(() => {
-    if (!products) return [];
-    
-    let result = [...products];
-
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      result = result.filter(p => 
-        p.name.toLowerCase().includes(term) ||
-        p.description?.toLowerCase().includes(term) ||
-        p.sku?.toLowerCase().includes(term) ||
-        p.make?.toLowerCase().includes(term) ||
-        p.model?.toLowerCase().includes(term)
-      );
-    }
-
-    if (selectedBrands.length > 0) {
-      result = result.filter(p => p.make && selectedBrands.includes(p.make));
-    }
-
-    if (selectedDepartments.length > 0) {
-      result = result.filter(p => p.department && selectedDepartments.includes(p.department));
-    }
-
-    if (minPrice) {
-      result = result.filter(p => parseFloat(p.price) >= parseFloat(minPrice));
-    }
-
-    if (maxPrice) {
-      result = result.filter(p => parseFloat(p.price) <= parseFloat(maxPrice));
-    }
-
-    if (sortBy === "price_low") {
-      result.sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
-    } else if (sortBy === "price_high") {
-      result.sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
-    } else if (sortBy === "name") {
-      result.sort((a, b) => a.name.localeCompare(b.name));
-    }
-
-    return result;
-  }, [products, searchTerm, selectedBrands, selectedDepartments, minPrice, maxPrice, sortBy]);
+  const results = searchResult?.items || [];
+  const totalResults = searchResult?.total || 0;
+  const totalPages = searchResult?.totalPages || 0;
 
   const searchSuggestions = useMemo(() => {
-    if (!products || !searchTerm.trim() || searchTerm.length < 2) return [];
-    const term = searchTerm.toLowerCase();
-    return products
-      .filter(p => 
-        p.name.toLowerCase().includes(term) ||
-        p.sku?.toLowerCase().includes(term)
-      )
-      .slice(0, 6);
-  }, [products, searchTerm]);
-
-  const uniqueDepartments = useMemo(() => {
-    if (!products) return [];
-    const depts = products.map(p => p.department).filter(Boolean) as string[];
-    return Array.from(new Set(depts));
-  }, [products]);
-
-  const toggleBrand = (brand: string) => {
-    setSelectedBrands(prev => 
-      prev.includes(brand) ? prev.filter(b => b !== brand) : [...prev, brand]
-    );
-  };
-
-  const toggleDepartment = (dept: string) => {
-    setSelectedDepartments(prev => 
-      prev.includes(dept) ? prev.filter(d => d !== dept) : [...prev, dept]
-    );
+    if (!debouncedSearch || debouncedSearch.length < 2) return [];
+    return results.slice(0, 6);
+  }, [results, debouncedSearch]);
+
+  const toggleFacet = (field: ProductSearchFacetField, value: string) => {
+    setSelectedFacets(prev => {
+      const current = prev[field] || [];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      return { ...prev, [field]: next };
+    });
   };
 
   const clearFilters = () => {
     setSearchTerm("");
-    setSelectedBrands([]);
-    setSelectedDepartments([]);
-    setSelectedMaterials([]);
-    setSelectedSurfaceTypes([]);
+    setSelectedFacets({});
     setMinPrice("");
     setMaxPrice("");
+    setGarageVehicleId("");
   };
 
-  const hasActiveFilters = searchTerm || selectedBrands.length > 0 || selectedDepartments.length > 0 || minPrice || maxPrice;
+  const hasActiveFilters = searchTerm || Object.values(selectedFacets).some(values => values && values.length > 0) || minPrice || maxPrice || garageVehicleId;
 
   const SECTION_TITLE = "font-bold text-[10px] uppercase text-slate-800 mb-2 tracking-wide";
   
@@ -161,27 +141,26 @@ export default function ProductsPage() {
           <X className="h-3 w-3 mr-1" /> Clear All Filters
         </Button>
       )}
-
-      <div className="border-b border-slate-300 pb-4">
-        <h3 className={SECTION_TITLE}>Brand</h3>
-        <div className="space-y-2 max-h-32 overflow-y-auto pr-2 custom-scrollbar">
-          {filterOptions?.brands.map((brand) => (
-            <div key={brand} className="flex items-center space-x-2">
-              <Checkbox 
-                id={`brand-${brand}`} 
-                checked={selectedBrands.includes(brand)}
-                onCheckedChange={() => toggleBrand(brand)}
-                className="rounded-none border-slate-400 h-3 w-3 data-[state=checked]:bg-[#3D4736] data-[state=checked]:border-[#3D4736]" 
-                data-testid={`checkbox-brand-${brand}`}
-              />
-              <label htmlFor={`brand-${brand}`} className="text-[10px] font-medium leading-none cursor-pointer text-slate-600 hover:text-black uppercase">
-                {brand}
-              </label>
-            </div>
-          ))}
-        </div>
-      </div>
       
+      {garage && garage.length > 0 && (
+        <div className="border-b border-slate-300 pb-4">
+          <h3 className={SECTION_TITLE}>Fits My Vehicle</h3>
+          <select
+            value={garageVehicleId}
+            onChange={(e) => setGarageVehicleId(e.target.value)}
+            className="w-full border border-slate-300 bg-white px-2 py-1 text-[10px] rounded-none"
+            data-testid="select-garage-vehicle"
+          >
+            <option value="">Any vehicle</option>
+            {garage.map(({ id, year, nickname, vehicle }) => (
+              <option key={id} value={id.toString()}>
+                {nickname || [year, vehicle.make, vehicle.model, vehicle.variant].filter(Boolean).join(' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className="border-b border-slate-300 pb-4">
         <h3 className={SECTION_TITLE}>Price (AED)</h3>
         <div className="flex gap-2">
@@ -204,65 +183,33 @@ export default function ProductsPage() {
         </div>
       </div>
 
-      <div className="border-b border-slate-300 pb-4">
-        <h3 className={SECTION_TITLE}>Department</h3>
-        <div className="space-y-1">
-          {uniqueDepartments.map((dept) => (
-            <div key={dept} className="flex items-center space-x-2">
-              <Checkbox 
-                id={`dept-${dept}`} 
-                checked={selectedDepartments.includes(dept!)}
-                onCheckedChange={() => toggleDepartment(dept!)}
-                className="rounded-none border-slate-400 h-3 w-3 data-[state=checked]:bg-[#3D4736] data-[state=checked]:border-[#3D4736]" 
-                data-testid={`checkbox-dept-${dept}`}
-              />
-              <label htmlFor={`dept-${dept}`} className="text-[10px] font-medium leading-none cursor-pointer text-slate-600 hover:text-black uppercase">
-                {dept}
-              </label>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      <div className="border-b border-slate-300 pb-4">
-        <h3 className={SECTION_TITLE}>Surface Type</h3>
-        <div className="space-y-1 pl-1">
-          {filterOptions?.surfaceTypes.map((type, i) => (
-            <div key={i} className="flex items-center gap-2">
-              <Checkbox 
-                id={`surf-${i}`} 
-                checked={selectedSurfaceTypes.includes(type)}
-                onCheckedChange={() => setSelectedSurfaceTypes(prev => 
-                  prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
-                )}
-                className="rounded-none border-slate-400 h-3 w-3 data-[state=checked]:bg-[#3D4736] data-[state=checked]:border-[#3D4736]" 
-                data-testid={`checkbox-surface-${type}`}
-              />
-              <label htmlFor={`surf-${i}`} className="text-[10px] text-slate-600 uppercase cursor-pointer">{type}</label>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      <div className="border-b border-slate-300 pb-4">
-        <h3 className={SECTION_TITLE}>Friction Material</h3>
-        <div className="space-y-1 pl-1">
-          {filterOptions?.frictionalMaterials.map((mat, i) => (
-            <div key={i} className="flex items-center gap-2">
-              <Checkbox 
-                id={`mat-${i}`} 
-                checked={selectedMaterials.includes(mat)}
-                onCheckedChange={() => setSelectedMaterials(prev => 
-                  prev.includes(mat) ? prev.filter(m => m !== mat) : [...prev, mat]
-                )}
-                className="rounded-none border-slate-400 h-3 w-3 data-[state=checked]:bg-[#3D4736] data-[state=checked]:border-[#3D4736]" 
-                data-testid={`checkbox-material-${mat}`}
-              />
-              <label htmlFor={`mat-${i}`} className="text-[10px] text-slate-600 uppercase cursor-pointer">{mat}</label>
+      {FACET_SECTIONS.map(({ field, title }) => {
+        const options = searchResult?.facets[field] || [];
+        if (options.length === 0) return null;
+
+        return (
+          <div key={field} className="border-b border-slate-300 pb-4">
+            <h3 className={SECTION_TITLE}>{title}</h3>
+            <div className="space-y-1 max-h-32 overflow-y-auto pr-2 custom-scrollbar">
+              {options.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox 
+                    id={`${field}-${option.value}`} 
+                    checked={selectedFacets[field]?.includes(option.value) || false}
+                    onCheckedChange={() => toggleFacet(field, option.value)}
+                    className="rounded-none border-slate-400 h-3 w-3 data-[state=checked]:bg-[#3D4736] data-[state=checked]:border-[#3D4736]" 
+                    data-testid={`checkbox-${field}-${option.value}`}
+                  />
+                  <label htmlFor={`${field}-${option.value}`} className="text-[10px] font-medium leading-none cursor-pointer text-slate-600 hover:text-black uppercase flex-1">
+                    {option.label}
+                  </label>
+                  <span className="text-[10px] text-slate-400">{option.count}</span>
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
-      </div>
+          </div>
+        );
+      })}
 
       <div className="mt-8 bg-black p-4 text-center">
         <div className="aspect-square bg-slate-800 mb-4 overflow-hidden">
@@ -277,7 +224,7 @@ export default function ProductsPage() {
     </div>
   );
 
-  const ProductGridItem = ({ product }: { product: Product }) => (
+  const ProductGridItem = ({ product }: { product: ProductWithCover }) => (
     <Link href={`/products/${product.id}`} data-testid={`link-product-${product.id}`}>
       <div className="group relative bg-[#F5F5F5] border border-transparent hover:border-slate-300 transition-all p-4 flex flex-col h-full cursor-pointer" data-testid={`card-product-${product.id}`}>
         <div className="absolute top-3 right-3 text-slate-300 cursor-pointer hover:text-red-500 z-10">
@@ -287,6 +234,8 @@ export default function ProductsPage() {
         <div className="aspect-square mb-4 bg-transparent flex items-center justify-center p-2">
           <ProductImage 
             src={product.image} 
+            image={product.coverImage}
+            sizes="(min-width: 1024px) 20vw, 50vw"
             alt={product.name} 
             className="max-w-full max-h-full object-contain"
             placeholderClassName="w-full h-full"
@@ -300,7 +249,7 @@ export default function ProductsPage() {
           
           <div className="mb-4">
             {isAuthenticated && product.price ? (
-              <div className="font-bold text-sm text-black">AED {parseFloat(product.price.toString()).toLocaleString()}</div>
+              <div className="font-bold text-sm text-black">{format(product.price, product.currency)}</div>
             ) : (
               <div className="text-xs text-slate-500 italic">Login for Price</div>
             )}
@@ -330,7 +279,7 @@ export default function ProductsPage() {
                 {searchTerm ? `SEARCH: "${searchTerm}"` : 'ALL PRODUCTS'}
               </h1>
               <div className="flex items-center gap-2 text-xs text-slate-500">
-                <span className="font-bold text-black">{filteredProducts.length} Results</span>
+                <span className="font-bold text-black">{totalResults} Results</span>
                 {hasActiveFilters && <span className="text-orange-600">• Filters applied</span>}
               </div>
             </div>
@@ -364,12 +313,12 @@ export default function ProductsPage() {
                           className="flex items-center gap-3 p-2 hover:bg-slate-50 cursor-pointer border-b border-slate-100"
                           data-testid={`suggestion-${product.id}`}
                         >
-                          <ProductImage src={product.image} alt={product.name} className="w-10 h-10 object-contain" placeholderClassName="w-10 h-10" />
+                          <ProductImage src={product.image} image={product.coverImage} sizes="40px" alt={product.name} className="w-10 h-10 object-contain" placeholderClassName="w-10 h-10" />
                           <div className="flex-1 min-w-0">
                             <div className="text-xs font-medium text-slate-800 truncate">{product.name}</div>
                             <div className="text-[10px] text-slate-500">SKU: {product.sku}</div>
                           </div>
-                          <div className="text-xs font-bold text-orange-600">AED {parseFloat(product.price).toLocaleString()}</div>
+                          <div className="text-xs font-bold text-orange-600">{product.price ? format(product.price, product.currency) : 'Price on request'}</div>
                         </div>
                       </Link>
                     ))}
@@ -381,14 +330,15 @@ export default function ProductsPage() {
                 <span className="text-xs font-bold uppercase text-slate-600 hidden md:inline">Sort:</span>
                 <select 
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value)}
+                  onChange={(e) => setSortBy(e.target.value as ProductSearchSort)}
                   className="border border-slate-300 bg-white px-3 py-1.5 text-xs font-bold cursor-pointer rounded-none"
                   data-testid="select-sort"
                 >
-                  <option value="best">Best Match</option>
-                  <option value="price_low">Price: Low to High</option>
-                  <option value="price_high">Price: High to Low</option>
-                  <option value="name">Name A-Z</option>
+                  <option value="relevance">Best Match</option>
+                  <option value="price_asc">Price: Low to High</option>
+                  <option value="price_desc">Price: High to Low</option>
+                  <option value="newest">Newest</option>
+                  <option value="rating">Top Rated</option>
                 </select>
               </div>
             </div>
@@ -406,7 +356,7 @@ export default function ProductsPage() {
 
             <div className="flex-1">
               
-              {filteredProducts.length === 0 ? (
+              {results.length === 0 ? (
                 <div className="text-center py-16">
                   <div className="text-slate-400 mb-4">
                     <Search className="h-16 w-16 mx-auto" />
@@ -418,11 +368,39 @@ export default function ProductsPage() {
                   </Button>
                 </div>
               ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-12">
-                  {filteredProducts.map((product) => (
-                    <ProductGridItem key={product.id} product={product} />
-                  ))}
-                </div>
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-6">
+                    {results.map((product) => (
+                      <ProductGridItem key={product.id} product={product} />
+                    ))}
+                  </div>
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-center gap-4 mb-12">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage(p => p - 1)}
+                        disabled={page <= 1}
+                        className="rounded-none text-xs border-slate-400"
+                        data-testid="button-prev-page"
+                      >
+                        <ChevronLeft className="h-3 w-3 mr-1" /> Previous
+                      </Button>
+                      <span className="text-xs text-slate-600">Page {page} of {totalPages}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage(p => p + 1)}
+                        disabled={page >= totalPages}
+                        className="rounded-none text-xs border-slate-400"
+                        data-testid="button-next-page"
+                      >
+                        Next <ChevronRight className="h-3 w-3 ml-1" />
+                      </Button>
+                    </div>
+                  )}
+                </>
               )}
 
               {topSellingProducts && topSellingProducts.length > 0 && (
@@ -437,7 +415,7 @@ export default function ProductsPage() {
                           <Link href={`/products/${product.id}`}>
                             <div className="group cursor-pointer text-center bg-[#F5F5F5] p-4 border border-transparent hover:border-slate-300 transition-colors h-full">
                               <div className="aspect-square mb-3 flex items-center justify-center p-2 bg-white">
-                                <ProductImage src={product.image} className="max-w-full max-h-full object-contain" alt={product.name} placeholderClassName="w-full h-full" />
+                                <ProductImage src={product.image} image={product.coverImage} sizes="(min-width: 768px) 25vw, 50vw" className="max-w-full max-h-full object-contain" alt={product.name} placeholderClassName="w-full h-full" />
                               </div>
                               <h3 className="text-[10px] font-bold text-slate-800 uppercase leading-tight line-clamp-2 min-h-[2.5em]">
                                 {product.name}
@@ -0,0 +1,26 @@
+-- Backfill slugs for categories created before the category tree
+-- Run this on your Neon database after `npm run db:push` has added parent_id, slug and display_order
+
+-- Derive a slug from the name (lowercase, '&' -> 'and', other runs of symbols -> '-').
+-- Names that produce the same slug get the category id appended so the unique constraint holds.
+WITH derived AS (
+    SELECT
+        id,
+        trim(both '-' from regexp_replace(lower(replace(name, '&', ' and ')), '[^a-z0-9]+', '-', 'g')) AS base
+    FROM categories
+    WHERE slug IS NULL
+),
+ranked AS (
+    SELECT id, base, row_number() OVER (PARTITION BY base ORDER BY id) AS n
+    FROM derived
+)
+UPDATE categories c
+SET slug = CASE
+    WHEN r.n = 1 AND NOT EXISTS (SELECT 1 FROM categories t WHERE t.slug = r.base) THEN r.base
+    ELSE r.base || '-' || c.id
+END
+FROM ranked r
+WHERE c.id = r.id;
+
+-- Existing categories stay top-level (parent_id NULL). Nest them with
+-- PATCH /api/admin/categories/:id { "parentId": ... } once the tree is designed.
@@ -0,0 +1,17 @@
+-- Migration to turn vendor_notifications into notifications for every role
+-- Run this on your Neon database before `npm run db:push`, so drizzle-kit sees the renamed table
+-- instead of dropping vendor_notifications and creating an empty notifications table.
+
+-- Step 1: Rename the table and its owner column
+ALTER TABLE IF EXISTS vendor_notifications RENAME TO notifications;
+ALTER TABLE notifications RENAME COLUMN vendor_id TO user_id;
+
+-- Step 2: In-app link for notifications raised by domain events
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS link TEXT;
+
+-- Step 3: Unread counts are read on every page load
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, is_read);
+
+-- notification_preferences is new and is created by `npm run db:push`.
+
+-- Done!
@@ -0,0 +1,16 @@
+-- Full-text search index for GET /api/products/search
+-- drizzle-kit does not manage expression indexes, so run this on your Neon database once.
+-- The expression must match `productSearchDocument` in server/storage.ts for the planner to use it.
+
+CREATE INDEX IF NOT EXISTS products_search_document_idx ON products USING GIN ((
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(sku, '') || ' ' || coalesce(make, '') || ' ' || coalesce(model, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(technical_description, '') || ' ' || coalesce(vehicle_compatibility, '')), 'C')
+));
+
+-- Facet filters on the option arrays use the && operator
+CREATE INDEX IF NOT EXISTS products_materials_idx ON products USING GIN (materials);
+CREATE INDEX IF NOT EXISTS products_features_idx ON products USING GIN (features);
+CREATE INDEX IF NOT EXISTS products_drive_types_idx ON products USING GIN (drive_types);
+CREATE INDEX IF NOT EXISTS products_sizes_idx ON products USING GIN (sizes);
+CREATE INDEX IF NOT EXISTS products_colors_idx ON products USING GIN (colors);
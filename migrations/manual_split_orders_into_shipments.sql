@@ -0,0 +1,41 @@
+-- Backfill per-vendor shipments for orders placed before multi-vendor split
+-- Run this on your Neon database after `npm run db:push` has created order_shipments
+
+-- Step 1: Fill in missing vendor on order items from the product
+UPDATE order_items oi
+SET vendor_id = p.vendor_id
+FROM products p
+WHERE oi.product_id = p.id AND oi.vendor_id IS NULL;
+
+-- Step 2: Create one shipment per (order, vendor), carrying over the order status and tracking
+INSERT INTO order_shipments (order_id, vendor_id, status, tracking_number, estimated_delivery, subtotal, commission_percent, commission_amount, created_at)
+SELECT
+    o.id,
+    oi.vendor_id,
+    o.status,
+    o.tracking_number,
+    o.estimated_delivery,
+    SUM(oi.price * oi.quantity),
+    COALESCE(up.commission_percent, (SELECT value::decimal FROM platform_settings WHERE key = 'default_commission_percent'), 10),
+    ROUND(SUM(oi.price * oi.quantity) * COALESCE(up.commission_percent, (SELECT value::decimal FROM platform_settings WHERE key = 'default_commission_percent'), 10) / 100, 2),
+    o.created_at
+FROM orders o
+JOIN order_items oi ON oi.order_id = o.id
+LEFT JOIN user_profiles up ON up.user_id = oi.vendor_id
+WHERE oi.shipment_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM order_shipments s WHERE s.order_id = o.id AND s.vendor_id = oi.vendor_id)
+GROUP BY o.id, oi.vendor_id, up.commission_percent;
+
+-- Step 3: Link items to their shipment
+UPDATE order_items oi
+SET shipment_id = s.id
+FROM order_shipments s
+WHERE oi.shipment_id IS NULL AND s.order_id = oi.order_id AND s.vendor_id = oi.vendor_id;
+
+-- Step 4: Attach existing refunds to the shipment of their vendor
+UPDATE refunds r
+SET shipment_id = s.id
+FROM order_shipments s
+WHERE r.shipment_id IS NULL AND s.order_id = r.order_id AND s.vendor_id = r.vendor_id;
+
+-- Done!
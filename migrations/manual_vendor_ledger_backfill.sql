@@ -0,0 +1,63 @@
+-- Backfill the vendor ledger for orders paid before the ledger existed
+-- Run this on your Neon database once after `npm run db:push` has created the vendor_ledger_* tables.
+-- References match the ones postOrderSales/completeRefund use in server/storage.ts, so rows that
+-- already exist are skipped and the script is safe to re-run.
+
+WITH source AS (
+    -- Sale and commission for every live shipment of a paid (or since refunded) order
+    SELECT s.vendor_id, 'sale'::ledger_entry_type AS entry_type, s.subtotal AS amount,
+           'Sale on order #' || upper(left(s.order_id, 8)) AS description,
+           'sale:' || s.id AS reference, s.order_id, s.id AS shipment_id, NULL::varchar AS refund_id, s.created_at
+    FROM order_shipments s
+    JOIN orders o ON o.id = s.order_id
+    WHERE o.payment_status IN ('paid', 'refunded') AND s.status <> 'cancelled'
+    UNION ALL
+    SELECT s.vendor_id, 'commission', s.commission_amount,
+           'Platform commission (' || s.commission_percent || '%) on order #' || upper(left(s.order_id, 8)),
+           'commission:' || s.id, s.order_id, s.id, NULL, s.created_at
+    FROM order_shipments s
+    JOIN orders o ON o.id = s.order_id
+    WHERE o.payment_status IN ('paid', 'refunded') AND s.status <> 'cancelled'
+    UNION ALL
+    -- Completed refunds and the commission given back on them
+    SELECT coalesce(s.vendor_id, r.vendor_id), 'refund', r.amount,
+           'Refund for order #' || upper(left(r.order_id, 8)),
+           'refund:' || r.id, r.order_id, r.shipment_id, r.id, coalesce(r.completed_at, r.created_at)
+    FROM refunds r
+    LEFT JOIN order_shipments s ON s.id = r.shipment_id
+    WHERE r.request_status = 'completed' AND coalesce(s.vendor_id, r.vendor_id) IS NOT NULL
+    UNION ALL
+    SELECT s.vendor_id, 'commission_reversal', r.commission_reversed,
+           'Commission returned on refund for order #' || upper(left(r.order_id, 8)),
+           'commission_reversal:' || r.id, r.order_id, r.shipment_id, r.id, coalesce(r.completed_at, r.created_at)
+    FROM refunds r
+    JOIN order_shipments s ON s.id = r.shipment_id
+    WHERE r.request_status = 'completed' AND coalesce(r.commission_reversed, 0) > 0
+),
+inserted AS (
+    INSERT INTO vendor_ledger_transactions (vendor_id, entry_type, amount, description, reference, order_id, shipment_id, refund_id, created_at)
+    SELECT vendor_id, entry_type, amount, description, reference, order_id, shipment_id, refund_id, created_at
+    FROM source
+    WHERE amount > 0
+    ON CONFLICT (reference) DO NOTHING
+    RETURNING id, entry_type, amount
+)
+-- Same accounts as LEDGER_POSTINGS in server/storage.ts
+INSERT INTO vendor_ledger_lines (transaction_id, account, debit, credit)
+SELECT id, debit_account, amount, 0 FROM (
+    SELECT id, amount, CASE entry_type
+        WHEN 'sale' THEN 'customer_payments'
+        WHEN 'commission_reversal' THEN 'platform_commission'
+        ELSE 'vendor_payable'
+    END::ledger_account AS debit_account
+    FROM inserted
+) d
+UNION ALL
+SELECT id, credit_account, 0, amount FROM (
+    SELECT id, amount, CASE entry_type
+        WHEN 'commission' THEN 'platform_commission'
+        WHEN 'refund' THEN 'customer_payments'
+        ELSE 'vendor_payable'
+    END::ledger_account AS credit_account
+    FROM inserted
+) c;
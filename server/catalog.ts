@@ -0,0 +1,613 @@
+// Vendor catalogue import and export. A catalogue file (CSV or XLSX) has one product per row in the
+// columns listed in catalogColumns, and the export writes the same layout, so a vendor can export,
+// edit in a spreadsheet and import again. Rows are matched to the vendor's products by productId or
+// SKU; unmatched rows create drafts. Imports run in the background, one job at a time.
+import dns from "dns";
+import net from "net";
+import path from "path";
+import ExcelJS from "exceljs";
+import { Agent, fetch } from "undici";
+import { storage } from "./storage";
+import { parseCsv, toCsv } from "./csv";
+import { readUpload, storeFile, resolveOwnedUpload, validateContent, fileUrl, uploadRules } from "./uploads";
+import { isProcessableImage, stripImageMetadata, queueProductMediaProcessing } from "./images";
+import { publishToUser, publishAdminQueue } from "./realtime";
+import type {
+  products, productMedia, Product, ProductMedia, ProductPricingTier, UploadedFile, CatalogImportError, CatalogImportPreview,
+} from "@shared/schema";
+
+type ProductData = Partial<typeof products.$inferInsert>;
+type TierData = Pick<ProductPricingTier, 'minQuantity' | 'maxQuantity' | 'price'>;
+type MediaData = Omit<typeof productMedia.$inferInsert, 'productId' | 'isCover' | 'displayOrder'>;
+
+type ReferenceList =
+  | 'sizes' | 'colors' | 'features' | 'performance' | 'thickness' | 'materials' | 'driveTypes'
+  | 'dimensionUnits' | 'weightUnits' | 'controlledItemTypes' | 'pricingTerms' | 'manufacturingSources' | 'currencies';
+
+interface ProductColumn {
+  field: keyof Product;
+  kind: 'text' | 'integer' | 'decimal' | 'boolean' | 'list';
+  // Values must name an active entry of this reference list
+  reference?: ReferenceList;
+}
+
+// Product fields in the order of the draft flow tabs; the header is the field name
+const productColumns: ProductColumn[] = [
+  { field: 'name', kind: 'text' },
+  { field: 'mainCategoryId', kind: 'integer' },
+  { field: 'categoryId', kind: 'integer' },
+  { field: 'subCategoryId', kind: 'integer' },
+  { field: 'vehicleCompatibility', kind: 'text' },
+  { field: 'certifications', kind: 'text' },
+  { field: 'countryOfOrigin', kind: 'text' },
+  { field: 'controlledItemType', kind: 'text', reference: 'controlledItemTypes' },
+  { field: 'description', kind: 'text' },
+  { field: 'technicalDescription', kind: 'text' },
+  { field: 'dimensionLength', kind: 'decimal' },
+  { field: 'dimensionWidth', kind: 'decimal' },
+  { field: 'dimensionHeight', kind: 'decimal' },
+  { field: 'dimensionUnit', kind: 'text', reference: 'dimensionUnits' },
+  { field: 'materials', kind: 'list', reference: 'materials' },
+  { field: 'features', kind: 'list', reference: 'features' },
+  { field: 'performance', kind: 'list', reference: 'performance' },
+  { field: 'driveTypes', kind: 'list', reference: 'driveTypes' },
+  { field: 'sizes', kind: 'list', reference: 'sizes' },
+  { field: 'thickness', kind: 'list', reference: 'thickness' },
+  { field: 'colors', kind: 'list', reference: 'colors' },
+  { field: 'weightValue', kind: 'decimal' },
+  { field: 'weightUnit', kind: 'text', reference: 'weightUnits' },
+  { field: 'packingLength', kind: 'decimal' },
+  { field: 'packingWidth', kind: 'decimal' },
+  { field: 'packingHeight', kind: 'decimal' },
+  { field: 'packingDimensionUnit', kind: 'text', reference: 'dimensionUnits' },
+  { field: 'packingWeight', kind: 'decimal' },
+  { field: 'packingWeightUnit', kind: 'text', reference: 'weightUnits' },
+  { field: 'minOrderQuantity', kind: 'integer' },
+  { field: 'basePrice', kind: 'decimal' },
+  { field: 'currency', kind: 'text', reference: 'currencies' },
+  { field: 'pricingTerms', kind: 'list', reference: 'pricingTerms' },
+  { field: 'productionLeadTime', kind: 'integer' },
+  { field: 'readyStockAvailable', kind: 'boolean' },
+  { field: 'stock', kind: 'integer' },
+  { field: 'manufacturingSource', kind: 'text', reference: 'manufacturingSources' },
+  { field: 'manufacturingSourceName', kind: 'text' },
+  { field: 'requiresExportLicense', kind: 'boolean' },
+  { field: 'hasWarranty', kind: 'boolean' },
+  { field: 'warrantyDuration', kind: 'integer' },
+  { field: 'warrantyDurationUnit', kind: 'text' },
+  { field: 'warrantyTerms', kind: 'text' },
+];
+
+export const catalogColumns = ['productId', 'sku', ...productColumns.map(c => c.field as string), 'pricingTiers', 'imageUrls'];
+
+// Separates values in list columns, pricing tiers and image URLs
+const LIST_SEPARATOR = '|';
+const MAX_ROWS = 5000;
+const MAX_IMAGES_PER_ROW = 20;
+const IMAGE_DOWNLOAD_TIMEOUT_MS = 15 * 1000;
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+// "10-49:4399.00" for a closed range, "50+:4100" or "50:4100" for an open-ended one
+const TIER_PATTERN = /^(\d+)\s*(?:-\s*(\d+)|\+)?\s*:\s*(\d+(?:\.\d{1,2})?)$/;
+const FILE_URL_PATTERN = /^\/api\/files\/[0-9a-f-]{36}$/i;
+
+type CatalogProduct = Product & { media: ProductMedia[]; pricingTiers: ProductPricingTier[] };
+
+interface PlannedRow {
+  row: number;
+  sku: string;
+  productId?: number;
+  data: ProductData;
+  pricingTiers?: TierData[];
+  imageUrls: string[];
+}
+
+// ===== Reading files =====
+
+// Spreadsheet cell value as trimmed text; formulas give their cached result
+function cellText(value: ExcelJS.CellValue): string {
+  if (value == null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+    if ('formula' in value || 'sharedFormula' in value) return cellText((value.result ?? null) as ExcelJS.CellValue);
+    if ('text' in value) return cellText(value.text as ExcelJS.CellValue);
+    if ('error' in value) return '';
+  }
+  return String(value).trim();
+}
+
+// Rows keyed by header, with every value as trimmed text
+export async function parseCatalogFile(file: UploadedFile): Promise<{ rows: Record<string, string>[] } | { error: string }> {
+  const body = await readUpload(file);
+  let rows: Record<string, string>[];
+
+  if (file.mimeType === XLSX_TYPE) {
+    try {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(body);
+      const sheet = workbook.worksheets[0];
+      if (!sheet) return { error: "The workbook has no sheets" };
+
+      // The first row holds the headers; cells under a blank header are ignored
+      const headers: string[] = [];
+      sheet.getRow(1).eachCell((cell, column) => {
+        headers[column] = cellText(cell.value);
+      });
+      rows = [];
+      sheet.eachRow((sheetRow, rowNumber) => {
+        if (rowNumber === 1) return;
+        const row: Record<string, string> = {};
+        headers.forEach((header, column) => {
+          if (header) row[header] = cellText(sheetRow.getCell(column).value);
+        });
+        rows.push(row);
+      });
+    } catch {
+      return { error: "Could not read the workbook" };
+    }
+  } else {
+    rows = parseCsv(body.toString('utf8'));
+  }
+
+  if (rows.length === 0) return { error: "The file has no product rows" };
+  if (rows.length > MAX_ROWS) return { error: `A single import is limited to ${MAX_ROWS} rows` };
+
+  const headers = Object.keys(rows[0]);
+  const unknown = headers.filter(header => header && !catalogColumns.includes(header));
+  if (unknown.length > 0) {
+    return { error: `Unknown columns: ${unknown.join(', ')}. Export your catalogue for the expected layout` };
+  }
+  if (!headers.includes('sku')) return { error: "The file needs a sku column" };
+
+  return { rows };
+}
+
+// ===== Validation =====
+
+// Stored value for each accepted spelling (lowercased). Units are stored by abbreviation and
+// pricing terms and currencies by code; everything else by name.
+async function loadReferenceLookups(): Promise<Map<ReferenceList, Map<string, string>>> {
+  const lists: ReferenceList[] = [];
+  productColumns.forEach(column => {
+    if (column.reference && !lists.includes(column.reference)) lists.push(column.reference);
+  });
+
+  const lookups = new Map<ReferenceList, Map<string, string>>();
+  for (const list of lists) {
+    const items = list === 'currencies'
+      ? await storage.getReferenceData('currencies')
+      : await storage.getProductReferenceData(list);
+    const lookup = new Map<string, string>();
+    items.forEach(item => {
+      const stored: string = item.abbreviation ?? item.code ?? item.name;
+      [item.name, item.abbreviation, item.code].forEach(alias => {
+        if (alias) lookup.set(String(alias).toLowerCase(), stored);
+      });
+    });
+    lookups.set(list, lookup);
+  }
+  return lookups;
+}
+
+function parseValue(
+  column: ProductColumn,
+  raw: string,
+  lookups: Map<ReferenceList, Map<string, string>>
+): { value: unknown } | { error: string } {
+  const lookup = column.reference ? lookups.get(column.reference) : undefined;
+  const checkReference = (value: string) => lookup?.get(value.toLowerCase());
+
+  switch (column.kind) {
+    case 'integer':
+      if (!/^\d+$/.test(raw)) return { error: `${column.field} must be a whole number of 0 or more` };
+      return { value: parseInt(raw) };
+    case 'decimal':
+      if (!/^\d+(\.\d+)?$/.test(raw)) return { error: `${column.field} must be a number of 0 or more` };
+      return { value: parseFloat(raw).toFixed(2) };
+    case 'boolean': {
+      const normalized = raw.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { error: `${column.field} must be true or false` };
+    }
+    case 'list': {
+      const values = raw.split(LIST_SEPARATOR).map(v => v.trim()).filter(Boolean);
+      if (!lookup) return { value: values };
+      const unknown = values.filter(v => !checkReference(v));
+      if (unknown.length > 0) return { error: `Unknown ${column.field}: ${unknown.join(', ')}` };
+      return { value: values.map(v => checkReference(v)!) };
+    }
+    default:
+      if (!lookup) return { value: raw };
+      return checkReference(raw) ? { value: checkReference(raw) } : { error: `Unknown ${column.field}: ${raw}` };
+  }
+}
+
+function parsePricingTiers(raw: string): { tiers: TierData[] } | { error: string } {
+  const tiers: TierData[] = [];
+  const parts = raw.split(LIST_SEPARATOR).map(part => part.trim()).filter(Boolean);
+  for (const part of parts) {
+    const match = TIER_PATTERN.exec(part);
+    if (!match) return { error: `Invalid pricing tier "${part}". Use minQuantity-maxQuantity:price or minQuantity+:price` };
+    const minQuantity = parseInt(match[1]);
+    const maxQuantity = match[2] ? parseInt(match[2]) : null;
+    if (minQuantity < 1 || (maxQuantity !== null && maxQuantity < minQuantity)) {
+      return { error: `Invalid quantity range in pricing tier "${part}"` };
+    }
+    tiers.push({ minQuantity, maxQuantity, price: parseFloat(match[3]).toFixed(2) });
+  }
+
+  tiers.sort((a, b) => a.minQuantity - b.minQuantity);
+  for (let i = 1; i < tiers.length; i++) {
+    const previousMax = tiers[i - 1].maxQuantity;
+    if (previousMax == null || previousMax >= tiers[i].minQuantity) {
+      return { error: "Pricing tiers must not overlap" };
+    }
+  }
+  return { tiers };
+}
+
+function formatPricingTiers(tiers: ProductPricingTier[]): string {
+  return tiers
+    .map(tier => `${tier.minQuantity}${tier.maxQuantity != null ? `-${tier.maxQuantity}` : '+'}:${tier.price}`)
+    .join(LIST_SEPARATOR);
+}
+
+// Image URLs are either the vendor's own uploads (/api/files/:id) or https links fetched during the import
+async function checkImageUrl(url: string, vendorId: string): Promise<string | null> {
+  if (FILE_URL_PATTERN.test(url)) {
+    const file = await resolveOwnedUpload(url, vendorId, ['product_media']);
+    if (!file) return `${url} is not one of your product_media uploads`;
+    return isProcessableImage(file.mimeType) ? null : `${url} is not a JPEG, PNG or WebP image`;
+  }
+  try {
+    return new URL(url).protocol === 'https:' ? null : `${url} must be an https URL`;
+  } catch {
+    return `${url} is not a valid URL`;
+  }
+}
+
+// Validates every row without writing anything. Returns the rows that would be imported
+// together with the preview shown to the vendor.
+export async function planCatalogImport(vendorId: string, rows: Record<string, string>[]): Promise<{ planned: PlannedRow[]; preview: CatalogImportPreview }> {
+  const catalog = await storage.getVendorCatalog(vendorId);
+  const productsById = new Map<number, CatalogProduct>();
+  const productsBySku = new Map<string, CatalogProduct>();
+  catalog.forEach(product => {
+    productsById.set(product.id, product);
+    if (product.sku) productsBySku.set(product.sku.trim().toLowerCase(), product);
+  });
+
+  const lookups = await loadReferenceLookups();
+  const categoryChecks = new Map<string, string | null>();
+  const seenSkus = new Map<string, number>();
+  const planned: PlannedRow[] = [];
+  const errors: CatalogImportError[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    const raw = rows[i];
+    // Spreadsheet row number, counting the header as row 1
+    const rowNumber = i + 2;
+    const rowErrors: CatalogImportError[] = [];
+    const fail = (column: string | null, error: string) => rowErrors.push({ row: rowNumber, column, error });
+
+    const sku = raw.sku || '';
+    let existing: CatalogProduct | undefined;
+    if (!sku) {
+      fail('sku', "SKU is required");
+    } else if (raw.productId) {
+      existing = /^\d+$/.test(raw.productId) ? productsById.get(parseInt(raw.productId)) : undefined;
+      if (!existing) fail('productId', `Product ${raw.productId} is not one of your products`);
+      const skuOwner = productsBySku.get(sku.toLowerCase());
+      if (existing && skuOwner && skuOwner.id !== existing.id) {
+        fail('sku', `SKU ${sku} is already used by product ${skuOwner.id}`);
+      }
+    } else {
+      existing = productsBySku.get(sku.toLowerCase());
+    }
+
+    if (sku) {
+      const firstRow = seenSkus.get(sku.toLowerCase());
+      if (firstRow) fail('sku', `SKU ${sku} also appears in row ${firstRow}`);
+      else seenSkus.set(sku.toLowerCase(), rowNumber);
+    }
+
+    // Blank cells leave the current value of an existing product unchanged
+    const data: Record<string, unknown> = { sku };
+    productColumns.forEach(column => {
+      const value = raw[column.field as string];
+      if (!value) return;
+      const parsed = parseValue(column, value, lookups);
+      if ('error' in parsed) fail(column.field as string, parsed.error);
+      else data[column.field as string] = parsed.value;
+    });
+    if (!existing && !data.name) fail('name', "Name is required for new products");
+
+    const categoryPath = {
+      mainCategoryId: (data.mainCategoryId ?? existing?.mainCategoryId) as number | null | undefined,
+      categoryId: (data.categoryId ?? existing?.categoryId) as number | null | undefined,
+      subCategoryId: (data.subCategoryId ?? existing?.subCategoryId) as number | null | undefined,
+    };
+    if (raw.mainCategoryId || raw.categoryId || raw.subCategoryId) {
+      const key = `${categoryPath.mainCategoryId}/${categoryPath.categoryId}/${categoryPath.subCategoryId}`;
+      if (!categoryChecks.has(key)) {
+        categoryChecks.set(key, await storage.validateProductCategoryPath(categoryPath));
+      }
+      const categoryError = categoryChecks.get(key);
+      if (categoryError) fail(null, categoryError);
+    }
+
+    let pricingTiers: PlannedRow['pricingTiers'];
+    if (raw.pricingTiers) {
+      const parsed = parsePricingTiers(raw.pricingTiers);
+      if ('error' in parsed) fail('pricingTiers', parsed.error);
+      else pricingTiers = parsed.tiers;
+    }
+
+    // Images the product already has are skipped, so re-importing an export adds nothing
+    const currentUrls = existing ? existing.media.map(m => m.url) : [];
+    const imageUrls = (raw.imageUrls || '').split(LIST_SEPARATOR)
+      .map(url => url.trim())
+      .filter((url, index, all) => url && all.indexOf(url) === index && !currentUrls.includes(url));
+    if (imageUrls.length > MAX_IMAGES_PER_ROW) {
+      fail('imageUrls', `At most ${MAX_IMAGES_PER_ROW} images can be added per row`);
+    } else {
+      for (const url of imageUrls) {
+        const imageError = await checkImageUrl(url, vendorId);
+        if (imageError) fail('imageUrls', imageError);
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      continue;
+    }
+    planned.push({
+      row: rowNumber,
+      sku,
+      productId: existing?.id,
+      data: data as ProductData,
+      pricingTiers,
+      imageUrls,
+    });
+  }
+
+  const updates = planned.filter(row => row.productId).length;
+  return {
+    planned,
+    preview: {
+      totalRows: rows.length,
+      validRows: planned.length,
+      creates: planned.length - updates,
+      updates,
+      rows: planned.map(row => ({
+        row: row.row,
+        sku: row.sku,
+        action: row.productId ? 'update' : 'create',
+        productId: row.productId,
+      })),
+      errors,
+    },
+  };
+}
+
+// ===== Running imports =====
+
+// Blocks loopback, private, link-local and carrier-grade NAT ranges so image URLs cannot reach internal services
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  const lower = address.toLowerCase();
+  if (lower.startsWith('::ffff:')) return isPrivateAddress(lower.slice(7));
+  return lower === '::' || lower === '::1' || lower.startsWith('fc') || lower.startsWith('fd') || lower.startsWith('fe80');
+}
+
+// Resolves like dns.lookup but refuses private addresses. The socket connects to the address
+// checked here, so the name cannot be resolved again to a private address before connecting.
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(Object.assign(new Error(`${hostname} points to a private address`), { code: 'EPRIVATEADDRESS' }), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const imageDownloadAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+async function downloadImage(url: string, vendorId: string): Promise<UploadedFile> {
+  const { hostname, pathname, protocol } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`${url} is not an http(s) URL`);
+  }
+  // IP literals are connected to without a lookup
+  const literal = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && isPrivateAddress(literal)) {
+    throw new Error(`${url} points to a private address`);
+  }
+
+  const response = await fetch(url, {
+    dispatcher: imageDownloadAgent,
+    redirect: 'error',
+    signal: AbortSignal.timeout(IMAGE_DOWNLOAD_TIMEOUT_MS),
+  }).catch((error: Error & { cause?: Error }) => {
+    throw new Error(`${url} could not be downloaded: ${error.cause?.message || error.message}`);
+  });
+  if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`);
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim();
+  if (!isProcessableImage(mimeType)) throw new Error(`${url} is not a JPEG, PNG or WebP image`);
+
+  // The body is read against the upload limit rather than buffered whole, whatever size the server claims
+  const { maxSize } = uploadRules.product_media;
+  const tooLarge = () => new Error(`${url} is too large. Maximum size is ${maxSize / (1024 * 1024)} MB`);
+  if (parseInt(response.headers.get('content-length') || '0', 10) > maxSize) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response.body ?? []) {
+    size += chunk.length;
+    // Leaving the loop cancels the download
+    if (size > maxSize) throw tooLarge();
+    chunks.push(Buffer.from(chunk));
+  }
+  const body = Buffer.concat(chunks);
+  const invalid = validateContent('product_media', body, mimeType);
+  if (invalid) throw new Error(`${url}: ${invalid}`);
+
+  return storeFile(vendorId, 'product_media', {
+    body: await stripImageMetadata(body, mimeType),
+    mimeType,
+    fileName: path.basename(pathname) || 'image',
+  });
+}
+
+async function resolveImages(entry: PlannedRow, vendorId: string): Promise<MediaData[]> {
+  const media: MediaData[] = [];
+  for (const url of entry.imageUrls) {
+    const file = FILE_URL_PATTERN.test(url)
+      ? await resolveOwnedUpload(url, vendorId, ['product_media'])
+      : await downloadImage(url, vendorId);
+    if (!file) throw new Error(`${url} is not one of your product_media uploads`);
+    media.push({
+      type: 'product_image',
+      url: fileUrl(file),
+      fileName: file.fileName,
+      fileSize: file.size,
+      mimeType: file.mimeType,
+      processingStatus: 'pending',
+    });
+  }
+  return media;
+}
+
+const PROGRESS_INTERVAL = 25;
+
+async function runCatalogImport(jobId: string): Promise<void> {
+  const job = await storage.getCatalogImportJob(jobId);
+  if (!job || job.status === 'completed' || job.status === 'failed') return;
+
+  // A job interrupted by a restart starts over; rows it already saved are matched as updates
+  await storage.clearCatalogImportErrors(jobId);
+  await storage.updateCatalogImportJob(jobId, {
+    status: 'processing', startedAt: new Date(), processedRows: 0, createdCount: 0, updatedCount: 0, failedCount: 0,
+  });
+  publishToUser(job.vendorId, { type: 'catalog_import.updated', jobId, status: 'processing' });
+
+  const file = await storage.getUploadedFile(job.fileId);
+  const parsed = file ? await parseCatalogFile(file) : { error: "The import file no longer exists" };
+  if ('error' in parsed) {
+    await storage.updateCatalogImportJob(jobId, { status: 'failed', failureReason: parsed.error, completedAt: new Date() });
+    publishToUser(job.vendorId, { type: 'catalog_import.updated', jobId, status: 'failed' });
+    return;
+  }
+
+  const { planned, preview } = await planCatalogImport(job.vendorId, parsed.rows);
+  await storage.addCatalogImportErrors(jobId, preview.errors);
+  const counts = {
+    totalRows: preview.totalRows,
+    processedRows: preview.totalRows - planned.length,
+    createdCount: 0,
+    updatedCount: 0,
+    failedCount: preview.totalRows - planned.length,
+  };
+  await storage.updateCatalogImportJob(jobId, counts);
+
+  let submitted = 0;
+  for (const entry of planned) {
+    try {
+      const media = await resolveImages(entry, job.vendorId);
+      const saved = await storage.saveImportedProduct(job.vendorId, {
+        productId: entry.productId,
+        data: entry.data,
+        pricingTiers: entry.pricingTiers,
+        media,
+      });
+      saved.media.forEach(m => queueProductMediaProcessing(m.id));
+
+      if (job.submitForReview && (saved.product.status === 'draft' || saved.product.status === 'rejected')) {
+        await storage.submitProductForReview(saved.product.id);
+        submitted++;
+      }
+      if (entry.productId) counts.updatedCount++;
+      else counts.createdCount++;
+    } catch (error) {
+      console.error(`[Catalog] Import ${jobId} row ${entry.row} failed:`, error);
+      await storage.addCatalogImportErrors(jobId, [{
+        row: entry.row,
+        column: null,
+        error: error instanceof Error ? error.message : "Could not save this row",
+      }]);
+      counts.failedCount++;
+    }
+
+    counts.processedRows++;
+    if (counts.processedRows % PROGRESS_INTERVAL === 0) {
+      await storage.updateCatalogImportJob(jobId, counts);
+    }
+  }
+
+  await storage.updateCatalogImportJob(jobId, { ...counts, status: 'completed', completedAt: new Date() });
+  publishToUser(job.vendorId, { type: 'catalog_import.updated', jobId, status: 'completed' });
+  if (submitted > 0) publishAdminQueue('products');
+}
+
+let queue: Promise<void> = Promise.resolve();
+
+export function queueCatalogImport(jobId: string): void {
+  queue = queue
+    .then(() => runCatalogImport(jobId))
+    .catch(async (error) => {
+      console.error(`[Catalog] Import ${jobId} failed:`, error);
+      await storage.updateCatalogImportJob(jobId, { status: 'failed', failureReason: "The import stopped unexpectedly", completedAt: new Date() })
+        .catch(updateError => console.error("Error marking catalogue import failed:", updateError));
+    });
+}
+
+// Picks up imports that were queued or running when the server restarted
+export async function requeueCatalogImports(): Promise<void> {
+  const jobs = await storage.getUnfinishedCatalogImportJobs();
+  jobs.forEach(job => queueCatalogImport(job.id));
+}
+
+// ===== Export =====
+
+export async function exportCatalog(vendorId: string, format: 'csv' | 'xlsx'): Promise<Buffer> {
+  const catalog = await storage.getVendorCatalog(vendorId);
+  const rows = catalog.map(product => {
+    const record = product as unknown as Record<string, unknown>;
+    return [
+      product.id,
+      product.sku,
+      ...productColumns.map(column => {
+        const value = record[column.field as string];
+        if (value == null) return null;
+        if (Array.isArray(value)) return value.join(LIST_SEPARATOR);
+        if (typeof value === 'boolean') return value ? 'true' : 'false';
+        // Decimals come back as strings; write them as numbers so spreadsheets can sum them
+        return column.kind === 'decimal' && format === 'xlsx' ? Number(value) : value as string | number;
+      }),
+      formatPricingTiers(product.pricingTiers),
+      product.media.filter(m => m.type === 'product_image').map(m => m.url).join(LIST_SEPARATOR),
+    ];
+  });
+
+  if (format === 'csv') {
+    return Buffer.from(toCsv(catalogColumns, rows), 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Catalogue');
+  sheet.addRow(catalogColumns);
+  sheet.addRows(rows);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,150 @@
+// Export-control screening for checkouts with controlled items. The buyer names a shipping address
+// and an end-user certificate or export licence; the buyer, their company, the consignee and the
+// stated end user are matched against the denied-party list, and the destination against the
+// restricted-country rules. Screening either clears the checkout, holds the order for an admin
+// decision, or blocks it outright.
+import { storage } from "./storage";
+import type { Address, ComplianceDocument, DeniedParty, Product, User } from "@shared/schema";
+
+export function isControlledProduct(product: Pick<Product, 'controlledItemType' | 'requiresExportLicense'>): boolean {
+  return !!product.controlledItemType || !!product.requiresExportLicense;
+}
+
+// Legal-form words that say nothing about who a party is
+const LEGAL_FORMS = new Set([
+  'the', 'llc', 'ltd', 'limited', 'inc', 'incorporated', 'co', 'corp', 'corporation', 'company',
+  'fze', 'fzco', 'fzc', 'fzllc', 'gmbh', 'sa', 'ag', 'plc', 'jsc', 'pjsc', 'est', 'establishment',
+]);
+
+// Lower case, accents and punctuation removed, legal forms dropped: "Al-Noor Trading L.L.C." -> "al noor trading"
+export function normalizePartyName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !LEGAL_FORMS.has(token))
+    .join(' ');
+}
+
+// Exact match on the normalised name, or every word of a multi-word listed name appearing in the
+// candidate ("Noor Trading" matches "Al Noor Trading Group"). Single-word entries only match exactly,
+// so common words do not flag every order.
+function matchesParty(candidate: string, party: DeniedParty): boolean {
+  if (!candidate || !party.normalizedName) return false;
+  if (candidate === party.normalizedName) return true;
+  const partyTokens = party.normalizedName.split(' ');
+  if (partyTokens.length < 2) return false;
+  const candidateTokens = new Set(candidate.split(' '));
+  return partyTokens.every(token => candidateTokens.has(token));
+}
+
+export async function screenDeniedParties(names: (string | null | undefined)[]): Promise<DeniedParty[]> {
+  const candidates = Array.from(new Set(names.filter((name): name is string => !!name).map(normalizePartyName)))
+    .filter(Boolean);
+  if (candidates.length === 0) return [];
+
+  const parties = await storage.getAllDeniedParties();
+  return parties.filter(party => candidates.some(candidate => matchesParty(candidate, party)));
+}
+
+export interface ComplianceScreening {
+  decision: 'cleared' | 'held' | 'blocked';
+  reasons: string[];
+  matchedParties: string[];
+}
+
+// Checks the checkout inputs for controlled lines before anything is screened
+export async function resolveComplianceInputs(
+  userId: string,
+  lines: { product: Product }[],
+  input: { addressId?: unknown; complianceDocumentId?: unknown }
+): Promise<{ error: string; code: string } | { address: Address; document: ComplianceDocument }> {
+  const address = typeof input.addressId === 'number' ? await storage.getAddressById(input.addressId) : undefined;
+  if (!address || address.userId !== userId) {
+    return { error: "Choose a shipping address for export-controlled items", code: 'shipping_address_required' };
+  }
+
+  const document = typeof input.complianceDocumentId === 'string'
+    ? await storage.getComplianceDocumentById(input.complianceDocumentId)
+    : undefined;
+  if (!document || document.userId !== userId) {
+    return { error: "An end-user certificate or export licence is required for export-controlled items", code: 'compliance_document_required' };
+  }
+  if (document.validUntil && document.validUntil < new Date()) {
+    return { error: `Document ${document.documentNumber} has expired`, code: 'compliance_document_expired' };
+  }
+
+  const licensed = lines.filter(line => line.product.requiresExportLicense);
+  if (licensed.length > 0 && document.type !== 'export_license') {
+    return { error: `${licensed[0].product.name} can only be bought with an export licence`, code: 'export_license_required' };
+  }
+
+  return { address, document };
+}
+
+export async function screenControlledCheckout(input: {
+  buyer: Pick<User, 'id' | 'name'>;
+  lines: { product: Product }[];
+  address: Address;
+  document: ComplianceDocument;
+}): Promise<ComplianceScreening> {
+  const { buyer, lines, address, document } = input;
+  const country = address.country.toUpperCase();
+  const blocking: string[] = [];
+  const review: string[] = [];
+
+  // Destination rules: a rule without an item type covers every controlled item
+  const rules = await storage.getRestrictedCountryRules(country);
+  for (const line of lines) {
+    const rule = rules.find(r => r.controlledItemType === line.product.controlledItemType && r.action === 'block')
+      || rules.find(r => !r.controlledItemType && r.action === 'block')
+      || rules.find(r => (!r.controlledItemType || r.controlledItemType === line.product.controlledItemType) && r.action === 'review');
+    if (!rule) continue;
+    const detail = rule.reason ? ` (${rule.reason})` : '';
+    if (rule.action === 'block') {
+      blocking.push(`${line.product.name} cannot be shipped to ${country}${detail}`);
+    } else {
+      review.push(`${line.product.name} needs review to ship to ${country}${detail}`);
+    }
+  }
+
+  // Vendors declare sanctions exposure and the export licences they hold during onboarding
+  const vendorIds = Array.from(new Set(lines.map(line => line.product.vendorId)));
+  for (const vendorId of vendorIds) {
+    const profile = await storage.getUserProfile(vendorId);
+    const vendorLines = lines.filter(line => line.product.vendorId === vendorId);
+    if (profile?.isOnSanctionsList) {
+      blocking.push(`The seller of ${vendorLines[0].product.name} is on a sanctions list`);
+    }
+    const licensed = vendorLines.filter(line => line.product.requiresExportLicense);
+    if (licensed.length > 0 && !(profile?.licenseTypes?.length)) {
+      review.push(`The seller of ${licensed[0].product.name} has not declared an export licence`);
+    }
+  }
+
+  if (document.issuingCountry.toUpperCase() !== country) {
+    review.push(`${document.documentNumber} was issued for ${document.issuingCountry.toUpperCase()} but the order ships to ${country}`);
+  }
+
+  const profile = await storage.getUserProfile(buyer.id);
+  const matches = await screenDeniedParties([
+    buyer.name,
+    profile?.companyName,
+    profile?.registeredCompanyName,
+    address.fullName,
+    document.endUserName,
+  ]);
+  const matchedParties = matches.map(party => `${party.name} (${party.source}${party.country ? `, ${party.country}` : ''})`);
+  if (matchedParties.length > 0) {
+    review.push(`Possible denied-party match: ${matchedParties.join('; ')}`);
+  }
+
+  return {
+    decision: blocking.length > 0 ? 'blocked' : review.length > 0 ? 'held' : 'cleared',
+    reasons: [...blocking, ...review],
+    matchedParties,
+  };
+}
@@ -42,6 +42,17 @@ async function getResendClient() {
   };
 }
 
+// Public origin of the app for links in emails and payment redirects. It comes only from
+// configuration: Origin and Host headers are set by the client and can point anywhere.
+export function getAppBaseUrl(): string | null {
+  const configured = process.env.APP_BASE_URL?.trim().replace(/\/+$/, '');
+  if (configured) return configured;
+  const replitDomain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  if (replitDomain) return `https://${replitDomain}`;
+  if (process.env.NODE_ENV === 'development') return `http://localhost:${process.env.PORT || 5000}`;
+  return null;
+}
+
 export async function sendOtpEmail(to: string, otpCode: string, name: string): Promise<boolean> {
   try {
     const { client, fromEmail } = await getResendClient();
@@ -82,3 +93,99 @@ export async function sendOtpEmail(to: string, otpCode: string, name: string): P
     return false;
   }
 }
+
+export async function sendPasswordResetEmail(to: string, otpCode: string, name: string, resetUrl: string): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    await client.emails.send({
+      from: fromEmail || 'ArmoredMart <noreply@armoredmart.com>',
+      to: [to],
+      subject: 'Reset your ArmoredMart password',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #3D4736 0%, #2A2A2A 100%); padding: 30px; border-radius: 10px 10px 0 0;">
+            <h1 style="color: #D97706; margin: 0; font-size: 28px;">ArmoredMart</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; font-size: 14px;">B2B Defense Vehicle Parts Marketplace</p>
+          </div>
+          <div style="background: #1C1C1C; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #3D4736; border-top: none;">
+            <h2 style="color: #ffffff; margin: 0 0 20px 0;">Hello ${name},</h2>
+            <p style="color: #cccccc; font-size: 16px; line-height: 1.6;">
+              We received a request to reset your password. Use this code:
+            </p>
+            <div style="background: #2A2A2A; border: 2px solid #D97706; border-radius: 8px; padding: 20px; text-align: center; margin: 20px 0;">
+              <span style="font-size: 32px; font-weight: bold; color: #D97706; letter-spacing: 8px;">${otpCode}</span>
+            </div>
+            <p style="color: #cccccc; font-size: 16px; line-height: 1.6;">
+              Or <a href="${resetUrl}" style="color: #D97706;">choose a new password here</a>.
+            </p>
+            <p style="color: #999999; font-size: 14px;">
+              The code and link expire in 10 minutes. If you didn't ask to reset your password, you can ignore this email.
+            </p>
+          </div>
+          <p style="color: #666666; font-size: 12px; text-align: center; margin-top: 20px;">
+            © 2024 ArmoredMart. All rights reserved.
+          </p>
+        </div>
+      `
+    });
+
+    console.log('[Email] Password reset sent to:', to);
+    return true;
+  } catch (error) {
+    console.error('[Email] Failed to send password reset:', error);
+    return false;
+  }
+}
+
+// Notification emails share the branded layout; body paragraphs are plain text and escaped here
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export async function sendNotificationEmail(to: string, name: string, content: {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    await client.emails.send({
+      from: fromEmail || 'ArmoredMart <noreply@armoredmart.com>',
+      to: [to],
+      subject: content.subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #3D4736 0%, #2A2A2A 100%); padding: 30px; border-radius: 10px 10px 0 0;">
+            <h1 style="color: #D97706; margin: 0; font-size: 28px;">ArmoredMart</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; font-size: 14px;">B2B Defense Vehicle Parts Marketplace</p>
+          </div>
+          <div style="background: #1C1C1C; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #3D4736; border-top: none;">
+            <h2 style="color: #ffffff; margin: 0 0 20px 0;">Hello ${escapeHtml(name)},</h2>
+            <h3 style="color: #D97706; margin: 0 0 16px 0;">${escapeHtml(content.heading)}</h3>
+            ${content.paragraphs.map(paragraph => `
+            <p style="color: #cccccc; font-size: 16px; line-height: 1.6;">${escapeHtml(paragraph)}</p>`).join('')}
+            ${content.action ? `
+            <div style="text-align: center; margin: 24px 0;">
+              <a href="${escapeHtml(content.action.url)}" style="background: #D97706; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">${escapeHtml(content.action.label)}</a>
+            </div>` : ''}
+            <p style="color: #999999; font-size: 14px;">
+              You can choose which emails you receive in your notification settings.
+            </p>
+          </div>
+          <p style="color: #666666; font-size: 12px; text-align: center; margin-top: 20px;">
+            © 2024 ArmoredMart. All rights reserved.
+          </p>
+        </div>
+      `
+    });
+
+    console.log('[Email] Notification sent to:', to);
+    return true;
+  } catch (error) {
+    console.error('[Email] Failed to send notification:', error);
+    return false;
+  }
+}
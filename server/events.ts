@@ -0,0 +1,46 @@
+// In-process domain event bus. Routes emit an event once a change has been committed;
+// subscribers (notifications, and later integrations) run after the response path and
+// never fail the request that emitted the event.
+import { EventEmitter } from "events";
+
+export interface DomainEvents {
+  // An order is confirmed: paid through Stripe, or placed directly in test mode
+  'order.created': { orderId: string };
+  // An order or one vendor's shipment moved to a new status
+  'order.status_changed': { orderId: string; shipmentId?: string; status: string; changedBy: string };
+  'refund.requested': { refundId: string };
+  'refund.status_changed': { refundId: string; status: 'approved' | 'rejected' | 'completed' | 'failed' };
+  'product.reviewed': { productId: number; decision: 'approved' | 'rejected' | 'suspended'; note?: string };
+  'ticket.replied': { ticketId: string; senderId: string; senderType: 'customer' | 'admin' };
+  // A checkout with controlled items was held for export compliance review, or the review was decided
+  'compliance.held': { orderId: string; reviewId: string };
+  'compliance.decided': { orderId: string; reviewId: string; decision: 'approved' | 'rejected'; note?: string };
+  // Net-terms credit: account applications and decisions, and the invoice lifecycle including dunning
+  'credit.requested': { accountId: string };
+  'credit.decided': { accountId: string; status: 'approved' | 'rejected' | 'suspended'; note?: string };
+  'invoice.issued': { invoiceId: string };
+  'invoice.reminder': { invoiceId: string; stage: 'due_soon' | 'overdue' };
+  'invoice.paid': { invoiceId: string };
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+const emitter = new EventEmitter();
+
+export function emitDomainEvent<K extends DomainEventName>(name: K, payload: DomainEvents[K]): void {
+  emitter.emit(name, payload);
+}
+
+export function onDomainEvent<K extends DomainEventName>(
+  name: K,
+  handler: (payload: DomainEvents[K]) => Promise<void> | void
+): void {
+  emitter.on(name, (payload: DomainEvents[K]) => {
+    // Deferred so subscribers never hold up the emitting request
+    setImmediate(() => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch(error => console.error(`[Events] ${name} handler failed:`, error));
+    });
+  });
+}
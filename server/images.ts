@@ -0,0 +1,160 @@
+// Product image pipeline. Uploaded product images are re-encoded without EXIF, then resized into
+// thumbnail, card, gallery and zoom renditions in AVIF and WebP, with the original dimensions and a
+// blurhash placeholder recorded on the media row. Processing runs in the background, one image at
+// a time, so adding media stays fast and encoding never competes with itself for CPU.
+import path from "path";
+import sharp, { type Sharp } from "sharp";
+import { encode as encodeBlurhash } from "blurhash";
+import { storage } from "./storage";
+import { storeFile, readUpload, resolveUploadUrl, fileUrl } from "./uploads";
+import { imageRenditions, type ImageRendition, type ProductMedia, type ProductMediaVariant, type ProductImageSet } from "@shared/schema";
+
+// Maximum width per rendition; smaller originals are never enlarged
+export const renditionWidths: Record<ImageRendition, number> = {
+  thumbnail: 160,
+  card: 480,
+  gallery: 1024,
+  zoom: 2048,
+};
+
+const outputFormats = [
+  { format: 'avif', mimeType: 'image/avif', encode: (image: Sharp) => image.avif({ quality: 50 }) },
+  { format: 'webp', mimeType: 'image/webp', encode: (image: Sharp) => image.webp({ quality: 80 }) },
+] as const;
+
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export function isProcessableImage(mimeType: string | null | undefined): boolean {
+  return !!mimeType && PROCESSABLE_TYPES.includes(mimeType);
+}
+
+// Re-encodes in the same format with the EXIF orientation applied. sharp writes no metadata unless
+// asked to, so camera details and GPS coordinates are dropped before the original is ever served.
+export async function stripImageMetadata(body: Buffer, mimeType: string): Promise<Buffer> {
+  const image = sharp(body).rotate();
+  switch (mimeType) {
+    case 'image/jpeg':
+      return image.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+    case 'image/png':
+      return image.png().toBuffer();
+    case 'image/webp':
+      return image.webp({ quality: 90 }).toBuffer();
+    default:
+      return body;
+  }
+}
+
+async function processProductMedia(mediaId: number): Promise<void> {
+  const media = await storage.getProductMediaById(mediaId);
+  if (!media || media.processingStatus !== 'pending') return;
+
+  const file = await resolveUploadUrl(media.url);
+  if (!file) {
+    throw new Error(`Product media ${mediaId} does not reference an uploaded file`);
+  }
+  const source = await readUpload(file);
+
+  const metadata = await sharp(source).metadata();
+  // EXIF orientations 5-8 are rotated by 90 degrees, so the displayed image has swapped sides
+  const rotated = (metadata.orientation || 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+  if (!width || !height) {
+    throw new Error(`Could not read dimensions of product media ${mediaId}`);
+  }
+
+  const baseName = path.parse(file.fileName).name;
+  const variants: Omit<ProductMediaVariant, 'id' | 'createdAt'>[] = [];
+  const producedWidths = new Set<number>();
+
+  for (const rendition of imageRenditions) {
+    const targetWidth = Math.min(renditionWidths[rendition], width);
+    // Small originals would give several identical renditions; keep only the first
+    if (producedWidths.has(targetWidth)) continue;
+    producedWidths.add(targetWidth);
+
+    for (const output of outputFormats) {
+      const { data, info } = await output
+        .encode(sharp(source).rotate().resize({ width: targetWidth, withoutEnlargement: true }))
+        .toBuffer({ resolveWithObject: true });
+      const stored = await storeFile(file.ownerId, 'product_media', {
+        body: data,
+        mimeType: output.mimeType,
+        fileName: `${baseName}-${rendition}.${output.format}`,
+      });
+      variants.push({
+        mediaId,
+        rendition,
+        format: output.format,
+        url: fileUrl(stored),
+        width: info.width,
+        height: info.height,
+        fileSize: info.size,
+      });
+    }
+  }
+
+  const { data: pixels, info } = await sharp(source)
+    .rotate()
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encodeBlurhash(new Uint8ClampedArray(pixels), info.width, info.height, 4, 3);
+
+  await storage.saveProductMediaVariants(mediaId, { width, height, blurhash }, variants);
+}
+
+let queue: Promise<void> = Promise.resolve();
+
+export function queueProductMediaProcessing(mediaId: number): void {
+  queue = queue
+    .then(() => processProductMedia(mediaId))
+    .catch(async (error) => {
+      console.error(`[Images] Processing product media ${mediaId} failed:`, error);
+      await storage.updateProductMedia(mediaId, { processingStatus: 'failed' })
+        .catch(updateError => console.error("Error marking product media failed:", updateError));
+    });
+}
+
+// Picks up images whose processing was interrupted by a restart
+export async function requeuePendingProductMedia(): Promise<void> {
+  const pending = await storage.getPendingProductMedia();
+  pending.forEach(media => queueProductMediaProcessing(media.id));
+}
+
+function toImageSet(media: ProductMedia, variants: ProductMediaVariant[]): ProductImageSet {
+  const byFormat = (format: string) => variants
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width);
+  const gallery = byFormat('webp').find(variant => variant.rendition === 'gallery') || byFormat('webp').pop();
+
+  return {
+    mediaId: media.id,
+    isCover: !!media.isCover,
+    width: media.width,
+    height: media.height,
+    blurhash: media.blurhash,
+    src: gallery?.url || media.url,
+    sources: outputFormats
+      .map(output => ({
+        type: output.mimeType,
+        srcSet: byFormat(output.format).map(variant => `${variant.url} ${variant.width}w`).join(', '),
+      }))
+      .filter(source => source.srcSet),
+    variants: variants.map(({ rendition, format, url, width, height }) => ({ rendition, format, url, width, height })),
+  };
+}
+
+// Image media per product in display order (cover first); images still processing have no sources yet
+export async function getProductImageSets(productIds: number[]): Promise<Map<number, ProductImageSet[]>> {
+  const rows = await storage.getProductImagesWithVariants(productIds);
+  const result = new Map<number, ProductImageSet[]>();
+  for (const { media, variants } of rows) {
+    const sets = result.get(media.productId) || [];
+    sets.push(toImageSet(media, variants));
+    result.set(media.productId, sets);
+  }
+  result.forEach(sets => sets.sort((a, b) => Number(b.isCover) - Number(a.isCover)));
+  return result;
+}
@@ -0,0 +1,394 @@
+// Turns domain events into in-app notifications and emails for customers, vendors and admins.
+// Each recipient's preferences decide which channels are used; without a saved preference
+// in-app is always on and email follows notificationTypeDefaults.
+import { storage } from "./storage";
+import { onDomainEvent } from "./events";
+import { sendNotificationEmail, getAppBaseUrl } from "./email";
+import { publishNotificationCount } from "./realtime";
+import { notificationEventTypes, type NotificationEventType, type User, type Invoice } from "@shared/schema";
+
+export type NotificationAudience = 'customer' | 'vendor' | 'admin';
+
+// Label, default email setting and the roles that receive each type, so every role is only
+// offered the preferences that apply to it
+export const notificationTypeDefaults: Record<NotificationEventType, { label: string; email: boolean; audience: NotificationAudience[] }> = {
+  'order.created': { label: 'New and confirmed orders', email: true, audience: ['customer', 'vendor'] },
+  'order.status_changed': { label: 'Order and shipment updates', email: true, audience: ['customer', 'vendor'] },
+  'refund.requested': { label: 'Refund requests', email: true, audience: ['vendor', 'admin'] },
+  'refund.status_changed': { label: 'Refund decisions and settlement', email: true, audience: ['customer'] },
+  'product.reviewed': { label: 'Product review decisions', email: true, audience: ['vendor'] },
+  'ticket.replied': { label: 'Support ticket replies', email: false, audience: ['customer', 'admin'] },
+  'compliance.held': { label: 'Orders held for export compliance review', email: true, audience: ['customer', 'admin'] },
+  'compliance.decided': { label: 'Export compliance decisions', email: true, audience: ['customer'] },
+  'credit.requested': { label: 'Credit account applications', email: true, audience: ['admin'] },
+  'credit.decided': { label: 'Credit account decisions', email: true, audience: ['customer'] },
+  'invoice.issued': { label: 'New invoices', email: true, audience: ['customer'] },
+  'invoice.reminder': { label: 'Invoice payment reminders', email: true, audience: ['customer'] },
+  'invoice.paid': { label: 'Invoice payments received', email: true, audience: ['customer'] },
+};
+
+export function notificationAudience(userType: string): NotificationAudience {
+  if (userType === 'admin' || userType === 'super_admin') return 'admin';
+  return userType === 'vendor' ? 'vendor' : 'customer';
+}
+
+interface NotificationContent {
+  title: string;
+  message: string;
+  link?: string;
+  orderId?: string;
+  productId?: number;
+  actionLabel?: string;
+}
+
+function orderRef(orderId: string): string {
+  return orderId.slice(0, 8).toUpperCase();
+}
+
+// Emails link back into the app only when the public origin is configured
+function appUrl(path: string): string | undefined {
+  const baseUrl = getAppBaseUrl();
+  return baseUrl ? `${baseUrl}${path}` : undefined;
+}
+
+// Every type with defaults filled in; pass an audience to keep only the types that role receives
+export async function getEffectiveNotificationPreferences(userId: string, audience?: NotificationAudience): Promise<{ type: NotificationEventType; label: string; inApp: boolean; email: boolean }[]> {
+  const saved = await storage.getNotificationPreferences(userId);
+  const types = audience ? notificationEventTypes.filter(type => notificationTypeDefaults[type].audience.includes(audience)) : notificationEventTypes;
+  return types.map(type => {
+    const preference = saved.find(p => p.type === type);
+    return {
+      type,
+      label: notificationTypeDefaults[type].label,
+      inApp: preference ? preference.inApp : true,
+      email: preference ? preference.email : notificationTypeDefaults[type].email,
+    };
+  });
+}
+
+async function notify(recipient: User | undefined, type: NotificationEventType, content: NotificationContent): Promise<void> {
+  if (!recipient) return;
+
+  const preference = (await getEffectiveNotificationPreferences(recipient.id)).find(p => p.type === type)!;
+
+  if (preference.inApp) {
+    await storage.createNotification({
+      userId: recipient.id,
+      type,
+      title: content.title,
+      message: content.message,
+      link: content.link,
+      orderId: content.orderId,
+      productId: content.productId,
+    });
+    await publishNotificationCount(recipient.id);
+  }
+
+  if (preference.email && recipient.email) {
+    const url = content.link ? appUrl(content.link) : undefined;
+    await sendNotificationEmail(recipient.email, recipient.name, {
+      subject: `ArmoredMart: ${content.title}`,
+      heading: content.title,
+      paragraphs: [content.message],
+      action: url ? { label: content.actionLabel || 'View details', url } : undefined,
+    });
+  }
+}
+
+async function notifyAdmins(type: NotificationEventType, content: NotificationContent): Promise<void> {
+  const admins = await storage.getAllAdmins();
+  for (const admin of admins) {
+    await notify(admin, type, content);
+  }
+}
+
+// Invoice notices go to the buyer, and by email to the accounts payable contact on the credit account
+async function notifyInvoiceRecipients(invoice: Invoice, type: NotificationEventType, content: NotificationContent): Promise<void> {
+  const buyer = await storage.getUser(invoice.userId);
+  await notify(buyer, type, content);
+
+  const account = await storage.getCreditAccountById(invoice.creditAccountId);
+  if (account?.billingEmail && account.billingEmail !== buyer?.email) {
+    const url = content.link ? appUrl(content.link) : undefined;
+    await sendNotificationEmail(account.billingEmail, buyer?.name || 'Accounts Payable', {
+      subject: `ArmoredMart: ${content.title}`,
+      heading: content.title,
+      paragraphs: [content.message],
+      action: url ? { label: content.actionLabel || 'View details', url } : undefined,
+    });
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function registerNotificationHandlers(): void {
+  onDomainEvent('order.created', async ({ orderId }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+
+    await notify(await storage.getUser(order.userId), 'order.created', {
+      title: 'Order confirmed',
+      message: `Your order #${orderRef(order.id)} for AED ${order.total} has been confirmed.`,
+      link: `/account/orders/${order.id}/details`,
+      orderId: order.id,
+      actionLabel: 'View order',
+    });
+
+    for (const shipment of order.shipments) {
+      const quantity = order.items
+        .filter(item => item.shipmentId === shipment.id)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      await notify(await storage.getUser(shipment.vendorId), 'order.created', {
+        title: 'New order',
+        message: `Order #${orderRef(order.id)}: ${quantity} item(s) worth AED ${shipment.subtotal} to fulfil.`,
+        link: '/vendor/orders',
+        orderId: order.id,
+        actionLabel: 'View orders',
+      });
+    }
+  });
+
+  onDomainEvent('order.status_changed', async ({ orderId, shipmentId, status, changedBy }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+    const shipment = shipmentId ? order.shipments.find(s => s.id === shipmentId) : undefined;
+
+    if (order.userId !== changedBy) {
+      await notify(await storage.getUser(order.userId), 'order.status_changed', {
+        title: `Order ${status}`,
+        message: shipment
+          ? `Part of your order #${orderRef(order.id)} is now ${status}${shipment.trackingNumber ? ` (tracking ${shipment.trackingNumber})` : ''}.`
+          : `Your order #${orderRef(order.id)} is now ${status}.`,
+        link: `/account/orders/${order.id}/details`,
+        orderId: order.id,
+        actionLabel: 'View order',
+      });
+    }
+
+    // Vendors hear about changes an admin makes to their shipments
+    const affected = shipment ? [shipment] : order.shipments;
+    for (const target of affected) {
+      if (target.vendorId === changedBy) continue;
+      await notify(await storage.getUser(target.vendorId), 'order.status_changed', {
+        title: `Order ${status}`,
+        message: `Your shipment on order #${orderRef(order.id)} was marked ${status} by the ArmoredMart team.`,
+        link: '/vendor/orders',
+        orderId: order.id,
+      });
+    }
+  });
+
+  onDomainEvent('refund.requested', async ({ refundId }) => {
+    const refund = await storage.getRefundById(refundId);
+    if (!refund) return;
+
+    const content: NotificationContent = {
+      title: 'Refund requested',
+      message: `A refund of AED ${refund.amount} was requested on order #${orderRef(refund.orderId)}${refund.reason ? `: ${refund.reason}` : ''}.`,
+      orderId: refund.orderId,
+    };
+    if (refund.vendorId) {
+      await notify(await storage.getUser(refund.vendorId), 'refund.requested', { ...content, link: '/vendor/orders' });
+    }
+    await notifyAdmins('refund.requested', content);
+  });
+
+  onDomainEvent('refund.status_changed', async ({ refundId, status }) => {
+    const refund = await storage.getRefundById(refundId);
+    if (!refund) return;
+
+    const messages: Record<typeof status, { title: string; message: string }> = {
+      approved: {
+        title: 'Refund approved',
+        message: `Your refund of AED ${refund.amount} on order #${orderRef(refund.orderId)} was approved and is being processed.`,
+      },
+      rejected: {
+        title: 'Refund declined',
+        message: `Your refund request on order #${orderRef(refund.orderId)} was declined${refund.rejectionReason ? `: ${refund.rejectionReason}` : ''}.`,
+      },
+      completed: {
+        title: 'Refund completed',
+        message: `AED ${refund.amount} has been refunded for order #${orderRef(refund.orderId)}. It can take a few days to appear on your statement.`,
+      },
+      failed: {
+        title: 'Refund delayed',
+        message: `We could not complete your refund of AED ${refund.amount} on order #${orderRef(refund.orderId)} yet. Our team is looking into it.`,
+      },
+    };
+
+    await notify(await storage.getUser(refund.userId), 'refund.status_changed', {
+      ...messages[status],
+      link: `/account/refunds/${refund.id}`,
+      orderId: refund.orderId,
+      actionLabel: 'View refund',
+    });
+  });
+
+  onDomainEvent('product.reviewed', async ({ productId, decision, note }) => {
+    const product = await storage.getProductById(productId);
+    if (!product) return;
+
+    const titles: Record<typeof decision, string> = {
+      approved: 'Product approved',
+      rejected: 'Product rejected',
+      suspended: 'Product suspended',
+    };
+    await notify(await storage.getUser(product.vendorId), 'product.reviewed', {
+      title: titles[decision],
+      message: decision === 'approved'
+        ? `"${product.name}" is approved and now visible to buyers.`
+        : `"${product.name}" was ${decision}${note ? `: ${note}` : ''}.`,
+      link: '/vendor/products',
+      productId: product.id,
+      actionLabel: 'View products',
+    });
+  });
+
+  onDomainEvent('ticket.replied', async ({ ticketId, senderType }) => {
+    const ticket = await storage.getTicketById(ticketId);
+    if (!ticket) return;
+
+    if (senderType === 'admin') {
+      await notify(await storage.getUser(ticket.customerId), 'ticket.replied', {
+        title: 'Support replied to your ticket',
+        message: `There is a new reply on "${ticket.subject}".`,
+        orderId: ticket.orderId,
+      });
+      return;
+    }
+
+    const content: NotificationContent = {
+      title: 'Customer replied to a ticket',
+      message: `New customer reply on "${ticket.subject}".`,
+      orderId: ticket.orderId,
+    };
+    if (ticket.assignedToId) {
+      await notify(await storage.getUser(ticket.assignedToId), 'ticket.replied', content);
+    } else {
+      await notifyAdmins('ticket.replied', content);
+    }
+  });
+  onDomainEvent('compliance.held', async ({ orderId }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+
+    await notify(await storage.getUser(order.userId), 'compliance.held', {
+      title: 'Order held for compliance review',
+      message: `Your order #${orderRef(order.id)} contains export-controlled items and is being reviewed by our compliance team. You can pay once it is approved.`,
+      link: `/account/orders/${order.id}/details`,
+      orderId: order.id,
+      actionLabel: 'View order',
+    });
+    await notifyAdmins('compliance.held', {
+      title: 'Order held for compliance review',
+      message: `Order #${orderRef(order.id)} for AED ${order.total} needs an export compliance decision.`,
+      orderId: order.id,
+    });
+  });
+
+  onDomainEvent('compliance.decided', async ({ orderId, decision, note }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+
+    await notify(await storage.getUser(order.userId), 'compliance.decided', decision === 'approved'
+      ? {
+          title: 'Order cleared for payment',
+          message: `Your order #${orderRef(order.id)} passed export compliance review. Complete payment to confirm it.`,
+          link: `/account/orders/${order.id}/details`,
+          orderId: order.id,
+          actionLabel: 'Pay now',
+        }
+      : {
+          title: 'Order declined',
+          message: `Your order #${orderRef(order.id)} did not pass export compliance review${note ? `: ${note}` : ''}. It has been cancelled.`,
+          link: `/account/orders/${order.id}/details`,
+          orderId: order.id,
+        });
+  });
+
+  onDomainEvent('credit.requested', async ({ accountId }) => {
+    const account = await storage.getCreditAccountById(accountId);
+    if (!account) return;
+    const buyer = await storage.getUser(account.userId);
+
+    await notifyAdmins('credit.requested', {
+      title: 'Credit account application',
+      message: `${buyer?.name || 'A buyer'} applied for a ${account.paymentTerms.replace('_', '-').toUpperCase()} credit account with a limit of AED ${account.requestedLimit}.`,
+    });
+  });
+
+  onDomainEvent('credit.decided', async ({ accountId, status, note }) => {
+    const account = await storage.getCreditAccountById(accountId);
+    if (!account) return;
+    const terms = account.paymentTerms.replace('_', '-').toUpperCase();
+
+    const content: Record<typeof status, NotificationContent> = {
+      approved: {
+        title: 'Credit account approved',
+        message: `You can now pay by invoice on ${terms} terms, with a credit limit of AED ${account.creditLimit}.`,
+      },
+      rejected: {
+        title: 'Credit account not approved',
+        message: `Your credit account application was not approved${note ? `: ${note}` : '.'}`,
+      },
+      suspended: {
+        title: 'Credit account suspended',
+        message: `Ordering on invoice is paused for your account${note ? `: ${note}` : '.'} Outstanding invoices remain due.`,
+      },
+    };
+    await notify(await storage.getUser(account.userId), 'credit.decided', {
+      ...content[status],
+      link: '/account/profile?section=credit',
+      actionLabel: 'View credit account',
+    });
+  });
+
+  onDomainEvent('invoice.issued', async ({ invoiceId }) => {
+    const invoice = await storage.getInvoiceById(invoiceId);
+    if (!invoice) return;
+
+    await notifyInvoiceRecipients(invoice, 'invoice.issued', {
+      title: `Invoice ${invoice.invoiceNumber}`,
+      message: `Invoice ${invoice.invoiceNumber} for AED ${invoice.amount} (PO ${invoice.poNumber}, order #${orderRef(invoice.orderId)}) is due on ${formatDate(invoice.dueDate)}.`,
+      link: '/account/profile?section=credit',
+      orderId: invoice.orderId,
+      actionLabel: 'View invoices',
+    });
+  });
+
+  onDomainEvent('invoice.reminder', async ({ invoiceId, stage }) => {
+    const invoice = await storage.getInvoiceById(invoiceId);
+    if (!invoice) return;
+    const due = (parseFloat(invoice.amount) - parseFloat(invoice.amountPaid) - parseFloat(invoice.creditedAmount)).toFixed(2);
+
+    await notifyInvoiceRecipients(invoice, 'invoice.reminder', stage === 'due_soon'
+      ? {
+          title: `Invoice ${invoice.invoiceNumber} due soon`,
+          message: `AED ${due} on invoice ${invoice.invoiceNumber} (PO ${invoice.poNumber}) is due on ${formatDate(invoice.dueDate)}.`,
+          link: '/account/profile?section=credit',
+          orderId: invoice.orderId,
+          actionLabel: 'View invoices',
+        }
+      : {
+          title: `Invoice ${invoice.invoiceNumber} is overdue`,
+          message: `AED ${due} on invoice ${invoice.invoiceNumber} (PO ${invoice.poNumber}) was due on ${formatDate(invoice.dueDate)}. Please arrange payment; overdue amounts count against your credit limit.`,
+          link: '/account/profile?section=credit',
+          orderId: invoice.orderId,
+          actionLabel: 'View invoices',
+        });
+  });
+
+  onDomainEvent('invoice.paid', async ({ invoiceId }) => {
+    const invoice = await storage.getInvoiceById(invoiceId);
+    if (!invoice) return;
+
+    await notifyInvoiceRecipients(invoice, 'invoice.paid', {
+      title: `Invoice ${invoice.invoiceNumber} paid`,
+      message: `We received full payment of AED ${invoice.amount} for invoice ${invoice.invoiceNumber}. Thank you.`,
+      link: '/account/profile?section=credit',
+      orderId: invoice.orderId,
+    });
+  });
+}
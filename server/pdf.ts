@@ -0,0 +1,70 @@
+// Minimal PDF 1.4 writer for text documents such as payout statements.
+// Lines are laid out top to bottom on A4 pages in Helvetica; long documents flow onto new pages.
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  size?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Standard fonts only cover WinAnsi, so anything outside Latin-1 is replaced
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+export function renderPdf(lines: (string | PdfLine)[]): Buffer {
+  const pages: string[] = [];
+  let content: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const entry of lines) {
+    const line = typeof entry === 'string' ? { text: entry } : entry;
+    const size = line.size || 10;
+    const leading = Math.round(size * 1.4);
+
+    if (y - leading < MARGIN) {
+      pages.push(content.join('\n'));
+      content = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= leading;
+    if (line.text) {
+      content.push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y} Td (${escapePdfText(line.text)}) Tj ET`);
+    }
+  }
+  pages.push(content.join('\n'));
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  pages.forEach((stream, i) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
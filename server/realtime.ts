@@ -0,0 +1,210 @@
+// Authenticated real-time channel on the HTTP server. Browsers connect to /api/realtime with the
+// same JWT access token the REST API takes (as ?token=, since WebSocket requests cannot carry an
+// Authorization header) and receive small "something changed" messages; the client refetches.
+import type { Server, IncomingMessage } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { onDomainEvent } from "./events";
+
+export const REALTIME_PATH = '/api/realtime';
+
+// Close code telling the client its token expired or was revoked and it should reconnect with a fresh one
+const CLOSE_AUTH_EXPIRED = 4001;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export type AdminQueue = 'orders' | 'refunds' | 'products' | 'tickets' | 'vendors' | 'compliance' | 'credit';
+
+export type RealtimeMessage =
+  | { type: 'notifications.count'; unreadCount: number }
+  | { type: 'order.created'; orderId: string }
+  | { type: 'order.status_changed'; orderId: string; shipmentId?: string; status: string }
+  | { type: 'refund.updated'; refundId: string; orderId: string }
+  | { type: 'product.reviewed'; productId: number }
+  | { type: 'ticket.message'; ticketId: string }
+  | { type: 'catalog_import.updated'; jobId: string; status: string }
+  | { type: 'admin.queue'; queue: AdminQueue };
+
+interface RealtimeClient {
+  socket: WebSocket;
+  token: string;
+  userId: string;
+  isAdmin: boolean;
+  alive: boolean;
+}
+
+const clients = new Set<RealtimeClient>();
+
+function send(client: RealtimeClient, message: RealtimeMessage) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+export function publishToUser(userId: string, message: RealtimeMessage): void {
+  clients.forEach(client => {
+    if (client.userId === userId) send(client, message);
+  });
+}
+
+export function publishToAdmins(message: RealtimeMessage): void {
+  clients.forEach(client => {
+    if (client.isAdmin) send(client, message);
+  });
+}
+
+export function publishAdminQueue(queue: AdminQueue): void {
+  publishToAdmins({ type: 'admin.queue', queue });
+}
+
+// Pushes the current unread count, so badges update in every open tab
+export async function publishNotificationCount(userId: string): Promise<void> {
+  if (!Array.from(clients).some(client => client.userId === userId)) return;
+  const { unreadCount } = await storage.getNotifications(userId, { limit: 1 });
+  publishToUser(userId, { type: 'notifications.count', unreadCount });
+}
+
+export function setupRealtime(
+  httpServer: Server,
+  authenticate: (token: string) => Promise<{ user: { id: string; userType: string }; expiresAt: Date } | null>
+): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', (req: IncomingMessage, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // Other upgrades (e.g. the Vite HMR socket in development) are left to their own handlers
+    if (url.pathname !== REALTIME_PATH) return;
+
+    const token = url.searchParams.get('token');
+    const reject = () => {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+    };
+    if (!token) return reject();
+
+    authenticate(token)
+      .then(verified => {
+        if (!verified) return reject();
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const client: RealtimeClient = {
+            socket: ws,
+            token,
+            userId: verified.user.id,
+            isAdmin: verified.user.userType === 'admin' || verified.user.userType === 'super_admin',
+            alive: true,
+          };
+          clients.add(client);
+
+          // Access tokens are short-lived; the client reconnects with its refreshed token
+          const expiry = setTimeout(() => ws.close(CLOSE_AUTH_EXPIRED, 'Token expired'), Math.max(verified.expiresAt.getTime() - Date.now(), 0));
+
+          ws.on('pong', () => { client.alive = true; });
+          ws.on('close', () => {
+            clearTimeout(expiry);
+            clients.delete(client);
+          });
+          ws.on('error', (error) => console.error("Realtime socket error:", error.message));
+
+          publishNotificationCount(client.userId)
+            .catch(error => console.error("Error sending notification count:", error));
+        });
+      })
+      .catch(error => {
+        console.error("Realtime authentication failed:", error);
+        reject();
+      });
+  });
+
+  // Drop connections that stopped answering pings (sleeping laptops, dropped networks), and close
+  // those whose session was revoked or whose tokens were invalidated since they connected
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+
+      authenticate(client.token)
+        .then(verified => {
+          if (!verified) client.socket.close(CLOSE_AUTH_EXPIRED, 'Session ended');
+        })
+        .catch(error => console.error("Realtime session check failed:", error));
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  registerRealtimeHandlers();
+}
+
+function registerRealtimeHandlers(): void {
+  onDomainEvent('order.created', async ({ orderId }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+    publishToUser(order.userId, { type: 'order.created', orderId });
+    order.shipments.forEach(shipment => publishToUser(shipment.vendorId, { type: 'order.created', orderId }));
+    publishAdminQueue('orders');
+  });
+
+  onDomainEvent('order.status_changed', async ({ orderId, shipmentId, status }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+    const message: RealtimeMessage = { type: 'order.status_changed', orderId, shipmentId, status };
+    publishToUser(order.userId, message);
+    order.shipments
+      .filter(shipment => !shipmentId || shipment.id === shipmentId)
+      .forEach(shipment => publishToUser(shipment.vendorId, message));
+    publishAdminQueue('orders');
+  });
+
+  onDomainEvent('refund.requested', async ({ refundId }) => {
+    const refund = await storage.getRefundById(refundId);
+    if (!refund) return;
+    if (refund.vendorId) publishToUser(refund.vendorId, { type: 'refund.updated', refundId, orderId: refund.orderId });
+    publishAdminQueue('refunds');
+  });
+
+  onDomainEvent('refund.status_changed', async ({ refundId }) => {
+    const refund = await storage.getRefundById(refundId);
+    if (!refund) return;
+    publishToUser(refund.userId, { type: 'refund.updated', refundId, orderId: refund.orderId });
+    if (refund.vendorId) publishToUser(refund.vendorId, { type: 'refund.updated', refundId, orderId: refund.orderId });
+    publishAdminQueue('refunds');
+  });
+
+  onDomainEvent('product.reviewed', async ({ productId }) => {
+    const product = await storage.getProductById(productId);
+    if (!product) return;
+    publishToUser(product.vendorId, { type: 'product.reviewed', productId });
+    publishAdminQueue('products');
+  });
+
+  onDomainEvent('compliance.held', () => {
+    publishAdminQueue('compliance');
+  });
+
+  onDomainEvent('compliance.decided', async ({ orderId, decision }) => {
+    const order = await storage.getOrderById(orderId);
+    if (!order) return;
+    publishToUser(order.userId, { type: 'order.status_changed', orderId, status: decision === 'approved' ? order.status : 'cancelled' });
+    publishAdminQueue('compliance');
+  });
+
+  onDomainEvent('credit.requested', () => {
+    publishAdminQueue('credit');
+  });
+
+  onDomainEvent('credit.decided', () => {
+    publishAdminQueue('credit');
+  });
+
+  onDomainEvent('ticket.replied', async ({ ticketId }) => {
+    const ticket = await storage.getTicketById(ticketId);
+    if (!ticket) return;
+    publishToUser(ticket.customerId, { type: 'ticket.message', ticketId });
+    publishToAdmins({ type: 'ticket.message', ticketId });
+    publishAdminQueue('tickets');
+  });
+}
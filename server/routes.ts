@@ -1,12 +1,25 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertUserSchema, insertProductSchema, insertReviewSchema, insertCartItemSchema, insertOrderSchema, insertOrderItemSchema } from "@shared/schema";
+import { storage, CATEGORY_MAX_DEPTH, orderLineKey } from "./storage";
+import { insertUserSchema, insertProductSchema, insertReviewSchema, insertCartItemSchema, insertOrderSchema, insertOrderItemSchema, productSearchSorts, productConditionEnum, insertVehicleSchema, insertCategorySchema, rfqStatusEnum, ledgerEntryTypeEnum, payoutStatusEnum, notificationEventTypes, uploadPurposeEnum, type InsertCartItem, type InsertSavedPaymentMethod, type SavedPaymentMethod, type Product, type Refund, type VendorPayoutWithEntries, type UploadedFile, type UploadPurpose, type ProductImageSet, describeVariant, variantOptionFields, type VariantOptionField, type Address, type ComplianceDocument, type TaxSummaryLine, type CartTotals, describeTaxLine, BASE_CURRENCY, convertCurrency, currencyDecimals, type Order, type FitmentImportRow, type FitmentImportResult, taxTreatmentEnum, typeOfBuyerEnum } from "@shared/schema";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
-import { sendOtpEmail } from "./email";
+import Stripe from "stripe";
+import { sendOtpEmail, sendPasswordResetEmail, getAppBaseUrl } from "./email";
+import { parseCsv, toCsv } from "./csv";
+import { renderPdf } from "./pdf";
+import { emitDomainEvent } from "./events";
+import { registerNotificationHandlers, getEffectiveNotificationPreferences, notificationAudience, notificationTypeDefaults } from "./notifications";
+import { setupRealtime, publishAdminQueue, publishNotificationCount } from "./realtime";
+import multer from "multer";
+import { isProcessableImage, stripImageMetadata, queueProductMediaProcessing, requeuePendingProductMedia, getProductImageSets } from "./images";
+import { parseCatalogFile, planCatalogImport, queueCatalogImport, requeueCatalogImports, exportCatalog } from "./catalog";
+import { isControlledProduct, normalizePartyName, resolveComplianceInputs, screenControlledCheckout, type ComplianceScreening } from "./compliance";
+import { registerTaxDocumentHandlers, issueMissingTaxDocuments, renderTaxDocumentPdf } from "./taxDocuments";
+import { calculateTax, summarizeOrderTax } from "./tax";
+import { uploadMiddleware, uploadRules, validateUpload, saveUpload, storeFile, fileUrl, getOwnedUpload, resolveOwnedUpload, canReadFile, verifyFileSignature, getDownloadUrl, getRedirectUrl, openUpload, contentDisposition } from "./uploads";
 
 // JWT Secret - in production use a proper secret from environment
 const JWT_SECRET = process.env.JWT_SECRET || 'armoredmart-jwt-secret-key-2024';
@@ -103,51 +116,62 @@ function parseUserAgent(userAgent: string | undefined): string {
   return `${browser} on ${device}`;
 }
 
-// Auth middleware - validates JWT access tokens
-async function authMiddleware(req: Request, res: Response, next: NextFunction) {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return next(); // Continue without user for optional auth
-  }
-
-  const token = authHeader.substring(7);
-  
+// Validates a JWT access token: signature, live session and current token version.
+// Shared by authMiddleware and the real-time channel so both accept exactly the same tokens.
+async function verifyAccessToken(token: string): Promise<{ user: NonNullable<Request['user']>; sessionId: string; expiresAt: Date } | null> {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload & { exp: number };
     
     if (decoded.type !== 'access') {
-      return next();
+      return null;
     }
     
     // Check if session is still valid
     const session = await storage.getSessionById(decoded.sessionId);
     if (!session || session.revokedAt || new Date(session.expiresAt) < new Date()) {
-      return next();
+      return null;
     }
     
     // Verify token version matches user's current version
     const user = await storage.getUser(decoded.sub);
     if (!user || (user.tokenVersion || 0) !== decoded.tokenVersion) {
-      return next(); // Token invalidated due to version mismatch
+      return null; // Token invalidated due to version mismatch
     }
     
     // Update last used timestamp (don't await to not slow down request)
     storage.updateSessionLastUsed(decoded.sessionId).catch(() => {});
     
-    req.user = {
-      id: decoded.sub,
-      email: decoded.email,
-      name: decoded.name,
-      userType: decoded.userType,
+    return {
+      user: {
+        id: decoded.sub,
+        email: decoded.email,
+        name: decoded.name,
+        userType: decoded.userType,
+      },
+      sessionId: decoded.sessionId,
+      expiresAt: new Date(decoded.exp * 1000),
     };
-    req.sessionId = decoded.sessionId;
-    
-    next();
   } catch (error) {
     // Token invalid or expired
-    next();
+    return null;
+  }
+}
+
+// Auth middleware - validates JWT access tokens
+async function authMiddleware(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next(); // Continue without user for optional auth
+  }
+
+  const verified = await verifyAccessToken(authHeader.substring(7));
+  if (verified) {
+    req.user = verified.user;
+    req.sessionId = verified.sessionId;
   }
+  
+  next();
 }
 
 export async function registerRoutes(
@@ -158,6 +182,36 @@ export async function registerRoutes(
   // Apply auth middleware to all routes
   app.use(authMiddleware);
 
+  // Fan domain events emitted below out to in-app notifications and emails
+  registerNotificationHandlers();
+  // Tax invoices when shipments ship, credit notes when refunds complete
+  registerTaxDocumentHandlers();
+
+  /**
+   * @swagger
+   * /realtime:
+   *   get:
+   *     tags: [Notifications]
+   *     summary: Open the real-time update channel (WebSocket)
+   *     description: |
+   *       WebSocket upgrade. Pass the access token as `token` since browsers cannot send an
+   *       Authorization header on upgrades. The server sends JSON messages such as
+   *       `notifications.count`, `order.status_changed`, `refund.updated`, `product.reviewed`,
+   *       `ticket.message`, `catalog_import.updated` and, for admins, `admin.queue`. The socket closes with code 4001 when
+   *       the token expires; reconnect with a fresh one.
+   *     parameters:
+   *       - in: query
+   *         name: token
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       101:
+   *         description: Switching protocols
+   *       401:
+   *         description: Missing, invalid or expired token
+   */
+  setupRealtime(httpServer, verifyAccessToken);
+
   // ===== AUTH =====
 
   /**
@@ -1309,6 +1363,7 @@ export async function registerRoutes(
         email: user.email,
         name: user.name,
         userType: user.userType,
+        displayCurrency: user.displayCurrency,
         completionPercentage: user.completionPercentage || 80
       });
     } catch (error) {
@@ -1369,8 +1424,301 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * @swagger
+   * /auth/preferences:
+   *   put:
+   *     tags: [Auth]
+   *     summary: Update display preferences
+   *     description: |
+   *       Saves the currency prices are shown in. It must have an exchange rate on file
+   *       (see `/reference/fx-rates`); `null` goes back to showing AED.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Navbar** (all pages)
+   *         - Currency selector
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               displayCurrency: { type: string, nullable: true, example: USD }
+   *     responses:
+   *       200:
+   *         description: Preferences saved
+   *       400:
+   *         description: Currency has no exchange rate
+   *       401:
+   *         description: Not authenticated
+   */
+  app.put("/api/auth/preferences", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const { displayCurrency } = z.object({
+        displayCurrency: z.string().trim().transform(code => code.toUpperCase()).nullable(),
+      }).parse(req.body);
+
+      if (displayCurrency) {
+        const { rates } = await storage.getFxRateTable();
+        if (!rates[displayCurrency]) {
+          return res.status(400).json({ error: `No exchange rate is available for ${displayCurrency}` });
+        }
+      }
+
+      const user = await storage.setUserDisplayCurrency(req.user.id, displayCurrency);
+      res.json({ displayCurrency: user?.displayCurrency ?? null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ error: "Failed to update preferences" });
+    }
+  });
+
+  // ===== UPLOADS & FILES =====
+
+  function serializeUpload(file: UploadedFile) {
+    return {
+      id: file.id,
+      url: fileUrl(file),
+      purpose: file.purpose,
+      visibility: file.visibility,
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      size: file.size,
+      createdAt: file.createdAt,
+    };
+  }
+
+  /**
+   * @swagger
+   * /uploads:
+   *   post:
+   *     tags: [Uploads]
+   *     summary: Upload a file
+   *     description: |
+   *       Stores one file and returns its `/api/files/{fileId}` URL, which other endpoints accept
+   *       (onboarding documents, product media, ticket attachments). Allowed types and sizes depend
+   *       on the purpose: product media (images, PDF, MP4/WebM, 25 MB) is public; onboarding
+   *       documents (PDF, JPEG, PNG, WebP, 10 MB) and ticket attachments (the same plus plain text)
+   *       are private to the uploader and admins, as are catalogue import files (CSV or XLSX, 10 MB).
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required: [purpose, file]
+   *             properties:
+   *               purpose: { type: string, enum: [product_media, vat_certificate, contact_id_document, business_license, defense_approval, company_profile, bank_proof, ticket_attachment, catalog_import, compliance_document] }
+   *               file: { type: string, format: binary }
+   *     responses:
+   *       201:
+   *         description: Uploaded file with its URL
+   *       400:
+   *         description: Missing file, unknown purpose, or type not allowed for the purpose
+   *       403:
+   *         description: Product media and catalogue files can only be uploaded by vendors
+   *       413:
+   *         description: File too large
+   */
+  app.post("/api/uploads", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    uploadMiddleware(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError) {
+          return res.status(uploadError.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: uploadError.message });
+        }
+        if (uploadError) throw uploadError;
+
+        const purpose = z.enum(uploadPurposeEnum.enumValues).safeParse(req.body.purpose);
+        if (!purpose.success) {
+          return res.status(400).json({ error: `purpose must be one of: ${uploadPurposeEnum.enumValues.join(', ')}` });
+        }
+        if (!req.file) {
+          return res.status(400).json({ error: "A file is required" });
+        }
+        if ((purpose.data === 'product_media' || purpose.data === 'catalog_import') && req.user!.userType !== 'vendor') {
+          return res.status(403).json({ error: "Vendor access required" });
+        }
+
+        const invalid = validateUpload(purpose.data, req.file);
+        if (invalid) {
+          return res.status(req.file.size > uploadRules[purpose.data].maxSize ? 413 : 400).json({ error: invalid });
+        }
+
+        // Product photos are public, so camera metadata (including GPS) is removed before storing
+        const file = purpose.data === 'product_media' && isProcessableImage(req.file.mimetype)
+          ? await storeFile(req.user!.id, purpose.data, {
+            body: await stripImageMetadata(req.file.buffer, req.file.mimetype),
+            mimeType: req.file.mimetype,
+            fileName: req.file.originalname,
+          })
+          : await saveUpload(req.user!.id, purpose.data, req.file);
+        res.status(201).json(serializeUpload(file));
+      } catch (error) {
+        console.error("Error uploading file:", error);
+        res.status(500).json({ error: "Failed to upload file" });
+      }
+    });
+  });
+
+  /**
+   * @swagger
+   * /files/{fileId}:
+   *   get:
+   *     tags: [Uploads]
+   *     summary: Download a file
+   *     description: |
+   *       Public files (product media) are served to anyone. Private documents need either a signed
+   *       URL from `GET /files/{fileId}/url` (the `expires` and `signature` parameters) or a bearer
+   *       token of a user allowed to read them. With S3 storage the response redirects to the bucket.
+   *     parameters:
+   *       - in: path
+   *         name: fileId
+   *         required: true
+   *         schema: { type: string }
+   *       - in: query
+   *         name: expires
+   *         schema: { type: integer }
+   *       - in: query
+   *         name: signature
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: File content
+   *       302:
+   *         description: Redirect to a signed storage URL
+   *       403:
+   *         description: Missing or expired signature
+   *       404:
+   *         description: File not found
+   */
+  app.get("/api/files/:fileId", async (req, res) => {
+    try {
+      const file = await storage.getUploadedFile(req.params.fileId);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (file.visibility === 'private'
+        && !verifyFileSignature(file.id, req.query.expires, req.query.signature)
+        && !(req.user && await canReadFile(req.user, file))) {
+        return res.status(req.user ? 403 : 401).json({ error: "This file requires a signed URL" });
+      }
+
+      const redirectUrl = await getRedirectUrl(file);
+      if (redirectUrl) {
+        return res.redirect(redirectUrl);
+      }
+
+      const stream = await openUpload(file).catch(() => null);
+      if (!stream) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Length', String(file.size));
+      res.setHeader('Content-Disposition', contentDisposition(file.fileName, file.mimeType));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', file.visibility === 'public' ? 'public, max-age=86400' : 'private, no-store');
+      stream.on('error', (error) => {
+        console.error("Error streaming file:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Error fetching file:", error);
+      res.status(500).json({ error: "Failed to fetch file" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /files/{fileId}/url:
+   *   get:
+   *     tags: [Uploads]
+   *     summary: Get a download URL for a file
+   *     description: |
+   *       Returns a URL the browser can open directly. For private documents it is signed and
+   *       expires after 15 minutes. Onboarding documents are readable by their owner and admins;
+   *       ticket attachments also by the ticket's customer.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fileId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: "{ url, expiresAt }; expiresAt is null for public files"
+   *       403:
+   *         description: Not allowed to read this file
+   *       404:
+   *         description: File not found
+   */
+  app.get("/api/files/:fileId/url", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const file = await storage.getUploadedFile(req.params.fileId);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      if (!(await canReadFile(req.user, file))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.json(await getDownloadUrl(file));
+    } catch (error) {
+      console.error("Error creating download URL:", error);
+      res.status(500).json({ error: "Failed to create download URL" });
+    }
+  });
+
   // ===== VENDOR ONBOARDING ROUTES =====
 
+  const profileDocumentPurposes = {
+    vatCertificateUrl: 'vat_certificate',
+    contactIdDocumentUrl: 'contact_id_document',
+    businessLicenseUrl: 'business_license',
+    defenseApprovalUrl: 'defense_approval',
+    companyProfileUrl: 'company_profile',
+    bankProofUrl: 'bank_proof',
+  } as const satisfies Record<string, UploadPurpose>;
+
+  // Onboarding documents must be files the applicant uploaded for that document type. A value the
+  // profile already holds is accepted unchanged, so drafts saved before uploads existed still re-save.
+  async function checkProfileDocuments(
+    userId: string,
+    documents: Partial<Record<keyof typeof profileDocumentPurposes, unknown>>
+  ): Promise<string | null> {
+    const profile = await storage.getUserProfile(userId);
+    for (const [field, url] of Object.entries(documents) as [keyof typeof profileDocumentPurposes, unknown][]) {
+      if (url === undefined || url === null || url === '') continue;
+      if (profile && profile[field] === url) continue;
+      if (typeof url !== 'string' || !(await resolveOwnedUpload(url, userId, [profileDocumentPurposes[field]]))) {
+        return `${field} must be a file uploaded with purpose ${profileDocumentPurposes[field]}`;
+      }
+    }
+    return null;
+  }
+
   /**
    * @swagger
    * /vendor/onboarding/profile:
@@ -1612,6 +1960,11 @@ export async function registerRoutes(
         taxIssuingDate,
         taxExpiryDate,
       } = req.body;
+
+      const documentError = await checkProfileDocuments(req.user.id, { vatCertificateUrl });
+      if (documentError) {
+        return res.status(400).json({ error: documentError });
+      }
       
       // Check if profile exists
       let profile = await storage.getUserProfile(req.user.id);
@@ -1726,6 +2079,11 @@ export async function registerRoutes(
       if (!termsAccepted) {
         return res.status(400).json({ error: "You must confirm the accuracy of information" });
       }
+
+      const documentError = await checkProfileDocuments(req.user.id, { contactIdDocumentUrl });
+      if (documentError) {
+        return res.status(400).json({ error: documentError });
+      }
       
       const profile = await storage.updateUserProfile(req.user.id, {
         contactFullName,
@@ -1840,6 +2198,11 @@ export async function registerRoutes(
       if (!businessLicenseUrl) {
         return res.status(400).json({ error: "Business license is required" });
       }
+
+      const documentError = await checkProfileDocuments(req.user.id, { businessLicenseUrl, defenseApprovalUrl, companyProfileUrl });
+      if (documentError) {
+        return res.status(400).json({ error: documentError });
+      }
       
       const profile = await storage.updateUserProfile(req.user.id, {
         natureOfBusiness,
@@ -2065,6 +2428,11 @@ export async function registerRoutes(
         }
       }
 
+      const documentError = await checkProfileDocuments(req.user.id, { bankProofUrl });
+      if (documentError) {
+        return res.status(400).json({ error: documentError });
+      }
+
       const profile = await storage.updateUserProfile(req.user.id, {
         paymentMethod,
         bankCountry,
@@ -2154,6 +2522,7 @@ export async function registerRoutes(
         submittedAt: new Date(),
         onboardingStatus: 'pending_verification',
       });
+      publishAdminQueue('vendors');
 
       res.json({
         message: "Application submitted for verification",
@@ -2268,6 +2637,31 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * @swagger
+   * /reference/fx-rates:
+   *   get:
+   *     tags: [Reference Data]
+   *     summary: Get exchange rates in force
+   *     description: |
+   *       Rates are AED (`baseCurrency`) per one unit of each currency. Prices are kept in the product's
+   *       currency and totals in AED; the storefront converts them for the buyer's display currency,
+   *       and checkout can charge in any currency listed here.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Navbar** (all pages)
+   *         - Currency selector and converted prices
+   */
+  app.get("/api/reference/fx-rates", async (req, res) => {
+    try {
+      const table = await storage.getFxRateTable();
+      res.json(table);
+    } catch (error) {
+      console.error("Error fetching FX rates:", error);
+      res.status(500).json({ error: "Failed to fetch data" });
+    }
+  });
+
   /**
    * @swagger
    * /reference/payment-methods:
@@ -2547,66 +2941,515 @@ export async function registerRoutes(
     }
   });
 
-  // ===== PRODUCTS =====
+  // ===== PASSWORD RESET =====
+
+  const PASSWORD_RESET_TTL_MINUTES = 10;
+  const PASSWORD_RESET_COOLDOWN_SECONDS = 60;
+  const PASSWORD_RESET_MAX_PER_HOUR = 5;
+  const PASSWORD_RESET_MAX_PER_HOUR_PER_IP = 20;
+
+  // Emails a reset code and link when the email belongs to an account; null when it does not
+  async function issuePasswordReset(email: string, baseUrl: string, req: Request): Promise<{ otpCode: string; resetUrl: string } | null> {
+    const user = await storage.getUserByEmail(email);
+    if (!user) return null;
+
+    // Only the newest code is valid
+    const existingOtp = await storage.getOtpVerification(email, 'email', 'reset_password');
+    if (existingOtp) {
+      await storage.markOtpVerified(existingOtp.id);
+    }
+
+    const otpCode = crypto.randomInt(100000, 1000000).toString();
+    const otp = await storage.createOtpVerification({
+      identifier: email,
+      code: otpCode,
+      type: 'email',
+      purpose: 'reset_password',
+      userId: user.id,
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+    });
+
+    // The link carries the OTP record id, so it is single-use together with the code
+    const resetToken = jwt.sign(
+      { sub: user.id, otpId: otp.id, type: 'password_reset' },
+      JWT_SECRET,
+      { expiresIn: `${PASSWORD_RESET_TTL_MINUTES}m` }
+    );
+    const resetUrl = `${baseUrl}/auth/forgot-password?token=${encodeURIComponent(resetToken)}`;
+
+    await sendPasswordResetEmail(email, otpCode, user.name, resetUrl);
+
+    await storage.createUserSecurityEvent({
+      userId: user.id,
+      eventType: 'password_reset_requested',
+      ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      userAgent: req.headers['user-agent'] || null,
+    });
+
+    return { otpCode, resetUrl };
+  }
 
   /**
    * @swagger
-   * /products:
-   *   get:
-   *     tags: [Products]
-   *     summary: Get all products with optional filters
+   * /auth/password/forgot:
+   *   post:
+   *     tags: [Auth]
+   *     summary: Request a password reset
    *     description: |
-   *       Returns a list of products, optionally filtered by category, search term, or price range.
+   *       Emails a 6-digit code and a signed reset link, both valid for 10 minutes. The response is the same
+   *       whether or not the email belongs to an account. Requests are limited to one per minute and five
+   *       per hour for each email address, and 20 per hour from each IP address. The link points at
+   *       `APP_BASE_URL`; without it configured the endpoint is unavailable.
    *       
    *       ## Pages / Sections Used
-   *       - **Products Page** (`/products`)
-   *         - Product Grid - main product listing with filter/sort
-   *         - Search Suggestions - autocomplete dropdown
-   *       - **Wishlist Page** (`/account/wishlist`)
-   *         - Wishlist Grid - fetches product details for saved items
-   *     parameters:
-   *       - in: query
-   *         name: categoryId
-   *         schema: { type: integer }
-   *       - in: query
-   *         name: search
-   *         schema: { type: string }
-   *       - in: query
-   *         name: minPrice
-   *         schema: { type: number }
-   *       - in: query
-   *         name: maxPrice
-   *         schema: { type: number }
+   *       - **Forgot Password Page** (`/auth/forgot-password`)
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [email]
+   *             properties:
+   *               email: { type: string, format: email }
    *     responses:
    *       200:
-   *         description: List of products
+   *         description: Reset instructions sent if the account exists
    *         content:
    *           application/json:
    *             schema:
-   *               type: array
-   *               items:
-   *                 $ref: '#/components/schemas/Product'
+   *               type: object
+   *               properties:
+   *                 message: { type: string }
+   *                 expiresIn: { type: integer, description: Code expiry in seconds }
+   *                 debugOtp: { type: string, description: Only in development mode }
+   *                 debugResetUrl: { type: string, description: Only in development mode }
+   *       400:
+   *         description: Email is required
+   *       429:
+   *         description: Too many reset requests; retry after `retryAfter` seconds
+   *       503:
+   *         description: The public app URL is not configured
    */
-  app.get("/api/products", async (req, res) => {
+  app.post("/api/auth/password/forgot", async (req, res) => {
     try {
-      const { categoryId, vendorId, search, minPrice, maxPrice } = req.query;
-      
-      const filters = {
-        categoryId: categoryId ? parseInt(categoryId as string) : undefined,
+      const { email } = req.body;
+
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({ error: "Email is required" });
+      }
+
+      const baseUrl = getAppBaseUrl();
+      if (!baseUrl) {
+        console.error("Password reset requested but APP_BASE_URL is not set");
+        return res.status(503).json({ error: "Password reset is not available right now" });
+      }
+
+      // Throttled on the request history alone, before looking the email up, so a 429 says
+      // nothing about whether the email has an account
+      const ipAddress = req.ip || req.headers['x-forwarded-for'] as string || 'unknown';
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+      const [recent, recentFromIp] = await Promise.all([
+        storage.getRecentPasswordResetRequests({ email }, hourAgo),
+        storage.getRecentPasswordResetRequests({ ipAddress }, hourAgo),
+      ]);
+      if (recent.length > 0) {
+        const sinceLast = (Date.now() - new Date(recent[0].createdAt).getTime()) / 1000;
+        if (sinceLast < PASSWORD_RESET_COOLDOWN_SECONDS) {
+          const retryAfter = Math.ceil(PASSWORD_RESET_COOLDOWN_SECONDS - sinceLast);
+          res.setHeader('Retry-After', retryAfter.toString());
+          return res.status(429).json({ error: "Please wait before requesting another code", retryAfter });
+        }
+      }
+      const limited = recent.length >= PASSWORD_RESET_MAX_PER_HOUR ? recent
+        : recentFromIp.length >= PASSWORD_RESET_MAX_PER_HOUR_PER_IP ? recentFromIp
+        : null;
+      if (limited) {
+        const oldest = limited[limited.length - 1];
+        const retryAfter = Math.ceil((new Date(oldest.createdAt).getTime() + 60 * 60 * 1000 - Date.now()) / 1000);
+        res.setHeader('Retry-After', retryAfter.toString());
+        return res.status(429).json({ error: "Too many reset requests. Please try again later.", retryAfter });
+      }
+
+      await storage.recordPasswordResetRequest(email, ipAddress);
+
+      const genericResponse = {
+        message: "If an account exists for this email, a reset code has been sent",
+        expiresIn: PASSWORD_RESET_TTL_MINUTES * 60,
+      };
+
+      // The account lookup and email run after the response, so it takes the same time either way.
+      // Development waits for them to return the code for testing.
+      const delivery = issuePasswordReset(email, baseUrl, req);
+      if (process.env.NODE_ENV !== 'development') {
+        delivery.catch(error => console.error("Password reset delivery error:", error));
+        return res.json(genericResponse);
+      }
+
+      const issued = await delivery;
+      if (issued) {
+        console.log(`[OTP] Password reset OTP for ${email}: ${issued.otpCode}`);
+      }
+      res.json({
+        ...genericResponse,
+        ...(issued && { debugOtp: issued.otpCode, debugResetUrl: issued.resetUrl }),
+      });
+    } catch (error) {
+      console.error("Password forgot error:", error);
+      res.status(500).json({ error: "Failed to start password reset" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /auth/password/reset:
+   *   post:
+   *     tags: [Auth]
+   *     summary: Reset password
+   *     description: |
+   *       Sets a new password using either the emailed code (`email` + `code`) or the signed link (`token`).
+   *       On success every session of the user is revoked and the token version is bumped, so all devices
+   *       must log in again. The reset is recorded as a security event.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Forgot Password Page** (`/auth/forgot-password`)
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [password]
+   *             properties:
+   *               email: { type: string, format: email }
+   *               code: { type: string, description: 6-digit code from the email }
+   *               token: { type: string, description: Token from the reset link }
+   *               password: { type: string, minLength: 6 }
+   *     responses:
+   *       200:
+   *         description: Password reset; the user must log in again
+   *       400:
+   *         description: Invalid or expired code or link, or the password is too short
+   */
+  app.post("/api/auth/password/reset", async (req, res) => {
+    try {
+      const { email, code, token, password } = req.body;
+
+      if (!password || password.length < 6) {
+        return res.status(400).json({ error: "Password must be at least 6 characters" });
+      }
+      if (!token && (!email || !code)) {
+        return res.status(400).json({ error: "Email and code, or a reset token, are required" });
+      }
+
+      let otpRecord;
+      if (token) {
+        let decoded: { sub: string; otpId: number; type: string };
+        try {
+          decoded = jwt.verify(token, JWT_SECRET) as typeof decoded;
+        } catch {
+          return res.status(400).json({ error: "Reset link is invalid or has expired" });
+        }
+
+        otpRecord = decoded.type === 'password_reset' ? await storage.getOtpById(decoded.otpId) : undefined;
+        if (!otpRecord || otpRecord.purpose !== 'reset_password' || otpRecord.verified || otpRecord.userId !== decoded.sub) {
+          return res.status(400).json({ error: "Reset link is invalid or has expired" });
+        }
+      } else {
+        otpRecord = await storage.getOtpVerification(email, 'email', 'reset_password');
+        if (!otpRecord) {
+          return res.status(400).json({ error: "Invalid or expired verification code" });
+        }
+
+        if ((otpRecord.attempts || 0) >= 5) {
+          await storage.markOtpVerified(otpRecord.id);
+          return res.status(400).json({ error: "Too many attempts. Please request a new code." });
+        }
+
+        await storage.incrementOtpAttempts(otpRecord.id);
+
+        if (otpRecord.code !== code) {
+          return res.status(400).json({ 
+            error: "Invalid verification code",
+            attemptsRemaining: 4 - (otpRecord.attempts || 0),
+          });
+        }
+      }
+
+      if (new Date(otpRecord.expiresAt) < new Date()) {
+        await storage.markOtpVerified(otpRecord.id);
+        return res.status(400).json({ error: "Verification code has expired" });
+      }
+
+      const user = otpRecord.userId ? await storage.getUser(otpRecord.userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ error: "Invalid or expired verification code" });
+      }
+
+      // Consume the code before changing anything so it cannot be replayed
+      await storage.markOtpVerified(otpRecord.id);
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+      await storage.updateUserPassword(user.id, hashedPassword);
+
+      // Log out every device: revoked sessions stop refreshing, the new token version rejects live tokens
+      await storage.revokeAllUserSessions(user.id);
+      await storage.updateUserTokenVersion(user.id);
+
+      await storage.createUserSecurityEvent({
+        userId: user.id,
+        eventType: 'password_reset',
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+        userAgent: req.headers['user-agent'] || null,
+      });
+
+      res.json({ message: "Password has been reset. Please log in with your new password." });
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  // ===== PRODUCTS =====
+
+  // Adds the processed cover image (srcset-ready) to products shown as cards
+  async function withCoverImages<T extends { id: number }>(items: T[]): Promise<(T & { coverImage: ProductImageSet | null })[]> {
+    const images = await getProductImageSets(items.map(item => item.id));
+    return items.map(item => ({ ...item, coverImage: images.get(item.id)?.[0] || null }));
+  }
+
+  // Checks that a product write leaves mainCategoryId > categoryId > subCategoryId on one branch
+  // of the category tree. Fields missing from the body keep the product's current values; an update
+  // that touches none of them is not checked, so products filed before the rule stay editable.
+  async function validateProductCategories(body: any, existing?: { mainCategoryId: number | null; categoryId: number | null; subCategoryId: number | null }): Promise<string | null> {
+    const categoryFields = ['mainCategoryId', 'categoryId', 'subCategoryId'] as const;
+    if (existing && categoryFields.every(field => body?.[field] === undefined)) {
+      return null;
+    }
+    const pick = (field: 'mainCategoryId' | 'categoryId' | 'subCategoryId') =>
+      body?.[field] !== undefined ? body[field] : existing?.[field];
+    return await storage.validateProductCategoryPath({
+      mainCategoryId: pick('mainCategoryId'),
+      categoryId: pick('categoryId'),
+      subCategoryId: pick('subCategoryId'),
+    });
+  }
+
+  /**
+   * @swagger
+   * /products:
+   *   get:
+   *     tags: [Products]
+   *     summary: Get all products with optional filters
+   *     description: |
+   *       Returns a list of approved products, optionally filtered by category, search term, or price range.
+   *       For paginated, ranked and faceted results use `GET /api/products/search`.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Products Page** (`/products`)
+   *         - Product Grid - main product listing with filter/sort
+   *         - Search Suggestions - autocomplete dropdown
+   *       - **Wishlist Page** (`/account/wishlist`)
+   *         - Wishlist Grid - fetches product details for saved items
+   *     parameters:
+   *       - in: query
+   *         name: categoryId
+   *         schema: { type: integer }
+   *       - in: query
+   *         name: search
+   *         schema: { type: string }
+   *       - in: query
+   *         name: minPrice
+   *         schema: { type: number }
+   *       - in: query
+   *         name: maxPrice
+   *         schema: { type: number }
+   *     responses:
+   *       200:
+   *         description: List of products
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/Product'
+   */
+  app.get("/api/products", async (req, res) => {
+    try {
+      const { categoryId, vendorId, search, minPrice, maxPrice } = req.query;
+      
+      const filters = {
+        categoryId: categoryId ? parseInt(categoryId as string) : undefined,
         vendorId: vendorId as string | undefined,
         search: search as string | undefined,
         minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
         maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+        status: 'approved' as const,
       };
 
       const products = await storage.getProducts(filters);
-      res.json(products);
+      res.json(await withCoverImages(products));
     } catch (error) {
       console.error("Error fetching products:", error);
       res.status(500).json({ error: "Failed to fetch products" });
     }
   });
 
+  /**
+   * @swagger
+   * /products/search:
+   *   get:
+   *     tags: [Products]
+   *     summary: Faceted product search
+   *     description: |
+   *       Full-text search over approved products, ranked by relevance with Postgres `ts_rank_cd`.
+   *       Name matches weigh most, then SKU/make/model, then descriptions and vehicle compatibility.
+   *       SKUs also match by prefix.
+   *       
+   *       Facet filters accept comma-separated values and match products offering any of them.
+   *       Each facet's counts apply all other active filters but not its own.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Products Page** (`/products`)
+   *         - Product Grid - paginated listing with sort
+   *         - Filter Sidebar - facet options with counts
+   *     parameters:
+   *       - in: query
+   *         name: q
+   *         schema: { type: string }
+   *       - in: query
+   *         name: categoryId
+   *         schema: { type: integer }
+   *       - in: query
+   *         name: minPrice
+   *         schema: { type: number }
+   *       - in: query
+   *         name: maxPrice
+   *         schema: { type: number }
+   *       - in: query
+   *         name: materials
+   *         schema: { type: string }
+   *       - in: query
+   *         name: features
+   *         schema: { type: string }
+   *       - in: query
+   *         name: driveTypes
+   *         schema: { type: string }
+   *       - in: query
+   *         name: sizes
+   *         schema: { type: string }
+   *       - in: query
+   *         name: colors
+   *         schema: { type: string }
+   *       - in: query
+   *         name: condition
+   *         schema: { type: string }
+   *         description: Comma-separated values of new, used, refurbished; any other value is a 400
+   *       - in: query
+   *         name: countryOfOrigin
+   *         schema: { type: string }
+   *       - in: query
+   *         name: vendorId
+   *         schema: { type: string }
+   *       - in: query
+   *         name: vehicleId
+   *         schema: { type: integer }
+   *         description: Only products that fit this catalogue vehicle
+   *       - in: query
+   *         name: year
+   *         schema: { type: integer }
+   *         description: Model year for the vehicleId fit check
+   *       - in: query
+   *         name: garageVehicleId
+   *         schema: { type: integer }
+   *         description: Only products that fit a vehicle from the signed-in user's garage (uses its saved year)
+   *       - in: query
+   *         name: sort
+   *         schema: { type: string, enum: [relevance, price_asc, price_desc, newest, rating], default: relevance }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 24, maximum: 100 }
+   *     responses:
+   *       200:
+   *         description: Page of products with total count and facet counts
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 items:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Product'
+   *                 total: { type: integer }
+   *                 page: { type: integer }
+   *                 limit: { type: integer }
+   *                 totalPages: { type: integer }
+   *                 facets:
+   *                   type: object
+   *                   additionalProperties:
+   *                     type: array
+   *                     items:
+   *                       type: object
+   *                       properties:
+   *                         value: { type: string }
+   *                         label: { type: string }
+   *                         count: { type: integer }
+   *       400:
+   *         description: Invalid query parameters
+   */
+  app.get("/api/products/search", async (req, res) => {
+    try {
+      const csv = z.string().optional().transform(v => v ? v.split(',').map(s => s.trim()).filter(Boolean) : undefined);
+      const query = z.object({
+        q: z.string().max(200).optional(),
+        categoryId: z.coerce.number().int().optional(),
+        minPrice: z.coerce.number().min(0).optional(),
+        maxPrice: z.coerce.number().min(0).optional(),
+        materials: csv,
+        features: csv,
+        driveTypes: csv,
+        sizes: csv,
+        colors: csv,
+        condition: csv.pipe(z.array(z.enum(productConditionEnum.enumValues)).optional()),
+        countryOfOrigin: csv,
+        vendorId: csv,
+        vehicleId: z.coerce.number().int().optional(),
+        year: z.coerce.number().int().optional(),
+        garageVehicleId: z.coerce.number().int().optional(),
+        sort: z.enum(productSearchSorts).optional(),
+        page: z.coerce.number().int().min(1).optional(),
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+      }).parse(req.query);
+
+      const { q, categoryId, minPrice, maxPrice, sort, page, limit, vehicleId, year, garageVehicleId, ...filters } = query;
+
+      let fitment = { vehicleId, vehicleYear: year };
+      if (garageVehicleId) {
+        if (!req.user) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+        const garageVehicle = await storage.getUserVehicleById(garageVehicleId);
+        if (!garageVehicle || garageVehicle.userId !== req.user.id) {
+          return res.status(404).json({ error: "Garage vehicle not found" });
+        }
+        fitment = { vehicleId: garageVehicle.vehicleId, vehicleYear: garageVehicle.year ?? undefined };
+      }
+
+      const result = await storage.searchProducts({ q, categoryId, minPrice, maxPrice, sort, page, limit, filters, ...fitment });
+      res.json({ ...result, items: await withCoverImages(result.items) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error searching products:", error);
+      res.status(500).json({ error: "Failed to search products" });
+    }
+  });
+
   /**
    * @swagger
    * /products/featured:
@@ -2614,20 +3457,28 @@ export async function registerRoutes(
    *     tags: [Products]
    *     summary: Get featured products for home page
    *     description: |
-   *       Returns a curated list of featured products to display on the home page.
+   *       Returns products an admin has featured through `POST /api/admin/products/{id}/feature`
+   *       whose scheduling window (`featuredFrom` / `featuredUntil`) contains the current time,
+   *       ordered by `featuredRank`. Only approved, in-stock products are returned.
    *       
    *       ## Pages / Sections Used
    *       - **Home Page** (`/`)
    *         - Featured Products Section - dark themed product cards carousel
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 3, maximum: 24 }
    *     responses:
    *       200:
    *         description: List of featured products
    */
   app.get("/api/products/featured", async (req, res) => {
     try {
-      const products = await storage.getProducts({});
-      res.json(products.slice(0, 3));
+      const limit = Math.min(parseInt(req.query.limit as string) || 3, 24);
+      const products = await storage.getFeaturedProducts(limit);
+      res.json(await withCoverImages(products));
     } catch (error) {
+      console.error("Error fetching featured products:", error);
       res.status(500).json({ error: "Failed to fetch featured products" });
     }
   });
@@ -2639,22 +3490,42 @@ export async function registerRoutes(
    *     tags: [Products]
    *     summary: Get top selling products
    *     description: |
-   *       Returns a list of best-selling products.
+   *       Returns best-selling products ranked by units sold on paid orders over a recent period.
+   *       The period defaults to the `top_selling_period_days` platform setting (30 days if unset).
+   *       Only approved, in-stock products are returned; each includes `unitsSold`.
    *       
    *       ## Pages / Sections Used
    *       - **Home Page** (`/`)
    *         - Top Selling Products Section - beige themed grid carousel
    *       - **Products Page** (`/products`)
    *         - Sidebar - "Top Selling Products" carousel section
+   *     parameters:
+   *       - in: query
+   *         name: days
+   *         schema: { type: integer }
+   *         description: Override the ranking period in days (max 365)
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 4, maximum: 24 }
    *     responses:
    *       200:
    *         description: List of top selling products
    */
   app.get("/api/products/top-selling", async (req, res) => {
     try {
-      const products = await storage.getProducts({});
-      res.json(products.slice(3, 7));
+      let days = parseInt(req.query.days as string);
+      if (!days || days < 1) {
+        const periodSetting = await storage.getPlatformSetting('top_selling_period_days');
+        days = parseInt(periodSetting?.value || '30') || 30;
+      }
+      days = Math.min(days, 365);
+      const limit = Math.min(parseInt(req.query.limit as string) || 4, 24);
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const products = await storage.getTopSellingProducts(since, limit);
+      res.json(await withCoverImages(products));
     } catch (error) {
+      console.error("Error fetching top selling products:", error);
       res.status(500).json({ error: "Failed to fetch top selling products" });
     }
   });
@@ -2667,6 +3538,10 @@ export async function registerRoutes(
    *     summary: Get product by ID
    *     description: |
    *       Returns detailed information about a specific product.
+   *       `images` lists processed product images (cover first), each with AVIF and WebP
+   *       `srcSet` strings, dimensions and a blurhash placeholder.
+   *       `variants` lists the purchasable variants (size, colour, thickness, drive type) with their
+   *       SKU, stock, optional price override and image; it is empty for products sold without variants.
    *       
    *       ## Pages / Sections Used
    *       - **Product Details Page** (`/products/:id`)
@@ -2699,7 +3574,9 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Product not found" });
       }
 
-      res.json(product);
+      const images = await getProductImageSets([product.id]);
+      const variants = await storage.getProductVariants(product.id, true);
+      res.json({ ...product, images: images.get(product.id) || [], variants });
     } catch (error) {
       console.error("Error fetching product:", error);
       res.status(500).json({ error: "Failed to fetch product" });
@@ -2738,10 +3615,11 @@ export async function registerRoutes(
 
       const similar = await storage.getProducts({
         categoryId: product.categoryId || undefined,
+        status: 'approved',
       });
 
       const filtered = similar.filter(p => p.id !== id).slice(0, 6);
-      res.json(filtered);
+      res.json(await withCoverImages(filtered));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch similar products" });
     }
@@ -2754,7 +3632,9 @@ export async function registerRoutes(
    *     tags: [Products]
    *     summary: Get recommended products
    *     description: |
-   *       Returns product recommendations for the user.
+   *       Returns products to show alongside the given product. Products bought together with it
+   *       on paid orders rank highest, followed by products with overlapping vehicle fitment and
+   *       then products from the same category. Only approved, in-stock products are returned.
    *       
    *       ## Pages / Sections Used
    *       - **Product Details Page** (`/products/:id`)
@@ -2764,15 +3644,29 @@ export async function registerRoutes(
    *         name: id
    *         required: true
    *         schema: { type: integer }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 6, maximum: 24 }
    *     responses:
    *       200:
    *         description: List of recommended products
+   *       404:
+   *         description: Product not found
    */
   app.get("/api/products/:id/recommended", async (req, res) => {
     try {
-      const products = await storage.getProducts({});
-      res.json(products.slice(0, 6));
+      const id = parseInt(req.params.id);
+      const product = await storage.getProductById(id);
+
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 6, 24);
+      const products = await storage.getRecommendedProducts(id, limit);
+      res.json(await withCoverImages(products));
     } catch (error) {
+      console.error("Error fetching recommended products:", error);
       res.status(500).json({ error: "Failed to fetch recommended products" });
     }
   });
@@ -2810,6 +3704,12 @@ export async function registerRoutes(
       }
 
       const validated = insertProductSchema.parse(req.body);
+
+      const categoryError = await validateProductCategories(req.body);
+      if (categoryError) {
+        return res.status(400).json({ error: "Invalid category path", message: categoryError });
+      }
+
       const product = await storage.createProduct({
         ...validated,
         vendorId: req.user.id,
@@ -2834,7 +3734,8 @@ export async function registerRoutes(
    *     tags: [Categories]
    *     summary: Get all categories
    *     description: |
-   *       Returns a list of all product categories for navigation.
+   *       Returns all product categories ordered by `displayOrder`. By default the list is flat and each
+   *       category carries its `parentId`; pass `view=tree` to get top-level categories with nested `children`.
    *       
    *       ## Pages / Sections Used
    *       - **Home Page** (`/`)
@@ -2843,6 +3744,10 @@ export async function registerRoutes(
    *         - Filter Sidebar - category checkboxes for filtering
    *       - **Navbar** (all pages)
    *         - Categories Dropdown Menu - navigation links
+   *     parameters:
+   *       - in: query
+   *         name: view
+   *         schema: { type: string, enum: [flat, tree], default: flat }
    *     responses:
    *       200:
    *         description: List of categories
@@ -2855,6 +3760,10 @@ export async function registerRoutes(
    */
   app.get("/api/categories", async (req, res) => {
     try {
+      if (req.query.view === 'tree') {
+        return res.json(await storage.getCategoryTree());
+      }
+
       const categories = await storage.getCategories();
       res.json(categories);
     } catch (error) {
@@ -2862,151 +3771,227 @@ export async function registerRoutes(
     }
   });
 
-  // ===== REVIEWS =====
-
   /**
    * @swagger
-   * /products/{id}/reviews:
+   * /categories/{idOrSlug}:
    *   get:
-   *     tags: [Reviews]
-   *     summary: Get reviews for a product
+   *     tags: [Categories]
+   *     summary: Get a category with its breadcrumb
    *     description: |
-   *       Returns all reviews for a specific product.
+   *       Looks up a category by numeric ID or slug. Returns the category with `path` (breadcrumb from
+   *       the top-level category down to this one) and its direct `children`.
    *       
    *       ## Pages / Sections Used
-   *       - **Product Details Page** (`/products/:id`)
-   *         - Reviews Tab - customer reviews list with ratings
+   *       - **Products Page** (`/products?category=...`)
+   *         - Breadcrumb and sub-category links
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: idOrSlug
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: List of reviews
+   *         description: Category with path and children
+   *       404:
+   *         description: Category not found
    */
-  app.get("/api/products/:id/reviews", async (req, res) => {
+  app.get("/api/categories/:idOrSlug", async (req, res) => {
     try {
-      const productId = parseInt(req.params.id);
-      const reviews = await storage.getReviewsByProductId(productId);
-      res.json(reviews);
+      const { idOrSlug } = req.params;
+      const category = /^\d+$/.test(idOrSlug)
+        ? await storage.getCategoryById(parseInt(idOrSlug))
+        : await storage.getCategoryBySlug(idOrSlug);
+
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      const [path, all] = await Promise.all([
+        storage.getCategoryPath(category.id),
+        storage.getCategories(),
+      ]);
+      const children = all.filter(c => c.parentId === category.id);
+
+      res.json({ ...category, path, children });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch reviews" });
+      console.error("Error fetching category:", error);
+      res.status(500).json({ error: "Failed to fetch category" });
     }
   });
 
+  // ===== VEHICLES & FITMENT =====
+
   /**
    * @swagger
-   * /products/{id}/reviews:
-   *   post:
-   *     tags: [Reviews]
-   *     summary: Create a review (authenticated users only)
+   * /vehicles/makes:
+   *   get:
+   *     tags: [Vehicles]
+   *     summary: List vehicle makes
+   *     description: |
+   *       Returns the distinct makes in the vehicle catalogue, for the first step of a
+   *       year/make/model lookup before saving a vehicle with `POST /garage`.
+   *     parameters:
+   *       - in: query
+   *         name: platform
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: List of makes
+   */
+  app.get("/api/vehicles/makes", async (req, res) => {
+    try {
+      const makes = await storage.getVehicleMakes(req.query.platform as string | undefined);
+      res.json(makes);
+    } catch (error) {
+      console.error("Error fetching vehicle makes:", error);
+      res.status(500).json({ error: "Failed to fetch vehicle makes" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vehicles/models:
+   *   get:
+   *     tags: [Vehicles]
+   *     summary: List models for a make
+   *     parameters:
+   *       - in: query
+   *         name: make
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: List of models
+   *       400:
+   *         description: Make is required
+   */
+  app.get("/api/vehicles/models", async (req, res) => {
+    try {
+      const make = req.query.make as string | undefined;
+      if (!make) {
+        return res.status(400).json({ error: "Make is required" });
+      }
+
+      const models = await storage.getVehicleModels(make);
+      res.json(models);
+    } catch (error) {
+      console.error("Error fetching vehicle models:", error);
+      res.status(500).json({ error: "Failed to fetch vehicle models" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vehicles:
+   *   get:
+   *     tags: [Vehicles]
+   *     summary: Look up catalogue vehicles
+   *     description: |
+   *       Returns catalogue entries (make, model, variant, year range) matching the filters.
+   *       A `year` matches entries whose year range covers it.
+   *     parameters:
+   *       - in: query
+   *         name: platform
+   *         schema: { type: string }
+   *       - in: query
+   *         name: make
+   *         schema: { type: string }
+   *       - in: query
+   *         name: model
+   *         schema: { type: string }
+   *       - in: query
+   *         name: year
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Matching vehicles
+   */
+  app.get("/api/vehicles", async (req, res) => {
+    try {
+      const { platform, make, model, year } = req.query;
+      const vehicles = await storage.searchVehicles({
+        platform: platform as string | undefined,
+        make: make as string | undefined,
+        model: model as string | undefined,
+        year: year ? parseInt(year as string) || undefined : undefined,
+      });
+      res.json(vehicles);
+    } catch (error) {
+      console.error("Error fetching vehicles:", error);
+      res.status(500).json({ error: "Failed to fetch vehicles" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /products/{id}/fitment:
+   *   get:
+   *     tags: [Vehicles]
+   *     summary: Get vehicles a product fits
    *     description: |
-   *       Submits a new review for a product.
-   *       
    *       ## Pages / Sections Used
    *       - **Product Details Page** (`/products/:id`)
-   *         - Reviews Tab - "Write a Review" form (authenticated users only)
-   *     security:
-   *       - bearerAuth: []
+   *         - Vehicle Fitment Tab - compatible vehicles
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema: { type: integer }
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             required: [rating, comment]
-   *             properties:
-   *               rating: { type: integer, minimum: 1, maximum: 5 }
-   *               comment: { type: string }
    *     responses:
-   *       201:
-   *         description: Review created
-   *       401:
-   *         description: Authentication required
+   *       200:
+   *         description: Fitment entries with their catalogue vehicle
    */
-  app.post("/api/products/:id/reviews", async (req, res) => {
+  app.get("/api/products/:id/fitment", async (req, res) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({ error: "Authentication required" });
-      }
-
-      const productId = parseInt(req.params.id);
-      const validated = insertReviewSchema.parse({
-        ...req.body,
-        productId,
-        userId: req.user.id,
-      });
-
-      const review = await storage.createReview(validated);
-      res.status(201).json(review);
+      const fitments = await storage.getProductFitments(parseInt(req.params.id));
+      res.json(fitments);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
-      }
-      res.status(500).json({ error: "Failed to create review" });
+      console.error("Error fetching product fitment:", error);
+      res.status(500).json({ error: "Failed to fetch product fitment" });
     }
   });
 
-  // ===== CART =====
-
   /**
    * @swagger
-   * /cart:
+   * /garage:
    *   get:
-   *     tags: [Cart]
-   *     summary: Get user's cart
+   *     tags: [Vehicles]
+   *     summary: List my garage vehicles
    *     description: |
-   *       Returns all items in the user's shopping cart with product details.
+   *       Returns the vehicles the user has saved, default first.
    *       
    *       ## Pages / Sections Used
-   *       - **Cart Page** (`/cart`)
-   *         - Cart Items List - product cards with quantity controls
-   *         - Order Summary - total calculation
-   *       - **Checkout Page** (`/checkout`)
-   *         - Order Review - summary before payment
-   *       - **Navbar** (all authenticated pages)
-   *         - Cart Icon Badge - displays item count
+   *       - **Products Page** (`/products`)
+   *         - Fits My Vehicle filter - saved vehicles narrow the product search
    *     security:
    *       - bearerAuth: []
    *     responses:
    *       200:
-   *         description: Cart items
+   *         description: Garage vehicles with catalogue details
    *       401:
    *         description: Authentication required
    */
-  app.get("/api/cart", async (req, res) => {
+  app.get("/api/garage", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const cart = await storage.getCartByUserId(req.user.id);
-      res.json(cart);
+      const garage = await storage.getUserVehicles(req.user.id);
+      res.json(garage);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch cart" });
+      console.error("Error fetching garage:", error);
+      res.status(500).json({ error: "Failed to fetch garage" });
     }
   });
 
   /**
    * @swagger
-   * /cart:
+   * /garage:
    *   post:
-   *     tags: [Cart]
-   *     summary: Add item to cart
-   *     description: |
-   *       Adds a product to the user's shopping cart.
-   *       
-   *       ## Pages / Sections Used
-   *       - **Product Details Page** (`/products/:id`)
-   *         - Add to Cart Button - primary CTA in product info section
-   *       - **Product Card** (Products Page, Home Page)
-   *         - Quick Add to Cart icon button
+   *     tags: [Vehicles]
+   *     summary: Save a vehicle to my garage
+   *     description: The first saved vehicle becomes the default.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -3015,49 +4000,61 @@ export async function registerRoutes(
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [productId]
+   *             required: [vehicleId]
    *             properties:
-   *               productId: { type: integer }
-   *               quantity: { type: integer, default: 1 }
+   *               vehicleId: { type: integer }
+   *               year: { type: integer, description: Model year, must fall within the catalogue range }
+   *               nickname: { type: string }
+   *               isDefault: { type: boolean }
    *     responses:
    *       201:
-   *         description: Item added to cart
-   *       401:
-   *         description: Authentication required
+   *         description: Vehicle saved
+   *       400:
+   *         description: Invalid vehicle or year
+   *       409:
+   *         description: The same vehicle and year is already in the garage
    */
-  app.post("/api/cart", async (req, res) => {
+  app.post("/api/garage", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const validated = insertCartItemSchema.parse({
-        ...req.body,
-        userId: req.user.id,
-      });
+      const data = z.object({
+        vehicleId: z.number().int(),
+        year: z.number().int().min(1900).max(2100).nullable().optional(),
+        nickname: z.string().trim().max(100).nullable().optional(),
+        isDefault: z.boolean().optional(),
+      }).parse(req.body);
 
-      const cartItem = await storage.addToCart(validated);
-      res.status(201).json(cartItem);
+      const vehicle = await storage.getVehicleById(data.vehicleId);
+      if (!vehicle) {
+        return res.status(400).json({ error: "Vehicle not found in catalogue" });
+      }
+      if (data.year && ((vehicle.yearFrom && data.year < vehicle.yearFrom) || (vehicle.yearTo && data.year > vehicle.yearTo))) {
+        return res.status(400).json({ error: "Year is outside this vehicle's production range" });
+      }
+
+      const userVehicle = await storage.addUserVehicle(req.user.id, data);
+      if (!userVehicle) {
+        return res.status(409).json({ error: "This vehicle is already in your garage" });
+      }
+      res.status(201).json({ ...userVehicle, vehicle });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to add to cart" });
+      console.error("Error saving garage vehicle:", error);
+      res.status(500).json({ error: "Failed to save vehicle" });
     }
   });
 
   /**
    * @swagger
-   * /cart/{id}:
+   * /garage/{id}:
    *   patch:
-   *     tags: [Cart]
-   *     summary: Update cart item quantity
-   *     description: |
-   *       Updates the quantity of an item in the cart.
-   *       
-   *       ## Pages / Sections Used
-   *       - **Cart Page** (`/cart`)
-   *         - Cart Item Row - Plus/Minus quantity buttons
+   *     tags: [Vehicles]
+   *     summary: Update a garage vehicle
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -3066,54 +4063,63 @@ export async function registerRoutes(
    *         required: true
    *         schema: { type: integer }
    *     requestBody:
-   *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [quantity]
    *             properties:
-   *               quantity: { type: integer, minimum: 1 }
+   *               year: { type: integer }
+   *               nickname: { type: string }
+   *               isDefault: { type: boolean }
    *     responses:
    *       200:
-   *         description: Cart item updated
+   *         description: Vehicle updated
+   *       404:
+   *         description: Vehicle not found
+   *       409:
+   *         description: The same vehicle and year is already in the garage
    */
-  app.patch("/api/cart/:id", async (req, res) => {
+  app.patch("/api/garage/:id", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const id = parseInt(req.params.id);
-      const { quantity } = req.body;
-
-      if (typeof quantity !== 'number' || quantity < 1) {
-        return res.status(400).json({ error: "Invalid quantity" });
+      const existing = await storage.getUserVehicleById(parseInt(req.params.id));
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ error: "Vehicle not found" });
       }
 
-      const updated = await storage.updateCartItem(id, quantity);
-      if (!updated) {
-        return res.status(404).json({ error: "Cart item not found" });
+      const data = z.object({
+        year: z.number().int().min(1900).max(2100).nullable().optional(),
+        nickname: z.string().trim().max(100).nullable().optional(),
+        isDefault: z.boolean().optional(),
+      }).parse(req.body);
+
+      if (data.year !== undefined && data.year !== existing.year) {
+        const garage = await storage.getUserVehicles(req.user.id);
+        if (garage.some(v => v.id !== existing.id && v.vehicleId === existing.vehicleId && v.year === data.year)) {
+          return res.status(409).json({ error: "This vehicle is already in your garage" });
+        }
       }
 
+      const updated = await storage.updateUserVehicle(existing.id, data);
       res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update cart item" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating garage vehicle:", error);
+      res.status(500).json({ error: "Failed to update vehicle" });
     }
   });
 
   /**
    * @swagger
-   * /cart/{id}:
+   * /garage/{id}:
    *   delete:
-   *     tags: [Cart]
-   *     summary: Remove item from cart
-   *     description: |
-   *       Removes an item from the cart.
-   *       
-   *       ## Pages / Sections Used
-   *       - **Cart Page** (`/cart`)
-   *         - Cart Item Row - "Remove" link button
+   *     tags: [Vehicles]
+   *     summary: Remove a vehicle from my garage
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -3123,232 +4129,339 @@ export async function registerRoutes(
    *         schema: { type: integer }
    *     responses:
    *       204:
-   *         description: Item removed
+   *         description: Vehicle removed
+   *       404:
+   *         description: Vehicle not found
    */
-  app.delete("/api/cart/:id", async (req, res) => {
+  app.delete("/api/garage/:id", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const id = parseInt(req.params.id);
-      await storage.removeFromCart(id);
+      const existing = await storage.getUserVehicleById(parseInt(req.params.id));
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      await storage.removeUserVehicle(existing.id);
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to remove cart item" });
+      console.error("Error removing garage vehicle:", error);
+      res.status(500).json({ error: "Failed to remove vehicle" });
     }
   });
 
-  // ===== CHECKOUT (Stripe Integration) =====
+  // ===== REVIEWS =====
 
   /**
    * @swagger
-   * /checkout/create-session:
-   *   post:
-   *     tags: [Checkout]
-   *     summary: Create Stripe checkout session
+   * /products/{id}/reviews:
+   *   get:
+   *     tags: [Reviews]
+   *     summary: Get reviews for a product
    *     description: |
-   *       Creates a Stripe checkout session for payment processing.
-   *       Returns checkout URL for Stripe-hosted checkout, or test mode indicator if Stripe is not configured.
+   *       Returns all reviews for a specific product.
    *       
    *       ## Pages / Sections Used
-   *       - **Cart Page** (`/cart`)
-   *         - "Proceed to Checkout" button - initiates Stripe checkout flow
-   *     security:
-   *       - bearerAuth: []
+   *       - **Product Details Page** (`/products/:id`)
+   *         - Reviews Tab - customer reviews list with ratings
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
    *       200:
-   *         description: Checkout session URL or test mode indicator
+   *         description: List of reviews
    */
-  app.post("/api/checkout/create-session", async (req, res) => {
+  app.get("/api/products/:id/reviews", async (req, res) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({ error: "Authentication required" });
-      }
-
-      // Get cart items
-      const cartItems = await storage.getCartByUserId(req.user.id);
-      if (!cartItems || cartItems.length === 0) {
-        return res.status(400).json({ error: "Cart is empty" });
-      }
-
-      // Calculate order total
-      const total = cartItems.reduce((sum, item) => 
-        sum + (parseFloat(item.product.price) * item.quantity), 0);
-
-      // Create order items from cart
-      const orderItems = cartItems.map(item => ({
-        productId: item.product.id,
-        name: item.product.name,
-        image: item.product.image,
-        price: item.product.price,
-        quantity: item.quantity,
-      }));
+      const productId = parseInt(req.params.id);
+      const reviews = await storage.getReviewsByProductId(productId);
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
 
-      // Create the order in the database
-      const order = await storage.createOrder(
-        {
-          userId: req.user.id,
-          status: 'pending',
-          total: total.toString(),
-          trackingNumber: `TRK${Date.now().toString(36).toUpperCase()}`,
-          estimatedDelivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        },
-        orderItems
-      );
+  /**
+   * @swagger
+   * /products/{id}/reviews:
+   *   post:
+   *     tags: [Reviews]
+   *     summary: Create a review (authenticated users only)
+   *     description: |
+   *       Submits a new review for a product.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Product Details Page** (`/products/:id`)
+   *         - Reviews Tab - "Write a Review" form (authenticated users only)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [rating, comment]
+   *             properties:
+   *               rating: { type: integer, minimum: 1, maximum: 5 }
+   *               comment: { type: string }
+   *     responses:
+   *       201:
+   *         description: Review created
+   *       401:
+   *         description: Authentication required
+   */
+  app.post("/api/products/:id/reviews", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
 
-      // Clear the cart after order creation
-      await storage.clearCart(req.user.id);
+      const productId = parseInt(req.params.id);
+      const validated = insertReviewSchema.parse({
+        ...req.body,
+        productId,
+        userId: req.user.id,
+      });
 
-      // Try to get Stripe client
-      try {
-        const { getUncachableStripeClient } = await import("./stripeClient");
-        const stripe = await getUncachableStripeClient();
+      const review = await storage.createReview(validated);
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create review" });
+    }
+  });
 
-        // Build line items from cart
-        const lineItems = cartItems.map(item => ({
-          price_data: {
-            currency: 'aed',
-            product_data: {
-              name: item.product.name,
-              images: [item.product.image],
-              metadata: {
-                productId: item.product.id.toString(),
-                sku: item.product.sku,
-              },
-            },
-            unit_amount: Math.round(parseFloat(item.product.price) * 100),
-          },
-          quantity: item.quantity,
-        }));
+  // ===== CART =====
 
-        // Create checkout session
-        const replitDomain = process.env.REPLIT_DOMAINS?.split(',')[0];
-        const baseUrl = replitDomain 
-          ? `https://${replitDomain}` 
-          : (req.headers.origin || `${req.protocol}://${req.get('host')}`);
-        
-        const session = await stripe.checkout.sessions.create({
-          payment_method_types: ['card'],
-          line_items: lineItems,
-          mode: 'payment',
-          success_url: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}&order_id=${order.id}`,
-          cancel_url: `${baseUrl}/cart`,
-          customer_email: req.user.email,
-          metadata: {
-            userId: req.user.id,
-            orderId: order.id,
-          },
-        });
+  // Checks a cart line quantity against the product's MOQ and current stock. Products sold in
+  // variants need one picked, and the line is checked against that variant's stock.
+  async function validateCartQuantity(productId: number, quantity: number, variantId?: number | null): Promise<{ status: number; body: Record<string, unknown> } | null> {
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      return { status: 404, body: { error: "Product not found" } };
+    }
 
-        res.json({ url: session.url, orderId: order.id });
-      } catch (stripeError: any) {
-        console.log("Stripe not configured, using test mode:", stripeError.message);
-        // Stripe not configured - return test mode response with order info
-        res.json({ 
-          testMode: true,
-          orderId: order.id,
-          message: "Order created successfully. Stripe is not configured - payments would work with valid Stripe credentials."
-        });
-      }
-    } catch (error) {
-      console.error("Checkout error:", error);
-      res.status(500).json({ error: "Failed to create checkout session" });
+    const variants = await storage.getProductVariants(productId, true);
+    const variant = variantId ? variants.find(v => v.id === variantId) : undefined;
+    if (variantId && !variant) {
+      return { status: 404, body: { error: "Variant not found" } };
     }
-  });
+    if (!variantId && variants.length > 0) {
+      return {
+        status: 400,
+        body: { error: `Choose an option of ${product.name}`, code: 'variant_required' },
+      };
+    }
+    const name = variant ? `${product.name} (${describeVariant(variant)})` : product.name;
 
-  // ===== ORDERS =====
+    const minOrderQuantity = product.minOrderQuantity || 1;
+    if (quantity < minOrderQuantity) {
+      return {
+        status: 400,
+        body: {
+          error: `Minimum order quantity for ${name} is ${minOrderQuantity}`,
+          code: 'below_min_order_quantity',
+          minOrderQuantity,
+        },
+      };
+    }
+
+    const available = (variant ? variant.stock : product.stock) || 0;
+    if (quantity > available) {
+      return {
+        status: 409,
+        body: {
+          error: available > 0
+            ? `Only ${available} units of ${name} are available`
+            : `${name} is out of stock`,
+          code: 'insufficient_stock',
+          available,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Give back stock held by checkouts that were never paid, retry failed refunds, lapse RFQ quotes past
+  // their validity, chase unpaid invoices and issue any tax documents that were missed
+  const reservationSweep = setInterval(() => {
+    storage.releaseExpiredStockReservations()
+      .then(released => {
+        if (released > 0) console.log(`Released ${released} expired stock reservation(s)`);
+      })
+      .catch(error => console.error("Error releasing expired stock reservations:", error));
+    retryDueRefunds()
+      .catch(error => console.error("Error retrying refunds:", error));
+    storage.expireRfqs()
+      .then(expired => {
+        if (expired.quotes > 0 || expired.rfqs > 0) console.log(`Expired ${expired.quotes} quote(s) and ${expired.rfqs} quote request(s)`);
+      })
+      .catch(error => console.error("Error expiring quote requests:", error));
+    runInvoiceDunning()
+      .catch(error => console.error("Error sending invoice reminders:", error));
+    issueMissingTaxDocuments()
+      .then(issued => {
+        if (issued > 0) console.log(`Issued ${issued} missed tax document(s)`);
+      })
+      .catch(error => console.error("Error issuing tax documents:", error));
+  }, 60 * 1000);
+  reservationSweep.unref();
+
+  requeuePendingProductMedia()
+    .catch(error => console.error("Error resuming product image processing:", error));
+  requeueCatalogImports()
+    .catch(error => console.error("Error resuming catalogue imports:", error));
 
   /**
    * @swagger
-   * /orders:
+   * /cart:
    *   get:
-   *     tags: [Orders]
-   *     summary: Get user's orders
+   *     tags: [Cart]
+   *     summary: Get user's cart
    *     description: |
-   *       Returns a list of all orders placed by the authenticated user.
+   *       Returns all items in the user's shopping cart with product details, and the chosen `variant`
+   *       (size, colour, thickness, drive type) for products sold in variants.
+   *       Each item includes a `pricing` object with the volume tier price that applies to its quantity
+   *       (`unitPrice`, `lineTotal`, `savings` against the list price, `appliedTier`) and the `nextTier`
+   *       the buyer would unlock by adding `quantityNeeded` more units.
    *       
    *       ## Pages / Sections Used
-   *       - **Profile Page** (`/account/profile`)
-   *         - Orders Tab - order history list with status badges
-   *         - Recent Orders Section - last 3 orders summary
+   *       - **Cart Page** (`/cart`)
+   *         - Cart Items List - product cards with quantity controls
+   *         - Order Summary - total calculation
+   *       - **Checkout Page** (`/checkout`)
+   *         - Order Review - summary before payment
+   *       - **Navbar** (all authenticated pages)
+   *         - Cart Icon Badge - displays item count
    *     security:
    *       - bearerAuth: []
    *     responses:
    *       200:
-   *         description: List of orders
+   *         description: Cart items
+   *       401:
+   *         description: Authentication required
    */
-  app.get("/api/orders", async (req, res) => {
+  app.get("/api/cart", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const orders = await storage.getOrdersByUserId(req.user.id);
-      res.json(orders);
+      const cart = await storage.getCartByUserId(req.user.id);
+      res.json(cart);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      res.status(500).json({ error: "Failed to fetch cart" });
     }
   });
 
   /**
    * @swagger
-   * /orders/{id}:
+   * /cart/totals:
    *   get:
-   *     tags: [Orders]
-   *     summary: Get order by ID
+   *     tags: [Cart]
+   *     summary: Get cart totals with tax
    *     description: |
-   *       Returns detailed information about a specific order.
+   *       Returns the cart subtotal (volume tier prices, excluding tax), the tax grouped by rate in
+   *       `taxLines`, and the total checkout will charge. Tax follows the admin tax rules for the
+   *       sellers' countries, the destination, the buyer type and product categories. Business buyers
+   *       whose profile has a valid VAT/GST number are reverse-charged where a rule allows it (`taxNote`).
+   *       The destination is the country of `addressId`, or the buyer's profile country without one.
+   *       Amounts are in the base currency (AED), converted from each product's currency.
    *       
    *       ## Pages / Sections Used
-   *       - **Order Details Page** (`/orders/:id`) - _Not yet implemented in frontend_
-   *         - Order Summary - items, totals, shipping info
-   *         - Order Status - tracking information
+   *       - **Cart Page** (`/cart`)
+   *         - Order Summary - subtotal, tax lines and total
+   *       - **Checkout Page** (`/checkout`)
+   *         - Order Summary - updates when the shipping address changes
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: string }
+   *       - in: query
+   *         name: addressId
+   *         schema: { type: integer }
+   *         description: Shipping address to tax for
    *     responses:
    *       200:
-   *         description: Order details
+   *         description: Cart totals
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Address not found
+   *       409:
+   *         description: A cart line is priced in a currency with no exchange rate (`code: fx_rate_unavailable`)
    */
-  app.get("/api/orders/:id", async (req, res) => {
+  app.get("/api/cart/totals", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const order = await storage.getOrderById(req.params.id);
-      
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      let destinationCountry: string | undefined;
+      if (req.query.addressId) {
+        const address = await storage.getAddressById(parseInt(req.query.addressId as string));
+        if (!address || address.userId !== req.user.id) {
+          return res.status(404).json({ error: "Address not found" });
+        }
+        destinationCountry = address.country;
       }
 
-      if (order.userId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
+      const cart = await storage.getCartByUserId(req.user.id);
+      const unpriced = cart.find(item => item.pricing.exchangeRate === null);
+      if (unpriced) {
+        return res.status(409).json({
+          error: `${unpriced.product.name} is priced in ${unpriced.pricing.currency}, which has no exchange rate on file`,
+          code: 'fx_rate_unavailable',
+          productId: unpriced.product.id,
+        });
       }
-
-      res.json(order);
+      const tax = await calculateTax({
+        buyerId: req.user.id,
+        destinationCountry,
+        lines: cart.map(item => ({ product: item.product, amount: parseFloat(item.pricing.lineTotal) })),
+      });
+      const totals: CartTotals = {
+        subtotal: tax.subtotal,
+        taxLines: tax.taxLines,
+        tax: tax.tax,
+        total: tax.total,
+        taxNote: tax.taxNote,
+        destinationCountry: tax.destinationCountry,
+      };
+      res.json(totals);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch order" });
+      console.error("Error calculating cart totals:", error);
+      res.status(500).json({ error: "Failed to calculate cart totals" });
     }
   });
 
   /**
    * @swagger
-   * /orders:
+   * /cart:
    *   post:
-   *     tags: [Orders]
-   *     summary: Create order (checkout)
+   *     tags: [Cart]
+   *     summary: Add item to cart
    *     description: |
-   *       Creates a new order from cart items after payment.
+   *       Adds a product to the user's shopping cart. Products sold in variants need a `variantId`;
+   *       each variant is its own cart line, priced at the variant's price when it has one.
    *       
    *       ## Pages / Sections Used
-   *       - **Checkout Success Page** (`/checkout/success`)
-   *         - Order Confirmation - creates order after successful Stripe payment
+   *       - **Product Details Page** (`/products/:id`)
+   *         - Add to Cart Button - primary CTA in product info section
+   *       - **Product Card** (Products Page, Home Page)
+   *         - Quick Add to Cart icon button
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -3357,651 +4470,3388 @@ export async function registerRoutes(
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [items]
+   *             required: [productId]
    *             properties:
-   *               items:
-   *                 type: array
-   *                 items:
-   *                   type: object
-   *                   properties:
-   *                     productId: { type: integer }
-   *                     name: { type: string }
-   *                     image: { type: string }
-   *                     price: { type: string }
-   *                     quantity: { type: integer }
+   *               productId: { type: integer }
+   *               variantId: { type: integer, description: Required when the product has active variants }
+   *               quantity: { type: integer, default: 1 }
    *     responses:
    *       201:
-   *         description: Order created
+   *         description: Item added to cart
+   *       400:
+   *         description: |
+   *           Quantity below the product's minimum order quantity (`code: below_min_order_quantity`),
+   *           or no variant chosen for a product sold in variants (`code: variant_required`)
+   *       401:
+   *         description: Authentication required
+   *       409:
+   *         description: Not enough stock for the requested quantity (`code: insufficient_stock`)
    */
-  app.post("/api/orders", async (req, res) => {
+  app.post("/api/cart", async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      const { items } = req.body;
-
-      if (!items || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ error: "Order must contain at least one item" });
-      }
-
-      const total = items.reduce((sum: number, item: any) => {
-        return sum + (parseFloat(item.price) * item.quantity);
-      }, 0);
-
-      const orderData = insertOrderSchema.parse({
+      const validated = insertCartItemSchema.parse({
+        ...req.body,
         userId: req.user.id,
-        status: 'pending',
-        total: total.toString(),
-      });
-
-      const validatedItems = items.map((item: any) => 
-        insertOrderItemSchema.parse(item)
-      );
+      }) as { userId: string; productId: number; variantId?: number | null; quantity?: number };
 
-      const order = await storage.createOrder(orderData, validatedItems);
+      const existing = (await storage.getCartByUserId(req.user.id))
+        .find(item => item.productId === validated.productId && (item.variantId ?? null) === (validated.variantId ?? null));
+      const requested = (existing?.quantity || 0) + (validated.quantity || 1);
 
-      await storage.clearCart(req.user.id);
+      const quantityError = await validateCartQuantity(validated.productId, requested, validated.variantId);
+      if (quantityError) {
+        return res.status(quantityError.status).json(quantityError.body);
+      }
 
-      res.status(201).json(order);
+      const cartItem = await storage.addToCart(validated);
+      res.status(201).json(cartItem);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      console.error("Error creating order:", error);
-      res.status(500).json({ error: "Failed to create order" });
+      res.status(500).json({ error: "Failed to add to cart" });
     }
   });
 
-  // ===== REFUNDS =====
-
   /**
    * @swagger
-   * /refunds:
-   *   get:
-   *     tags: [Refunds]
-   *     summary: Get user's refunds
+   * /cart/{id}:
+   *   patch:
+   *     tags: [Cart]
+   *     summary: Update cart item quantity
    *     description: |
-   *       Returns all refunds for the authenticated user.
+   *       Updates the quantity of an item in the cart.
    *       
    *       ## Pages / Sections Used
-   *       - **Returns Page** (`/account/returns`)
-   *         - Returns List - displays all refund requests
+   *       - **Cart Page** (`/cart`)
+   *         - Cart Item Row - Plus/Minus quantity buttons
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [quantity]
+   *             properties:
+   *               quantity: { type: integer, minimum: 1 }
    *     responses:
    *       200:
-   *         description: List of refunds
-   *       401:
-   *         description: Not authenticated
+   *         description: Cart item updated
+   *       400:
+   *         description: Invalid quantity or below the product's minimum order quantity
+   *       404:
+   *         description: Cart item not found
+   *       409:
+   *         description: Not enough stock for the requested quantity
    */
-  app.get("/api/refunds", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
+  app.patch("/api/cart/:id", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const { quantity } = req.body;
+
+      if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({ error: "Invalid quantity" });
+      }
+
+      const cartItem = await storage.getCartItemById(id);
+      if (!cartItem || cartItem.userId !== req.user.id) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      const quantityError = await validateCartQuantity(cartItem.productId, quantity, cartItem.variantId);
+      if (quantityError) {
+        return res.status(quantityError.status).json(quantityError.body);
+      }
+
+      const updated = await storage.updateCartItem(id, quantity);
+      if (!updated) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update cart item" });
     }
+  });
 
+  /**
+   * @swagger
+   * /cart/{id}:
+   *   delete:
+   *     tags: [Cart]
+   *     summary: Remove item from cart
+   *     description: |
+   *       Removes an item from the cart.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Cart Page** (`/cart`)
+   *         - Cart Item Row - "Remove" link button
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       204:
+   *         description: Item removed
+   */
+  app.delete("/api/cart/:id", async (req, res) => {
     try {
-      const refunds = await storage.getRefundsByUserId(req.user.id);
-      res.json(refunds);
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const id = parseInt(req.params.id);
+      const cartItem = await storage.getCartItemById(id);
+      if (!cartItem || cartItem.userId !== req.user.id) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      await storage.removeFromCart(id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching refunds:", error);
-      res.status(500).json({ error: "Failed to fetch refunds" });
+      res.status(500).json({ error: "Failed to remove cart item" });
     }
   });
 
   /**
    * @swagger
-   * /refunds/{id}:
-   *   get:
-   *     tags: [Refunds]
-   *     summary: Get refund details
+   * /cart/{id}/move-to-wishlist:
+   *   post:
+   *     tags: [Cart]
+   *     summary: Save cart item for later
    *     description: |
-   *       Returns details for a specific refund including items.
+   *       Moves a cart item to a wishlist (the default list unless `wishlistId` is given) and removes it from the cart.
    *       
    *       ## Pages / Sections Used
-   *       - **Refund Details Page** (`/account/refunds/:id`)
-   *         - Triggered Refunds - status, amount, payment method, dates
-   *         - Triggered Items - products being refunded
-   *         - Refund Breakup - popup showing per-item amounts
+   *       - **Cart Page** (`/cart`)
+   *         - Cart Item Row - "Save for later" link button
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema:
-   *           type: string
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               wishlistId: { type: integer }
    *     responses:
    *       200:
-   *         description: Refund details
+   *         description: Item saved to wishlist
    *       404:
-   *         description: Refund not found
+   *         description: Cart item or wishlist not found
    */
-  app.get("/api/refunds/:id", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-
+  app.post("/api/cart/:id/move-to-wishlist", async (req, res) => {
     try {
-      const refund = await storage.getRefundById(req.params.id);
-      
-      if (!refund || refund.userId !== req.user.id) {
-        return res.status(404).json({ error: "Refund not found" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
 
-      res.json(refund);
+      const cartItem = await storage.getCartItemById(parseInt(req.params.id));
+      if (!cartItem || cartItem.userId !== req.user.id) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      const wishlist = req.body?.wishlistId
+        ? await storage.getWishlistById(parseInt(req.body.wishlistId))
+        : await storage.getOrCreateDefaultWishlist(req.user.id);
+      if (!wishlist || wishlist.userId !== req.user.id) {
+        return res.status(404).json({ error: "Wishlist not found" });
+      }
+
+      const product = await storage.getProductById(cartItem.productId);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const item = await storage.addWishlistItem(wishlist.id, product, cartItem.quantity);
+      await storage.removeFromCart(cartItem.id);
+
+      res.json(item);
     } catch (error) {
-      console.error("Error fetching refund:", error);
-      res.status(500).json({ error: "Failed to fetch refund" });
+      console.error("Error moving cart item to wishlist:", error);
+      res.status(500).json({ error: "Failed to save item for later" });
     }
   });
 
-  // ===== ADDRESSES =====
+  // ===== WISHLISTS =====
+
+  // Loads a wishlist and checks it belongs to the current user
+  async function getOwnWishlist(req: Request, res: Response) {
+    const wishlist = await storage.getWishlistById(parseInt(req.params.id));
+    if (!wishlist || wishlist.userId !== req.user!.id) {
+      res.status(404).json({ error: "Wishlist not found" });
+      return undefined;
+    }
+    return wishlist;
+  }
 
   /**
    * @swagger
-   * /addresses:
+   * /wishlists:
    *   get:
-   *     tags: [Addresses]
-   *     summary: Get user addresses
+   *     tags: [Wishlists]
+   *     summary: Get user's wishlists
+   *     description: |
+   *       Returns all named wishlists of the authenticated user with item counts.
+   *       A default list is created on first use.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Wishlist Page** (`/account/wishlist`)
+   *         - List selector - switch between saved lists
    *     security:
    *       - bearerAuth: []
    *     responses:
    *       200:
-   *         description: List of user addresses
+   *         description: Wishlists with item counts
+   *       401:
+   *         description: Authentication required
    */
-  app.get("/api/addresses", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.get("/api/wishlists", async (req, res) => {
     try {
-      const userAddresses = await storage.getAddressesByUserId(req.user.id);
-      res.json(userAddresses);
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      await storage.getOrCreateDefaultWishlist(req.user.id);
+      const lists = await storage.getWishlistsByUserId(req.user.id);
+      res.json(lists);
     } catch (error) {
-      console.error("Error fetching addresses:", error);
-      res.status(500).json({ error: "Failed to fetch addresses" });
+      console.error("Error fetching wishlists:", error);
+      res.status(500).json({ error: "Failed to fetch wishlists" });
     }
   });
 
   /**
    * @swagger
-   * /addresses:
+   * /wishlists:
    *   post:
-   *     tags: [Addresses]
-   *     summary: Create new address
+   *     tags: [Wishlists]
+   *     summary: Create a wishlist
+   *     description: |
+   *       Creates a new named list, e.g. one per fleet or project.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Wishlist Page** (`/account/wishlist`)
+   *         - "New List" button
    *     security:
    *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               name: { type: string }
+   *     responses:
+   *       201:
+   *         description: Wishlist created
+   *       400:
+   *         description: Name is required
    */
-  app.post("/api/addresses", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.post("/api/wishlists", async (req, res) => {
     try {
-      const address = await storage.createAddress({
-        ...req.body,
-        userId: req.user.id
-      });
-      res.status(201).json(address);
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      if (!name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+
+      const wishlist = await storage.createWishlist(req.user.id, name);
+      res.status(201).json(wishlist);
     } catch (error) {
-      console.error("Error creating address:", error);
-      res.status(500).json({ error: "Failed to create address" });
+      console.error("Error creating wishlist:", error);
+      res.status(500).json({ error: "Failed to create wishlist" });
     }
   });
 
   /**
    * @swagger
-   * /addresses/{id}:
-   *   put:
-   *     tags: [Addresses]
-   *     summary: Update address
+   * /wishlists/import:
+   *   post:
+   *     tags: [Wishlists]
+   *     summary: Import locally saved wishlist
+   *     description: |
+   *       Merges product IDs kept in the browser (`localStorage`) before login into the user's default list.
+   *       Unknown products and products already on the list are skipped.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Login Pages** - called once after a successful login
    *     security:
    *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [productIds]
+   *             properties:
+   *               productIds: { type: array, items: { type: integer } }
+   *     responses:
+   *       200:
+   *         description: Number of imported items and the default wishlist
    */
-  app.put("/api/addresses/:id", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.post("/api/wishlists/import", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const existing = await storage.getAddressById(id);
-      if (!existing || existing.userId !== req.user.id) {
-        return res.status(404).json({ error: "Address not found" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
-      const updated = await storage.updateAddress(id, req.body);
-      res.json(updated);
+
+      const parsed = z.object({ productIds: z.array(z.number().int()).max(500) }).parse(req.body);
+      const result = await storage.importWishlistProductIds(req.user.id, parsed.productIds);
+      res.json(result);
     } catch (error) {
-      console.error("Error updating address:", error);
-      res.status(500).json({ error: "Failed to update address" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error importing wishlist:", error);
+      res.status(500).json({ error: "Failed to import wishlist" });
     }
   });
 
   /**
    * @swagger
-   * /addresses/{id}:
-   *   delete:
-   *     tags: [Addresses]
-   *     summary: Delete address
+   * /wishlists/{id}:
+   *   get:
+   *     tags: [Wishlists]
+   *     summary: Get wishlist items
+   *     description: |
+   *       Returns a wishlist with its items and current product data.
+   *       Each item is flagged with `priceDropped` / `priceDropAmount` (against the price when it was saved)
+   *       and `backInStock` (out of stock when saved, available now).
+   *       
+   *       ## Pages / Sections Used
+   *       - **Wishlist Page** (`/account/wishlist`)
+   *         - Saved items list with price-drop and back-in-stock badges
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Wishlist with items
+   *       404:
+   *         description: Wishlist not found
    */
-  app.delete("/api/addresses/:id", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.get("/api/wishlists/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const existing = await storage.getAddressById(id);
-      if (!existing || existing.userId !== req.user.id) {
-        return res.status(404).json({ error: "Address not found" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
-      await storage.deleteAddress(id);
-      res.json({ success: true });
+
+      const wishlist = await getOwnWishlist(req, res);
+      if (!wishlist) return;
+
+      const items = await storage.getWishlistItems(wishlist.id);
+      res.json({ ...wishlist, items });
     } catch (error) {
-      console.error("Error deleting address:", error);
-      res.status(500).json({ error: "Failed to delete address" });
+      console.error("Error fetching wishlist:", error);
+      res.status(500).json({ error: "Failed to fetch wishlist" });
     }
   });
 
   /**
    * @swagger
-   * /addresses/{id}/default:
-   *   post:
-   *     tags: [Addresses]
-   *     summary: Set default address
+   * /wishlists/{id}:
+   *   patch:
+   *     tags: [Wishlists]
+   *     summary: Rename a wishlist
    *     security:
    *       - bearerAuth: []
-   */
-  app.post("/api/addresses/:id/default", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               name: { type: string }
+   *     responses:
+   *       200:
+   *         description: Wishlist renamed
+   *       404:
+   *         description: Wishlist not found
+   */
+  app.patch("/api/wishlists/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const existing = await storage.getAddressById(id);
-      if (!existing || existing.userId !== req.user.id) {
-        return res.status(404).json({ error: "Address not found" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
-      await storage.setDefaultAddress(req.user.id, id);
-      res.json({ success: true });
+
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      if (!name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+
+      const wishlist = await getOwnWishlist(req, res);
+      if (!wishlist) return;
+
+      const updated = await storage.renameWishlist(wishlist.id, name);
+      res.json(updated);
     } catch (error) {
-      console.error("Error setting default address:", error);
-      res.status(500).json({ error: "Failed to set default address" });
+      console.error("Error renaming wishlist:", error);
+      res.status(500).json({ error: "Failed to rename wishlist" });
     }
   });
 
-  // ===== SAVED PAYMENT METHODS =====
-
   /**
    * @swagger
-   * /payments:
-   *   get:
-   *     tags: [Payments]
-   *     summary: Get saved payment methods
-   *     description: Returns tokenized payment methods (PCI-DSS compliant - no raw card data)
+   * /wishlists/{id}:
+   *   delete:
+   *     tags: [Wishlists]
+   *     summary: Delete a wishlist
+   *     description: Deletes a named list and its items. The default list cannot be deleted.
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       204:
+   *         description: Wishlist deleted
+   *       400:
+   *         description: Default list cannot be deleted
+   *       404:
+   *         description: Wishlist not found
    */
-  app.get("/api/payments", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.delete("/api/wishlists/:id", async (req, res) => {
     try {
-      const payments = await storage.getSavedPaymentsByUserId(req.user.id);
-      res.json(payments);
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const wishlist = await getOwnWishlist(req, res);
+      if (!wishlist) return;
+
+      if (wishlist.isDefault) {
+        return res.status(400).json({ error: "The default wishlist cannot be deleted" });
+      }
+
+      await storage.deleteWishlist(wishlist.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching payments:", error);
-      res.status(500).json({ error: "Failed to fetch payment methods" });
+      console.error("Error deleting wishlist:", error);
+      res.status(500).json({ error: "Failed to delete wishlist" });
     }
   });
 
   /**
    * @swagger
-   * /payments:
+   * /wishlists/{id}/items:
    *   post:
-   *     tags: [Payments]
-   *     summary: Save a payment method (from Stripe token)
+   *     tags: [Wishlists]
+   *     summary: Add product to wishlist
    *     description: |
-   *       Stores tokenized payment method reference. 
-   *       Compliant with PCI-DSS, RBI (India), and UAE Central Bank regulations.
-   *       Only stores last 4 digits, card brand, and processor token.
+   *       Saves a product to the list, recording its current price and stock for later price-drop and back-in-stock flags.
+   *       Use `default` as the id to add to the user's default list.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Product Details Page** (`/products/:id`)
+   *         - "Add to Wishlist" button
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [productId]
+   *             properties:
+   *               productId: { type: integer }
+   *               quantity: { type: integer, default: 1 }
+   *     responses:
+   *       201:
+   *         description: Item saved
+   *       404:
+   *         description: Wishlist or product not found
    */
-  app.post("/api/payments", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.post("/api/wishlists/:id/items", async (req, res) => {
     try {
-      // Validate required fields for regulatory compliance
-      const { country, processorToken, paymentMethodType } = req.body;
-      if (!country || !processorToken || !paymentMethodType) {
-        return res.status(400).json({ error: "Missing required fields: country, processorToken, paymentMethodType" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
-      
-      // For India (RBI regulations), require explicit consent
-      if (country === 'IN' && !req.body.hasRbiConsent) {
-        return res.status(400).json({ 
-          error: "RBI regulations require explicit consent for card-on-file storage in India",
-          requiresConsent: true
-        });
+
+      const parsed = z.object({
+        productId: z.number().int(),
+        quantity: z.number().int().min(1).optional(),
+      }).parse(req.body);
+
+      const wishlist = req.params.id === 'default'
+        ? await storage.getOrCreateDefaultWishlist(req.user.id)
+        : await getOwnWishlist(req, res);
+      if (!wishlist) return;
+
+      const product = await storage.getProductById(parsed.productId);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
       }
-      
-      const payment = await storage.createSavedPayment({
-        ...req.body,
-        userId: req.user.id,
-        consentTimestamp: req.body.hasRbiConsent ? new Date() : null
-      });
-      res.status(201).json(payment);
+
+      const item = await storage.addWishlistItem(wishlist.id, product, parsed.quantity);
+      res.status(201).json(item);
     } catch (error) {
-      console.error("Error creating payment method:", error);
-      res.status(500).json({ error: "Failed to save payment method" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error adding wishlist item:", error);
+      res.status(500).json({ error: "Failed to add item to wishlist" });
     }
   });
 
   /**
    * @swagger
-   * /payments/{id}:
+   * /wishlists/{id}/items/{itemId}:
    *   delete:
-   *     tags: [Payments]
-   *     summary: Delete saved payment method
-   *     description: Soft deletes the payment method (regulatory compliance requires record keeping)
+   *     tags: [Wishlists]
+   *     summary: Remove item from wishlist
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *       - in: path
+   *         name: itemId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       204:
+   *         description: Item removed
+   *       404:
+   *         description: Item not found
    */
-  app.delete("/api/payments/:id", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+  app.delete("/api/wishlists/:id/items/:itemId", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const existing = await storage.getSavedPaymentById(id);
-      if (!existing || existing.userId !== req.user.id) {
-        return res.status(404).json({ error: "Payment method not found" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
-      await storage.deleteSavedPayment(id);
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Error deleting payment method:", error);
-      res.status(500).json({ error: "Failed to delete payment method" });
-    }
-  });
 
-  /**
-   * @swagger
-   * /payments/{id}/default:
-   *   post:
-   *     tags: [Payments]
-   *     summary: Set default payment method
-   *     security:
-   *       - bearerAuth: []
-   */
-  app.post("/api/payments/:id/default", async (req, res) => {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    try {
-      const id = parseInt(req.params.id);
-      const existing = await storage.getSavedPaymentById(id);
-      if (!existing || existing.userId !== req.user.id) {
-        return res.status(404).json({ error: "Payment method not found" });
+      const wishlist = await getOwnWishlist(req, res);
+      if (!wishlist) return;
+
+      const item = await storage.getWishlistItemById(parseInt(req.params.itemId));
+      if (!item || item.wishlistId !== wishlist.id) {
+        return res.status(404).json({ error: "Wishlist item not found" });
       }
-      await storage.setDefaultPayment(req.user.id, id);
-      res.json({ success: true });
+
+      await storage.removeWishlistItem(item.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error setting default payment:", error);
-      res.status(500).json({ error: "Failed to set default payment method" });
+      console.error("Error removing wishlist item:", error);
+      res.status(500).json({ error: "Failed to remove wishlist item" });
     }
   });
 
-  // ===== VENDOR =====
-
   /**
    * @swagger
-   * /vendor/stats:
-   *   get:
-   *     tags: [Vendor]
-   *     summary: Get vendor statistics
+   * /wishlists/{id}/items/{itemId}/move-to-cart:
+   *   post:
+   *     tags: [Wishlists]
+   *     summary: Move wishlist item to cart
    *     description: |
-   *       Returns sales statistics for the vendor dashboard.
+   *       Adds the saved product to the cart (subject to MOQ and stock checks) and removes it from the list.
    *       
    *       ## Pages / Sections Used
-   *       - **Vendor Dashboard** (`/vendor`) - _Not yet implemented in frontend_
-   *         - Stats Overview - revenue, orders, products count
+   *       - **Wishlist Page** (`/account/wishlist`)
+   *         - "Move to Cart" button
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *       - in: path
+   *         name: itemId
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
    *       200:
-   *         description: Vendor stats
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 revenue: { type: number }
-   *                 orders: { type: integer }
-   *                 products: { type: integer }
+   *         description: Item moved to cart
+   *       400:
+   *         description: Below minimum order quantity
+   *       404:
+   *         description: Item not found
+   *       409:
+   *         description: Not enough stock
    */
-  app.get("/api/vendor/stats", async (req, res) => {
+  app.post("/api/wishlists/:id/items/:itemId/move-to-cart", async (req, res) => {
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
 
-      const stats = await storage.getVendorStats(req.user.id);
-      res.json(stats);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch vendor stats" });
-    }
-  });
+      const wishlist = await getOwnWishlist(req, res);
+      if (!wishlist) return;
 
-  /**
-   * @swagger
-   * /vendor/products:
-   *   get:
-   *     tags: [Vendor]
-   *     summary: Get vendor's products
-   *     description: |
-   *       Returns all products created by the authenticated vendor.
-   *       
-   *       ## Pages / Sections Used
-   *       - **Vendor Dashboard** (`/vendor/products`) - _Not yet implemented in frontend_
-   *         - Products Table - manage listings, inventory, pricing
-   *     security:
-   *       - bearerAuth: []
-   *     responses:
-   *       200:
-   *         description: List of vendor's products
-   */
-  app.get("/api/vendor/products", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const item = await storage.getWishlistItemById(parseInt(req.params.itemId));
+      if (!item || item.wishlistId !== wishlist.id) {
+        return res.status(404).json({ error: "Wishlist item not found" });
       }
 
-      const products = await storage.getProducts({ vendorId: req.user.id });
-      res.json(products);
+      const product = await storage.getProductById(item.productId);
+      const quantity = Math.max(item.quantity, product?.minOrderQuantity || 1);
+      const existing = (await storage.getCartByUserId(req.user.id))
+        .find(cartItem => cartItem.productId === item.productId && !cartItem.variantId);
+
+      const quantityError = await validateCartQuantity(item.productId, (existing?.quantity || 0) + quantity);
+      if (quantityError) {
+        return res.status(quantityError.status).json(quantityError.body);
+      }
+
+      const cartItem = await storage.addToCart({ userId: req.user.id, productId: item.productId, quantity } as InsertCartItem);
+      await storage.removeWishlistItem(item.id);
+
+      res.json(cartItem);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch vendor products" });
+      console.error("Error moving wishlist item to cart:", error);
+      res.status(500).json({ error: "Failed to move item to cart" });
     }
   });
 
-  // Create a new product (vendor)
-  app.post("/api/vendor/products", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
-      }
+  // ===== CHECKOUT (Stripe Integration) =====
 
-      const productData = {
-        ...req.body,
-        vendorId: req.user.id,
+  // Public origin for Stripe redirect URLs; never taken from request headers
+  function getBaseUrl(): string {
+    const baseUrl = getAppBaseUrl();
+    if (!baseUrl) {
+      throw new Error("APP_BASE_URL must be set to redirect to Stripe");
+    }
+    return baseUrl;
+  }
+
+  // Order amounts are in the base currency; Stripe charges and refunds them in the order's currency,
+  // counted in that currency's minor unit. Stripe only takes three-decimal amounts in whole tens.
+  function toStripeAmount(amount: string, order: Pick<Order, 'currency' | 'exchangeRate'>): number {
+    const converted = parseFloat(amount) * parseFloat(order.exchangeRate);
+    const decimals = currencyDecimals(order.currency);
+    return decimals === 3 ? Math.round(converted * 100) * 10 : Math.round(converted * 10 ** decimals);
+  }
+
+  // Opens a Stripe Checkout session for an order whose stock is already reserved; the session
+  // expires together with the reservations. Tax is charged as one line per rate on top of the
+  // item lines. Without Stripe credentials outside production the order is placed in test mode and
+  // the held stock is committed straight away; any other failure cancels the order, releasing its stock.
+  async function startOrderPayment(
+    req: Request,
+    order: Pick<Order, 'id' | 'currency' | 'exchangeRate'>,
+    expiresAt: Date,
+    lines: { product: Pick<Product, 'id' | 'name' | 'image' | 'sku'>; quantity: number; unitPrice: string }[],
+    options: { cancelPath: string; metadata?: Record<string, string>; taxLines?: TaxSummaryLine[] }
+  ): Promise<{ url: string | null; orderId: string } | { testMode: true; orderId: string; message: string } | { failed: true; orderId: string; error: string }> {
+    const { getUncachableStripeClient, StripeNotConfiguredError } = await import("./stripeClient");
+    try {
+      const stripe = await getUncachableStripeClient();
+
+      const lineItems = lines.map(line => ({
+        price_data: {
+          currency: order.currency.toLowerCase(),
+          product_data: {
+            name: line.product.name,
+            images: [line.product.image],
+            metadata: {
+              productId: line.product.id.toString(),
+              sku: line.product.sku,
+            },
+          },
+          unit_amount: toStripeAmount(line.unitPrice, order),
+        },
+        quantity: line.quantity,
+      }));
+      const taxLineItems = (options.taxLines || [])
+        .filter(taxLine => parseFloat(taxLine.amount) > 0)
+        .map(taxLine => ({
+          price_data: {
+            currency: order.currency.toLowerCase(),
+            product_data: { name: describeTaxLine(taxLine) },
+            unit_amount: toStripeAmount(taxLine.amount, order),
+          },
+          quantity: 1,
+        }));
+
+      const baseUrl = getBaseUrl();
+      const metadata = { ...options.metadata, userId: req.user!.id, orderId: order.id };
+
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: [...lineItems, ...taxLineItems],
+        mode: 'payment',
+        success_url: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}&order_id=${order.id}`,
+        cancel_url: `${baseUrl}${options.cancelPath}`,
+        customer_email: req.user!.email,
+        expires_at: Math.floor(expiresAt.getTime() / 1000),
+        metadata,
+        payment_intent_data: { metadata },
+      });
+
+      await storage.setOrderStripeSession(order.id, session.id);
+      return { url: session.url, orderId: order.id };
+    } catch (stripeError: any) {
+      if (!(stripeError instanceof StripeNotConfiguredError) || process.env.NODE_ENV === 'production') {
+        console.error(`Could not start payment for order ${order.id}:`, stripeError.message);
+        await storage.updateOrderStatus(order.id, 'cancelled', req.user!.id, 'Payment could not be started');
+        return { failed: true, orderId: order.id, error: "Payment could not be started. Please try again." };
+      }
+
+      console.log("Stripe not configured, using test mode:", stripeError.message);
+      // No payment step in test mode, so the held stock is treated as sold
+      await storage.commitStockReservations(order.id);
+      emitDomainEvent('order.created', { orderId: order.id });
+      return { 
+        testMode: true,
+        orderId: order.id,
+        message: "Order created successfully. Stripe is not configured - payments would work with valid Stripe credentials."
       };
-      
-      const validated = insertProductSchema.parse(productData);
-      const product = await storage.createProduct(validated);
-      res.status(201).json(product);
-    } catch (error) {
-      console.error("Error creating product:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid product data", details: error.errors });
-      }
-      res.status(500).json({ error: "Failed to create product" });
     }
-  });
+  }
 
-  // Update a product (vendor)
-  app.put("/api/vendor/products/:id", async (req, res) => {
+  // Refunds in full a payment that arrived for an order that was already paid. A refund Stripe
+  // refuses is logged; the order history already records the second payment for staff.
+  async function refundExtraPayment(orderId: string, paymentIntentId: string): Promise<void> {
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
-      }
+      const { getUncachableStripeClient } = await import("./stripeClient");
+      const stripe = await getUncachableStripeClient();
+      await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        reason: 'duplicate',
+        metadata: { orderId, extraPayment: 'true' },
+      }, { idempotencyKey: `extra-payment-${paymentIntentId}` });
+    } catch (stripeError: any) {
+      console.error(`Could not refund second payment ${paymentIntentId} for order ${orderId}:`, stripeError.message);
+    }
+  }
 
-      const productId = parseInt(req.params.id);
-      const existing = await storage.getProductById(productId);
-      
-      if (!existing) {
-        return res.status(404).json({ error: "Product not found" });
+  // Expires a checkout session that a newer one has replaced, so the buyer cannot pay both. A session
+  // Stripe will not expire is logged; a payment made through it is refunded when its webhook arrives.
+  async function expireCheckoutSession(orderId: string, sessionId: string): Promise<void> {
+    try {
+      const { getUncachableStripeClient } = await import("./stripeClient");
+      const stripe = await getUncachableStripeClient();
+      await stripe.checkout.sessions.expire(sessionId);
+    } catch (stripeError: any) {
+      console.error(`Could not expire checkout session ${sessionId} for order ${orderId}:`, stripeError.message);
+    }
+  }
+
+  // Charges a saved card with the buyer away from the payment page. Declines and cards that need the
+  // buyer to authenticate come back as an error so the caller can fall back to the hosted page; a
+  // charge still processing settles through its webhook and must not be paid for twice.
+  async function chargeSavedPaymentMethod(
+    order: Pick<Order, 'id' | 'userId' | 'total' | 'currency' | 'exchangeRate'>,
+    method: SavedPaymentMethod
+  ): Promise<{ paid: true } | { paid: false; processing: true } | { paid: false; error: string }> {
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      const { getUncachableStripeClient } = await import("./stripeClient");
+      const stripe = await getUncachableStripeClient();
+      paymentIntent = await stripe.paymentIntents.create({
+        amount: toStripeAmount(order.total, order),
+        currency: order.currency.toLowerCase(),
+        customer: await getStripeCustomerId(stripe, order.userId),
+        payment_method: method.processorToken,
+        off_session: true,
+        confirm: true,
+        metadata: { userId: order.userId, orderId: order.id, offSession: 'true' },
+      }, { idempotencyKey: `order-${order.id}-off-session` });
+    } catch (stripeError: any) {
+      console.log(`Saved card charge for order ${order.id} failed:`, stripeError.message);
+      return { paid: false, error: stripeError.message || "The saved card could not be charged" };
+    }
+    if (paymentIntent.status === 'processing') {
+      return { paid: false, processing: true };
+    }
+    if (paymentIntent.status !== 'succeeded') {
+      return { paid: false, error: `The saved card could not be charged (${paymentIntent.status})` };
+    }
+
+    // Applied here rather than waiting for the webhook, which then finds the order already paid
+    const result = await storage.applyStripePaymentEvent(
+      { id: `off_session_${paymentIntent.id}`, type: 'payment_intent.succeeded' },
+      order.id,
+      {
+        paymentStatus: 'paid',
+        status: 'processing',
+        paymentIntentId: paymentIntent.id,
+        note: `Paid with saved ${method.cardBrand || 'card'} ending ${method.lastFourDigits}`,
+      }
+    );
+    if (result.extraPaymentIntentId) {
+      await refundExtraPayment(order.id, result.extraPaymentIntentId);
+    } else if (!result.duplicate) {
+      emitDomainEvent('order.created', { orderId: order.id });
+    }
+    return { paid: true };
+  }
+
+  // Confirms a reserved order on the buyer's credit account and issues its invoice. At checkout an
+  // order that cannot be placed is cancelled so its stock goes back; a held order is left pending.
+  async function placeOrderOnCredit(
+    orderId: string,
+    options?: { cancelOnFailure: true; userId: string }
+  ): Promise<{ status: number; body: Record<string, unknown> }> {
+    const result = await storage.placeOrderOnCredit(orderId);
+    if ('error' in result) {
+      if (options?.cancelOnFailure) {
+        await storage.updateOrderStatus(orderId, 'cancelled', options.userId, 'Could not be placed on the credit account');
       }
-      
-      if (existing.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Not authorized to edit this product" });
+      if (result.error === 'credit_limit_exceeded') {
+        return {
+          status: 409,
+          body: { ...result, error: `This order would take your balance over your credit limit of AED ${result.creditLimit}`, code: result.error },
+        };
       }
+      if (result.error === 'no_credit_account') {
+        return { status: 403, body: { error: "Paying by invoice needs an approved credit account", code: 'credit_account_required' } };
+      }
+      return { status: 409, body: { error: "This order is not awaiting payment" } };
+    }
 
-      const product = await storage.updateProduct(productId, req.body);
-      res.json(product);
-    } catch (error) {
-      console.error("Error updating product:", error);
-      res.status(500).json({ error: "Failed to update product" });
+    emitDomainEvent('order.created', { orderId });
+    emitDomainEvent('invoice.issued', { invoiceId: result.invoice.id });
+    return { status: 200, body: { invoiced: true, orderId, invoice: result.invoice } };
+  }
+
+  // Marks invoices past their due date overdue and sends the dunning reminders that are due
+  async function runInvoiceDunning(): Promise<void> {
+    await storage.markOverdueInvoices();
+    const leadSetting = await storage.getPlatformSetting('invoice_reminder_lead_days');
+    const repeatSetting = await storage.getPlatformSetting('invoice_reminder_repeat_days');
+    const leadDays = parseInt(leadSetting?.value || '3') || 3;
+    const repeatDays = Math.max(parseInt(repeatSetting?.value || '7') || 7, 1);
+
+    const due = await storage.getInvoicesDueForReminder(leadDays, repeatDays);
+    for (const invoice of due) {
+      await storage.markInvoiceReminded(invoice.id);
+      emitDomainEvent('invoice.reminder', { invoiceId: invoice.id, stage: invoice.status === 'overdue' ? 'overdue' : 'due_soon' });
     }
-  });
+  }
 
-  // Delete a product (vendor)
-  app.delete("/api/vendor/products/:id", async (req, res) => {
+  /**
+   * @swagger
+   * /checkout/create-session:
+   *   post:
+   *     tags: [Checkout]
+   *     summary: Create Stripe checkout session
+   *     description: |
+   *       Creates a Stripe checkout session for payment processing.
+   *       Returns checkout URL for Stripe-hosted checkout, or test mode indicator if Stripe is not configured.
+   *       
+   *       Stock for every cart line is reserved when the order is created and held for
+   *       `stock_reservation_ttl_minutes` (platform setting, default and minimum 30). The Stripe session
+   *       expires at the same time. Reservations are committed when payment succeeds and released
+   *       when the session expires or the order is cancelled.
+   *       
+   *       Carts with export-controlled items (a `controlledItemType` or `requiresExportLicense`) need a
+   *       shipping `addressId` and a `complianceDocumentId` (end-user certificate, or an export licence
+   *       when a product requires one). The checkout is screened against the restricted-country rules,
+   *       the sellers' declared sanctions status and licences, and the denied-party list. Blocked
+   *       checkouts create no order. Checkouts needing review create the order without a payment
+   *       session, hold its stock for `compliance_hold_hours` (platform setting, default 72) and return
+   *       202; the buyer pays through `/orders/{orderId}/pay` once an admin approves it.
+   *       
+   *       With `savedPaymentMethodId` or `useDefaultPaymentMethod`, the saved card is charged off-session
+   *       and the response is `{ paid: true, orderId }`. If the card is declined or needs the buyer to
+   *       authenticate, a Checkout session is opened for the same order and `savedMethodError` says why.
+   *       A charge Stripe is still processing returns 202 with `{ processing: true, orderId }` and settles
+   *       through the webhook; no Checkout session is opened for it.
+   *       
+   *       With `paymentMethod: invoice` and a `poNumber`, buyers with an approved credit account are
+   *       invoiced on their NET terms instead of paying now; the response is `{ invoiced: true, orderId, invoice }`.
+   *       Orders that would take the outstanding balance over the credit limit are refused.
+   *       
+   *       Tax is added on top of the item prices as quoted by `/cart/totals` for the same address, and
+   *       charged at Stripe as one line per tax rate. Without an address the buyer's profile country is used.
+   *       
+   *       Cart lines are converted from each product's currency to the base currency (AED), in which
+   *       the order is kept. With `currency`, the buyer is charged in that currency instead; the order
+   *       records the `currency` and the `exchangeRate` (units per AED) used. Lines priced in a currency
+   *       with no exchange rate on file cannot be checked out (`code: fx_rate_unavailable`).
+   *       
+   *       ## Pages / Sections Used
+   *       - **Cart Page** (`/cart`)
+   *         - "Proceed to Checkout" button - initiates Stripe checkout flow
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               addressId: { type: integer, description: "Shipping address; required for export-controlled items" }
+   *               complianceDocumentId: { type: string, description: "End-user certificate or export licence; required for export-controlled items" }
+   *               savedPaymentMethodId: { type: integer, description: "Saved card to charge off-session" }
+   *               useDefaultPaymentMethod: { type: boolean, description: "Charge the default saved card off-session" }
+   *               paymentMethod: { type: string, enum: [card, invoice], default: card }
+   *               poNumber: { type: string, description: "Purchase order number; required with paymentMethod invoice" }
+   *               currency: { type: string, example: USD, description: "Currency to charge in; defaults to AED. Invoice payments are always in AED" }
+   *     responses:
+   *       200:
+   *         description: Paid with a saved card, checkout session URL, or test mode indicator
+   *       202:
+   *         description: |
+   *           Order held for export compliance review (`held: true`); no payment is taken yet. Or the saved
+   *           card charge is still processing (`processing: true`)
+   *       400:
+   *         description: |
+   *           Cart is empty, a line is below its minimum order quantity, or compliance inputs are missing
+   *           (`code: shipping_address_required | compliance_document_required | compliance_document_expired | export_license_required`),
+   *           no default card is saved (`code: no_default_payment_method`), the PO number is missing (`code: po_number_required`),
+   *           or the currency has no exchange rate (`code: unsupported_currency`)
+   *       403:
+   *         description: |
+   *           Export restrictions prevent the order (`code: compliance_blocked`), or paying by invoice without an
+   *           approved credit account (`code: credit_account_required`)
+   *       409:
+   *         description: |
+   *           Not enough stock to reserve for a cart line (`code: insufficient_stock`), the order is over the
+   *           available credit (`code: credit_limit_exceeded`), or a line cannot be converted (`code: fx_rate_unavailable`)
+   *       502:
+   *         description: Stripe could not start the payment; the order is cancelled and its stock released
+   */
+  app.post("/api/checkout/create-session", async (req, res) => {
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
 
-      const productId = parseInt(req.params.id);
-      const deleted = await storage.deleteProduct(productId, req.user.id);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: "Product not found or not authorized" });
+      // Get cart items
+      const cartItems = await storage.getCartByUserId(req.user.id);
+      if (!cartItems || cartItems.length === 0) {
+        return res.status(400).json({ error: "Cart is empty" });
       }
 
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Error deleting product:", error);
-      res.status(500).json({ error: "Failed to delete product" });
-    }
-  });
-
-  // Get vendor orders
-  app.get("/api/vendor/orders", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      // Re-check MOQ against the current cart before holding any stock
+      for (const item of cartItems) {
+        const minOrderQuantity = item.product.minOrderQuantity || 1;
+        if (item.quantity < minOrderQuantity) {
+          return res.status(400).json({
+            error: `Minimum order quantity for ${item.product.name} is ${minOrderQuantity}`,
+            code: 'below_min_order_quantity',
+            productId: item.product.id,
+            minOrderQuantity,
+          });
+        }
       }
 
-      const orders = await storage.getVendorOrders(req.user.id);
-      res.json(orders);
-    } catch (error) {
-      console.error("Error fetching vendor orders:", error);
-      res.status(500).json({ error: "Failed to fetch vendor orders" });
-    }
-  });
+      const { addressId, complianceDocumentId, savedPaymentMethodId, useDefaultPaymentMethod, paymentMethod } = req.body || {};
 
-  // Update order status (vendor)
-  app.patch("/api/vendor/orders/:id/status", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      // Every line must convert to the base currency, and the buyer is charged in a currency with a rate on file
+      const unpriced = cartItems.find(item => item.pricing.exchangeRate === null);
+      if (unpriced) {
+        return res.status(409).json({
+          error: `${unpriced.product.name} is priced in ${unpriced.pricing.currency}, which has no exchange rate on file`,
+          code: 'fx_rate_unavailable',
+          productId: unpriced.product.id,
+        });
+      }
+      // Credit accounts and their invoices are kept in the base currency
+      const chargeCurrency = typeof req.body?.currency === 'string' && paymentMethod !== 'invoice' ? req.body.currency.toUpperCase() : BASE_CURRENCY;
+      const { rates } = await storage.getFxRateTable();
+      const exchangeRate = convertCurrency(1, BASE_CURRENCY, chargeCurrency, rates);
+      if (exchangeRate === null) {
+        return res.status(400).json({ error: `Payments in ${chargeCurrency} are not available`, code: 'unsupported_currency' });
+      }
+
+      // Paying by invoice needs an approved credit account and the buyer's purchase order number
+      const payByInvoice = paymentMethod === 'invoice';
+      const poNumber = payByInvoice && typeof req.body.poNumber === 'string' ? req.body.poNumber.trim() : '';
+      const creditAccount = payByInvoice ? await storage.getCreditAccountByUserId(req.user.id) : undefined;
+      if (payByInvoice) {
+        if (!poNumber || poNumber.length > 100) {
+          return res.status(400).json({ error: "A purchase order number is required to pay by invoice", code: 'po_number_required' });
+        }
+        if (creditAccount?.status !== 'approved') {
+          return res.status(403).json({ error: "Paying by invoice needs an approved credit account", code: 'credit_account_required' });
+        }
       }
 
-      const { status, note } = req.body;
-      const validStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
-      
-      if (!status || !validStatuses.includes(status)) {
-        return res.status(400).json({ error: "Invalid status" });
+      let savedMethod: SavedPaymentMethod | undefined;
+      if (typeof savedPaymentMethodId === 'number') {
+        savedMethod = await storage.getSavedPaymentById(savedPaymentMethodId);
+        if (!savedMethod || savedMethod.userId !== req.user.id || !savedMethod.isActive) {
+          return res.status(404).json({ error: "Payment method not found" });
+        }
+      } else if (useDefaultPaymentMethod === true) {
+        savedMethod = await storage.getDefaultSavedPayment(req.user.id);
+        if (!savedMethod) {
+          return res.status(400).json({ error: "No default payment method is saved", code: 'no_default_payment_method' });
+        }
+      }
+      // Methods saved before SetupIntents only hold a client-supplied token
+      if (savedMethod && (savedMethod.processorName !== 'stripe' || !savedMethod.processorToken.startsWith('pm_'))) {
+        return res.status(400).json({ error: "This payment method can no longer be charged; please add the card again" });
       }
 
-      const order = await storage.updateOrderStatus(req.params.id, status, req.user.id, note);
-      
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      // Export-controlled items are screened before any stock is held
+      const controlledLines = cartItems.filter(item => isControlledProduct(item.product));
+      let shippingAddress: Address | undefined;
+      let screening: (ComplianceScreening & { document: ComplianceDocument }) | undefined;
+      if (controlledLines.length > 0) {
+        const inputs = await resolveComplianceInputs(req.user.id, controlledLines, { addressId, complianceDocumentId });
+        if ('error' in inputs) {
+          return res.status(400).json(inputs);
+        }
+        shippingAddress = inputs.address;
+        const result = await screenControlledCheckout({ buyer: req.user, lines: controlledLines, ...inputs });
+        if (result.decision === 'blocked') {
+          await storage.addComplianceAuditEntry({
+            userId: req.user.id,
+            decision: 'blocked',
+            reasons: result.reasons,
+            shippingCountry: inputs.address.country,
+            documentId: inputs.document.id,
+          });
+          return res.status(403).json({
+            error: "This order cannot be placed because export restrictions apply to items in your cart",
+            code: 'compliance_blocked',
+          });
+        }
+        screening = { ...result, document: inputs.document };
+      } else if (typeof addressId === 'number') {
+        shippingAddress = await storage.getAddressById(addressId);
+        if (!shippingAddress || shippingAddress.userId !== req.user.id) {
+          return res.status(404).json({ error: "Address not found" });
+        }
       }
 
-      res.json(order);
-    } catch (error) {
-      console.error("Error updating order status:", error);
-      res.status(500).json({ error: "Failed to update order status" });
-    }
-  });
+      // Order total is the volume tier price for each line plus tax for the shipping destination
+      const tax = await calculateTax({
+        buyerId: req.user.id,
+        destinationCountry: shippingAddress?.country,
+        lines: cartItems.map(item => ({ product: item.product, amount: parseFloat(item.pricing.lineTotal) })),
+      });
+      const total = parseFloat(tax.total);
+
+      if (creditAccount && total > parseFloat(creditAccount.available)) {
+        return res.status(409).json({
+          error: `This order would take your balance over your credit limit of AED ${creditAccount.creditLimit}`,
+          code: 'credit_limit_exceeded',
+          creditLimit: creditAccount.creditLimit,
+          outstanding: creditAccount.outstanding,
+          orderTotal: total.toFixed(2),
+        });
+      }
 
-  // Get order status history
-  app.get("/api/vendor/orders/:id/history", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      // Variant lines show the variant's own image when it has one, and its name and SKU at Stripe
+      const lines = await Promise.all(cartItems.map(async item => {
+        const media = item.variant?.mediaId ? await storage.getProductMediaById(item.variant.mediaId) : undefined;
+        return {
+          item,
+          variantName: item.variant ? describeVariant(item.variant) : null,
+          image: media?.url || item.product.image,
+        };
+      }));
+
+      // Create order items from cart
+      const orderItems = lines.map(({ item, variantName, image }, index) => ({
+        productId: item.product.id,
+        variantId: item.variant?.id ?? null,
+        variantName,
+        vendorId: item.product.vendorId,
+        name: item.product.name,
+        image,
+        price: item.pricing.unitPrice,
+        quantity: item.quantity,
+        ...tax.lines[index],
+      }));
+
+      // Stripe Checkout sessions cannot expire sooner than 30 minutes; held orders keep their
+      // stock for the length of a compliance review instead
+      const ttlSetting = await storage.getPlatformSetting('stock_reservation_ttl_minutes');
+      const holdSetting = await storage.getPlatformSetting('compliance_hold_hours');
+      const ttlMinutes = screening?.decision === 'held'
+        ? (parseInt(holdSetting?.value || '72') || 72) * 60
+        : Math.max(parseInt(ttlSetting?.value || '30') || 30, 30);
+
+      // Create the order and reserve stock for it
+      const reservation = await storage.createOrderWithReservations(
+        {
+          userId: req.user.id,
+          status: 'pending',
+          subtotal: tax.subtotal,
+          taxAmount: tax.tax,
+          taxNote: tax.taxNote,
+          total: tax.total,
+          currency: chargeCurrency,
+          exchangeRate: exchangeRate.toFixed(8),
+          trackingNumber: `TRK${Date.now().toString(36).toUpperCase()}`,
+          estimatedDelivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+          shippingAddressId: shippingAddress?.id ?? null,
+          shippingCountry: shippingAddress?.country ?? null,
+          paymentMethod: payByInvoice ? 'invoice' : 'card',
+          poNumber: payByInvoice ? poNumber : null,
+        },
+        orderItems,
+        ttlMinutes
+      );
+
+      if ('shortage' in reservation) {
+        const { productId, variantId } = reservation.shortage;
+        const line = orderItems.find(i => i.productId === productId && i.variantId === variantId);
+        const name = line ? (line.variantName ? `${line.name} (${line.variantName})` : line.name) : 'a product in your cart';
+        return res.status(409).json({
+          error: `Only ${reservation.shortage.available} units of ${name} are available`,
+          code: 'insufficient_stock',
+          ...reservation.shortage,
+        });
       }
 
-      const history = await storage.getOrderStatusHistory(req.params.id);
-      res.json(history);
-    } catch (error) {
-      console.error("Error fetching order history:", error);
-      res.status(500).json({ error: "Failed to fetch order history" });
-    }
-  });
+      if (screening) {
+        const held = screening.decision === 'held';
+        const review = held
+          ? await storage.createComplianceReview({
+              orderId: reservation.order.id,
+              userId: req.user.id,
+              documentId: screening.document.id,
+              shippingCountry: shippingAddress!.country,
+              reasons: screening.reasons,
+              matchedParties: screening.matchedParties,
+            })
+          : undefined;
+        await storage.addComplianceAuditEntry({
+          userId: req.user.id,
+          orderId: reservation.order.id,
+          reviewId: review?.id,
+          decision: screening.decision,
+          reasons: screening.reasons,
+          shippingCountry: shippingAddress!.country,
+          documentId: screening.document.id,
+        });
 
-  // Get vendor customers
-  app.get("/api/vendor/customers", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+        // Screening details stay with the compliance team; the buyer only learns the order is under review
+        if (review) {
+          await storage.clearCart(req.user.id);
+          emitDomainEvent('compliance.held', { orderId: reservation.order.id, reviewId: review.id });
+          return res.status(202).json({
+            held: true,
+            orderId: reservation.order.id,
+            message: "Your order contains export-controlled items and has been sent for compliance review. You can pay once it is approved.",
+          });
+        }
       }
 
-      const customers = await storage.getVendorCustomers(req.user.id);
-      res.json(customers);
-    } catch (error) {
-      console.error("Error fetching vendor customers:", error);
-      res.status(500).json({ error: "Failed to fetch vendor customers" });
-    }
-  });
+      if (payByInvoice) {
+        const placed = await placeOrderOnCredit(reservation.order.id, { cancelOnFailure: true, userId: req.user.id });
+        if (placed.status === 200) {
+          await storage.clearCart(req.user.id);
+        }
+        return res.status(placed.status).json(placed.body);
+      }
 
-  // Get vendor analytics
-  app.get("/api/vendor/analytics", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      // A declined saved card, or one needing the buyer to authenticate, falls back to the hosted page
+      let savedMethodError: string | undefined;
+      if (savedMethod) {
+        const charge = await chargeSavedPaymentMethod(reservation.order, savedMethod);
+        if (charge.paid) {
+          await storage.clearCart(req.user.id);
+          return res.json({ paid: true, orderId: reservation.order.id });
+        }
+        if ('processing' in charge) {
+          await storage.clearCart(req.user.id);
+          return res.status(202).json({ paid: false, processing: true, orderId: reservation.order.id });
+        }
+        savedMethodError = charge.error;
       }
 
-      const analytics = await storage.getVendorAnalytics(req.user.id);
-      res.json(analytics);
+      const payment = await startOrderPayment(
+        req,
+        reservation.order,
+        reservation.expiresAt,
+        lines.map(({ item, variantName, image }) => ({
+          product: item.variant
+            ? { ...item.product, name: `${item.product.name} (${variantName})`, image, sku: item.variant.sku }
+            : item.product,
+          quantity: item.quantity,
+          unitPrice: item.pricing.unitPrice,
+        })),
+        { cancelPath: '/cart', taxLines: tax.taxLines }
+      );
+      if ('failed' in payment) {
+        return res.status(502).json({ error: payment.error, orderId: payment.orderId });
+      }
+
+      // Cart is cleared by the checkout.session.completed webhook once payment succeeds;
+      // in test mode the order is already final
+      if ('testMode' in payment) {
+        await storage.clearCart(req.user.id);
+      }
+      res.json(savedMethodError ? { ...payment, savedMethodError } : payment);
     } catch (error) {
-      console.error("Error fetching vendor analytics:", error);
-      res.status(500).json({ error: "Failed to fetch vendor analytics" });
+      console.error("Checkout error:", error);
+      res.status(500).json({ error: "Failed to create checkout session" });
     }
   });
 
-  // ===== VENDOR PANEL EXTENDED APIs =====
-
   /**
    * @swagger
-   * /vendor/financials:
-   *   get:
-   *     tags: [Vendor Panel]
-   *     summary: Get vendor financial summary
-   *     description: Returns earnings, commissions, and payout information
-   *     security:
-   *       - bearerAuth: []
+   * /webhooks/stripe:
+   *   post:
+   *     tags: [Checkout]
+   *     summary: Stripe webhook receiver
+   *     description: |
+   *       Receives Stripe events and drives the payment state of orders created by `/checkout/create-session`.
+   *       Requests must carry a valid `Stripe-Signature` header signed with `STRIPE_WEBHOOK_SECRET`.
+   *       Each Stripe event ID is processed at most once; replays return `duplicate: true`.
+   *       
+   *       Handled events:
+   *       - `checkout.session.completed` - marks the order paid, moves it to `processing` and clears the buyer's cart
+   *       - `checkout.session.expired` - marks the order unpaid and `cancelled`
+   *       
+   *       Session events only apply to the order's current checkout session. After the buyer retries
+   *       payment, an older session expiring is ignored and a payment made through it is refunded.
+   *       - `payment_intent.succeeded` - for saved-card charges (`metadata.offSession`), marks the order paid if checkout has not already done so
+   *       - `payment_intent.payment_failed` - marks the payment failed (the order stays `pending` until the session expires, so the buyer can retry)
+   *       - `refund.updated` / `refund.failed` - completes an approved refund (restock and commission reversal) or schedules a retry
+   *       
+   *       For local testing, when `STRIPE_WEBHOOK_SECRET` is not set and `NODE_ENV` is not `production`,
+   *       an unsigned JSON event payload (e.g. `{ "id": "evt_test_1", "type": "checkout.session.completed", "data": { "object": { "id": "cs_test", "payment_status": "paid", "metadata": { "orderId": "..." } } } }`) is accepted.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             description: Stripe event object
    *     responses:
    *       200:
-   *         description: Financial summary
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
+   *         description: Event received
+   *       400:
+   *         description: Missing or invalid signature
+   */
+  app.post("/api/webhooks/stripe", async (req, res) => {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    let event: Stripe.Event;
+
+    if (webhookSecret) {
+      const signature = req.headers['stripe-signature'];
+      if (!signature || !Buffer.isBuffer(req.rawBody)) {
+        return res.status(400).json({ error: "Missing Stripe signature" });
+      }
+      try {
+        event = Stripe.webhooks.constructEvent(req.rawBody, signature, webhookSecret);
+      } catch (err: any) {
+        console.error("Stripe webhook signature verification failed:", err.message);
+        return res.status(400).json({ error: "Invalid Stripe signature" });
+      }
+    } else if (process.env.NODE_ENV !== 'production') {
+      console.warn("STRIPE_WEBHOOK_SECRET not set - accepting unsigned webhook payload (development only)");
+      event = req.body as Stripe.Event;
+      if (!event?.id || !event?.type || !event?.data?.object) {
+        return res.status(400).json({ error: "Invalid event payload" });
+      }
+    } else {
+      console.error("STRIPE_WEBHOOK_SECRET is not configured");
+      return res.status(500).json({ error: "Webhook not configured" });
+    }
+
+    try {
+      if (event.type === 'refund.updated' || event.type === 'refund.failed') {
+        const stripeRefund = event.data.object as Stripe.Refund;
+        const refund = stripeRefund.metadata?.refundId
+          ? await storage.getRefundById(stripeRefund.metadata.refundId)
+          : await storage.getRefundByStripeRefundId(stripeRefund.id);
+        // Events for an earlier, superseded attempt are recorded but not applied
+        const current = refund && (!refund.stripeRefundId || refund.stripeRefundId === stripeRefund.id) ? refund : undefined;
+
+        let outcome: Parameters<typeof storage.applyStripeRefundEvent>[2] = null;
+        if (stripeRefund.status === 'succeeded') {
+          outcome = { status: 'completed' };
+        } else if (stripeRefund.status === 'failed' || stripeRefund.status === 'canceled') {
+          outcome = { status: 'failed', reason: stripeRefund.failure_reason || `Stripe refund ${stripeRefund.status}` };
+        }
+
+        const result = await storage.applyStripeRefundEvent({ id: event.id, type: event.type }, current?.id || null, outcome);
+        const settledStatus = result.refund?.requestStatus;
+        if (!result.duplicate && current && settledStatus !== current.requestStatus && (settledStatus === 'completed' || settledStatus === 'failed')) {
+          emitDomainEvent('refund.status_changed', { refundId: current.id, status: settledStatus });
+        }
+        return res.json({ received: true, duplicate: result.duplicate });
+      }
+
+      let orderId: string | null = null;
+      let change: Parameters<typeof storage.applyStripePaymentEvent>[2] = null;
+
+      switch (event.type) {
+        case 'checkout.session.completed': {
+          const session = event.data.object as Stripe.Checkout.Session;
+          orderId = session.metadata?.orderId || null;
+          if (session.payment_status === 'paid') {
+            change = {
+              paymentStatus: 'paid',
+              status: 'processing',
+              paymentIntentId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id,
+              checkoutSessionId: session.id,
+              note: `Payment received via Stripe (session ${session.id})`,
+            };
+          }
+          break;
+        }
+        case 'checkout.session.expired': {
+          const session = event.data.object as Stripe.Checkout.Session;
+          orderId = session.metadata?.orderId || null;
+          change = {
+            paymentStatus: 'unpaid',
+            status: 'cancelled',
+            checkoutSessionId: session.id,
+            note: `Checkout session expired without payment (session ${session.id})`,
+          };
+          break;
+        }
+        case 'payment_intent.succeeded': {
+          // Checkout sessions settle through checkout.session.completed; only saved-card charges land here
+          const paymentIntent = event.data.object as Stripe.PaymentIntent;
+          if (paymentIntent.metadata?.offSession === 'true') {
+            orderId = paymentIntent.metadata.orderId || null;
+            change = {
+              paymentStatus: 'paid',
+              status: 'processing',
+              paymentIntentId: paymentIntent.id,
+              note: `Payment received via Stripe with a saved card (${paymentIntent.id})`,
+            };
+          }
+          break;
+        }
+        case 'payment_intent.payment_failed': {
+          const paymentIntent = event.data.object as Stripe.PaymentIntent;
+          orderId = paymentIntent.metadata?.orderId || null;
+          if (!orderId) {
+            const order = await storage.getOrderByStripePaymentIntentId(paymentIntent.id);
+            orderId = order?.id || null;
+          }
+          change = {
+            paymentStatus: 'failed',
+            paymentIntentId: paymentIntent.id,
+            note: `Payment failed: ${paymentIntent.last_payment_error?.message || 'unknown reason'}`,
+          };
+          break;
+        }
+        default:
+          // Unhandled event types are still recorded so they are acknowledged once
+          break;
+      }
+
+      if (orderId && !(await storage.getOrderById(orderId))) {
+        console.warn(`Stripe webhook ${event.id}: order ${orderId} not found`);
+        orderId = null;
+      }
+
+      const result = await storage.applyStripePaymentEvent({ id: event.id, type: event.type }, orderId, change);
+      if (result.extraPaymentIntentId) {
+        await refundExtraPayment(result.order!.id, result.extraPaymentIntentId);
+        return res.json({ received: true, duplicate: false });
+      }
+
+      // Orders placed from an accepted RFQ quote did not come from the cart
+      const fromRfq = !!(event.data.object as Stripe.Checkout.Session).metadata?.rfqId;
+      if (!result.duplicate && result.order && event.type === 'checkout.session.completed' && result.order.paymentStatus === 'paid' && !fromRfq) {
+        await storage.clearCart(result.order.userId);
+      }
+      if (!result.duplicate && result.order && change?.paymentStatus === 'paid') {
+        emitDomainEvent('order.created', { orderId: result.order.id });
+      }
+
+      res.json({ received: true, duplicate: result.duplicate });
+    } catch (error) {
+      console.error("Error processing Stripe webhook:", error);
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  });
+
+  // ===== ORDERS =====
+
+  /**
+   * @swagger
+   * /orders:
+   *   get:
+   *     tags: [Orders]
+   *     summary: Get user's orders
+   *     description: |
+   *       Returns a list of all orders placed by the authenticated user.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Profile Page** (`/account/profile`)
+   *         - Orders Tab - order history list with status badges
+   *         - Recent Orders Section - last 3 orders summary
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of orders
+   */
+  app.get("/api/orders", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const orders = await storage.getOrdersByUserId(req.user.id);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /orders/{id}:
+   *   get:
+   *     tags: [Orders]
+   *     summary: Get order by ID
+   *     description: |
+   *       Returns detailed information about a specific order.
+   *       Orders spanning several vendors include one entry per vendor in `shipments`, each with its own status and tracking number.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Order Details Page** (`/orders/:id`) - _Not yet implemented in frontend_
+   *         - Order Summary - items, totals, shipping info
+   *         - Order Status - tracking information
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Order details
+   */
+  app.get("/api/orders/:id", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const order = await storage.getOrderById(req.params.id);
+      
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (order.userId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /orders:
+   *   post:
+   *     tags: [Orders]
+   *     summary: Create order (checkout)
+   *     description: |
+   *       Creates a new order from cart items after payment.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Checkout Success Page** (`/checkout/success`)
+   *         - Order Confirmation - creates order after successful Stripe payment
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [items]
+   *             properties:
+   *               items:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     productId: { type: integer }
+   *                     name: { type: string }
+   *                     image: { type: string }
+   *                     price: { type: string }
+   *                     quantity: { type: integer }
+   *     responses:
+   *       201:
+   *         description: Order created
+   */
+  app.post("/api/orders", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { items } = req.body;
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "Order must contain at least one item" });
+      }
+
+      const total = items.reduce((sum: number, item: any) => {
+        return sum + (parseFloat(item.price) * item.quantity);
+      }, 0);
+
+      const orderData = insertOrderSchema.parse({
+        userId: req.user.id,
+        status: 'pending',
+        total: total.toString(),
+      });
+
+      const validatedItems = items.map((item: any) => 
+        insertOrderItemSchema.parse(item)
+      );
+
+      const order = await storage.createOrder(orderData, validatedItems);
+
+      await storage.clearCart(req.user.id);
+
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating order:", error);
+      res.status(500).json({ error: "Failed to create order" });
+    }
+  });
+
+  // ===== RFQ (Request for Quotation) =====
+
+  const rfqRequestSchema = z.object({
+    items: z.array(z.object({
+      productId: z.number().int(),
+      variantId: z.number().int().optional(),
+      quantity: z.number().int().min(1),
+      notes: z.string().max(1000).optional(),
+    })).min(1).max(100),
+    deliveryTerms: z.string().max(100).optional(),
+    deliveryCountry: z.string().max(100).optional(),
+    targetDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "targetDate must be YYYY-MM-DD").optional(),
+    notes: z.string().max(5000).optional(),
+  });
+
+  /**
+   * @swagger
+   * /rfqs:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Request a quotation
+   *     description: |
+   *       Sends a quote request for one product or a multi-line basket. Lines from different vendors
+   *       are split into one RFQ per vendor, and each vendor is notified (`rfq_new`).
+   *       
+   *       ## Pages / Sections Used
+   *       - **Product Details Page** (`/products/:id`)
+   *         - "Request a Quote" form
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [items]
+   *             properties:
+   *               items:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [productId, quantity]
+   *                   properties:
+   *                     productId: { type: integer }
+   *                     variantId: { type: integer, description: "Required for products sold in variants" }
+   *                     quantity: { type: integer, minimum: 1 }
+   *                     notes: { type: string }
+   *               deliveryTerms: { type: string, example: "DAP Abu Dhabi" }
+   *               deliveryCountry: { type: string }
+   *               targetDate: { type: string, format: date }
+   *               notes: { type: string }
+   *     responses:
+   *       201:
+   *         description: The created RFQs, one per vendor
+   *       400:
+   *         description: Invalid request, a product is not available for quotation, or a variant is missing
+   */
+  app.post("/api/rfqs", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const data = rfqRequestSchema.parse(req.body);
+
+      const lines = [];
+      for (const item of data.items) {
+        const product = await storage.getProductById(item.productId);
+        if (!product || product.status !== 'approved') {
+          return res.status(400).json({ error: `Product ${item.productId} is not available for quotation` });
+        }
+        if (product.vendorId === req.user.id) {
+          return res.status(400).json({ error: "You cannot request a quote for your own product" });
+        }
+
+        // Stock is held per variant, so products sold in variants are quoted per variant
+        const variants = await storage.getProductVariants(product.id, true);
+        const variant = variants.find(v => v.id === item.variantId);
+        if (variants.length > 0 && !variant) {
+          return res.status(400).json({ error: `Select a variant of ${product.name} to request a quote` });
+        }
+        if (variants.length === 0 && item.variantId !== undefined) {
+          return res.status(400).json({ error: `${product.name} is not sold in variants` });
+        }
+        lines.push({
+          ...item,
+          variantId: variant?.id ?? null,
+          vendorId: product.vendorId,
+          productName: variant ? `${product.name} (${describeVariant(variant)})` : product.name,
+        });
+      }
+
+      const created = await storage.createRfqs(req.user.id, data, lines);
+
+      for (const rfq of created) {
+        const names = lines.filter(line => line.vendorId === rfq.vendorId).map(line => line.productName);
+        await storage.createNotification({
+          userId: rfq.vendorId,
+          type: 'rfq_new',
+          title: 'New quote request',
+          message: `${req.user.name} requested a quote for ${names.join(', ')}`,
+          productId: lines.find(line => line.vendorId === rfq.vendorId)?.productId,
+        });
+        publishNotificationCount(rfq.vendorId).catch(error => console.error("Error sending notification count:", error));
+      }
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating RFQ:", error);
+      res.status(500).json({ error: "Failed to create quote request" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /rfqs:
+   *   get:
+   *     tags: [RFQ]
+   *     summary: List my quote requests
+   *     description: Returns the buyer's RFQs with their lines and every quote received.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [open, quoted, accepted, declined, cancelled, expired]
+   *     responses:
+   *       200:
+   *         description: List of RFQs
+   */
+  app.get("/api/rfqs", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const status = rfqStatusEnum.enumValues.find(value => value === req.query.status);
+      const rfqs = await storage.getRfqs({ buyerId: req.user.id, status });
+      res.json(rfqs);
+    } catch (error) {
+      console.error("Error fetching RFQs:", error);
+      res.status(500).json({ error: "Failed to fetch quote requests" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /rfqs/{id}:
+   *   get:
+   *     tags: [RFQ]
+   *     summary: Get a quote request
+   *     description: Returns an RFQ owned by the buyer, with its lines and quotes.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: RFQ details
+   *       404:
+   *         description: RFQ not found
+   */
+  app.get("/api/rfqs/:id", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq || rfq.buyerId !== req.user.id) {
+        return res.status(404).json({ error: "Quote request not found" });
+      }
+
+      res.json(rfq);
+    } catch (error) {
+      console.error("Error fetching RFQ:", error);
+      res.status(500).json({ error: "Failed to fetch quote request" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /rfqs/{id}/cancel:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Cancel a quote request
+   *     description: Cancels an open or quoted RFQ. Any submitted quotes are rejected.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Cancelled RFQ
+   *       404:
+   *         description: RFQ not found
+   *       409:
+   *         description: RFQ is already closed
+   */
+  app.post("/api/rfqs/:id/cancel", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq || rfq.buyerId !== req.user.id) {
+        return res.status(404).json({ error: "Quote request not found" });
+      }
+
+      const cancelled = await storage.closeRfq(rfq.id, 'cancelled');
+      if (!cancelled) {
+        return res.status(409).json({ error: `Quote request is already ${rfq.status}` });
+      }
+
+      await storage.createNotification({
+        userId: rfq.vendorId,
+        type: 'rfq_cancelled',
+        title: 'Quote request cancelled',
+        message: `${req.user.name} cancelled quote request ${rfq.id.slice(0, 8)}`,
+      });
+      publishNotificationCount(rfq.vendorId).catch(error => console.error("Error sending notification count:", error));
+
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling RFQ:", error);
+      res.status(500).json({ error: "Failed to cancel quote request" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /rfqs/{id}/quotes/{quoteId}/accept:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Accept a quote
+   *     description: |
+   *       Accepts a submitted, unexpired quote and places an order at the quoted prices. Stock is reserved
+   *       and paid for exactly as in `/checkout/create-session`; the response has the same shape
+   *       (Stripe checkout URL, or `testMode` when Stripe is not configured). Other open quotes on the RFQ are rejected.
+   *       Quoted prices exclude tax; tax for the RFQ's delivery country is added to the order total.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *       - in: path
+   *         name: quoteId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Checkout session URL or test mode indicator
+   *       404:
+   *         description: RFQ or quote not found
+   *       409:
+   *         description: Quote is no longer open, or not enough stock (`code: insufficient_stock`)
+   *       502:
+   *         description: Stripe could not start the payment; the order is cancelled and its stock released
+   */
+  app.post("/api/rfqs/:id/quotes/:quoteId/accept", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const rfq = await storage.getRfqById(req.params.id);
+      const quote = rfq?.quotes.find(q => q.id === parseInt(req.params.quoteId));
+      if (!rfq || rfq.buyerId !== req.user.id || !quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      // Stripe Checkout sessions cannot expire sooner than 30 minutes
+      const ttlSetting = await storage.getPlatformSetting('stock_reservation_ttl_minutes');
+      const ttlMinutes = Math.max(parseInt(ttlSetting?.value || '30') || 30, 30);
+
+      // Quoted prices exclude tax; it is added for the RFQ's delivery country
+      const quotedProducts = (await Promise.all(quote.items.map(item => storage.getProductById(item.productId))))
+        .filter((product): product is Product => !!product);
+      const taxedItems = quote.items.filter(item => quotedProducts.some(product => product.id === item.productId));
+      const tax = await calculateTax({
+        buyerId: req.user.id,
+        destinationCountry: rfq.deliveryCountry,
+        lines: taxedItems.map(item => ({
+          product: quotedProducts.find(product => product.id === item.productId)!,
+          amount: parseFloat(item.unitPrice) * item.quantity,
+        })),
+      });
+
+      const result = await storage.acceptRfqQuote(rfq.id, quote.id, ttlMinutes, {
+        byQuoteItemId: new Map(taxedItems.map((item, index) => [item.id, tax.lines[index]])),
+        note: tax.taxNote,
+      });
+      if ('conflict' in result) {
+        return res.status(409).json({ error: result.conflict });
+      }
+      if ('shortage' in result) {
+        const item = rfq.items.find(i => i.productId === result.shortage.productId);
+        return res.status(409).json({
+          error: `Only ${result.shortage.available} units of ${item?.product.name || 'a quoted product'} are available`,
+          code: 'insufficient_stock',
+          ...result.shortage,
+        });
+      }
+
+      await storage.createNotification({
+        userId: quote.vendorId,
+        type: 'rfq_accepted',
+        title: 'Quote accepted',
+        message: `${req.user.name} accepted your quote of AED ${quote.total}`,
+        orderId: result.order.id,
+      });
+      publishNotificationCount(quote.vendorId).catch(error => console.error("Error sending notification count:", error));
+
+      const payment = await startOrderPayment(req, result.order, result.expiresAt, result.lines, {
+        cancelPath: '/account/rfqs',
+        metadata: { rfqId: rfq.id },
+        taxLines: tax.taxLines,
+      });
+      if ('failed' in payment) {
+        return res.status(502).json({ error: payment.error, orderId: payment.orderId });
+      }
+      res.json(payment);
+    } catch (error) {
+      console.error("Error accepting quote:", error);
+      res.status(500).json({ error: "Failed to accept quote" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /rfqs/{id}/quotes/{quoteId}/reject:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Reject a quote
+   *     description: Rejects a submitted quote. The vendor may send a new one while the RFQ remains open.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *       - in: path
+   *         name: quoteId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Rejected quote
+   *       404:
+   *         description: RFQ or quote not found
+   *       409:
+   *         description: Quote is no longer open
+   */
+  app.post("/api/rfqs/:id/quotes/:quoteId/reject", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const rfq = await storage.getRfqById(req.params.id);
+      const quote = rfq?.quotes.find(q => q.id === parseInt(req.params.quoteId));
+      if (!rfq || rfq.buyerId !== req.user.id || !quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      const rejected = await storage.closeRfqQuote(quote.id, 'rejected');
+      if (!rejected) {
+        return res.status(409).json({ error: `Quote is already ${quote.status}` });
+      }
+
+      res.json(rejected);
+    } catch (error) {
+      console.error("Error rejecting quote:", error);
+      res.status(500).json({ error: "Failed to reject quote" });
+    }
+  });
+
+  // ===== REFUNDS =====
+
+  /**
+   * @swagger
+   * /refunds:
+   *   get:
+   *     tags: [Refunds]
+   *     summary: Get user's refunds
+   *     description: |
+   *       Returns all refunds for the authenticated user.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Returns Page** (`/account/returns`)
+   *         - Returns List - displays all refund requests
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of refunds
+   *       401:
+   *         description: Not authenticated
+   */
+  app.get("/api/refunds", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const refunds = await storage.getRefundsByUserId(req.user.id);
+      res.json(refunds);
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+      res.status(500).json({ error: "Failed to fetch refunds" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /refunds/{id}:
+   *   get:
+   *     tags: [Refunds]
+   *     summary: Get refund details
+   *     description: |
+   *       Returns details for a specific refund including items.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Refund Details Page** (`/account/refunds/:id`)
+   *         - Triggered Refunds - status, amount, payment method, dates
+   *         - Triggered Items - products being refunded
+   *         - Refund Breakup - popup showing per-item amounts
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Refund details
+   *       404:
+   *         description: Refund not found
+   */
+  app.get("/api/refunds/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const refund = await storage.getRefundById(req.params.id);
+      
+      if (!refund || refund.userId !== req.user.id) {
+        return res.status(404).json({ error: "Refund not found" });
+      }
+
+      res.json(refund);
+    } catch (error) {
+      console.error("Error fetching refund:", error);
+      res.status(500).json({ error: "Failed to fetch refund" });
+    }
+  });
+
+  // ===== ADDRESSES =====
+
+  /**
+   * @swagger
+   * /addresses:
+   *   get:
+   *     tags: [Addresses]
+   *     summary: Get user addresses
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of user addresses
+   */
+  app.get("/api/addresses", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const userAddresses = await storage.getAddressesByUserId(req.user.id);
+      res.json(userAddresses);
+    } catch (error) {
+      console.error("Error fetching addresses:", error);
+      res.status(500).json({ error: "Failed to fetch addresses" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /addresses:
+   *   post:
+   *     tags: [Addresses]
+   *     summary: Create new address
+   *     security:
+   *       - bearerAuth: []
+   */
+  app.post("/api/addresses", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const address = await storage.createAddress({
+        ...req.body,
+        userId: req.user.id
+      });
+      res.status(201).json(address);
+    } catch (error) {
+      console.error("Error creating address:", error);
+      res.status(500).json({ error: "Failed to create address" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /addresses/{id}:
+   *   put:
+   *     tags: [Addresses]
+   *     summary: Update address
+   *     security:
+   *       - bearerAuth: []
+   */
+  app.put("/api/addresses/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAddressById(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      const updated = await storage.updateAddress(id, req.body);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating address:", error);
+      res.status(500).json({ error: "Failed to update address" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /addresses/{id}:
+   *   delete:
+   *     tags: [Addresses]
+   *     summary: Delete address
+   *     security:
+   *       - bearerAuth: []
+   */
+  app.delete("/api/addresses/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAddressById(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      await storage.deleteAddress(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting address:", error);
+      res.status(500).json({ error: "Failed to delete address" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /addresses/{id}/default:
+   *   post:
+   *     tags: [Addresses]
+   *     summary: Set default address
+   *     security:
+   *       - bearerAuth: []
+   */
+  app.post("/api/addresses/:id/default", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAddressById(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      await storage.setDefaultAddress(req.user.id, id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error setting default address:", error);
+      res.status(500).json({ error: "Failed to set default address" });
+    }
+  });
+
+  // ===== SAVED PAYMENT METHODS =====
+
+  /**
+   * @swagger
+   * /payments:
+   *   get:
+   *     tags: [Payments]
+   *     summary: Get saved payment methods
+   *     description: Returns tokenized payment methods (PCI-DSS compliant - no raw card data)
+   *     security:
+   *       - bearerAuth: []
+   */
+  app.get("/api/payments", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const payments = await storage.getSavedPaymentsByUserId(req.user.id);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ error: "Failed to fetch payment methods" });
+    }
+  });
+
+  // Every buyer saving a card gets one Stripe Customer; cards are attached to it by SetupIntents
+  async function getStripeCustomerId(stripe: Stripe, userId: string): Promise<string> {
+    const user = await storage.getUser(userId);
+    if (!user) throw new Error(`User ${userId} not found`);
+    if (user.stripeCustomerId) return user.stripeCustomerId;
+
+    const customer = await stripe.customers.create({
+      email: user.email,
+      name: user.name,
+      metadata: { userId: user.id },
+    }, { idempotencyKey: `customer-${user.id}` });
+    await storage.updateUserStripeCustomerId(user.id, customer.id);
+    return customer.id;
+  }
+
+  /**
+   * @swagger
+   * /payments/setup-intent:
+   *   post:
+   *     tags: [Payments]
+   *     summary: Start saving a card with Stripe.js
+   *     description: |
+   *       Creates a SetupIntent on the buyer's Stripe Customer (created on first use) for off-session
+   *       use. Confirm it client-side with the returned `clientSecret`, then call `POST /payments`
+   *       with the `setupIntentId` to save the card.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       201:
+   *         description: SetupIntent id, client secret and publishable key
+   *       503:
+   *         description: Stripe is not configured
+   */
+  app.post("/api/payments/setup-intent", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const { getUncachableStripeClient, getStripePublishableKey } = await import("./stripeClient");
+      let stripe: Stripe;
+      try {
+        stripe = await getUncachableStripeClient();
+      } catch (stripeError: any) {
+        console.log("Stripe not configured, cannot save cards:", stripeError.message);
+        return res.status(503).json({ error: "Card payments are not available" });
+      }
+
+      const customer = await getStripeCustomerId(stripe, req.user.id);
+      const setupIntent = await stripe.setupIntents.create({
+        customer,
+        payment_method_types: ['card'],
+        usage: 'off_session',
+        metadata: { userId: req.user.id },
+      });
+      res.status(201).json({
+        setupIntentId: setupIntent.id,
+        clientSecret: setupIntent.client_secret,
+        publishableKey: await getStripePublishableKey(),
+      });
+    } catch (error) {
+      console.error("Error creating setup intent:", error);
+      res.status(500).json({ error: "Failed to start saving the card" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /payments/setup-session:
+   *   post:
+   *     tags: [Payments]
+   *     summary: Start saving a card on the Stripe hosted page
+   *     description: |
+   *       Creates a Stripe Checkout session in setup mode, which collects the card and confirms a
+   *       SetupIntent for off-session use. Stripe redirects back to
+   *       `/account/profile?section=payments&setup_session_id=...`; pass that id to `POST /payments`.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       201:
+   *         description: URL of the hosted page
+   *       503:
+   *         description: Stripe is not configured
+   */
+  app.post("/api/payments/setup-session", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const { getUncachableStripeClient } = await import("./stripeClient");
+      let stripe: Stripe;
+      try {
+        stripe = await getUncachableStripeClient();
+      } catch (stripeError: any) {
+        console.log("Stripe not configured, cannot save cards:", stripeError.message);
+        return res.status(503).json({ error: "Card payments are not available" });
+      }
+
+      const customer = await getStripeCustomerId(stripe, req.user.id);
+      const baseUrl = getBaseUrl();
+      const session = await stripe.checkout.sessions.create({
+        mode: 'setup',
+        customer,
+        payment_method_types: ['card'],
+        setup_intent_data: { metadata: { userId: req.user.id } },
+        success_url: `${baseUrl}/account/profile?section=payments&setup_session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${baseUrl}/account/profile?section=payments`,
+      });
+      res.status(201).json({ url: session.url });
+    } catch (error) {
+      console.error("Error creating setup session:", error);
+      res.status(500).json({ error: "Failed to start saving the card" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /payments:
+   *   post:
+   *     tags: [Payments]
+   *     summary: Save a card from a confirmed SetupIntent
+   *     description: |
+   *       Saves the card attached by a succeeded SetupIntent, identified directly (`setupIntentId`)
+   *       or through the setup-mode Checkout session that created it (`setupSessionId`). Brand, last
+   *       4 digits, expiry, cardholder name and issuing country are read from Stripe; only the
+   *       Stripe PaymentMethod id is kept as the processor token.
+   *       Compliant with PCI-DSS, RBI (India), and UAE Central Bank regulations.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               setupIntentId: { type: string }
+   *               setupSessionId: { type: string }
+   *               country: { type: string, description: Defaults to the card's issuing country }
+   *               hasRbiConsent: { type: boolean, description: Required for cards saved in India }
+   *               isDefault: { type: boolean }
+   *               billingAddressId: { type: integer }
+   *     responses:
+   *       201:
+   *         description: Card saved
+   *       400:
+   *         description: The SetupIntent has not succeeded, or RBI consent is missing
+   *       404:
+   *         description: SetupIntent not found for this user
+   *       409:
+   *         description: This card is already saved
+   */
+  app.post("/api/payments", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const data = z.object({
+        setupIntentId: z.string().startsWith('seti_').optional(),
+        setupSessionId: z.string().startsWith('cs_').optional(),
+        country: z.string().length(2).transform(code => code.toUpperCase()).optional(),
+        hasRbiConsent: z.boolean().optional(),
+        isDefault: z.boolean().optional(),
+        billingAddressId: z.number().int().optional(),
+      }).refine(body => !!body.setupIntentId !== !!body.setupSessionId, {
+        message: "Provide either setupIntentId or setupSessionId",
+      }).parse(req.body);
+
+      if (data.billingAddressId) {
+        const address = await storage.getAddressById(data.billingAddressId);
+        if (!address || address.userId !== req.user.id) {
+          return res.status(404).json({ error: "Address not found" });
+        }
+      }
+
+      const { getUncachableStripeClient } = await import("./stripeClient");
+      let stripe: Stripe;
+      try {
+        stripe = await getUncachableStripeClient();
+      } catch (stripeError: any) {
+        console.log("Stripe not configured, cannot save cards:", stripeError.message);
+        return res.status(503).json({ error: "Card payments are not available" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      let setupIntentId = data.setupIntentId;
+      if (data.setupSessionId) {
+        const session = await stripe.checkout.sessions.retrieve(data.setupSessionId);
+        if (session.mode !== 'setup' || !session.customer || session.customer !== user?.stripeCustomerId) {
+          return res.status(404).json({ error: "Setup session not found" });
+        }
+        setupIntentId = typeof session.setup_intent === 'string' ? session.setup_intent : session.setup_intent?.id;
+      }
+
+      const setupIntent = await stripe.setupIntents.retrieve(setupIntentId!, { expand: ['payment_method'] });
+      // The SetupIntent must belong to this user's Customer, so another buyer's card cannot be claimed
+      if (!user?.stripeCustomerId || setupIntent.customer !== user.stripeCustomerId) {
+        return res.status(404).json({ error: "Setup intent not found" });
+      }
+      if (setupIntent.status !== 'succeeded') {
+        return res.status(400).json({ error: `The card has not been confirmed (status ${setupIntent.status})` });
+      }
+      const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod | null;
+      if (!paymentMethod || paymentMethod.type !== 'card' || !paymentMethod.card) {
+        return res.status(400).json({ error: "Only cards can be saved" });
+      }
+
+      const card = paymentMethod.card;
+      const country = data.country || card.country;
+      if (!country) {
+        return res.status(400).json({ error: "country is required" });
+      }
+      
+      // For India (RBI regulations), require explicit consent
+      if (country === 'IN' && !data.hasRbiConsent) {
+        return res.status(400).json({ 
+          error: "RBI regulations require explicit consent for card-on-file storage in India",
+          requiresConsent: true
+        });
+      }
+
+      const duplicate = await storage.findSavedPaymentDuplicate(req.user.id, paymentMethod.id, card.fingerprint ?? null);
+      if (duplicate) {
+        return res.status(409).json({ error: "This card is already saved", paymentMethodId: duplicate.id });
+      }
+
+      const existing = await storage.getSavedPaymentsByUserId(req.user.id);
+      const payment = await storage.createSavedPayment({
+        userId: req.user.id,
+        paymentMethodType: 'card',
+        lastFourDigits: card.last4,
+        cardBrand: card.brand,
+        expiryMonth: card.exp_month,
+        expiryYear: card.exp_year,
+        cardholderName: paymentMethod.billing_details?.name ?? null,
+        processorToken: paymentMethod.id,
+        processorName: 'stripe',
+        fingerprint: card.fingerprint ?? null,
+        billingAddressId: data.billingAddressId ?? null,
+        country,
+        // The first saved card becomes the default used by checkout
+        isDefault: data.isDefault || existing.length === 0,
+        hasRbiConsent: !!data.hasRbiConsent,
+        consentTimestamp: data.hasRbiConsent ? new Date() : null,
+      } as InsertSavedPaymentMethod);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+        return res.status(404).json({ error: "Setup intent not found" });
+      }
+      console.error("Error creating payment method:", error);
+      res.status(500).json({ error: "Failed to save payment method" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /payments/{id}:
+   *   delete:
+   *     tags: [Payments]
+   *     summary: Delete saved payment method
+   *     description: |
+   *       Detaches the card from the buyer's Stripe Customer, then soft deletes it (regulatory
+   *       compliance requires record keeping). A card Stripe no longer knows is removed locally.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Payment method removed
+   *       404:
+   *         description: Payment method not found
+   *       502:
+   *         description: Stripe could not detach the card; nothing was removed
+   */
+  app.delete("/api/payments/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSavedPaymentById(id);
+      if (!existing || existing.userId !== req.user.id || !existing.isActive) {
+        return res.status(404).json({ error: "Payment method not found" });
+      }
+
+      if (existing.processorName === 'stripe' && existing.processorToken.startsWith('pm_')) {
+        const { getUncachableStripeClient } = await import("./stripeClient");
+        let stripe: Stripe | undefined;
+        try {
+          stripe = await getUncachableStripeClient();
+        } catch (stripeError: any) {
+          console.log("Stripe not configured, removing payment method locally only:", stripeError.message);
+        }
+        if (stripe) {
+          try {
+            await stripe.paymentMethods.detach(existing.processorToken);
+          } catch (stripeError) {
+            // Already detached or never existed at Stripe: nothing left to charge
+            if (!(stripeError instanceof Stripe.errors.StripeInvalidRequestError)) {
+              console.error("Error detaching payment method at Stripe:", stripeError);
+              return res.status(502).json({ error: "Could not remove the card at the payment processor, please try again" });
+            }
+          }
+        }
+      }
+
+      await storage.deleteSavedPayment(id);
+      // Checkout charges the default card, so another card takes over when the default is removed
+      if (existing.isDefault) {
+        const [next] = await storage.getSavedPaymentsByUserId(req.user.id);
+        if (next) await storage.setDefaultPayment(req.user.id, next.id);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting payment method:", error);
+      res.status(500).json({ error: "Failed to delete payment method" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /payments/{id}/default:
+   *   post:
+   *     tags: [Payments]
+   *     summary: Set default payment method
+   *     security:
+   *       - bearerAuth: []
+   */
+  app.post("/api/payments/:id/default", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSavedPaymentById(id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ error: "Payment method not found" });
+      }
+      await storage.setDefaultPayment(req.user.id, id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error setting default payment:", error);
+      res.status(500).json({ error: "Failed to set default payment method" });
+    }
+  });
+
+  // ===== CREDIT ACCOUNTS & INVOICES =====
+
+  /**
+   * @swagger
+   * /credit-account:
+   *   get:
+   *     tags: [Credit]
+   *     summary: My credit account
+   *     description: |
+   *       Returns the buyer's credit account with its live `outstanding` balance (unpaid invoices),
+   *       `available` credit and `overdueCount`, or `null` when the buyer has not applied.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Credit account or null
+   */
+  app.get("/api/credit-account", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const account = await storage.getCreditAccountByUserId(req.user.id);
+      res.json(account ?? null);
+    } catch (error) {
+      console.error("Error fetching credit account:", error);
+      res.status(500).json({ error: "Failed to fetch credit account" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /credit-account:
+   *   post:
+   *     tags: [Credit]
+   *     summary: Apply for a credit account
+   *     description: |
+   *       Business, government, reseller, manufacturer and distributor buyers (profile `typeOfBuyer`) can
+   *       apply to buy on NET-30 or NET-60 terms. An admin approves the application and sets the credit
+   *       limit. A rejected application can be replaced by a new one.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [requestedLimit]
+   *             properties:
+   *               requestedLimit: { type: number, example: 50000 }
+   *               paymentTerms: { type: string, enum: [net_30, net_60], default: net_30 }
+   *               billingEmail: { type: string, format: email, description: Accounts payable contact for invoices and reminders }
+   *               note: { type: string }
+   *     responses:
+   *       201:
+   *         description: Application submitted
+   *       403:
+   *         description: Credit accounts are not offered to individual buyers
+   *       409:
+   *         description: An application is pending, or the account already exists
+   */
+  app.post("/api/credit-account", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const data = z.object({
+        requestedLimit: z.coerce.number().positive().max(100000000),
+        paymentTerms: z.enum(['net_30', 'net_60']).default('net_30'),
+        billingEmail: z.string().trim().email().optional(),
+        note: z.string().trim().max(2000).optional(),
+      }).parse(req.body);
+
+      const profile = await storage.getUserProfile(req.user.id);
+      if (!profile?.typeOfBuyer || profile.typeOfBuyer === 'individual' || profile.typeOfBuyer === 'other') {
+        return res.status(403).json({ error: "Credit accounts are available to business, government and reseller buyers" });
+      }
+
+      const existing = await storage.getCreditAccountByUserId(req.user.id);
+      if (existing && existing.status !== 'rejected') {
+        return res.status(409).json({ error: existing.status === 'pending' ? "Your application is being reviewed" : "You already have a credit account" });
+      }
+
+      const account = await storage.applyForCreditAccount(req.user.id, {
+        requestedLimit: data.requestedLimit.toFixed(2),
+        paymentTerms: data.paymentTerms,
+        billingEmail: data.billingEmail ?? null,
+        applicationNote: data.note ?? null,
+      });
+      emitDomainEvent('credit.requested', { accountId: account.id });
+      res.status(201).json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error applying for credit account:", error);
+      res.status(500).json({ error: "Failed to submit application" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /invoices:
+   *   get:
+   *     tags: [Credit]
+   *     summary: My invoices
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [issued, overdue, paid, void]
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *     responses:
+   *       200:
+   *         description: Paginated invoices, newest first
+   */
+  app.get("/api/invoices", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const { status, page } = req.query;
+      const parsedStatus = z.enum(['issued', 'overdue', 'paid', 'void']).safeParse(status);
+      const result = await storage.getInvoices({
+        userId: req.user.id,
+        status: parsedStatus.success ? parsedStatus.data : undefined,
+        page: page ? parseInt(page as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ error: "Failed to fetch invoices" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /invoices/{id}:
+   *   get:
+   *     tags: [Credit]
+   *     summary: Invoice details
+   *     description: Returns the invoice with its order and the payments received against it
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Invoice
+   *       404:
+   *         description: Invoice not found
+   */
+  app.get("/api/invoices/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const invoice = await storage.getInvoiceById(req.params.id);
+      if (!invoice || invoice.userId !== req.user.id) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ error: "Failed to fetch invoice" });
+    }
+  });
+
+  // ===== TAX DOCUMENTS =====
+
+  /**
+   * @swagger
+   * /orders/{orderId}/tax-documents:
+   *   get:
+   *     tags: [Orders]
+   *     summary: Tax invoices and credit notes for an order
+   *     description: |
+   *       One tax invoice per vendor shipment, issued when it ships, and one credit note per completed
+   *       refund against an invoiced shipment. Download each with `/tax-documents/{id}/pdf`.
+   *
+   *       ## Pages / Sections Used
+   *       - **Order Details Page** (`/account/orders/:orderId/details`)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Documents in order of issue
+   *       404:
+   *         description: Order not found
+   */
+  app.get("/api/orders/:orderId/tax-documents", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(await storage.getTaxDocumentsForOrder(order.id));
+    } catch (error) {
+      console.error("Error fetching tax documents:", error);
+      res.status(500).json({ error: "Failed to fetch tax documents" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /tax-documents/{id}/pdf:
+   *   get:
+   *     tags: [Orders]
+   *     summary: Download a tax invoice or credit note as PDF
+   *     description: |
+   *       Shows the seller and buyer with their TRN / VAT numbers, each line's net, VAT and total, and
+   *       the currency. Available to the buyer, the vendor whose shipment it covers, and admins.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: PDF document
+   *         content:
+   *           application/pdf:
+   *             schema: { type: string, format: binary }
+   *       404:
+   *         description: Document not found
+   */
+  app.get("/api/tax-documents/:id/pdf", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const document = await storage.getTaxDocumentById(req.params.id);
+      const isAdmin = req.user.userType === 'admin' || req.user.userType === 'super_admin';
+      if (!document || !(isAdmin || document.buyerId === req.user.id || document.vendorId === req.user.id)) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const credited = document.creditedDocumentId ? await storage.getTaxDocumentById(document.creditedDocumentId) : undefined;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.documentNumber}.pdf"`);
+      res.send(renderTaxDocumentPdf(document, credited?.documentNumber));
+    } catch (error) {
+      console.error("Error rendering tax document:", error);
+      res.status(500).json({ error: "Failed to render document" });
+    }
+  });
+
+  // ===== EXPORT COMPLIANCE =====
+
+  /**
+   * @swagger
+   * /compliance/documents:
+   *   get:
+   *     tags: [Compliance]
+   *     summary: List my end-user certificates and export licences
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Documents on file, newest first
+   */
+  app.get("/api/compliance/documents", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const documents = await storage.getComplianceDocuments(req.user.id);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching compliance documents:", error);
+      res.status(500).json({ error: "Failed to fetch compliance documents" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /compliance/documents:
+   *   post:
+   *     tags: [Compliance]
+   *     summary: Add an end-user certificate or export licence
+   *     description: |
+   *       Registers a document for buying export-controlled items. Upload the file first through
+   *       `/uploads` with purpose `compliance_document`; it stays private to the buyer and admins.
+   *       The end user named on the document is screened against the denied-party list at checkout.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [type, documentNumber, issuingCountry, endUserName, fileId]
+   *             properties:
+   *               type: { type: string, enum: [end_user_certificate, export_license] }
+   *               documentNumber: { type: string }
+   *               issuingCountry: { type: string, description: ISO country code of the destination the document covers }
+   *               endUserName: { type: string }
+   *               fileId: { type: string }
+   *               validUntil: { type: string, format: date }
+   *     responses:
+   *       201:
+   *         description: Document added
+   *       400:
+   *         description: Invalid fields, or the file is not one of your compliance document uploads
+   */
+  app.post("/api/compliance/documents", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const data = z.object({
+        type: z.enum(['end_user_certificate', 'export_license']),
+        documentNumber: z.string().trim().min(1).max(100),
+        issuingCountry: z.string().trim().length(2).transform(code => code.toUpperCase()),
+        endUserName: z.string().trim().min(1).max(200),
+        fileId: z.string().min(1),
+        validUntil: z.coerce.date().optional(),
+      }).parse(req.body);
+
+      if (data.validUntil && data.validUntil < new Date()) {
+        return res.status(400).json({ error: "The document has already expired" });
+      }
+      const file = await getOwnedUpload(data.fileId, req.user.id, ['compliance_document']);
+      if (!file) {
+        return res.status(400).json({ error: "Upload the document with purpose compliance_document first" });
+      }
+
+      const document = await storage.createComplianceDocument({ ...data, userId: req.user.id });
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error adding compliance document:", error);
+      res.status(500).json({ error: "Failed to add compliance document" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /orders/{orderId}/compliance:
+   *   get:
+   *     tags: [Compliance]
+   *     summary: Export compliance status of my order
+   *     description: |
+   *       Returns `status` (`held`, `approved` or `rejected`) for orders held at checkout, or
+   *       `status: null` for orders that needed no review. Screening reasons are not shown to buyers.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Compliance status
+   *       404:
+   *         description: Order not found
+   */
+  app.get("/api/orders/:orderId/compliance", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const review = await storage.getComplianceReviewByOrderId(order.id);
+      res.json({
+        status: review?.status ?? null,
+        reviewedAt: review?.reviewedAt ?? null,
+        // Only a rejection note is shared, so the buyer knows why the order was cancelled
+        note: review?.status === 'rejected' ? review.reviewNote : null,
+        canPay: review?.status === 'approved' && order.status === 'pending' && order.paymentStatus !== 'paid',
+      });
+    } catch (error) {
+      console.error("Error fetching order compliance status:", error);
+      res.status(500).json({ error: "Failed to fetch compliance status" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /orders/{orderId}/pay:
+   *   post:
+   *     tags: [Compliance]
+   *     summary: Pay for an order cleared by compliance review
+   *     description: |
+   *       Opens a Stripe Checkout session for an order that was held at checkout and has since been
+   *       approved. The order's stock is held again until the session expires, retaking any reservation
+   *       that lapsed during review. Calling this again opens a new session and expires the previous one.
+   *       Orders checked out with `paymentMethod: invoice` are placed on the credit account instead
+   *       (`invoiced: true`).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Checkout session URL or test mode indicator
+   *       404:
+   *         description: Order not found
+   *       409:
+   *         description: |
+   *           The order is not approved for payment, is already paid or cancelled, its previous session
+   *           has been paid and is awaiting confirmation, or stock for a line is no longer available
+   *           (`code: insufficient_stock`)
+   *       502:
+   *         description: Stripe could not start the payment; the order is cancelled and its stock released
+   */
+  app.post("/api/orders/:orderId/pay", async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const review = await storage.getComplianceReviewByOrderId(order.id);
+      if (review?.status !== 'approved' || order.status !== 'pending' || order.paymentStatus === 'paid') {
+        return res.status(409).json({ error: "This order is not awaiting payment" });
+      }
+
+      // Paying again replaces the earlier checkout session: one already paid is only waiting on its
+      // webhook, and one still open is expired once the new session is in place
+      let previousSessionOpen = false;
+      if (order.stripeSessionId) {
+        const { getUncachableStripeClient } = await import("./stripeClient");
+        const stripe = await getUncachableStripeClient();
+        const previous = await stripe.checkout.sessions.retrieve(order.stripeSessionId);
+        if (previous.status === 'complete') {
+          return res.status(409).json({ error: "Payment for this order is already being confirmed" });
+        }
+        previousSessionOpen = previous.status === 'open';
+      }
+
+      // The review may have outlasted the stock hold, so the stock is taken again before paying
+      const ttlSetting = await storage.getPlatformSetting('stock_reservation_ttl_minutes');
+      const ttlMinutes = Math.max(parseInt(ttlSetting?.value || '30') || 30, 30);
+      const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+      const renewal = await storage.renewStockReservations(order.id, expiresAt);
+      if ('shortage' in renewal) {
+        const item = order.items.find(i => i.productId === renewal.shortage.productId && (i.variantId ?? null) === renewal.shortage.variantId);
+        const name = item ? (item.variantName ? `${item.name} (${item.variantName})` : item.name) : 'an item';
+        return res.status(409).json({
+          error: `Only ${renewal.shortage.available} units of ${name} are still available`,
+          code: 'insufficient_stock',
+          ...renewal.shortage,
+        });
+      }
+
+      // Orders checked out on invoice go on the credit account now that they are cleared
+      if (order.paymentMethod === 'invoice') {
+        const placed = await placeOrderOnCredit(order.id);
+        return res.status(placed.status).json(placed.body);
+      }
+
+      const products = new Map((await Promise.all(
+        Array.from(new Set(order.items.map(item => item.productId))).map(id => storage.getProductById(id))
+      )).filter((product): product is Product => !!product).map(product => [product.id, product]));
+
+      const payment = await startOrderPayment(
+        req,
+        order,
+        expiresAt,
+        order.items.map(item => ({
+          product: {
+            id: item.productId,
+            name: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+            image: item.image,
+            sku: products.get(item.productId)?.sku ?? null,
+          },
+          quantity: item.quantity,
+          unitPrice: item.price,
+        })),
+        { cancelPath: `/account/orders/${order.id}/details`, taxLines: summarizeOrderTax(order.items) }
+      );
+      if (previousSessionOpen) {
+        await expireCheckoutSession(order.id, order.stripeSessionId!);
+      }
+      if ('failed' in payment) {
+        return res.status(502).json({ error: payment.error, orderId: payment.orderId });
+      }
+      res.json(payment);
+    } catch (error) {
+      console.error("Error starting order payment:", error);
+      res.status(500).json({ error: "Failed to start payment" });
+    }
+  });
+
+  // ===== VENDOR =====
+
+  /**
+   * @swagger
+   * /vendor/stats:
+   *   get:
+   *     tags: [Vendor]
+   *     summary: Get vendor statistics
+   *     description: |
+   *       Returns sales statistics for the vendor dashboard.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Vendor Dashboard** (`/vendor`) - _Not yet implemented in frontend_
+   *         - Stats Overview - revenue, orders, products count
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Vendor stats
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 revenue: { type: number }
+   *                 orders: { type: integer }
+   *                 products: { type: integer }
+   */
+  app.get("/api/vendor/stats", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const stats = await storage.getVendorStats(req.user.id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch vendor stats" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products:
+   *   get:
+   *     tags: [Vendor]
+   *     summary: Get vendor's products
+   *     description: |
+   *       Returns all products created by the authenticated vendor.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Vendor Dashboard** (`/vendor/products`) - _Not yet implemented in frontend_
+   *         - Products Table - manage listings, inventory, pricing
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of vendor's products
+   */
+  app.get("/api/vendor/products", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const products = await storage.getProducts({ vendorId: req.user.id });
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch vendor products" });
+    }
+  });
+
+  // Create a new product (vendor)
+  app.post("/api/vendor/products", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const productData = {
+        ...req.body,
+        vendorId: req.user.id,
+      };
+      
+      const validated = insertProductSchema.parse(productData);
+
+      const categoryError = await validateProductCategories(req.body);
+      if (categoryError) {
+        return res.status(400).json({ error: "Invalid category path", message: categoryError });
+      }
+
+      const product = await storage.createProduct(validated);
+      res.status(201).json(product);
+    } catch (error) {
+      console.error("Error creating product:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid product data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create product" });
+    }
+  });
+
+  // Update a product (vendor)
+  app.put("/api/vendor/products/:id", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const productId = parseInt(req.params.id);
+      const existing = await storage.getProductById(productId);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      
+      if (existing.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this product" });
+      }
+
+      const categoryError = await validateProductCategories(req.body, existing);
+      if (categoryError) {
+        return res.status(400).json({ error: "Invalid category path", message: categoryError });
+      }
+
+      // Featuring is controlled by admins only
+      const { isFeatured, featuredFrom, featuredUntil, featuredRank, ...data } = req.body;
+      const product = await storage.updateProduct(productId, data);
+      res.json(product);
+    } catch (error) {
+      console.error("Error updating product:", error);
+      res.status(500).json({ error: "Failed to update product" });
+    }
+  });
+
+  // Delete a product (vendor)
+  app.delete("/api/vendor/products/:id", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const productId = parseInt(req.params.id);
+      const deleted = await storage.deleteProduct(productId, req.user.id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Product not found or not authorized" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting product:", error);
+      res.status(500).json({ error: "Failed to delete product" });
+    }
+  });
+
+  // Get vendor orders
+  app.get("/api/vendor/orders", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const orders = await storage.getVendorOrders(req.user.id);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching vendor orders:", error);
+      res.status(500).json({ error: "Failed to fetch vendor orders" });
+    }
+  });
+
+  // Update order status (vendor)
+  app.patch("/api/vendor/orders/:id/status", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const { status, note, trackingNumber } = req.body;
+      const validStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+      
+      if (!status || !validStatuses.includes(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+
+      // Vendors only ever change their own shipment within the order
+      const shipment = await storage.getVendorShipment(req.params.id, req.user.id);
+      if (!shipment) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const updated = await storage.updateShipmentStatus(shipment.id, status, req.user.id, note, trackingNumber);
+      if (updated && status !== shipment.status) {
+        emitDomainEvent('order.status_changed', { orderId: shipment.orderId, shipmentId: shipment.id, status, changedBy: req.user.id });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      res.status(500).json({ error: "Failed to update order status" });
+    }
+  });
+
+  // Get order status history
+  app.get("/api/vendor/orders/:id/history", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const shipment = await storage.getVendorShipment(req.params.id, req.user.id);
+      if (!shipment) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const history = await storage.getShipmentStatusHistory(shipment.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching order history:", error);
+      res.status(500).json({ error: "Failed to fetch order history" });
+    }
+  });
+
+  // Get vendor customers
+  app.get("/api/vendor/customers", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const customers = await storage.getVendorCustomers(req.user.id);
+      res.json(customers);
+    } catch (error) {
+      console.error("Error fetching vendor customers:", error);
+      res.status(500).json({ error: "Failed to fetch vendor customers" });
+    }
+  });
+
+  // Get vendor analytics
+  app.get("/api/vendor/analytics", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const analytics = await storage.getVendorAnalytics(req.user.id);
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching vendor analytics:", error);
+      res.status(500).json({ error: "Failed to fetch vendor analytics" });
+    }
+  });
+
+  // ===== VENDOR PANEL EXTENDED APIs =====
+
+  // Vendor figures are kept in the base currency and reported in the vendor's preferred currency at
+  // the rate in force today; without a rate for it they stay in the base currency
+  async function getVendorReportingCurrency(vendorId: string): Promise<{ currency: string; exchangeRate: number }> {
+    const profile = await storage.getUserProfile(vendorId);
+    const preferred = profile?.preferredCurrency?.toUpperCase() || BASE_CURRENCY;
+    const { rates } = await storage.getFxRateTable();
+    const exchangeRate = convertCurrency(1, BASE_CURRENCY, preferred, rates);
+    return exchangeRate === null ? { currency: BASE_CURRENCY, exchangeRate: 1 } : { currency: preferred, exchangeRate };
+  }
+
+  /**
+   * @swagger
+   * /vendor/financials:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get vendor financial summary
+   *     description: |
+   *       Returns earnings, commissions, and payout information. pendingPayouts is the ledger balance
+   *       still owed to the vendor; completedPayouts is the total of payouts marked paid.
+   *       Amounts are in the vendor's `preferredCurrency`, converted from the base currency (AED) at
+   *       today's `exchangeRate`, or in AED when no rate is on file.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Financial summary
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 currency: { type: string, example: USD }
+   *                 exchangeRate: { type: number, description: "Units of currency per AED" }
    *                 totalEarnings: { type: number }
    *                 totalCommission: { type: number }
    *                 netEarnings: { type: number }
@@ -4012,137 +7862,2225 @@ export async function registerRoutes(
    *                 orderCount: { type: integer }
    *                 averageOrderValue: { type: number }
    */
-  app.get("/api/vendor/financials", async (req, res) => {
+  app.get("/api/vendor/financials", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const financials = await storage.getVendorFinancials(req.user.id);
+      const { currency, exchangeRate } = await getVendorReportingCurrency(req.user.id);
+      const convert = (amount: number) => Math.round(amount * exchangeRate * 100) / 100;
+      res.json({
+        currency,
+        exchangeRate,
+        totalEarnings: convert(financials.totalEarnings),
+        totalCommission: convert(financials.totalCommission),
+        netEarnings: convert(financials.netEarnings),
+        pendingPayouts: convert(financials.pendingPayouts),
+        completedPayouts: convert(financials.completedPayouts),
+        currentMonthEarnings: convert(financials.currentMonthEarnings),
+        lastMonthEarnings: convert(financials.lastMonthEarnings),
+        orderCount: financials.orderCount,
+        averageOrderValue: convert(financials.averageOrderValue),
+      });
+    } catch (error) {
+      console.error("Error fetching vendor financials:", error);
+      res.status(500).json({ error: "Failed to fetch financial data" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/financials/monthly:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get monthly earnings breakdown
+   *     description: |
+   *       Returns earnings, commission, and net by month, in the vendor's preferred currency as for
+   *       `/vendor/financials` (each row carries its `currency`)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: months
+   *         schema: { type: integer, default: 12 }
+   *         description: Number of months to return
+   *     responses:
+   *       200:
+   *         description: Monthly earnings data
+   */
+  app.get("/api/vendor/financials/monthly", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const months = req.query.months ? parseInt(req.query.months as string) : 12;
+      const data = await storage.getVendorEarningsByMonth(req.user.id, months);
+      const { currency, exchangeRate } = await getVendorReportingCurrency(req.user.id);
+      const convert = (amount: number) => Math.round(amount * exchangeRate * 100) / 100;
+      res.json(data.map(row => ({
+        month: row.month,
+        currency,
+        earnings: convert(row.earnings),
+        commission: convert(row.commission),
+        net: convert(row.net),
+      })));
+    } catch (error) {
+      console.error("Error fetching monthly earnings:", error);
+      res.status(500).json({ error: "Failed to fetch monthly earnings" });
+    }
+  });
+
+  // Renders a payout statement: the bank details it was sent to and every ledger transaction it settles
+  function sendPayoutStatement(res: Response, payout: VendorPayoutWithEntries, vendor: { name: string; email: string }, format: 'csv' | 'pdf') {
+    const filename = `payout-statement-${payout.id.slice(0, 8)}.${format}`;
+    const formatDate = (date: Date | null) => date ? new Date(date).toISOString().split('T')[0] : '';
+    const maskedAccount = payout.bankAccountNumber ? `****${payout.bankAccountNumber.slice(-4)}` : '';
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      return res.send(toCsv(
+        ['Date', 'Type', 'Description', 'Order', 'Amount', 'Currency'],
+        [
+          ...payout.entries.map(entry => [
+            formatDate(entry.createdAt),
+            entry.entryType,
+            entry.description,
+            entry.orderId ? entry.orderId.slice(0, 8).toUpperCase() : '',
+            parseFloat(entry.signedAmount).toFixed(2),
+            payout.currency,
+          ]),
+          ['', 'total', `Payout ${payout.status}${payout.remittanceReference ? ` (ref ${payout.remittanceReference})` : ''}`, '', payout.amount, payout.currency],
+        ]
+      ));
+    }
+
+    const lines = [
+      { text: 'ArmoredMart - Payout Statement', bold: true, size: 16 },
+      '',
+      `Vendor: ${vendor.name} <${vendor.email}>`,
+      `Payout: ${payout.id}`,
+      `Period: ${formatDate(payout.periodStart)} to ${formatDate(payout.periodEnd)}`,
+      `Status: ${payout.status}${payout.paidAt ? ` on ${formatDate(payout.paidAt)}` : ''}`,
+      `Remittance reference: ${payout.remittanceReference || '-'}`,
+      `Paid to: ${[payout.financialInstitution, payout.bankCountry, payout.swiftCode, maskedAccount].filter(Boolean).join(', ') || '-'}`,
+      '',
+      { text: 'Date         Type                  Amount      Description', bold: true },
+      ...payout.entries.map(entry =>
+        `${formatDate(entry.createdAt).padEnd(13)}${entry.entryType.padEnd(20)}${parseFloat(entry.signedAmount).toFixed(2).padStart(10)}   ${entry.description}`
+      ),
+      '',
+      { text: `Total: ${payout.currency} ${payout.amount}`, bold: true, size: 12 },
+    ];
+    res.setHeader('Content-Type', 'application/pdf');
+    return res.send(renderPdf(lines));
+  }
+
+  /**
+   * @swagger
+   * /vendor/ledger:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get vendor ledger
+   *     description: |
+   *       Returns the vendor's ledger transactions (sales, commission, refunds, commission reversals,
+   *       adjustments and payouts), newest first, with the current balance. signedAmount is positive
+   *       when it increases what the platform owes the vendor.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: from
+   *         schema: { type: string, format: date }
+   *       - in: query
+   *         name: to
+   *         schema: { type: string, format: date }
+   *       - in: query
+   *         name: type
+   *         schema: { type: string, enum: [sale, commission, refund, commission_reversal, adjustment, payout] }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 50 }
+   *     responses:
+   *       200:
+   *         description: Ledger entries, total count and balance
+   */
+  app.get("/api/vendor/ledger", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const querySchema = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        type: z.enum(ledgerEntryTypeEnum.enumValues).optional(),
+        page: z.coerce.number().int().min(1).optional(),
+        limit: z.coerce.number().int().min(1).max(200).optional(),
+      });
+      const query = querySchema.parse(req.query);
+
+      const [ledger, balance] = await Promise.all([
+        storage.getVendorLedger(req.user.id, {
+          from: query.from,
+          to: query.to,
+          entryType: query.type,
+          page: query.page,
+          limit: query.limit,
+        }),
+        storage.getVendorBalance(req.user.id),
+      ]);
+      res.json({ ...ledger, balance });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error fetching vendor ledger:", error);
+      res.status(500).json({ error: "Failed to fetch ledger" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/payouts:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get vendor payouts
+   *     description: Returns the vendor's payouts, newest first
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of payouts
+   */
+  app.get("/api/vendor/payouts", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const payouts = await storage.getPayouts({ vendorId: req.user.id });
+      res.json(payouts.map(({ vendor, ...payout }) => payout));
+    } catch (error) {
+      console.error("Error fetching vendor payouts:", error);
+      res.status(500).json({ error: "Failed to fetch payouts" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/payouts/{payoutId}/statement:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Download payout statement
+   *     description: Returns the statement for one of the vendor's payouts as a CSV or PDF download
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: payoutId
+   *         required: true
+   *         schema: { type: string }
+   *       - in: query
+   *         name: format
+   *         schema: { type: string, enum: [csv, pdf], default: pdf }
+   *     responses:
+   *       200:
+   *         description: Statement file
+   *       404:
+   *         description: Payout not found
+   */
+  app.get("/api/vendor/payouts/:payoutId/statement", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const payout = await storage.getPayoutById(req.params.payoutId);
+      if (!payout || payout.vendorId !== req.user.id) {
+        return res.status(404).json({ error: "Payout not found" });
+      }
+
+      sendPayoutStatement(res, payout, req.user, req.query.format === 'csv' ? 'csv' : 'pdf');
+    } catch (error) {
+      console.error("Error generating payout statement:", error);
+      res.status(500).json({ error: "Failed to generate statement" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/commission:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get vendor's commission rate
+   *     description: Returns the vendor's current commission percentage
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Commission info
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 percent: { type: string }
+   *                 isCustom: { type: boolean }
+   */
+  app.get("/api/vendor/commission", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const commission = await storage.getVendorCommission(req.user.id);
+      res.json(commission);
+    } catch (error) {
+      console.error("Error fetching commission:", error);
+      res.status(500).json({ error: "Failed to fetch commission" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/refunds:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get refund requests for vendor's products
+   *     description: Returns refund requests that involve the vendor's products
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema: { type: string, enum: [pending, under_review, approved, rejected, processing, completed, failed] }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 10 }
+   *     responses:
+   *       200:
+   *         description: List of refund requests
+   */
+  app.get("/api/vendor/refunds", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const { status, page, limit } = req.query;
+      const result = await storage.getVendorRefunds(req.user.id, {
+        status: status as string,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching vendor refunds:", error);
+      res.status(500).json({ error: "Failed to fetch refunds" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/inventory/bulk:
+   *   put:
+   *     tags: [Vendor Panel]
+   *     summary: Bulk update product inventory
+   *     description: |
+   *       Updates stock levels for multiple products at once. Products sold in variants take stock
+   *       per variant (`variantId`) and their product stock becomes the variant total; a product-level
+   *       update for such a product counts as failed.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [updates]
+   *             properties:
+   *               updates:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     productId: { type: integer }
+   *                     variantId: { type: integer }
+   *                     stock: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Update result
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 updated: { type: integer }
+   *                 failed: { type: integer }
+   */
+  app.put("/api/vendor/inventory/bulk", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const { updates } = req.body;
+      
+      if (!updates || !Array.isArray(updates)) {
+        return res.status(400).json({ error: "Updates array is required" });
+      }
+      
+      const result = await storage.updateVendorStock(req.user.id, updates);
+      res.json(result);
+    } catch (error) {
+      console.error("Error updating inventory:", error);
+      res.status(500).json({ error: "Failed to update inventory" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/onboarding/status:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get vendor onboarding status
+   *     description: Returns the vendor's current onboarding status and review information
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Onboarding status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 status: { type: string }
+   *                 currentStep: { type: integer }
+   *                 submittedAt: { type: string, format: date-time }
+   *                 reviewedAt: { type: string, format: date-time }
+   *                 rejectionReason: { type: string }
+   *                 reviewNote: { type: string }
+   */
+  app.get("/api/vendor/onboarding/status", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const profile = await storage.getUserProfile(req.user.id);
+      
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor profile not found" });
+      }
+      
+      res.json({
+        status: profile.onboardingStatus,
+        currentStep: profile.currentStep,
+        submittedAt: profile.submittedAt,
+        reviewedAt: profile.reviewedAt,
+        rejectionReason: profile.rejectionReason,
+        reviewNote: profile.reviewNote,
+      });
+    } catch (error) {
+      console.error("Error fetching onboarding status:", error);
+      res.status(500).json({ error: "Failed to fetch status" });
+    }
+  });
+
+  // ===== NOTIFICATIONS =====
+
+  /**
+   * @swagger
+   * /notifications:
+   *   get:
+   *     tags: [Notifications]
+   *     summary: Get the current user's notifications
+   *     description: In-app notifications for any role (customer, vendor, admin), newest first
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: type
+   *         schema: { type: string, description: "e.g. order.status_changed" }
+   *       - in: query
+   *         name: unreadOnly
+   *         schema: { type: boolean }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
+   *     responses:
+   *       200:
+   *         description: Notifications with total and unread counts
+   */
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const { type, unreadOnly, page, limit } = req.query;
+      const result = await storage.getNotifications(req.user.id, {
+        type: type as string,
+        unreadOnly: unreadOnly === 'true',
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /notifications/preferences:
+   *   get:
+   *     tags: [Notifications]
+   *     summary: Get notification preferences
+   *     description: |
+   *       Returns the in-app and email setting for every notification type the user's role receives,
+   *       with defaults filled in.
+   *       
+   *       ## Pages / Sections Used
+   *       - **Notifications Page** (`/account/notifications`) - Preferences section
+   *       - **Vendor Settings** (`/vendor/settings`) - Notifications card
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: One entry per notification type
+   */
+  app.get("/api/notifications/preferences", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      res.json(await getEffectiveNotificationPreferences(req.user.id, notificationAudience(req.user.userType)));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /notifications/preferences:
+   *   put:
+   *     tags: [Notifications]
+   *     summary: Update notification preferences
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [preferences]
+   *             properties:
+   *               preferences:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [type, inApp, email]
+   *                   properties:
+   *                     type:
+   *                       type: string
+   *                       description: A type returned by GET /notifications/preferences for the user's role
+   *                       enum: [order.created, order.status_changed, refund.requested, refund.status_changed, product.reviewed, ticket.replied, compliance.held, compliance.decided, credit.requested, credit.decided, invoice.issued, invoice.reminder, invoice.paid]
+   *                     inApp: { type: boolean }
+   *                     email: { type: boolean }
+   *     responses:
+   *       200:
+   *         description: Updated preferences for every type the user's role receives
+   *       400:
+   *         description: Invalid preferences, or a type the user's role does not receive
+   */
+  app.put("/api/notifications/preferences", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const preferencesSchema = z.object({
+        preferences: z.array(z.object({
+          type: z.enum(notificationEventTypes),
+          inApp: z.boolean(),
+          email: z.boolean(),
+        })).min(1),
+      });
+      const { preferences } = preferencesSchema.parse(req.body);
+
+      const audience = notificationAudience(req.user.userType);
+      const foreign = preferences.find(preference => !notificationTypeDefaults[preference.type].audience.includes(audience));
+      if (foreign) {
+        return res.status(400).json({ error: `${foreign.type} notifications are not sent to your account` });
+      }
+
+      await storage.setNotificationPreferences(req.user.id, preferences);
+      res.json(await getEffectiveNotificationPreferences(req.user.id, audience));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /notifications/{notificationId}/read:
+   *   post:
+   *     tags: [Notifications]
+   *     summary: Mark notification as read
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: notificationId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Notification marked as read
+   *       404:
+   *         description: Notification not found
+   */
+  app.post("/api/notifications/:notificationId/read", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const notification = await storage.markNotificationRead(req.user.id, parseInt(req.params.notificationId));
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      publishNotificationCount(req.user.id).catch(error => console.error("Error sending notification count:", error));
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /notifications/read-all:
+   *   post:
+   *     tags: [Notifications]
+   *     summary: Mark all notifications as read
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: All notifications marked as read
+   */
+  app.post("/api/notifications/read-all", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const count = await storage.markAllNotificationsRead(req.user.id);
+      publishNotificationCount(req.user.id).catch(error => console.error("Error sending notification count:", error));
+      res.json({ marked: count });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /notifications/{notificationId}:
+   *   delete:
+   *     tags: [Notifications]
+   *     summary: Delete a notification
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: notificationId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Notification deleted
+   *       404:
+   *         description: Notification not found
+   */
+  app.delete("/api/notifications/:notificationId", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const deleted = await storage.deleteNotification(req.user.id, parseInt(req.params.notificationId));
+      if (!deleted) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting notification:", error);
+      res.status(500).json({ error: "Failed to delete notification" });
+    }
+  });
+
+  // ===== VENDOR NOTIFICATIONS APIs =====
+
+  /**
+   * @swagger
+   * /vendor/notifications:
+   *   get:
+   *     tags: [Vendor Panel]
+   *     summary: Get vendor notifications
+   *     description: Returns paginated notifications for the authenticated vendor
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: type
+   *         schema: { type: string, enum: [order_new, order_status, refund_request, payout, approval, product_review] }
+   *       - in: query
+   *         name: unreadOnly
+   *         schema: { type: boolean, default: false }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
+   *     responses:
+   *       200:
+   *         description: Notifications list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 notifications: { type: array }
+   *                 total: { type: integer }
+   *                 unreadCount: { type: integer }
+   */
+  app.get("/api/vendor/notifications", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const { type, unreadOnly, page, limit } = req.query;
+      const result = await storage.getNotifications(req.user.id, {
+        type: type as string,
+        unreadOnly: unreadOnly === 'true',
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/notifications/{notificationId}/read:
+   *   post:
+   *     tags: [Vendor Panel]
+   *     summary: Mark notification as read
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: notificationId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Notification marked as read
+   */
+  app.post("/api/vendor/notifications/:notificationId/read", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const notificationId = parseInt(req.params.notificationId);
+      const notification = await storage.markNotificationRead(req.user.id, notificationId);
+      
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      
+      publishNotificationCount(req.user.id).catch(error => console.error("Error sending notification count:", error));
+      
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/notifications/read-all:
+   *   post:
+   *     tags: [Vendor Panel]
+   *     summary: Mark all notifications as read
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: All notifications marked as read
+   */
+  app.post("/api/vendor/notifications/read-all", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const count = await storage.markAllNotificationsRead(req.user.id);
+      publishNotificationCount(req.user.id).catch(error => console.error("Error sending notification count:", error));
+      res.json({ marked: count });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/notifications/{notificationId}:
+   *   delete:
+   *     tags: [Vendor Panel]
+   *     summary: Delete a notification
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: notificationId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Notification deleted
+   */
+  app.delete("/api/vendor/notifications/:notificationId", async (req, res) => {
+    try {
+      if (!req.user || req.user.userType !== 'vendor') {
+        return res.status(403).json({ error: "Vendor access required" });
+      }
+
+      const notificationId = parseInt(req.params.notificationId);
+      const deleted = await storage.deleteNotification(req.user.id, notificationId);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting notification:", error);
+      res.status(500).json({ error: "Failed to delete notification" });
+    }
+  });
+
+  // ===== ADMIN PANEL APIs =====
+
+  // Admin middleware helper
+  function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (req.user.userType !== 'admin' && req.user.userType !== 'super_admin') {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+    next();
+  }
+
+  /**
+   * @swagger
+   * /admin/dashboard:
+   *   get:
+   *     tags: [Admin]
+   *     summary: Get admin dashboard statistics
+   *     description: Returns platform-wide statistics for the admin dashboard
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Dashboard statistics
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 totalSellers: { type: integer }
+   *                 activeSellers: { type: integer }
+   *                 pendingApprovals: { type: integer }
+   *                 totalProducts: { type: integer }
+   *                 totalOrders: { type: integer }
+   *                 totalRevenue: { type: number }
+   *                 totalCustomers: { type: integer }
+   *                 totalRefunds: { type: integer }
+   */
+  app.get("/api/admin/dashboard", requireAdmin, async (req, res) => {
+    try {
+      const stats = await storage.getAdminDashboardStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching admin dashboard stats:", error);
+      res.status(500).json({ error: "Failed to fetch dashboard statistics" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/sellers:
+   *   get:
+   *     tags: [Admin - Sellers]
+   *     summary: Get all sellers with filters and pagination
+   *     description: Returns a paginated list of sellers with their profiles and stats
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, in_progress, pending_verification, under_review, approved, rejected]
+   *         description: Filter by onboarding status
+   *       - in: query
+   *         name: search
+   *         schema:
+   *           type: string
+   *         description: Search by name, email, or username
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *       - in: query
+   *         name: sortOrder
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *           default: desc
+   *     responses:
+   *       200:
+   *         description: Paginated list of sellers
+   */
+  app.get("/api/admin/sellers", requireAdmin, async (req, res) => {
+    try {
+      const { status, search, page, limit, sortOrder } = req.query;
+      
+      const result = await storage.getAllSellers({
+        status: status as string,
+        search: search as string,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20,
+        sortOrder: (sortOrder as 'asc' | 'desc') || 'desc',
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching sellers:", error);
+      res.status(500).json({ error: "Failed to fetch sellers" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/sellers/{id}:
+   *   get:
+   *     tags: [Admin - Sellers]
+   *     summary: Get seller details
+   *     description: Returns detailed information about a specific seller
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Seller details with profile, stats, and recent orders
+   *       404:
+   *         description: Seller not found
+   */
+  app.get("/api/admin/sellers/:id", requireAdmin, async (req, res) => {
+    try {
+      const seller = await storage.getSellerDetails(req.params.id);
+      
+      if (!seller) {
+        return res.status(404).json({ error: "Seller not found" });
+      }
+      
+      res.json(seller);
+    } catch (error) {
+      console.error("Error fetching seller details:", error);
+      res.status(500).json({ error: "Failed to fetch seller details" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/sellers/{id}/status:
+   *   patch:
+   *     tags: [Admin - Sellers]
+   *     summary: Update seller status
+   *     description: Approve, reject, or update seller onboarding status
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [status]
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [approved, rejected, pending_verification, under_review]
+   *               note:
+   *                 type: string
+   *               rejectionReason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Updated vendor profile
+   */
+  app.patch("/api/admin/sellers/:id/status", requireAdmin, async (req, res) => {
+    try {
+      const { status, note, rejectionReason } = req.body;
+      const validStatuses = ['approved', 'rejected', 'pending_verification', 'under_review'];
+      
+      if (!status || !validStatuses.includes(status)) {
+        return res.status(400).json({ error: "Invalid status. Must be one of: " + validStatuses.join(', ') });
+      }
+      
+      if (status === 'rejected' && !rejectionReason) {
+        return res.status(400).json({ error: "Rejection reason is required when rejecting a seller" });
+      }
+      
+      // Get seller before update for logging
+      const sellerBefore = await storage.getSellerDetails(req.params.id);
+      if (!sellerBefore) {
+        return res.status(404).json({ error: "Seller not found" });
+      }
+      
+      const updated = await storage.updateSellerStatus(
+        req.params.id,
+        status,
+        req.user!.id,
+        note,
+        rejectionReason
+      );
+      
+      if (!updated) {
+        return res.status(404).json({ error: "Seller profile not found" });
+      }
+      
+      // Log admin action
+      const actionType = status === 'approved' ? 'seller_approved' : 
+                        status === 'rejected' ? 'seller_rejected' : 'settings_changed';
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: actionType as any,
+        targetType: 'user',
+        targetId: req.params.id,
+        previousValue: JSON.stringify({ status: sellerBefore.userProfile?.onboardingStatus }),
+        newValue: JSON.stringify({ status, note, rejectionReason }),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating seller status:", error);
+      res.status(500).json({ error: "Failed to update seller status" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/sellers/{id}/suspend:
+   *   post:
+   *     tags: [Admin - Sellers]
+   *     summary: Suspend a seller account
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [reason]
+   *             properties:
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Seller suspended
+   */
+  app.post("/api/admin/sellers/:id/suspend", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = req.body;
+      
+      if (!reason) {
+        return res.status(400).json({ error: "Suspension reason is required" });
+      }
+      
+      const suspended = await storage.suspendUser(req.params.id, req.user!.id, reason);
+      
+      if (!suspended) {
+        return res.status(404).json({ error: "Seller not found" });
+      }
+      
+      // Log admin action
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'seller_suspended',
+        targetType: 'user',
+        targetId: req.params.id,
+        newValue: JSON.stringify({ reason }),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.json({ success: true, user: suspended });
+    } catch (error) {
+      console.error("Error suspending seller:", error);
+      res.status(500).json({ error: "Failed to suspend seller" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/sellers/{id}/activate:
+   *   post:
+   *     tags: [Admin - Sellers]
+   *     summary: Activate a suspended seller account
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Seller activated
+   */
+  app.post("/api/admin/sellers/:id/activate", requireAdmin, async (req, res) => {
+    try {
+      const activated = await storage.activateUser(req.params.id, req.user!.id);
+      
+      if (!activated) {
+        return res.status(404).json({ error: "Seller not found" });
+      }
+      
+      // Log admin action
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'seller_activated',
+        targetType: 'user',
+        targetId: req.params.id,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.json({ success: true, user: activated });
+    } catch (error) {
+      console.error("Error activating seller:", error);
+      res.status(500).json({ error: "Failed to activate seller" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/action-logs:
+   *   get:
+   *     tags: [Admin]
+   *     summary: Get admin action logs
+   *     description: Returns audit trail of admin actions
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: adminId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: actionType
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: targetType
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: targetId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Paginated list of admin action logs
+   */
+  app.get("/api/admin/action-logs", requireAdmin, async (req, res) => {
+    try {
+      const { adminId, actionType, targetType, targetId, page, limit } = req.query;
+      
+      const result = await storage.getAdminActionLogs({
+        adminId: adminId as string,
+        actionType: actionType as string,
+        targetType: targetType as string,
+        targetId: targetId as string,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 50,
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching admin action logs:", error);
+      res.status(500).json({ error: "Failed to fetch action logs" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/admins:
+   *   get:
+   *     tags: [Admin]
+   *     summary: Get all admin users
+   *     description: Returns list of admin and super_admin users
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of admin users
+   */
+  app.get("/api/admin/admins", requireAdmin, async (req, res) => {
+    try {
+      const admins = await storage.getAllAdmins();
+      res.json(admins);
+    } catch (error) {
+      console.error("Error fetching admins:", error);
+      res.status(500).json({ error: "Failed to fetch admins" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/admins:
+   *   post:
+   *     tags: [Admin]
+   *     summary: Create a new admin user
+   *     description: Only super_admin can create new admin users
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name, email, password]
+   *             properties:
+   *               name: { type: string }
+   *               email: { type: string, format: email }
+   *               password: { type: string, minLength: 6 }
+   *     responses:
+   *       201:
+   *         description: Admin created successfully
+   *       403:
+   *         description: Only super_admin can create admins
+   */
+  app.post("/api/admin/admins", requireAdmin, async (req, res) => {
+    try {
+      // Only super_admin can create new admins
+      if (req.user!.userType !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can create new admin users" });
+      }
+      
+      const { name, email, password } = req.body;
+      
+      if (!name || !email || !password) {
+        return res.status(400).json({ error: "Name, email, and password are required" });
+      }
+      
+      if (password.length < 6) {
+        return res.status(400).json({ error: "Password must be at least 6 characters" });
+      }
+      
+      // Check if email exists
+      const existing = await storage.getUserByEmail(email);
+      if (existing) {
+        return res.status(400).json({ error: "Email already registered" });
+      }
+      
+      // Hash password
+      const hashedPassword = await bcrypt.hash(password, 10);
+      
+      const admin = await storage.createAdmin({
+        name,
+        email,
+        password: hashedPassword,
+        userType: 'admin',
+      });
+      
+      // Log admin action
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'admin_created',
+        targetType: 'user',
+        targetId: admin.id,
+        newValue: JSON.stringify({ name, email }),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.status(201).json({
+        id: admin.id,
+        name: admin.name,
+        email: admin.email,
+        userType: admin.userType,
+        createdAt: admin.createdAt,
+      });
+    } catch (error) {
+      console.error("Error creating admin:", error);
+      res.status(500).json({ error: "Failed to create admin" });
+    }
+  });
+
+  // ===== PRODUCT REFERENCE DATA APIs =====
+
+  /**
+   * @swagger
+   * /products/reference/{type}:
+   *   get:
+   *     tags: [Products]
+   *     summary: Get product reference data
+   *     description: Returns reference data for product dropdowns (sizes, colors, features, etc.)
+   *     parameters:
+   *       - in: path
+   *         name: type
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [sizes, colors, features, performance, thickness, materials, driveTypes, dimensionUnits, weightUnits, controlledItemTypes, pricingTerms, manufacturingSources]
+   *     responses:
+   *       200:
+   *         description: Reference data list
+   */
+  app.get("/api/products/reference/:type", async (req, res) => {
+    try {
+      const data = await storage.getProductReferenceData(req.params.type);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching product reference data:", error);
+      res.status(500).json({ error: "Failed to fetch reference data" });
+    }
+  });
+
+  // ===== VENDOR PRODUCT APIs =====
+
+  /**
+   * @swagger
+   * /vendor/products:
+   *   get:
+   *     tags: [Vendor Products]
+   *     summary: List vendor's products
+   *     description: Returns paginated list of vendor's products with optional filters
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [draft, pending_review, approved, rejected, suspended]
+   *       - in: query
+   *         name: search
+   *         schema: { type: string }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
+   *     responses:
+   *       200:
+   *         description: Paginated list of vendor products
+   *       401:
+   *         description: Not authenticated
+   */
+  app.get("/api/vendor/products", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const { status, search, page, limit } = req.query;
+      const result = await storage.getVendorProducts(req.user.id, {
+        status: status as string,
+        search: search as string,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching vendor products:", error);
+      res.status(500).json({ error: "Failed to fetch products" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Create a new product draft
+   *     description: |
+   *       Creates a new product in draft status for the authenticated vendor.
+   *       This initializes an empty product that can be populated through PATCH updates.
+   *       Use the returned product ID to update product data via PATCH /vendor/products/{id}.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       201:
+   *         description: Product draft created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/VendorProduct'
+   *       401:
+   *         description: Not authenticated or not a vendor
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/vendor/products", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.createProductDraft(req.user.id);
+      res.status(201).json(product);
+    } catch (error) {
+      console.error("Error creating product draft:", error);
+      res.status(500).json({ error: "Failed to create product draft" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}:
+   *   get:
+   *     tags: [Vendor Products]
+   *     summary: Get product details
+   *     description: Returns full product details including media and pricing tiers
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Product details
+   *       404:
+   *         description: Product not found
+   */
+  app.get("/api/vendor/products/:id", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductWithDetails(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      res.json(product);
+    } catch (error) {
+      console.error("Error fetching product:", error);
+      res.status(500).json({ error: "Failed to fetch product" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}:
+   *   patch:
+   *     tags: [Vendor Products]
+   *     summary: Update product data
+   *     description: |
+   *       Updates product fields (auto-saves as draft). Submit any combination of product fields.
+   *       The product remains in draft status until explicitly submitted for review.
+   *       See VendorProductInput schema for all available fields organized by tabs.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *         description: Product ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/VendorProductInput'
+   *           examples:
+   *             basicInfo:
+   *               summary: Tab 1 - Basic Information
+   *               value:
+   *                 name: "Armored Door Panel - Level 4"
+   *                 sku: "ADP-L4-2024"
+   *                 mainCategoryId: 1
+   *                 categoryId: 5
+   *                 vehicleCompatibility: "Land Cruiser 200 Series"
+   *                 certifications: "NIJ Level IV"
+   *                 countryOfOrigin: "USA"
+   *             technicalSpecs:
+   *               summary: Tab 2 - Technical Specifications
+   *               value:
+   *                 dimensionLength: 120.5
+   *                 dimensionWidth: 80.3
+   *                 dimensionHeight: 5.2
+   *                 dimensionUnit: "cm"
+   *                 materials: ["Hardened Steel", "Kevlar Composite"]
+   *                 features: ["Blast Resistant", "Corrosion Protected"]
+   *                 technicalDescription: "Advanced composite armor..."
+   *             variants:
+   *               summary: Tab 2 - Available Variants
+   *               value:
+   *                 driveTypes: ["4WD", "AWD"]
+   *                 sizes: ["Standard", "Extended"]
+   *                 thickness: ["25mm", "30mm"]
+   *                 colors: ["Black", "Gray"]
+   *                 weightValue: 45.5
+   *                 weightUnit: "kg"
+   *                 minOrderQuantity: 2
+   *             pricing:
+   *               summary: Tab 3 - Pricing & Availability
+   *               value:
+   *                 basePrice: 4599.99
+   *                 currency: "USD"
+   *                 pricingTerms: ["FOB", "CIF"]
+   *                 productionLeadTime: 45
+   *                 readyStockAvailable: true
+   *                 stock: 25
+   *             compliance:
+   *               summary: Tab 5 - Compliance & Declarations
+   *               value:
+   *                 manufacturingSource: "OEM"
+   *                 requiresExportLicense: true
+   *                 hasWarranty: true
+   *                 warrantyDuration: 24
+   *                 warrantyDurationUnit: "months"
+   *                 complianceConfirmed: true
+   *     responses:
+   *       200:
+   *         description: Product updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/VendorProduct'
+   *       404:
+   *         description: Product not found
+   *       403:
+   *         description: Access denied - not your product
+   */
+  app.patch("/api/vendor/products/:id", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      // Validate category IDs if provided
+      const { mainCategoryId, categoryId, subCategoryId } = req.body;
+      const categoryIds = [mainCategoryId, categoryId, subCategoryId].filter(id => id !== undefined && id !== null);
+      
+      if (categoryIds.length > 0) {
+        const validCategories = await storage.validateCategoryIds(categoryIds);
+        const invalidIds = categoryIds.filter(id => !validCategories.includes(id));
+        
+        if (invalidIds.length > 0) {
+          return res.status(400).json({ 
+            error: "Invalid category IDs", 
+            invalidIds,
+            message: `The following category IDs do not exist: ${invalidIds.join(', ')}`
+          });
+        }
+      }
+
+      const categoryError = await validateProductCategories(req.body, product);
+      if (categoryError) {
+        return res.status(400).json({ error: "Invalid category path", message: categoryError });
+      }
+      
+      const updated = await storage.updateProductData(parseInt(req.params.id), req.body);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating product:", error);
+      res.status(500).json({ error: "Failed to update product" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}/submit:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Submit product for review
+   *     description: Submits a draft product for admin review
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Product submitted for review
+   *       400:
+   *         description: Product not ready for submission
+   */
+  app.post("/api/vendor/products/:id/submit", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      if (product.status !== 'draft' && product.status !== 'rejected') {
+        return res.status(400).json({ error: "Only draft or rejected products can be submitted" });
+      }
+      
+      const updated = await storage.submitProductForReview(parseInt(req.params.id));
+      publishAdminQueue('products');
+      res.json(updated);
+    } catch (error) {
+      console.error("Error submitting product:", error);
+      res.status(500).json({ error: "Failed to submit product" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}:
+   *   delete:
+   *     tags: [Vendor Products]
+   *     summary: Delete a product
+   *     description: Deletes a product (only drafts can be deleted)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       204:
+   *         description: Product deleted
+   *       400:
+   *         description: Cannot delete non-draft product
+   */
+  app.delete("/api/vendor/products/:id", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      if (product.status !== 'draft') {
+        return res.status(400).json({ error: "Only draft products can be deleted" });
+      }
+      
+      await storage.deleteProduct(parseInt(req.params.id), req.user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting product:", error);
+      res.status(500).json({ error: "Failed to delete product" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}/media:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Add product media
+   *     description: |
+   *       Adds an image or file to the product. Upload it first with `POST /uploads`
+   *       (purpose `product_media`); URL, name, size and type are taken from the upload.
+   *       Product images are then resized in the background into thumbnail, card, gallery and
+   *       zoom renditions (AVIF and WebP); `processingStatus` moves from `pending` to `ready`.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [type, fileId]
+   *             properties:
+   *               type: { type: string, enum: [product_image, cad_file, certificate, msds, manual, video] }
+   *               fileId: { type: string, description: "ID returned by POST /uploads" }
+   *               isCover: { type: boolean }
+   *               displayOrder: { type: integer }
+   *     responses:
+   *       201:
+   *         description: Media added
+   *       400:
+   *         description: Invalid body, or fileId is not one of your product_media uploads
+   */
+  app.post("/api/vendor/products/:id/media", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const mediaSchema = z.object({
+        type: z.enum(['product_image', 'cad_file', 'certificate', 'msds', 'manual', 'video']),
+        fileId: z.string(),
+        isCover: z.boolean().optional(),
+        displayOrder: z.number().int().min(0).optional(),
+      });
+      const data = mediaSchema.parse(req.body);
+
+      const file = await getOwnedUpload(data.fileId, req.user.id, ['product_media']);
+      if (!file) {
+        return res.status(400).json({ error: "fileId must be one of your product_media uploads" });
+      }
+      if (data.type === 'product_image' && !isProcessableImage(file.mimeType)) {
+        return res.status(400).json({ error: "Product images must be JPEG, PNG or WebP" });
+      }
+      
+      const media = await storage.addProductMedia({
+        productId: parseInt(req.params.id),
+        type: data.type,
+        url: fileUrl(file),
+        fileName: file.fileName,
+        fileSize: file.size,
+        mimeType: file.mimeType,
+        isCover: data.isCover,
+        displayOrder: data.displayOrder,
+        processingStatus: data.type === 'product_image' ? 'pending' : null,
+      });
+      if (media.processingStatus === 'pending') {
+        queueProductMediaProcessing(media.id);
+      }
+      res.status(201).json(media);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error adding product media:", error);
+      res.status(500).json({ error: "Failed to add media" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}/media/{mediaId}:
+   *   delete:
+   *     tags: [Vendor Products]
+   *     summary: Delete product media
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *       - in: path
+   *         name: mediaId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       204:
+   *         description: Media deleted
+   */
+  app.delete("/api/vendor/products/:id/media/:mediaId", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      await storage.deleteProductMedia(parseInt(req.params.mediaId));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting product media:", error);
+      res.status(500).json({ error: "Failed to delete media" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}/media/{mediaId}/cover:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Set cover image
+   *     description: Sets a media item as the product cover image
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *       - in: path
+   *         name: mediaId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Cover image set
+   */
+  app.post("/api/vendor/products/:id/media/:mediaId/cover", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      await storage.setProductCoverImage(parseInt(req.params.id), parseInt(req.params.mediaId));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error setting cover image:", error);
+      res.status(500).json({ error: "Failed to set cover image" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}/pricing-tiers:
+   *   put:
+   *     tags: [Vendor Products]
+   *     summary: Set pricing tiers
+   *     description: Replaces all pricing tiers for a product
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               tiers:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [minQuantity, price]
+   *                   properties:
+   *                     minQuantity: { type: integer }
+   *                     maxQuantity: { type: integer }
+   *                     price: { type: number }
+   *     responses:
+   *       200:
+   *         description: Pricing tiers updated
+   */
+  app.put("/api/vendor/products/:id/pricing-tiers", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
       }
-
-      const financials = await storage.getVendorFinancials(req.user.id);
-      res.json(financials);
+      
+      const { tiers } = req.body;
+      const tiersWithProductId = (tiers || []).map((tier: any) => ({
+        ...tier,
+        productId: parseInt(req.params.id),
+      }));
+      
+      const updatedTiers = await storage.setProductPricingTiers(parseInt(req.params.id), tiersWithProductId);
+      res.json(updatedTiers);
     } catch (error) {
-      console.error("Error fetching vendor financials:", error);
-      res.status(500).json({ error: "Failed to fetch financial data" });
+      console.error("Error setting pricing tiers:", error);
+      res.status(500).json({ error: "Failed to set pricing tiers" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/financials/monthly:
+   * /vendor/products/{id}/variants:
    *   get:
-   *     tags: [Vendor Panel]
-   *     summary: Get monthly earnings breakdown
-   *     description: Returns earnings, commission, and net by month
+   *     tags: [Vendor Products]
+   *     summary: List product variants
+   *     description: Returns all variants of the product, including deactivated ones
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: query
-   *         name: months
-   *         schema: { type: integer, default: 12 }
-   *         description: Number of months to return
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
    *       200:
-   *         description: Monthly earnings data
+   *         description: Variants in display order
    */
-  app.get("/api/vendor/financials/monthly", async (req, res) => {
+  app.get("/api/vendor/products/:id/variants", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      const months = req.query.months ? parseInt(req.query.months as string) : 12;
-      const data = await storage.getVendorEarningsByMonth(req.user.id, months);
-      res.json(data);
+      const variants = await storage.getProductVariants(product.id);
+      res.json(variants);
     } catch (error) {
-      console.error("Error fetching monthly earnings:", error);
-      res.status(500).json({ error: "Failed to fetch monthly earnings" });
+      console.error("Error fetching product variants:", error);
+      res.status(500).json({ error: "Failed to fetch product variants" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/commission:
-   *   get:
-   *     tags: [Vendor Panel]
-   *     summary: Get vendor's commission rate
-   *     description: Returns the vendor's current commission percentage
+   * /vendor/products/{id}/variants:
+   *   put:
+   *     tags: [Vendor Products]
+   *     summary: Set product variants
+   *     description: |
+   *       Replaces the product's variant matrix. Each variant is one combination of the product's
+   *       sizes, colours, thickness and drive types, with its own SKU and stock, an optional price
+   *       that overrides the product price (volume tiers then do not apply) and an optional image
+   *       from the product's media. Send `id` to update an existing variant; variants left out are
+   *       deactivated and removed from carts. While variants exist the product stock is their total.
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               variants:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [sku, stock]
+   *                   properties:
+   *                     id: { type: integer }
+   *                     sku: { type: string }
+   *                     size: { type: string }
+   *                     color: { type: string }
+   *                     thickness: { type: string }
+   *                     driveType: { type: string }
+   *                     price: { type: string, nullable: true }
+   *                     stock: { type: integer }
+   *                     mediaId: { type: integer, nullable: true }
    *     responses:
    *       200:
-   *         description: Commission info
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 percent: { type: string }
-   *                 isCustom: { type: boolean }
+   *         description: Variants updated
+   *       400:
+   *         description: Option value not offered by the product, duplicate combination or SKU, or unknown media
    */
-  app.get("/api/vendor/commission", async (req, res) => {
+  app.put("/api/vendor/products/:id/variants", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const product = await storage.getProductWithDetails(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      const commission = await storage.getVendorCommission(req.user.id);
-      res.json(commission);
+      const option = z.string().trim().min(1).max(100).nullable().optional();
+      const { variants } = z.object({
+        variants: z.array(z.object({
+          id: z.number().int().optional(),
+          sku: z.string().trim().min(1).max(100),
+          size: option,
+          color: option,
+          thickness: option,
+          driveType: option,
+          price: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable().optional(),
+          stock: z.number().int().min(0),
+          mediaId: z.number().int().nullable().optional(),
+        })).max(200),
+      }).parse(req.body);
+
+      // Option values must come from the product's own option lists
+      const offered: Record<VariantOptionField, string[] | null> = {
+        size: product.sizes,
+        color: product.colors,
+        thickness: product.thickness,
+        driveType: product.driveTypes,
+      };
+      const existingIds = new Set(product.variants.map(v => v.id));
+      const mediaIds = new Set(product.media.map(m => m.id));
+      const combinations = new Set<string>();
+      const skus = new Set<string>();
+
+      for (const variant of variants) {
+        for (const field of variantOptionFields) {
+          const value = variant[field];
+          if (value && !(offered[field] || []).includes(value)) {
+            return res.status(400).json({ error: `${value} is not one of the product's ${field} options` });
+          }
+        }
+        const combination = variantOptionFields.map(field => variant[field] || '').join('|');
+        if (combinations.has(combination)) {
+          return res.status(400).json({ error: `Variant ${describeVariant(variant) || 'without options'} is listed twice` });
+        }
+        combinations.add(combination);
+        if (skus.has(variant.sku.toLowerCase())) {
+          return res.status(400).json({ error: `SKU ${variant.sku} is used by more than one variant` });
+        }
+        skus.add(variant.sku.toLowerCase());
+        if (variant.id && !existingIds.has(variant.id)) {
+          return res.status(400).json({ error: `Variant ${variant.id} not found on this product` });
+        }
+        if (variant.mediaId && !mediaIds.has(variant.mediaId)) {
+          return res.status(400).json({ error: `Media ${variant.mediaId} not found on this product` });
+        }
+      }
+
+      const updated = await storage.setProductVariants(product.id, variants.map(variant => ({
+        ...variant,
+        size: variant.size ?? null,
+        color: variant.color ?? null,
+        thickness: variant.thickness ?? null,
+        driveType: variant.driveType ?? null,
+        price: variant.price ?? null,
+        mediaId: variant.mediaId ?? null,
+      })));
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching commission:", error);
-      res.status(500).json({ error: "Failed to fetch commission" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error setting product variants:", error);
+      res.status(500).json({ error: "Failed to set product variants" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/refunds:
-   *   get:
-   *     tags: [Vendor Panel]
-   *     summary: Get refund requests for vendor's products
-   *     description: Returns refund requests that involve the vendor's products
+   * /vendor/products/{id}/fitment:
+   *   put:
+   *     tags: [Vendor Products]
+   *     summary: Set vehicle fitment
+   *     description: Replaces the catalogue vehicles a product fits
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: query
-   *         name: status
-   *         schema: { type: string, enum: [pending, under_review, approved, rejected, processing, completed, failed] }
-   *       - in: query
-   *         name: page
-   *         schema: { type: integer, default: 1 }
-   *       - in: query
-   *         name: limit
-   *         schema: { type: integer, default: 10 }
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               fitments:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [vehicleId]
+   *                   properties:
+   *                     vehicleId: { type: integer }
+   *                     notes: { type: string }
    *     responses:
    *       200:
-   *         description: List of refund requests
+   *         description: Fitment updated
+   *       400:
+   *         description: Unknown vehicle IDs
    */
-  app.get("/api/vendor/refunds", async (req, res) => {
+  app.put("/api/vendor/products/:id/fitment", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      const { status, page, limit } = req.query;
-      const result = await storage.getVendorRefunds(req.user.id, {
-        status: status as string,
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
-      });
-      
-      res.json(result);
+      const { fitments } = z.object({
+        fitments: z.array(z.object({
+          vehicleId: z.number().int(),
+          notes: z.string().max(500).nullable().optional(),
+        })),
+      }).parse(req.body);
+
+      const uniqueFitments = fitments.filter((f, i) => fitments.findIndex(o => o.vehicleId === f.vehicleId) === i);
+      for (let i = 0; i < uniqueFitments.length; i++) {
+        if (!(await storage.getVehicleById(uniqueFitments[i].vehicleId))) {
+          return res.status(400).json({ error: `Vehicle ${uniqueFitments[i].vehicleId} not found in catalogue` });
+        }
+      }
+
+      const updated = await storage.setProductFitments(product.id, uniqueFitments);
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching vendor refunds:", error);
-      res.status(500).json({ error: "Failed to fetch refunds" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error setting product fitment:", error);
+      res.status(500).json({ error: "Failed to set product fitment" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/inventory/bulk:
-   *   put:
-   *     tags: [Vendor Panel]
-   *     summary: Bulk update product inventory
-   *     description: Updates stock levels for multiple products at once
+   * /vendor/fitment/import:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Bulk import vehicle fitment
+   *     description: |
+   *       Links many of the vendor's products to catalogue vehicles at once. Send either `rows` as JSON
+   *       or `csv` text with the header `sku,productId,platform,make,model,variant,yearFrom,yearTo,notes`
+   *       (only `make`, `model` and one of `sku`/`productId` are required).
+   *       
+   *       Vehicles not yet in the catalogue are added. Links that already exist are skipped,
+   *       and rows that fail are reported by row number without stopping the import.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -4151,673 +10089,955 @@ export async function registerRoutes(
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [updates]
    *             properties:
-   *               updates:
+   *               csv: { type: string }
+   *               rows:
    *                 type: array
    *                 items:
    *                   type: object
+   *                   required: [make, model]
    *                   properties:
    *                     productId: { type: integer }
-   *                     stock: { type: integer }
+   *                     sku: { type: string }
+   *                     platform: { type: string }
+   *                     make: { type: string }
+   *                     model: { type: string }
+   *                     variant: { type: string }
+   *                     yearFrom: { type: integer }
+   *                     yearTo: { type: integer }
+   *                     notes: { type: string }
    *     responses:
    *       200:
-   *         description: Update result
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 updated: { type: integer }
-   *                 failed: { type: integer }
+   *         description: |
+   *           Import summary with linked, skipped and vehiclesCreated counts. Rows that fail
+   *           validation or matching are listed in `errors` by row number; the other rows are imported.
+   *       400:
+   *         description: No rows, or more than 5000
    */
-  app.put("/api/vendor/inventory/bulk", async (req, res) => {
+  app.post("/api/vendor/fitment/import", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const optionalInt = z.preprocess(v => v === '' || v === null ? undefined : v, z.coerce.number().int().optional());
+      const optionalText = z.preprocess(v => v === '' || v === null ? undefined : v, z.string().trim().optional());
+      const rowSchema = z.object({
+        productId: optionalInt,
+        sku: optionalText,
+        platform: optionalText,
+        make: z.string().trim().min(1),
+        model: z.string().trim().min(1),
+        variant: optionalText,
+        yearFrom: optionalInt,
+        yearTo: optionalInt,
+        notes: optionalText,
+      });
+
+      const rawRows = typeof req.body.csv === 'string' ? parseCsv(req.body.csv) : req.body.rows;
+      if (!Array.isArray(rawRows) || rawRows.length === 0) {
+        return res.status(400).json({ error: "Provide fitment rows or CSV text" });
+      }
+      if (rawRows.length > 5000) {
+        return res.status(400).json({ error: "A single import is limited to 5000 rows" });
+      }
+
+      // Invalid rows are reported alongside storage errors; the valid rows are still imported
+      const rows: FitmentImportRow[] = [];
+      const invalidRows: FitmentImportResult['errors'] = [];
+      rawRows.forEach((rawRow, i) => {
+        const parsed = rowSchema.safeParse(rawRow);
+        if (parsed.success) {
+          rows.push({ ...parsed.data, row: i + 1 });
+        } else {
+          invalidRows.push({
+            row: i + 1,
+            error: parsed.error.errors.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`).join('; '),
+          });
+        }
+      });
+
+      const result = await storage.importProductFitments(req.user.id, rows);
+      result.errors = [...invalidRows, ...result.errors].sort((a, b) => a.row - b.row);
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing fitment:", error);
+      res.status(500).json({ error: "Failed to import fitment" });
+    }
+  });
+
+  // ===== VENDOR CATALOGUE IMPORT & EXPORT =====
+
+  /**
+   * @swagger
+   * /vendor/catalog/import/preview:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Dry-run a catalogue import
+   *     description: |
+   *       Validates an uploaded catalogue file without changing anything. Upload the CSV or XLSX
+   *       first with `POST /uploads` (purpose `catalog_import`). The file uses the layout of
+   *       `GET /vendor/catalog/export`: one product per row, with `sku` required and headers named
+   *       after the product fields. Rows match your products by `productId` or `sku`; other rows
+   *       create drafts, which need a `name`.
+   *       
+   *       List columns (`materials`, `features`, `pricingTerms`, ...) separate values with `|` and must
+   *       use entries from the product reference data. `pricingTiers` is written as
+   *       `1-9:4599.99|10-49:4399|50+:4100`. `imageUrls` takes your `/api/files/{fileId}` uploads or
+   *       https links, which are downloaded during the import. Blank cells keep the current value.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [fileId]
+   *             properties:
+   *               fileId: { type: string, description: "ID returned by POST /uploads" }
+   *     responses:
+   *       200:
+   *         description: Counts of rows to create and update, the action per valid row, and row-level errors
+   *       400:
+   *         description: Not a catalog_import upload, or the file cannot be read (unknown columns, no rows, too many rows)
+   */
+  app.post("/api/vendor/catalog/import/preview", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      const { fileId } = z.object({ fileId: z.string() }).parse(req.body);
+      const file = await getOwnedUpload(fileId, req.user.id, ['catalog_import']);
+      if (!file) {
+        return res.status(400).json({ error: "fileId must be one of your catalog_import uploads" });
       }
 
-      const { updates } = req.body;
-      
-      if (!updates || !Array.isArray(updates)) {
-        return res.status(400).json({ error: "Updates array is required" });
+      const parsed = await parseCatalogFile(file);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
       }
-      
-      const result = await storage.updateVendorStock(req.user.id, updates);
-      res.json(result);
+
+      const { preview } = await planCatalogImport(req.user.id, parsed.rows);
+      res.json(preview);
     } catch (error) {
-      console.error("Error updating inventory:", error);
-      res.status(500).json({ error: "Failed to update inventory" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error previewing catalogue import:", error);
+      res.status(500).json({ error: "Failed to preview catalogue import" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/onboarding/status:
-   *   get:
-   *     tags: [Vendor Panel]
-   *     summary: Get vendor onboarding status
-   *     description: Returns the vendor's current onboarding status and review information
+   * /vendor/catalog/import:
+   *   post:
+   *     tags: [Vendor Products]
+   *     summary: Start a catalogue import
+   *     description: |
+   *       Queues a background import of an uploaded catalogue file (see the preview endpoint for the
+   *       format). Valid rows are saved and invalid ones are skipped and listed in the job's errors;
+   *       poll `GET /vendor/catalog/imports/{jobId}` or listen for `catalog_import.updated` on the
+   *       realtime channel. With `submitForReview`, imported drafts are submitted for review.
    *     security:
    *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [fileId]
+   *             properties:
+   *               fileId: { type: string }
+   *               submitForReview: { type: boolean, default: false }
    *     responses:
-   *       200:
-   *         description: Onboarding status
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 status: { type: string }
-   *                 currentStep: { type: integer }
-   *                 submittedAt: { type: string, format: date-time }
-   *                 reviewedAt: { type: string, format: date-time }
-   *                 rejectionReason: { type: string }
-   *                 reviewNote: { type: string }
+   *       202:
+   *         description: Import job queued
+   *       400:
+   *         description: Not a catalog_import upload, or the file cannot be read
    */
-  app.get("/api/vendor/onboarding/status", async (req, res) => {
+  app.post("/api/vendor/catalog/import", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
+      const data = z.object({
+        fileId: z.string(),
+        submitForReview: z.boolean().optional(),
+      }).parse(req.body);
+      const file = await getOwnedUpload(data.fileId, req.user.id, ['catalog_import']);
+      if (!file) {
+        return res.status(400).json({ error: "fileId must be one of your catalog_import uploads" });
       }
 
-      const profile = await storage.getUserProfile(req.user.id);
-      
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor profile not found" });
+      const parsed = await parseCatalogFile(file);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
       }
-      
-      res.json({
-        status: profile.onboardingStatus,
-        currentStep: profile.currentStep,
-        submittedAt: profile.submittedAt,
-        reviewedAt: profile.reviewedAt,
-        rejectionReason: profile.rejectionReason,
-        reviewNote: profile.reviewNote,
+
+      const job = await storage.createCatalogImportJob({
+        vendorId: req.user.id,
+        fileId: file.id,
+        submitForReview: !!data.submitForReview,
+        totalRows: parsed.rows.length,
       });
+      queueCatalogImport(job.id);
+      res.status(202).json(job);
     } catch (error) {
-      console.error("Error fetching onboarding status:", error);
-      res.status(500).json({ error: "Failed to fetch status" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error starting catalogue import:", error);
+      res.status(500).json({ error: "Failed to start catalogue import" });
     }
   });
 
-  // ===== VENDOR NOTIFICATIONS APIs =====
-
   /**
    * @swagger
-   * /vendor/notifications:
+   * /vendor/catalog/imports:
    *   get:
-   *     tags: [Vendor Panel]
-   *     summary: Get vendor notifications
-   *     description: Returns paginated notifications for the authenticated vendor
+   *     tags: [Vendor Products]
+   *     summary: List recent catalogue imports
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: query
-   *         name: type
-   *         schema: { type: string, enum: [order_new, order_status, refund_request, payout, approval, product_review] }
-   *       - in: query
-   *         name: unreadOnly
-   *         schema: { type: boolean, default: false }
-   *       - in: query
-   *         name: page
-   *         schema: { type: integer, default: 1 }
-   *       - in: query
-   *         name: limit
-   *         schema: { type: integer, default: 20 }
    *     responses:
    *       200:
-   *         description: Notifications list
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 notifications: { type: array }
-   *                 total: { type: integer }
-   *                 unreadCount: { type: integer }
+   *         description: The vendor's 20 most recent import jobs, newest first
    */
-  app.get("/api/vendor/notifications", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
-      }
+  app.get("/api/vendor/catalog/imports", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
 
-      const { type, unreadOnly, page, limit } = req.query;
-      const result = await storage.getVendorNotifications(req.user.id, {
-        type: type as string,
-        unreadOnly: unreadOnly === 'true',
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
-      });
-      
-      res.json(result);
+    try {
+      const jobs = await storage.getCatalogImportJobs(req.user.id);
+      res.json(jobs);
     } catch (error) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ error: "Failed to fetch notifications" });
+      console.error("Error fetching catalogue imports:", error);
+      res.status(500).json({ error: "Failed to fetch catalogue imports" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/notifications/{notificationId}/read:
-   *   post:
-   *     tags: [Vendor Panel]
-   *     summary: Mark notification as read
+   * /vendor/catalog/imports/{jobId}:
+   *   get:
+   *     tags: [Vendor Products]
+   *     summary: Get a catalogue import
+   *     description: Progress and counts of an import job, with the errors of every skipped row
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: notificationId
+   *         name: jobId
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: Notification marked as read
+   *         description: Import job with errors
+   *       404:
+   *         description: Import not found
    */
-  app.post("/api/vendor/notifications/:notificationId/read", async (req, res) => {
-    try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
-      }
+  app.get("/api/vendor/catalog/imports/:jobId", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
 
-      const notificationId = parseInt(req.params.notificationId);
-      const notification = await storage.markNotificationRead(req.user.id, notificationId);
-      
-      if (!notification) {
-        return res.status(404).json({ error: "Notification not found" });
+    try {
+      const job = await storage.getCatalogImportJob(req.params.jobId);
+      if (!job || job.vendorId !== req.user.id) {
+        return res.status(404).json({ error: "Import not found" });
       }
-      
-      res.json(notification);
+      res.json(job);
     } catch (error) {
-      console.error("Error marking notification read:", error);
-      res.status(500).json({ error: "Failed to mark notification as read" });
+      console.error("Error fetching catalogue import:", error);
+      res.status(500).json({ error: "Failed to fetch catalogue import" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/notifications/read-all:
-   *   post:
-   *     tags: [Vendor Panel]
-   *     summary: Mark all notifications as read
+   * /vendor/catalog/export:
+   *   get:
+   *     tags: [Vendor Products]
+   *     summary: Export the vendor catalogue
+   *     description: |
+   *       Downloads every product of the vendor, with pricing tiers and image URLs, in the layout the
+   *       catalogue import accepts. Edit it in a spreadsheet and import it again to update products in bulk.
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema: { type: string, enum: [csv, xlsx], default: csv }
    *     responses:
    *       200:
-   *         description: All notifications marked as read
+   *         description: Catalogue file
    */
-  app.post("/api/vendor/notifications/read-all", async (req, res) => {
+  app.get("/api/vendor/catalog/export", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
-      }
+      const format = req.query.format === 'xlsx' ? 'xlsx' : 'csv';
+      const body = await exportCatalog(req.user.id, format);
+      const date = new Date().toISOString().split('T')[0];
 
-      const count = await storage.markAllNotificationsRead(req.user.id);
-      res.json({ marked: count });
+      res.setHeader('Content-Disposition', `attachment; filename="catalogue-${date}.${format}"`);
+      res.setHeader('Content-Type', format === 'csv'
+        ? 'text/csv; charset=utf-8'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(body);
     } catch (error) {
-      console.error("Error marking notifications read:", error);
-      res.status(500).json({ error: "Failed to mark notifications as read" });
+      console.error("Error exporting catalogue:", error);
+      res.status(500).json({ error: "Failed to export catalogue" });
     }
   });
 
+  // ===== ADMIN PRODUCT APIs =====
+
   /**
    * @swagger
-   * /vendor/notifications/{notificationId}:
-   *   delete:
-   *     tags: [Vendor Panel]
-   *     summary: Delete a notification
+   * /admin/products:
+   *   get:
+   *     tags: [Admin Products]
+   *     summary: List all products for admin
+   *     description: Returns paginated list of all products with optional filters
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: notificationId
-   *         required: true
-   *         schema: { type: integer }
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [draft, pending_review, approved, rejected, suspended]
+   *       - in: query
+   *         name: vendorId
+   *         schema: { type: string }
+   *       - in: query
+   *         name: search
+   *         schema: { type: string }
+   *       - in: query
+   *         name: isFeatured
+   *         schema: { type: boolean }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
    *     responses:
    *       200:
-   *         description: Notification deleted
+   *         description: Paginated list of products
+   *       401:
+   *         description: Not authenticated
    */
-  app.delete("/api/vendor/notifications/:notificationId", async (req, res) => {
+  app.get("/api/admin/products", requireAdmin, async (req, res) => {
     try {
-      if (!req.user || req.user.userType !== 'vendor') {
-        return res.status(403).json({ error: "Vendor access required" });
-      }
-
-      const notificationId = parseInt(req.params.notificationId);
-      const deleted = await storage.deleteNotification(req.user.id, notificationId);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: "Notification not found" });
-      }
-      
-      res.json({ success: true });
+      const { status, vendorId, search, isFeatured, page, limit } = req.query;
+      const result = await storage.getProductsForAdmin({
+        status: status as string,
+        vendorId: vendorId as string,
+        search: search as string,
+        isFeatured: isFeatured === 'true' ? true : isFeatured === 'false' ? false : undefined,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
     } catch (error) {
-      console.error("Error deleting notification:", error);
-      res.status(500).json({ error: "Failed to delete notification" });
+      console.error("Error fetching products for admin:", error);
+      res.status(500).json({ error: "Failed to fetch products" });
     }
   });
 
-  // ===== ADMIN PANEL APIs =====
-
-  // Admin middleware helper
-  function requireAdmin(req: Request, res: Response, next: NextFunction) {
-    if (!req.user) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    if (req.user.userType !== 'admin' && req.user.userType !== 'super_admin') {
-      return res.status(403).json({ error: "Admin access required" });
-    }
-    next();
-  }
-
   /**
    * @swagger
-   * /admin/dashboard:
+   * /admin/products/{id}:
    *   get:
-   *     tags: [Admin]
-   *     summary: Get admin dashboard statistics
-   *     description: Returns platform-wide statistics for the admin dashboard
+   *     tags: [Admin Products]
+   *     summary: Get product details for admin
+   *     description: Returns full product details including media, pricing, and vendor info
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
-   *       200:
-   *         description: Dashboard statistics
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 totalSellers: { type: integer }
-   *                 activeSellers: { type: integer }
-   *                 pendingApprovals: { type: integer }
-   *                 totalProducts: { type: integer }
-   *                 totalOrders: { type: integer }
-   *                 totalRevenue: { type: number }
-   *                 totalCustomers: { type: integer }
-   *                 totalRefunds: { type: integer }
+   *       200:
+   *         description: Product details
+   *       404:
+   *         description: Product not found
    */
-  app.get("/api/admin/dashboard", requireAdmin, async (req, res) => {
+  app.get("/api/admin/products/:id", requireAdmin, async (req, res) => {
     try {
-      const stats = await storage.getAdminDashboardStats();
-      res.json(stats);
+      const product = await storage.getProductWithDetails(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.json(product);
     } catch (error) {
-      console.error("Error fetching admin dashboard stats:", error);
-      res.status(500).json({ error: "Failed to fetch dashboard statistics" });
+      console.error("Error fetching product:", error);
+      res.status(500).json({ error: "Failed to fetch product" });
     }
   });
 
   /**
    * @swagger
-   * /admin/sellers:
-   *   get:
-   *     tags: [Admin - Sellers]
-   *     summary: Get all sellers with filters and pagination
-   *     description: Returns a paginated list of sellers with their profiles and stats
+   * /admin/products/{id}/approve:
+   *   post:
+   *     tags: [Admin Products]
+   *     summary: Approve a product
+   *     description: Approves a pending product for listing
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: query
-   *         name: status
-   *         schema:
-   *           type: string
-   *           enum: [pending, in_progress, pending_verification, under_review, approved, rejected]
-   *         description: Filter by onboarding status
-   *       - in: query
-   *         name: search
-   *         schema:
-   *           type: string
-   *         description: Search by name, email, or username
-   *       - in: query
-   *         name: page
-   *         schema:
-   *           type: integer
-   *           default: 1
-   *       - in: query
-   *         name: limit
-   *         schema:
-   *           type: integer
-   *           default: 20
-   *       - in: query
-   *         name: sortOrder
-   *         schema:
-   *           type: string
-   *           enum: [asc, desc]
-   *           default: desc
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               note: { type: string }
    *     responses:
    *       200:
-   *         description: Paginated list of sellers
+   *         description: Product approved
    */
-  app.get("/api/admin/sellers", requireAdmin, async (req, res) => {
+  app.post("/api/admin/products/:id/approve", requireAdmin, async (req, res) => {
     try {
-      const { status, search, page, limit, sortOrder } = req.query;
+      const { note } = req.body;
+      const product = await storage.approveProduct(parseInt(req.params.id), req.user!.id, note);
       
-      const result = await storage.getAllSellers({
-        status: status as string,
-        search: search as string,
-        page: page ? parseInt(page as string) : 1,
-        limit: limit ? parseInt(limit as string) : 20,
-        sortOrder: (sortOrder as 'asc' | 'desc') || 'desc',
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'product_approved',
+        targetType: 'product',
+        targetId: req.params.id,
+        newValue: 'approved',
+        note,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
+      emitDomainEvent('product.reviewed', { productId: product.id, decision: 'approved', note });
       
-      res.json(result);
+      res.json(product);
     } catch (error) {
-      console.error("Error fetching sellers:", error);
-      res.status(500).json({ error: "Failed to fetch sellers" });
+      console.error("Error approving product:", error);
+      res.status(500).json({ error: "Failed to approve product" });
     }
   });
 
   /**
    * @swagger
-   * /admin/sellers/{id}:
-   *   get:
-   *     tags: [Admin - Sellers]
-   *     summary: Get seller details
-   *     description: Returns detailed information about a specific seller
+   * /admin/products/{id}/reject:
+   *   post:
+   *     tags: [Admin Products]
+   *     summary: Reject a product
+   *     description: Rejects a product with a reason
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema:
-   *           type: string
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [reason]
+   *             properties:
+   *               reason: { type: string }
    *     responses:
    *       200:
-   *         description: Seller details with profile, stats, and recent orders
-   *       404:
-   *         description: Seller not found
+   *         description: Product rejected
    */
-  app.get("/api/admin/sellers/:id", requireAdmin, async (req, res) => {
+  app.post("/api/admin/products/:id/reject", requireAdmin, async (req, res) => {
     try {
-      const seller = await storage.getSellerDetails(req.params.id);
+      const { reason } = req.body;
       
-      if (!seller) {
-        return res.status(404).json({ error: "Seller not found" });
+      if (!reason) {
+        return res.status(400).json({ error: "Rejection reason is required" });
       }
       
-      res.json(seller);
+      const product = await storage.rejectProduct(parseInt(req.params.id), req.user!.id, reason);
+      
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'product_rejected',
+        targetType: 'product',
+        targetId: req.params.id,
+        newValue: 'rejected',
+        note: reason,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      emitDomainEvent('product.reviewed', { productId: product.id, decision: 'rejected', note: reason });
+      
+      res.json(product);
     } catch (error) {
-      console.error("Error fetching seller details:", error);
-      res.status(500).json({ error: "Failed to fetch seller details" });
+      console.error("Error rejecting product:", error);
+      res.status(500).json({ error: "Failed to reject product" });
     }
   });
 
   /**
    * @swagger
-   * /admin/sellers/{id}/status:
-   *   patch:
-   *     tags: [Admin - Sellers]
-   *     summary: Update seller status
-   *     description: Approve, reject, or update seller onboarding status
+   * /admin/products/{id}/suspend:
+   *   post:
+   *     tags: [Admin Products]
+   *     summary: Suspend a product
+   *     description: Suspends an approved product
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema:
-   *           type: string
+   *         schema: { type: integer }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [status]
+   *             required: [reason]
    *             properties:
-   *               status:
-   *                 type: string
-   *                 enum: [approved, rejected, pending_verification, under_review]
-   *               note:
-   *                 type: string
-   *               rejectionReason:
-   *                 type: string
+   *               reason: { type: string }
    *     responses:
    *       200:
-   *         description: Updated vendor profile
+   *         description: Product suspended
    */
-  app.patch("/api/admin/sellers/:id/status", requireAdmin, async (req, res) => {
+  app.post("/api/admin/products/:id/suspend", requireAdmin, async (req, res) => {
     try {
-      const { status, note, rejectionReason } = req.body;
-      const validStatuses = ['approved', 'rejected', 'pending_verification', 'under_review'];
+      const { reason } = req.body;
       
-      if (!status || !validStatuses.includes(status)) {
-        return res.status(400).json({ error: "Invalid status. Must be one of: " + validStatuses.join(', ') });
+      if (!reason) {
+        return res.status(400).json({ error: "Suspension reason is required" });
       }
       
-      if (status === 'rejected' && !rejectionReason) {
-        return res.status(400).json({ error: "Rejection reason is required when rejecting a seller" });
-      }
+      const product = await storage.suspendProduct(parseInt(req.params.id), req.user!.id, reason);
       
-      // Get seller before update for logging
-      const sellerBefore = await storage.getSellerDetails(req.params.id);
-      if (!sellerBefore) {
-        return res.status(404).json({ error: "Seller not found" });
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
       }
       
-      const updated = await storage.updateSellerStatus(
-        req.params.id,
-        status,
-        req.user!.id,
-        note,
-        rejectionReason
-      );
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'product_approved', // Using existing enum
+        targetType: 'product',
+        targetId: req.params.id,
+        previousValue: 'approved',
+        newValue: 'suspended',
+        note: reason,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      emitDomainEvent('product.reviewed', { productId: product.id, decision: 'suspended', note: reason });
       
-      if (!updated) {
-        return res.status(404).json({ error: "Seller profile not found" });
+      res.json(product);
+    } catch (error) {
+      console.error("Error suspending product:", error);
+      res.status(500).json({ error: "Failed to suspend product" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/products/{id}/feature:
+   *   post:
+   *     tags: [Admin Products]
+   *     summary: Feature/unfeature a product
+   *     description: |
+   *       Toggles the featured status of a product. An optional window limits when the product
+   *       appears in `GET /api/products/featured`; lower `featuredRank` values are shown first.
+   *       Unfeaturing clears the window.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [featured]
+   *             properties:
+   *               featured: { type: boolean }
+   *               featuredFrom: { type: string, format: date-time, nullable: true }
+   *               featuredUntil: { type: string, format: date-time, nullable: true }
+   *               featuredRank: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Product feature status updated
+   *       400:
+   *         description: Invalid featured flag or scheduling window
+   */
+  app.post("/api/admin/products/:id/feature", requireAdmin, async (req, res) => {
+    try {
+      const { featured } = req.body;
+      
+      if (typeof featured !== 'boolean') {
+        return res.status(400).json({ error: "Featured must be a boolean" });
+      }
+
+      const schedule = z.object({
+        featuredFrom: z.coerce.date().nullable().optional(),
+        featuredUntil: z.coerce.date().nullable().optional(),
+        featuredRank: z.number().int().optional(),
+      }).parse(req.body);
+
+      if (schedule.featuredFrom && schedule.featuredUntil && schedule.featuredUntil <= schedule.featuredFrom) {
+        return res.status(400).json({ error: "featuredUntil must be after featuredFrom" });
       }
       
-      // Log admin action
-      const actionType = status === 'approved' ? 'seller_approved' : 
-                        status === 'rejected' ? 'seller_rejected' : 'settings_changed';
+      const product = await storage.featureProduct(parseInt(req.params.id), featured, schedule);
+      
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
       
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: actionType as any,
-        targetType: 'user',
+        actionType: featured ? 'product_featured' : 'product_unfeatured',
+        targetType: 'product',
         targetId: req.params.id,
-        previousValue: JSON.stringify({ status: sellerBefore.userProfile?.onboardingStatus }),
-        newValue: JSON.stringify({ status, note, rejectionReason }),
+        newValue: featured ? 'featured' : 'unfeatured',
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
       
-      res.json(updated);
+      res.json(product);
     } catch (error) {
-      console.error("Error updating seller status:", error);
-      res.status(500).json({ error: "Failed to update seller status" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error featuring product:", error);
+      res.status(500).json({ error: "Failed to feature product" });
     }
   });
 
   /**
    * @swagger
-   * /admin/sellers/{id}/suspend:
+   * /admin/products/{id}/notes:
    *   post:
-   *     tags: [Admin - Sellers]
-   *     summary: Suspend a seller account
+   *     tags: [Admin Products]
+   *     summary: Add a review note to a product
+   *     description: Adds admin feedback/comment to a product for the seller to see
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema:
-   *           type: string
+   *         schema: { type: integer }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [reason]
+   *             required: [message]
    *             properties:
-   *               reason:
-   *                 type: string
+   *               message: { type: string }
+   *               requiresChanges: { type: boolean, description: "Flag if seller needs to make changes" }
+   *               isVisibleToSeller: { type: boolean, default: true }
    *     responses:
-   *       200:
-   *         description: Seller suspended
+   *       201:
+   *         description: Note added
    */
-  app.post("/api/admin/sellers/:id/suspend", requireAdmin, async (req, res) => {
+  app.post("/api/admin/products/:id/notes", requireAdmin, async (req, res) => {
     try {
-      const { reason } = req.body;
+      const { message, requiresChanges, isVisibleToSeller } = req.body;
       
-      if (!reason) {
-        return res.status(400).json({ error: "Suspension reason is required" });
+      if (!message || message.trim() === '') {
+        return res.status(400).json({ error: "Message is required" });
       }
       
-      const suspended = await storage.suspendUser(req.params.id, req.user!.id, reason);
-      
-      if (!suspended) {
-        return res.status(404).json({ error: "Seller not found" });
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
       }
       
-      // Log admin action
+      const note = await storage.addProductReviewNote({
+        productId: parseInt(req.params.id),
+        adminId: req.user!.id,
+        message: message.trim(),
+        requiresChanges: requiresChanges ?? false,
+        isVisibleToSeller: isVisibleToSeller ?? true,
+      });
+      
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'seller_suspended',
-        targetType: 'user',
+        actionType: 'product_note_added',
+        targetType: 'product',
         targetId: req.params.id,
-        newValue: JSON.stringify({ reason }),
+        note: message.substring(0, 100),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
       
-      res.json({ success: true, user: suspended });
+      res.status(201).json(note);
     } catch (error) {
-      console.error("Error suspending seller:", error);
-      res.status(500).json({ error: "Failed to suspend seller" });
+      console.error("Error adding product note:", error);
+      res.status(500).json({ error: "Failed to add note" });
     }
   });
 
   /**
    * @swagger
-   * /admin/sellers/{id}/activate:
-   *   post:
-   *     tags: [Admin - Sellers]
-   *     summary: Activate a suspended seller account
+   * /admin/products/{id}/notes:
+   *   get:
+   *     tags: [Admin Products]
+   *     summary: Get all review notes for a product
+   *     description: Returns all admin notes for a product (including internal notes)
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema:
-   *           type: string
+   *         schema: { type: integer }
    *     responses:
    *       200:
-   *         description: Seller activated
+   *         description: List of review notes
    */
-  app.post("/api/admin/sellers/:id/activate", requireAdmin, async (req, res) => {
+  app.get("/api/admin/products/:id/notes", requireAdmin, async (req, res) => {
     try {
-      const activated = await storage.activateUser(req.params.id, req.user!.id);
-      
-      if (!activated) {
-        return res.status(404).json({ error: "Seller not found" });
+      const notes = await storage.getProductReviewNotes(parseInt(req.params.id), false);
+      res.json(notes);
+    } catch (error) {
+      console.error("Error fetching product notes:", error);
+      res.status(500).json({ error: "Failed to fetch notes" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/products/{id}/notes:
+   *   get:
+   *     tags: [Vendor Products]
+   *     summary: Get admin feedback on a product
+   *     description: Returns admin notes/feedback visible to the seller
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: List of visible review notes
+   */
+  app.get("/api/vendor/products/:id/notes", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+    
+    try {
+      const product = await storage.getProductById(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (product.vendorId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
       }
       
-      // Log admin action
+      const notes = await storage.getProductReviewNotes(parseInt(req.params.id), true);
+      res.json(notes);
+    } catch (error) {
+      console.error("Error fetching product notes:", error);
+      res.status(500).json({ error: "Failed to fetch notes" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/vehicles:
+   *   post:
+   *     tags: [Vehicles]
+   *     summary: Add a catalogue vehicle
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [make, model]
+   *             properties:
+   *               platform: { type: string }
+   *               make: { type: string }
+   *               model: { type: string }
+   *               variant: { type: string }
+   *               yearFrom: { type: integer }
+   *               yearTo: { type: integer }
+   *     responses:
+   *       201:
+   *         description: Vehicle created
+   *       400:
+   *         description: Validation error
+   */
+  app.post("/api/admin/vehicles", requireAdmin, async (req, res) => {
+    try {
+      const data = insertVehicleSchema.parse(req.body);
+      if (data.yearFrom && data.yearTo && data.yearFrom > data.yearTo) {
+        return res.status(400).json({ error: "yearFrom must not be after yearTo" });
+      }
+
+      const vehicle = await storage.createVehicle(data);
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'seller_activated',
-        targetType: 'user',
-        targetId: req.params.id,
+        actionType: 'vehicle_created',
+        targetType: 'vehicle',
+        targetId: vehicle.id.toString(),
+        newValue: JSON.stringify(vehicle),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json({ success: true, user: activated });
+
+      res.status(201).json(vehicle);
     } catch (error) {
-      console.error("Error activating seller:", error);
-      res.status(500).json({ error: "Failed to activate seller" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating vehicle:", error);
+      res.status(500).json({ error: "Failed to create vehicle" });
     }
   });
 
   /**
    * @swagger
-   * /admin/action-logs:
-   *   get:
-   *     tags: [Admin]
-   *     summary: Get admin action logs
-   *     description: Returns audit trail of admin actions
+   * /admin/vehicles/{id}:
+   *   patch:
+   *     tags: [Vehicles]
+   *     summary: Update a catalogue vehicle
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: query
-   *         name: adminId
-   *         schema:
-   *           type: string
-   *       - in: query
-   *         name: actionType
-   *         schema:
-   *           type: string
-   *       - in: query
-   *         name: targetType
-   *         schema:
-   *           type: string
-   *       - in: query
-   *         name: targetId
-   *         schema:
-   *           type: string
-   *       - in: query
-   *         name: page
-   *         schema:
-   *           type: integer
-   *       - in: query
-   *         name: limit
-   *         schema:
-   *           type: integer
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
    *       200:
-   *         description: Paginated list of admin action logs
+   *         description: Vehicle updated
+   *       404:
+   *         description: Vehicle not found
    */
-  app.get("/api/admin/action-logs", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/vehicles/:id", requireAdmin, async (req, res) => {
     try {
-      const { adminId, actionType, targetType, targetId, page, limit } = req.query;
-      
-      const result = await storage.getAdminActionLogs({
-        adminId: adminId as string,
-        actionType: actionType as string,
-        targetType: targetType as string,
-        targetId: targetId as string,
-        page: page ? parseInt(page as string) : 1,
-        limit: limit ? parseInt(limit as string) : 50,
+      const existing = await storage.getVehicleById(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      const data = insertVehicleSchema.partial().parse(req.body);
+      const yearFrom = data.yearFrom !== undefined ? data.yearFrom : existing.yearFrom;
+      const yearTo = data.yearTo !== undefined ? data.yearTo : existing.yearTo;
+      if (yearFrom && yearTo && yearFrom > yearTo) {
+        return res.status(400).json({ error: "yearFrom must not be after yearTo" });
+      }
+
+      const vehicle = await storage.updateVehicle(existing.id, data);
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'vehicle_updated',
+        targetType: 'vehicle',
+        targetId: existing.id.toString(),
+        previousValue: JSON.stringify(existing),
+        newValue: JSON.stringify(vehicle),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(result);
+
+      res.json(vehicle);
     } catch (error) {
-      console.error("Error fetching admin action logs:", error);
-      res.status(500).json({ error: "Failed to fetch action logs" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating vehicle:", error);
+      res.status(500).json({ error: "Failed to update vehicle" });
     }
   });
 
   /**
    * @swagger
-   * /admin/admins:
-   *   get:
-   *     tags: [Admin]
-   *     summary: Get all admin users
-   *     description: Returns list of admin and super_admin users
+   * /admin/vehicles/{id}:
+   *   delete:
+   *     tags: [Vehicles]
+   *     summary: Delete a catalogue vehicle
+   *     description: Also removes the vehicle from product fitment and users' garages.
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
-   *       200:
-   *         description: List of admin users
+   *       204:
+   *         description: Vehicle deleted
+   *       404:
+   *         description: Vehicle not found
    */
-  app.get("/api/admin/admins", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/vehicles/:id", requireAdmin, async (req, res) => {
     try {
-      const admins = await storage.getAllAdmins();
-      res.json(admins);
+      const existing = await storage.getVehicleById(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      await storage.deleteVehicle(existing.id);
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'vehicle_deleted',
+        targetType: 'vehicle',
+        targetId: existing.id.toString(),
+        previousValue: JSON.stringify(existing),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching admins:", error);
-      res.status(500).json({ error: "Failed to fetch admins" });
+      console.error("Error deleting vehicle:", error);
+      res.status(500).json({ error: "Failed to delete vehicle" });
     }
   });
 
+  // ===== ADMIN CATEGORY APIs =====
+
   /**
    * @swagger
-   * /admin/admins:
+   * /admin/categories:
    *   post:
-   *     tags: [Admin]
-   *     summary: Create a new admin user
-   *     description: Only super_admin can create new admin users
+   *     tags: [Categories]
+   *     summary: Create a category
+   *     description: |
+   *       Creates a top-level category, or a child when `parentId` is given. The tree is limited to
+   *       three levels (main > category > sub-category). A slug is generated from the name when omitted.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -4826,112 +11046,203 @@ export async function registerRoutes(
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [name, email, password]
+   *             required: [name, image]
    *             properties:
    *               name: { type: string }
-   *               email: { type: string, format: email }
-   *               password: { type: string, minLength: 6 }
+   *               slug: { type: string }
+   *               parentId: { type: integer, nullable: true }
+   *               image: { type: string }
+   *               description: { type: string }
+   *               displayOrder: { type: integer }
    *     responses:
    *       201:
-   *         description: Admin created successfully
-   *       403:
-   *         description: Only super_admin can create admins
+   *         description: Category created
+   *       400:
+   *         description: Validation error, unknown parent or tree too deep
+   *       409:
+   *         description: Slug already in use
    */
-  app.post("/api/admin/admins", requireAdmin, async (req, res) => {
+  app.post("/api/admin/categories", requireAdmin, async (req, res) => {
     try {
-      // Only super_admin can create new admins
-      if (req.user!.userType !== 'super_admin') {
-        return res.status(403).json({ error: "Only super admins can create new admin users" });
+      const data = insertCategorySchema.parse(req.body);
+
+      if (data.parentId) {
+        const parent = await storage.getCategoryById(data.parentId);
+        if (!parent) {
+          return res.status(400).json({ error: "Parent category not found" });
+        }
+        if (await storage.getCategoryDepth(parent.id) >= CATEGORY_MAX_DEPTH) {
+          return res.status(400).json({ error: `Categories can only be nested ${CATEGORY_MAX_DEPTH} levels deep` });
+        }
       }
-      
-      const { name, email, password } = req.body;
-      
-      if (!name || !email || !password) {
-        return res.status(400).json({ error: "Name, email, and password are required" });
+      if (data.slug && await storage.getCategoryBySlug(data.slug)) {
+        return res.status(409).json({ error: "Slug already in use" });
       }
-      
-      if (password.length < 6) {
-        return res.status(400).json({ error: "Password must be at least 6 characters" });
+
+      const category = await storage.createCategory(data);
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'category_created',
+        targetType: 'category',
+        targetId: category.id.toString(),
+        newValue: JSON.stringify(category),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
       }
-      
-      // Check if email exists
-      const existing = await storage.getUserByEmail(email);
-      if (existing) {
-        return res.status(400).json({ error: "Email already registered" });
+      console.error("Error creating category:", error);
+      res.status(500).json({ error: "Failed to create category" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/categories/{id}:
+   *   patch:
+   *     tags: [Categories]
+   *     summary: Update or move a category
+   *     description: |
+   *       Updates a category. Changing `parentId` moves the whole subtree; a category cannot be moved
+   *       under itself or its descendants, or so that the tree exceeds three levels. Renaming keeps the
+   *       existing slug unless a new one is sent.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Category updated
+   *       400:
+   *         description: Validation error or invalid move
+   *       404:
+   *         description: Category not found
+   *       409:
+   *         description: Slug already in use
+   */
+  app.patch("/api/admin/categories/:id", requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getCategoryById(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Category not found" });
       }
-      
-      // Hash password
-      const hashedPassword = await bcrypt.hash(password, 10);
-      
-      const admin = await storage.createAdmin({
-        name,
-        email,
-        password: hashedPassword,
-        userType: 'admin',
-      });
-      
-      // Log admin action
+
+      const data = insertCategorySchema.partial().parse(req.body);
+
+      if (data.parentId !== undefined && data.parentId !== existing.parentId && data.parentId !== null) {
+        const descendants = await storage.getCategoryDescendantIds(existing.id);
+        if (descendants.includes(data.parentId)) {
+          return res.status(400).json({ error: "A category cannot be moved under itself or its descendants" });
+        }
+        const parent = await storage.getCategoryById(data.parentId);
+        if (!parent) {
+          return res.status(400).json({ error: "Parent category not found" });
+        }
+        const depth = await storage.getCategoryDepth(parent.id) + await storage.getCategorySubtreeHeight(existing.id);
+        if (depth > CATEGORY_MAX_DEPTH) {
+          return res.status(400).json({ error: `Categories can only be nested ${CATEGORY_MAX_DEPTH} levels deep` });
+        }
+      }
+      if (data.slug && data.slug !== existing.slug) {
+        const taken = await storage.getCategoryBySlug(data.slug);
+        if (taken && taken.id !== existing.id) {
+          return res.status(409).json({ error: "Slug already in use" });
+        }
+      }
+
+      const category = await storage.updateCategory(existing.id, data);
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'admin_created',
-        targetType: 'user',
-        targetId: admin.id,
-        newValue: JSON.stringify({ name, email }),
+        actionType: 'category_updated',
+        targetType: 'category',
+        targetId: existing.id.toString(),
+        previousValue: JSON.stringify(existing),
+        newValue: JSON.stringify(category),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.status(201).json({
-        id: admin.id,
-        name: admin.name,
-        email: admin.email,
-        userType: admin.userType,
-        createdAt: admin.createdAt,
-      });
+
+      res.json(category);
     } catch (error) {
-      console.error("Error creating admin:", error);
-      res.status(500).json({ error: "Failed to create admin" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating category:", error);
+      res.status(500).json({ error: "Failed to update category" });
     }
   });
 
-  // ===== PRODUCT REFERENCE DATA APIs =====
-
   /**
    * @swagger
-   * /products/reference/{type}:
-   *   get:
-   *     tags: [Products]
-   *     summary: Get product reference data
-   *     description: Returns reference data for product dropdowns (sizes, colors, features, etc.)
+   * /admin/categories/{id}:
+   *   delete:
+   *     tags: [Categories]
+   *     summary: Delete a category
+   *     description: Only empty categories can be deleted - move or delete sub-categories and products first.
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: type
+   *         name: id
    *         required: true
-   *         schema:
-   *           type: string
-   *           enum: [sizes, colors, features, performance, thickness, materials, driveTypes, dimensionUnits, weightUnits, controlledItemTypes, pricingTerms, manufacturingSources]
+   *         schema: { type: integer }
    *     responses:
-   *       200:
-   *         description: Reference data list
+   *       204:
+   *         description: Category deleted
+   *       404:
+   *         description: Category not found
+   *       409:
+   *         description: Category still has sub-categories or products
    */
-  app.get("/api/products/reference/:type", async (req, res) => {
+  app.delete("/api/admin/categories/:id", requireAdmin, async (req, res) => {
     try {
-      const data = await storage.getProductReferenceData(req.params.type);
-      res.json(data);
+      const existing = await storage.getCategoryById(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      const usage = await storage.countCategoryUsage(existing.id);
+      if (usage.children > 0 || usage.products > 0) {
+        return res.status(409).json({
+          error: "Category is not empty",
+          message: `Category has ${usage.children} sub-categories and ${usage.products} products`,
+        });
+      }
+
+      await storage.deleteCategory(existing.id);
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'category_deleted',
+        targetType: 'category',
+        targetId: existing.id.toString(),
+        previousValue: JSON.stringify(existing),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching product reference data:", error);
-      res.status(500).json({ error: "Failed to fetch reference data" });
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Failed to delete category" });
     }
   });
 
-  // ===== VENDOR PRODUCT APIs =====
+  // ===== ADMIN VENDOR ONBOARDING APIs =====
 
   /**
    * @swagger
-   * /vendor/products:
+   * /admin/vendors:
    *   get:
-   *     tags: [Vendor Products]
-   *     summary: List vendor's products
-   *     description: Returns paginated list of vendor's products with optional filters
+   *     tags: [Admin Vendors]
+   *     summary: List vendors for admin review
+   *     description: Returns paginated list of vendors. By default shows only vendors pending approval (under_review status).
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -4939,10 +11250,15 @@ export async function registerRoutes(
    *         name: status
    *         schema:
    *           type: string
-   *           enum: [draft, pending_review, approved, rejected, suspended]
+   *           enum: [pending, in_progress, pending_verification, under_review, approved, rejected, suspended]
+   *         description: Filter by onboarding status. Defaults to 'under_review' if not specified.
    *       - in: query
    *         name: search
    *         schema: { type: string }
+   *         description: Search by company name, email, or user name
+   *       - in: query
+   *         name: country
+   *         schema: { type: string }
    *       - in: query
    *         name: page
    *         schema: { type: integer, default: 1 }
@@ -4951,736 +11267,922 @@ export async function registerRoutes(
    *         schema: { type: integer, default: 20 }
    *     responses:
    *       200:
-   *         description: Paginated list of vendor products
-   *       401:
-   *         description: Not authenticated
+   *         description: Paginated list of vendors
+   */
+  app.get("/api/admin/vendors", requireAdmin, async (req, res) => {
+    try {
+      const { status, search, country, category, page, limit } = req.query;
+      const result = await storage.getVendorsForAdmin({
+        status: status as string,
+        search: search as string,
+        country: country as string,
+        category: category as string,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching vendors:", error);
+      res.status(500).json({ error: "Failed to fetch vendors" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/vendors/{userId}:
+   *   get:
+   *     tags: [Admin Vendors]
+   *     summary: Get vendor details
+   *     description: Returns full vendor profile including user info and onboarding details
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Vendor profile details
+   *       404:
+   *         description: Vendor not found
+   */
+  app.get("/api/admin/vendors/:userId", requireAdmin, async (req, res) => {
+    try {
+      const profile = await storage.getUserProfileByUserId(req.params.userId);
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      const user = await storage.getUser(req.params.userId);
+      res.json({ ...profile, user });
+    } catch (error) {
+      console.error("Error fetching vendor:", error);
+      res.status(500).json({ error: "Failed to fetch vendor" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/vendors/{userId}/approve:
+   *   post:
+   *     tags: [Admin Vendors]
+   *     summary: Approve vendor onboarding
+   *     description: Approves a vendor's onboarding application and activates their account
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema: { type: string }
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               note: { type: string }
+   *     responses:
+   *       200:
+   *         description: Vendor approved
    */
-  app.get("/api/vendor/products", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.post("/api/admin/vendors/:userId/approve", requireAdmin, async (req, res) => {
     try {
-      const { status, search, page, limit } = req.query;
-      const result = await storage.getVendorProducts(req.user.id, {
-        status: status as string,
-        search: search as string,
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
+      const { note } = req.body;
+      const profile = await storage.approveVendorOnboarding(req.params.userId, req.user!.id, note);
+      
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'seller_approved',
+        targetType: 'user',
+        targetId: req.params.userId,
+        newValue: 'approved',
+        note,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      res.json(result);
+      
+      res.json(profile);
     } catch (error) {
-      console.error("Error fetching vendor products:", error);
-      res.status(500).json({ error: "Failed to fetch products" });
+      console.error("Error approving vendor:", error);
+      res.status(500).json({ error: "Failed to approve vendor" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products:
+   * /admin/vendors/{userId}/reject:
    *   post:
-   *     tags: [Vendor Products]
-   *     summary: Create a new product draft
-   *     description: |
-   *       Creates a new product in draft status for the authenticated vendor.
-   *       This initializes an empty product that can be populated through PATCH updates.
-   *       Use the returned product ID to update product data via PATCH /vendor/products/{id}.
+   *     tags: [Admin Vendors]
+   *     summary: Reject vendor onboarding
+   *     description: Rejects a vendor's onboarding application with a reason
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [reason]
+   *             properties:
+   *               reason: { type: string }
+   *               note: { type: string }
    *     responses:
-   *       201:
-   *         description: Product draft created successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/VendorProduct'
-   *       401:
-   *         description: Not authenticated or not a vendor
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *       200:
+   *         description: Vendor rejected
    */
-  app.post("/api/vendor/products", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.post("/api/admin/vendors/:userId/reject", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.createProductDraft(req.user.id);
-      res.status(201).json(product);
+      const { reason, note } = req.body;
+      
+      if (!reason) {
+        return res.status(400).json({ error: "Rejection reason is required" });
+      }
+      
+      const profile = await storage.rejectVendorOnboarding(req.params.userId, req.user!.id, reason, note);
+      
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'seller_rejected',
+        targetType: 'user',
+        targetId: req.params.userId,
+        newValue: 'rejected',
+        note: reason,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.json(profile);
     } catch (error) {
-      console.error("Error creating product draft:", error);
-      res.status(500).json({ error: "Failed to create product draft" });
+      console.error("Error rejecting vendor:", error);
+      res.status(500).json({ error: "Failed to reject vendor" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}:
-   *   get:
-   *     tags: [Vendor Products]
-   *     summary: Get product details
-   *     description: Returns full product details including media and pricing tiers
+   * /admin/vendors/{userId}/suspend:
+   *   post:
+   *     tags: [Admin Vendors]
+   *     summary: Suspend a vendor
+   *     description: Suspends an approved vendor's account
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: userId
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [reason]
+   *             properties:
+   *               reason: { type: string }
    *     responses:
    *       200:
-   *         description: Product details
-   *       404:
-   *         description: Product not found
+   *         description: Vendor suspended
    */
-  app.get("/api/vendor/products/:id", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.post("/api/admin/vendors/:userId/suspend", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductWithDetails(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const { reason } = req.body;
+      
+      if (!reason) {
+        return res.status(400).json({ error: "Suspension reason is required" });
       }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
+      
+      const profile = await storage.suspendVendor(req.params.userId, req.user!.id, reason);
+      
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor not found" });
       }
-      res.json(product);
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'seller_suspended',
+        targetType: 'user',
+        targetId: req.params.userId,
+        previousValue: 'approved',
+        newValue: 'suspended',
+        note: reason,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.json(profile);
     } catch (error) {
-      console.error("Error fetching product:", error);
-      res.status(500).json({ error: "Failed to fetch product" });
+      console.error("Error suspending vendor:", error);
+      res.status(500).json({ error: "Failed to suspend vendor" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}:
-   *   patch:
-   *     tags: [Vendor Products]
-   *     summary: Update product data
-   *     description: |
-   *       Updates product fields (auto-saves as draft). Submit any combination of product fields.
-   *       The product remains in draft status until explicitly submitted for review.
-   *       See VendorProductInput schema for all available fields organized by tabs.
+   * /admin/vendors/{userId}/reactivate:
+   *   post:
+   *     tags: [Admin Vendors]
+   *     summary: Reactivate a suspended vendor
+   *     description: Reactivates a suspended vendor's account
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: userId
    *         required: true
-   *         schema: { type: integer }
-   *         description: Product ID
+   *         schema: { type: string }
    *     requestBody:
-   *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/VendorProductInput'
-   *           examples:
-   *             basicInfo:
-   *               summary: Tab 1 - Basic Information
-   *               value:
-   *                 name: "Armored Door Panel - Level 4"
-   *                 sku: "ADP-L4-2024"
-   *                 mainCategoryId: 1
-   *                 categoryId: 5
-   *                 vehicleCompatibility: "Land Cruiser 200 Series"
-   *                 certifications: "NIJ Level IV"
-   *                 countryOfOrigin: "USA"
-   *             technicalSpecs:
-   *               summary: Tab 2 - Technical Specifications
-   *               value:
-   *                 dimensionLength: 120.5
-   *                 dimensionWidth: 80.3
-   *                 dimensionHeight: 5.2
-   *                 dimensionUnit: "cm"
-   *                 materials: ["Hardened Steel", "Kevlar Composite"]
-   *                 features: ["Blast Resistant", "Corrosion Protected"]
-   *                 technicalDescription: "Advanced composite armor..."
-   *             variants:
-   *               summary: Tab 2 - Available Variants
-   *               value:
-   *                 driveTypes: ["4WD", "AWD"]
-   *                 sizes: ["Standard", "Extended"]
-   *                 thickness: ["25mm", "30mm"]
-   *                 colors: ["Black", "Gray"]
-   *                 weightValue: 45.5
-   *                 weightUnit: "kg"
-   *                 minOrderQuantity: 2
-   *             pricing:
-   *               summary: Tab 3 - Pricing & Availability
-   *               value:
-   *                 basePrice: 4599.99
-   *                 currency: "USD"
-   *                 pricingTerms: ["FOB", "CIF"]
-   *                 productionLeadTime: 45
-   *                 readyStockAvailable: true
-   *                 stock: 25
-   *             compliance:
-   *               summary: Tab 5 - Compliance & Declarations
-   *               value:
-   *                 manufacturingSource: "OEM"
-   *                 requiresExportLicense: true
-   *                 hasWarranty: true
-   *                 warrantyDuration: 24
-   *                 warrantyDurationUnit: "months"
-   *                 complianceConfirmed: true
+   *             type: object
+   *             properties:
+   *               note: { type: string }
+   *     responses:
+   *       200:
+   *         description: Vendor reactivated
+   */
+  app.post("/api/admin/vendors/:userId/reactivate", requireAdmin, async (req, res) => {
+    try {
+      const { note } = req.body;
+      const profile = await storage.reactivateVendor(req.params.userId, req.user!.id, note);
+      
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'seller_activated',
+        targetType: 'user',
+        targetId: req.params.userId,
+        previousValue: 'suspended',
+        newValue: 'approved',
+        note,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      
+      res.json(profile);
+    } catch (error) {
+      console.error("Error reactivating vendor:", error);
+      res.status(500).json({ error: "Failed to reactivate vendor" });
+    }
+  });
+
+  // ===== VENDOR ONBOARDING STATUS API =====
+
+  /**
+   * @swagger
+   * /vendor/onboarding/status:
+   *   get:
+   *     tags: [Vendor Onboarding]
+   *     summary: Get vendor's onboarding status
+   *     description: Returns the vendor's current onboarding status and any rejection reasons
+   *     security:
+   *       - bearerAuth: []
    *     responses:
    *       200:
-   *         description: Product updated successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/VendorProduct'
-   *       404:
-   *         description: Product not found
-   *       403:
-   *         description: Access denied - not your product
+   *         description: Onboarding status details
    */
-  app.patch("/api/vendor/products/:id", async (req, res) => {
+  app.get("/api/vendor/onboarding/status", async (req, res) => {
     if (!req.user || req.user.userType !== 'vendor') {
       return res.status(401).json({ error: "Vendor authentication required" });
     }
     
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
-      // Validate category IDs if provided
-      const { mainCategoryId, categoryId, subCategoryId } = req.body;
-      const categoryIds = [mainCategoryId, categoryId, subCategoryId].filter(id => id !== undefined);
-      
-      if (categoryIds.length > 0) {
-        const validCategories = await storage.validateCategoryIds(categoryIds);
-        const invalidIds = categoryIds.filter(id => !validCategories.includes(id));
-        
-        if (invalidIds.length > 0) {
-          return res.status(400).json({ 
-            error: "Invalid category IDs", 
-            invalidIds,
-            message: `The following category IDs do not exist: ${invalidIds.join(', ')}`
-          });
-        }
+      const profile = await storage.getUserProfileByUserId(req.user.id);
+      if (!profile) {
+        return res.status(404).json({ error: "Vendor profile not found" });
       }
       
-      const updated = await storage.updateProductData(parseInt(req.params.id), req.body);
-      res.json(updated);
+      res.json({
+        status: profile.onboardingStatus,
+        currentStep: profile.currentStep,
+        submittedAt: profile.submittedAt,
+        reviewedAt: profile.reviewedAt,
+        rejectionReason: profile.rejectionReason,
+        reviewNote: profile.reviewNote,
+      });
     } catch (error) {
-      console.error("Error updating product:", error);
-      res.status(500).json({ error: "Failed to update product" });
+      console.error("Error fetching onboarding status:", error);
+      res.status(500).json({ error: "Failed to fetch status" });
     }
   });
 
+  // ===== ADMIN ORDERS APIs =====
+
   /**
    * @swagger
-   * /vendor/products/{id}/submit:
-   *   post:
-   *     tags: [Vendor Products]
-   *     summary: Submit product for review
-   *     description: Submits a draft product for admin review
+   * /admin/orders:
+   *   get:
+   *     tags: [Admin Orders]
+   *     summary: List all orders
+   *     description: Returns paginated list of all orders with filters
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, processing, shipped, delivered, cancelled, returned]
+   *       - in: query
+   *         name: vendorId
+   *         schema: { type: string }
+   *         description: Filter by vendor ID
+   *       - in: query
+   *         name: dateFrom
+   *         schema: { type: string, format: date }
+   *       - in: query
+   *         name: dateTo
+   *         schema: { type: string, format: date }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
+   *     responses:
+   *       200:
+   *         description: Paginated list of orders
+   */
+  app.get("/api/admin/orders", requireAdmin, async (req, res) => {
+    try {
+      const { status, vendorId, dateFrom, dateTo, page, limit } = req.query;
+      const result = await storage.getOrdersForAdmin({
+        status: status as string,
+        vendorId: vendorId as string,
+        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+        dateTo: dateTo ? new Date(dateTo as string) : undefined,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/orders/{orderId}:
+   *   get:
+   *     tags: [Admin Orders]
+   *     summary: Get order details
+   *     description: Returns full order details including items, user, and status history
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: orderId
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: Product submitted for review
-   *       400:
-   *         description: Product not ready for submission
+   *         description: Order details
+   *       404:
+   *         description: Order not found
    */
-  app.post("/api/vendor/products/:id/submit", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.get("/api/admin/orders/:orderId", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      if (product.status !== 'draft' && product.status !== 'rejected') {
-        return res.status(400).json({ error: "Only draft or rejected products can be submitted" });
+      const order = await storage.getOrderByIdForAdmin(req.params.orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
       }
-      
-      const updated = await storage.submitProductForReview(parseInt(req.params.id));
-      res.json(updated);
+      res.json(order);
     } catch (error) {
-      console.error("Error submitting product:", error);
-      res.status(500).json({ error: "Failed to submit product" });
+      console.error("Error fetching order:", error);
+      res.status(500).json({ error: "Failed to fetch order" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}:
-   *   delete:
-   *     tags: [Vendor Products]
-   *     summary: Delete a product
-   *     description: Deletes a product (only drafts can be deleted)
+   * /admin/orders/{orderId}/status:
+   *   put:
+   *     tags: [Admin Orders]
+   *     summary: Update order status
+   *     description: Updates the order status (admin only). The new status is applied to every shipment that is not cancelled or returned.
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: orderId
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [status]
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [pending, processing, shipped, delivered, cancelled, returned]
+   *               note: { type: string }
    *     responses:
-   *       204:
-   *         description: Product deleted
-   *       400:
-   *         description: Cannot delete non-draft product
+   *       200:
+   *         description: Order status updated
    */
-  app.delete("/api/vendor/products/:id", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.put("/api/admin/orders/:orderId/status", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
+      const { status, note } = req.body;
+      if (!status) {
+        return res.status(400).json({ error: "Status is required" });
       }
-      if (product.status !== 'draft') {
-        return res.status(400).json({ error: "Only draft products can be deleted" });
+      
+      const order = await storage.updateOrderStatus(req.params.orderId, status, req.user!.id, note);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
       }
       
-      await storage.deleteProduct(parseInt(req.params.id), req.user.id);
-      res.status(204).send();
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'order_status_changed',
+        targetType: 'order',
+        targetId: req.params.orderId,
+        newValue: status,
+        note,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      emitDomainEvent('order.status_changed', { orderId: order.id, status, changedBy: req.user!.id });
+      
+      res.json(order);
     } catch (error) {
-      console.error("Error deleting product:", error);
-      res.status(500).json({ error: "Failed to delete product" });
+      console.error("Error updating order status:", error);
+      res.status(500).json({ error: "Failed to update order status" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}/media:
-   *   post:
-   *     tags: [Vendor Products]
-   *     summary: Add product media
-   *     description: Adds an image or file to the product
+   * /admin/orders/{orderId}/shipments/{shipmentId}/status:
+   *   put:
+   *     tags: [Admin Orders]
+   *     summary: Update shipment status
+   *     description: Updates the status of a single vendor shipment; the parent order status is rolled up from all shipments
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: orderId
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
+   *       - in: path
+   *         name: shipmentId
+   *         required: true
+   *         schema: { type: string }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [type, url]
+   *             required: [status]
    *             properties:
-   *               type: { type: string, enum: [product_image, cad_file, certificate, msds, manual, video] }
-   *               url: { type: string }
-   *               fileName: { type: string }
-   *               fileSize: { type: integer }
-   *               mimeType: { type: string }
-   *               isCover: { type: boolean }
-   *               displayOrder: { type: integer }
+   *               status:
+   *                 type: string
+   *                 enum: [pending, processing, shipped, delivered, cancelled, returned]
+   *               note: { type: string }
+   *               trackingNumber: { type: string }
    *     responses:
-   *       201:
-   *         description: Media added
+   *       200:
+   *         description: Shipment status updated
+   *       404:
+   *         description: Shipment not found
    */
-  app.post("/api/vendor/products/:id/media", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.put("/api/admin/orders/:orderId/shipments/:shipmentId/status", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const { status, note, trackingNumber } = req.body;
+      const validStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'returned'];
+      if (!status || !validStatuses.includes(status)) {
+        return res.status(400).json({ error: "Invalid status" });
       }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
+
+      const shipment = await storage.getShipmentById(req.params.shipmentId);
+      if (!shipment || shipment.orderId !== req.params.orderId) {
+        return res.status(404).json({ error: "Shipment not found" });
       }
-      
-      const media = await storage.addProductMedia({
-        productId: parseInt(req.params.id),
-        ...req.body,
+
+      const updated = await storage.updateShipmentStatus(shipment.id, status, req.user!.id, note, trackingNumber);
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'order_status_changed',
+        targetType: 'shipment',
+        targetId: shipment.id,
+        previousValue: shipment.status,
+        newValue: status,
+        note,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      res.status(201).json(media);
+      if (updated && status !== shipment.status) {
+        emitDomainEvent('order.status_changed', { orderId: shipment.orderId, shipmentId: shipment.id, status, changedBy: req.user!.id });
+      }
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error adding product media:", error);
-      res.status(500).json({ error: "Failed to add media" });
+      console.error("Error updating shipment status:", error);
+      res.status(500).json({ error: "Failed to update shipment status" });
     }
   });
 
+  // ===== ADMIN EXPORT COMPLIANCE APIs =====
+
   /**
    * @swagger
-   * /vendor/products/{id}/media/{mediaId}:
-   *   delete:
-   *     tags: [Vendor Products]
-   *     summary: Delete product media
+   * /admin/compliance/reviews:
+   *   get:
+   *     tags: [Admin Compliance]
+   *     summary: List orders held for export compliance review
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: integer }
-   *       - in: path
-   *         name: mediaId
-   *         required: true
-   *         schema: { type: integer }
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [held, approved, rejected]
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
    *     responses:
-   *       204:
-   *         description: Media deleted
+   *       200:
+   *         description: Paginated reviews with order, buyer and document
    */
-  app.delete("/api/vendor/products/:id/media/:mediaId", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.get("/api/admin/compliance/reviews", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
-      await storage.deleteProductMedia(parseInt(req.params.mediaId));
-      res.status(204).send();
+      const { status, page, limit } = req.query;
+      const parsedStatus = z.enum(['held', 'approved', 'rejected']).safeParse(status);
+      const result = await storage.getComplianceReviews({
+        status: parsedStatus.success ? parsedStatus.data : undefined,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
     } catch (error) {
-      console.error("Error deleting product media:", error);
-      res.status(500).json({ error: "Failed to delete media" });
+      console.error("Error fetching compliance reviews:", error);
+      res.status(500).json({ error: "Failed to fetch compliance reviews" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}/media/{mediaId}/cover:
-   *   post:
-   *     tags: [Vendor Products]
-   *     summary: Set cover image
-   *     description: Sets a media item as the product cover image
+   * /admin/compliance/reviews/{id}:
+   *   get:
+   *     tags: [Admin Compliance]
+   *     summary: Get a compliance review
+   *     description: Returns the review with its screening reasons, the order, the buyer, the document and the audit trail for the order
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema: { type: integer }
-   *       - in: path
-   *         name: mediaId
-   *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: Cover image set
+   *         description: Review details
+   *       404:
+   *         description: Review not found
    */
-  app.post("/api/vendor/products/:id/media/:mediaId/cover", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.get("/api/admin/compliance/reviews/:id", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const review = await storage.getComplianceReviewById(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
       }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
-      await storage.setProductCoverImage(parseInt(req.params.id), parseInt(req.params.mediaId));
-      res.json({ success: true });
+
+      const { entries } = await storage.getComplianceAuditLog({ orderId: review.orderId });
+      res.json({ ...review, audit: entries });
     } catch (error) {
-      console.error("Error setting cover image:", error);
-      res.status(500).json({ error: "Failed to set cover image" });
+      console.error("Error fetching compliance review:", error);
+      res.status(500).json({ error: "Failed to fetch compliance review" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}/pricing-tiers:
-   *   put:
-   *     tags: [Vendor Products]
-   *     summary: Set pricing tiers
-   *     description: Replaces all pricing tiers for a product
+   * /admin/compliance/reviews/{id}/decision:
+   *   post:
+   *     tags: [Admin Compliance]
+   *     summary: Approve or reject a held order
+   *     description: |
+   *       Approving lets the buyer pay for the order. Rejecting cancels the order and releases its stock.
+   *       A note is required when rejecting and is shown to the buyer.
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
+   *             required: [decision]
    *             properties:
-   *               tiers:
-   *                 type: array
-   *                 items:
-   *                   type: object
-   *                   required: [minQuantity, price]
-   *                   properties:
-   *                     minQuantity: { type: integer }
-   *                     maxQuantity: { type: integer }
-   *                     price: { type: number }
+   *               decision: { type: string, enum: [approved, rejected] }
+   *               note: { type: string }
    *     responses:
    *       200:
-   *         description: Pricing tiers updated
+   *         description: Decision recorded
+   *       404:
+   *         description: Review not found
+   *       409:
+   *         description: The review has already been decided
    */
-  app.put("/api/vendor/products/:id/pricing-tiers", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.post("/api/admin/compliance/reviews/:id/decision", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
-      const { tiers } = req.body;
-      const tiersWithProductId = (tiers || []).map((tier: any) => ({
-        ...tier,
-        productId: parseInt(req.params.id),
-      }));
-      
-      const updatedTiers = await storage.setProductPricingTiers(parseInt(req.params.id), tiersWithProductId);
-      res.json(updatedTiers);
-    } catch (error) {
-      console.error("Error setting pricing tiers:", error);
-      res.status(500).json({ error: "Failed to set pricing tiers" });
-    }
-  });
+      const { decision, note } = z.object({
+        decision: z.enum(['approved', 'rejected']),
+        note: z.string().trim().max(2000).optional(),
+      }).refine(data => data.decision !== 'rejected' || !!data.note, {
+        message: "A note is required when rejecting",
+        path: ['note'],
+      }).parse(req.body);
 
-  // ===== ADMIN PRODUCT APIs =====
+      const review = await storage.getComplianceReviewById(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
 
-  /**
-   * @swagger
-   * /admin/products:
-   *   get:
-   *     tags: [Admin Products]
-   *     summary: List all products for admin
-   *     description: Returns paginated list of all products with optional filters
-   *     security:
-   *       - bearerAuth: []
-   *     parameters:
-   *       - in: query
-   *         name: status
-   *         schema:
-   *           type: string
-   *           enum: [draft, pending_review, approved, rejected, suspended]
-   *       - in: query
-   *         name: vendorId
-   *         schema: { type: string }
-   *       - in: query
-   *         name: search
-   *         schema: { type: string }
-   *       - in: query
-   *         name: isFeatured
-   *         schema: { type: boolean }
-   *       - in: query
-   *         name: page
-   *         schema: { type: integer, default: 1 }
-   *       - in: query
-   *         name: limit
-   *         schema: { type: integer, default: 20 }
-   *     responses:
-   *       200:
-   *         description: Paginated list of products
-   *       401:
-   *         description: Not authenticated
-   */
-  app.get("/api/admin/products", requireAdmin, async (req, res) => {
-    try {
-      const { status, vendorId, search, isFeatured, page, limit } = req.query;
-      const result = await storage.getProductsForAdmin({
-        status: status as string,
-        vendorId: vendorId as string,
-        search: search as string,
-        isFeatured: isFeatured === 'true' ? true : isFeatured === 'false' ? false : undefined,
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
+      const updated = await storage.decideComplianceReview(review.id, {
+        status: decision,
+        reviewedBy: req.user!.id,
+        reviewNote: note || null,
       });
-      res.json(result);
+      if (!updated) {
+        return res.status(409).json({ error: "This review has already been decided" });
+      }
+
+      await storage.addComplianceAuditEntry({
+        userId: review.userId,
+        orderId: review.orderId,
+        reviewId: review.id,
+        decision,
+        actorId: req.user!.id,
+        reasons: review.reasons,
+        shippingCountry: review.shippingCountry,
+        documentId: review.documentId,
+        note,
+      });
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: decision === 'approved' ? 'compliance_approved' : 'compliance_rejected',
+        targetType: 'order',
+        targetId: review.orderId,
+        previousValue: review.status,
+        newValue: decision,
+        note,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      if (decision === 'rejected' && review.order.status !== 'cancelled') {
+        await storage.updateOrderStatus(review.orderId, 'cancelled', req.user!.id, note);
+        emitDomainEvent('order.status_changed', { orderId: review.orderId, status: 'cancelled', changedBy: req.user!.id });
+      }
+      emitDomainEvent('compliance.decided', { orderId: review.orderId, reviewId: review.id, decision, note });
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching products for admin:", error);
-      res.status(500).json({ error: "Failed to fetch products" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error deciding compliance review:", error);
+      res.status(500).json({ error: "Failed to record decision" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}:
+   * /admin/compliance/denied-parties:
    *   get:
-   *     tags: [Admin Products]
-   *     summary: Get product details for admin
-   *     description: Returns full product details including media, pricing, and vendor info
+   *     tags: [Admin Compliance]
+   *     summary: Search the denied-party list
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: integer }
+   *       - in: query
+   *         name: search
+   *         schema: { type: string }
+   *       - in: query
+   *         name: source
+   *         schema: { type: string }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 50 }
    *     responses:
    *       200:
-   *         description: Product details
-   *       404:
-   *         description: Product not found
+   *         description: Paginated entries
    */
-  app.get("/api/admin/products/:id", requireAdmin, async (req, res) => {
+  app.get("/api/admin/compliance/denied-parties", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductWithDetails(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      res.json(product);
+      const { search, source, page, limit } = req.query;
+      const result = await storage.getDeniedParties({
+        search: search as string,
+        source: source as string,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching product:", error);
-      res.status(500).json({ error: "Failed to fetch product" });
+      console.error("Error fetching denied parties:", error);
+      res.status(500).json({ error: "Failed to fetch denied parties" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}/approve:
+   * /admin/compliance/denied-parties/import:
    *   post:
-   *     tags: [Admin Products]
-   *     summary: Approve a product
-   *     description: Approves a pending product for listing
+   *     tags: [Admin Compliance]
+   *     summary: Load a denied-party list
+   *     description: |
+   *       Replaces every entry from `source` with the uploaded list. Send either `csv` text with a
+   *       `name` column and optional `country` and `remarks` columns, or the same fields as `rows`.
+   *       Up to 50,000 entries per source.
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: integer }
    *     requestBody:
+   *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
+   *             required: [source]
    *             properties:
-   *               note: { type: string }
+   *               source: { type: string, example: OFAC SDN }
+   *               csv: { type: string }
+   *               rows:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     name: { type: string }
+   *                     country: { type: string }
+   *                     remarks: { type: string }
    *     responses:
    *       200:
-   *         description: Product approved
+   *         description: Counts of removed and loaded entries
+   *       400:
+   *         description: Missing source or no valid rows
    */
-  app.post("/api/admin/products/:id/approve", requireAdmin, async (req, res) => {
+  app.post("/api/admin/compliance/denied-parties/import", requireAdmin, async (req, res) => {
     try {
-      const { note } = req.body;
-      const product = await storage.approveProduct(parseInt(req.params.id), req.user!.id, note);
-      
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const source = z.string().trim().min(1).max(100).parse(req.body.source);
+      const rawRows = typeof req.body.csv === 'string' ? parseCsv(req.body.csv) : req.body.rows;
+      const rows = z.array(z.object({
+        name: z.string().trim().default(''),
+        country: z.string().trim().optional(),
+        remarks: z.string().trim().optional(),
+      })).max(50000).parse(rawRows ?? []);
+
+      const entries = rows
+        .map(row => ({
+          name: row.name,
+          normalizedName: normalizePartyName(row.name),
+          country: row.country ? row.country.toUpperCase() : null,
+          remarks: row.remarks || null,
+        }))
+        .filter(entry => entry.normalizedName);
+      if (entries.length === 0) {
+        return res.status(400).json({ error: "No entries with a name were found" });
       }
-      
+
+      const result = await storage.replaceDeniedParties(source, entries);
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'product_approved',
-        targetType: 'product',
-        targetId: req.params.id,
-        newValue: 'approved',
-        note,
+        actionType: 'denied_parties_loaded',
+        targetType: 'denied_party_list',
+        targetId: source,
+        previousValue: JSON.stringify({ entries: result.removed }),
+        newValue: JSON.stringify({ entries: result.loaded }),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(product);
+
+      res.json({ source, ...result, skipped: rows.length - entries.length });
     } catch (error) {
-      console.error("Error approving product:", error);
-      res.status(500).json({ error: "Failed to approve product" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error loading denied parties:", error);
+      res.status(500).json({ error: "Failed to load denied parties" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}/reject:
+   * /admin/compliance/restricted-countries:
+   *   get:
+   *     tags: [Admin Compliance]
+   *     summary: List restricted-country rules
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Rules by country
+   */
+  app.get("/api/admin/compliance/restricted-countries", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getRestrictedCountryRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching restricted-country rules:", error);
+      res.status(500).json({ error: "Failed to fetch restricted-country rules" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/compliance/restricted-countries:
    *   post:
-   *     tags: [Admin Products]
-   *     summary: Reject a product
-   *     description: Rejects a product with a reason
+   *     tags: [Admin Compliance]
+   *     summary: Add a restricted-country rule
+   *     description: |
+   *       `block` rejects controlled checkouts shipping to the country; `review` holds them for an admin
+   *       decision. Leave `controlledItemType` empty to cover every controlled item.
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: integer }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [reason]
+   *             required: [countryCode, action]
    *             properties:
+   *               countryCode: { type: string, example: IR }
+   *               controlledItemType: { type: string }
+   *               action: { type: string, enum: [block, review] }
    *               reason: { type: string }
    *     responses:
-   *       200:
-   *         description: Product rejected
+   *       201:
+   *         description: Rule added
    */
-  app.post("/api/admin/products/:id/reject", requireAdmin, async (req, res) => {
+  app.post("/api/admin/compliance/restricted-countries", requireAdmin, async (req, res) => {
     try {
-      const { reason } = req.body;
-      
-      if (!reason) {
-        return res.status(400).json({ error: "Rejection reason is required" });
-      }
-      
-      const product = await storage.rejectProduct(parseInt(req.params.id), req.user!.id, reason);
-      
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      
+      const data = z.object({
+        countryCode: z.string().trim().length(2).transform(code => code.toUpperCase()),
+        controlledItemType: z.string().trim().min(1).optional(),
+        action: z.enum(['block', 'review']),
+        reason: z.string().trim().max(500).optional(),
+      }).parse(req.body);
+
+      const rule = await storage.createRestrictedCountryRule({ ...data, createdBy: req.user!.id });
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'product_rejected',
-        targetType: 'product',
-        targetId: req.params.id,
-        newValue: 'rejected',
-        note: reason,
+        actionType: 'restricted_country_changed',
+        targetType: 'restricted_country_rule',
+        targetId: rule.id.toString(),
+        previousValue: null,
+        newValue: JSON.stringify(rule),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(product);
+
+      res.status(201).json(rule);
     } catch (error) {
-      console.error("Error rejecting product:", error);
-      res.status(500).json({ error: "Failed to reject product" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error adding restricted-country rule:", error);
+      res.status(500).json({ error: "Failed to add restricted-country rule" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}/suspend:
-   *   post:
-   *     tags: [Admin Products]
-   *     summary: Suspend a product
-   *     description: Suspends an approved product
+   * /admin/compliance/restricted-countries/{id}:
+   *   delete:
+   *     tags: [Admin Compliance]
+   *     summary: Remove a restricted-country rule
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -5688,599 +12190,827 @@ export async function registerRoutes(
    *         name: id
    *         required: true
    *         schema: { type: integer }
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             required: [reason]
-   *             properties:
-   *               reason: { type: string }
    *     responses:
    *       200:
-   *         description: Product suspended
+   *         description: Rule removed
+   *       404:
+   *         description: Rule not found
    */
-  app.post("/api/admin/products/:id/suspend", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/compliance/restricted-countries/:id", requireAdmin, async (req, res) => {
     try {
-      const { reason } = req.body;
-      
-      if (!reason) {
-        return res.status(400).json({ error: "Suspension reason is required" });
-      }
-      
-      const product = await storage.suspendProduct(parseInt(req.params.id), req.user!.id, reason);
-      
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const deleted = await storage.deleteRestrictedCountryRule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Rule not found" });
       }
-      
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'product_approved', // Using existing enum
-        targetType: 'product',
-        targetId: req.params.id,
-        previousValue: 'approved',
-        newValue: 'suspended',
-        note: reason,
+        actionType: 'restricted_country_changed',
+        targetType: 'restricted_country_rule',
+        targetId: deleted.id.toString(),
+        previousValue: JSON.stringify(deleted),
+        newValue: null,
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(product);
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error suspending product:", error);
-      res.status(500).json({ error: "Failed to suspend product" });
+      console.error("Error removing restricted-country rule:", error);
+      res.status(500).json({ error: "Failed to remove restricted-country rule" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}/feature:
-   *   post:
-   *     tags: [Admin Products]
-   *     summary: Feature/unfeature a product
-   *     description: Toggles the featured status of a product
+   * /admin/compliance/audit:
+   *   get:
+   *     tags: [Admin Compliance]
+   *     summary: Export compliance audit log
+   *     description: Every checkout screening outcome and review decision, newest first
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: integer }
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             required: [featured]
-   *             properties:
-   *               featured: { type: boolean }
+   *       - in: query
+   *         name: orderId
+   *         schema: { type: string }
+   *       - in: query
+   *         name: userId
+   *         schema: { type: string }
+   *       - in: query
+   *         name: decision
+   *         schema:
+   *           type: string
+   *           enum: [cleared, held, blocked, approved, rejected]
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 50 }
    *     responses:
    *       200:
-   *         description: Product feature status updated
+   *         description: Paginated audit entries
    */
-  app.post("/api/admin/products/:id/feature", requireAdmin, async (req, res) => {
+  app.get("/api/admin/compliance/audit", requireAdmin, async (req, res) => {
     try {
-      const { featured } = req.body;
-      
-      if (typeof featured !== 'boolean') {
-        return res.status(400).json({ error: "Featured must be a boolean" });
-      }
-      
-      const product = await storage.featureProduct(parseInt(req.params.id), featured);
-      
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      
-      await storage.createAdminActionLog({
-        adminId: req.user!.id,
-        actionType: featured ? 'product_featured' : 'product_unfeatured',
-        targetType: 'product',
-        targetId: req.params.id,
-        newValue: featured ? 'featured' : 'unfeatured',
-        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      const { orderId, userId, decision, page, limit } = req.query;
+      const parsedDecision = z.enum(['cleared', 'held', 'blocked', 'approved', 'rejected']).safeParse(decision);
+      const result = await storage.getComplianceAuditLog({
+        orderId: orderId as string,
+        userId: userId as string,
+        decision: parsedDecision.success ? parsedDecision.data : undefined,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching compliance audit log:", error);
+      res.status(500).json({ error: "Failed to fetch compliance audit log" });
+    }
+  });
+
+  // ===== ADMIN CREDIT & INVOICE APIs =====
+
+  /**
+   * @swagger
+   * /admin/credit-accounts:
+   *   get:
+   *     tags: [Admin Credit]
+   *     summary: List credit accounts and applications
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, approved, rejected, suspended]
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
+   *     responses:
+   *       200:
+   *         description: Paginated accounts with outstanding balances
+   */
+  app.get("/api/admin/credit-accounts", requireAdmin, async (req, res) => {
+    try {
+      const { status, page, limit } = req.query;
+      const parsedStatus = z.enum(['pending', 'approved', 'rejected', 'suspended']).safeParse(status);
+      const result = await storage.getCreditAccounts({
+        status: parsedStatus.success ? parsedStatus.data : undefined,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
       });
-      
-      res.json(product);
+      res.json(result);
     } catch (error) {
-      console.error("Error featuring product:", error);
-      res.status(500).json({ error: "Failed to feature product" });
+      console.error("Error fetching credit accounts:", error);
+      res.status(500).json({ error: "Failed to fetch credit accounts" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}/notes:
-   *   post:
-   *     tags: [Admin Products]
-   *     summary: Add a review note to a product
-   *     description: Adds admin feedback/comment to a product for the seller to see
+   * /admin/credit-accounts/{id}:
+   *   patch:
+   *     tags: [Admin Credit]
+   *     summary: Decide on or change a credit account
+   *     description: |
+   *       Approve or reject an application, suspend or reinstate an account, or change its limit and
+   *       terms. Approving without a `creditLimit` grants the requested limit. Lowering the limit or
+   *       suspending does not affect invoices already issued.
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [message]
    *             properties:
-   *               message: { type: string }
-   *               requiresChanges: { type: boolean, description: "Flag if seller needs to make changes" }
-   *               isVisibleToSeller: { type: boolean, default: true }
+   *               status: { type: string, enum: [approved, rejected, suspended] }
+   *               creditLimit: { type: number }
+   *               paymentTerms: { type: string, enum: [net_30, net_60] }
+   *               note: { type: string }
    *     responses:
-   *       201:
-   *         description: Note added
+   *       200:
+   *         description: Updated account
+   *       404:
+   *         description: Account not found
    */
-  app.post("/api/admin/products/:id/notes", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/credit-accounts/:id", requireAdmin, async (req, res) => {
     try {
-      const { message, requiresChanges, isVisibleToSeller } = req.body;
-      
-      if (!message || message.trim() === '') {
-        return res.status(400).json({ error: "Message is required" });
-      }
-      
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const data = z.object({
+        status: z.enum(['approved', 'rejected', 'suspended']).optional(),
+        creditLimit: z.coerce.number().min(0).max(100000000).optional(),
+        paymentTerms: z.enum(['net_30', 'net_60']).optional(),
+        note: z.string().trim().max(2000).optional(),
+      }).parse(req.body);
+
+      const account = await storage.getCreditAccountById(req.params.id);
+      if (!account) {
+        return res.status(404).json({ error: "Credit account not found" });
       }
-      
-      const note = await storage.addProductReviewNote({
-        productId: parseInt(req.params.id),
-        adminId: req.user!.id,
-        message: message.trim(),
-        requiresChanges: requiresChanges ?? false,
-        isVisibleToSeller: isVisibleToSeller ?? true,
+
+      const statusChanged = !!data.status && data.status !== account.status;
+      const creditLimit = data.creditLimit !== undefined
+        ? data.creditLimit.toFixed(2)
+        : (statusChanged && data.status === 'approved' && account.status === 'pending' ? account.requestedLimit : undefined);
+
+      const updated = await storage.updateCreditAccount(account.id, {
+        ...(data.status ? { status: data.status } : {}),
+        ...(creditLimit !== undefined ? { creditLimit } : {}),
+        ...(data.paymentTerms ? { paymentTerms: data.paymentTerms } : {}),
+        ...(statusChanged ? { reviewedBy: req.user!.id, reviewedAt: new Date(), reviewNote: data.note ?? null } : {}),
       });
-      
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'product_note_added',
-        targetType: 'product',
-        targetId: req.params.id,
-        note: message.substring(0, 100),
+        actionType: 'credit_account_changed',
+        targetType: 'credit_account',
+        targetId: account.id,
+        previousValue: JSON.stringify({ status: account.status, creditLimit: account.creditLimit, paymentTerms: account.paymentTerms }),
+        newValue: JSON.stringify({ status: updated?.status, creditLimit: updated?.creditLimit, paymentTerms: updated?.paymentTerms }),
+        note: data.note,
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.status(201).json(note);
+      if (statusChanged && data.status) {
+        emitDomainEvent('credit.decided', { accountId: account.id, status: data.status, note: data.note });
+      }
+
+      res.json(await storage.getCreditAccountById(account.id));
     } catch (error) {
-      console.error("Error adding product note:", error);
-      res.status(500).json({ error: "Failed to add note" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating credit account:", error);
+      res.status(500).json({ error: "Failed to update credit account" });
     }
   });
 
   /**
    * @swagger
-   * /admin/products/{id}/notes:
+   * /admin/invoices:
    *   get:
-   *     tags: [Admin Products]
-   *     summary: Get all review notes for a product
-   *     description: Returns all admin notes for a product (including internal notes)
+   *     tags: [Admin Credit]
+   *     summary: List invoices
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema: { type: integer }
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [issued, overdue, paid, void]
+   *       - in: query
+   *         name: userId
+   *         schema: { type: string }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 20 }
    *     responses:
    *       200:
-   *         description: List of review notes
+   *         description: Paginated invoices with buyer
    */
-  app.get("/api/admin/products/:id/notes", requireAdmin, async (req, res) => {
+  app.get("/api/admin/invoices", requireAdmin, async (req, res) => {
     try {
-      const notes = await storage.getProductReviewNotes(parseInt(req.params.id), false);
-      res.json(notes);
+      const { status, userId, page, limit } = req.query;
+      const parsedStatus = z.enum(['issued', 'overdue', 'paid', 'void']).safeParse(status);
+      const result = await storage.getInvoices({
+        status: parsedStatus.success ? parsedStatus.data : undefined,
+        userId: userId as string,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching product notes:", error);
-      res.status(500).json({ error: "Failed to fetch notes" });
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ error: "Failed to fetch invoices" });
     }
   });
 
   /**
    * @swagger
-   * /vendor/products/{id}/notes:
+   * /admin/invoices/{id}:
    *   get:
-   *     tags: [Vendor Products]
-   *     summary: Get admin feedback on a product
-   *     description: Returns admin notes/feedback visible to the seller
+   *     tags: [Admin Credit]
+   *     summary: Invoice details with payments
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
-   *         schema: { type: integer }
+   *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: List of visible review notes
+   *         description: Invoice
+   *       404:
+   *         description: Invoice not found
    */
-  app.get("/api/vendor/products/:id/notes", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.get("/api/admin/invoices/:id", requireAdmin, async (req, res) => {
     try {
-      const product = await storage.getProductById(parseInt(req.params.id));
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-      if (product.vendorId !== req.user.id) {
-        return res.status(403).json({ error: "Access denied" });
+      const invoice = await storage.getInvoiceById(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
       }
-      
-      const notes = await storage.getProductReviewNotes(parseInt(req.params.id), true);
-      res.json(notes);
+      res.json(invoice);
     } catch (error) {
-      console.error("Error fetching product notes:", error);
-      res.status(500).json({ error: "Failed to fetch notes" });
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ error: "Failed to fetch invoice" });
     }
   });
 
-  // ===== ADMIN VENDOR ONBOARDING APIs =====
-
   /**
    * @swagger
-   * /admin/vendors:
-   *   get:
-   *     tags: [Admin Vendors]
-   *     summary: List vendors for admin review
-   *     description: Returns paginated list of vendors. By default shows only vendors pending approval (under_review status).
+   * /admin/invoices/{id}/payments:
+   *   post:
+   *     tags: [Admin Credit]
+   *     summary: Record a payment against an invoice
+   *     description: |
+   *       Records money received (bank transfer, cheque, ...). Partial payments reduce the outstanding
+   *       balance; once the full amount is in, the invoice and its order are marked paid.
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: query
-   *         name: status
-   *         schema:
-   *           type: string
-   *           enum: [pending, in_progress, pending_verification, under_review, approved, rejected, suspended]
-   *         description: Filter by onboarding status. Defaults to 'under_review' if not specified.
-   *       - in: query
-   *         name: search
-   *         schema: { type: string }
-   *         description: Search by company name, email, or user name
-   *       - in: query
-   *         name: country
+   *       - in: path
+   *         name: id
+   *         required: true
    *         schema: { type: string }
-   *       - in: query
-   *         name: page
-   *         schema: { type: integer, default: 1 }
-   *       - in: query
-   *         name: limit
-   *         schema: { type: integer, default: 20 }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [amount, method]
+   *             properties:
+   *               amount: { type: number }
+   *               method: { type: string, enum: [bank_transfer, cheque, card, other] }
+   *               reference: { type: string }
    *     responses:
-   *       200:
-   *         description: Paginated list of vendors
+   *       201:
+   *         description: Payment recorded; returns the updated invoice and the payment
+   *       404:
+   *         description: Invoice not found
+   *       409:
+   *         description: The invoice is paid or void, or the amount is more than is due
    */
-  app.get("/api/admin/vendors", requireAdmin, async (req, res) => {
+  app.post("/api/admin/invoices/:id/payments", requireAdmin, async (req, res) => {
     try {
-      const { status, search, country, category, page, limit } = req.query;
-      const result = await storage.getVendorsForAdmin({
-        status: status as string,
-        search: search as string,
-        country: country as string,
-        category: category as string,
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
+      const data = z.object({
+        amount: z.coerce.number().positive(),
+        method: z.enum(['bank_transfer', 'cheque', 'card', 'other']),
+        reference: z.string().trim().max(200).optional(),
+      }).parse(req.body);
+
+      const invoice = await storage.getInvoiceById(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const result = await storage.recordInvoicePayment(invoice.id, {
+        amount: data.amount.toFixed(2),
+        method: data.method,
+        reference: data.reference ?? null,
+        recordedBy: req.user!.id,
       });
-      res.json(result);
+      if ('error' in result) {
+        return res.status(409).json({ error: result.error });
+      }
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'invoice_payment_recorded',
+        targetType: 'invoice',
+        targetId: invoice.id,
+        previousValue: invoice.amountPaid,
+        newValue: result.invoice.amountPaid,
+        note: [data.method, data.reference].filter(Boolean).join(' '),
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      if (result.invoice.status === 'paid') {
+        emitDomainEvent('invoice.paid', { invoiceId: invoice.id });
+      }
+
+      res.status(201).json(result);
     } catch (error) {
-      console.error("Error fetching vendors:", error);
-      res.status(500).json({ error: "Failed to fetch vendors" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error recording invoice payment:", error);
+      res.status(500).json({ error: "Failed to record payment" });
     }
   });
 
   /**
    * @swagger
-   * /admin/vendors/{userId}:
-   *   get:
-   *     tags: [Admin Vendors]
-   *     summary: Get vendor details
-   *     description: Returns full vendor profile including user info and onboarding details
+   * /admin/invoices/{id}/void:
+   *   post:
+   *     tags: [Admin Credit]
+   *     summary: Void an unpaid invoice
+   *     description: For invoices issued in error or for cancelled orders. Invoices with payments cannot be voided.
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: userId
+   *         name: id
    *         required: true
    *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [reason]
+   *             properties:
+   *               reason: { type: string }
    *     responses:
    *       200:
-   *         description: Vendor profile details
+   *         description: Invoice voided
    *       404:
-   *         description: Vendor not found
+   *         description: Invoice not found
+   *       409:
+   *         description: The invoice is paid, partly paid or already void
    */
-  app.get("/api/admin/vendors/:userId", requireAdmin, async (req, res) => {
+  app.post("/api/admin/invoices/:id/void", requireAdmin, async (req, res) => {
     try {
-      const profile = await storage.getUserProfileByUserId(req.params.userId);
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor not found" });
+      const { reason } = z.object({ reason: z.string().trim().min(1).max(500) }).parse(req.body);
+
+      const invoice = await storage.getInvoiceById(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
       }
-      const user = await storage.getUser(req.params.userId);
-      res.json({ ...profile, user });
+
+      const voided = await storage.voidInvoice(invoice.id, reason);
+      if (!voided) {
+        return res.status(409).json({ error: "Only unpaid invoices can be voided" });
+      }
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'invoice_voided',
+        targetType: 'invoice',
+        targetId: invoice.id,
+        previousValue: invoice.status,
+        newValue: 'void',
+        note: reason,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      res.json(voided);
     } catch (error) {
-      console.error("Error fetching vendor:", error);
-      res.status(500).json({ error: "Failed to fetch vendor" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error voiding invoice:", error);
+      res.status(500).json({ error: "Failed to void invoice" });
+    }
+  });
+
+  // ===== ADMIN FX RATES APIs =====
+
+  // Rates are BASE_CURRENCY per one unit of the currency; without effectiveFrom a rate applies at once
+  const fxRateRowSchema = z.object({
+    currency: z.string().trim().transform(code => code.toUpperCase())
+      .pipe(z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code"))
+      .refine(code => code !== BASE_CURRENCY, `Rates are quoted against ${BASE_CURRENCY}`),
+    rate: z.coerce.number().positive().transform(rate => rate.toFixed(8)),
+    effectiveFrom: z.coerce.date().optional(),
+  });
+
+  /**
+   * @swagger
+   * /admin/fx-rates:
+   *   get:
+   *     tags: [Admin FX Rates]
+   *     summary: List FX rate history
+   *     description: |
+   *       Rates are AED per one unit of the currency. Each rate applies from `effectiveFrom` until a
+   *       later rate for the same currency takes effect. Newest first, up to 500 rates.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: currency
+   *         schema: { type: string, example: USD }
+   *     responses:
+   *       200:
+   *         description: Rates in force and the rate history
+   */
+  app.get("/api/admin/fx-rates", requireAdmin, async (req, res) => {
+    try {
+      const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : undefined;
+      const [current, history] = await Promise.all([
+        storage.getFxRateTable(),
+        storage.getFxRateHistory({ currency }),
+      ]);
+      res.json({ current, history });
+    } catch (error) {
+      console.error("Error fetching FX rates:", error);
+      res.status(500).json({ error: "Failed to fetch FX rates" });
     }
   });
 
   /**
    * @swagger
-   * /admin/vendors/{userId}/approve:
+   * /admin/fx-rates:
    *   post:
-   *     tags: [Admin Vendors]
-   *     summary: Approve vendor onboarding
-   *     description: Approves a vendor's onboarding application and activates their account
+   *     tags: [Admin FX Rates]
+   *     summary: Set an FX rate
+   *     description: |
+   *       Adds a rate for `currency` from `effectiveFrom` (now by default), replacing a rate already on
+   *       file for the same time. Orders already placed keep the rate they were charged at.
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: userId
-   *         required: true
-   *         schema: { type: string }
    *     requestBody:
+   *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
+   *             required: [currency, rate]
    *             properties:
-   *               note: { type: string }
+   *               currency: { type: string, example: USD }
+   *               rate: { type: number, example: 3.6725, description: AED per one unit of the currency }
+   *               effectiveFrom: { type: string, format: date-time }
    *     responses:
-   *       200:
-   *         description: Vendor approved
+   *       201:
+   *         description: Rate saved
+   *       400:
+   *         description: Invalid currency, rate or date
    */
-  app.post("/api/admin/vendors/:userId/approve", requireAdmin, async (req, res) => {
+  app.post("/api/admin/fx-rates", requireAdmin, async (req, res) => {
     try {
-      const { note } = req.body;
-      const profile = await storage.approveVendorOnboarding(req.params.userId, req.user!.id, note);
-      
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor not found" });
-      }
-      
+      const data = fxRateRowSchema.parse(req.body);
+      const [rate] = await storage.saveFxRates(
+        [{ currency: data.currency, rate: data.rate, effectiveFrom: data.effectiveFrom || new Date() }],
+        'admin',
+        req.user!.id
+      );
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'seller_approved',
-        targetType: 'user',
-        targetId: req.params.userId,
-        newValue: 'approved',
-        note,
+        actionType: 'fx_rates_loaded',
+        targetType: 'fx_rate',
+        targetId: rate.id.toString(),
+        previousValue: null,
+        newValue: JSON.stringify(rate),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(profile);
+
+      res.status(201).json(rate);
     } catch (error) {
-      console.error("Error approving vendor:", error);
-      res.status(500).json({ error: "Failed to approve vendor" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error saving FX rate:", error);
+      res.status(500).json({ error: "Failed to save FX rate" });
     }
   });
 
   /**
    * @swagger
-   * /admin/vendors/{userId}/reject:
+   * /admin/fx-rates/import:
    *   post:
-   *     tags: [Admin Vendors]
-   *     summary: Reject vendor onboarding
-   *     description: Rejects a vendor's onboarding application with a reason
+   *     tags: [Admin FX Rates]
+   *     summary: Load FX rates from a file
+   *     description: |
+   *       Send either `csv` text with `currency`, `rate` and optional `effective_from` columns, or the
+   *       same fields as `rows` (`effectiveFrom`). Rows without a date take effect now. Rates already
+   *       on file for the same currency and time are replaced. Up to 5,000 rows.
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: userId
-   *         required: true
-   *         schema: { type: string }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [reason]
    *             properties:
-   *               reason: { type: string }
-   *               note: { type: string }
+   *               source: { type: string, example: Central Bank of the UAE }
+   *               csv: { type: string }
+   *               rows:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     currency: { type: string }
+   *                     rate: { type: number }
+   *                     effectiveFrom: { type: string, format: date-time }
    *     responses:
    *       200:
-   *         description: Vendor rejected
+   *         description: Number of rates loaded
+   *       400:
+   *         description: No rows, or a row with an invalid currency, rate or date
    */
-  app.post("/api/admin/vendors/:userId/reject", requireAdmin, async (req, res) => {
+  app.post("/api/admin/fx-rates/import", requireAdmin, async (req, res) => {
     try {
-      const { reason, note } = req.body;
-      
-      if (!reason) {
-        return res.status(400).json({ error: "Rejection reason is required" });
-      }
-      
-      const profile = await storage.rejectVendorOnboarding(req.params.userId, req.user!.id, reason, note);
-      
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor not found" });
-      }
-      
+      const source = z.string().trim().min(1).max(100).optional().parse(req.body.source) || 'import';
+      const rawRows = typeof req.body.csv === 'string'
+        ? parseCsv(req.body.csv).map(row => ({ ...row, effectiveFrom: row.effective_from || undefined }))
+        : req.body.rows;
+      const rows = z.array(fxRateRowSchema).min(1).max(5000).parse(rawRows ?? []);
+
+      const now = new Date();
+      const rates = await storage.saveFxRates(
+        rows.map(row => ({ currency: row.currency, rate: row.rate, effectiveFrom: row.effectiveFrom || now })),
+        source,
+        req.user!.id
+      );
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'seller_rejected',
-        targetType: 'user',
-        targetId: req.params.userId,
-        newValue: 'rejected',
-        note: reason,
+        actionType: 'fx_rates_loaded',
+        targetType: 'fx_rate_file',
+        targetId: source,
+        previousValue: null,
+        newValue: JSON.stringify({ rates: rates.length, currencies: Array.from(new Set(rates.map(rate => rate.currency))) }),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(profile);
+
+      res.json({ source, loaded: rates.length });
     } catch (error) {
-      console.error("Error rejecting vendor:", error);
-      res.status(500).json({ error: "Failed to reject vendor" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error loading FX rates:", error);
+      res.status(500).json({ error: "Failed to load FX rates" });
     }
   });
 
+  // ===== ADMIN TAX RULES APIs =====
+
+  const taxRuleSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    originCountry: z.string().trim().length(2).transform(code => code.toUpperCase()).nullable().optional(),
+    destinationCountry: z.string().trim().length(2).transform(code => code.toUpperCase()).nullable().optional(),
+    buyerType: z.enum(typeOfBuyerEnum.enumValues).nullable().optional(),
+    categoryId: z.number().int().positive().nullable().optional(),
+    // Reverse charge is decided per buyer at checkout, not configured as a treatment
+    treatment: z.enum(taxTreatmentEnum.enumValues).exclude(['reverse_charge']).optional(),
+    rate: z.coerce.number().min(0).max(100).transform(rate => rate.toFixed(2)).optional(),
+    reverseChargeForBusiness: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+  });
+
   /**
    * @swagger
-   * /admin/vendors/{userId}/suspend:
+   * /admin/tax-rules:
+   *   get:
+   *     tags: [Admin Tax]
+   *     summary: List tax rules
+   *     description: |
+   *       Each cart line is taxed by the active rule that matches the seller's country (`originCountry`),
+   *       the delivery country (`destinationCountry`), the buyer's `typeOfBuyer` and the product's
+   *       category; empty conditions match anything. When several rules match, the most specific wins
+   *       (category, then buyer type, then destination, then origin; ties go to the oldest rule).
+   *       Lines no rule matches are not taxed.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: All tax rules, oldest first
+   */
+  app.get("/api/admin/tax-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getTaxRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching tax rules:", error);
+      res.status(500).json({ error: "Failed to fetch tax rules" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/tax-rules:
    *   post:
-   *     tags: [Admin Vendors]
-   *     summary: Suspend a vendor
-   *     description: Suspends an approved vendor's account
+   *     tags: [Admin Tax]
+   *     summary: Add a tax rule
+   *     description: |
+   *       `standard` charges `rate` percent; `zero_rated` and `exempt` charge nothing but are shown on
+   *       the order and invoice. With `reverseChargeForBusiness`, business buyers whose profile has a
+   *       valid VAT/GST number for the destination are not charged and their invoice carries a reverse
+   *       charge note. A `categoryId` also covers its subcategories.
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: userId
-   *         required: true
-   *         schema: { type: string }
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [reason]
+   *             required: [name]
    *             properties:
-   *               reason: { type: string }
+   *               name: { type: string, example: UAE VAT }
+   *               originCountry: { type: string, example: AE }
+   *               destinationCountry: { type: string, example: AE }
+   *               buyerType: { type: string, enum: [individual, business, government, reseller, manufacturer, distributor, other] }
+   *               categoryId: { type: integer }
+   *               treatment: { type: string, enum: [standard, zero_rated, exempt], default: standard }
+   *               rate: { type: number, example: 5 }
+   *               reverseChargeForBusiness: { type: boolean, default: false }
+   *               isActive: { type: boolean, default: true }
    *     responses:
-   *       200:
-   *         description: Vendor suspended
+   *       201:
+   *         description: Rule added
+   *       400:
+   *         description: Invalid rule or unknown category
    */
-  app.post("/api/admin/vendors/:userId/suspend", requireAdmin, async (req, res) => {
+  app.post("/api/admin/tax-rules", requireAdmin, async (req, res) => {
     try {
-      const { reason } = req.body;
-      
-      if (!reason) {
-        return res.status(400).json({ error: "Suspension reason is required" });
-      }
-      
-      const profile = await storage.suspendVendor(req.params.userId, req.user!.id, reason);
-      
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor not found" });
+      const data = taxRuleSchema.parse(req.body);
+      if (data.categoryId && !(await storage.getCategoryById(data.categoryId))) {
+        return res.status(400).json({ error: "Category not found" });
       }
-      
+
+      const rule = await storage.createTaxRule(data);
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'seller_suspended',
-        targetType: 'user',
-        targetId: req.params.userId,
-        previousValue: 'approved',
-        newValue: 'suspended',
-        note: reason,
+        actionType: 'tax_rule_changed',
+        targetType: 'tax_rule',
+        targetId: rule.id.toString(),
+        previousValue: null,
+        newValue: JSON.stringify(rule),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(profile);
+
+      res.status(201).json(rule);
     } catch (error) {
-      console.error("Error suspending vendor:", error);
-      res.status(500).json({ error: "Failed to suspend vendor" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error adding tax rule:", error);
+      res.status(500).json({ error: "Failed to add tax rule" });
     }
   });
 
   /**
    * @swagger
-   * /admin/vendors/{userId}/reactivate:
-   *   post:
-   *     tags: [Admin Vendors]
-   *     summary: Reactivate a suspended vendor
-   *     description: Reactivates a suspended vendor's account
+   * /admin/tax-rules/{id}:
+   *   patch:
+   *     tags: [Admin Tax]
+   *     summary: Update a tax rule
+   *     description: Takes the same fields as creating a rule. Orders already placed keep the tax they were charged.
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: userId
+   *         name: id
    *         required: true
-   *         schema: { type: string }
+   *         schema: { type: integer }
    *     requestBody:
+   *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             properties:
-   *               note: { type: string }
    *     responses:
    *       200:
-   *         description: Vendor reactivated
+   *         description: Rule updated
+   *       400:
+   *         description: Invalid rule or unknown category
+   *       404:
+   *         description: Rule not found
    */
-  app.post("/api/admin/vendors/:userId/reactivate", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/tax-rules/:id", requireAdmin, async (req, res) => {
     try {
-      const { note } = req.body;
-      const profile = await storage.reactivateVendor(req.params.userId, req.user!.id, note);
-      
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor not found" });
+      const existing = await storage.getTaxRuleById(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Tax rule not found" });
       }
-      
+
+      const data = taxRuleSchema.partial().parse(req.body);
+      if (data.categoryId && !(await storage.getCategoryById(data.categoryId))) {
+        return res.status(400).json({ error: "Category not found" });
+      }
+
+      const updated = await storage.updateTaxRule(existing.id, data);
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'seller_activated',
-        targetType: 'user',
-        targetId: req.params.userId,
-        previousValue: 'suspended',
-        newValue: 'approved',
-        note,
+        actionType: 'tax_rule_changed',
+        targetType: 'tax_rule',
+        targetId: existing.id.toString(),
+        previousValue: JSON.stringify(existing),
+        newValue: JSON.stringify(updated),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(profile);
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error reactivating vendor:", error);
-      res.status(500).json({ error: "Failed to reactivate vendor" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating tax rule:", error);
+      res.status(500).json({ error: "Failed to update tax rule" });
     }
   });
 
-  // ===== VENDOR ONBOARDING STATUS API =====
-
   /**
    * @swagger
-   * /vendor/onboarding/status:
-   *   get:
-   *     tags: [Vendor Onboarding]
-   *     summary: Get vendor's onboarding status
-   *     description: Returns the vendor's current onboarding status and any rejection reasons
+   * /admin/tax-rules/{id}:
+   *   delete:
+   *     tags: [Admin Tax]
+   *     summary: Remove a tax rule
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: integer }
    *     responses:
    *       200:
-   *         description: Onboarding status details
+   *         description: Rule removed
+   *       404:
+   *         description: Rule not found
    */
-  app.get("/api/vendor/onboarding/status", async (req, res) => {
-    if (!req.user || req.user.userType !== 'vendor') {
-      return res.status(401).json({ error: "Vendor authentication required" });
-    }
-    
+  app.delete("/api/admin/tax-rules/:id", requireAdmin, async (req, res) => {
     try {
-      const profile = await storage.getUserProfileByUserId(req.user.id);
-      if (!profile) {
-        return res.status(404).json({ error: "Vendor profile not found" });
+      const deleted = await storage.deleteTaxRule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Tax rule not found" });
       }
-      
-      res.json({
-        status: profile.onboardingStatus,
-        currentStep: profile.currentStep,
-        submittedAt: profile.submittedAt,
-        reviewedAt: profile.reviewedAt,
-        rejectionReason: profile.rejectionReason,
-        reviewNote: profile.reviewNote,
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'tax_rule_changed',
+        targetType: 'tax_rule',
+        targetId: deleted.id.toString(),
+        previousValue: JSON.stringify(deleted),
+        newValue: null,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching onboarding status:", error);
-      res.status(500).json({ error: "Failed to fetch status" });
+      console.error("Error removing tax rule:", error);
+      res.status(500).json({ error: "Failed to remove tax rule" });
     }
   });
 
-  // ===== ADMIN ORDERS APIs =====
+  // ===== ADMIN RFQ APIs =====
 
   /**
    * @swagger
-   * /admin/orders:
+   * /admin/rfqs:
    *   get:
-   *     tags: [Admin Orders]
-   *     summary: List all orders
-   *     description: Returns paginated list of all orders with filters
+   *     tags: [RFQ]
+   *     summary: List all quote requests
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -6288,134 +13018,129 @@ export async function registerRoutes(
    *         name: status
    *         schema:
    *           type: string
-   *           enum: [pending, processing, shipped, delivered, cancelled, returned]
+   *           enum: [open, quoted, accepted, declined, cancelled, expired]
    *       - in: query
-   *         name: vendorId
+   *         name: buyerId
    *         schema: { type: string }
-   *         description: Filter by vendor ID
-   *       - in: query
-   *         name: dateFrom
-   *         schema: { type: string, format: date }
-   *       - in: query
-   *         name: dateTo
-   *         schema: { type: string, format: date }
-   *       - in: query
-   *         name: page
-   *         schema: { type: integer, default: 1 }
    *       - in: query
-   *         name: limit
-   *         schema: { type: integer, default: 20 }
+   *         name: vendorId
+   *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: Paginated list of orders
+   *         description: List of RFQs with lines and quotes
    */
-  app.get("/api/admin/orders", requireAdmin, async (req, res) => {
+  app.get("/api/admin/rfqs", requireAdmin, async (req, res) => {
     try {
-      const { status, vendorId, dateFrom, dateTo, page, limit } = req.query;
-      const result = await storage.getOrdersForAdmin({
-        status: status as string,
-        vendorId: vendorId as string,
-        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
-        dateTo: dateTo ? new Date(dateTo as string) : undefined,
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
+      const status = rfqStatusEnum.enumValues.find(value => value === req.query.status);
+      const rfqs = await storage.getRfqs({
+        status,
+        buyerId: req.query.buyerId as string | undefined,
+        vendorId: req.query.vendorId as string | undefined,
       });
-      res.json(result);
+      res.json(rfqs);
     } catch (error) {
-      console.error("Error fetching orders:", error);
-      res.status(500).json({ error: "Failed to fetch orders" });
+      console.error("Error fetching RFQs:", error);
+      res.status(500).json({ error: "Failed to fetch quote requests" });
     }
   });
 
   /**
    * @swagger
-   * /admin/orders/{orderId}:
+   * /admin/rfqs/{id}:
    *   get:
-   *     tags: [Admin Orders]
-   *     summary: Get order details
-   *     description: Returns full order details including items, user, and status history
+   *     tags: [RFQ]
+   *     summary: Get a quote request
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: orderId
+   *         name: id
    *         required: true
    *         schema: { type: string }
    *     responses:
    *       200:
-   *         description: Order details
+   *         description: RFQ details including buyer, vendor, lines and all quotes
    *       404:
-   *         description: Order not found
+   *         description: RFQ not found
    */
-  app.get("/api/admin/orders/:orderId", requireAdmin, async (req, res) => {
+  app.get("/api/admin/rfqs/:id", requireAdmin, async (req, res) => {
     try {
-      const order = await storage.getOrderByIdForAdmin(req.params.orderId);
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq) {
+        return res.status(404).json({ error: "Quote request not found" });
       }
-      res.json(order);
+      res.json(rfq);
     } catch (error) {
-      console.error("Error fetching order:", error);
-      res.status(500).json({ error: "Failed to fetch order" });
+      console.error("Error fetching RFQ:", error);
+      res.status(500).json({ error: "Failed to fetch quote request" });
     }
   });
 
   /**
    * @swagger
-   * /admin/orders/{orderId}/status:
-   *   put:
-   *     tags: [Admin Orders]
-   *     summary: Update order status
-   *     description: Updates the order status (admin only)
+   * /admin/rfqs/{id}/cancel:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Cancel a quote request
+   *     description: Cancels an open or quoted RFQ (e.g. a policy violation). Open quotes are rejected and the action is logged.
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: orderId
+   *         name: id
    *         required: true
    *         schema: { type: string }
    *     requestBody:
-   *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [status]
    *             properties:
-   *               status:
-   *                 type: string
-   *                 enum: [pending, processing, shipped, delivered, cancelled, returned]
-   *               note: { type: string }
+   *               reason: { type: string }
    *     responses:
    *       200:
-   *         description: Order status updated
+   *         description: Cancelled RFQ
+   *       404:
+   *         description: RFQ not found
+   *       409:
+   *         description: RFQ is already closed
    */
-  app.put("/api/admin/orders/:orderId/status", requireAdmin, async (req, res) => {
+  app.post("/api/admin/rfqs/:id/cancel", requireAdmin, async (req, res) => {
     try {
-      const { status, note } = req.body;
-      if (!status) {
-        return res.status(400).json({ error: "Status is required" });
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq) {
+        return res.status(404).json({ error: "Quote request not found" });
       }
-      
-      const order = await storage.updateOrderStatus(req.params.orderId, status, req.user!.id, note);
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+
+      const cancelled = await storage.closeRfq(rfq.id, 'cancelled');
+      if (!cancelled) {
+        return res.status(409).json({ error: `Quote request is already ${rfq.status}` });
       }
-      
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+
       await storage.createAdminActionLog({
         adminId: req.user!.id,
-        actionType: 'order_status_changed',
-        targetType: 'order',
-        targetId: req.params.orderId,
-        newValue: status,
-        note,
+        actionType: 'rfq_cancelled',
+        targetType: 'rfq',
+        targetId: rfq.id,
+        previousValue: JSON.stringify({ status: rfq.status }),
+        newValue: JSON.stringify({ status: 'cancelled', reason }),
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
-      
-      res.json(order);
+
+      await storage.createNotification({
+        userId: rfq.vendorId,
+        type: 'rfq_cancelled',
+        title: 'Quote request cancelled',
+        message: `Quote request ${rfq.id.slice(0, 8)} was cancelled by an administrator${reason ? `: ${reason}` : ''}`,
+      });
+      publishNotificationCount(rfq.vendorId).catch(error => console.error("Error sending notification count:", error));
+
+      res.json(cancelled);
     } catch (error) {
-      console.error("Error updating order status:", error);
-      res.status(500).json({ error: "Failed to update order status" });
+      console.error("Error cancelling RFQ:", error);
+      res.status(500).json({ error: "Failed to cancel quote request" });
     }
   });
 
@@ -6479,7 +13204,7 @@ export async function registerRoutes(
    *   get:
    *     tags: [Vendor Orders]
    *     summary: Get order details
-   *     description: Returns order details (only vendor's items)
+   *     description: Returns order details limited to the vendor's shipment (its items, status, tracking and history)
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -6502,15 +13227,18 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Order not found" });
       }
       
-      // Filter to only show vendor's items
-      const vendorItems = order.items.filter(item => item.vendorId === req.user!.id);
-      if (vendorItems.length === 0) {
+      // Vendors only see their own shipment of the order
+      const shipment = order.shipments.find(s => s.vendorId === req.user!.id);
+      if (!shipment) {
         return res.status(403).json({ error: "Access denied - not your order" });
       }
       
       res.json({
         ...order,
-        items: vendorItems,
+        items: order.items.filter(item => item.shipmentId === shipment.id),
+        shipments: undefined,
+        shipment,
+        statusHistory: order.statusHistory.filter(h => h.shipmentId === shipment.id),
       });
     } catch (error) {
       console.error("Error fetching order:", error);
@@ -6518,13 +13246,46 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * @swagger
+   * /vendor/orders/{orderId}/tax-documents:
+   *   get:
+   *     tags: [Vendor Orders]
+   *     summary: Tax invoices and credit notes for the vendor's shipment
+   *     description: Download each with `/tax-documents/{id}/pdf`.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Documents in order of issue
+   */
+  app.get("/api/vendor/orders/:orderId/tax-documents", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      res.json(await storage.getTaxDocumentsForOrder(req.params.orderId, req.user.id));
+    } catch (error) {
+      console.error("Error fetching tax documents:", error);
+      res.status(500).json({ error: "Failed to fetch tax documents" });
+    }
+  });
+
   /**
    * @swagger
    * /vendor/orders/{orderId}/status:
    *   put:
    *     tags: [Vendor Orders]
-   *     summary: Update order status
-   *     description: Vendor can update order status (processing, shipped)
+   *     summary: Update shipment status
+   *     description: |
+   *       Vendor updates the status of their own shipment within the order (processing, shipped).
+   *       Other vendors' shipments are untouched; the parent order status is rolled up from all shipments.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -6555,38 +13316,357 @@ export async function registerRoutes(
     }
     
     try {
-      const { status, note } = req.body;
+      const { status, note, trackingNumber } = req.body;
       
       // Vendors can only set to processing or shipped
       if (!['processing', 'shipped'].includes(status)) {
         return res.status(400).json({ error: "Vendors can only set status to 'processing' or 'shipped'" });
       }
       
-      // Verify vendor owns items in this order
-      const existingOrder = await storage.getOrderByIdForAdmin(req.params.orderId);
+      // Verify vendor has a shipment in this order
+      const existingOrder = await storage.getOrderById(req.params.orderId);
       if (!existingOrder) {
         return res.status(404).json({ error: "Order not found" });
       }
       
-      const vendorItems = existingOrder.items.filter(item => item.vendorId === req.user!.id);
-      if (vendorItems.length === 0) {
+      const shipment = existingOrder.shipments.find(s => s.vendorId === req.user!.id);
+      if (!shipment) {
         return res.status(403).json({ error: "Access denied - you don't have items in this order" });
       }
       
-      const order = await storage.updateOrderStatus(req.params.orderId, status, req.user.id, note);
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      const updated = await storage.updateShipmentStatus(shipment.id, status, req.user.id, note, trackingNumber);
+      if (updated && status !== shipment.status) {
+        emitDomainEvent('order.status_changed', { orderId: shipment.orderId, shipmentId: shipment.id, status, changedBy: req.user.id });
       }
-      
-      res.json(order);
+      res.json(updated);
     } catch (error) {
       console.error("Error updating order status:", error);
       res.status(500).json({ error: "Failed to update order status" });
     }
   });
 
+  // ===== VENDOR RFQ APIs =====
+
+  /**
+   * @swagger
+   * /vendor/rfqs:
+   *   get:
+   *     tags: [RFQ]
+   *     summary: List quote requests addressed to the vendor
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [open, quoted, accepted, declined, cancelled, expired]
+   *     responses:
+   *       200:
+   *         description: List of RFQs with lines and the vendor's quotes
+   */
+  app.get("/api/vendor/rfqs", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      const status = rfqStatusEnum.enumValues.find(value => value === req.query.status);
+      const rfqs = await storage.getRfqs({ vendorId: req.user.id, status });
+      res.json(rfqs);
+    } catch (error) {
+      console.error("Error fetching vendor RFQs:", error);
+      res.status(500).json({ error: "Failed to fetch quote requests" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/rfqs/{id}:
+   *   get:
+   *     tags: [RFQ]
+   *     summary: Get a quote request
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: RFQ details
+   *       404:
+   *         description: RFQ not found
+   */
+  app.get("/api/vendor/rfqs/:id", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq || rfq.vendorId !== req.user.id) {
+        return res.status(404).json({ error: "Quote request not found" });
+      }
+
+      res.json(rfq);
+    } catch (error) {
+      console.error("Error fetching vendor RFQ:", error);
+      res.status(500).json({ error: "Failed to fetch quote request" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/rfqs/{id}/quotes:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Submit a quote
+   *     description: |
+   *       Prices some or all lines of an open RFQ. The quote is binding until `validUntil`, after which
+   *       it expires automatically. Submitting again replaces (withdraws) the vendor's previous open quote.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [items, validUntil]
+   *             properties:
+   *               items:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [rfqItemId, unitPrice]
+   *                   properties:
+   *                     rfqItemId: { type: integer }
+   *                     quantity: { type: integer, description: Defaults to the requested quantity }
+   *                     unitPrice: { type: number }
+   *               validUntil: { type: string, format: date-time }
+   *               deliveryTerms: { type: string }
+   *               leadTimeDays: { type: integer }
+   *               notes: { type: string }
+   *     responses:
+   *       201:
+   *         description: Submitted quote
+   *       400:
+   *         description: Invalid quote
+   *       404:
+   *         description: RFQ not found
+   *       409:
+   *         description: RFQ is no longer open for quotes
+   */
+  app.post("/api/vendor/rfqs/:id/quotes", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      const data = z.object({
+        items: z.array(z.object({
+          rfqItemId: z.number().int(),
+          quantity: z.number().int().min(1).optional(),
+          unitPrice: z.coerce.number().positive(),
+        })).min(1),
+        validUntil: z.coerce.date().refine(date => date.getTime() > Date.now(), "validUntil must be in the future"),
+        deliveryTerms: z.string().max(100).optional(),
+        leadTimeDays: z.number().int().min(0).max(365).optional(),
+        notes: z.string().max(5000).optional(),
+      }).parse(req.body);
+
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq || rfq.vendorId !== req.user.id) {
+        return res.status(404).json({ error: "Quote request not found" });
+      }
+      if (rfq.status !== 'open' && rfq.status !== 'quoted') {
+        return res.status(409).json({ error: `Quote request is ${rfq.status}` });
+      }
+
+      const lines = [];
+      for (const line of data.items) {
+        const rfqItem = rfq.items.find(item => item.id === line.rfqItemId);
+        if (!rfqItem) {
+          return res.status(400).json({ error: `Line ${line.rfqItemId} is not part of this quote request` });
+        }
+        lines.push({
+          rfqItemId: rfqItem.id,
+          productId: rfqItem.productId,
+          variantId: rfqItem.variantId,
+          quantity: line.quantity ?? rfqItem.quantity,
+          unitPrice: line.unitPrice.toFixed(2),
+        });
+      }
+
+      const quote = await storage.createRfqQuote(rfq.id, req.user.id, data, lines);
+      res.status(201).json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error submitting quote:", error);
+      res.status(500).json({ error: "Failed to submit quote" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/rfqs/{id}/quotes/{quoteId}/withdraw:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Withdraw a quote
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *       - in: path
+   *         name: quoteId
+   *         required: true
+   *         schema: { type: integer }
+   *     responses:
+   *       200:
+   *         description: Withdrawn quote
+   *       404:
+   *         description: RFQ or quote not found
+   *       409:
+   *         description: Quote is no longer open
+   */
+  app.post("/api/vendor/rfqs/:id/quotes/:quoteId/withdraw", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      const quote = await storage.getRfqQuoteById(parseInt(req.params.quoteId));
+      if (!quote || quote.rfqId !== req.params.id || quote.vendorId !== req.user.id) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      const withdrawn = await storage.closeRfqQuote(quote.id, 'withdrawn');
+      if (!withdrawn) {
+        return res.status(409).json({ error: `Quote is already ${quote.status}` });
+      }
+
+      res.json(withdrawn);
+    } catch (error) {
+      console.error("Error withdrawing quote:", error);
+      res.status(500).json({ error: "Failed to withdraw quote" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /vendor/rfqs/{id}/decline:
+   *   post:
+   *     tags: [RFQ]
+   *     summary: Decline a quote request
+   *     description: Closes the RFQ without quoting. Any open quote from the vendor is withdrawn.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Declined RFQ
+   *       404:
+   *         description: RFQ not found
+   *       409:
+   *         description: RFQ is already closed
+   */
+  app.post("/api/vendor/rfqs/:id/decline", async (req, res) => {
+    if (!req.user || req.user.userType !== 'vendor') {
+      return res.status(401).json({ error: "Vendor authentication required" });
+    }
+
+    try {
+      const rfq = await storage.getRfqById(req.params.id);
+      if (!rfq || rfq.vendorId !== req.user.id) {
+        return res.status(404).json({ error: "Quote request not found" });
+      }
+
+      const declined = await storage.closeRfq(rfq.id, 'declined');
+      if (!declined) {
+        return res.status(409).json({ error: `Quote request is already ${rfq.status}` });
+      }
+
+      res.json(declined);
+    } catch (error) {
+      console.error("Error declining RFQ:", error);
+      res.status(500).json({ error: "Failed to decline quote request" });
+    }
+  });
+
   // ===== REFUND APIs (ADMIN ONLY) =====
 
+  // Pays an approved refund back through Stripe. Stripe normally answers `pending` and the final
+  // outcome arrives as a refund.updated / refund.failed webhook. Orders that were never paid
+  // through Stripe (test mode) are settled locally straight away.
+  async function executeRefund(refundId: string): Promise<Refund | undefined> {
+    const refund = await storage.claimRefundAttempt(refundId);
+    if (!refund) return undefined;
+
+    const settled = await submitRefund(refund);
+    if (settled?.requestStatus === 'completed' || settled?.requestStatus === 'failed') {
+      emitDomainEvent('refund.status_changed', { refundId: settled.id, status: settled.requestStatus });
+    }
+    return settled;
+  }
+
+  async function submitRefund(refund: Refund): Promise<Refund | undefined> {
+    const order = await storage.getOrderById(refund.orderId);
+    if (!order?.stripePaymentIntentId) {
+      // Net-terms orders are refunded by crediting the invoice as the refund completes
+      const invoice = await storage.getInvoiceByOrderId(refund.orderId);
+      return await storage.completeRefund(refund.id, undefined, invoice && invoice.status !== 'paid' && invoice.status !== 'void' ? 'Invoice credit' : 'Manual');
+    }
+
+    try {
+      const { getUncachableStripeClient } = await import("./stripeClient");
+      const stripe = await getUncachableStripeClient();
+
+      const stripeRefund = await stripe.refunds.create({
+        payment_intent: order.stripePaymentIntentId,
+        amount: toStripeAmount(refund.amount, order),
+        metadata: { refundId: refund.id, orderId: refund.orderId },
+      }, { idempotencyKey: `refund-${refund.id}-${refund.attemptCount}` });
+
+      const submitted = await storage.markRefundSubmitted(refund.id, stripeRefund.id);
+      if (!submitted) {
+        return await storage.getRefundById(refund.id);
+      }
+      if (stripeRefund.status === 'succeeded') {
+        return await storage.completeRefund(refund.id);
+      }
+      if (stripeRefund.status === 'failed' || stripeRefund.status === 'canceled') {
+        return await storage.failRefundAttempt(refund.id, stripeRefund.failure_reason || `Stripe refund ${stripeRefund.status}`);
+      }
+      return await storage.getRefundByStripeRefundId(stripeRefund.id);
+    } catch (stripeError: any) {
+      console.error(`Stripe refund attempt ${refund.attemptCount} for ${refund.id} failed:`, stripeError.message);
+      return await storage.failRefundAttempt(refund.id, stripeError.message || 'Stripe refund failed');
+    }
+  }
+
+  async function retryDueRefunds(): Promise<void> {
+    const due = await storage.getRefundsDueForRetry();
+    for (const refund of due) {
+      await executeRefund(refund.id);
+    }
+  }
+
   /**
    * @swagger
    * /admin/refunds:
@@ -6670,7 +13750,11 @@ export async function registerRoutes(
    *   post:
    *     tags: [Admin Refunds]
    *     summary: Approve a refund request
-   *     description: Approves a customer's refund request
+   *     description: |
+   *       Approves a customer's refund request and pays it back through Stripe against the order's payment intent.
+   *       The refund stays `processing` until Stripe confirms it by webhook, then becomes `completed`: refunded
+   *       items are restocked and the vendor's commission on the amount is reversed. Failed attempts are retried
+   *       with backoff up to 5 times before the refund is marked `failed`.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -6687,15 +13771,23 @@ export async function registerRoutes(
    *               note: { type: string }
    *     responses:
    *       200:
-   *         description: Refund approved
+   *         description: Refund approved and submitted for payment
+   *       404:
+   *         description: Refund not found
+   *       409:
+   *         description: Refund has already been reviewed
    */
   app.post("/api/admin/refunds/:refundId/approve", requireAdmin, async (req, res) => {
     try {
       const { note } = req.body;
+      const existing = await storage.getRefundById(req.params.refundId);
+      if (!existing) {
+        return res.status(404).json({ error: "Refund not found" });
+      }
+
       const refund = await storage.approveRefund(req.params.refundId, req.user!.id, note);
-      
       if (!refund) {
-        return res.status(404).json({ error: "Refund not found" });
+        return res.status(409).json({ error: `Refund is already ${existing.requestStatus}` });
       }
       
       await storage.createAdminActionLog({
@@ -6707,8 +13799,10 @@ export async function registerRoutes(
         note,
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
+      emitDomainEvent('refund.status_changed', { refundId: refund.id, status: 'approved' });
       
-      res.json(refund);
+      const settled = await executeRefund(refund.id);
+      res.json(settled || refund);
     } catch (error) {
       console.error("Error approving refund:", error);
       res.status(500).json({ error: "Failed to approve refund" });
@@ -6766,6 +13860,7 @@ export async function registerRoutes(
         note: reason,
         ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
       });
+      emitDomainEvent('refund.status_changed', { refundId: refund.id, status: 'rejected' });
       
       res.json(refund);
     } catch (error) {
@@ -6774,6 +13869,58 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * @swagger
+   * /admin/refunds/{refundId}/retry:
+   *   post:
+   *     tags: [Admin Refunds]
+   *     summary: Retry a failed refund
+   *     description: Gives a refund that exhausted its automatic retries a fresh set of attempts and submits it to Stripe again
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: refundId
+   *         required: true
+   *         schema: { type: string }
+   *     responses:
+   *       200:
+   *         description: Refund resubmitted
+   *       404:
+   *         description: Refund not found
+   *       409:
+   *         description: Refund is not in the failed state
+   */
+  app.post("/api/admin/refunds/:refundId/retry", requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getRefundById(req.params.refundId);
+      if (!existing) {
+        return res.status(404).json({ error: "Refund not found" });
+      }
+
+      const refund = await storage.resetFailedRefund(existing.id);
+      if (!refund) {
+        return res.status(409).json({ error: `Only failed refunds can be retried (refund is ${existing.requestStatus})` });
+      }
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'refund_retried',
+        targetType: 'refund',
+        targetId: existing.id,
+        previousValue: JSON.stringify({ requestStatus: existing.requestStatus, failureReason: existing.failureReason }),
+        newValue: 'approved',
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      const settled = await executeRefund(refund.id);
+      res.json(settled || refund);
+    } catch (error) {
+      console.error("Error retrying refund:", error);
+      res.status(500).json({ error: "Failed to retry refund" });
+    }
+  });
+
   // ===== CUSTOMER REFUND REQUEST =====
 
   /**
@@ -6796,14 +13943,31 @@ export async function registerRoutes(
    *         application/json:
    *           schema:
    *             type: object
-   *             required: [reason, amount]
+   *             required: [reason]
    *             properties:
    *               reason: { type: string }
-   *               amount: { type: string }
+   *               amount: { type: string, description: "Required unless items are given; includes the shipment's share of tax" }
    *               note: { type: string }
+   *               shipmentId: { type: string, description: "Shipment the refund is for (required when the order has more than one vendor)" }
+   *               items:
+   *                 type: array
+   *                 description: Lines being returned; the amount is computed from their order prices and tax, and they are restocked once the refund completes
+   *                 items:
+   *                   type: object
+   *                   required: [productId, quantity]
+   *                   properties:
+   *                     productId: { type: integer }
+   *                     variantId: { type: integer, description: "Variant of the order line, for products sold in variants" }
+   *                     quantity: { type: integer }
    *     responses:
    *       200:
    *         description: Refund request created
+   *       400:
+   *         description: |
+   *           Missing fields, shipment required, more items than remain refundable, or the amount is more than
+   *           the shipment total less every refund on it that is not rejected or failed, pending ones included (`refundable`)
+   *       409:
+   *         description: The order has not been paid
    */
   app.post("/api/orders/:orderId/refund-request", async (req, res) => {
     if (!req.user) {
@@ -6811,9 +13975,10 @@ export async function registerRoutes(
     }
     
     try {
-      const { reason, amount, note } = req.body;
+      const { reason, note, shipmentId, items } = req.body;
+      let { amount } = req.body;
       
-      if (!reason || !amount) {
+      if (!reason || (!amount && !Array.isArray(items))) {
         return res.status(400).json({ error: "Reason and amount are required" });
       }
       
@@ -6826,17 +13991,80 @@ export async function registerRoutes(
         return res.status(403).json({ error: "Access denied - not your order" });
       }
       
-      // Get vendorId from order items (first vendor)
-      const vendorId = order.items[0]?.vendorId;
+      // Only money actually received can be refunded
+      if (order.paymentStatus !== 'paid') {
+        return res.status(409).json({ error: "Only paid orders can be refunded" });
+      }
+      
+      // Refunds are scoped to one vendor's shipment
+      const shipment = shipmentId
+        ? order.shipments.find(s => s.id === shipmentId)
+        : order.shipments.length === 1 ? order.shipments[0] : undefined;
+      if (!shipment) {
+        return res.status(400).json({
+          error: shipmentId ? "Shipment not found in this order" : "shipmentId is required for orders with multiple vendors",
+        });
+      }
+      
+      // Item-level refunds are priced from the order lines and limited to what has not been refunded yet
+      const refundLines: { productId: number; variantId: number | null; variantName: string | null; name: string; image: string; price: string; quantity: number; taxAmount: string }[] = [];
+      if (Array.isArray(items) && items.length > 0) {
+        const alreadyRefunded = await storage.getRefundedQuantities(order.id);
+        for (const requested of items) {
+          const line = order.items.find(item => item.shipmentId === shipment.id && item.productId === requested.productId
+            && (item.variantId ?? null) === (requested.variantId ?? null));
+          const quantity = parseInt(requested.quantity);
+          if (!line || isNaN(quantity) || quantity < 1) {
+            return res.status(400).json({ error: `Product ${requested.productId} is not part of this shipment` });
+          }
+          const remaining = line.quantity - (alreadyRefunded.get(orderLineKey(line.productId, line.variantId)) || 0);
+          if (quantity > remaining) {
+            return res.status(400).json({ error: `Only ${remaining} of ${line.name} can still be refunded` });
+          }
+          refundLines.push({
+            productId: line.productId,
+            variantId: line.variantId,
+            variantName: line.variantName,
+            name: line.name,
+            image: line.image,
+            price: line.price,
+            quantity,
+            taxAmount: (parseFloat(line.taxAmount) * quantity / line.quantity).toFixed(2),
+          });
+        }
+        amount = refundLines.reduce((sum, line) => sum + parseFloat(line.price) * line.quantity + parseFloat(line.taxAmount), 0).toFixed(2);
+      }
+      
+      // Refunds give back the tax paid on the refunded goods; amounts given without items carry
+      // the shipment's share of tax
+      const shipmentTax = order.items
+        .filter(item => item.shipmentId === shipment.id)
+        .reduce((sum, item) => sum + parseFloat(item.taxAmount), 0);
+      const taxRatio = parseFloat(shipment.subtotal) > 0 ? shipmentTax / parseFloat(shipment.subtotal) : 0;
+      if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+        return res.status(400).json({ error: "Amount must be greater than 0 and not exceed the shipment total" });
+      }
+      const taxAmount = refundLines.length > 0
+        ? refundLines.reduce((sum, line) => sum + parseFloat(line.taxAmount), 0)
+        : parseFloat(amount) * taxRatio / (1 + taxRatio);
       
       const refund = await storage.createRefundRequest({
         orderId: req.params.orderId,
+        shipmentId: shipment.id,
         userId: req.user.id,
-        vendorId: vendorId || undefined,
+        vendorId: shipment.vendorId,
         amount,
+        taxAmount: taxAmount.toFixed(2),
         reason,
         customerNote: note,
-      });
+      }, refundLines, parseFloat(shipment.subtotal) + shipmentTax);
+      if ('error' in refund) {
+        return res.status(400).json({
+          error: `Amount must be greater than 0 and not exceed the AED ${refund.refundable} of the shipment not yet refunded or requested`,
+          refundable: refund.refundable,
+        });
+      }
+      emitDomainEvent('refund.requested', { refundId: refund.id });
       
       res.json(refund);
     } catch (error) {
@@ -6845,6 +14073,326 @@ export async function registerRoutes(
     }
   });
 
+  // ===== PAYOUT APIs (ADMIN ONLY) =====
+
+  /**
+   * @swagger
+   * /admin/payouts:
+   *   get:
+   *     tags: [Admin Payouts]
+   *     summary: List vendor payouts
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: vendorId
+   *         schema: { type: string }
+   *       - in: query
+   *         name: status
+   *         schema: { type: string, enum: [pending, processing, paid, failed, cancelled] }
+   *     responses:
+   *       200:
+   *         description: List of payouts with vendor name and email
+   */
+  app.get("/api/admin/payouts", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(payoutStatusEnum.enumValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: "Invalid payout status" });
+      }
+
+      const payouts = await storage.getPayouts({
+        vendorId: req.query.vendorId as string | undefined,
+        status: status as (typeof payoutStatusEnum.enumValues)[number] | undefined,
+      });
+      res.json(payouts);
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ error: "Failed to fetch payouts" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/payouts/run:
+   *   post:
+   *     tags: [Admin Payouts]
+   *     summary: Run a payout settlement
+   *     description: |
+   *       Creates a pending payout for every vendor (or the given vendors) with a positive unsettled
+   *       ledger balance up to periodEnd, snapshotting the bank details from onboarding step 5.
+   *       Vendors with a zero or negative balance, or no bank account on file, are reported as skipped.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [periodEnd]
+   *             properties:
+   *               periodEnd: { type: string, format: date-time }
+   *               vendorIds: { type: array, items: { type: string } }
+   *               notes: { type: string }
+   *     responses:
+   *       201:
+   *         description: Created payouts and skipped vendors
+   */
+  app.post("/api/admin/payouts/run", requireAdmin, async (req, res) => {
+    try {
+      const runSchema = z.object({
+        periodEnd: z.coerce.date().refine(date => date <= new Date(), "periodEnd cannot be in the future"),
+        vendorIds: z.array(z.string()).optional(),
+        notes: z.string().max(1000).optional(),
+      });
+      const data = runSchema.parse(req.body);
+
+      const result = await storage.createPayoutRun({ ...data, adminId: req.user!.id });
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'payout_run',
+        targetType: 'payout',
+        targetId: data.periodEnd.toISOString(),
+        newValue: JSON.stringify({ payouts: result.payouts.map(p => ({ id: p.id, vendorId: p.vendorId, amount: p.amount })), skipped: result.skipped }),
+        note: data.notes,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      result.payouts.forEach(payout => publishNotificationCount(payout.vendorId)
+        .catch(error => console.error("Error sending notification count:", error)));
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error running payouts:", error);
+      res.status(500).json({ error: "Failed to run payouts" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/payouts/{payoutId}:
+   *   patch:
+   *     tags: [Admin Payouts]
+   *     summary: Update payout status
+   *     description: |
+   *       Moves a payout to processing, paid, failed or cancelled. Marking it paid requires the
+   *       remittance reference and posts the payout to the vendor's ledger. Failed and cancelled
+   *       payouts release their transactions into the next run.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: payoutId
+   *         required: true
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [status]
+   *             properties:
+   *               status: { type: string, enum: [processing, paid, failed, cancelled] }
+   *               remittanceReference: { type: string }
+   *               failureReason: { type: string }
+   *               notes: { type: string }
+   *     responses:
+   *       200:
+   *         description: Payout updated
+   *       404:
+   *         description: Payout not found
+   *       409:
+   *         description: Status change not allowed from the current status
+   */
+  app.patch("/api/admin/payouts/:payoutId", requireAdmin, async (req, res) => {
+    try {
+      const updateSchema = z.object({
+        status: z.enum(['processing', 'paid', 'failed', 'cancelled']),
+        remittanceReference: z.string().trim().min(1).max(200).optional(),
+        failureReason: z.string().max(1000).optional(),
+        notes: z.string().max(1000).optional(),
+      }).refine(data => data.status !== 'paid' || !!data.remittanceReference, {
+        message: "remittanceReference is required when marking a payout paid",
+        path: ['remittanceReference'],
+      });
+      const data = updateSchema.parse(req.body);
+
+      const result = await storage.updatePayoutStatus(req.params.payoutId, data, req.user!.id);
+      if (!result) {
+        return res.status(404).json({ error: "Payout not found" });
+      }
+      if ('conflict' in result) {
+        return res.status(409).json({ error: result.conflict });
+      }
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'payout_status_changed',
+        targetType: 'payout',
+        targetId: result.payout.id,
+        previousValue: result.previous.status,
+        newValue: result.payout.status,
+        note: data.remittanceReference || data.failureReason || data.notes,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+      publishNotificationCount(result.payout.vendorId).catch(error => console.error("Error sending notification count:", error));
+
+      res.json(result.payout);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating payout:", error);
+      res.status(500).json({ error: "Failed to update payout" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/payouts/{payoutId}/statement:
+   *   get:
+   *     tags: [Admin Payouts]
+   *     summary: Download payout statement
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: payoutId
+   *         required: true
+   *         schema: { type: string }
+   *       - in: query
+   *         name: format
+   *         schema: { type: string, enum: [csv, pdf], default: pdf }
+   *     responses:
+   *       200:
+   *         description: Statement file
+   *       404:
+   *         description: Payout not found
+   */
+  app.get("/api/admin/payouts/:payoutId/statement", requireAdmin, async (req, res) => {
+    try {
+      const payout = await storage.getPayoutById(req.params.payoutId);
+      if (!payout) {
+        return res.status(404).json({ error: "Payout not found" });
+      }
+      const vendor = await storage.getUser(payout.vendorId);
+
+      sendPayoutStatement(res, payout, vendor || { name: 'Unknown vendor', email: '' }, req.query.format === 'csv' ? 'csv' : 'pdf');
+    } catch (error) {
+      console.error("Error generating payout statement:", error);
+      res.status(500).json({ error: "Failed to generate statement" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/vendors/{vendorId}/ledger:
+   *   get:
+   *     tags: [Admin Payouts]
+   *     summary: Get a vendor's ledger
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: vendorId
+   *         required: true
+   *         schema: { type: string }
+   *       - in: query
+   *         name: page
+   *         schema: { type: integer, default: 1 }
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 50 }
+   *     responses:
+   *       200:
+   *         description: Ledger entries, total count and balance
+   */
+  app.get("/api/admin/vendors/:vendorId/ledger", requireAdmin, async (req, res) => {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+      const [ledger, balance] = await Promise.all([
+        storage.getVendorLedger(req.params.vendorId, { page, limit }),
+        storage.getVendorBalance(req.params.vendorId),
+      ]);
+      res.json({ ...ledger, balance });
+    } catch (error) {
+      console.error("Error fetching vendor ledger:", error);
+      res.status(500).json({ error: "Failed to fetch ledger" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /admin/vendors/{vendorId}/ledger/adjustments:
+   *   post:
+   *     tags: [Admin Payouts]
+   *     summary: Post a manual ledger adjustment
+   *     description: A positive amount credits the vendor, a negative amount charges them
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: vendorId
+   *         required: true
+   *         schema: { type: string }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [amount, description]
+   *             properties:
+   *               amount: { type: number }
+   *               description: { type: string }
+   *     responses:
+   *       201:
+   *         description: Adjustment posted
+   *       404:
+   *         description: Vendor not found
+   */
+  app.post("/api/admin/vendors/:vendorId/ledger/adjustments", requireAdmin, async (req, res) => {
+    try {
+      const adjustmentSchema = z.object({
+        amount: z.number().refine(amount => amount !== 0 && Math.abs(amount) < 10_000_000, "Amount must be non-zero"),
+        description: z.string().trim().min(3).max(500),
+      });
+      const data = adjustmentSchema.parse(req.body);
+
+      const vendor = await storage.getUser(req.params.vendorId);
+      if (!vendor || vendor.userType !== 'vendor') {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+
+      const transaction = await storage.createLedgerAdjustment(vendor.id, data.amount, data.description, req.user!.id);
+
+      await storage.createAdminActionLog({
+        adminId: req.user!.id,
+        actionType: 'ledger_adjustment',
+        targetType: 'vendor',
+        targetId: vendor.id,
+        newValue: data.amount.toFixed(2),
+        note: data.description,
+        ipAddress: req.ip || req.headers['x-forwarded-for'] as string || 'unknown',
+      });
+
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error posting ledger adjustment:", error);
+      res.status(500).json({ error: "Failed to post adjustment" });
+    }
+  });
+
   // ===== COMMISSION MANAGEMENT APIs =====
 
   /**
@@ -7035,6 +14583,33 @@ export async function registerRoutes(
 
   // ===== SUPPORT TICKET SYSTEM =====
 
+  // Files given as attachmentFileIds must be the sender's own ticket_attachment uploads
+  async function resolveTicketAttachments(fileIds: unknown, ownerId: string): Promise<UploadedFile[] | null> {
+    if (fileIds === undefined) return [];
+    if (!Array.isArray(fileIds) || fileIds.length > 10) return null;
+    const files: UploadedFile[] = [];
+    for (const fileId of fileIds) {
+      const file = typeof fileId === 'string' ? await getOwnedUpload(fileId, ownerId, ['ticket_attachment']) : undefined;
+      if (!file) return null;
+      files.push(file);
+    }
+    return files;
+  }
+
+  async function attachFilesToMessage(messageId: number, files: UploadedFile[]) {
+    const attachments = [];
+    for (const file of files) {
+      attachments.push(await storage.addTicketAttachment({
+        messageId,
+        fileName: file.fileName,
+        fileUrl: fileUrl(file),
+        fileType: file.mimeType,
+        fileSize: file.size,
+      }));
+    }
+    return attachments;
+  }
+
   /**
    * @swagger
    * tags:
@@ -7101,6 +14676,7 @@ export async function registerRoutes(
         priority: priority || 'medium',
         status: 'open',
       }, message);
+      publishAdminQueue('tickets');
       
       res.status(201).json(ticket);
     } catch (error) {
@@ -7225,6 +14801,7 @@ export async function registerRoutes(
    *             required: [message]
    *             properties:
    *               message: { type: string, description: "Reply message content" }
+   *               attachmentFileIds: { type: array, maxItems: 10, items: { type: string }, description: "Your ticket_attachment uploads (POST /uploads)" }
    *     responses:
    *       201:
    *         description: Message added successfully
@@ -7241,11 +14818,16 @@ export async function registerRoutes(
         return res.status(401).json({ error: "Authentication required" });
       }
       
-      const { message } = req.body;
+      const { message, attachmentFileIds } = req.body;
       
       if (!message) {
         return res.status(400).json({ error: "Message is required" });
       }
+
+      const files = await resolveTicketAttachments(attachmentFileIds, req.user.id);
+      if (!files) {
+        return res.status(400).json({ error: "attachmentFileIds must be up to 10 of your ticket_attachment uploads" });
+      }
       
       const ticket = await storage.getTicketById(req.params.ticketId);
       
@@ -7268,8 +14850,10 @@ export async function registerRoutes(
         message,
         isInternal: false,
       });
+      const attachments = await attachFilesToMessage(newMessage.id, files);
+      emitDomainEvent('ticket.replied', { ticketId: ticket.id, senderId: req.user.id, senderType: 'customer' });
       
-      res.status(201).json(newMessage);
+      res.status(201).json({ ...newMessage, attachments });
     } catch (error) {
       console.error("Error adding message:", error);
       res.status(500).json({ error: "Failed to add message" });
@@ -7579,6 +15163,7 @@ export async function registerRoutes(
    *             properties:
    *               message: { type: string, description: "Reply message content" }
    *               isInternal: { type: boolean, default: false, description: "If true, message is only visible to admins" }
+   *               attachmentFileIds: { type: array, maxItems: 10, items: { type: string }, description: "Your ticket_attachment uploads (POST /uploads)" }
    *     responses:
    *       201:
    *         description: Message added successfully
@@ -7589,11 +15174,16 @@ export async function registerRoutes(
    */
   app.post("/api/admin/tickets/:ticketId/messages", requireAdmin, async (req, res) => {
     try {
-      const { message, isInternal } = req.body;
+      const { message, isInternal, attachmentFileIds } = req.body;
       
       if (!message) {
         return res.status(400).json({ error: "Message is required" });
       }
+
+      const files = await resolveTicketAttachments(attachmentFileIds, req.user!.id);
+      if (!files) {
+        return res.status(400).json({ error: "attachmentFileIds must be up to 10 of your ticket_attachment uploads" });
+      }
       
       const ticket = await storage.getTicketById(req.params.ticketId);
       if (!ticket) {
@@ -7607,12 +15197,16 @@ export async function registerRoutes(
         message,
         isInternal: isInternal || false,
       });
+      const attachments = await attachFilesToMessage(newMessage.id, files);
       
       if (!isInternal && ticket.status !== 'waiting_customer') {
         await storage.updateTicketStatus(req.params.ticketId, 'waiting_customer');
       }
+      if (!isInternal) {
+        emitDomainEvent('ticket.replied', { ticketId: ticket.id, senderId: req.user!.id, senderType: 'admin' });
+      }
       
-      res.status(201).json(newMessage);
+      res.status(201).json({ ...newMessage, attachments });
     } catch (error) {
       console.error("Error adding message:", error);
       res.status(500).json({ error: "Failed to add message" });
@@ -7658,35 +15252,27 @@ export async function registerRoutes(
    *     tags: [Products]
    *     summary: Get filter options
    *     description: |
-   *       Returns available filter options based on current product inventory.
+   *       Returns available filter options based on the approved product catalogue: distinct brands
+   *       (product make) and the same facet counts as `GET /api/products/search` with no filters applied.
    *       
    *       ## Pages / Sections Used
    *       - **Products Page** (`/products`)
-   *         - Filter Sidebar - brands, departments, surface types, materials checkboxes
+   *         - Filter Sidebar - brand and facet checkboxes
    *     responses:
    *       200:
    *         description: Available filter options
    */
   app.get("/api/filters", async (req, res) => {
     try {
-      const products = await storage.getProducts({});
-      
-      const vendors = [...new Set(products.map(p => p.make))].filter(Boolean);
-      const departments = [...new Set(products.map(p => p.department))].filter(Boolean);
+      const products = await storage.getProducts({ status: 'approved' });
+      const brands = Array.from(new Set(products.map(p => p.make).filter((make): make is string => !!make))).sort();
 
-      res.json({
-        brands: vendors,
-        departments,
-        productTypes: [
-          { name: "Brake Pads", image: "https://images.unsplash.com/photo-1600706432502-76b1e601a746?auto=format&fit=crop&q=80&w=200" },
-          { name: "Disc Brake Pad", image: "https://images.unsplash.com/photo-1616788494707-ec28f08d05a1?auto=format&fit=crop&q=80&w=200" },
-          { name: "Brake Rotors", image: "https://images.unsplash.com/photo-1619642751034-765dfdf7c58e?auto=format&fit=crop&q=80&w=200" },
-          { name: "Parking Brake Shoe", image: "https://images.unsplash.com/photo-1486262715619-67b85e0b08d3?auto=format&fit=crop&q=80&w=200" }
-        ],
-        surfaceTypes: ["Heavy Duty", "Tactical", "Standard", "Performance"],
-        frictionalMaterials: ["Ceramic", "Semi-Metallic", "Organic", "Steel"]
-      });
+      // Facet options with counts across the whole approved catalogue
+      const { facets } = await storage.searchProducts({ limit: 1 });
+
+      res.json({ brands, facets });
     } catch (error) {
+      console.error("Error fetching filters:", error);
       res.status(500).json({ error: "Failed to fetch filters" });
     }
   });
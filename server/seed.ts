@@ -11,7 +11,9 @@ import {
   refPaymentMethods,
   refFinancialInstitutions,
   refProofTypes,
-  refVerificationMethods
+  refVerificationMethods,
+  taxRules,
+  fxRates
 } from "@shared/schema";
 
 export async function seedDatabase() {
@@ -20,6 +22,8 @@ export async function seedDatabase() {
   try {
     // Seed reference tables
     await seedReferenceTables();
+    await seedTaxRules();
+    await seedFxRates();
     
     // Check if categories already exist
     const existingCategories = await db.select().from(categories);
@@ -27,12 +31,12 @@ export async function seedDatabase() {
     if (existingCategories.length === 0) {
       // Insert categories
       const insertedCategories = await db.insert(categories).values([
-        { name: "Core Vehicle Systems", image: "https://images.unsplash.com/photo-1486262715619-67b85e0b08d3?auto=format&fit=crop&q=80&w=400", description: "Engines, Transmission, Chassis" },
-        { name: "Armor Specific Systems", image: "https://images.unsplash.com/photo-1599369262337-ee47696c4266?auto=format&fit=crop&q=80&w=400", description: "Ballistic Glass, Steel, Kevlar" },
-        { name: "Communication & Control", image: "https://images.unsplash.com/photo-1550751827-4bd374c3f58b?auto=format&fit=crop&q=80&w=400", description: "Radios, GPS, ECMs" },
-        { name: "Climate & Interior", image: "https://images.unsplash.com/photo-1560965385-a7455d311394?auto=format&fit=crop&q=80&w=400", description: "HVAC, Seats, Dashboards" },
-        { name: "Exterior & Utility", image: "https://images.unsplash.com/photo-1616788494707-ec28f08d05a1?auto=format&fit=crop&q=80&w=400", description: "Lighting, Winches, Bumpers" },
-        { name: "OEM Sourcing", image: "https://images.unsplash.com/photo-1619642751034-765dfdf7c58e?auto=format&fit=crop&q=80&w=400", description: "Direct from Manufacturer" }
+        { name: "Core Vehicle Systems", slug: "core-vehicle-systems", image: "https://images.unsplash.com/photo-1486262715619-67b85e0b08d3?auto=format&fit=crop&q=80&w=400", description: "Engines, Transmission, Chassis" },
+        { name: "Armor Specific Systems", slug: "armor-specific-systems", image: "https://images.unsplash.com/photo-1599369262337-ee47696c4266?auto=format&fit=crop&q=80&w=400", description: "Ballistic Glass, Steel, Kevlar" },
+        { name: "Communication & Control", slug: "communication-and-control", image: "https://images.unsplash.com/photo-1550751827-4bd374c3f58b?auto=format&fit=crop&q=80&w=400", description: "Radios, GPS, ECMs" },
+        { name: "Climate & Interior", slug: "climate-and-interior", image: "https://images.unsplash.com/photo-1560965385-a7455d311394?auto=format&fit=crop&q=80&w=400", description: "HVAC, Seats, Dashboards" },
+        { name: "Exterior & Utility", slug: "exterior-and-utility", image: "https://images.unsplash.com/photo-1616788494707-ec28f08d05a1?auto=format&fit=crop&q=80&w=400", description: "Lighting, Winches, Bumpers" },
+        { name: "OEM Sourcing", slug: "oem-sourcing", image: "https://images.unsplash.com/photo-1619642751034-765dfdf7c58e?auto=format&fit=crop&q=80&w=400", description: "Direct from Manufacturer" }
       ]).returning();
 
       console.log(`✓ Created ${insertedCategories.length} categories`);
@@ -422,3 +426,30 @@ async function seedReferenceTables() {
     console.log("✓ Seeded ref_verification_methods");
   }
 }
+
+// UAE VAT for a platform based in the UAE: domestic sales at 5%, exports zero-rated, and imports from
+// foreign sellers taxed at 5% unless a VAT-registered business accounts for it under reverse charge
+async function seedTaxRules() {
+  const existingRules = await db.select().from(taxRules);
+  if (existingRules.length === 0) {
+    await db.insert(taxRules).values([
+      { name: "UAE VAT", originCountry: "AE", destinationCountry: "AE", treatment: "standard", rate: "5.00" },
+      { name: "Export", originCountry: "AE", treatment: "zero_rated", rate: "0.00" },
+      { name: "UAE VAT", destinationCountry: "AE", treatment: "standard", rate: "5.00", reverseChargeForBusiness: true },
+    ]);
+    console.log("✓ Seeded tax_rules");
+  }
+}
+
+// Only the pegged currencies are seeded; floating rates are loaded by an admin
+async function seedFxRates() {
+  const existingRates = await db.select().from(fxRates);
+  if (existingRates.length === 0) {
+    const effectiveFrom = new Date("2000-01-01T00:00:00Z");
+    await db.insert(fxRates).values([
+      { currency: "USD", rate: "3.67250000", effectiveFrom, source: "peg" },
+      { currency: "SAR", rate: "0.97933333", effectiveFrom, source: "peg" },
+    ]);
+    console.log("✓ Seeded fx_rates");
+  }
+}
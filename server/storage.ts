@@ -1,9 +1,15 @@
 // Integration: blueprint:javascript_database
 import { 
-  users, products, categories, reviews, cartItems, orders, orderItems, authSessions,
+  users, products, categories, reviews, cartItems, orders, orderItems, authSessions, userSecurityEvents, passwordResetRequests,
   refunds, refundItems, addresses, savedPaymentMethods, orderStatusHistory, otpVerifications, userProfiles,
-  adminActionLogs, productMedia, productPricingTiers, productReviewNotes, platformSettings,
-  supportTickets, ticketMessages, ticketAttachments, vendorNotifications,
+  adminActionLogs, productMedia, productMediaVariants, productPricingTiers, productVariants, productReviewNotes, platformSettings,
+  supportTickets, ticketMessages, ticketAttachments, notifications, notificationPreferences, stripeWebhookEvents, stockReservations,
+  orderShipments, wishlists, wishlistItems, vehicles, productVehicleFitments, userVehicles,
+  rfqs, rfqItems, rfqQuotes, rfqQuoteItems,
+  vendorLedgerTransactions, vendorLedgerLines, vendorPayouts, uploadedFiles, catalogImportJobs, catalogImportErrors,
+  complianceDocuments, deniedParties, restrictedCountryRules, orderComplianceReviews, complianceAuditLog,
+  creditAccounts, invoices, invoicePayments, paymentTermsDays,
+  taxRules, taxDocuments, taxDocumentLines, taxDocumentSequences, fxRates, BASE_CURRENCY,
   refNatureOfBusiness, refEndUseMarkets, refLicenseTypes, refCountries,
   refVendorCategories, refCurrencies, refPaymentMethods, refFinancialInstitutions, refProofTypes, refVerificationMethods,
   refProductSizes, refProductColors, refProductFeatures, refProductPerformance, 
@@ -11,32 +17,125 @@ import {
   refWeightUnits, refControlledItemTypes, refPricingTerms, refManufacturingSources,
   type User, type InsertUser,
   type Product, type InsertProduct,
-  type Category, type InsertCategory,
+  type ProductSearchParams, type ProductSearchResult, type ProductSearchFacetField, type ProductFacetValue,
+  productSearchFacetFields,
+  type Category, type InsertCategory, type CategoryTreeNode,
   type Review, type InsertReview,
-  type CartItem, type InsertCartItem,
+  type CartItem, type InsertCartItem, type CartItemPricing,
   type Order, type InsertOrder,
   type OrderItem, type InsertOrderItem,
+  type OrderShipment,
+  type Wishlist, type WishlistItem, type WishlistItemWithProduct,
+  type Vehicle, type InsertVehicle, type ProductVehicleFitmentWithVehicle,
+  type UserVehicle, type InsertUserVehicle, type UserVehicleWithVehicle,
+  type FitmentImportRow, type FitmentImportResult,
+  type Rfq, type RfqQuote, type RfqWithDetails,
+  type VendorLedgerTransaction, type VendorLedgerLine, type VendorLedgerEntry, type VendorPayout, type VendorPayoutWithEntries,
   type AuthSession, type InsertAuthSession,
   type Refund, type InsertRefund,
   type RefundItem, type InsertRefundItem,
   type Address, type InsertAddress,
   type SavedPaymentMethod, type InsertSavedPaymentMethod,
   type OrderStatusHistory, type InsertOrderStatusHistory,
-  type OtpVerification, type InsertOtpVerification,
+  type StockReservation,
+  type OtpVerification, type InsertOtpVerification, type UserSecurityEvent, type PasswordResetRequest,
   type UserProfile, type InsertUserProfile,
   type AdminActionLog, type InsertAdminActionLog,
-  type ProductMedia, type InsertProductMedia,
+  type ProductMedia, type InsertProductMedia, type ProductMediaVariant,
   type ProductPricingTier, type InsertProductPricingTier,
+  type ProductVariant,
   type ProductReviewNote, type InsertProductReviewNote,
   type PlatformSetting,
   type SupportTicket, type InsertSupportTicket,
   type TicketMessage, type InsertTicketMessage,
   type TicketAttachment, type InsertTicketAttachment,
-  type VendorNotification, type InsertVendorNotification
+  type Notification, type InsertNotification, type NotificationPreference,
+  type UploadedFile, type InsertUploadedFile,
+  type CatalogImportJob, type CatalogImportError, type CatalogImportJobWithErrors,
+  type ComplianceDocument, type DeniedParty, type RestrictedCountryRule, type OrderComplianceReview,
+  type OrderComplianceReviewWithDetails, type ComplianceAuditEntry,
+  type CreditAccount, type CreditAccountWithBalance, type Invoice, type InvoicePayment, type InvoiceWithDetails,
+  type TaxRule, type OrderLineTax, type FxRate, type FxRateTable, type TaxDocument, type TaxDocumentWithLines,
+  describeVariant
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, and, desc, sql, or, ilike, isNull, inArray, count, gte, lte, asc } from "drizzle-orm";
 
+// Resolve the unit price for a quantity from a product's volume tiers (sorted by minQuantity).
+// The tier with the highest minQuantity covering the quantity wins; without a match the list price applies.
+// Prices are converted from the list currency to the base currency at `exchange.rate` first; a null
+// rate leaves them in the list currency.
+export function resolveTierPricing(
+  listPrice: string | null,
+  tiers: ProductPricingTier[],
+  quantity: number,
+  exchange: { currency: string; rate: number | null } = { currency: BASE_CURRENCY, rate: 1 }
+): CartItemPricing {
+  const convert = (price: string) => Math.round(parseFloat(price) * (exchange.rate ?? 1) * 100) / 100;
+  const list = convert(listPrice || '0');
+  const applied = tiers
+    .filter(t => quantity >= t.minQuantity && (t.maxQuantity == null || quantity <= t.maxQuantity))
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+  const unit = applied ? convert(applied.price) : list;
+
+  const next = tiers
+    .filter(t => t.minQuantity > quantity && convert(t.price) < unit)
+    .sort((a, b) => a.minQuantity - b.minQuantity)[0];
+
+  return {
+    currency: exchange.currency,
+    exchangeRate: exchange.rate === null ? null : exchange.rate.toString(),
+    listPrice: list.toFixed(2),
+    unitPrice: unit.toFixed(2),
+    lineTotal: (unit * quantity).toFixed(2),
+    savings: (Math.max(list - unit, 0) * quantity).toFixed(2),
+    appliedTier: applied ? { minQuantity: applied.minQuantity, maxQuantity: applied.maxQuantity, price: convert(applied.price).toFixed(2) } : null,
+    nextTier: next ? {
+      minQuantity: next.minQuantity,
+      price: convert(next.price).toFixed(2),
+      quantityNeeded: next.minQuantity - quantity,
+      unitSaving: (unit - convert(next.price)).toFixed(2),
+    } : null,
+  };
+}
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Approved refunds that fail at Stripe are retried with exponential backoff before giving up
+export const REFUND_MAX_ATTEMPTS = 5;
+const REFUND_RETRY_BASE_MINUTES = 5;
+
+// Accounts each ledger entry type moves money between. Every posting has one side on the vendor's
+// payable account; a negative amount (only used by adjustments) swaps the two sides.
+const LEDGER_POSTINGS: Record<VendorLedgerTransaction['entryType'], { debit: VendorLedgerLine['account']; credit: VendorLedgerLine['account'] }> = {
+  sale: { debit: 'customer_payments', credit: 'vendor_payable' },
+  commission: { debit: 'vendor_payable', credit: 'platform_commission' },
+  refund: { debit: 'vendor_payable', credit: 'customer_payments' },
+  commission_reversal: { debit: 'platform_commission', credit: 'vendor_payable' },
+  adjustment: { debit: 'platform_adjustments', credit: 'vendor_payable' },
+  payout: { debit: 'vendor_payable', credit: 'payouts_clearing' },
+};
+
+// Payout statuses an admin may move a payout to; paid, failed and cancelled are final
+const PAYOUT_TRANSITIONS: Record<VendorPayout['status'], VendorPayout['status'][]> = {
+  pending: ['processing', 'paid', 'failed', 'cancelled'],
+  processing: ['paid', 'failed'],
+  paid: [],
+  failed: [],
+  cancelled: [],
+};
+
+class StockShortage extends Error {
+  constructor(public productId: number, public variantId: number | null, public requested: number, public available: number) {
+    super(`Insufficient stock for product ${productId}${variantId ? ` variant ${variantId}` : ''}`);
+  }
+}
+
+// Identifies an order line: the same product can be ordered in several variants
+export function orderLineKey(productId: number, variantId: number | null | undefined): string {
+  return `${productId}:${variantId ?? ''}`;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -56,6 +155,7 @@ export interface IStorage {
     search?: string;
     minPrice?: number;
     maxPrice?: number;
+    status?: Product['status'];
   }): Promise<Product[]>;
   getProductById(id: number): Promise<Product | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
@@ -66,15 +166,15 @@ export interface IStorage {
   createReview(review: InsertReview): Promise<Review>;
 
   // Cart
-  getCartByUserId(userId: string): Promise<(CartItem & { product: Product })[]>;
+  getCartByUserId(userId: string): Promise<(CartItem & { product: Product; pricing: CartItemPricing })[]>;
   addToCart(item: InsertCartItem): Promise<CartItem>;
   updateCartItem(id: number, quantity: number): Promise<CartItem | undefined>;
   removeFromCart(id: number): Promise<void>;
   clearCart(userId: string): Promise<void>;
 
   // Orders
-  getOrdersByUserId(userId: string): Promise<(Order & { items: OrderItem[] })[]>;
-  getOrderById(id: string): Promise<(Order & { items: OrderItem[] }) | undefined>;
+  getOrdersByUserId(userId: string): Promise<(Order & { items: OrderItem[]; shipments: OrderShipment[] })[]>;
+  getOrderById(id: string): Promise<(Order & { items: OrderItem[]; shipments: OrderShipment[] }) | undefined>;
   createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<Order>;
 
   // Vendor Stats & Operations
@@ -247,6 +347,93 @@ export interface IStorage {
   updateTicketPriority(ticketId: string, priority: string): Promise<SupportTicket | undefined>;
 }
 
+export const CATEGORY_MAX_DEPTH = 3;
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Products filed anywhere in a category subtree, at any of the three category levels
+function productInCategoriesCondition(categoryIds: number[]) {
+  return or(
+    inArray(products.mainCategoryId, categoryIds),
+    inArray(products.categoryId, categoryIds),
+    inArray(products.subCategoryId, categoryIds)
+  )!;
+}
+
+// Storefront listings only show approved products that can be bought now
+function listedProductCondition() {
+  return and(eq(products.status, 'approved'), sql`coalesce(${products.stock}, 0) > 0`);
+}
+
+// Escape LIKE wildcards so a stored value can be matched literally with ilike
+function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Weighted full-text document for product search. Keep in sync with the GIN index in
+// migrations/manual_product_search_index.sql so Postgres can use it.
+const productSearchDocument = sql`(
+  setweight(to_tsvector('english', coalesce(${products.name}, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(${products.sku}, '') || ' ' || coalesce(${products.make}, '') || ' ' || coalesce(${products.model}, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(${products.description}, '') || ' ' || coalesce(${products.technicalDescription}, '') || ' ' || coalesce(${products.vehicleCompatibility}, '')), 'C')
+)`;
+
+const productArrayFacetColumns = {
+  materials: products.materials,
+  features: products.features,
+  driveTypes: products.driveTypes,
+  sizes: products.sizes,
+  colors: products.colors,
+};
+
+const productScalarFacetColumns = {
+  condition: products.condition,
+  countryOfOrigin: products.countryOfOrigin,
+  vendorId: products.vendorId,
+};
+
+function emptyProductFacets(): Record<ProductSearchFacetField, ProductFacetValue[]> {
+  const facets = {} as Record<ProductSearchFacetField, ProductFacetValue[]>;
+  for (let i = 0; i < productSearchFacetFields.length; i++) {
+    facets[productSearchFacetFields[i]] = [];
+  }
+  return facets;
+}
+
+// A product fits a vehicle when it is linked to a catalogue entry for the same make and model
+// whose variant is unspecified or equal, and whose year range covers the given year (if any).
+// Variant-specific or year-split catalogue rows therefore still match a garage vehicle.
+function productFitsVehicleCondition(vehicle: Vehicle, year?: number) {
+  const fitYear = year ?? null;
+  return sql`exists (
+    select 1 from ${productVehicleFitments}
+    inner join ${vehicles} on ${vehicles.id} = ${productVehicleFitments.vehicleId}
+    where ${productVehicleFitments.productId} = ${products.id}
+      and lower(${vehicles.make}) = lower(${vehicle.make})
+      and lower(${vehicles.model}) = lower(${vehicle.model})
+      and (${vehicles.variant} is null or ${vehicle.variant}::text is null or lower(${vehicles.variant}) = lower(${vehicle.variant}))
+      and (${fitYear}::int is null or ${fitYear}::int between coalesce(${vehicles.yearFrom}, ${fitYear}::int) and coalesce(${vehicles.yearTo}, ${fitYear}::int))
+  )`;
+}
+
+function productFacetCondition(field: ProductSearchFacetField, values: string[]) {
+  if (field in productArrayFacetColumns) {
+    const column = productArrayFacetColumns[field as keyof typeof productArrayFacetColumns];
+    // Overlap: the product offers any of the selected options
+    return sql`${column} && ARRAY[${sql.join(values.map(v => sql`${v}`), sql`, `)}]::text[]`;
+  }
+  const column = productScalarFacetColumns[field as keyof typeof productScalarFacetColumns];
+  return inArray(column, values as any);
+}
+
 export class DatabaseStorage implements IStorage {
   // Users
   async getUser(id: string): Promise<User | undefined> {
@@ -287,14 +474,152 @@ export class DatabaseStorage implements IStorage {
 
   // Categories
   async getCategories(): Promise<Category[]> {
-    return await db.select().from(categories);
+    return await db.select().from(categories).orderBy(asc(categories.displayOrder), asc(categories.name));
+  }
+
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category || undefined;
+  }
+
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.slug, slug));
+    return category || undefined;
+  }
+
+  async getCategoryTree(): Promise<CategoryTreeNode[]> {
+    const all = await this.getCategories();
+    const nodes = new Map<number, CategoryTreeNode>(all.map(c => [c.id, { ...c, children: [] }]));
+    const roots: CategoryTreeNode[] = [];
+
+    // getCategories is already sorted, so children keep display order
+    for (let i = 0; i < all.length; i++) {
+      const node = nodes.get(all[i].id)!;
+      const parent = all[i].parentId ? nodes.get(all[i].parentId!) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  // Breadcrumb from the root down to (and including) the category
+  async getCategoryPath(id: number): Promise<Category[]> {
+    const all = await db.select().from(categories);
+    const byId = new Map(all.map(c => [c.id, c]));
+    const path: Category[] = [];
+
+    let current = byId.get(id);
+    while (current && path.length <= CATEGORY_MAX_DEPTH) {
+      path.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  // The category and every category below it
+  async getCategoryDescendantIds(id: number): Promise<number[]> {
+    const all = await db.select({ id: categories.id, parentId: categories.parentId }).from(categories);
+    const ids = [id];
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = 0; j < all.length; j++) {
+        if (all[j].parentId === ids[i] && !ids.includes(all[j].id)) ids.push(all[j].id);
+      }
+    }
+    return ids;
   }
 
   async createCategory(category: InsertCategory): Promise<Category> {
-    const [newCategory] = await db.insert(categories).values(category as any).returning();
+    const slug = category.slug || await this.generateCategorySlug(category.name);
+    const [newCategory] = await db.insert(categories).values({ ...category, slug }).returning();
     return newCategory;
   }
 
+  async updateCategory(id: number, data: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [updated] = await db.update(categories)
+      .set(data)
+      .where(eq(categories.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    await db.delete(categories).where(eq(categories.id, id));
+  }
+
+  async countCategoryUsage(id: number): Promise<{ children: number; products: number }> {
+    const [{ children }] = await db.select({ children: count() }).from(categories).where(eq(categories.parentId, id));
+    const [{ total }] = await db.select({ total: count() }).from(products).where(or(
+      eq(products.mainCategoryId, id),
+      eq(products.categoryId, id),
+      eq(products.subCategoryId, id)
+    ));
+    return { children, products: total };
+  }
+
+  async generateCategorySlug(name: string, excludeId?: number): Promise<string> {
+    const base = slugify(name) || 'category';
+    const taken = await db.select({ id: categories.id, slug: categories.slug }).from(categories)
+      .where(or(eq(categories.slug, base), ilike(categories.slug, `${base}-%`)));
+    const used = new Set(taken.filter(t => t.id !== excludeId).map(t => t.slug));
+
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) {
+      slug = `${base}-${n}`;
+    }
+    return slug;
+  }
+
+  // Depth of the category in the tree (roots are 1)
+  async getCategoryDepth(id: number): Promise<number> {
+    return (await this.getCategoryPath(id)).length;
+  }
+
+  // Height of the subtree under the category (a leaf is 1)
+  async getCategorySubtreeHeight(id: number): Promise<number> {
+    const all = await db.select({ id: categories.id, parentId: categories.parentId }).from(categories);
+    const height = (nodeId: number, depth: number): number => {
+      if (depth > CATEGORY_MAX_DEPTH) return depth;
+      const children = all.filter(c => c.parentId === nodeId);
+      return 1 + children.reduce((max, c) => Math.max(max, height(c.id, depth + 1)), 0);
+    };
+    return height(id, 1);
+  }
+
+  // A product's category IDs must read top-down along one branch of the tree: each given ID
+  // is the direct parent of the next one given, and mainCategoryId must be a root.
+  // Returns an error message, or null when the path is consistent.
+  async validateProductCategoryPath(ids: {
+    mainCategoryId?: number | null;
+    categoryId?: number | null;
+    subCategoryId?: number | null;
+  }): Promise<string | null> {
+    const levels = [
+      { field: 'mainCategoryId', id: ids.mainCategoryId },
+      { field: 'categoryId', id: ids.categoryId },
+      { field: 'subCategoryId', id: ids.subCategoryId },
+    ].filter((level): level is { field: string; id: number } => level.id !== null && level.id !== undefined);
+    if (levels.length === 0) return null;
+
+    const found = await db.select().from(categories).where(inArray(categories.id, levels.map(l => l.id)));
+    const byId = new Map(found.map(c => [c.id, c]));
+
+    for (let i = 0; i < levels.length; i++) {
+      const category = byId.get(levels[i].id);
+      if (!category) return `${levels[i].field} ${levels[i].id} does not exist`;
+
+      if (levels[i].field === 'mainCategoryId' && category.parentId !== null) {
+        return `mainCategoryId ${category.id} is not a top-level category`;
+      }
+      if (i > 0 && category.parentId !== levels[i - 1].id) {
+        return `${levels[i].field} ${category.id} is not a child of ${levels[i - 1].field} ${levels[i - 1].id}`;
+      }
+    }
+    return null;
+  }
+
   async validateCategoryIds(categoryIds: number[]): Promise<number[]> {
     const existingCategories = await db
       .select({ id: categories.id })
@@ -311,13 +636,18 @@ export class DatabaseStorage implements IStorage {
     search?: string;
     minPrice?: number;
     maxPrice?: number;
+    status?: Product['status'];
   }): Promise<Product[]> {
     let query = db.select().from(products);
 
     const conditions = [];
     
+    if (filters?.status) {
+      conditions.push(eq(products.status, filters.status));
+    }
+
     if (filters?.categoryId) {
-      conditions.push(eq(products.categoryId, filters.categoryId));
+      conditions.push(productInCategoriesCondition(await this.getCategoryDescendantIds(filters.categoryId)));
     }
     if (filters?.vendorId) {
       conditions.push(eq(products.vendorId, filters.vendorId));
@@ -344,6 +674,146 @@ export class DatabaseStorage implements IStorage {
     return await query;
   }
 
+  // Faceted search over approved products. Each facet's counts apply every other
+  // selected filter but not its own, so options within a facet stay selectable.
+  async searchProducts(params: ProductSearchParams): Promise<ProductSearchResult> {
+    const page = Math.max(params.page || 1, 1);
+    const limit = Math.min(Math.max(params.limit || 24, 1), 100);
+    const q = params.q?.trim();
+    const tsQuery = q ? sql`websearch_to_tsquery('english', ${q})` : null;
+
+    const baseConditions = [eq(products.status, 'approved')];
+    if (q && tsQuery) {
+      // Prefix-match SKUs too, since part numbers rarely survive stemming
+      baseConditions.push(or(sql`${productSearchDocument} @@ ${tsQuery}`, ilike(products.sku, `${escapeLikePattern(q)}%`))!);
+    }
+    if (params.categoryId) {
+      baseConditions.push(productInCategoriesCondition(await this.getCategoryDescendantIds(params.categoryId)));
+    }
+    if (params.minPrice !== undefined) {
+      baseConditions.push(sql`${products.price}::numeric >= ${params.minPrice}`);
+    }
+    if (params.maxPrice !== undefined) {
+      baseConditions.push(sql`${products.price}::numeric <= ${params.maxPrice}`);
+    }
+    if (params.vehicleId) {
+      const vehicle = await this.getVehicleById(params.vehicleId);
+      if (!vehicle) {
+        return { items: [], total: 0, page, limit, totalPages: 0, facets: emptyProductFacets() };
+      }
+      baseConditions.push(productFitsVehicleCondition(vehicle, params.vehicleYear));
+    }
+
+    const facetConditions = new Map<ProductSearchFacetField, ReturnType<typeof productFacetCondition>>();
+    for (let i = 0; i < productSearchFacetFields.length; i++) {
+      const field = productSearchFacetFields[i];
+      const values = params.filters?.[field];
+      if (values && values.length > 0) {
+        facetConditions.set(field, productFacetCondition(field, values));
+      }
+    }
+
+    const whereExcept = (skip?: ProductSearchFacetField) => {
+      const conditions = [...baseConditions];
+      facetConditions.forEach((condition, field) => {
+        if (field !== skip) conditions.push(condition);
+      });
+      return and(...conditions);
+    };
+
+    const rank = tsQuery
+      ? sql<number>`ts_rank_cd(${productSearchDocument}, ${tsQuery})`
+      : sql<number>`0`;
+
+    let orderBy;
+    switch (params.sort) {
+      case 'price_asc':
+        orderBy = [sql`${products.price}::numeric asc nulls last`, desc(products.id)];
+        break;
+      case 'price_desc':
+        orderBy = [sql`${products.price}::numeric desc nulls last`, desc(products.id)];
+        break;
+      case 'newest':
+        orderBy = [desc(products.createdAt), desc(products.id)];
+        break;
+      case 'rating':
+        orderBy = [sql`${products.rating} desc nulls last`, desc(products.reviewCount), desc(products.id)];
+        break;
+      default:
+        orderBy = tsQuery ? [desc(rank), desc(products.id)] : [desc(products.createdAt), desc(products.id)];
+    }
+
+    const where = whereExcept();
+    const rows = await db.select({ product: products, rank })
+      .from(products)
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const [{ total }] = await db.select({ total: count() }).from(products).where(where);
+
+    const facets = {} as Record<ProductSearchFacetField, ProductFacetValue[]>;
+    for (let i = 0; i < productSearchFacetFields.length; i++) {
+      const field = productSearchFacetFields[i];
+      facets[field] = await this.getProductFacetCounts(field, whereExcept(field));
+    }
+
+    return {
+      items: rows.map(r => ({ ...r.product, ...(tsQuery ? { rank: Number(r.rank) } : {}) })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      facets,
+    };
+  }
+
+  async getProductFacetCounts(field: ProductSearchFacetField, where: ReturnType<typeof and>): Promise<ProductFacetValue[]> {
+    let counts: { value: string | null; count: number }[];
+
+    if (field in productArrayFacetColumns) {
+      const column = productArrayFacetColumns[field as keyof typeof productArrayFacetColumns];
+      const options = db.select({ value: sql<string>`unnest(${column})`.as('value') })
+        .from(products)
+        .where(where)
+        .as('options');
+      counts = await db.select({ value: options.value, count: count() })
+        .from(options)
+        .groupBy(options.value)
+        .orderBy(desc(count()), asc(options.value))
+        .limit(50);
+    } else {
+      const column = productScalarFacetColumns[field as keyof typeof productScalarFacetColumns];
+      counts = await db.select({ value: sql<string | null>`${column}::text`, count: count() })
+        .from(products)
+        .where(where)
+        .groupBy(column)
+        .orderBy(desc(count()))
+        .limit(50);
+    }
+
+    const present = counts.filter((c): c is { value: string; count: number } => !!c.value);
+
+    if (field !== 'vendorId' || present.length === 0) {
+      return present.map(c => ({ value: c.value, label: c.value, count: c.count }));
+    }
+
+    // Vendors are listed under their store name rather than their user ID
+    const vendors = await db.select({
+      id: users.id,
+      name: users.name,
+      tradeBrandName: userProfiles.tradeBrandName,
+      companyName: userProfiles.companyName,
+    })
+      .from(users)
+      .leftJoin(userProfiles, eq(userProfiles.userId, users.id))
+      .where(inArray(users.id, present.map(c => c.value)));
+    const labels = new Map(vendors.map(v => [v.id, v.tradeBrandName || v.companyName || v.name]));
+
+    return present.map(c => ({ value: c.value, label: labels.get(c.value) || c.value, count: c.count }));
+  }
+
   async getProductById(id: number): Promise<Product | undefined> {
     const [product] = await db.select().from(products).where(eq(products.id, id));
     return product || undefined;
@@ -360,6 +830,9 @@ export class DatabaseStorage implements IStorage {
       .set(product)
       .where(eq(products.id, id))
       .returning();
+    if (updated && 'stock' in product) {
+      return (await this.syncVariantStock(id)) || updated;
+    }
     return updated || undefined;
   }
 
@@ -401,28 +874,60 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Cart
-  async getCartByUserId(userId: string): Promise<(CartItem & { product: Product })[]> {
+  // A variant with its own price is sold at that price; volume tiers apply to the product price only
+  async getCartByUserId(userId: string): Promise<(CartItem & { product: Product; variant: ProductVariant | null; pricing: CartItemPricing })[]> {
     const result = await db
       .select()
       .from(cartItems)
       .innerJoin(products, eq(cartItems.productId, products.id))
+      .leftJoin(productVariants, eq(cartItems.variantId, productVariants.id))
       .where(eq(cartItems.userId, userId));
 
-    return result.map(row => ({
-      ...row.cart_items,
-      product: row.products,
-    }));
+    const tiersByProduct = await this.getPricingTiersForProducts(result.map(row => row.products.id));
+    const { rates } = await this.getFxRateTable();
+
+    return result.map(row => {
+      // Products are priced in the vendor's currency; cart amounts are in the base currency
+      const currency = (row.products.currency || BASE_CURRENCY).toUpperCase();
+      const exchange = { currency, rate: currency === BASE_CURRENCY ? 1 : rates[currency] ?? null };
+      return {
+        ...row.cart_items,
+        product: row.products,
+        variant: row.product_variants,
+        pricing: row.product_variants?.price
+          ? resolveTierPricing(row.product_variants.price, [], row.cart_items.quantity, exchange)
+          : resolveTierPricing(row.products.price, tiersByProduct.get(row.products.id) || [], row.cart_items.quantity, exchange),
+      };
+    });
+  }
+
+  async getPricingTiersForProducts(productIds: number[]): Promise<Map<number, ProductPricingTier[]>> {
+    const tiersByProduct = new Map<number, ProductPricingTier[]>();
+    if (productIds.length === 0) return tiersByProduct;
+
+    const tiers = await db.select().from(productPricingTiers)
+      .where(inArray(productPricingTiers.productId, productIds))
+      .orderBy(asc(productPricingTiers.minQuantity));
+
+    for (const tier of tiers) {
+      const list = tiersByProduct.get(tier.productId) || [];
+      list.push(tier);
+      tiersByProduct.set(tier.productId, list);
+    }
+    return tiersByProduct;
   }
 
   async addToCart(item: InsertCartItem): Promise<CartItem> {
-    // Check if item already exists in cart
+    const { variantId } = item as typeof cartItems.$inferInsert;
+    // Check if item already exists in cart (each variant is its own line)
     const [existing] = await db
       .select()
       .from(cartItems)
       .where(
         and(
           eq(cartItems.userId, item.userId!),
-          eq(cartItems.productId, item.productId!)
+          eq(cartItems.productId, item.productId!),
+          variantId ? eq(cartItems.variantId, variantId) : isNull(cartItems.variantId)
         )
       );
 
@@ -440,6 +945,11 @@ export class DatabaseStorage implements IStorage {
     return newItem;
   }
 
+  async getCartItemById(id: number): Promise<CartItem | undefined> {
+    const [item] = await db.select().from(cartItems).where(eq(cartItems.id, id));
+    return item || undefined;
+  }
+
   async updateCartItem(id: number, quantity: number): Promise<CartItem | undefined> {
     const [updated] = await db
       .update(cartItems)
@@ -458,7 +968,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Orders
-  async getOrdersByUserId(userId: string): Promise<(Order & { items: OrderItem[] })[]> {
+  async getOrdersByUserId(userId: string): Promise<(Order & { items: OrderItem[]; shipments: OrderShipment[] })[]> {
     const userOrders = await db
       .select()
       .from(orders)
@@ -471,10 +981,12 @@ export class DatabaseStorage implements IStorage {
           .select()
           .from(orderItems)
           .where(eq(orderItems.orderId, order.id));
+        const shipments = await this.getOrderShipments(order.id);
         
         return {
           ...order,
           items,
+          shipments,
         };
       })
     );
@@ -482,15 +994,17 @@ export class DatabaseStorage implements IStorage {
     return ordersWithItems;
   }
 
-  async getOrderById(id: string): Promise<(Order & { items: OrderItem[] }) | undefined> {
+  async getOrderById(id: string): Promise<(Order & { items: OrderItem[]; shipments: OrderShipment[] }) | undefined> {
     const [order] = await db.select().from(orders).where(eq(orders.id, id));
     if (!order) return undefined;
 
     const items = await db.select().from(orderItems).where(eq(orderItems.orderId, id));
+    const shipments = await this.getOrderShipments(id);
 
     return {
       ...order,
       items,
+      shipments,
     };
   }
 
@@ -509,6 +1023,210 @@ export class DatabaseStorage implements IStorage {
     return newOrder;
   }
 
+  // Creates the order and holds stock for every line in one transaction. Stock is taken with a
+  // conditional decrement, so concurrent checkouts can never push a product below zero.
+  // Given a transaction, the order is placed inside it; a shortage only undoes this order's writes.
+  async createOrderWithReservations(
+    order: InsertOrder & { trackingNumber?: string | null; estimatedDelivery?: string | null },
+    items: (InsertOrderItem & { productId: number; variantId?: number | null; vendorId: string; price: string; quantity: number })[],
+    ttlMinutes: number,
+    executor: DbExecutor = db
+  ): Promise<{ order: Order; expiresAt: Date } | { shortage: { productId: number; variantId: number | null; requested: number; available: number } }> {
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    // One shipment per vendor; commission is fixed at the rate in force when the order is placed
+    const vendorIds = [...new Set(items.map(item => item.vendorId))];
+    const commissions = new Map<string, string>();
+    for (const vendorId of vendorIds) {
+      commissions.set(vendorId, (await this.getVendorCommission(vendorId)).percent);
+    }
+
+    try {
+      return await executor.transaction(async (tx) => {
+        const [newOrder] = await tx.insert(orders).values(order as any).returning();
+
+        for (let index = 0; index < vendorIds.length; index++) {
+          const vendorId = vendorIds[index];
+          const vendorItems = items.filter(item => item.vendorId === vendorId);
+          const subtotal = vendorItems.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0);
+          const commissionPercent = commissions.get(vendorId)!;
+
+          const [shipment] = await tx.insert(orderShipments).values({
+            orderId: newOrder.id,
+            vendorId,
+            status: newOrder.status,
+            trackingNumber: order.trackingNumber ? `${order.trackingNumber}-${index + 1}` : null,
+            estimatedDelivery: order.estimatedDelivery,
+            subtotal: subtotal.toFixed(2),
+            commissionPercent,
+            commissionAmount: (subtotal * parseFloat(commissionPercent) / 100).toFixed(2),
+          }).returning();
+
+          await tx.insert(orderItems).values(
+            vendorItems.map(item => ({
+              ...item,
+              orderId: newOrder.id,
+              shipmentId: shipment.id,
+            })) as any
+          );
+        }
+
+        for (const item of items) {
+          const variantId = item.variantId ?? null;
+          if (!(await this.takeStock(item.productId, variantId, item.quantity, tx))) {
+            const [current] = variantId
+              ? await tx.select({ stock: productVariants.stock }).from(productVariants).where(eq(productVariants.id, variantId))
+              : await tx.select({ stock: products.stock }).from(products).where(eq(products.id, item.productId));
+            throw new StockShortage(item.productId, variantId, item.quantity, current?.stock || 0);
+          }
+
+          await tx.insert(stockReservations).values({
+            orderId: newOrder.id,
+            productId: item.productId,
+            variantId,
+            quantity: item.quantity,
+            expiresAt,
+          });
+        }
+
+        return { order: newOrder, expiresAt };
+      });
+    } catch (error) {
+      if (error instanceof StockShortage) {
+        return { shortage: { productId: error.productId, variantId: error.variantId, requested: error.requested, available: error.available } };
+      }
+      throw error;
+    }
+  }
+
+  // Takes stock for one line with a conditional decrement, so it can never go below zero.
+  // Variant lines are checked against the variant's stock and lower the product total with it.
+  async takeStock(productId: number, variantId: number | null, quantity: number, executor: DbExecutor = db): Promise<boolean> {
+    if (variantId) {
+      const [taken] = await executor.update(productVariants)
+        .set({ stock: sql`${productVariants.stock} - ${quantity}` })
+        .where(and(eq(productVariants.id, variantId), gte(productVariants.stock, quantity)))
+        .returning({ id: productVariants.id });
+      if (!taken) return false;
+
+      await executor.update(products)
+        .set({ stock: sql`greatest(coalesce(${products.stock}, 0) - ${quantity}, 0)` })
+        .where(eq(products.id, productId));
+      return true;
+    }
+
+    const [taken] = await executor.update(products)
+      .set({ stock: sql`${products.stock} - ${quantity}` })
+      .where(and(eq(products.id, productId), gte(products.stock, quantity)))
+      .returning({ id: products.id });
+    return !!taken;
+  }
+
+  async returnStock(productId: number, variantId: number | null, quantity: number, executor: DbExecutor = db): Promise<void> {
+    if (variantId) {
+      await executor.update(productVariants)
+        .set({ stock: sql`${productVariants.stock} + ${quantity}` })
+        .where(eq(productVariants.id, variantId));
+    }
+    await executor.update(products)
+      .set({ stock: sql`${products.stock} + ${quantity}` })
+      .where(eq(products.id, productId));
+  }
+
+  async getStockReservationsByOrderId(orderId: string): Promise<StockReservation[]> {
+    return await db.select().from(stockReservations).where(eq(stockReservations.orderId, orderId));
+  }
+
+  // Marks an order's held stock as sold. Reservations that already lapsed are taken again
+  // if the stock is still there; otherwise the shortfall is reported to the caller.
+  async commitStockReservations(orderId: string, executor: DbExecutor = db): Promise<{ productId: number; quantity: number }[]> {
+    const now = new Date();
+    const shortfalls: { productId: number; quantity: number }[] = [];
+
+    await executor.update(stockReservations)
+      .set({ status: 'committed', committedAt: now })
+      .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'active')));
+
+    const lapsed = await executor.select().from(stockReservations)
+      .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'released')));
+
+    for (const reservation of lapsed) {
+      if (!(await this.takeStock(reservation.productId, reservation.variantId, reservation.quantity, executor))) {
+        shortfalls.push({ productId: reservation.productId, quantity: reservation.quantity });
+        continue;
+      }
+
+      await executor.update(stockReservations)
+        .set({ status: 'committed', committedAt: now })
+        .where(eq(stockReservations.id, reservation.id));
+    }
+
+    return shortfalls;
+  }
+
+  // Gives back stock for active reservations of an order (cancellation / failed checkout).
+  // Pass productIds to release only part of the order, e.g. a single cancelled shipment.
+  async releaseStockReservations(orderId: string, executor: DbExecutor = db, productIds?: number[]): Promise<number> {
+    const conditions = [eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'active')];
+    if (productIds) {
+      if (productIds.length === 0) return 0;
+      conditions.push(inArray(stockReservations.productId, productIds));
+    }
+
+    const released = await executor.update(stockReservations)
+      .set({ status: 'released', releasedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+
+    for (const reservation of released) {
+      await this.returnStock(reservation.productId, reservation.variantId, reservation.quantity, executor);
+    }
+
+    return released.length;
+  }
+
+  // Releases every active reservation whose TTL has passed. Quoted prices are only held as long
+  // as the stock is, so an unpaid order placed from an RFQ quote is cancelled with its hold.
+  async releaseExpiredStockReservations(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const released = await tx.update(stockReservations)
+        .set({ status: 'released', releasedAt: new Date() })
+        .where(and(eq(stockReservations.status, 'active'), lte(stockReservations.expiresAt, new Date())))
+        .returning();
+
+      for (const reservation of released) {
+        await this.returnStock(reservation.productId, reservation.variantId, reservation.quantity, tx);
+      }
+
+      const orderIds = Array.from(new Set(released.map(r => r.orderId)));
+      if (orderIds.length > 0) {
+        const lapsed = await tx.update(orders)
+          .set({ status: 'cancelled' })
+          .where(and(
+            inArray(orders.id, orderIds),
+            eq(orders.status, 'pending'),
+            eq(orders.paymentStatus, 'unpaid'),
+            sql`EXISTS (SELECT 1 FROM ${rfqs} WHERE ${rfqs.orderId} = ${orders.id} AND ${rfqs.status} = 'accepted')`
+          ))
+          .returning({ id: orders.id });
+
+        for (const { id } of lapsed) {
+          const shipments = await tx.update(orderShipments)
+            .set({ status: 'cancelled', updatedAt: new Date() })
+            .where(and(eq(orderShipments.orderId, id), eq(orderShipments.status, 'pending')))
+            .returning({ id: orderShipments.id });
+          await tx.insert(orderStatusHistory).values([
+            { orderId: id, status: 'cancelled' as const, changedBy: null, note: 'Quote reservation lapsed before payment' },
+            ...shipments.map(shipment => ({ orderId: id, shipmentId: shipment.id, status: 'cancelled' as const, changedBy: null, note: 'Quote reservation lapsed before payment' })),
+          ]);
+          await this.reopenRfqForCancelledOrder(id, tx);
+        }
+      }
+
+      return released.length;
+    });
+  }
+
   // Vendor Stats
   async getVendorStats(vendorId: string): Promise<{
     revenue: number;
@@ -570,9 +1288,15 @@ export class DatabaseStorage implements IStorage {
 
         const items = await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
         const [customer] = await db.select().from(users).where(eq(users.id, order.userId));
+        const [shipment] = await db.select().from(orderShipments)
+          .where(and(eq(orderShipments.orderId, orderId), eq(orderShipments.vendorId, vendorId)));
 
+        // Vendors see the status and tracking of their own shipment, not the whole order
         return {
           ...order,
+          status: shipment?.status ?? order.status,
+          trackingNumber: shipment?.trackingNumber ?? order.trackingNumber,
+          shipmentId: shipment?.id,
           items: items.filter(item => productIds.includes(item.productId)),
           customer: customer!,
         };
@@ -650,11 +1374,157 @@ export class DatabaseStorage implements IStorage {
         changedBy,
         note,
       });
+
+      // Order-level changes apply to every shipment that is still open
+      const openShipments = await db.update(orderShipments)
+        .set({ status: status as any, updatedAt: new Date() })
+        .where(and(
+          eq(orderShipments.orderId, orderId),
+          sql`${orderShipments.status} not in ('cancelled', 'returned')`
+        ))
+        .returning();
+
+      if (openShipments.length > 0) {
+        await db.insert(orderStatusHistory).values(openShipments.map(shipment => ({
+          orderId,
+          shipmentId: shipment.id,
+          status: status as any,
+          changedBy,
+          note,
+        })));
+      }
+
+      // Cancelled orders give their held stock back and are no longer owed on their invoice
+      if (status === 'cancelled') {
+        await this.releaseStockReservations(orderId);
+        await this.creditInvoice(orderId, null, 'order cancelled');
+        await this.reopenRfqForCancelledOrder(orderId);
+      }
     }
 
     return updated || undefined;
   }
 
+  // ===== ORDER SHIPMENTS =====
+  async getOrderShipments(orderId: string): Promise<OrderShipment[]> {
+    return await db.select().from(orderShipments)
+      .where(eq(orderShipments.orderId, orderId))
+      .orderBy(asc(orderShipments.createdAt));
+  }
+
+  async getShipmentById(shipmentId: string): Promise<(OrderShipment & { items: OrderItem[] }) | undefined> {
+    const [shipment] = await db.select().from(orderShipments).where(eq(orderShipments.id, shipmentId));
+    if (!shipment) return undefined;
+
+    const items = await db.select().from(orderItems).where(eq(orderItems.shipmentId, shipmentId));
+    return { ...shipment, items };
+  }
+
+  async getVendorShipment(orderId: string, vendorId: string): Promise<(OrderShipment & { items: OrderItem[] }) | undefined> {
+    const [shipment] = await db.select().from(orderShipments)
+      .where(and(eq(orderShipments.orderId, orderId), eq(orderShipments.vendorId, vendorId)));
+    if (!shipment) return undefined;
+
+    const items = await db.select().from(orderItems).where(eq(orderItems.shipmentId, shipment.id));
+    return { ...shipment, items };
+  }
+
+  async getShipmentStatusHistory(shipmentId: string): Promise<OrderStatusHistory[]> {
+    return await db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.shipmentId, shipmentId))
+      .orderBy(desc(orderStatusHistory.createdAt));
+  }
+
+  // Update a single vendor shipment, then roll the change up to the parent order
+  async updateShipmentStatus(
+    shipmentId: string,
+    status: string,
+    changedBy: string,
+    note?: string,
+    trackingNumber?: string
+  ): Promise<OrderShipment | undefined> {
+    const updateData: Partial<OrderShipment> = { status: status as any, updatedAt: new Date() };
+    if (trackingNumber) {
+      updateData.trackingNumber = trackingNumber;
+    }
+
+    const [updated] = await db.update(orderShipments)
+      .set(updateData)
+      .where(eq(orderShipments.id, shipmentId))
+      .returning();
+
+    if (!updated) return undefined;
+
+    await db.insert(orderStatusHistory).values({
+      orderId: updated.orderId,
+      shipmentId,
+      status: status as any,
+      changedBy,
+      note,
+    });
+
+    if (status === 'cancelled') {
+      const items = await db.select().from(orderItems)
+        .where(eq(orderItems.shipmentId, shipmentId));
+      await this.releaseStockReservations(updated.orderId, db, items.map(i => i.productId));
+
+      // The shipment's goods and tax, less what completed refunds have already given back
+      const [{ refunded }] = await db.select({ refunded: sql<string>`COALESCE(SUM(${refunds.amount}), 0)` })
+        .from(refunds)
+        .where(and(eq(refunds.shipmentId, shipmentId), eq(refunds.requestStatus, 'completed')));
+      const gross = items.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity + parseFloat(item.taxAmount), 0);
+      if (gross - parseFloat(refunded) > 0) {
+        await this.creditInvoice(updated.orderId, gross - parseFloat(refunded), 'shipment cancelled');
+      }
+    }
+
+    await this.rollUpOrderStatus(updated.orderId, changedBy);
+    return updated;
+  }
+
+  // Derive the parent order status from its shipments: the order is only as far along as
+  // its least advanced open shipment, and is cancelled/returned only when all of them are.
+  async rollUpOrderStatus(orderId: string, changedBy: string | null, executor: DbExecutor = db): Promise<Order | undefined> {
+    const shipments = await executor.select({ status: orderShipments.status }).from(orderShipments)
+      .where(eq(orderShipments.orderId, orderId));
+    if (shipments.length === 0) return undefined;
+
+    const statuses = shipments.map(s => s.status);
+    const open = statuses.filter(s => s !== 'cancelled' && s !== 'returned');
+    const progression = ['pending', 'processing', 'shipped', 'delivered'] as const;
+
+    let rolledUp: Order['status'];
+    if (open.length === 0) {
+      rolledUp = statuses.every(s => s === 'cancelled') ? 'cancelled' : 'returned';
+    } else {
+      rolledUp = progression[Math.min(...open.map(s => progression.indexOf(s as typeof progression[number])))];
+    }
+
+    const [order] = await executor.select().from(orders).where(eq(orders.id, orderId));
+    if (!order || order.status === rolledUp) return order;
+
+    const [updated] = await executor.update(orders)
+      .set({ status: rolledUp })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    await executor.insert(orderStatusHistory).values({
+      orderId,
+      status: rolledUp,
+      changedBy,
+      note: 'Updated from shipment statuses',
+    });
+
+    if (rolledUp === 'cancelled') {
+      await this.creditInvoice(orderId, null, 'order cancelled', executor);
+      await this.reopenRfqForCancelledOrder(orderId, executor);
+    }
+
+    return updated;
+  }
+
   // Get order status history
   async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
     return await db
@@ -872,6 +1742,30 @@ export class DatabaseStorage implements IStorage {
     return updated?.tokenVersion || 1;
   }
 
+  async createUserSecurityEvent(event: { userId: string; eventType: UserSecurityEvent['eventType']; ipAddress?: string | null; userAgent?: string | null }): Promise<UserSecurityEvent> {
+    const [created] = await db.insert(userSecurityEvents).values({
+      userId: event.userId,
+      eventType: event.eventType,
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+    }).returning();
+    return created;
+  }
+
+  async recordPasswordResetRequest(email: string, ipAddress: string): Promise<void> {
+    await db.insert(passwordResetRequests).values({ email, ipAddress });
+  }
+
+  // Requests since `since` for the email or from the IP address, newest first
+  async getRecentPasswordResetRequests(key: { email: string } | { ipAddress: string }, since: Date): Promise<PasswordResetRequest[]> {
+    return db.select().from(passwordResetRequests)
+      .where(and(
+        'email' in key ? eq(passwordResetRequests.email, key.email) : eq(passwordResetRequests.ipAddress, key.ipAddress),
+        gte(passwordResetRequests.createdAt, since)
+      ))
+      .orderBy(desc(passwordResetRequests.createdAt));
+  }
+
   // Refunds
   async getRefundsByUserId(userId: string): Promise<(Refund & { items: RefundItem[] })[]> {
     const userRefunds = await db
@@ -990,6 +1884,26 @@ export class DatabaseStorage implements IStorage {
     return payment || undefined;
   }
 
+  async getDefaultSavedPayment(userId: string): Promise<SavedPaymentMethod | undefined> {
+    const [payment] = await this.getSavedPaymentsByUserId(userId);
+    return payment?.isDefault ? payment : undefined;
+  }
+
+  // Active methods of the user for the same card (same Stripe fingerprint) or the same payment method
+  async findSavedPaymentDuplicate(userId: string, processorToken: string, fingerprint: string | null): Promise<SavedPaymentMethod | undefined> {
+    const [payment] = await db
+      .select()
+      .from(savedPaymentMethods)
+      .where(and(
+        eq(savedPaymentMethods.userId, userId),
+        eq(savedPaymentMethods.isActive, true),
+        fingerprint
+          ? or(eq(savedPaymentMethods.processorToken, processorToken), eq(savedPaymentMethods.fingerprint, fingerprint))
+          : eq(savedPaymentMethods.processorToken, processorToken)
+      ));
+    return payment || undefined;
+  }
+
   async createSavedPayment(payment: InsertSavedPaymentMethod): Promise<SavedPaymentMethod> {
     // If this is the first payment or marked as default, reset other defaults
     if (payment.isDefault) {
@@ -1053,6 +1967,11 @@ export class DatabaseStorage implements IStorage {
     return otp || undefined;
   }
 
+  async getOtpById(id: number): Promise<OtpVerification | undefined> {
+    const [otp] = await db.select().from(otpVerifications).where(eq(otpVerifications.id, id));
+    return otp || undefined;
+  }
+
   async incrementOtpAttempts(id: number): Promise<void> {
     await db
       .update(otpVerifications)
@@ -1122,6 +2041,15 @@ export class DatabaseStorage implements IStorage {
     return updatedUser || undefined;
   }
 
+  async updateUserStripeCustomerId(userId: string, stripeCustomerId: string): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ stripeCustomerId })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser || undefined;
+  }
+
   async updateUserFirebaseUid(userId: string, firebaseUid: string): Promise<User | undefined> {
     const [updatedUser] = await db
       .update(users)
@@ -1602,7 +2530,7 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getProductWithDetails(productId: number): Promise<(Product & { media: ProductMedia[]; pricingTiers: ProductPricingTier[]; vendor?: User }) | undefined> {
+  async getProductWithDetails(productId: number): Promise<(Product & { media: ProductMedia[]; pricingTiers: ProductPricingTier[]; variants: ProductVariant[]; vendor?: User }) | undefined> {
     const [product] = await db.select()
       .from(products)
       .where(eq(products.id, productId));
@@ -1616,12 +2544,14 @@ export class DatabaseStorage implements IStorage {
     const pricingTiers = await db.select().from(productPricingTiers)
       .where(eq(productPricingTiers.productId, productId))
       .orderBy(asc(productPricingTiers.minQuantity));
+
+    const variants = await this.getProductVariants(productId);
     
     const [vendor] = product.vendorId 
       ? await db.select().from(users).where(eq(users.id, product.vendorId))
       : [undefined];
     
-    return { ...product, media, pricingTiers, vendor };
+    return { ...product, media, pricingTiers, variants, vendor };
   }
 
   async updateProductData(productId: number, data: Partial<InsertProduct>): Promise<Product | undefined> {
@@ -1629,6 +2559,10 @@ export class DatabaseStorage implements IStorage {
       .set({ ...data, updatedAt: new Date() })
       .where(eq(products.id, productId))
       .returning();
+    // Stock of a product sold in variants is always their total
+    if (updated && 'stock' in data) {
+      return (await this.syncVariantStock(productId)) || updated;
+    }
     return updated || undefined;
   }
 
@@ -1658,11 +2592,52 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async deleteProductMedia(mediaId: number): Promise<void> {
-    await db.delete(productMedia).where(eq(productMedia.id, mediaId));
+  async getProductMediaById(mediaId: number): Promise<ProductMedia | undefined> {
+    const [media] = await db.select().from(productMedia).where(eq(productMedia.id, mediaId));
+    return media || undefined;
   }
 
-  async setProductCoverImage(productId: number, mediaId: number): Promise<void> {
+  async getPendingProductMedia(): Promise<ProductMedia[]> {
+    return db.select().from(productMedia)
+      .where(eq(productMedia.processingStatus, 'pending'))
+      .orderBy(asc(productMedia.id));
+  }
+
+  // Replaces an image's renditions and marks it ready
+  async saveProductMediaVariants(
+    mediaId: number,
+    details: { width: number; height: number; blurhash: string },
+    variants: Omit<ProductMediaVariant, 'id' | 'createdAt'>[]
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(productMediaVariants).where(eq(productMediaVariants.mediaId, mediaId));
+      if (variants.length > 0) {
+        await tx.insert(productMediaVariants).values(variants);
+      }
+      await tx.update(productMedia)
+        .set({ ...details, processingStatus: 'ready' })
+        .where(eq(productMedia.id, mediaId));
+    });
+  }
+
+  async getProductImagesWithVariants(productIds: number[]): Promise<{ media: ProductMedia; variants: ProductMediaVariant[] }[]> {
+    if (productIds.length === 0) return [];
+
+    const media = await db.select().from(productMedia)
+      .where(and(inArray(productMedia.productId, productIds), eq(productMedia.type, 'product_image')))
+      .orderBy(asc(productMedia.displayOrder), asc(productMedia.id));
+    if (media.length === 0) return [];
+
+    const variants = await db.select().from(productMediaVariants)
+      .where(inArray(productMediaVariants.mediaId, media.map(m => m.id)));
+    return media.map(m => ({ media: m, variants: variants.filter(v => v.mediaId === m.id) }));
+  }
+
+  async deleteProductMedia(mediaId: number): Promise<void> {
+    await db.delete(productMedia).where(eq(productMedia.id, mediaId));
+  }
+
+  async setProductCoverImage(productId: number, mediaId: number): Promise<void> {
     // Clear all cover flags for this product
     await db.update(productMedia)
       .set({ isCover: false })
@@ -1686,6 +2661,78 @@ export class DatabaseStorage implements IStorage {
     return newTiers;
   }
 
+  // Product Variants Management
+  async getProductVariants(productId: number, activeOnly = false): Promise<ProductVariant[]> {
+    return db.select().from(productVariants)
+      .where(activeOnly
+        ? and(eq(productVariants.productId, productId), eq(productVariants.isActive, true))
+        : eq(productVariants.productId, productId))
+      .orderBy(asc(productVariants.displayOrder), asc(productVariants.id));
+  }
+
+  async getProductVariantById(variantId: number): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, variantId));
+    return variant || undefined;
+  }
+
+  // Replaces the variant matrix. Variants keep their ids when updated, and omitted ones are
+  // deactivated rather than deleted because carts, orders and refunds still reference them.
+  async setProductVariants(
+    productId: number,
+    variants: (Omit<typeof productVariants.$inferInsert, 'productId'> & { id?: number })[]
+  ): Promise<ProductVariant[]> {
+    await db.transaction(async (tx) => {
+      const keptIds: number[] = [];
+      for (let index = 0; index < variants.length; index++) {
+        const { id, ...variant } = variants[index];
+        const values = { ...variant, displayOrder: index, isActive: true, updatedAt: new Date() };
+        const [saved] = id
+          ? await tx.update(productVariants)
+            .set(values)
+            .where(and(eq(productVariants.id, id), eq(productVariants.productId, productId)))
+            .returning({ id: productVariants.id })
+          : await tx.insert(productVariants)
+            .values({ ...values, productId })
+            .returning({ id: productVariants.id });
+        if (!saved) throw new Error(`Variant ${id} does not belong to product ${productId}`);
+        keptIds.push(saved.id);
+      }
+
+      await tx.update(productVariants)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(
+          eq(productVariants.productId, productId),
+          keptIds.length > 0 ? sql`${productVariants.id} NOT IN (${sql.join(keptIds.map(id => sql`${id}`), sql`, `)})` : undefined
+        ));
+      // Removed variants can no longer be bought, so drop them from carts
+      await tx.delete(cartItems).where(and(
+        eq(cartItems.productId, productId),
+        sql`${cartItems.variantId} IN (SELECT ${productVariants.id} FROM ${productVariants} WHERE ${productVariants.productId} = ${productId} AND ${productVariants.isActive} = false)`
+      ));
+
+      await this.syncVariantStock(productId, tx);
+    });
+
+    return this.getProductVariants(productId);
+  }
+
+  // Sets the product's stock to the total of its active variants; products without variants are left alone
+  async syncVariantStock(productId: number, executor: DbExecutor = db): Promise<Product | undefined> {
+    const [total] = await executor.select({
+      variants: count(),
+      stock: sql<number>`COALESCE(SUM(${productVariants.stock}), 0)::int`,
+    })
+      .from(productVariants)
+      .where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)));
+    if (!total || total.variants === 0) return undefined;
+
+    const [updated] = await executor.update(products)
+      .set({ stock: total.stock, updatedAt: new Date() })
+      .where(eq(products.id, productId))
+      .returning();
+    return updated || undefined;
+  }
+
   // Admin Product Management
   async getProductsForAdmin(filters?: {
     status?: string;
@@ -1783,14 +2830,160 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async featureProduct(productId: number, featured: boolean): Promise<Product | undefined> {
+  async featureProduct(
+    productId: number,
+    featured: boolean,
+    schedule?: { featuredFrom?: Date | null; featuredUntil?: Date | null; featuredRank?: number }
+  ): Promise<Product | undefined> {
     const [updated] = await db.update(products)
-      .set({ isFeatured: featured, updatedAt: new Date() })
+      .set({
+        isFeatured: featured,
+        // Unfeaturing clears the window so a later re-feature starts fresh
+        featuredFrom: featured ? schedule?.featuredFrom ?? null : null,
+        featuredUntil: featured ? schedule?.featuredUntil ?? null : null,
+        featuredRank: featured ? schedule?.featuredRank ?? 0 : 0,
+        updatedAt: new Date(),
+      })
       .where(eq(products.id, productId))
       .returning();
     return updated || undefined;
   }
 
+  // ===== STOREFRONT MERCHANDISING =====
+
+  // Featured products: admin flag, inside the scheduling window, ordered by rank
+  async getFeaturedProducts(limit: number): Promise<Product[]> {
+    const now = new Date();
+    return await db.select().from(products)
+      .where(and(
+        listedProductCondition(),
+        eq(products.isFeatured, true),
+        or(isNull(products.featuredFrom), lte(products.featuredFrom, now)),
+        or(isNull(products.featuredUntil), gte(products.featuredUntil, now))
+      ))
+      .orderBy(asc(products.featuredRank), desc(products.updatedAt))
+      .limit(limit);
+  }
+
+  // Top sellers by units sold on paid orders since the given date
+  async getTopSellingProducts(since: Date, limit: number): Promise<(Product & { unitsSold: number })[]> {
+    const unitsSold = sql<number>`sum(${orderItems.quantity})::int`;
+    const ranked = await db.select({
+      productId: orderItems.productId,
+      unitsSold,
+    })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(and(
+        eq(orders.paymentStatus, 'paid'),
+        gte(orders.createdAt, since),
+        listedProductCondition()
+      ))
+      .groupBy(orderItems.productId)
+      .orderBy(desc(unitsSold))
+      .limit(limit);
+
+    if (ranked.length === 0) return [];
+
+    const rows = await db.select().from(products)
+      .where(inArray(products.id, ranked.map(r => r.productId)));
+    const byId = new Map(rows.map(p => [p.id, p]));
+
+    return ranked
+      .filter(r => byId.has(r.productId))
+      .map(r => ({ ...byId.get(r.productId)!, unitsSold: r.unitsSold }));
+  }
+
+  // Recommendations for a product page: products bought in the same orders score
+  // highest, then products sharing vehicle fitment, then the same category as filler.
+  async getRecommendedProducts(productId: number, limit: number): Promise<Product[]> {
+    const product = await this.getProductById(productId);
+    if (!product) return [];
+
+    const scores = new Map<number, number>();
+    const addScore = (id: number, score: number) => {
+      if (id === productId) return;
+      scores.set(id, (scores.get(id) || 0) + score);
+    };
+
+    // Co-purchase: how many paid orders contain both products
+    const coPurchaseOrders = db.select({ orderId: orderItems.orderId })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(eq(orderItems.productId, productId), eq(orders.paymentStatus, 'paid')));
+    const orderCount = sql<number>`count(distinct ${orderItems.orderId})::int`;
+    const coPurchased = await db.select({ productId: orderItems.productId, orders: orderCount })
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, coPurchaseOrders))
+      .groupBy(orderItems.productId)
+      .orderBy(desc(orderCount))
+      .limit(limit * 4);
+    for (let i = 0; i < coPurchased.length; i++) {
+      addScore(coPurchased[i].productId, coPurchased[i].orders * 10);
+    }
+
+    // Fitment overlap: products linked to the same catalogue vehicles
+    const productVehicles = db.select({ vehicleId: productVehicleFitments.vehicleId })
+      .from(productVehicleFitments)
+      .where(eq(productVehicleFitments.productId, productId));
+    const sharedVehicles = sql<number>`count(distinct ${productVehicleFitments.vehicleId})::int`;
+    const sharedFitment = await db.select({ productId: productVehicleFitments.productId, shared: sharedVehicles })
+      .from(productVehicleFitments)
+      .where(inArray(productVehicleFitments.vehicleId, productVehicles))
+      .groupBy(productVehicleFitments.productId)
+      .orderBy(desc(sharedVehicles))
+      .limit(limit * 4);
+    for (let i = 0; i < sharedFitment.length; i++) {
+      addScore(sharedFitment[i].productId, 3 + Math.min(sharedFitment[i].shared, 5));
+    }
+
+    // Legacy free-text fitment: same make/model, or identical compatibility text
+    const fitmentConditions = [];
+    if (product.make && product.model) {
+      fitmentConditions.push(and(
+        ilike(products.make, escapeLikePattern(product.make)),
+        ilike(products.model, escapeLikePattern(product.model)),
+      ));
+    } else if (product.make) {
+      fitmentConditions.push(ilike(products.make, escapeLikePattern(product.make)));
+    }
+    if (product.vehicleCompatibility) {
+      fitmentConditions.push(ilike(products.vehicleCompatibility, escapeLikePattern(product.vehicleCompatibility)));
+    }
+    if (fitmentConditions.length > 0) {
+      const fitting = await db.select({ id: products.id, make: products.make, model: products.model })
+        .from(products)
+        .where(and(listedProductCondition(), or(...fitmentConditions)))
+        .limit(limit * 4);
+      for (let i = 0; i < fitting.length; i++) {
+        const sameModel = !!product.model && fitting[i].model?.toLowerCase() === product.model.toLowerCase();
+        addScore(fitting[i].id, sameModel ? 5 : 3);
+      }
+    }
+
+    if (product.categoryId) {
+      const sameCategory = await db.select({ id: products.id })
+        .from(products)
+        .where(and(listedProductCondition(), eq(products.categoryId, product.categoryId)))
+        .orderBy(desc(products.rating))
+        .limit(limit);
+      for (let i = 0; i < sameCategory.length; i++) {
+        addScore(sameCategory[i].id, 1);
+      }
+    }
+
+    if (scores.size === 0) return [];
+
+    // Candidates from co-purchase may be unlisted now, so re-check on load
+    const candidates = await db.select().from(products)
+      .where(and(listedProductCondition(), inArray(products.id, Array.from(scores.keys()))));
+
+    return candidates
+      .sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0))
+      .slice(0, limit);
+  }
+
   // Product Review Notes (admin feedback to sellers)
   async addProductReviewNote(note: InsertProductReviewNote): Promise<ProductReviewNote> {
     const [newNote] = await db.insert(productReviewNotes).values(note).returning();
@@ -2075,7 +3268,7 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getOrderByIdForAdmin(orderId: string): Promise<(Order & { items: (OrderItem & { product: Product })[], user: User, statusHistory: OrderStatusHistory[] }) | undefined> {
+  async getOrderByIdForAdmin(orderId: string): Promise<(Order & { items: (OrderItem & { product: Product })[], user: User, shipments: OrderShipment[], statusHistory: OrderStatusHistory[] }) | undefined> {
     const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
     if (!order) return undefined;
 
@@ -2095,10 +3288,13 @@ export class DatabaseStorage implements IStorage {
       .where(eq(orderStatusHistory.orderId, orderId))
       .orderBy(desc(orderStatusHistory.createdAt));
 
+    const shipments = await this.getOrderShipments(orderId);
+
     return {
       ...order,
       user,
       items: items.map(i => ({ ...i.item, product: i.product! })),
+      shipments,
       statusHistory,
     };
   }
@@ -2111,18 +3307,23 @@ export class DatabaseStorage implements IStorage {
     dateTo?: Date;
     page?: number;
     limit?: number;
-  } = {}): Promise<{ orders: (Order & { items: OrderItem[], user: User })[], total: number, page: number, limit: number }> {
+  } = {}): Promise<{ orders: (Order & { items: OrderItem[], user: User, shipment: OrderShipment })[], total: number, page: number, limit: number }> {
     const page = filters.page || 1;
     const limit = filters.limit || 20;
     const offset = (page - 1) * limit;
 
-    // Get order IDs that contain items from this vendor
-    const vendorOrderItems = await db
-      .select({ orderId: orderItems.orderId })
-      .from(orderItems)
-      .where(eq(orderItems.vendorId, vendorId));
+    // Vendors see orders through their own shipment, so status filters apply to the shipment
+    const shipmentConditions: any[] = [eq(orderShipments.vendorId, vendorId)];
+    if (filters.status) {
+      shipmentConditions.push(eq(orderShipments.status, filters.status as any));
+    }
+
+    const vendorShipments = await db
+      .select()
+      .from(orderShipments)
+      .where(and(...shipmentConditions));
 
-    const vendorOrderIds = [...new Set(vendorOrderItems.map(i => i.orderId))];
+    const vendorOrderIds = vendorShipments.map(s => s.orderId);
 
     if (vendorOrderIds.length === 0) {
       return { orders: [], total: 0, page, limit };
@@ -2130,10 +3331,6 @@ export class DatabaseStorage implements IStorage {
 
     let conditions: any[] = [inArray(orders.id, vendorOrderIds)];
 
-    if (filters.status) {
-      conditions.push(eq(orders.status, filters.status as any));
-    }
-
     if (filters.dateFrom) {
       conditions.push(gte(orders.createdAt, filters.dateFrom));
     }
@@ -2171,6 +3368,7 @@ export class DatabaseStorage implements IStorage {
       ...o.orders,
       user: o.users,
       items: allVendorItems.filter(item => item.orderId === o.orders.id),
+      shipment: vendorShipments.find(s => s.orderId === o.orders.id)!,
     }));
 
     return {
@@ -2181,25 +3379,6 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async updateOrderStatus(orderId: string, status: string, changedBy: string, note?: string): Promise<Order | undefined> {
-    const [updated] = await db
-      .update(orders)
-      .set({ status: status as any })
-      .where(eq(orders.id, orderId))
-      .returning();
-
-    if (updated) {
-      await db.insert(orderStatusHistory).values({
-        orderId,
-        status: status as any,
-        changedBy,
-        note,
-      });
-    }
-
-    return updated || undefined;
-  }
-
   // ===== REFUND MANAGEMENT =====
   async getRefundsForAdmin(filters: {
     status?: string;
@@ -2273,23 +3452,64 @@ export class DatabaseStorage implements IStorage {
 
   async createRefundRequest(data: {
     orderId: string;
+    shipmentId?: string;
     userId: string;
     vendorId?: string;
     amount: string;
+    taxAmount?: string;
     reason: string;
     customerNote?: string;
-  }): Promise<Refund> {
-    const [refund] = await db.insert(refunds).values({
-      orderId: data.orderId,
-      userId: data.userId,
-      vendorId: data.vendorId,
-      amount: data.amount,
-      reason: data.reason,
-      customerNote: data.customerNote,
-      requestStatus: 'pending',
-      status: 'processing',
-    }).returning();
-    return refund;
+  }, items: { productId: number; variantId: number | null; variantName: string | null; name: string; image: string; price: string; quantity: number; taxAmount?: string }[] = [],
+    shipmentTotal?: number
+  ): Promise<Refund | { error: 'exceeds_refundable'; refundable: string }> {
+    return await db.transaction(async (tx) => {
+      // Every refund on the shipment that is not rejected or failed counts against its total,
+      // including requests still waiting for review. The shipment row is locked so two requests
+      // cannot both pass the check.
+      if (data.shipmentId && shipmentTotal !== undefined) {
+        await tx.select({ id: orderShipments.id }).from(orderShipments).where(eq(orderShipments.id, data.shipmentId)).for('update');
+        const [{ claimed }] = await tx.select({ claimed: sql<string>`COALESCE(SUM(${refunds.amount}), 0)` })
+          .from(refunds)
+          .where(and(eq(refunds.shipmentId, data.shipmentId), sql`${refunds.requestStatus} NOT IN ('rejected', 'failed')`));
+        const refundable = Math.max(shipmentTotal - parseFloat(claimed), 0);
+        if (parseFloat(data.amount) > refundable + 0.005) {
+          return { error: 'exceeds_refundable' as const, refundable: refundable.toFixed(2) };
+        }
+      }
+
+      const [refund] = await tx.insert(refunds).values({
+        orderId: data.orderId,
+        shipmentId: data.shipmentId,
+        userId: data.userId,
+        vendorId: data.vendorId,
+        amount: data.amount,
+        taxAmount: data.taxAmount,
+        reason: data.reason,
+        customerNote: data.customerNote,
+        requestStatus: 'pending',
+        status: 'processing',
+      }).returning();
+
+      if (items.length > 0) {
+        await tx.insert(refundItems).values(items.map(item => ({ ...item, refundId: refund.id })));
+      }
+
+      return refund;
+    });
+  }
+
+  // Quantities of each order line (see orderLineKey) already claimed by refunds that are still live or paid out
+  async getRefundedQuantities(orderId: string): Promise<Map<string, number>> {
+    const rows = await db.select({
+      productId: refundItems.productId,
+      variantId: refundItems.variantId,
+      quantity: sql<number>`SUM(${refundItems.quantity})::int`,
+    })
+      .from(refundItems)
+      .innerJoin(refunds, eq(refundItems.refundId, refunds.id))
+      .where(and(eq(refunds.orderId, orderId), sql`${refunds.requestStatus} NOT IN ('rejected', 'failed')`))
+      .groupBy(refundItems.productId, refundItems.variantId);
+    return new Map(rows.map(row => [orderLineKey(row.productId, row.variantId), row.quantity]));
   }
 
   async approveRefund(refundId: string, adminId: string, note?: string): Promise<Refund | undefined> {
@@ -2300,11 +3520,202 @@ export class DatabaseStorage implements IStorage {
         reviewedAt: new Date(),
         adminNote: note,
       })
+      .where(and(eq(refunds.id, refundId), inArray(refunds.requestStatus, ['pending', 'under_review'])))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Puts a refund that ran out of settlement attempts back in the queue for a fresh set of retries
+  async resetFailedRefund(refundId: string): Promise<Refund | undefined> {
+    const [updated] = await db.update(refunds)
+      .set({ requestStatus: 'approved', status: 'processing', attemptCount: 0, nextAttemptAt: null })
+      .where(and(eq(refunds.id, refundId), eq(refunds.requestStatus, 'failed')))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getRefundByStripeRefundId(stripeRefundId: string): Promise<Refund | undefined> {
+    const [refund] = await db.select().from(refunds).where(eq(refunds.stripeRefundId, stripeRefundId));
+    return refund || undefined;
+  }
+
+  // Approved refunds whose previous attempt failed and whose backoff has elapsed
+  async getRefundsDueForRetry(): Promise<Refund[]> {
+    return await db.select().from(refunds)
+      .where(and(eq(refunds.requestStatus, 'approved'), lte(refunds.nextAttemptAt, new Date())));
+  }
+
+  // Claims an approved refund for one settlement attempt. The conditional update makes sure
+  // the approval request and the retry sweep never submit the same refund twice.
+  async claimRefundAttempt(refundId: string): Promise<Refund | undefined> {
+    const [claimed] = await db.update(refunds)
+      .set({ attemptCount: sql`${refunds.attemptCount} + 1`, nextAttemptAt: null })
+      .where(and(
+        eq(refunds.id, refundId),
+        eq(refunds.requestStatus, 'approved'),
+        or(isNull(refunds.nextAttemptAt), lte(refunds.nextAttemptAt, new Date()))
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  // Stripe accepted the refund; the final outcome arrives by webhook. Only an approved refund moves
+  // on, so a concurrent submit or an outcome that already arrived is left alone.
+  async markRefundSubmitted(refundId: string, stripeRefundId: string): Promise<Refund | undefined> {
+    const [updated] = await db.update(refunds)
+      .set({
+        requestStatus: 'processing',
+        status: 'processing',
+        paymentMethod: 'Stripe',
+        stripeRefundId,
+        failureReason: null,
+      })
+      .where(and(eq(refunds.id, refundId), eq(refunds.requestStatus, 'approved')))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Records a failed settlement attempt. The refund goes back to approved with a backoff
+  // until REFUND_MAX_ATTEMPTS is reached, after which it is marked failed for manual follow-up.
+  async failRefundAttempt(refundId: string, reason: string, executor: DbExecutor = db): Promise<Refund | undefined> {
+    const [refund] = await executor.select().from(refunds).where(eq(refunds.id, refundId));
+    if (!refund || refund.requestStatus === 'completed') return refund || undefined;
+
+    const exhausted = refund.attemptCount >= REFUND_MAX_ATTEMPTS;
+    const backoffMinutes = REFUND_RETRY_BASE_MINUTES * Math.pow(2, Math.max(refund.attemptCount - 1, 0));
+
+    const [updated] = await executor.update(refunds)
+      .set({
+        requestStatus: exhausted ? 'failed' : 'approved',
+        status: exhausted ? 'failed' : 'processing',
+        failureReason: reason,
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + backoffMinutes * 60 * 1000),
+      })
       .where(eq(refunds.id, refundId))
       .returning();
     return updated || undefined;
   }
 
+  // Settles a refund once the money has gone back: puts refunded items back in stock, gives
+  // back the commission on the refunded amount and marks the order refunded once nothing is left.
+  // Shipment totals, commission and the vendor ledger only see the amount excluding tax.
+  async completeRefund(refundId: string, executor: DbExecutor = db, paymentMethod?: string): Promise<Refund | undefined> {
+    if (executor === db) {
+      return await db.transaction(tx => this.completeRefund(refundId, tx, paymentMethod));
+    }
+
+    const [refund] = await executor.select().from(refunds).where(eq(refunds.id, refundId)).for('update');
+    if (!refund || refund.requestStatus === 'completed') return refund || undefined;
+
+    const amount = parseFloat(refund.amount) - parseFloat(refund.taxAmount);
+    let commissionReversed = 0;
+    let ledgerVendorId = refund.vendorId;
+
+    if (refund.shipmentId) {
+      const [shipment] = await executor.select().from(orderShipments).where(eq(orderShipments.id, refund.shipmentId));
+      if (shipment) {
+        ledgerVendorId = shipment.vendorId;
+        commissionReversed = amount * parseFloat(shipment.commissionPercent) / 100;
+        await executor.update(orderShipments)
+          .set({
+            refundedAmount: sql`${orderShipments.refundedAmount} + ${amount.toFixed(2)}`,
+            refundedCommission: sql`${orderShipments.refundedCommission} + ${commissionReversed.toFixed(2)}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(orderShipments.id, shipment.id));
+      }
+    }
+
+    const items = await executor.select().from(refundItems).where(eq(refundItems.refundId, refundId));
+    for (const item of items) {
+      await this.returnStock(item.productId, item.variantId, item.quantity, executor);
+    }
+
+    const [completed] = await executor.update(refunds)
+      .set({
+        requestStatus: 'completed',
+        status: 'completed',
+        completedAt: new Date(),
+        nextAttemptAt: null,
+        failureReason: null,
+        commissionReversed: commissionReversed.toFixed(2),
+        ...(paymentMethod && { paymentMethod }),
+      })
+      .where(eq(refunds.id, refundId))
+      .returning();
+
+    if (ledgerVendorId) {
+      await this.postLedgerTransaction({
+        vendorId: ledgerVendorId,
+        entryType: 'refund',
+        amount,
+        description: `Refund for order #${refund.orderId.slice(0, 8).toUpperCase()}`,
+        reference: `refund:${refund.id}`,
+        orderId: refund.orderId,
+        shipmentId: refund.shipmentId,
+        refundId: refund.id,
+      }, executor);
+      await this.postLedgerTransaction({
+        vendorId: ledgerVendorId,
+        entryType: 'commission_reversal',
+        amount: commissionReversed,
+        description: `Commission returned on refund for order #${refund.orderId.slice(0, 8).toUpperCase()}`,
+        reference: `commission_reversal:${refund.id}`,
+        orderId: refund.orderId,
+        shipmentId: refund.shipmentId,
+        refundId: refund.id,
+      }, executor);
+    }
+
+    const [{ refunded }] = await executor.select({ refunded: sql<string>`COALESCE(SUM(${orderShipments.refundedAmount}), 0)` })
+      .from(orderShipments)
+      .where(eq(orderShipments.orderId, refund.orderId));
+    const [order] = await executor.select().from(orders).where(eq(orders.id, refund.orderId));
+    // Orders on net terms are refunded by crediting their invoice
+    await this.creditInvoice(refund.orderId, parseFloat(refund.amount), `refund #${refund.id.slice(0, 8).toUpperCase()}`, executor);
+    if (order && order.paymentStatus === 'paid' && parseFloat(refunded) >= parseFloat(order.subtotal ?? order.total)) {
+      await executor.update(orders).set({ paymentStatus: 'refunded' }).where(eq(orders.id, order.id));
+    }
+
+    await executor.insert(orderStatusHistory).values({
+      orderId: refund.orderId,
+      status: order?.status || 'delivered',
+      changedBy: null,
+      note: `Refund of AED ${refund.amount} completed${items.length > 0 ? `; ${items.reduce((sum, item) => sum + item.quantity, 0)} item(s) restocked` : ''}`,
+    });
+
+    return completed;
+  }
+
+  // Applies a Stripe refund webhook exactly once, mirroring applyStripePaymentEvent
+  async applyStripeRefundEvent(
+    event: { id: string; type: string },
+    refundId: string | null,
+    outcome: { status: 'completed' } | { status: 'failed'; reason: string } | null
+  ): Promise<{ duplicate: boolean; refund?: Refund }> {
+    return await db.transaction(async (tx) => {
+      const [target] = refundId ? await tx.select().from(refunds).where(eq(refunds.id, refundId)) : [];
+
+      const [recorded] = await tx.insert(stripeWebhookEvents)
+        .values({ id: event.id, type: event.type, orderId: target?.orderId || null })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!recorded) {
+        return { duplicate: true };
+      }
+
+      if (!target || !outcome) {
+        return { duplicate: false, refund: target };
+      }
+
+      const refund = outcome.status === 'completed'
+        ? await this.completeRefund(target.id, tx)
+        : await this.failRefundAttempt(target.id, outcome.reason, tx);
+      return { duplicate: false, refund };
+    });
+  }
+
   async rejectRefund(refundId: string, adminId: string, reason: string, note?: string): Promise<Refund | undefined> {
     const [updated] = await db.update(refunds)
       .set({
@@ -2386,14 +3797,14 @@ export class DatabaseStorage implements IStorage {
     orderCount: number;
     averageOrderValue: number;
   }> {
-    const vendorOrders = await db.select()
-      .from(orders)
-      .innerJoin(orderItems, eq(orders.id, orderItems.orderId))
-      .innerJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(products.vendorId, vendorId));
-    
-    const commission = await this.getVendorCommission(vendorId);
-    const commissionRate = parseFloat(commission.percent) / 100;
+    // Earnings come from the vendor's shipments; commission is the amount locked in at checkout.
+    // Completed refunds come off both, since the commission on refunded money is reversed.
+    const vendorShipments = await db.select()
+      .from(orderShipments)
+      .where(and(
+        eq(orderShipments.vendorId, vendorId),
+        sql`${orderShipments.status} <> 'cancelled'`
+      ));
     
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -2401,34 +3812,37 @@ export class DatabaseStorage implements IStorage {
     const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
     
     let totalEarnings = 0;
+    let totalCommission = 0;
     let currentMonthEarnings = 0;
     let lastMonthEarnings = 0;
     const uniqueOrders = new Set<string>();
     
-    for (const row of vendorOrders) {
-      const itemTotal = parseFloat(row.order_items.price) * row.order_items.quantity;
-      totalEarnings += itemTotal;
-      uniqueOrders.add(row.orders.id);
+    for (const shipment of vendorShipments) {
+      const shipmentTotal = parseFloat(shipment.subtotal) - parseFloat(shipment.refundedAmount);
+      totalEarnings += shipmentTotal;
+      totalCommission += parseFloat(shipment.commissionAmount) - parseFloat(shipment.refundedCommission);
+      uniqueOrders.add(shipment.orderId);
       
-      const orderDate = new Date(row.orders.createdAt);
+      const orderDate = new Date(shipment.createdAt);
       if (orderDate >= startOfMonth) {
-        currentMonthEarnings += itemTotal;
+        currentMonthEarnings += shipmentTotal;
       } else if (orderDate >= startOfLastMonth && orderDate <= endOfLastMonth) {
-        lastMonthEarnings += itemTotal;
+        lastMonthEarnings += shipmentTotal;
       }
     }
     
-    const totalCommission = totalEarnings * commissionRate;
     const netEarnings = totalEarnings - totalCommission;
     const orderCount = uniqueOrders.size;
     const averageOrderValue = orderCount > 0 ? totalEarnings / orderCount : 0;
+    // Payout figures come from the ledger: anything still owed is pending, settled payouts are completed
+    const balance = await this.getVendorBalance(vendorId);
     
     return {
       totalEarnings,
       totalCommission,
       netEarnings,
-      pendingPayouts: 0,
-      completedPayouts: 0,
+      pendingPayouts: parseFloat(balance.balance),
+      completedPayouts: parseFloat(balance.paidOut),
       currentMonthEarnings,
       lastMonthEarnings,
       orderCount,
@@ -2437,31 +3851,29 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getVendorEarningsByMonth(vendorId: string, months: number = 12): Promise<{ month: string; earnings: number; commission: number; net: number }[]> {
-    const vendorOrders = await db.select()
-      .from(orders)
-      .innerJoin(orderItems, eq(orders.id, orderItems.orderId))
-      .innerJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(products.vendorId, vendorId));
-    
-    const commission = await this.getVendorCommission(vendorId);
-    const commissionRate = parseFloat(commission.percent) / 100;
+    const vendorShipments = await db.select()
+      .from(orderShipments)
+      .where(and(
+        eq(orderShipments.vendorId, vendorId),
+        sql`${orderShipments.status} <> 'cancelled'`
+      ));
     
     const monthlyData: Record<string, { earnings: number; commission: number; net: number }> = {};
     
-    for (const row of vendorOrders) {
-      const orderDate = new Date(row.orders.createdAt);
+    for (const shipment of vendorShipments) {
+      const orderDate = new Date(shipment.createdAt);
       const monthKey = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
       
       if (!monthlyData[monthKey]) {
         monthlyData[monthKey] = { earnings: 0, commission: 0, net: 0 };
       }
       
-      const itemTotal = parseFloat(row.order_items.price) * row.order_items.quantity;
-      const itemCommission = itemTotal * commissionRate;
+      const shipmentTotal = parseFloat(shipment.subtotal) - parseFloat(shipment.refundedAmount);
+      const shipmentCommission = parseFloat(shipment.commissionAmount) - parseFloat(shipment.refundedCommission);
       
-      monthlyData[monthKey].earnings += itemTotal;
-      monthlyData[monthKey].commission += itemCommission;
-      monthlyData[monthKey].net += itemTotal - itemCommission;
+      monthlyData[monthKey].earnings += shipmentTotal;
+      monthlyData[monthKey].commission += shipmentCommission;
+      monthlyData[monthKey].net += shipmentTotal - shipmentCommission;
     }
     
     const result = Object.entries(monthlyData)
@@ -2509,17 +3921,25 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
-  async updateVendorStock(vendorId: string, updates: { productId: number; stock: number }[]): Promise<{ updated: number; failed: number }> {
+  // Products sold in variants take stock per variant; a product-level update for them fails
+  async updateVendorStock(vendorId: string, updates: { productId: number; variantId?: number; stock: number }[]): Promise<{ updated: number; failed: number }> {
     let updated = 0;
     let failed = 0;
     
-    for (const { productId, stock } of updates) {
+    for (const { productId, variantId, stock } of updates) {
       try {
         const [product] = await db.select().from(products).where(
           and(eq(products.id, productId), eq(products.vendorId, vendorId))
         );
+        const variants = product ? await this.getProductVariants(productId, true) : [];
         
-        if (product) {
+        if (product && variantId && variants.some(v => v.id === variantId)) {
+          await db.update(productVariants)
+            .set({ stock, updatedAt: new Date() })
+            .where(eq(productVariants.id, variantId));
+          await this.syncVariantStock(productId);
+          updated++;
+        } else if (product && !variantId && variants.length === 0) {
           await db.update(products)
             .set({ stock, updatedAt: new Date() })
             .where(eq(products.id, productId));
@@ -2535,76 +3955,92 @@ export class DatabaseStorage implements IStorage {
     return { updated, failed };
   }
 
-  // ===== VENDOR NOTIFICATIONS =====
+  // ===== NOTIFICATIONS =====
   
-  async getVendorNotifications(vendorId: string, filters?: {
+  async getNotifications(userId: string, filters?: {
     type?: string;
     unreadOnly?: boolean;
     page?: number;
     limit?: number;
-  }): Promise<{ notifications: VendorNotification[]; total: number; unreadCount: number }> {
+  }): Promise<{ notifications: Notification[]; total: number; unreadCount: number }> {
     const page = filters?.page || 1;
     const limit = filters?.limit || 20;
     const offset = (page - 1) * limit;
     
-    const conditions = [eq(vendorNotifications.vendorId, vendorId)];
+    const conditions = [eq(notifications.userId, userId)];
     if (filters?.type) {
-      conditions.push(sql`${vendorNotifications.type} = ${filters.type}`);
+      conditions.push(sql`${notifications.type} = ${filters.type}`);
     }
     if (filters?.unreadOnly) {
-      conditions.push(eq(vendorNotifications.isRead, false));
+      conditions.push(eq(notifications.isRead, false));
     }
     
     const [countResult] = await db.select({ count: count() })
-      .from(vendorNotifications)
+      .from(notifications)
       .where(and(...conditions));
     
     const [unreadResult] = await db.select({ count: count() })
-      .from(vendorNotifications)
-      .where(and(eq(vendorNotifications.vendorId, vendorId), eq(vendorNotifications.isRead, false)));
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
     
-    const notifications = await db.select()
-      .from(vendorNotifications)
+    const results = await db.select()
+      .from(notifications)
       .where(and(...conditions))
-      .orderBy(desc(vendorNotifications.createdAt))
+      .orderBy(desc(notifications.createdAt))
       .limit(limit)
       .offset(offset);
     
     return {
-      notifications,
+      notifications: results,
       total: countResult?.count || 0,
       unreadCount: unreadResult?.count || 0,
     };
   }
   
-  async createVendorNotification(notification: InsertVendorNotification): Promise<VendorNotification> {
-    const [created] = await db.insert(vendorNotifications)
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications)
       .values(notification as any)
       .returning();
     return created;
   }
   
-  async markNotificationRead(vendorId: string, notificationId: number): Promise<VendorNotification | undefined> {
-    const [updated] = await db.update(vendorNotifications)
+  async markNotificationRead(userId: string, notificationId: number): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
       .set({ isRead: true })
-      .where(and(eq(vendorNotifications.id, notificationId), eq(vendorNotifications.vendorId, vendorId)))
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
       .returning();
     return updated;
   }
   
-  async markAllNotificationsRead(vendorId: string): Promise<number> {
-    const result = await db.update(vendorNotifications)
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const result = await db.update(notifications)
       .set({ isRead: true })
-      .where(and(eq(vendorNotifications.vendorId, vendorId), eq(vendorNotifications.isRead, false)));
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
     return result.rowCount || 0;
   }
   
-  async deleteNotification(vendorId: string, notificationId: number): Promise<boolean> {
-    const result = await db.delete(vendorNotifications)
-      .where(and(eq(vendorNotifications.id, notificationId), eq(vendorNotifications.vendorId, vendorId)));
+  async deleteNotification(userId: string, notificationId: number): Promise<boolean> {
+    const result = await db.delete(notifications)
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)));
     return (result.rowCount || 0) > 0;
   }
 
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
+  async setNotificationPreferences(userId: string, preferences: { type: string; inApp: boolean; email: boolean }[]): Promise<NotificationPreference[]> {
+    // One row per type; a type listed twice keeps its last setting
+    const byType = new Map(preferences.map(preference => [preference.type, preference]));
+    await db.insert(notificationPreferences)
+      .values(Array.from(byType.values()).map(preference => ({ userId, ...preference })))
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type],
+        set: { inApp: sql`excluded.in_app`, email: sql`excluded.email`, updatedAt: new Date() },
+      });
+    return await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
   // ===== SUPPORT TICKETS =====
   
   async createTicket(ticket: InsertSupportTicket, initialMessage: string): Promise<SupportTicket> {
@@ -2834,6 +4270,1910 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updated || undefined;
   }
+
+  // ===== STRIPE PAYMENTS =====
+  async setOrderStripeSession(orderId: string, stripeSessionId: string): Promise<Order | undefined> {
+    const [updated] = await db.update(orders)
+      .set({ stripeSessionId })
+      .where(eq(orders.id, orderId))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getOrderByStripePaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.stripePaymentIntentId, paymentIntentId));
+    return order || undefined;
+  }
+
+  // Applies a payment state change for a Stripe event exactly once. The event row is
+  // written in the same transaction as the order update, so a replayed event is a no-op
+  // and a failed update leaves the event unrecorded for Stripe to retry.
+  async applyStripePaymentEvent(
+    event: { id: string; type: string },
+    orderId: string | null,
+    change: {
+      paymentStatus: 'paid' | 'failed' | 'unpaid';
+      status?: 'processing' | 'cancelled';
+      paymentIntentId?: string | null;
+      checkoutSessionId?: string;
+      note: string;
+    } | null
+  ): Promise<{ duplicate: boolean; order?: Order; extraPaymentIntentId?: string }> {
+    return await db.transaction(async (tx) => {
+      const [recorded] = await tx.insert(stripeWebhookEvents)
+        .values({ id: event.id, type: event.type, orderId })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!recorded) {
+        return { duplicate: true };
+      }
+
+      if (!orderId || !change) {
+        return { duplicate: false };
+      }
+
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order) {
+        return { duplicate: false };
+      }
+
+      // Retrying payment replaces the order's checkout session; events from an older session are
+      // not applied, and a payment taken through one is noted and handed back to be refunded
+      if (change.checkoutSessionId && change.checkoutSessionId !== order.stripeSessionId) {
+        if (change.paymentStatus !== 'paid' || !change.paymentIntentId) {
+          return { duplicate: false, order };
+        }
+        await tx.insert(orderStatusHistory).values({
+          orderId,
+          status: order.status,
+          changedBy: null,
+          note: `Payment ${change.paymentIntentId} received through superseded checkout session ${change.checkoutSessionId}; refunding it`,
+        });
+        return { duplicate: false, order, extraPaymentIntentId: change.paymentIntentId };
+      }
+
+      // A late failure/expiry must never undo a payment that already succeeded
+      if (order.paymentStatus === 'paid' && change.paymentStatus !== 'paid') {
+        return { duplicate: false, order };
+      }
+      // A saved-card charge is applied at checkout and again when its webhook arrives
+      if (order.paymentStatus === 'paid') {
+        if (!change.paymentIntentId || change.paymentIntentId === order.stripePaymentIntentId) {
+          return { duplicate: true, order };
+        }
+        // A second payment for an order already paid is noted and handed back to be refunded
+        await tx.insert(orderStatusHistory).values({
+          orderId,
+          status: order.status,
+          changedBy: null,
+          note: `Second payment ${change.paymentIntentId} received for an order already paid with ${order.stripePaymentIntentId || 'another payment'}; refunding it`,
+        });
+        return { duplicate: false, order, extraPaymentIntentId: change.paymentIntentId };
+      }
+
+      const updateData: Partial<Order> = { paymentStatus: change.paymentStatus };
+      if (change.paymentIntentId) {
+        updateData.stripePaymentIntentId = change.paymentIntentId;
+      }
+      if (change.paymentStatus === 'paid') {
+        updateData.paidAt = new Date();
+      }
+      // Only pending orders move forward; admin/vendor changes made meanwhile are kept
+      const nextStatus = change.status && order.status === 'pending' ? change.status : order.status;
+      updateData.status = nextStatus;
+
+      const [updated] = await tx.update(orders)
+        .set(updateData)
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      await tx.insert(orderStatusHistory).values({
+        orderId,
+        status: nextStatus,
+        changedBy: null,
+        note: change.note,
+      });
+
+      if (nextStatus !== order.status) {
+        await tx.update(orderShipments)
+          .set({ status: nextStatus, updatedAt: new Date() })
+          .where(and(eq(orderShipments.orderId, orderId), eq(orderShipments.status, 'pending')));
+      }
+
+      if (change.paymentStatus === 'paid') {
+        await this.postOrderSales(orderId, tx);
+        const shortfalls = await this.commitStockReservations(orderId, tx);
+        if (shortfalls.length > 0) {
+          console.warn(`Order ${orderId} was paid after its stock reservation lapsed; short on:`, shortfalls);
+          await tx.insert(orderStatusHistory).values({
+            orderId,
+            status: nextStatus,
+            changedBy: null,
+            note: `Stock shortfall after payment: ${shortfalls.map(s => `product ${s.productId} x${s.quantity}`).join(', ')}`,
+          });
+        }
+      } else if (nextStatus === 'cancelled') {
+        await this.releaseStockReservations(orderId, tx);
+        await this.reopenRfqForCancelledOrder(orderId, tx);
+      }
+
+      return { duplicate: false, order: updated };
+    });
+  }
+
+  // ===== WISHLISTS =====
+  async getWishlistsByUserId(userId: string): Promise<(Wishlist & { itemCount: number })[]> {
+    const lists = await db.select().from(wishlists)
+      .where(eq(wishlists.userId, userId))
+      .orderBy(desc(wishlists.isDefault), asc(wishlists.createdAt));
+
+    if (lists.length === 0) return [];
+
+    const counts = await db.select({ wishlistId: wishlistItems.wishlistId, count: count() })
+      .from(wishlistItems)
+      .where(inArray(wishlistItems.wishlistId, lists.map(l => l.id)))
+      .groupBy(wishlistItems.wishlistId);
+
+    return lists.map(list => ({
+      ...list,
+      itemCount: counts.find(c => c.wishlistId === list.id)?.count || 0,
+    }));
+  }
+
+  async getWishlistById(id: number): Promise<Wishlist | undefined> {
+    const [list] = await db.select().from(wishlists).where(eq(wishlists.id, id));
+    return list || undefined;
+  }
+
+  // Every user has one default list; it is created the first time it is needed
+  async getOrCreateDefaultWishlist(userId: string): Promise<Wishlist> {
+    const [existing] = await db.select().from(wishlists)
+      .where(and(eq(wishlists.userId, userId), eq(wishlists.isDefault, true)));
+    if (existing) return existing;
+
+    const [created] = await db.insert(wishlists)
+      .values({ userId, name: 'My Wishlist', isDefault: true })
+      .returning();
+    return created;
+  }
+
+  async createWishlist(userId: string, name: string): Promise<Wishlist> {
+    const [created] = await db.insert(wishlists).values({ userId, name }).returning();
+    return created;
+  }
+
+  async renameWishlist(id: number, name: string): Promise<Wishlist | undefined> {
+    const [updated] = await db.update(wishlists)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(wishlists.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWishlist(id: number): Promise<void> {
+    await db.delete(wishlists).where(eq(wishlists.id, id));
+  }
+
+  async getWishlistItems(wishlistId: number): Promise<WishlistItemWithProduct[]> {
+    const rows = await db.select()
+      .from(wishlistItems)
+      .innerJoin(products, eq(wishlistItems.productId, products.id))
+      .where(eq(wishlistItems.wishlistId, wishlistId))
+      .orderBy(desc(wishlistItems.createdAt));
+
+    return rows.map(row => {
+      const currentPrice = parseFloat(row.products.price || '0');
+      const savedPrice = row.wishlist_items.priceWhenAdded ? parseFloat(row.wishlist_items.priceWhenAdded) : currentPrice;
+      const inStock = (row.products.stock || 0) > 0;
+
+      return {
+        ...row.wishlist_items,
+        product: row.products,
+        priceDropped: currentPrice < savedPrice,
+        priceDropAmount: Math.max(savedPrice - currentPrice, 0).toFixed(2),
+        backInStock: inStock && !row.wishlist_items.inStockWhenAdded,
+        inStock,
+      };
+    });
+  }
+
+  async getWishlistItemById(id: number): Promise<WishlistItem | undefined> {
+    const [item] = await db.select().from(wishlistItems).where(eq(wishlistItems.id, id));
+    return item || undefined;
+  }
+
+  // Re-adding a product keeps the original entry so its saved price is still the baseline
+  async addWishlistItem(wishlistId: number, product: Product, quantity: number = 1): Promise<WishlistItem> {
+    const [created] = await db.insert(wishlistItems).values({
+      wishlistId,
+      productId: product.id,
+      quantity,
+      priceWhenAdded: product.price,
+      inStockWhenAdded: (product.stock || 0) > 0,
+    }).onConflictDoNothing().returning();
+    if (created) return created;
+
+    const [existing] = await db.select().from(wishlistItems)
+      .where(and(eq(wishlistItems.wishlistId, wishlistId), eq(wishlistItems.productId, product.id)));
+    return existing;
+  }
+
+  async removeWishlistItem(id: number): Promise<void> {
+    await db.delete(wishlistItems).where(eq(wishlistItems.id, id));
+  }
+
+  // Merge product IDs saved in the browser before login into the user's default list
+  async importWishlistProductIds(userId: string, productIds: number[]): Promise<{ wishlist: Wishlist; imported: number }> {
+    const wishlist = await this.getOrCreateDefaultWishlist(userId);
+    const uniqueIds = Array.from(new Set(productIds));
+    if (uniqueIds.length === 0) return { wishlist, imported: 0 };
+
+    const found = await db.select().from(products).where(inArray(products.id, uniqueIds));
+    if (found.length === 0) return { wishlist, imported: 0 };
+
+    const inserted = await db.insert(wishlistItems).values(found.map(product => ({
+      wishlistId: wishlist.id,
+      productId: product.id,
+      priceWhenAdded: product.price,
+      inStockWhenAdded: (product.stock || 0) > 0,
+    }))).onConflictDoNothing().returning({ id: wishlistItems.id });
+
+    return { wishlist, imported: inserted.length };
+  }
+
+  // ===== VEHICLE FITMENT =====
+
+  async getVehicleMakes(platform?: string): Promise<string[]> {
+    const rows = await db.selectDistinct({ make: vehicles.make }).from(vehicles)
+      .where(platform ? ilike(vehicles.platform, escapeLikePattern(platform)) : undefined)
+      .orderBy(asc(vehicles.make));
+    return rows.map(r => r.make);
+  }
+
+  async getVehicleModels(make: string): Promise<string[]> {
+    const rows = await db.selectDistinct({ model: vehicles.model }).from(vehicles)
+      .where(ilike(vehicles.make, escapeLikePattern(make)))
+      .orderBy(asc(vehicles.model));
+    return rows.map(r => r.model);
+  }
+
+  async searchVehicles(filters: { platform?: string; make?: string; model?: string; year?: number }): Promise<Vehicle[]> {
+    const conditions = [];
+    if (filters.platform) conditions.push(ilike(vehicles.platform, escapeLikePattern(filters.platform)));
+    if (filters.make) conditions.push(ilike(vehicles.make, escapeLikePattern(filters.make)));
+    if (filters.model) conditions.push(ilike(vehicles.model, escapeLikePattern(filters.model)));
+    if (filters.year) {
+      conditions.push(sql`${filters.year} between coalesce(${vehicles.yearFrom}, ${filters.year}) and coalesce(${vehicles.yearTo}, ${filters.year})`);
+    }
+
+    return await db.select().from(vehicles)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(vehicles.make), asc(vehicles.model), asc(vehicles.variant), asc(vehicles.yearFrom));
+  }
+
+  async getVehicleById(id: number): Promise<Vehicle | undefined> {
+    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.id, id));
+    return vehicle || undefined;
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    const [created] = await db.insert(vehicles).values(vehicle as typeof vehicles.$inferInsert).returning();
+    return created;
+  }
+
+  async updateVehicle(id: number, data: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    const [updated] = await db.update(vehicles)
+      .set(data as Partial<typeof vehicles.$inferInsert>)
+      .where(eq(vehicles.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteVehicle(id: number): Promise<void> {
+    await db.delete(vehicles).where(eq(vehicles.id, id));
+  }
+
+  // Catalogue entries are matched case-insensitively so imports don't create near-duplicates
+  async findOrCreateVehicle(vehicle: InsertVehicle, executor: DbExecutor = db): Promise<{ vehicle: Vehicle; created: boolean }> {
+    const [existing] = await executor.select().from(vehicles)
+      .where(and(
+        ilike(vehicles.make, escapeLikePattern(vehicle.make)),
+        ilike(vehicles.model, escapeLikePattern(vehicle.model)),
+        sql`lower(coalesce(${vehicles.variant}, '')) = lower(${vehicle.variant || ''})`,
+        sql`${vehicles.yearFrom} is not distinct from ${vehicle.yearFrom ?? null}`,
+        sql`${vehicles.yearTo} is not distinct from ${vehicle.yearTo ?? null}`
+      ));
+    if (existing) return { vehicle: existing, created: false };
+
+    const [created] = await executor.insert(vehicles).values(vehicle as typeof vehicles.$inferInsert).returning();
+    return { vehicle: created, created: true };
+  }
+
+  async getProductFitments(productId: number): Promise<ProductVehicleFitmentWithVehicle[]> {
+    const rows = await db.select({ fitment: productVehicleFitments, vehicle: vehicles })
+      .from(productVehicleFitments)
+      .innerJoin(vehicles, eq(productVehicleFitments.vehicleId, vehicles.id))
+      .where(eq(productVehicleFitments.productId, productId))
+      .orderBy(asc(vehicles.make), asc(vehicles.model), asc(vehicles.yearFrom));
+    return rows.map(r => ({ ...r.fitment, vehicle: r.vehicle }));
+  }
+
+  async setProductFitments(productId: number, entries: { vehicleId: number; notes?: string | null }[]): Promise<ProductVehicleFitmentWithVehicle[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(productVehicleFitments).where(eq(productVehicleFitments.productId, productId));
+      if (entries.length > 0) {
+        await tx.insert(productVehicleFitments).values(entries.map(e => ({
+          productId,
+          vehicleId: e.vehicleId,
+          notes: e.notes || null,
+        })));
+      }
+    });
+    return await this.getProductFitments(productId);
+  }
+
+  // Bulk fitment import for a vendor. Rows are matched to the vendor's own products by ID or SKU;
+  // unknown vehicles are added to the catalogue and existing links are left untouched.
+  async importProductFitments(vendorId: string, rows: FitmentImportRow[]): Promise<FitmentImportResult> {
+    const result: FitmentImportResult = { linked: 0, skipped: 0, vehiclesCreated: 0, errors: [] };
+
+    const vendorProducts = await db.select({ id: products.id, sku: products.sku })
+      .from(products)
+      .where(eq(products.vendorId, vendorId));
+    const productIds = new Set(vendorProducts.map(p => p.id));
+    const productIdsBySku = new Map<string, number>();
+    for (let i = 0; i < vendorProducts.length; i++) {
+      const sku = vendorProducts[i].sku?.trim().toLowerCase();
+      if (sku) productIdsBySku.set(sku, vendorProducts[i].id);
+    }
+
+    for (const row of rows) {
+      const rowNumber = row.row;
+
+      const productId = row.productId && productIds.has(row.productId)
+        ? row.productId
+        : row.sku ? productIdsBySku.get(row.sku.trim().toLowerCase()) : undefined;
+      if (!productId) {
+        result.errors.push({ row: rowNumber, error: `Product not found: ${row.sku || row.productId || '(none)'}` });
+        continue;
+      }
+      if (row.yearFrom && row.yearTo && row.yearFrom > row.yearTo) {
+        result.errors.push({ row: rowNumber, error: "yearFrom must not be after yearTo" });
+        continue;
+      }
+
+      await db.transaction(async (tx) => {
+        const { vehicle, created } = await this.findOrCreateVehicle({
+          platform: row.platform || null,
+          make: row.make.trim(),
+          model: row.model.trim(),
+          variant: row.variant?.trim() || null,
+          yearFrom: row.yearFrom ?? null,
+          yearTo: row.yearTo ?? null,
+        }, tx);
+        if (created) result.vehiclesCreated++;
+
+        const [linked] = await tx.insert(productVehicleFitments)
+          .values({ productId, vehicleId: vehicle.id, notes: row.notes || null })
+          .onConflictDoNothing()
+          .returning({ id: productVehicleFitments.id });
+        if (linked) {
+          result.linked++;
+        } else {
+          result.skipped++;
+        }
+      });
+    }
+
+    return result;
+  }
+
+  // My garage
+  async getUserVehicles(userId: string): Promise<UserVehicleWithVehicle[]> {
+    const rows = await db.select({ userVehicle: userVehicles, vehicle: vehicles })
+      .from(userVehicles)
+      .innerJoin(vehicles, eq(userVehicles.vehicleId, vehicles.id))
+      .where(eq(userVehicles.userId, userId))
+      .orderBy(desc(userVehicles.isDefault), asc(userVehicles.createdAt));
+    return rows.map(r => ({ ...r.userVehicle, vehicle: r.vehicle }));
+  }
+
+  async getUserVehicleById(id: number): Promise<UserVehicle | undefined> {
+    const [userVehicle] = await db.select().from(userVehicles).where(eq(userVehicles.id, id));
+    return userVehicle || undefined;
+  }
+
+  // The first saved vehicle becomes the default; setting a new default clears the old one.
+  // Returns undefined when the same vehicle and year is already in the garage.
+  async addUserVehicle(userId: string, data: InsertUserVehicle): Promise<UserVehicle | undefined> {
+    return await db.transaction(async (tx) => {
+      const [duplicate] = await tx.select({ id: userVehicles.id })
+        .from(userVehicles)
+        .where(and(
+          eq(userVehicles.userId, userId),
+          eq(userVehicles.vehicleId, data.vehicleId),
+          data.year == null ? isNull(userVehicles.year) : eq(userVehicles.year, data.year),
+        ));
+      if (duplicate) return undefined;
+
+      const [{ total }] = await tx.select({ total: count() }).from(userVehicles).where(eq(userVehicles.userId, userId));
+      const isDefault = total === 0 || !!data.isDefault;
+      if (isDefault) {
+        await tx.update(userVehicles).set({ isDefault: false }).where(eq(userVehicles.userId, userId));
+      }
+
+      const [created] = await tx.insert(userVehicles).values({
+        userId,
+        vehicleId: data.vehicleId,
+        year: data.year ?? null,
+        nickname: data.nickname ?? null,
+        isDefault,
+      }).onConflictDoNothing().returning();
+      return created;
+    });
+  }
+
+  async updateUserVehicle(id: number, data: { year?: number | null; nickname?: string | null; isDefault?: boolean }): Promise<UserVehicle | undefined> {
+    return await db.transaction(async (tx) => {
+      if (data.isDefault) {
+        const [current] = await tx.select().from(userVehicles).where(eq(userVehicles.id, id));
+        if (!current) return undefined;
+        await tx.update(userVehicles).set({ isDefault: false }).where(eq(userVehicles.userId, current.userId));
+      }
+
+      const [updated] = await tx.update(userVehicles)
+        .set(data)
+        .where(eq(userVehicles.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  async removeUserVehicle(id: number): Promise<void> {
+    await db.delete(userVehicles).where(eq(userVehicles.id, id));
+  }
+
+  // ===== RFQ =====
+
+  // Files a quote request. Lines are grouped by the selling vendor, so a mixed basket
+  // produces one RFQ per vendor; the RFQs are returned in the order their vendors first appear.
+  async createRfqs(
+    buyerId: string,
+    request: { deliveryTerms?: string | null; deliveryCountry?: string | null; targetDate?: string | null; notes?: string | null },
+    items: { productId: number; variantId?: number | null; vendorId: string; quantity: number; notes?: string | null }[]
+  ): Promise<Rfq[]> {
+    const vendorIds = Array.from(new Set(items.map(item => item.vendorId)));
+
+    return await db.transaction(async (tx) => {
+      const created: Rfq[] = [];
+      for (let index = 0; index < vendorIds.length; index++) {
+        const vendorId = vendorIds[index];
+        const [rfq] = await tx.insert(rfqs).values({
+          buyerId,
+          vendorId,
+          deliveryTerms: request.deliveryTerms ?? null,
+          deliveryCountry: request.deliveryCountry ?? null,
+          targetDate: request.targetDate ?? null,
+          notes: request.notes ?? null,
+        }).returning();
+
+        await tx.insert(rfqItems).values(
+          items
+            .filter(item => item.vendorId === vendorId)
+            .map(item => ({ rfqId: rfq.id, productId: item.productId, variantId: item.variantId ?? null, quantity: item.quantity, notes: item.notes ?? null }))
+        );
+        created.push(rfq);
+      }
+      return created;
+    });
+  }
+
+  async getRfqById(id: string): Promise<RfqWithDetails | undefined> {
+    const [rfq] = await db.select().from(rfqs).where(eq(rfqs.id, id));
+    if (!rfq) return undefined;
+
+    const items = await db.select({ item: rfqItems, product: products, variant: productVariants })
+      .from(rfqItems)
+      .innerJoin(products, eq(rfqItems.productId, products.id))
+      .leftJoin(productVariants, eq(rfqItems.variantId, productVariants.id))
+      .where(eq(rfqItems.rfqId, id))
+      .orderBy(asc(rfqItems.id));
+
+    const quotes = await db.select().from(rfqQuotes)
+      .where(eq(rfqQuotes.rfqId, id))
+      .orderBy(desc(rfqQuotes.createdAt));
+    const quoteItems = quotes.length > 0
+      ? await db.select().from(rfqQuoteItems).where(inArray(rfqQuoteItems.quoteId, quotes.map(q => q.id)))
+      : [];
+
+    const [buyer] = await db.select({ id: users.id, name: users.name, email: users.email }).from(users).where(eq(users.id, rfq.buyerId));
+    const [vendor] = await db.select({ id: users.id, name: users.name }).from(users).where(eq(users.id, rfq.vendorId));
+
+    return {
+      ...rfq,
+      items: items.map(r => ({ ...r.item, product: r.product, variant: r.variant })),
+      quotes: quotes.map(quote => ({ ...quote, items: quoteItems.filter(item => item.quoteId === quote.id) })),
+      buyer,
+      vendor,
+    };
+  }
+
+  async getRfqs(filters: { buyerId?: string; vendorId?: string; status?: Rfq['status'] } = {}): Promise<RfqWithDetails[]> {
+    const conditions = [];
+    if (filters.buyerId) conditions.push(eq(rfqs.buyerId, filters.buyerId));
+    if (filters.vendorId) conditions.push(eq(rfqs.vendorId, filters.vendorId));
+    if (filters.status) conditions.push(eq(rfqs.status, filters.status));
+
+    const rows = await db.select({ id: rfqs.id })
+      .from(rfqs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(rfqs.createdAt));
+
+    const details = await Promise.all(rows.map(row => this.getRfqById(row.id)));
+    return details.filter((rfq): rfq is RfqWithDetails => !!rfq);
+  }
+
+  async getRfqQuoteById(id: number): Promise<RfqQuote | undefined> {
+    const [quote] = await db.select().from(rfqQuotes).where(eq(rfqQuotes.id, id));
+    return quote || undefined;
+  }
+
+  // Records a vendor quote. Any quote the vendor still has open on the RFQ is withdrawn,
+  // so the buyer only ever sees one live price per vendor.
+  async createRfqQuote(
+    rfqId: string,
+    vendorId: string,
+    quote: { validUntil: Date; deliveryTerms?: string | null; leadTimeDays?: number | null; notes?: string | null },
+    items: { rfqItemId: number; productId: number; variantId: number | null; quantity: number; unitPrice: string }[]
+  ): Promise<RfqQuote> {
+    const total = items.reduce((sum, item) => sum + parseFloat(item.unitPrice) * item.quantity, 0);
+
+    return await db.transaction(async (tx) => {
+      await tx.update(rfqQuotes)
+        .set({ status: 'withdrawn', respondedAt: new Date() })
+        .where(and(eq(rfqQuotes.rfqId, rfqId), eq(rfqQuotes.vendorId, vendorId), eq(rfqQuotes.status, 'submitted')));
+
+      const [created] = await tx.insert(rfqQuotes).values({
+        rfqId,
+        vendorId,
+        total: total.toFixed(2),
+        validUntil: quote.validUntil,
+        deliveryTerms: quote.deliveryTerms ?? null,
+        leadTimeDays: quote.leadTimeDays ?? null,
+        notes: quote.notes ?? null,
+      }).returning();
+
+      await tx.insert(rfqQuoteItems).values(
+        items.map(item => ({
+          quoteId: created.id,
+          rfqItemId: item.rfqItemId,
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          unitPrice: parseFloat(item.unitPrice).toFixed(2),
+        }))
+      );
+
+      await tx.update(rfqs)
+        .set({ status: 'quoted', updatedAt: new Date() })
+        .where(eq(rfqs.id, rfqId));
+
+      return created;
+    });
+  }
+
+  // Withdraws (vendor) or rejects (buyer) a submitted quote. The RFQ drops back to open
+  // once it has no submitted quote left.
+  async closeRfqQuote(quoteId: number, status: 'withdrawn' | 'rejected'): Promise<RfqQuote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [closed] = await tx.update(rfqQuotes)
+        .set({ status, respondedAt: new Date() })
+        .where(and(eq(rfqQuotes.id, quoteId), eq(rfqQuotes.status, 'submitted')))
+        .returning();
+      if (!closed) return undefined;
+
+      await this.reopenUnquotedRfqs([closed.rfqId], tx);
+      return closed;
+    });
+  }
+
+  async reopenUnquotedRfqs(rfqIds: string[], executor: DbExecutor = db): Promise<void> {
+    if (rfqIds.length === 0) return;
+    await executor.update(rfqs)
+      .set({ status: 'open', updatedAt: new Date() })
+      .where(and(
+        inArray(rfqs.id, rfqIds),
+        eq(rfqs.status, 'quoted'),
+        sql`NOT EXISTS (SELECT 1 FROM ${rfqQuotes} WHERE ${rfqQuotes.rfqId} = ${rfqs.id} AND ${rfqQuotes.status} = 'submitted')`
+      ));
+  }
+
+  // Ends an RFQ without an order: declined by the vendor or cancelled by the buyer or an admin.
+  // Open quotes on it are closed along with it.
+  async closeRfq(id: string, status: 'declined' | 'cancelled'): Promise<Rfq | undefined> {
+    return await db.transaction(async (tx) => {
+      const [closed] = await tx.update(rfqs)
+        .set({ status, updatedAt: new Date() })
+        .where(and(eq(rfqs.id, id), inArray(rfqs.status, ['open', 'quoted'])))
+        .returning();
+      if (!closed) return undefined;
+
+      await tx.update(rfqQuotes)
+        .set({ status: status === 'declined' ? 'withdrawn' : 'rejected', respondedAt: new Date() })
+        .where(and(eq(rfqQuotes.rfqId, id), eq(rfqQuotes.status, 'submitted')));
+
+      return closed;
+    });
+  }
+
+  // Turns a submitted quote into an order at the quoted prices, reserving stock the same way
+  // checkout does. Everything happens in one transaction holding the RFQ row, so two concurrent
+  // accepts, or an accept racing a cancel, cannot both go through; if stock runs short nothing is
+  // changed and the shortage is reported. Quoted prices exclude tax; the tax calculated for each
+  // quoted line is added on top.
+  async acceptRfqQuote(
+    rfqId: string,
+    quoteId: number,
+    ttlMinutes: number,
+    tax?: { byQuoteItemId: Map<number, OrderLineTax>; note: string | null }
+  ): Promise<
+    | { order: Order; expiresAt: Date; quote: RfqQuote; lines: { product: Product; quantity: number; unitPrice: string }[] }
+    | { shortage: { productId: number; requested: number; available: number } }
+    | { conflict: string }
+  > {
+    return await db.transaction(async (tx) => {
+      const [rfq] = await tx.select().from(rfqs).where(eq(rfqs.id, rfqId)).for('update');
+      if (!rfq || (rfq.status !== 'open' && rfq.status !== 'quoted')) {
+        return { conflict: "RFQ is no longer open for quotes" };
+      }
+
+      const [quote] = await tx.select().from(rfqQuotes)
+        .where(and(
+          eq(rfqQuotes.id, quoteId),
+          eq(rfqQuotes.rfqId, rfqId),
+          eq(rfqQuotes.status, 'submitted'),
+          gte(rfqQuotes.validUntil, new Date())
+        ))
+        .for('update');
+      if (!quote) return { conflict: "Quote is no longer open for acceptance" };
+
+      const quoteLines = await tx.select({ item: rfqQuoteItems, product: products, variant: productVariants })
+        .from(rfqQuoteItems)
+        .innerJoin(products, eq(rfqQuoteItems.productId, products.id))
+        .leftJoin(productVariants, eq(rfqQuoteItems.variantId, productVariants.id))
+        .where(eq(rfqQuoteItems.quoteId, quoteId))
+        .orderBy(asc(rfqQuoteItems.id));
+
+      // Stock is held per variant, so a line must still name a live variant of a product sold in them
+      for (const { product, variant } of quoteLines) {
+        if (variant ? !variant.isActive : (await this.getProductVariants(product.id, true)).length > 0) {
+          return { conflict: `The quoted option of ${product.name} is no longer sold; request a new quote` };
+        }
+      }
+
+      const taxAmount = quoteLines.reduce((sum, { item }) => sum + parseFloat(tax?.byQuoteItemId.get(item.id)?.taxAmount || '0'), 0);
+      const reservation = await this.createOrderWithReservations(
+        {
+          userId: rfq.buyerId,
+          status: 'pending',
+          subtotal: quote.total,
+          taxAmount: taxAmount.toFixed(2),
+          taxNote: tax?.note ?? null,
+          total: (parseFloat(quote.total) + taxAmount).toFixed(2),
+          trackingNumber: `TRK${Date.now().toString(36).toUpperCase()}`,
+          estimatedDelivery: new Date(Date.now() + (quote.leadTimeDays ?? 7) * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        },
+        quoteLines.map(({ item, product, variant }) => ({
+          productId: product.id,
+          variantId: item.variantId,
+          variantName: variant ? describeVariant(variant) : null,
+          vendorId: quote.vendorId,
+          name: product.name,
+          image: product.image,
+          price: item.unitPrice,
+          quantity: item.quantity,
+          ...tax?.byQuoteItemId.get(item.id),
+        })),
+        ttlMinutes,
+        tx
+      );
+      if ('shortage' in reservation) return reservation;
+
+      const [accepted] = await tx.update(rfqQuotes)
+        .set({ status: 'accepted', respondedAt: new Date() })
+        .where(eq(rfqQuotes.id, quoteId))
+        .returning();
+      await tx.update(rfqQuotes)
+        .set({ status: 'rejected', respondedAt: new Date() })
+        .where(and(eq(rfqQuotes.rfqId, rfqId), eq(rfqQuotes.status, 'submitted')));
+      await tx.update(rfqs)
+        .set({ status: 'accepted', orderId: reservation.order.id, updatedAt: new Date() })
+        .where(eq(rfqs.id, rfqId));
+
+      return {
+        ...reservation,
+        quote: accepted,
+        lines: quoteLines.map(({ item, product }) => ({ product, quantity: item.quantity, unitPrice: item.unitPrice })),
+      };
+    });
+  }
+
+  // Hands an accepted RFQ back to the buyer once its order is cancelled: open for new quotes, or
+  // expired if its target date has passed. The accepted quote's prices are no longer held.
+  async reopenRfqForCancelledOrder(orderId: string, executor: DbExecutor = db): Promise<Rfq | undefined> {
+    const [rfq] = await executor.select().from(rfqs)
+      .where(and(eq(rfqs.orderId, orderId), eq(rfqs.status, 'accepted')))
+      .for('update');
+    if (!rfq) return undefined;
+
+    await executor.update(rfqQuotes)
+      .set({ status: 'expired' })
+      .where(and(eq(rfqQuotes.rfqId, rfq.id), eq(rfqQuotes.status, 'accepted')));
+
+    const today = new Date().toISOString().split('T')[0];
+    const [reopened] = await executor.update(rfqs)
+      .set({ status: rfq.targetDate && rfq.targetDate < today ? 'expired' : 'open', orderId: null, updatedAt: new Date() })
+      .where(eq(rfqs.id, rfq.id))
+      .returning();
+    return reopened;
+  }
+
+  // Lapses quotes past their validity and RFQs past their target date
+  async expireRfqs(): Promise<{ quotes: number; rfqs: number }> {
+    return await db.transaction(async (tx) => {
+      const expiredQuotes = await tx.update(rfqQuotes)
+        .set({ status: 'expired' })
+        .where(and(eq(rfqQuotes.status, 'submitted'), lte(rfqQuotes.validUntil, new Date())))
+        .returning({ rfqId: rfqQuotes.rfqId });
+      await this.reopenUnquotedRfqs(Array.from(new Set(expiredQuotes.map(q => q.rfqId))), tx);
+
+      const today = new Date().toISOString().split('T')[0];
+      const expiredRfqs = await tx.update(rfqs)
+        .set({ status: 'expired', updatedAt: new Date() })
+        .where(and(eq(rfqs.status, 'open'), sql`${rfqs.targetDate} < ${today}`))
+        .returning({ id: rfqs.id });
+
+      return { quotes: expiredQuotes.length, rfqs: expiredRfqs.length };
+    });
+  }
+
+  // ===== VENDOR LEDGER & PAYOUTS =====
+
+  // Posts a balanced two-line transaction. System postings carry a reference so replays
+  // (webhook retries, re-run completions) are ignored; zero amounts post nothing.
+  async postLedgerTransaction(entry: {
+    vendorId: string;
+    entryType: VendorLedgerTransaction['entryType'];
+    amount: number;
+    description: string;
+    reference?: string | null;
+    orderId?: string | null;
+    shipmentId?: string | null;
+    refundId?: string | null;
+    payoutId?: string | null;
+    createdBy?: string | null;
+  }, executor: DbExecutor = db): Promise<VendorLedgerTransaction | undefined> {
+    const amount = Math.round(entry.amount * 100) / 100;
+    if (amount === 0) return undefined;
+
+    const posting = LEDGER_POSTINGS[entry.entryType];
+    const [debitAccount, creditAccount] = amount > 0 ? [posting.debit, posting.credit] : [posting.credit, posting.debit];
+    const value = Math.abs(amount).toFixed(2);
+
+    const [transaction] = await executor.insert(vendorLedgerTransactions)
+      .values({
+        vendorId: entry.vendorId,
+        entryType: entry.entryType,
+        amount: value,
+        description: entry.description,
+        reference: entry.reference ?? null,
+        orderId: entry.orderId ?? null,
+        shipmentId: entry.shipmentId ?? null,
+        refundId: entry.refundId ?? null,
+        payoutId: entry.payoutId ?? null,
+        createdBy: entry.createdBy ?? null,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!transaction) return undefined;
+
+    await executor.insert(vendorLedgerLines).values([
+      { transactionId: transaction.id, account: debitAccount, debit: value, credit: '0' },
+      { transactionId: transaction.id, account: creditAccount, debit: '0', credit: value },
+    ]);
+    return transaction;
+  }
+
+  // Credits each vendor with their shipment subtotal and charges the commission locked in at checkout
+  async postOrderSales(orderId: string, executor: DbExecutor = db): Promise<void> {
+    const shipments = await executor.select().from(orderShipments)
+      .where(and(eq(orderShipments.orderId, orderId), sql`${orderShipments.status} <> 'cancelled'`));
+    const orderRef = orderId.slice(0, 8).toUpperCase();
+
+    for (const shipment of shipments) {
+      await this.postLedgerTransaction({
+        vendorId: shipment.vendorId,
+        entryType: 'sale',
+        amount: parseFloat(shipment.subtotal),
+        description: `Sale on order #${orderRef}`,
+        reference: `sale:${shipment.id}`,
+        orderId,
+        shipmentId: shipment.id,
+      }, executor);
+      await this.postLedgerTransaction({
+        vendorId: shipment.vendorId,
+        entryType: 'commission',
+        amount: parseFloat(shipment.commissionAmount),
+        description: `Platform commission (${shipment.commissionPercent}%) on order #${orderRef}`,
+        reference: `commission:${shipment.id}`,
+        orderId,
+        shipmentId: shipment.id,
+      }, executor);
+    }
+  }
+
+  async createLedgerAdjustment(vendorId: string, amount: number, description: string, adminId: string): Promise<VendorLedgerTransaction | undefined> {
+    return await db.transaction(tx => this.postLedgerTransaction({
+      vendorId,
+      entryType: 'adjustment',
+      amount,
+      description,
+      createdBy: adminId,
+    }, tx));
+  }
+
+  // Vendor-side view of the ledger; signedAmount is the movement on the vendor's payable account
+  async getVendorLedger(vendorId: string, filters?: {
+    from?: Date;
+    to?: Date;
+    entryType?: VendorLedgerTransaction['entryType'];
+    page?: number;
+    limit?: number;
+  }): Promise<{ entries: VendorLedgerEntry[]; total: number }> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 50;
+
+    const conditions = [eq(vendorLedgerTransactions.vendorId, vendorId)];
+    if (filters?.from) conditions.push(gte(vendorLedgerTransactions.createdAt, filters.from));
+    if (filters?.to) conditions.push(lte(vendorLedgerTransactions.createdAt, filters.to));
+    if (filters?.entryType) conditions.push(eq(vendorLedgerTransactions.entryType, filters.entryType));
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(vendorLedgerTransactions)
+      .where(and(...conditions));
+
+    const rows = await db.select({
+      transaction: vendorLedgerTransactions,
+      signedAmount: sql<string>`(${vendorLedgerLines.credit} - ${vendorLedgerLines.debit})::text`,
+    })
+      .from(vendorLedgerTransactions)
+      .innerJoin(vendorLedgerLines, and(
+        eq(vendorLedgerLines.transactionId, vendorLedgerTransactions.id),
+        eq(vendorLedgerLines.account, 'vendor_payable')
+      ))
+      .where(and(...conditions))
+      .orderBy(desc(vendorLedgerTransactions.createdAt), desc(vendorLedgerTransactions.id))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      entries: rows.map(row => ({ ...row.transaction, signedAmount: row.signedAmount })),
+      total,
+    };
+  }
+
+  // balance: everything still owed to the vendor; unsettled: the part not yet in a payout run;
+  // paidOut: payouts marked paid
+  async getVendorBalance(vendorId: string): Promise<{ balance: string; unsettled: string; paidOut: string }> {
+    const [payable] = await db.select({
+      balance: sql<string>`COALESCE(SUM(${vendorLedgerLines.credit} - ${vendorLedgerLines.debit}), 0)`,
+      unsettled: sql<string>`COALESCE(SUM(${vendorLedgerLines.credit} - ${vendorLedgerLines.debit}) FILTER (WHERE ${vendorLedgerTransactions.payoutId} IS NULL), 0)`,
+    })
+      .from(vendorLedgerLines)
+      .innerJoin(vendorLedgerTransactions, eq(vendorLedgerLines.transactionId, vendorLedgerTransactions.id))
+      .where(and(eq(vendorLedgerTransactions.vendorId, vendorId), eq(vendorLedgerLines.account, 'vendor_payable')));
+
+    const [{ paidOut }] = await db.select({ paidOut: sql<string>`COALESCE(SUM(${vendorPayouts.amount}), 0)` })
+      .from(vendorPayouts)
+      .where(and(eq(vendorPayouts.vendorId, vendorId), eq(vendorPayouts.status, 'paid')));
+
+    return {
+      balance: parseFloat(payable.balance).toFixed(2),
+      unsettled: parseFloat(payable.unsettled).toFixed(2),
+      paidOut: parseFloat(paidOut).toFixed(2),
+    };
+  }
+
+  // Creates one payout per vendor for their unsettled ledger transactions up to periodEnd and
+  // claims those transactions for it. Vendors who owe money or have no bank details are skipped.
+  async createPayoutRun(options: { periodEnd: Date; vendorIds?: string[]; adminId: string; notes?: string }): Promise<{
+    payouts: VendorPayout[];
+    skipped: { vendorId: string; amount: string; reason: 'non_positive_balance' | 'missing_bank_details' }[];
+  }> {
+    return await db.transaction(async (tx) => {
+      const conditions = [
+        isNull(vendorLedgerTransactions.payoutId),
+        sql`${vendorLedgerTransactions.entryType} <> 'payout'`,
+        lte(vendorLedgerTransactions.createdAt, options.periodEnd),
+      ];
+      if (options.vendorIds && options.vendorIds.length > 0) {
+        conditions.push(inArray(vendorLedgerTransactions.vendorId, options.vendorIds));
+      }
+
+      // Lock the candidate transactions so a concurrent run cannot settle them twice
+      const unsettled = await tx.select({
+        id: vendorLedgerTransactions.id,
+        vendorId: vendorLedgerTransactions.vendorId,
+        createdAt: vendorLedgerTransactions.createdAt,
+        signedAmount: sql<string>`${vendorLedgerLines.credit} - ${vendorLedgerLines.debit}`,
+      })
+        .from(vendorLedgerTransactions)
+        .innerJoin(vendorLedgerLines, and(
+          eq(vendorLedgerLines.transactionId, vendorLedgerTransactions.id),
+          eq(vendorLedgerLines.account, 'vendor_payable')
+        ))
+        .where(and(...conditions))
+        .for('update');
+
+      const byVendor = new Map<string, typeof unsettled>();
+      for (const row of unsettled) {
+        byVendor.set(row.vendorId, [...(byVendor.get(row.vendorId) || []), row]);
+      }
+
+      const payouts: VendorPayout[] = [];
+      const skipped: { vendorId: string; amount: string; reason: 'non_positive_balance' | 'missing_bank_details' }[] = [];
+
+      for (const [vendorId, rows] of Array.from(byVendor.entries())) {
+        const amount = rows.reduce((sum, row) => sum + parseFloat(row.signedAmount), 0);
+        if (amount <= 0) {
+          skipped.push({ vendorId, amount: amount.toFixed(2), reason: 'non_positive_balance' });
+          continue;
+        }
+
+        const [profile] = await tx.select().from(userProfiles).where(eq(userProfiles.userId, vendorId));
+        if (!profile?.bankAccountNumber) {
+          skipped.push({ vendorId, amount: amount.toFixed(2), reason: 'missing_bank_details' });
+          continue;
+        }
+
+        const [payout] = await tx.insert(vendorPayouts)
+          .values({
+            vendorId,
+            periodStart: new Date(Math.min(...rows.map(row => new Date(row.createdAt).getTime()))),
+            periodEnd: options.periodEnd,
+            amount: amount.toFixed(2),
+            paymentMethod: profile.paymentMethod,
+            bankCountry: profile.bankCountry,
+            financialInstitution: profile.financialInstitution,
+            swiftCode: profile.swiftCode,
+            bankAccountNumber: profile.bankAccountNumber,
+            notes: options.notes,
+            createdBy: options.adminId,
+          })
+          .returning();
+
+        await tx.update(vendorLedgerTransactions)
+          .set({ payoutId: payout.id })
+          .where(inArray(vendorLedgerTransactions.id, rows.map(row => row.id)));
+
+        await tx.insert(notifications).values({
+          userId: vendorId,
+          type: 'payout',
+          title: 'Payout scheduled',
+          message: `A payout of ${payout.currency} ${payout.amount} has been scheduled.`,
+        });
+
+        payouts.push(payout);
+      }
+
+      return { payouts, skipped };
+    });
+  }
+
+  async getPayouts(filters?: { vendorId?: string; status?: VendorPayout['status'] }): Promise<(VendorPayout & { vendor: { id: string; name: string; email: string } })[]> {
+    const conditions = [];
+    if (filters?.vendorId) conditions.push(eq(vendorPayouts.vendorId, filters.vendorId));
+    if (filters?.status) conditions.push(eq(vendorPayouts.status, filters.status));
+
+    const rows = await db.select({
+      payout: vendorPayouts,
+      vendor: { id: users.id, name: users.name, email: users.email },
+    })
+      .from(vendorPayouts)
+      .innerJoin(users, eq(vendorPayouts.vendorId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(vendorPayouts.createdAt));
+
+    return rows.map(row => ({ ...row.payout, vendor: row.vendor }));
+  }
+
+  // A payout with the ledger transactions it settles, oldest first, for statements
+  async getPayoutById(payoutId: string): Promise<VendorPayoutWithEntries | undefined> {
+    const [payout] = await db.select().from(vendorPayouts).where(eq(vendorPayouts.id, payoutId));
+    if (!payout) return undefined;
+
+    const rows = await db.select({
+      transaction: vendorLedgerTransactions,
+      signedAmount: sql<string>`(${vendorLedgerLines.credit} - ${vendorLedgerLines.debit})::text`,
+    })
+      .from(vendorLedgerTransactions)
+      .innerJoin(vendorLedgerLines, and(
+        eq(vendorLedgerLines.transactionId, vendorLedgerTransactions.id),
+        eq(vendorLedgerLines.account, 'vendor_payable')
+      ))
+      .where(and(
+        eq(vendorLedgerTransactions.payoutId, payoutId),
+        sql`${vendorLedgerTransactions.entryType} <> 'payout'`
+      ))
+      .orderBy(asc(vendorLedgerTransactions.createdAt), asc(vendorLedgerTransactions.id));
+
+    return { ...payout, entries: rows.map(row => ({ ...row.transaction, signedAmount: row.signedAmount })) };
+  }
+
+  // Moves a payout along PAYOUT_TRANSITIONS. Paying it posts the payout to the ledger;
+  // failing or cancelling it hands its transactions back for the next run.
+  async updatePayoutStatus(payoutId: string, change: {
+    status: VendorPayout['status'];
+    remittanceReference?: string;
+    failureReason?: string;
+    notes?: string;
+  }, adminId: string): Promise<{ payout: VendorPayout; previous: VendorPayout } | { conflict: string } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(vendorPayouts).where(eq(vendorPayouts.id, payoutId)).for('update');
+      if (!previous) return undefined;
+
+      if (!PAYOUT_TRANSITIONS[previous.status].includes(change.status)) {
+        return { conflict: `Payout is ${previous.status} and cannot be marked ${change.status}` };
+      }
+
+      const [payout] = await tx.update(vendorPayouts)
+        .set({
+          status: change.status,
+          ...(change.remittanceReference && { remittanceReference: change.remittanceReference }),
+          ...(change.failureReason && { failureReason: change.failureReason }),
+          ...(change.notes && { notes: change.notes }),
+          ...(change.status === 'paid' && { paidAt: new Date() }),
+          updatedAt: new Date(),
+        })
+        .where(eq(vendorPayouts.id, payoutId))
+        .returning();
+
+      if (change.status === 'paid') {
+        await this.postLedgerTransaction({
+          vendorId: payout.vendorId,
+          entryType: 'payout',
+          amount: parseFloat(payout.amount),
+          description: `Payout${payout.remittanceReference ? ` (ref ${payout.remittanceReference})` : ''}`,
+          reference: `payout:${payout.id}`,
+          payoutId: payout.id,
+          createdBy: adminId,
+        }, tx);
+      } else if (change.status === 'failed' || change.status === 'cancelled') {
+        await tx.update(vendorLedgerTransactions)
+          .set({ payoutId: null })
+          .where(eq(vendorLedgerTransactions.payoutId, payoutId));
+      }
+
+      if (change.status === 'paid' || change.status === 'failed') {
+        await tx.insert(notifications).values({
+          userId: payout.vendorId,
+          type: 'payout',
+          title: change.status === 'paid' ? 'Payout sent' : 'Payout failed',
+          message: change.status === 'paid'
+            ? `Your payout of ${payout.currency} ${payout.amount} has been sent (ref ${payout.remittanceReference}).`
+            : `Your payout of ${payout.currency} ${payout.amount} could not be sent${payout.failureReason ? `: ${payout.failureReason}` : ''}. The amount will be included in the next payout.`,
+        });
+      }
+
+      return { payout, previous };
+    });
+  }
+
+  // ===== UPLOADED FILES =====
+
+  async createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
+    const [created] = await db.insert(uploadedFiles).values(file).returning();
+    return created;
+  }
+
+  async getUploadedFile(id: string): Promise<UploadedFile | undefined> {
+    const [file] = await db.select().from(uploadedFiles).where(eq(uploadedFiles.id, id));
+    return file || undefined;
+  }
+
+  // Tickets with a customer-visible message carrying the attachment; internal notes are staff-only
+  async getTicketsByAttachmentUrl(fileUrl: string): Promise<SupportTicket[]> {
+    const rows = await db.select({ ticket: supportTickets })
+      .from(ticketAttachments)
+      .innerJoin(ticketMessages, eq(ticketAttachments.messageId, ticketMessages.id))
+      .innerJoin(supportTickets, eq(ticketMessages.ticketId, supportTickets.id))
+      .where(and(eq(ticketAttachments.fileUrl, fileUrl), eq(ticketMessages.isInternal, false)));
+    return rows.map(row => row.ticket);
+  }
+
+  // ===== CATALOG IMPORT =====
+
+  // Every product of a vendor with its pricing tiers and media, for SKU matching and catalogue export
+  async getVendorCatalog(vendorId: string): Promise<(Product & { media: ProductMedia[]; pricingTiers: ProductPricingTier[] })[]> {
+    const vendorProducts = await db.select().from(products)
+      .where(eq(products.vendorId, vendorId))
+      .orderBy(asc(products.id));
+    if (vendorProducts.length === 0) return [];
+
+    const productIds = vendorProducts.map(p => p.id);
+    const media = await db.select().from(productMedia)
+      .where(inArray(productMedia.productId, productIds))
+      .orderBy(desc(productMedia.isCover), asc(productMedia.displayOrder), asc(productMedia.id));
+    const tiers = await this.getPricingTiersForProducts(productIds);
+
+    return vendorProducts.map(product => ({
+      ...product,
+      media: media.filter(m => m.productId === product.id),
+      pricingTiers: tiers.get(product.id) || [],
+    }));
+  }
+
+  // Creates or updates one imported product. Tiers replace the existing ones when given;
+  // media is appended, with the first image becoming the cover if the product has none.
+  async saveImportedProduct(vendorId: string, entry: {
+    productId?: number;
+    data: Partial<typeof products.$inferInsert>;
+    pricingTiers?: Pick<ProductPricingTier, 'minQuantity' | 'maxQuantity' | 'price'>[];
+    media: Omit<typeof productMedia.$inferInsert, 'productId' | 'isCover' | 'displayOrder'>[];
+  }): Promise<{ product: Product; media: ProductMedia[] }> {
+    return await db.transaction(async (tx) => {
+      const [product] = entry.productId
+        ? await tx.update(products)
+          .set({ ...entry.data, updatedAt: new Date() })
+          .where(and(eq(products.id, entry.productId), eq(products.vendorId, vendorId)))
+          .returning()
+        : await tx.insert(products)
+          .values({ ...entry.data, vendorId, status: 'draft' })
+          .returning();
+      if (!product) throw new Error(`Product ${entry.productId} not found`);
+      if (entry.data.stock !== undefined) {
+        await this.syncVariantStock(product.id, tx);
+      }
+
+      if (entry.pricingTiers) {
+        await tx.delete(productPricingTiers).where(eq(productPricingTiers.productId, product.id));
+        if (entry.pricingTiers.length > 0) {
+          await tx.insert(productPricingTiers).values(entry.pricingTiers.map(tier => ({ ...tier, productId: product.id })));
+        }
+      }
+
+      if (entry.media.length === 0) return { product, media: [] };
+
+      const existing = await tx.select().from(productMedia).where(eq(productMedia.productId, product.id));
+      let hasCover = existing.some(m => m.isCover);
+      let displayOrder = existing.reduce((max, m) => Math.max(max, m.displayOrder ?? 0), -1) + 1;
+      const values = entry.media.map(m => {
+        const isCover = !hasCover && m.type === 'product_image';
+        if (isCover) hasCover = true;
+        return { ...m, productId: product.id, isCover, displayOrder: displayOrder++ };
+      });
+      const media = await tx.insert(productMedia).values(values).returning();
+      return { product, media };
+    });
+  }
+
+  async createCatalogImportJob(job: { vendorId: string; fileId: string; submitForReview: boolean; totalRows: number }): Promise<CatalogImportJob> {
+    const [created] = await db.insert(catalogImportJobs).values(job).returning();
+    return created;
+  }
+
+  async getCatalogImportJob(jobId: string): Promise<CatalogImportJobWithErrors | undefined> {
+    const [job] = await db.select().from(catalogImportJobs).where(eq(catalogImportJobs.id, jobId));
+    if (!job) return undefined;
+
+    const errors = await db.select({ row: catalogImportErrors.row, column: catalogImportErrors.column, error: catalogImportErrors.error })
+      .from(catalogImportErrors)
+      .where(eq(catalogImportErrors.jobId, jobId))
+      .orderBy(asc(catalogImportErrors.row), asc(catalogImportErrors.id));
+    return { ...job, errors };
+  }
+
+  async getCatalogImportJobs(vendorId: string, limit = 20): Promise<CatalogImportJob[]> {
+    return db.select().from(catalogImportJobs)
+      .where(eq(catalogImportJobs.vendorId, vendorId))
+      .orderBy(desc(catalogImportJobs.createdAt))
+      .limit(limit);
+  }
+
+  // Jobs a restart interrupted, oldest first
+  async getUnfinishedCatalogImportJobs(): Promise<CatalogImportJob[]> {
+    return db.select().from(catalogImportJobs)
+      .where(inArray(catalogImportJobs.status, ['queued', 'processing']))
+      .orderBy(asc(catalogImportJobs.createdAt));
+  }
+
+  async updateCatalogImportJob(jobId: string, data: Partial<Omit<CatalogImportJob, 'id' | 'vendorId' | 'fileId' | 'createdAt'>>): Promise<void> {
+    await db.update(catalogImportJobs).set(data).where(eq(catalogImportJobs.id, jobId));
+  }
+
+  // Restarting a job starts its error list over
+  async clearCatalogImportErrors(jobId: string): Promise<void> {
+    await db.delete(catalogImportErrors).where(eq(catalogImportErrors.jobId, jobId));
+  }
+
+  async addCatalogImportErrors(jobId: string, errors: CatalogImportError[]): Promise<void> {
+    if (errors.length === 0) return;
+    await db.insert(catalogImportErrors).values(errors.map(e => ({ ...e, jobId })));
+  }
+
+  // ===== EXPORT COMPLIANCE =====
+
+  async createComplianceDocument(document: Omit<typeof complianceDocuments.$inferInsert, 'id' | 'createdAt'>): Promise<ComplianceDocument> {
+    const [created] = await db.insert(complianceDocuments).values(document).returning();
+    return created;
+  }
+
+  async getComplianceDocuments(userId: string): Promise<ComplianceDocument[]> {
+    return db.select().from(complianceDocuments)
+      .where(eq(complianceDocuments.userId, userId))
+      .orderBy(desc(complianceDocuments.createdAt));
+  }
+
+  async getComplianceDocumentById(id: string): Promise<ComplianceDocument | undefined> {
+    const [document] = await db.select().from(complianceDocuments).where(eq(complianceDocuments.id, id));
+    return document || undefined;
+  }
+
+  async getDeniedParties(filters?: { search?: string; source?: string; page?: number; limit?: number }): Promise<{ parties: DeniedParty[]; total: number }> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 50;
+    const conditions: any[] = [];
+    if (filters?.search) conditions.push(ilike(deniedParties.name, `%${filters.search}%`));
+    if (filters?.source) conditions.push(eq(deniedParties.source, filters.source));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const parties = await db.select().from(deniedParties)
+      .where(where)
+      .orderBy(asc(deniedParties.name))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    const [countResult] = await db.select({ count: count() }).from(deniedParties).where(where);
+    return { parties, total: countResult?.count || 0 };
+  }
+
+  // The whole list, for screening
+  async getAllDeniedParties(): Promise<DeniedParty[]> {
+    return db.select().from(deniedParties);
+  }
+
+  // Loading a list replaces every entry previously loaded from the same source
+  async replaceDeniedParties(source: string, entries: Pick<DeniedParty, 'name' | 'normalizedName' | 'country' | 'remarks'>[]): Promise<{ removed: number; loaded: number }> {
+    return await db.transaction(async (tx) => {
+      const removed = await tx.delete(deniedParties).where(eq(deniedParties.source, source)).returning({ id: deniedParties.id });
+      for (let i = 0; i < entries.length; i += 500) {
+        await tx.insert(deniedParties).values(entries.slice(i, i + 500).map(entry => ({ ...entry, source })));
+      }
+      return { removed: removed.length, loaded: entries.length };
+    });
+  }
+
+  async getRestrictedCountryRules(countryCode?: string): Promise<RestrictedCountryRule[]> {
+    return db.select().from(restrictedCountryRules)
+      .where(countryCode ? eq(restrictedCountryRules.countryCode, countryCode) : undefined)
+      .orderBy(asc(restrictedCountryRules.countryCode), asc(restrictedCountryRules.id));
+  }
+
+  async createRestrictedCountryRule(rule: Omit<typeof restrictedCountryRules.$inferInsert, 'id' | 'createdAt'>): Promise<RestrictedCountryRule> {
+    const [created] = await db.insert(restrictedCountryRules).values(rule).returning();
+    return created;
+  }
+
+  async deleteRestrictedCountryRule(id: number): Promise<RestrictedCountryRule | undefined> {
+    const [deleted] = await db.delete(restrictedCountryRules).where(eq(restrictedCountryRules.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async createComplianceReview(review: Omit<typeof orderComplianceReviews.$inferInsert, 'id' | 'createdAt' | 'status'>): Promise<OrderComplianceReview> {
+    const [created] = await db.insert(orderComplianceReviews).values(review).returning();
+    return created;
+  }
+
+  async getComplianceReviewByOrderId(orderId: string): Promise<OrderComplianceReview | undefined> {
+    const [review] = await db.select().from(orderComplianceReviews).where(eq(orderComplianceReviews.orderId, orderId));
+    return review || undefined;
+  }
+
+  async getComplianceReviews(filters?: { status?: OrderComplianceReview['status']; page?: number; limit?: number }): Promise<{ reviews: OrderComplianceReviewWithDetails[]; total: number }> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 20;
+    const where = filters?.status ? eq(orderComplianceReviews.status, filters.status) : undefined;
+
+    const rows = await db.select({
+      review: orderComplianceReviews,
+      order: orders,
+      buyer: { id: users.id, name: users.name, email: users.email },
+      document: complianceDocuments,
+    })
+      .from(orderComplianceReviews)
+      .innerJoin(orders, eq(orderComplianceReviews.orderId, orders.id))
+      .innerJoin(users, eq(orderComplianceReviews.userId, users.id))
+      .leftJoin(complianceDocuments, eq(orderComplianceReviews.documentId, complianceDocuments.id))
+      .where(where)
+      .orderBy(asc(orderComplianceReviews.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    const [countResult] = await db.select({ count: count() }).from(orderComplianceReviews).where(where);
+
+    return {
+      reviews: rows.map(row => ({ ...row.review, order: row.order, buyer: row.buyer, document: row.document })),
+      total: countResult?.count || 0,
+    };
+  }
+
+  async getComplianceReviewById(id: string): Promise<OrderComplianceReviewWithDetails | undefined> {
+    const [row] = await db.select({
+      review: orderComplianceReviews,
+      order: orders,
+      buyer: { id: users.id, name: users.name, email: users.email },
+      document: complianceDocuments,
+    })
+      .from(orderComplianceReviews)
+      .innerJoin(orders, eq(orderComplianceReviews.orderId, orders.id))
+      .innerJoin(users, eq(orderComplianceReviews.userId, users.id))
+      .leftJoin(complianceDocuments, eq(orderComplianceReviews.documentId, complianceDocuments.id))
+      .where(eq(orderComplianceReviews.id, id));
+    return row ? { ...row.review, order: row.order, buyer: row.buyer, document: row.document } : undefined;
+  }
+
+  // Only held reviews can be decided, so two admins acting at once cannot both decide
+  async decideComplianceReview(id: string, decision: { status: 'approved' | 'rejected'; reviewedBy: string; reviewNote?: string | null }): Promise<OrderComplianceReview | undefined> {
+    const [updated] = await db.update(orderComplianceReviews)
+      .set({ ...decision, reviewedAt: new Date() })
+      .where(and(eq(orderComplianceReviews.id, id), eq(orderComplianceReviews.status, 'held')))
+      .returning();
+    return updated || undefined;
+  }
+
+  async addComplianceAuditEntry(entry: Omit<typeof complianceAuditLog.$inferInsert, 'id' | 'createdAt'>): Promise<ComplianceAuditEntry> {
+    const [created] = await db.insert(complianceAuditLog).values(entry).returning();
+    return created;
+  }
+
+  async getComplianceAuditLog(filters?: { orderId?: string; userId?: string; decision?: ComplianceAuditEntry['decision']; page?: number; limit?: number }): Promise<{ entries: ComplianceAuditEntry[]; total: number }> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 50;
+    const conditions: any[] = [];
+    if (filters?.orderId) conditions.push(eq(complianceAuditLog.orderId, filters.orderId));
+    if (filters?.userId) conditions.push(eq(complianceAuditLog.userId, filters.userId));
+    if (filters?.decision) conditions.push(eq(complianceAuditLog.decision, filters.decision));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const entries = await db.select().from(complianceAuditLog)
+      .where(where)
+      .orderBy(desc(complianceAuditLog.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    const [countResult] = await db.select({ count: count() }).from(complianceAuditLog).where(where);
+    return { entries, total: countResult?.count || 0 };
+  }
+
+  // Holds a held order's stock again before its payment opens: active reservations run to the new
+  // expiry and lapsed ones are taken again. If any line is now short, nothing is taken.
+  async renewStockReservations(orderId: string, expiresAt: Date): Promise<
+    | { renewed: number }
+    | { shortage: { productId: number; variantId: number | null; requested: number; available: number } }
+  > {
+    try {
+      return await db.transaction(async (tx) => {
+        const extended = await tx.update(stockReservations)
+          .set({ expiresAt })
+          .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'active')))
+          .returning({ id: stockReservations.id });
+
+        const lapsed = await tx.update(stockReservations)
+          .set({ status: 'active', releasedAt: null, expiresAt })
+          .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'released')))
+          .returning();
+
+        for (const reservation of lapsed) {
+          if (!(await this.takeStock(reservation.productId, reservation.variantId, reservation.quantity, tx))) {
+            const [current] = reservation.variantId
+              ? await tx.select({ stock: productVariants.stock }).from(productVariants).where(eq(productVariants.id, reservation.variantId))
+              : await tx.select({ stock: products.stock }).from(products).where(eq(products.id, reservation.productId));
+            throw new StockShortage(reservation.productId, reservation.variantId, reservation.quantity, current?.stock || 0);
+          }
+        }
+
+        return { renewed: extended.length + lapsed.length };
+      });
+    } catch (error) {
+      if (error instanceof StockShortage) {
+        return { shortage: { productId: error.productId, variantId: error.variantId, requested: error.requested, available: error.available } };
+      }
+      throw error;
+    }
+  }
+
+  // ===== NET TERMS CREDIT =====
+
+  // Unpaid remainder of the account's issued and overdue invoices
+  async getCreditBalance(creditAccountId: string, executor: DbExecutor = db): Promise<{ outstanding: number; overdueCount: number }> {
+    const [row] = await executor.select({
+      outstanding: sql<string>`coalesce(sum(${invoices.amount} - ${invoices.amountPaid} - ${invoices.creditedAmount}), 0)`,
+      overdueCount: sql<number>`count(*) filter (where ${invoices.status} = 'overdue')::int`,
+    })
+      .from(invoices)
+      .where(and(eq(invoices.creditAccountId, creditAccountId), inArray(invoices.status, ['issued', 'overdue'])));
+    return { outstanding: parseFloat(row?.outstanding || '0'), overdueCount: row?.overdueCount || 0 };
+  }
+
+  private async withCreditBalance(account: CreditAccount): Promise<CreditAccountWithBalance> {
+    const { outstanding, overdueCount } = await this.getCreditBalance(account.id);
+    const available = account.status === 'approved' ? Math.max(parseFloat(account.creditLimit) - outstanding, 0) : 0;
+    return { ...account, outstanding: outstanding.toFixed(2), available: available.toFixed(2), overdueCount };
+  }
+
+  async getCreditAccountByUserId(userId: string): Promise<CreditAccountWithBalance | undefined> {
+    const [account] = await db.select().from(creditAccounts).where(eq(creditAccounts.userId, userId));
+    return account ? this.withCreditBalance(account) : undefined;
+  }
+
+  async getCreditAccountById(id: string): Promise<CreditAccountWithBalance | undefined> {
+    const [account] = await db.select().from(creditAccounts).where(eq(creditAccounts.id, id));
+    return account ? this.withCreditBalance(account) : undefined;
+  }
+
+  async getCreditAccounts(filters?: { status?: CreditAccount['status']; page?: number; limit?: number }): Promise<{ accounts: (CreditAccountWithBalance & { buyer: Pick<User, 'id' | 'name' | 'email'> })[]; total: number }> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 20;
+    const where = filters?.status ? eq(creditAccounts.status, filters.status) : undefined;
+
+    const rows = await db.select({
+      account: creditAccounts,
+      buyer: { id: users.id, name: users.name, email: users.email },
+    })
+      .from(creditAccounts)
+      .innerJoin(users, eq(creditAccounts.userId, users.id))
+      .where(where)
+      .orderBy(desc(creditAccounts.updatedAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    const [countResult] = await db.select({ count: count() }).from(creditAccounts).where(where);
+
+    const accounts = await Promise.all(rows.map(async row => ({ ...(await this.withCreditBalance(row.account)), buyer: row.buyer })));
+    return { accounts, total: countResult?.count || 0 };
+  }
+
+  // A new application, or a fresh one replacing a rejected application
+  async applyForCreditAccount(userId: string, application: Pick<CreditAccount, 'requestedLimit' | 'paymentTerms' | 'billingEmail' | 'applicationNote'>): Promise<CreditAccount> {
+    const [account] = await db.insert(creditAccounts)
+      .values({ ...application, userId })
+      .onConflictDoUpdate({
+        target: creditAccounts.userId,
+        set: { ...application, status: 'pending', reviewedBy: null, reviewedAt: null, reviewNote: null, updatedAt: new Date() },
+        where: eq(creditAccounts.status, 'rejected'),
+      })
+      .returning();
+    return account;
+  }
+
+  async updateCreditAccount(id: string, data: Partial<Pick<CreditAccount, 'status' | 'creditLimit' | 'paymentTerms' | 'billingEmail' | 'reviewedBy' | 'reviewedAt' | 'reviewNote'>>): Promise<CreditAccount | undefined> {
+    const [updated] = await db.update(creditAccounts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(creditAccounts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Confirms a pending order on the buyer's credit account: issues the invoice, moves the order to
+  // processing, posts the vendor sales and commits the reserved stock, the way a card payment does.
+  // The account row is locked so concurrent orders cannot both fit under the same limit.
+  async placeOrderOnCredit(orderId: string): Promise<
+    | { invoice: Invoice; order: Order }
+    | { error: 'no_credit_account' | 'order_not_payable' }
+    | { error: 'credit_limit_exceeded'; creditLimit: string; outstanding: string; orderTotal: string }
+  > {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order || order.status !== 'pending' || order.paymentStatus === 'paid' || !order.poNumber) {
+        return { error: 'order_not_payable' as const };
+      }
+
+      const [account] = await tx.select().from(creditAccounts)
+        .where(and(eq(creditAccounts.userId, order.userId), eq(creditAccounts.status, 'approved')))
+        .for('update');
+      if (!account) {
+        return { error: 'no_credit_account' as const };
+      }
+
+      const { outstanding } = await this.getCreditBalance(account.id, tx);
+      if (outstanding + parseFloat(order.total) > parseFloat(account.creditLimit)) {
+        return {
+          error: 'credit_limit_exceeded' as const,
+          creditLimit: account.creditLimit,
+          outstanding: outstanding.toFixed(2),
+          orderTotal: order.total,
+        };
+      }
+
+      const issuedAt = new Date();
+      const dueDate = new Date(issuedAt.getTime() + paymentTermsDays[account.paymentTerms] * 24 * 60 * 60 * 1000);
+      const period = `${issuedAt.getFullYear()}${String(issuedAt.getMonth() + 1).padStart(2, '0')}`;
+      const [invoice] = await tx.insert(invoices).values({
+        invoiceNumber: `INV-${period}-${order.id.slice(0, 8).toUpperCase()}`,
+        orderId: order.id,
+        userId: order.userId,
+        creditAccountId: account.id,
+        poNumber: order.poNumber,
+        paymentTerms: account.paymentTerms,
+        amount: order.total,
+        issuedAt,
+        dueDate,
+      }).returning();
+
+      const [updated] = await tx.update(orders)
+        .set({ status: 'processing', paymentMethod: 'invoice' })
+        .where(eq(orders.id, orderId))
+        .returning();
+      await tx.update(orderShipments)
+        .set({ status: 'processing', updatedAt: new Date() })
+        .where(and(eq(orderShipments.orderId, orderId), eq(orderShipments.status, 'pending')));
+      await tx.insert(orderStatusHistory).values({
+        orderId,
+        status: 'processing',
+        changedBy: null,
+        note: `Placed on ${account.paymentTerms.replace('_', '-').toUpperCase()} terms against PO ${order.poNumber} (invoice ${invoice.invoiceNumber})`,
+      });
+
+      await this.postOrderSales(orderId, tx);
+      const shortfalls = await this.commitStockReservations(orderId, tx);
+      if (shortfalls.length > 0) {
+        console.warn(`Order ${orderId} was invoiced after its stock reservation lapsed; short on:`, shortfalls);
+      }
+
+      return { invoice, order: updated };
+    });
+  }
+
+  async getInvoiceById(id: string): Promise<InvoiceWithDetails | undefined> {
+    const [row] = await db.select({
+      invoice: invoices,
+      order: orders,
+      buyer: { id: users.id, name: users.name, email: users.email },
+    })
+      .from(invoices)
+      .innerJoin(orders, eq(invoices.orderId, orders.id))
+      .innerJoin(users, eq(invoices.userId, users.id))
+      .where(eq(invoices.id, id));
+    if (!row) return undefined;
+
+    const payments = await db.select().from(invoicePayments)
+      .where(eq(invoicePayments.invoiceId, id))
+      .orderBy(asc(invoicePayments.createdAt));
+    return { ...row.invoice, order: row.order, buyer: row.buyer, payments };
+  }
+
+  async getInvoiceByOrderId(orderId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.orderId, orderId));
+    return invoice || undefined;
+  }
+
+  async getInvoices(filters?: { userId?: string; status?: Invoice['status']; page?: number; limit?: number }): Promise<{ invoices: (Invoice & { buyer: Pick<User, 'id' | 'name' | 'email'> })[]; total: number }> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 20;
+    const conditions: any[] = [];
+    if (filters?.userId) conditions.push(eq(invoices.userId, filters.userId));
+    if (filters?.status) conditions.push(eq(invoices.status, filters.status));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = await db.select({
+      invoice: invoices,
+      buyer: { id: users.id, name: users.name, email: users.email },
+    })
+      .from(invoices)
+      .innerJoin(users, eq(invoices.userId, users.id))
+      .where(where)
+      .orderBy(desc(invoices.issuedAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    const [countResult] = await db.select({ count: count() }).from(invoices).where(where);
+    return { invoices: rows.map(row => ({ ...row.invoice, buyer: row.buyer })), total: countResult?.count || 0 };
+  }
+
+  // Records money received against an invoice; the invoice and its order are marked paid once the
+  // full amount has arrived
+  async recordInvoicePayment(invoiceId: string, payment: Pick<InvoicePayment, 'amount' | 'method' | 'reference' | 'recordedBy'>): Promise<
+    | { invoice: Invoice; payment: InvoicePayment }
+    | { error: string }
+  > {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+      if (!invoice) return { error: "Invoice not found" };
+      if (invoice.status === 'paid' || invoice.status === 'void') {
+        return { error: `Invoice is already ${invoice.status}` };
+      }
+
+      const remaining = parseFloat(invoice.amount) - parseFloat(invoice.amountPaid) - parseFloat(invoice.creditedAmount);
+      const amount = parseFloat(payment.amount);
+      if (amount > remaining + 0.001) {
+        return { error: `Payment exceeds the AED ${remaining.toFixed(2)} still due` };
+      }
+
+      const [created] = await tx.insert(invoicePayments).values({ ...payment, invoiceId }).returning();
+      const amountPaid = parseFloat(invoice.amountPaid) + amount;
+      const fullyPaid = amountPaid + parseFloat(invoice.creditedAmount) >= parseFloat(invoice.amount) - 0.001;
+      const now = new Date();
+      const [updated] = await tx.update(invoices)
+        .set({
+          amountPaid: amountPaid.toFixed(2),
+          ...(fullyPaid ? { status: 'paid' as const, paidAt: now } : {}),
+        })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+
+      if (fullyPaid) {
+        await tx.update(orders)
+          .set({ paymentStatus: 'paid', paidAt: now })
+          .where(eq(orders.id, invoice.orderId));
+      }
+      return { invoice: updated, payment: created };
+    });
+  }
+
+  // Only invoices without payments can be voided; the amount stops counting against the credit limit
+  async voidInvoice(invoiceId: string, reason: string): Promise<Invoice | undefined> {
+    const [updated] = await db.update(invoices)
+      .set({ status: 'void', voidedReason: reason })
+      .where(and(
+        eq(invoices.id, invoiceId),
+        inArray(invoices.status, ['issued', 'overdue']),
+        eq(invoices.amountPaid, '0')
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Credits an order's open invoice by `amount` (the whole balance when null), for refunded or
+  // cancelled goods. An invoice credited in full is settled: paid if the buyer had paid part of
+  // it, void otherwise. Whatever the buyer already paid beyond the new balance is not credited
+  // here and has to be returned to them.
+  async creditInvoice(orderId: string, amount: number | null, reason: string, executor: DbExecutor = db): Promise<{ invoice: Invoice; credited: number } | undefined> {
+    const [invoice] = await executor.select().from(invoices).where(eq(invoices.orderId, orderId)).for('update');
+    if (!invoice || invoice.status === 'paid' || invoice.status === 'void') return undefined;
+
+    const due = parseFloat(invoice.amount) - parseFloat(invoice.amountPaid) - parseFloat(invoice.creditedAmount);
+    const credited = Math.max(Math.min(amount ?? due, due), 0);
+    if (credited <= 0) return { invoice, credited: 0 };
+
+    const settled = due - credited < 0.005;
+    const now = new Date();
+    const paidAny = parseFloat(invoice.amountPaid) > 0;
+    const [updated] = await executor.update(invoices)
+      .set({
+        creditedAmount: (parseFloat(invoice.creditedAmount) + credited).toFixed(2),
+        ...(settled && paidAny && { status: 'paid' as const, paidAt: now }),
+        ...(settled && !paidAny && { status: 'void' as const, voidedReason: reason }),
+      })
+      .where(eq(invoices.id, invoice.id))
+      .returning();
+
+    if (settled && paidAny) {
+      await executor.update(orders).set({ paymentStatus: 'paid', paidAt: now }).where(eq(orders.id, orderId));
+    }
+    const [order] = await executor.select({ status: orders.status }).from(orders).where(eq(orders.id, orderId));
+    await executor.insert(orderStatusHistory).values({
+      orderId,
+      status: order?.status || 'pending',
+      changedBy: null,
+      note: `Invoice ${invoice.invoiceNumber} credited AED ${credited.toFixed(2)}: ${reason}`,
+    });
+    return { invoice: updated, credited };
+  }
+
+  async markOverdueInvoices(): Promise<Invoice[]> {
+    return db.update(invoices)
+      .set({ status: 'overdue' })
+      .where(and(eq(invoices.status, 'issued'), lte(invoices.dueDate, new Date())))
+      .returning();
+  }
+
+  // Dunning schedule: one reminder in the last `leadDays` before the due date, one on or after it,
+  // then one every `repeatDays` while the invoice stays overdue
+  async getInvoicesDueForReminder(leadDays: number, repeatDays: number): Promise<Invoice[]> {
+    const now = new Date();
+    const leadCutoff = new Date(now.getTime() + leadDays * 24 * 60 * 60 * 1000);
+    const repeatCutoff = new Date(now.getTime() - repeatDays * 24 * 60 * 60 * 1000);
+    return db.select().from(invoices)
+      .where(or(
+        and(
+          eq(invoices.status, 'issued'),
+          lte(invoices.dueDate, leadCutoff),
+          isNull(invoices.lastReminderAt)
+        ),
+        and(
+          eq(invoices.status, 'overdue'),
+          or(
+            isNull(invoices.lastReminderAt),
+            sql`${invoices.lastReminderAt} < ${invoices.dueDate}`,
+            lte(invoices.lastReminderAt, repeatCutoff)
+          )
+        )
+      ));
+  }
+
+  async markInvoiceReminded(invoiceId: string): Promise<void> {
+    await db.update(invoices)
+      .set({ reminderCount: sql`${invoices.reminderCount} + 1`, lastReminderAt: new Date() })
+      .where(eq(invoices.id, invoiceId));
+  }
+
+  // ===== FX RATES =====
+
+  // Latest rate per currency that has taken effect by `at`
+  async getCurrentFxRates(at: Date = new Date()): Promise<FxRate[]> {
+    return db.selectDistinctOn([fxRates.currency]).from(fxRates)
+      .where(lte(fxRates.effectiveFrom, at))
+      .orderBy(asc(fxRates.currency), desc(fxRates.effectiveFrom), desc(fxRates.id));
+  }
+
+  async getFxRateTable(at: Date = new Date()): Promise<FxRateTable> {
+    const rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+    for (const rate of await this.getCurrentFxRates(at)) {
+      rates[rate.currency] = parseFloat(rate.rate);
+    }
+    return { baseCurrency: BASE_CURRENCY, rates, asOf: at.toISOString() };
+  }
+
+  async getFxRateHistory(filters: { currency?: string; limit?: number } = {}): Promise<FxRate[]> {
+    return db.select().from(fxRates)
+      .where(filters.currency ? eq(fxRates.currency, filters.currency) : undefined)
+      .orderBy(desc(fxRates.effectiveFrom), asc(fxRates.currency))
+      .limit(filters.limit || 500);
+  }
+
+  // Saves rates, replacing any rate already on file for the same currency and effective time
+  async saveFxRates(
+    entries: { currency: string; rate: string; effectiveFrom: Date }[],
+    source: string,
+    createdBy: string
+  ): Promise<FxRate[]> {
+    return await db.transaction(async (tx) => {
+      const saved: FxRate[] = [];
+      for (const entry of entries) {
+        await tx.delete(fxRates).where(and(eq(fxRates.currency, entry.currency), eq(fxRates.effectiveFrom, entry.effectiveFrom)));
+        const [created] = await tx.insert(fxRates).values({ ...entry, source, createdBy }).returning();
+        saved.push(created);
+      }
+      return saved;
+    });
+  }
+
+  async setUserDisplayCurrency(userId: string, currency: string | null): Promise<User | undefined> {
+    const [updated] = await db.update(users).set({ displayCurrency: currency }).where(eq(users.id, userId)).returning();
+    return updated || undefined;
+  }
+
+  // ===== TAX RULES =====
+
+  async getTaxRules(options: { activeOnly?: boolean } = {}): Promise<TaxRule[]> {
+    return db.select().from(taxRules)
+      .where(options.activeOnly ? eq(taxRules.isActive, true) : undefined)
+      .orderBy(asc(taxRules.id));
+  }
+
+  async getTaxRuleById(id: number): Promise<TaxRule | undefined> {
+    const [rule] = await db.select().from(taxRules).where(eq(taxRules.id, id));
+    return rule || undefined;
+  }
+
+  async createTaxRule(rule: Omit<typeof taxRules.$inferInsert, 'id' | 'createdAt' | 'updatedAt'>): Promise<TaxRule> {
+    const [created] = await db.insert(taxRules).values(rule).returning();
+    return created;
+  }
+
+  async updateTaxRule(id: number, updates: Partial<Omit<typeof taxRules.$inferInsert, 'id' | 'createdAt' | 'updatedAt'>>): Promise<TaxRule | undefined> {
+    const [updated] = await db.update(taxRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(taxRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteTaxRule(id: number): Promise<TaxRule | undefined> {
+    const [deleted] = await db.delete(taxRules).where(eq(taxRules.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  // ===== TAX DOCUMENTS =====
+
+  // Numbers the document from its issuer's series inside the same transaction, so numbers are
+  // gapless. The shipment (invoice) or refund (credit note) row is locked first, which makes a
+  // repeated issue return the document already on file instead of a second one.
+  async issueTaxDocument(
+    document: Omit<typeof taxDocuments.$inferInsert, 'id' | 'documentNumber' | 'issuedAt'>,
+    lines: Omit<typeof taxDocumentLines.$inferInsert, 'id' | 'documentId'>[],
+    numberPrefix: string
+  ): Promise<TaxDocument> {
+    return await db.transaction(async (tx) => {
+      if (document.type === 'credit_note') {
+        if (!document.refundId) {
+          throw new Error("A credit note must reference a refund");
+        }
+        await tx.select({ id: refunds.id }).from(refunds).where(eq(refunds.id, document.refundId)).for('update');
+        const [existing] = await tx.select().from(taxDocuments).where(eq(taxDocuments.refundId, document.refundId));
+        if (existing) return existing;
+      } else {
+        await tx.select({ id: orderShipments.id }).from(orderShipments).where(eq(orderShipments.id, document.shipmentId)).for('update');
+        const [existing] = await tx.select().from(taxDocuments)
+          .where(and(eq(taxDocuments.shipmentId, document.shipmentId), eq(taxDocuments.type, 'invoice')));
+        if (existing) return existing;
+      }
+
+      const [sequence] = await tx.insert(taxDocumentSequences)
+        .values({ series: `${document.type}:${document.issuer}`, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: taxDocumentSequences.series,
+          set: { lastNumber: sql`${taxDocumentSequences.lastNumber} + 1` },
+        })
+        .returning();
+
+      const [issued] = await tx.insert(taxDocuments).values({
+        ...document,
+        documentNumber: `${numberPrefix}-${String(sequence.lastNumber).padStart(6, '0')}`,
+      }).returning();
+      if (lines.length > 0) {
+        await tx.insert(taxDocumentLines).values(lines.map(line => ({ ...line, documentId: issued.id })));
+      }
+      return issued;
+    });
+  }
+
+  async getTaxDocumentById(id: string): Promise<TaxDocumentWithLines | undefined> {
+    const [document] = await db.select().from(taxDocuments).where(eq(taxDocuments.id, id));
+    if (!document) return undefined;
+    const lines = await db.select().from(taxDocumentLines)
+      .where(eq(taxDocumentLines.documentId, id))
+      .orderBy(asc(taxDocumentLines.id));
+    return { ...document, lines };
+  }
+
+  async getTaxInvoiceForShipment(shipmentId: string): Promise<TaxDocument | undefined> {
+    const [document] = await db.select().from(taxDocuments)
+      .where(and(eq(taxDocuments.shipmentId, shipmentId), eq(taxDocuments.type, 'invoice')));
+    return document;
+  }
+
+  // Invoices and credit notes of an order, optionally only one vendor's
+  async getTaxDocumentsForOrder(orderId: string, vendorId?: string): Promise<TaxDocument[]> {
+    const conditions = [eq(taxDocuments.orderId, orderId)];
+    if (vendorId) {
+      conditions.push(eq(taxDocuments.vendorId, vendorId));
+    }
+    return db.select().from(taxDocuments)
+      .where(and(...conditions))
+      .orderBy(asc(taxDocuments.issuedAt));
+  }
+
+  // Recently shipped shipments with no invoice yet, e.g. because issuing failed when they shipped
+  async getShipmentsAwaitingTaxInvoice(since: Date, limit = 50): Promise<string[]> {
+    const rows = await db.select({ id: orderShipments.id }).from(orderShipments)
+      .where(and(
+        inArray(orderShipments.status, ['shipped', 'delivered']),
+        gte(orderShipments.updatedAt, since),
+        sql`not exists (select 1 from ${taxDocuments} where ${taxDocuments.shipmentId} = ${orderShipments.id} and ${taxDocuments.type} = 'invoice')`
+      ))
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
+
+  // Recently completed refunds against an invoiced shipment that have no credit note yet
+  async getRefundsAwaitingCreditNote(since: Date, limit = 50): Promise<string[]> {
+    const rows = await db.select({ id: refunds.id }).from(refunds)
+      .where(and(
+        eq(refunds.requestStatus, 'completed'),
+        gte(refunds.completedAt, since),
+        sql`exists (select 1 from ${taxDocuments} where ${taxDocuments.shipmentId} = ${refunds.shipmentId} and ${taxDocuments.type} = 'invoice')`,
+        sql`not exists (select 1 from ${taxDocuments} where ${taxDocuments.refundId} = ${refunds.id})`
+      ))
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -2,6 +2,9 @@ import Stripe from 'stripe';
 
 let connectionSettings: any;
 
+// Thrown when no Stripe connection is set up, as opposed to Stripe itself failing
+export class StripeNotConfiguredError extends Error {}
+
 async function getCredentials() {
   const hostname = process.env.REPLIT_CONNECTORS_HOSTNAME;
   const xReplitToken = process.env.REPL_IDENTITY
@@ -11,7 +14,7 @@ async function getCredentials() {
       : null;
 
   if (!xReplitToken) {
-    throw new Error('X_REPLIT_TOKEN not found for repl/depl');
+    throw new StripeNotConfiguredError('X_REPLIT_TOKEN not found for repl/depl');
   }
 
   const connectorName = 'stripe';
@@ -36,7 +39,7 @@ async function getCredentials() {
   connectionSettings = data.items?.[0];
 
   if (!connectionSettings || (!connectionSettings.settings.publishable || !connectionSettings.settings.secret)) {
-    throw new Error(`Stripe ${targetEnvironment} connection not found`);
+    throw new StripeNotConfiguredError(`Stripe ${targetEnvironment} connection not found`);
   }
 
   return {
@@ -56,6 +56,46 @@ const options: swaggerJsdoc.Options = {
             year: { type: 'integer' },
             rating: { type: 'string', nullable: true },
             reviewCount: { type: 'integer' },
+            coverImage: {
+              allOf: [{ $ref: '#/components/schemas/ProductImageSet' }],
+              nullable: true,
+              description: 'Processed cover image (list endpoints)',
+            },
+          },
+        },
+        ProductImageSet: {
+          type: 'object',
+          description: 'A processed product image. Use sources in <picture> and src as the <img> fallback.',
+          properties: {
+            mediaId: { type: 'integer' },
+            isCover: { type: 'boolean' },
+            width: { type: 'integer', nullable: true },
+            height: { type: 'integer', nullable: true },
+            blurhash: { type: 'string', nullable: true },
+            src: { type: 'string' },
+            sources: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['image/avif', 'image/webp'] },
+                  srcSet: { type: 'string', example: '/api/files/a 160w, /api/files/b 480w' },
+                },
+              },
+            },
+            variants: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  rendition: { type: 'string', enum: ['thumbnail', 'card', 'gallery', 'zoom'] },
+                  format: { type: 'string', enum: ['avif', 'webp'] },
+                  url: { type: 'string' },
+                  width: { type: 'integer' },
+                  height: { type: 'integer' },
+                },
+              },
+            },
           },
         },
         Category: {
@@ -321,9 +361,16 @@ const options: swaggerJsdoc.Options = {
       { name: 'Products', description: 'Product catalog and search - Used by Home, Products, Product Details pages' },
       { name: 'Categories', description: 'Product categories - Used by Home page and navigation' },
       { name: 'Cart', description: 'Shopping cart operations - Used by Cart page, Product Details, Navbar' },
+      { name: 'Vehicles', description: 'Vehicle catalogue, product fitment and My Garage - Used by Products, Product Details, Garage pages' },
+      { name: 'Wishlists', description: 'Named saved-for-later lists - Used by Wishlist page, Cart page, Product Details' },
       { name: 'Checkout', description: 'Payment processing with Stripe - Used by Checkout page' },
       { name: 'Orders', description: 'Order management - Used by Profile page' },
+      { name: 'Compliance', description: 'End-user certificates, export licences and export compliance status of held orders - Used by Checkout and Order Details pages' },
+      { name: 'Credit', description: 'Net-terms credit accounts and invoices for business buyers - Used by Checkout and Profile pages' },
+      { name: 'RFQ', description: 'Request-for-quotation workflow between buyers and vendors - Used by Product Details, Seller Dashboard, Admin panel' },
       { name: 'Reviews', description: 'Product reviews - Used by Product Details page' },
+      { name: 'Notifications', description: 'In-app notifications and per-type email/in-app preferences for every role' },
+      { name: 'Uploads', description: 'Multipart file uploads and signed downloads for product media, onboarding documents and ticket attachments' },
       { name: 'Vendor', description: 'Vendor dashboard operations - Used by Seller Dashboard' },
       { name: 'Vendor - Onboarding', description: 'Multi-step vendor onboarding flow (Steps 0-5 + Identity Verification)' },
       { name: 'Vendor Products', description: 'Vendor product creation, management and submission for review' },
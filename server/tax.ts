@@ -0,0 +1,169 @@
+// Tax calculation for carts and orders. Item prices exclude tax; each line is taxed by the rule
+// that best matches the vendor's country (origin), the delivery country (destination), the
+// buyer type and the product's category. Business buyers with a valid VAT/GST number are
+// reverse-charged where the matching rule allows it.
+import { storage } from "./storage";
+import type { OrderItem, OrderLineTax, Product, TaxRule, TaxSummaryLine, TaxTreatment, UserProfile } from "@shared/schema";
+
+const DEFAULT_PLATFORM_COUNTRY = 'AE';
+const REVERSE_CHARGE_NOTE = 'Reverse charge: the recipient is liable to account for the tax';
+
+const EU_COUNTRIES = ['AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK'];
+
+// Format checks only; numbers are not looked up with the issuing tax authority
+const TAX_NUMBER_PATTERNS: Record<string, RegExp> = {
+  AE: /^\d{15}$/, // TRN
+  SA: /^3\d{13}3$/,
+  BH: /^\d{15}$/,
+  OM: /^OM\d{10}$/,
+  IN: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, // GSTIN
+  GB: /^GB(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+};
+
+export function normalizeTaxNumber(value: string): string {
+  return value.toUpperCase().replace(/[\s.\-]/g, '');
+}
+
+export function isValidTaxNumber(value: string | null | undefined, country: string | null | undefined): boolean {
+  if (!value) return false;
+  const number = normalizeTaxNumber(value);
+  const code = country?.toUpperCase() || '';
+
+  if (EU_COUNTRIES.includes(code)) {
+    // EU VAT numbers carry the member state prefix (Greece uses EL)
+    const prefix = code === 'GR' ? 'EL' : code;
+    return new RegExp(`^${prefix}[0-9A-Z]{8,12}$`).test(number.startsWith(prefix) ? number : `${prefix}${number}`);
+  }
+  if (code === 'GB' && !number.startsWith('GB')) {
+    return TAX_NUMBER_PATTERNS.GB.test(`GB${number}`);
+  }
+  return (TAX_NUMBER_PATTERNS[code] || /^[A-Z0-9]{8,20}$/).test(number);
+}
+
+export interface TaxableLine {
+  product: Pick<Product, 'id' | 'vendorId' | 'mainCategoryId' | 'categoryId' | 'subCategoryId'>;
+  amount: number; // price x quantity, excluding tax
+}
+
+export interface TaxQuote {
+  lines: OrderLineTax[]; // in the order of the input lines
+  taxLines: TaxSummaryLine[];
+  subtotal: string;
+  tax: string;
+  total: string;
+  taxNote: string | null;
+  destinationCountry: string;
+}
+
+async function getPlatformCountry(): Promise<string> {
+  return ((await storage.getPlatformSetting('platform_country'))?.value || DEFAULT_PLATFORM_COUNTRY).toUpperCase();
+}
+
+function countryOf(profile: UserProfile | undefined): string | null {
+  return (profile?.countryOfRegistration || profile?.country)?.toUpperCase() || null;
+}
+
+// Category matches are the most specific, then buyer type, destination and origin
+function ruleScore(rule: TaxRule): number {
+  return (rule.categoryId ? 8 : 0) + (rule.buyerType ? 4 : 0) + (rule.destinationCountry ? 2 : 0) + (rule.originCountry ? 1 : 0);
+}
+
+export function matchTaxRule(
+  rules: TaxRule[],
+  context: { origin: string; destination: string; buyerType: string | null; categoryIds: number[] }
+): TaxRule | undefined {
+  const candidates = rules.filter(rule =>
+    rule.isActive
+    && (!rule.originCountry || rule.originCountry.toUpperCase() === context.origin)
+    && (!rule.destinationCountry || rule.destinationCountry.toUpperCase() === context.destination)
+    && (!rule.buyerType || rule.buyerType === context.buyerType)
+    && (!rule.categoryId || context.categoryIds.includes(rule.categoryId))
+  );
+  return candidates.sort((a, b) => ruleScore(b) - ruleScore(a) || a.id - b.id)[0];
+}
+
+// Groups line taxes by rule and rate for the cart, Stripe and order summaries
+export function summarizeTax(lines: { amount: number; tax: OrderLineTax }[]): TaxSummaryLine[] {
+  const groups = new Map<string, { label: string; rate: string; treatment: TaxTreatment; taxable: number; amount: number }>();
+  for (const { amount, tax } of lines) {
+    if (!tax.taxLabel) continue;
+    const key = `${tax.taxLabel}|${tax.taxRate}|${tax.taxTreatment}`;
+    const group = groups.get(key) || { label: tax.taxLabel, rate: tax.taxRate, treatment: tax.taxTreatment, taxable: 0, amount: 0 };
+    group.taxable += amount;
+    group.amount += parseFloat(tax.taxAmount);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).map(group => ({
+    label: group.label,
+    rate: group.rate,
+    treatment: group.treatment,
+    taxableAmount: group.taxable.toFixed(2),
+    amount: group.amount.toFixed(2),
+  }));
+}
+
+// Tax summary of lines already placed on an order, e.g. when payment is taken later
+export function summarizeOrderTax(items: Pick<OrderItem, 'price' | 'quantity' | 'taxRate' | 'taxAmount' | 'taxTreatment' | 'taxLabel'>[]): TaxSummaryLine[] {
+  return summarizeTax(items.map(item => ({
+    amount: parseFloat(item.price) * item.quantity,
+    tax: { taxRate: item.taxRate || '0.00', taxAmount: item.taxAmount, taxTreatment: item.taxTreatment || 'standard', taxLabel: item.taxLabel },
+  })));
+}
+
+export async function calculateTax(input: {
+  buyerId: string;
+  destinationCountry?: string | null;
+  lines: TaxableLine[];
+}): Promise<TaxQuote> {
+  const buyerProfile = await storage.getUserProfile(input.buyerId);
+  const platformCountry = await getPlatformCountry();
+  const destination = (input.destinationCountry?.toUpperCase() || countryOf(buyerProfile) || platformCountry);
+  const buyerType = buyerProfile?.typeOfBuyer || null;
+  const isBusiness = !!buyerType && buyerType !== 'individual' && buyerType !== 'other';
+  // A tax number follows the format of the country the buyer is registered in, not where the goods go
+  const hasValidTaxNumber = isBusiness && isValidTaxNumber(buyerProfile?.taxVatNumber, countryOf(buyerProfile));
+
+  const rules = await storage.getTaxRules({ activeOnly: true });
+  const origins = new Map<string, string>();
+  let reverseCharged = false;
+
+  const taxes: OrderLineTax[] = [];
+  for (const line of input.lines) {
+    let origin = origins.get(line.product.vendorId);
+    if (!origin) {
+      origin = countryOf(await storage.getUserProfile(line.product.vendorId)) || platformCountry;
+      origins.set(line.product.vendorId, origin);
+    }
+
+    const categoryIds = [line.product.mainCategoryId, line.product.categoryId, line.product.subCategoryId]
+      .filter((id): id is number => typeof id === 'number');
+    const rule = matchTaxRule(rules, { origin, destination, buyerType, categoryIds });
+
+    if (!rule) {
+      taxes.push({ taxRate: '0.00', taxAmount: '0.00', taxTreatment: 'zero_rated', taxLabel: null });
+    } else if (rule.treatment === 'standard' && rule.reverseChargeForBusiness && hasValidTaxNumber) {
+      reverseCharged = true;
+      taxes.push({ taxRate: '0.00', taxAmount: '0.00', taxTreatment: 'reverse_charge', taxLabel: rule.name });
+    } else {
+      const rate = rule.treatment === 'standard' ? parseFloat(rule.rate) : 0;
+      taxes.push({
+        taxRate: rate.toFixed(2),
+        taxAmount: (Math.round(line.amount * rate) / 100).toFixed(2),
+        taxTreatment: rule.treatment,
+        taxLabel: rule.name,
+      });
+    }
+  }
+
+  const subtotal = input.lines.reduce((sum, line) => sum + line.amount, 0);
+  const tax = taxes.reduce((sum, line) => sum + parseFloat(line.taxAmount), 0);
+  return {
+    lines: taxes,
+    taxLines: summarizeTax(input.lines.map((line, index) => ({ amount: line.amount, tax: taxes[index] }))),
+    subtotal: subtotal.toFixed(2),
+    tax: tax.toFixed(2),
+    total: (subtotal + tax).toFixed(2),
+    taxNote: reverseCharged ? REVERSE_CHARGE_NOTE : null,
+    destinationCountry: destination,
+  };
+}
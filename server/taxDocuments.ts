@@ -0,0 +1,316 @@
+// Tax invoices and credit notes. Each shipment gets a tax invoice when it ships and each completed
+// refund against an invoiced shipment gets a credit note. The seller of record is the vendor, or
+// the platform when `tax_invoice_issuer` is set to "platform" (marketplace operator invoicing);
+// either way the issuer numbers its documents in its own gapless series. Orders placed since tax
+// rules were introduced carry the tax calculated at checkout on each line; older orders were priced
+// VAT-inclusive and are split at the configured rate.
+import { storage } from "./storage";
+import { onDomainEvent } from "./events";
+import { renderPdf, type PdfLine } from "./pdf";
+import type { Address, Order, OrderItem, TaxDocument, TaxDocumentWithLines, UserProfile } from "@shared/schema";
+
+// UAE standard rate, for orders priced VAT-inclusive before tax rules
+const DEFAULT_VAT_RATE = 5;
+const DEFAULT_PLATFORM_COUNTRY = 'AE';
+// Only recent shipments and refunds are re-checked, so history from before invoicing is not backfilled
+const SWEEP_WINDOW_DAYS = 7;
+
+interface TaxParty {
+  name: string;
+  taxId: string | null;
+  address: string | null;
+  country: string | null;
+}
+
+type DocumentLine = { description: string; quantity: number; unitPrice: string; vatRate: string; netAmount: string; vatAmount: string; total: string };
+
+async function getSetting(key: string): Promise<string | undefined> {
+  return (await storage.getPlatformSetting(key))?.value || undefined;
+}
+
+function formatAddress(address: Address): string {
+  return [address.addressLine1, address.addressLine2, address.city, address.state, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function companyName(profile: UserProfile | undefined): string | null {
+  return profile?.registeredCompanyName || profile?.companyName || null;
+}
+
+async function getSellerOfRecord(vendorId: string): Promise<{ issuer: string; numberCode: string; seller: TaxParty }> {
+  if ((await getSetting('tax_invoice_issuer')) === 'platform') {
+    return {
+      issuer: 'platform',
+      numberCode: 'AM',
+      seller: {
+        name: (await getSetting('platform_legal_name')) || 'ArmoredMart',
+        taxId: (await getSetting('platform_tax_id')) || null,
+        address: (await getSetting('platform_address')) || null,
+        country: (await getSetting('platform_country')) || DEFAULT_PLATFORM_COUNTRY,
+      },
+    };
+  }
+
+  const vendor = await storage.getUser(vendorId);
+  const profile = await storage.getUserProfile(vendorId);
+  return {
+    issuer: vendorId,
+    numberCode: vendorId.slice(0, 8).toUpperCase(),
+    seller: {
+      name: companyName(profile) || vendor?.name || 'Unknown seller',
+      taxId: profile?.taxVatNumber || null,
+      address: profile?.cityOfficeAddress || null,
+      country: profile?.countryOfRegistration || profile?.country || null,
+    },
+  };
+}
+
+async function getBuyer(order: Order): Promise<TaxParty> {
+  const buyer = await storage.getUser(order.userId);
+  const profile = await storage.getUserProfile(order.userId);
+  const address = order.shippingAddressId ? await storage.getAddressById(order.shippingAddressId) : undefined;
+  return {
+    name: companyName(profile) || address?.fullName || buyer?.name || 'Customer',
+    taxId: profile?.taxVatNumber || null,
+    address: address ? formatAddress(address) : profile?.cityOfficeAddress || null,
+    country: order.shippingCountry || address?.country || profile?.country || null,
+  };
+}
+
+// Goods shipped out of the seller's country are zero-rated exports
+async function getVatTreatment(seller: TaxParty, buyer: TaxParty): Promise<{ rate: number; note: string | null }> {
+  const sellerCountry = seller.country?.toUpperCase();
+  const buyerCountry = buyer.country?.toUpperCase();
+  if (sellerCountry && buyerCountry && sellerCountry !== buyerCountry) {
+    return { rate: 0, note: `Zero-rated export of goods from ${sellerCountry} to ${buyerCountry}` };
+  }
+  const configured = parseFloat((await getSetting('vat_rate_percent')) || '');
+  return { rate: isNaN(configured) ? DEFAULT_VAT_RATE : configured, note: null };
+}
+
+// Splits a VAT-inclusive amount into its net and VAT parts
+function toLine(description: string, quantity: number, gross: number, rate: number): DocumentLine {
+  const net = Math.round((gross / (1 + rate / 100)) * 100) / 100;
+  return toNetLine(description, quantity, net, gross - net, rate);
+}
+
+function toNetLine(description: string, quantity: number, net: number, vat: number, rate: number): DocumentLine {
+  return {
+    description,
+    quantity,
+    unitPrice: (net / quantity).toFixed(2),
+    vatRate: rate.toFixed(2),
+    netAmount: net.toFixed(2),
+    vatAmount: vat.toFixed(2),
+    total: (net + vat).toFixed(2),
+  };
+}
+
+function describeItem(item: Pick<OrderItem, 'name' | 'variantName'>): string {
+  return item.variantName ? `${item.name} (${item.variantName})` : item.name;
+}
+
+// Explains lines charged no VAT; reverse charge wording comes from the order
+function describeTreatments(order: Order, items: OrderItem[]): string | null {
+  const notes = [
+    order.taxNote,
+    items.some(item => item.taxTreatment === 'exempt') ? 'Includes supplies exempt from VAT' : null,
+    items.some(item => item.taxTreatment === 'zero_rated' && item.taxLabel) ? 'Includes zero-rated supplies' : null,
+  ].filter(Boolean);
+  return notes.length > 0 ? notes.join('. ') : null;
+}
+
+function sumLines(lines: DocumentLine[]) {
+  const sum = (field: 'netAmount' | 'vatAmount' | 'total') =>
+    lines.reduce((acc, line) => acc + parseFloat(line[field]), 0).toFixed(2);
+  return { netAmount: sum('netAmount'), vatAmount: sum('vatAmount'), total: sum('total') };
+}
+
+export async function issueShipmentInvoice(shipmentId: string): Promise<TaxDocument | undefined> {
+  const existing = await storage.getTaxInvoiceForShipment(shipmentId);
+  if (existing) return existing;
+
+  const shipment = await storage.getShipmentById(shipmentId);
+  const order = shipment ? await storage.getOrderById(shipment.orderId) : undefined;
+  if (!shipment || !order || shipment.items.length === 0) return undefined;
+
+  const { issuer, numberCode, seller } = await getSellerOfRecord(shipment.vendorId);
+  const buyer = await getBuyer(order);
+
+  let vat: { rate: number; note: string | null };
+  let lines: DocumentLine[];
+  if (order.subtotal !== null) {
+    lines = shipment.items.map(item => toNetLine(
+      describeItem(item),
+      item.quantity,
+      parseFloat(item.price) * item.quantity,
+      parseFloat(item.taxAmount),
+      parseFloat(item.taxRate || '0')
+    ));
+    vat = { rate: Math.max(...lines.map(line => parseFloat(line.vatRate))), note: describeTreatments(order, shipment.items) };
+  } else {
+    vat = await getVatTreatment(seller, buyer);
+    lines = shipment.items.map(item => toLine(describeItem(item), item.quantity, parseFloat(item.price) * item.quantity, vat.rate));
+  }
+
+  return storage.issueTaxDocument({
+    type: 'invoice',
+    issuer,
+    orderId: order.id,
+    shipmentId: shipment.id,
+    vendorId: shipment.vendorId,
+    buyerId: order.userId,
+    sellerName: seller.name,
+    sellerTaxId: seller.taxId,
+    sellerAddress: seller.address,
+    sellerCountry: seller.country,
+    buyerName: buyer.name,
+    buyerTaxId: buyer.taxId,
+    buyerAddress: buyer.address,
+    buyerCountry: buyer.country,
+    vatRate: vat.rate.toFixed(2),
+    vatNote: vat.note,
+    ...sumLines(lines),
+  }, lines, `TI-${numberCode}`);
+}
+
+// Credits the refunded goods at the VAT rate they were invoiced at. Refunds for shipments that
+// were never invoiced need no credit note.
+export async function issueRefundCreditNote(refundId: string): Promise<TaxDocument | undefined> {
+  const refund = await storage.getRefundById(refundId);
+  if (!refund || refund.requestStatus !== 'completed' || !refund.shipmentId) return undefined;
+
+  const invoice = await storage.getTaxInvoiceForShipment(refund.shipmentId);
+  const shipment = await storage.getShipmentById(refund.shipmentId);
+  const order = await storage.getOrderById(refund.orderId);
+  if (!invoice || !shipment || !order) return undefined;
+
+  const rate = parseFloat(invoice.vatRate);
+  const amount = parseFloat(refund.amount);
+  const refundDescription = `Refund${refund.reason ? `: ${refund.reason}` : ''}`;
+  let lines: DocumentLine[];
+  if (order.subtotal !== null) {
+    // Refund items carry their share of the line's tax; other refunds carry the shipment's share
+    lines = refund.items.length > 0
+      ? refund.items.map(item => {
+        const sold = shipment.items.find(line => line.productId === item.productId && line.variantId === item.variantId);
+        return toNetLine(
+          describeItem(item),
+          item.quantity,
+          parseFloat(item.price) * item.quantity,
+          parseFloat(item.taxAmount),
+          parseFloat(sold?.taxRate || '0')
+        );
+      })
+      : [toNetLine(refundDescription, 1, amount - parseFloat(refund.taxAmount), parseFloat(refund.taxAmount), rate)];
+  } else {
+    const itemsTotal = refund.items.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0);
+    // Refunds for less than the items returned (e.g. partial goodwill refunds) are credited as one amount
+    lines = refund.items.length > 0 && Math.abs(itemsTotal - amount) < 0.005
+      ? refund.items.map(item => toLine(describeItem(item), item.quantity, parseFloat(item.price) * item.quantity, rate))
+      : [toLine(refundDescription, 1, amount, rate)];
+  }
+
+  const numberCode = invoice.issuer === 'platform' ? 'AM' : invoice.issuer.slice(0, 8).toUpperCase();
+  return storage.issueTaxDocument({
+    type: 'credit_note',
+    issuer: invoice.issuer,
+    orderId: invoice.orderId,
+    shipmentId: invoice.shipmentId,
+    refundId: refund.id,
+    creditedDocumentId: invoice.id,
+    vendorId: invoice.vendorId,
+    buyerId: invoice.buyerId,
+    sellerName: invoice.sellerName,
+    sellerTaxId: invoice.sellerTaxId,
+    sellerAddress: invoice.sellerAddress,
+    sellerCountry: invoice.sellerCountry,
+    buyerName: invoice.buyerName,
+    buyerTaxId: invoice.buyerTaxId,
+    buyerAddress: invoice.buyerAddress,
+    buyerCountry: invoice.buyerCountry,
+    currency: invoice.currency,
+    vatRate: invoice.vatRate,
+    vatNote: invoice.vatNote,
+    ...sumLines(lines),
+  }, lines, `CN-${numberCode}`);
+}
+
+// Picks up documents whose event handler failed, and credit notes for refunds that completed
+// before their shipment was invoiced
+export async function issueMissingTaxDocuments(): Promise<number> {
+  const since = new Date(Date.now() - SWEEP_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  let issued = 0;
+  for (const shipmentId of await storage.getShipmentsAwaitingTaxInvoice(since)) {
+    if (await issueShipmentInvoice(shipmentId)) issued++;
+  }
+  for (const refundId of await storage.getRefundsAwaitingCreditNote(since)) {
+    if (await issueRefundCreditNote(refundId)) issued++;
+  }
+  return issued;
+}
+
+// Documents issued before lines carried their own rate fall back to the document rate
+function vatByRate(document: TaxDocumentWithLines): { rate: number; amount: string }[] {
+  const totals = new Map<number, number>();
+  for (const line of document.lines) {
+    const rate = parseFloat(line.vatRate) || (parseFloat(line.vatAmount) > 0 ? parseFloat(document.vatRate) : 0);
+    totals.set(rate, (totals.get(rate) || 0) + parseFloat(line.vatAmount));
+  }
+  return Array.from(totals.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([rate, amount]) => ({ rate, amount: amount.toFixed(2) }));
+}
+
+export function renderTaxDocumentPdf(document: TaxDocumentWithLines, creditedNumber?: string): Buffer {
+  const money = (amount: string) => `${document.currency} ${parseFloat(amount).toFixed(2)}`;
+  const party = (label: string, name: string, taxId: string | null, address: string | null, country: string | null): PdfLine[] => [
+    { text: label, bold: true },
+    { text: name },
+    { text: `TRN / VAT number: ${taxId || '-'}` },
+    { text: [address, country].filter(Boolean).join(', ') || '-' },
+    { text: '' },
+  ];
+
+  const lines: (string | PdfLine)[] = [
+    { text: document.type === 'invoice' ? 'Tax Invoice' : 'Tax Credit Note', bold: true, size: 16 },
+    '',
+    `Number: ${document.documentNumber}`,
+    `Date of issue: ${new Date(document.issuedAt).toISOString().split('T')[0]}`,
+    `Order: ${document.orderId.slice(0, 8).toUpperCase()}`,
+    ...(creditedNumber ? [`Credits invoice: ${creditedNumber}`] : []),
+    '',
+    ...party('Seller', document.sellerName, document.sellerTaxId, document.sellerAddress, document.sellerCountry),
+    ...party('Buyer', document.buyerName, document.buyerTaxId, document.buyerAddress, document.buyerCountry),
+    { text: 'Qty   Unit (excl. VAT)       Net   VAT %        VAT      Total   Description', bold: true },
+    ...document.lines.map(line =>
+      `${String(line.quantity).padEnd(6)}${parseFloat(line.unitPrice).toFixed(2).padStart(16)}${parseFloat(line.netAmount).toFixed(2).padStart(10)}${String(parseFloat(line.vatRate)).padStart(8)}${parseFloat(line.vatAmount).toFixed(2).padStart(11)}${parseFloat(line.total).toFixed(2).padStart(11)}   ${line.description}`
+    ),
+    '',
+    `Total excluding VAT: ${money(document.netAmount)}`,
+    ...vatByRate(document).map(({ rate, amount }) => `VAT at ${rate}%: ${money(amount)}`),
+    { text: `${document.type === 'invoice' ? 'Total' : 'Total credited'}: ${money(document.total)}`, bold: true, size: 12 },
+    ...(document.vatNote ? ['', document.vatNote] : []),
+  ];
+  return renderPdf(lines);
+}
+
+export function registerTaxDocumentHandlers(): void {
+  onDomainEvent('order.status_changed', async ({ orderId, shipmentId, status }) => {
+    if (status !== 'shipped' && status !== 'delivered') return;
+    // Order-level changes move every open shipment at once
+    const shipmentIds = shipmentId
+      ? [shipmentId]
+      : (await storage.getOrderShipments(orderId)).filter(shipment => shipment.status === status).map(shipment => shipment.id);
+    for (const id of shipmentIds) {
+      await issueShipmentInvoice(id);
+    }
+  });
+
+  onDomainEvent('refund.status_changed', async ({ refundId, status }) => {
+    if (status === 'completed') {
+      await issueRefundCreditNote(refundId);
+    }
+  });
+}
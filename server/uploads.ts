@@ -0,0 +1,310 @@
+// File uploads and document storage. Bytes go to a pluggable driver: local disk in development,
+// or any S3-compatible bucket when STORAGE_DRIVER=s3. Files are always addressed through
+// /api/files/:id; private documents are only served with a signed, expiring URL.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import multer from "multer";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { storage } from "./storage";
+import type { UploadedFile, UploadPurpose, User } from "@shared/schema";
+
+export interface StorageDriver {
+  name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+  // Direct download URL from the backing store, or null when the app serves the bytes itself
+  getDownloadUrl(key: string, options: { expiresIn: number; fileName: string; contentType: string }): Promise<string | null>;
+}
+
+function createLocalDriver(): StorageDriver {
+  const root = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+  // Keys are generated server-side, but never let one resolve outside the upload directory
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+    async put(key, body) {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, body);
+    },
+    async read(key) {
+      const filePath = resolve(key);
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+    async remove(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+    async getDownloadUrl() {
+      return null;
+    },
+  };
+}
+
+function createS3Driver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3");
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    // Set for S3-compatible services such as MinIO or Cloudflare R2
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    async read(key) {
+      const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return result.Body as Readable;
+    },
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+    async getDownloadUrl(key, { expiresIn, fileName, contentType }) {
+      return getSignedUrl(client, new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ResponseContentType: contentType,
+        ResponseContentDisposition: contentDisposition(fileName, contentType),
+      }), { expiresIn });
+    },
+  };
+}
+
+const drivers: Partial<Record<StorageDriver['name'], StorageDriver>> = {};
+
+// Files remember which driver stored them, so switching STORAGE_DRIVER keeps older files readable
+function getDriver(name: string = process.env.STORAGE_DRIVER || 'local'): StorageDriver {
+  if (name !== 'local' && name !== 's3') throw new Error(`Unknown storage driver: ${name}`);
+  if (!drivers[name]) {
+    drivers[name] = name === 's3' ? createS3Driver() : createLocalDriver();
+  }
+  return drivers[name]!;
+}
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const DOCUMENT_TYPES = ['application/pdf', ...IMAGE_TYPES];
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+// Windows browsers report .csv files as application/vnd.ms-excel
+const SPREADSHEET_TYPES = ['text/csv', 'application/vnd.ms-excel', XLSX_TYPE];
+const MB = 1024 * 1024;
+
+export const uploadRules: Record<UploadPurpose, { mimeTypes: string[]; maxSize: number; visibility: 'public' | 'private' }> = {
+  product_media: { mimeTypes: [...DOCUMENT_TYPES, 'video/mp4', 'video/webm'], maxSize: 25 * MB, visibility: 'public' },
+  vat_certificate: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  contact_id_document: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  business_license: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  defense_approval: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  company_profile: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  bank_proof: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  ticket_attachment: { mimeTypes: [...DOCUMENT_TYPES, 'text/plain'], maxSize: 10 * MB, visibility: 'private' },
+  catalog_import: { mimeTypes: SPREADSHEET_TYPES, maxSize: 10 * MB, visibility: 'private' },
+  compliance_document: { mimeTypes: DOCUMENT_TYPES, maxSize: 10 * MB, visibility: 'private' },
+};
+
+const MAX_UPLOAD_SIZE = Math.max(...Object.values(uploadRules).map(rule => rule.maxSize));
+
+const extensions: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'application/pdf': '.pdf',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'application/vnd.ms-excel': '.csv',
+  [XLSX_TYPE]: '.xlsx',
+};
+
+// Browsers report the MIME type from the file name, so check the leading bytes of binary formats
+function matchesSignature(buffer: Buffer, mimeType: string): boolean {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]));
+    case 'image/png':
+      return buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    case 'image/webp':
+      return buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP';
+    case 'application/pdf':
+      return buffer.toString('latin1', 0, 5) === '%PDF-';
+    case 'video/mp4':
+      return buffer.toString('latin1', 4, 8) === 'ftyp';
+    case 'video/webm':
+      return buffer.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+    case XLSX_TYPE:
+      // Workbooks are ZIP archives
+      return buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    default:
+      return true;
+  }
+}
+
+// Single multipart field "file", held in memory until it has been validated
+export const uploadMiddleware = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
+}).single('file');
+
+export function validateUpload(purpose: UploadPurpose, file: Express.Multer.File): string | null {
+  return validateContent(purpose, file.buffer, file.mimetype);
+}
+
+// The same checks for bytes the server fetched itself, such as image URLs in a catalogue import
+export function validateContent(purpose: UploadPurpose, body: Buffer, mimeType: string): string | null {
+  const rule = uploadRules[purpose];
+  if (!rule.mimeTypes.includes(mimeType)) {
+    return `Unsupported file type ${mimeType}. Allowed: ${rule.mimeTypes.join(', ')}`;
+  }
+  if (body.length > rule.maxSize) {
+    return `File is too large. Maximum size is ${rule.maxSize / MB} MB`;
+  }
+  if (!matchesSignature(body, mimeType)) {
+    return `File content does not match type ${mimeType}`;
+  }
+  return null;
+}
+
+export async function saveUpload(ownerId: string, purpose: UploadPurpose, file: Express.Multer.File): Promise<UploadedFile> {
+  return storeFile(ownerId, purpose, {
+    body: file.buffer,
+    mimeType: file.mimetype,
+    fileName: path.basename(file.originalname),
+  });
+}
+
+// Stores content the server produced itself (e.g. image renditions) or already validated
+export async function storeFile(
+  ownerId: string,
+  purpose: UploadPurpose,
+  content: { body: Buffer; mimeType: string; fileName: string }
+): Promise<UploadedFile> {
+  const driver = getDriver();
+  const storageKey = `${purpose}/${ownerId}/${crypto.randomUUID()}${extensions[content.mimeType] || ''}`;
+  await driver.put(storageKey, content.body, content.mimeType);
+
+  return storage.createUploadedFile({
+    ownerId,
+    purpose,
+    visibility: uploadRules[purpose].visibility,
+    driver: driver.name,
+    storageKey,
+    fileName: content.fileName.slice(0, 255),
+    mimeType: content.mimeType,
+    size: content.body.length,
+  });
+}
+
+export async function readUpload(file: UploadedFile): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openUpload(file)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export function fileUrl(file: UploadedFile): string {
+  return `/api/files/${file.id}`;
+}
+
+const FILE_URL_PATTERN = /^\/api\/files\/([0-9a-f-]{36})$/i;
+
+// A file the owner uploaded for one of the given purposes; anything else is treated as not found
+export async function getOwnedUpload(fileId: string, ownerId: string, purposes: UploadPurpose[]): Promise<UploadedFile | undefined> {
+  const file = await storage.getUploadedFile(fileId);
+  if (!file || file.ownerId !== ownerId || !purposes.includes(file.purpose)) return undefined;
+  return file;
+}
+
+export async function resolveUploadUrl(url: string): Promise<UploadedFile | undefined> {
+  const match = FILE_URL_PATTERN.exec(url);
+  return match ? storage.getUploadedFile(match[1]) : undefined;
+}
+
+// Same check for a stored /api/files/:id URL
+export async function resolveOwnedUpload(url: string, ownerId: string, purposes: UploadPurpose[]): Promise<UploadedFile | undefined> {
+  const match = FILE_URL_PATTERN.exec(url);
+  return match ? getOwnedUpload(match[1], ownerId, purposes) : undefined;
+}
+
+export async function canReadFile(user: Pick<User, 'id' | 'userType'>, file: UploadedFile): Promise<boolean> {
+  if (file.visibility === 'public') return true;
+  if (user.userType === 'admin' || user.userType === 'super_admin') return true;
+  if (file.ownerId === user.id) return true;
+  // Support staff may attach files to a customer's ticket, except on internal notes
+  if (file.purpose === 'ticket_attachment') {
+    const tickets = await storage.getTicketsByAttachmentUrl(fileUrl(file));
+    return tickets.some(ticket => ticket.customerId === user.id);
+  }
+  return false;
+}
+
+const SIGNED_URL_TTL_SECONDS = 15 * 60;
+const SIGNING_SECRET = process.env.FILE_SIGNING_SECRET || process.env.JWT_SECRET || 'armoredmart-file-signing-key';
+
+function signature(fileId: string, expires: number): string {
+  return crypto.createHmac('sha256', SIGNING_SECRET).update(`${fileId}:${expires}`).digest('hex');
+}
+
+export function verifyFileSignature(fileId: string, expires: unknown, sig: unknown): boolean {
+  if (typeof expires !== 'string' || typeof sig !== 'string') return false;
+  const expiresAt = parseInt(expires);
+  if (!expiresAt || expiresAt * 1000 < Date.now()) return false;
+  const expected = Buffer.from(signature(fileId, expiresAt));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export async function getDownloadUrl(file: UploadedFile): Promise<{ url: string; expiresAt: Date | null }> {
+  if (file.visibility === 'public') {
+    return { url: fileUrl(file), expiresAt: null };
+  }
+
+  const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000);
+  const direct = await getDriver(file.driver).getDownloadUrl(file.storageKey, {
+    expiresIn: SIGNED_URL_TTL_SECONDS,
+    fileName: file.fileName,
+    contentType: file.mimeType,
+  });
+  if (direct) return { url: direct, expiresAt };
+
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  return { url: `${fileUrl(file)}?expires=${expires}&signature=${signature(file.id, expires)}`, expiresAt };
+}
+
+// Where the app should send the browser instead of streaming the file itself, if anywhere
+export async function getRedirectUrl(file: UploadedFile): Promise<string | null> {
+  return getDriver(file.driver).getDownloadUrl(file.storageKey, {
+    expiresIn: SIGNED_URL_TTL_SECONDS,
+    fileName: file.fileName,
+    contentType: file.mimeType,
+  });
+}
+
+export async function openUpload(file: UploadedFile): Promise<Readable> {
+  return getDriver(file.driver).read(file.storageKey);
+}
+
+// Images, PDFs and video open in the browser; anything else downloads
+export function contentDisposition(fileName: string, contentType: string): string {
+  const inline = contentType.startsWith('image/') || contentType.startsWith('video/') || contentType === 'application/pdf';
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, boolean, timestamp, pgEnum, index, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,6 +7,9 @@ import { z } from "zod";
 export const userTypeEnum = pgEnum('user_type', ['customer', 'vendor', 'admin', 'super_admin']);
 export const productConditionEnum = pgEnum('product_condition', ['new', 'used', 'refurbished']);
 export const orderStatusEnum = pgEnum('order_status', ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'returned']);
+export const paymentStatusEnum = pgEnum('payment_status', ['unpaid', 'paid', 'failed', 'refunded']);
+export const orderPaymentMethodEnum = pgEnum('order_payment_method', ['card', 'invoice']);
+export const taxTreatmentEnum = pgEnum('tax_treatment', ['standard', 'zero_rated', 'exempt', 'reverse_charge']);
 export const refundStatusEnum = pgEnum('refund_status', ['processing', 'completed', 'failed']);
 export const otpTypeEnum = pgEnum('otp_type', ['email', 'phone']);
 export const otpPurposeEnum = pgEnum('otp_purpose', ['registration', 'login', 'reset_password', 'verify_phone']);
@@ -201,6 +204,7 @@ export const users = pgTable("users", {
   countryCode: text("country_code"),
   password: text("password"),
   firebaseUid: text("firebase_uid").unique(),
+  stripeCustomerId: text("stripe_customer_id").unique(), // created with the first saved card
   userType: userTypeEnum("user_type").notNull().default('customer'),
   avatar: text("avatar"),
   emailVerified: boolean("email_verified").default(false),
@@ -212,6 +216,7 @@ export const users = pgTable("users", {
   suspendedAt: timestamp("suspended_at"),
   suspendedBy: varchar("suspended_by"),
   suspendedReason: text("suspended_reason"),
+  displayCurrency: text("display_currency"), // buyer's chosen currency for prices; null shows BASE_CURRENCY
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -229,12 +234,40 @@ export const otpVerifications = pgTable("otp_verifications", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Categories table
+// Account security events kept for audit (password reset requests and completed resets)
+export const securityEventTypeEnum = pgEnum('security_event_type', ['password_reset_requested', 'password_reset']);
+
+export const userSecurityEvents = pgTable("user_security_events", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  eventType: securityEventTypeEnum("event_type").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Every password reset request, whether or not the email has an account, so requests can be
+// throttled per email and per IP address without revealing which emails are registered
+export const passwordResetRequests = pgTable("password_reset_requests", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  email: text("email").notNull(),
+  ipAddress: text("ip_address").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("password_reset_requests_email_idx").on(table.email, table.createdAt),
+  index("password_reset_requests_ip_idx").on(table.ipAddress, table.createdAt),
+]);
+
+// Categories table - a tree up to three levels deep (main > category > sub-category),
+// matching products.mainCategoryId / categoryId / subCategoryId
 export const categories = pgTable("categories", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id),
   name: text("name").notNull(),
+  slug: text("slug").unique(),
   image: text("image").notNull(),
   description: text("description"),
+  displayOrder: integer("display_order").notNull().default(0),
 });
 
 // Product status enum
@@ -319,6 +352,9 @@ export const products = pgTable("products", {
   warranty: text("warranty"),
   actionType: text("action_type").default('buy_now'),
   isFeatured: boolean("is_featured").default(false),
+  featuredFrom: timestamp("featured_from"),
+  featuredUntil: timestamp("featured_until"),
+  featuredRank: integer("featured_rank").default(0),
   
   // Admin review fields
   reviewedBy: varchar("reviewed_by").references(() => users.id),
@@ -331,6 +367,8 @@ export const products = pgTable("products", {
 });
 
 // Product Media table for images and files
+export const mediaProcessingStatusEnum = pgEnum('media_processing_status', ['pending', 'ready', 'failed']);
+
 export const productMedia = pgTable("product_media", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   productId: integer("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
@@ -341,6 +379,27 @@ export const productMedia = pgTable("product_media", {
   mimeType: text("mime_type"),
   isCover: boolean("is_cover").default(false),
   displayOrder: integer("display_order").default(0),
+  // Images only: filled in by the processing pipeline in server/images.ts
+  width: integer("width"),
+  height: integer("height"),
+  blurhash: text("blurhash"),
+  processingStatus: mediaProcessingStatusEnum("processing_status"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Resized renditions of a product image, each in WebP and AVIF
+export const imageRenditions = ['thumbnail', 'card', 'gallery', 'zoom'] as const;
+export type ImageRendition = typeof imageRenditions[number];
+
+export const productMediaVariants = pgTable("product_media_variants", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  mediaId: integer("media_id").notNull().references(() => productMedia.id, { onDelete: 'cascade' }),
+  rendition: text("rendition").notNull(), // one of imageRenditions
+  format: text("format").notNull(), // 'webp' or 'avif'
+  url: text("url").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  fileSize: integer("file_size").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -354,6 +413,102 @@ export const productPricingTiers = pgTable("product_pricing_tiers", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Purchasable variants of a product: one combination of its option values (size, color, thickness,
+// drive type) with its own SKU, stock, optional price and image. When a product has active variants,
+// buyers must choose one and products.stock holds the total of their stock.
+export const productVariants = pgTable("product_variants", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+  sku: text("sku").notNull(),
+  size: text("size"),
+  color: text("color"),
+  thickness: text("thickness"),
+  driveType: text("drive_type"),
+  price: decimal("price", { precision: 10, scale: 2 }), // null = the product price and its volume tiers
+  stock: integer("stock").notNull().default(0),
+  mediaId: integer("media_id").references(() => productMedia.id, { onDelete: 'set null' }),
+  // Variants that were ordered are deactivated rather than deleted
+  isActive: boolean("is_active").notNull().default(true),
+  displayOrder: integer("display_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Option columns of a variant, in display order
+export const variantOptionFields = ['size', 'color', 'thickness', 'driveType'] as const;
+export type VariantOptionField = typeof variantOptionFields[number];
+
+// "L / Olive" style label from the options a variant sets
+export function describeVariant(variant: Partial<Record<VariantOptionField, string | null>>): string {
+  return variantOptionFields.map(field => variant[field]).filter(Boolean).join(' / ');
+}
+
+// Vendor bulk catalogue imports from an uploaded CSV/XLSX file (see server/catalog.ts).
+// The file is validated again when the job runs, so reference data changes since the preview are caught.
+export const catalogImportStatusEnum = pgEnum('catalog_import_status', ['queued', 'processing', 'completed', 'failed']);
+
+export const catalogImportJobs = pgTable("catalog_import_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  fileId: varchar("file_id").notNull().references(() => uploadedFiles.id),
+  status: catalogImportStatusEnum("status").notNull().default('queued'),
+  submitForReview: boolean("submit_for_review").notNull().default(false),
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  failureReason: text("failure_reason"), // set when the whole file could not be read
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Rows that were skipped, by spreadsheet row number (the header is row 1)
+export const catalogImportErrors = pgTable("catalog_import_errors", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  jobId: varchar("job_id").notNull().references(() => catalogImportJobs.id, { onDelete: 'cascade' }),
+  row: integer("row").notNull(),
+  column: text("column"),
+  error: text("error").notNull(),
+});
+
+// Vehicle catalogue - one row per make/model/variant over a production year range
+export const vehicles = pgTable("vehicles", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  platform: text("platform"),
+  make: text("make").notNull(),
+  model: text("model").notNull(),
+  variant: text("variant"),
+  yearFrom: integer("year_from"),
+  yearTo: integer("year_to"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Structured fitment - which catalogue vehicles a product fits
+export const productVehicleFitments = pgTable("product_vehicle_fitments", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: 'cascade' }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("product_vehicle_fitments_product_vehicle_unique").on(table.productId, table.vehicleId),
+]);
+
+// "My garage" - vehicles a user has saved for fitment filtering
+export const userVehicles = pgTable("user_vehicles", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: 'cascade' }),
+  year: integer("year"),
+  nickname: text("nickname"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("user_vehicles_user_vehicle_year_unique").on(table.userId, table.vehicleId, table.year).nullsNotDistinct(),
+]);
+
 // Product Review Notes table (admin feedback to sellers)
 export const productReviewNotes = pgTable("product_review_notes", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -381,43 +536,196 @@ export const cartItems = pgTable("cart_items", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   userId: varchar("user_id").notNull().references(() => users.id),
   productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: 'cascade' }),
   quantity: integer("quantity").notNull().default(1),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Wishlists - named saved lists per user (e.g. one per fleet or project)
+export const wishlists = pgTable("wishlists", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Wishlist items - price and stock are captured when saved so drops and restocks can be flagged
+export const wishlistItems = pgTable("wishlist_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  wishlistId: integer("wishlist_id").notNull().references(() => wishlists.id, { onDelete: 'cascade' }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+  quantity: integer("quantity").notNull().default(1),
+  priceWhenAdded: decimal("price_when_added", { precision: 10, scale: 2 }),
+  inStockWhenAdded: boolean("in_stock_when_added").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("wishlist_items_wishlist_product_unique").on(table.wishlistId, table.productId),
+]);
+
 // Orders table
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   status: orderStatusEnum("status").notNull().default('pending'),
+  paymentStatus: paymentStatusEnum("payment_status").notNull().default('unpaid'),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  // Tax is charged on top of the item prices; subtotal is null on orders placed before tax was charged
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  taxNote: text("tax_note"), // e.g. reverse charge wording required on the invoice
+  // Amounts are in BASE_CURRENCY; the buyer is charged in `currency` at `exchangeRate` units per base unit
+  currency: text("currency").notNull().default('AED'),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }).notNull().default('1'),
+  trackingNumber: text("tracking_number"),
+  estimatedDelivery: text("estimated_delivery"),
+  stripeSessionId: text("stripe_session_id"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  paidAt: timestamp("paid_at"),
+  // 'invoice' orders are placed on the buyer's credit account and paid against their invoice
+  paymentMethod: orderPaymentMethodEnum("payment_method").notNull().default('card'),
+  poNumber: text("po_number"), // buyer's purchase order reference
+  // Delivery address picked at checkout; the country is copied so later address edits do not change screening history
+  shippingAddressId: integer("shipping_address_id").references(() => addresses.id, { onDelete: 'set null' }),
+  shippingCountry: text("shipping_country"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Order shipments - one per vendor within a parent order. Each shipment is fulfilled,
+// tracked, commissioned and refunded on its own; the parent order status is rolled up from them.
+export const orderShipments = pgTable("order_shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  status: orderStatusEnum("status").notNull().default('pending'),
   trackingNumber: text("tracking_number"),
   estimatedDelivery: text("estimated_delivery"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  commissionPercent: decimal("commission_percent", { precision: 5, scale: 2 }).notNull(),
+  commissionAmount: decimal("commission_amount", { precision: 10, scale: 2 }).notNull(),
+  // Running totals of completed refunds (excluding tax) against this shipment and the commission given back for them
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  refundedCommission: decimal("refunded_commission", { precision: 10, scale: 2 }).notNull().default('0'),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Order items table
 export const orderItems = pgTable("order_items", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   orderId: varchar("order_id").notNull().references(() => orders.id),
+  shipmentId: varchar("shipment_id").references(() => orderShipments.id),
   productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  variantName: text("variant_name"), // options as ordered, e.g. "L / Olive"
   vendorId: varchar("vendor_id").references(() => users.id),
   name: text("name").notNull(),
   image: text("image").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   quantity: integer("quantity").notNull(),
+  // Tax on the line (price x quantity) as calculated at checkout
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  taxTreatment: taxTreatmentEnum("tax_treatment"),
+  taxLabel: text("tax_label"), // name of the rule applied, e.g. "UAE VAT"
 });
 
 // Order status history table for tracking status changes
 export const orderStatusHistory = pgTable("order_status_history", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   orderId: varchar("order_id").notNull().references(() => orders.id),
+  shipmentId: varchar("shipment_id").references(() => orderShipments.id), // null = parent order
   status: orderStatusEnum("status").notNull(),
   changedBy: varchar("changed_by").references(() => users.id),
   note: text("note"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Stock reservation status enum
+export const stockReservationStatusEnum = pgEnum('stock_reservation_status', ['active', 'committed', 'released']);
+
+// Stock held for a pending order while the buyer pays. Stock is decremented when the
+// reservation is made and given back if it is released (expiry or cancellation).
+export const stockReservations = pgTable("stock_reservations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  quantity: integer("quantity").notNull(),
+  status: stockReservationStatusEnum("status").notNull().default('active'),
+  expiresAt: timestamp("expires_at").notNull(),
+  committedAt: timestamp("committed_at"),
+  releasedAt: timestamp("released_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Processed Stripe webhook events (keyed by Stripe event ID for idempotency)
+export const stripeWebhookEvents = pgTable("stripe_webhook_events", {
+  id: varchar("id").primaryKey(), // Stripe event ID (evt_...)
+  type: text("type").notNull(),
+  orderId: varchar("order_id").references(() => orders.id),
+  processedAt: timestamp("processed_at").notNull().defaultNow(),
+});
+
+// ===== REQUEST FOR QUOTATION (RFQ) =====
+
+// RFQ status: open (awaiting a quote) -> quoted -> accepted (order placed),
+// or closed early as declined (by the vendor), cancelled (by buyer or admin) or expired (target date passed)
+export const rfqStatusEnum = pgEnum('rfq_status', ['open', 'quoted', 'accepted', 'declined', 'cancelled', 'expired']);
+export const rfqQuoteStatusEnum = pgEnum('rfq_quote_status', ['submitted', 'accepted', 'rejected', 'withdrawn', 'expired']);
+
+// A buyer's request for quotation, addressed to one vendor. Baskets spanning several vendors
+// are split into one RFQ per vendor when submitted.
+export const rfqs = pgTable("rfqs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  buyerId: varchar("buyer_id").notNull().references(() => users.id),
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  status: rfqStatusEnum("status").notNull().default('open'),
+  deliveryTerms: text("delivery_terms"), // e.g. Incoterm such as DAP, EXW
+  deliveryCountry: text("delivery_country"),
+  targetDate: text("target_date"), // requested delivery date (YYYY-MM-DD)
+  notes: text("notes"),
+  orderId: varchar("order_id").references(() => orders.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const rfqItems = pgTable("rfq_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  rfqId: varchar("rfq_id").notNull().references(() => rfqs.id, { onDelete: 'cascade' }),
+  productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id), // required for products sold in variants
+  quantity: integer("quantity").notNull(),
+  notes: text("notes"),
+});
+
+// A vendor's priced answer to an RFQ, valid until validUntil. A newer quote supersedes
+// (withdraws) the vendor's previous open quote on the same RFQ.
+export const rfqQuotes = pgTable("rfq_quotes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  rfqId: varchar("rfq_id").notNull().references(() => rfqs.id, { onDelete: 'cascade' }),
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  status: rfqQuoteStatusEnum("status").notNull().default('submitted'),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  validUntil: timestamp("valid_until").notNull(),
+  deliveryTerms: text("delivery_terms"),
+  leadTimeDays: integer("lead_time_days"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  respondedAt: timestamp("responded_at"),
+});
+
+export const rfqQuoteItems = pgTable("rfq_quote_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  quoteId: integer("quote_id").notNull().references(() => rfqQuotes.id, { onDelete: 'cascade' }),
+  rfqItemId: integer("rfq_item_id").notNull().references(() => rfqItems.id, { onDelete: 'cascade' }),
+  productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+});
+
 // Refund status enum (expanded for admin workflow)
 export const refundRequestStatusEnum = pgEnum('refund_request_status', ['pending', 'under_review', 'approved', 'rejected', 'processing', 'completed', 'failed']);
 
@@ -425,17 +733,25 @@ export const refundRequestStatusEnum = pgEnum('refund_request_status', ['pending
 export const refunds = pgTable("refunds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").notNull().references(() => orders.id),
+  shipmentId: varchar("shipment_id").references(() => orderShipments.id),
   userId: varchar("user_id").notNull().references(() => users.id),
   vendorId: varchar("vendor_id").references(() => users.id),
   status: refundStatusEnum("status").notNull().default('processing'),
   requestStatus: refundRequestStatusEnum("request_status").default('pending'),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'), // tax included in amount
   reason: text("reason"),
   customerNote: text("customer_note"),
-  paymentMethod: text("payment_method").notNull().default('Tamara'),
+  paymentMethod: text("payment_method").notNull().default('Stripe'),
   triggerDate: timestamp("trigger_date").notNull().defaultNow(),
   estimatedCreditDate: timestamp("estimated_credit_date"),
   completedAt: timestamp("completed_at"),
+  // Settlement: approved refunds are paid back through Stripe and retried with backoff on failure
+  stripeRefundId: text("stripe_refund_id"),
+  attemptCount: integer("attempt_count").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  failureReason: text("failure_reason"),
+  commissionReversed: decimal("commission_reversed", { precision: 10, scale: 2 }),
   // Admin review fields
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   reviewedAt: timestamp("reviewed_at"),
@@ -449,10 +765,13 @@ export const refundItems = pgTable("refund_items", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   refundId: varchar("refund_id").notNull().references(() => refunds.id),
   productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id),
+  variantName: text("variant_name"),
   name: text("name").notNull(),
   image: text("image").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   quantity: integer("quantity").notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'),
 });
 
 // Address type enum
@@ -506,6 +825,8 @@ export const savedPaymentMethods = pgTable("saved_payment_methods", {
   processorToken: text("processor_token").notNull(),
   // Payment processor name (stripe, razorpay, etc.)
   processorName: text("processor_name").notNull().default('stripe'),
+  // Stripe card fingerprint, so the same card is not saved twice
+  fingerprint: text("fingerprint"),
   // Billing address reference
   billingAddressId: integer("billing_address_id").references(() => addresses.id),
   // Country for regulatory compliance (affects what data we can store)
@@ -629,8 +950,15 @@ export const userProfiles = pgTable("user_profiles", {
 export const adminActionTypeEnum = pgEnum('admin_action_type', [
   'seller_approved', 'seller_rejected', 'seller_suspended', 'seller_activated',
   'product_approved', 'product_rejected', 'product_featured', 'product_unfeatured',
-  'order_status_changed', 'refund_approved', 'refund_rejected',
-  'user_suspended', 'user_activated', 'admin_created', 'settings_changed'
+  'order_status_changed', 'refund_approved', 'refund_rejected', 'refund_retried',
+  'payout_run', 'payout_status_changed', 'ledger_adjustment',
+  'user_suspended', 'user_activated', 'admin_created', 'settings_changed',
+  'vehicle_created', 'vehicle_updated', 'vehicle_deleted',
+  'category_created', 'category_updated', 'category_deleted',
+  'rfq_cancelled',
+  'compliance_approved', 'compliance_rejected', 'denied_parties_loaded', 'restricted_country_changed',
+  'credit_account_changed', 'invoice_payment_recorded', 'invoice_voided',
+  'tax_rule_changed', 'fx_rates_loaded'
 ]);
 
 // Platform settings table for global configurations
@@ -649,7 +977,7 @@ export const adminActionLogs = pgTable("admin_action_logs", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   adminId: varchar("admin_id").notNull().references(() => users.id),
   actionType: adminActionTypeEnum("action_type").notNull(),
-  targetType: text("target_type").notNull(), // 'user', 'product', 'order', 'refund'
+  targetType: text("target_type").notNull(), // 'user', 'product', 'order', 'shipment', 'refund', 'vehicle', 'category', 'rfq', 'payout', 'vendor'
   targetId: varchar("target_id").notNull(),
   previousValue: text("previous_value"), // JSON string of previous state
   newValue: text("new_value"), // JSON string of new state
@@ -658,6 +986,291 @@ export const adminActionLogs = pgTable("admin_action_logs", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// ===== VENDOR LEDGER & PAYOUTS =====
+
+// Double-entry vendor ledger. Each transaction posts one debit and one credit line of the same amount:
+// one side is always the vendor's payable account, the other a platform account. A vendor's balance
+// (what the platform owes them) is credits minus debits on 'vendor_payable'.
+export const ledgerAccountEnum = pgEnum('ledger_account', ['vendor_payable', 'customer_payments', 'platform_commission', 'platform_adjustments', 'payouts_clearing']);
+export const ledgerEntryTypeEnum = pgEnum('ledger_entry_type', ['sale', 'commission', 'refund', 'commission_reversal', 'adjustment', 'payout']);
+export const payoutStatusEnum = pgEnum('payout_status', ['pending', 'processing', 'paid', 'failed', 'cancelled']);
+
+// A settlement of a vendor's balance for a period. Bank details are copied from onboarding step 5
+// when the payout is created, so later profile edits do not change where a payout was sent.
+export const vendorPayouts = pgTable("vendor_payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default('AED'),
+  status: payoutStatusEnum("status").notNull().default('pending'),
+  paymentMethod: text("payment_method"),
+  bankCountry: text("bank_country"),
+  financialInstitution: text("financial_institution"),
+  swiftCode: text("swift_code"),
+  bankAccountNumber: text("bank_account_number"),
+  remittanceReference: text("remittance_reference"),
+  failureReason: text("failure_reason"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  paidAt: timestamp("paid_at"),
+});
+
+export const vendorLedgerTransactions = pgTable("vendor_ledger_transactions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  entryType: ledgerEntryTypeEnum("entry_type").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // always positive; direction comes from the lines
+  description: text("description").notNull(),
+  // Idempotency key of system postings, e.g. sale:<shipmentId> or refund:<refundId>
+  reference: text("reference").unique(),
+  orderId: varchar("order_id").references(() => orders.id),
+  shipmentId: varchar("shipment_id").references(() => orderShipments.id),
+  refundId: varchar("refund_id").references(() => refunds.id),
+  // Payout that settled this transaction (null while unsettled), or the payout this transaction pays out
+  payoutId: varchar("payout_id").references(() => vendorPayouts.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const vendorLedgerLines = pgTable("vendor_ledger_lines", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  transactionId: integer("transaction_id").notNull().references(() => vendorLedgerTransactions.id, { onDelete: 'cascade' }),
+  account: ledgerAccountEnum("account").notNull(),
+  debit: decimal("debit", { precision: 12, scale: 2 }).notNull().default('0'),
+  credit: decimal("credit", { precision: 12, scale: 2 }).notNull().default('0'),
+});
+
+// ===== EXPORT COMPLIANCE =====
+
+// Carts with controlled items (a controlledItemType or requiresExportLicense) are screened at checkout:
+// the buyer names a shipping address and an end-user certificate or export licence, the parties are
+// matched against the denied-party list and the destination against the restricted-country rules.
+// Orders that need a human decision are held for admin review (see server/compliance.ts).
+export const complianceDocumentTypeEnum = pgEnum('compliance_document_type', ['end_user_certificate', 'export_license']);
+export const restrictedCountryActionEnum = pgEnum('restricted_country_action', ['block', 'review']);
+export const complianceReviewStatusEnum = pgEnum('compliance_review_status', ['held', 'approved', 'rejected']);
+export const complianceDecisionEnum = pgEnum('compliance_decision', ['cleared', 'held', 'blocked', 'approved', 'rejected']);
+
+// End-user certificates and export licences buyers keep on file for controlled purchases
+export const complianceDocuments = pgTable("compliance_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: complianceDocumentTypeEnum("type").notNull(),
+  documentNumber: text("document_number").notNull(),
+  issuingCountry: text("issuing_country").notNull(), // ISO country code
+  endUserName: text("end_user_name").notNull(), // end user the document is issued to; screened like the buyer
+  fileId: varchar("file_id").notNull().references(() => uploadedFiles.id),
+  validUntil: timestamp("valid_until"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Locally loaded denied-party list. Entries are replaced per source when a list is loaded;
+// normalizedName is what screening compares against.
+export const deniedParties = pgTable("denied_parties", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  source: text("source").notNull(), // list the entry came from, e.g. "OFAC SDN"
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name").notNull(),
+  country: text("country"),
+  remarks: text("remarks"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Destinations controlled items may not ship to, or only after review. A rule without a
+// controlledItemType applies to every controlled item.
+export const restrictedCountryRules = pgTable("restricted_country_rules", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  countryCode: text("country_code").notNull(),
+  controlledItemType: text("controlled_item_type"),
+  action: restrictedCountryActionEnum("action").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Orders held at checkout, waiting for an admin decision. Payment only starts once approved.
+export const orderComplianceReviews = pgTable("order_compliance_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().unique().references(() => orders.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  documentId: varchar("document_id").references(() => complianceDocuments.id),
+  shippingCountry: text("shipping_country").notNull(),
+  status: complianceReviewStatusEnum("status").notNull().default('held'),
+  reasons: text("reasons").array().notNull(),
+  matchedParties: text("matched_parties").array(), // denied-party entries the screening matched
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Every screening outcome and review decision. actorId is null for automatic checkout screening;
+// blocked checkouts have no order.
+export const complianceAuditLog = pgTable("compliance_audit_log", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  orderId: varchar("order_id").references(() => orders.id),
+  reviewId: varchar("review_id").references(() => orderComplianceReviews.id),
+  decision: complianceDecisionEnum("decision").notNull(),
+  actorId: varchar("actor_id").references(() => users.id),
+  reasons: text("reasons").array().notNull(),
+  shippingCountry: text("shipping_country"),
+  documentId: varchar("document_id").references(() => complianceDocuments.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// ===== NET TERMS CREDIT =====
+// Business buyers apply for a credit account; once an admin approves it with a limit and terms,
+// checkout can place orders on invoice against a purchase order. The outstanding balance is the
+// unpaid remainder of issued and overdue invoices, and orders that would take it over the limit
+// are refused.
+export const creditAccountStatusEnum = pgEnum('credit_account_status', ['pending', 'approved', 'rejected', 'suspended']);
+export const paymentTermsEnum = pgEnum('payment_terms', ['net_30', 'net_60']);
+export const invoiceStatusEnum = pgEnum('invoice_status', ['issued', 'overdue', 'paid', 'void']);
+export const invoicePaymentMethodEnum = pgEnum('invoice_payment_method', ['bank_transfer', 'cheque', 'card', 'other']);
+
+export const creditAccounts = pgTable("credit_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  status: creditAccountStatusEnum("status").notNull().default('pending'),
+  paymentTerms: paymentTermsEnum("payment_terms").notNull().default('net_30'),
+  requestedLimit: decimal("requested_limit", { precision: 12, scale: 2 }).notNull(),
+  creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }).notNull().default('0'),
+  billingEmail: text("billing_email"), // accounts payable contact; invoices and reminders also go here
+  applicationNote: text("application_note"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceNumber: text("invoice_number").notNull().unique(),
+  orderId: varchar("order_id").notNull().unique().references(() => orders.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  creditAccountId: varchar("credit_account_id").notNull().references(() => creditAccounts.id),
+  poNumber: text("po_number").notNull(),
+  paymentTerms: paymentTermsEnum("payment_terms").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).notNull().default('0'),
+  // Credited for refunds and cancelled goods; the buyer owes amount - amountPaid - creditedAmount
+  creditedAmount: decimal("credited_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  status: invoiceStatusEnum("status").notNull().default('issued'),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  dueDate: timestamp("due_date").notNull(),
+  paidAt: timestamp("paid_at"),
+  // Dunning: reminders sent so far and when the last one went out
+  reminderCount: integer("reminder_count").notNull().default(0),
+  lastReminderAt: timestamp("last_reminder_at"),
+  voidedReason: text("voided_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const invoicePayments = pgTable("invoice_payments", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  method: invoicePaymentMethodEnum("method").notNull(),
+  reference: text("reference"), // bank transfer reference, cheque number
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// ===== FX RATES =====
+
+// Exchange rates against BASE_CURRENCY, each in force from effectiveFrom until the next rate for
+// the same currency. Loaded from a rates file or entered by an admin.
+export const fxRates = pgTable("fx_rates", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  currency: text("currency").notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // BASE_CURRENCY per one unit of currency
+  effectiveFrom: timestamp("effective_from").notNull(),
+  source: text("source").notNull().default('admin'), // 'admin', or the name of the loaded file
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// ===== TAX RULES =====
+
+// Tax rates by origin (vendor) country, destination country, buyer type and category. Empty
+// conditions match anything; when several rules match, the most specific one applies.
+export const taxRules = pgTable("tax_rules", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").notNull(), // shown on the cart, orders and invoices, e.g. "UAE VAT"
+  originCountry: text("origin_country"),
+  destinationCountry: text("destination_country"),
+  buyerType: typeOfBuyerEnum("buyer_type"),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: 'cascade' }), // covers subcategories
+  treatment: taxTreatmentEnum("treatment").notNull().default('standard'),
+  rate: decimal("rate", { precision: 5, scale: 2 }).notNull().default('0'),
+  // Business buyers with a valid VAT/GST number account for the tax themselves
+  reverseChargeForBusiness: boolean("reverse_charge_for_business").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// ===== TAX DOCUMENTS =====
+
+export const taxDocumentTypeEnum = pgEnum('tax_document_type', ['invoice', 'credit_note']);
+
+// Tax invoices (one per shipment, issued when it ships) and credit notes (one per completed refund).
+// Seller and buyer details are copied at issue so later profile edits never change an issued document.
+export const taxDocuments = pgTable("tax_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: taxDocumentTypeEnum("type").notNull(),
+  documentNumber: text("document_number").notNull().unique(),
+  // Seller of record: 'platform' when the marketplace operator invoices, otherwise the vendor's user id.
+  // Each issuer numbers its invoices and credit notes in its own gapless series.
+  issuer: text("issuer").notNull(),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  shipmentId: varchar("shipment_id").notNull().references(() => orderShipments.id),
+  refundId: varchar("refund_id").unique().references(() => refunds.id), // credit notes only
+  creditedDocumentId: varchar("credited_document_id").references((): AnyPgColumn => taxDocuments.id), // invoice a credit note reverses
+  vendorId: varchar("vendor_id").notNull().references(() => users.id),
+  buyerId: varchar("buyer_id").notNull().references(() => users.id),
+  sellerName: text("seller_name").notNull(),
+  sellerTaxId: text("seller_tax_id"),
+  sellerAddress: text("seller_address"),
+  sellerCountry: text("seller_country"),
+  buyerName: text("buyer_name").notNull(),
+  buyerTaxId: text("buyer_tax_id"),
+  buyerAddress: text("buyer_address"),
+  buyerCountry: text("buyer_country"),
+  currency: text("currency").notNull().default('AED'),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull(), // highest line rate; lines carry their own
+  vatNote: text("vat_note"), // e.g. why a supply is zero-rated or reverse-charged
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+});
+
+export const taxDocumentLines = pgTable("tax_document_lines", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  documentId: varchar("document_id").notNull().references(() => taxDocuments.id),
+  description: text("description").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // excluding VAT
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull().default('0'),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+});
+
+// Last number used in each issuer's series, e.g. "invoice:platform" -> 1042
+export const taxDocumentSequences = pgTable("tax_document_sequences", {
+  series: text("series").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
 // ===== SUPPORT TICKET SYSTEM =====
 export const ticketStatusEnum = pgEnum('ticket_status', ['open', 'in_progress', 'waiting_customer', 'resolved', 'closed']);
 export const ticketPriorityEnum = pgEnum('ticket_priority', ['low', 'medium', 'high', 'urgent']);
@@ -696,19 +1309,63 @@ export const ticketAttachments = pgTable("ticket_attachments", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Vendor notifications
-export const vendorNotifications = pgTable("vendor_notifications", {
+// Files uploaded through POST /api/uploads. The bytes live in the configured storage driver
+// (local disk or S3, see server/uploads.ts); rows referencing a file store its /api/files/:id URL.
+export const uploadPurposeEnum = pgEnum('upload_purpose', [
+  'product_media', 'vat_certificate', 'contact_id_document', 'business_license',
+  'defense_approval', 'company_profile', 'bank_proof', 'ticket_attachment', 'catalog_import',
+  'compliance_document',
+]);
+export const fileVisibilityEnum = pgEnum('file_visibility', ['public', 'private']);
+
+export const uploadedFiles = pgTable("uploaded_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  purpose: uploadPurposeEnum("purpose").notNull(),
+  visibility: fileVisibilityEnum("visibility").notNull(),
+  driver: text("driver").notNull(), // 'local' or 's3'; files stay readable after switching drivers
+  storageKey: text("storage_key").notNull().unique(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Domain events that fan out to in-app and email notifications (see server/notifications.ts).
+// Users can switch each channel off per event type.
+export const notificationEventTypes = [
+  'order.created', 'order.status_changed', 'refund.requested', 'refund.status_changed', 'product.reviewed', 'ticket.replied',
+  'compliance.held', 'compliance.decided',
+  'credit.requested', 'credit.decided', 'invoice.issued', 'invoice.reminder', 'invoice.paid',
+] as const;
+export type NotificationEventType = typeof notificationEventTypes[number];
+
+// In-app notifications for every role (formerly vendor_notifications)
+export const notifications = pgTable("notifications", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  vendorId: varchar("vendor_id").notNull().references(() => users.id),
-  type: text("type").notNull(), // order_new, order_status, refund_request, payout, approval, product_review
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // a notificationEventTypes value, or payout, rfq_new, rfq_accepted, rfq_cancelled
   title: text("title").notNull(),
   message: text("message").notNull(),
+  link: text("link"), // in-app path to open, e.g. /account/orders/<id>
   orderId: varchar("order_id").references(() => orders.id),
   productId: integer("product_id").references(() => products.id),
   isRead: boolean("is_read").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Per-user channel choices; a missing row means the defaults in server/notifications.ts apply
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(),
+  inApp: boolean("in_app").notNull().default(true),
+  email: boolean("email").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("notification_preferences_user_type_unique").on(table.userId, table.type),
+]);
+
 // Auth sessions table for JWT session management
 export const authSessions = pgTable("auth_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -815,7 +1472,13 @@ export const ticketAttachmentsRelations = relations(ticketAttachments, ({ one })
   }),
 }));
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: 'categoryParent',
+  }),
+  children: many(categories, { relationName: 'categoryParent' }),
   products: many(products),
 }));
 
@@ -849,13 +1512,61 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   orderItems: many(orderItems),
   media: many(productMedia),
   pricingTiers: many(productPricingTiers),
+  variants: many(productVariants),
+  vehicleFitments: many(productVehicleFitments),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id],
+  }),
+  media: one(productMedia, {
+    fields: [productVariants.mediaId],
+    references: [productMedia.id],
+  }),
+}));
+
+export const vehiclesRelations = relations(vehicles, ({ many }) => ({
+  productFitments: many(productVehicleFitments),
+  userVehicles: many(userVehicles),
 }));
 
-export const productMediaRelations = relations(productMedia, ({ one }) => ({
+export const productVehicleFitmentsRelations = relations(productVehicleFitments, ({ one }) => ({
+  product: one(products, {
+    fields: [productVehicleFitments.productId],
+    references: [products.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [productVehicleFitments.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const userVehiclesRelations = relations(userVehicles, ({ one }) => ({
+  user: one(users, {
+    fields: [userVehicles.userId],
+    references: [users.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [userVehicles.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const productMediaRelations = relations(productMedia, ({ one, many }) => ({
   product: one(products, {
     fields: [productMedia.productId],
     references: [products.id],
   }),
+  variants: many(productMediaVariants),
+}));
+
+export const productMediaVariantsRelations = relations(productMediaVariants, ({ one }) => ({
+  media: one(productMedia, {
+    fields: [productMediaVariants.mediaId],
+    references: [productMedia.id],
+  }),
 }));
 
 export const productPricingTiersRelations = relations(productPricingTiers, ({ one }) => ({
@@ -898,20 +1609,109 @@ export const cartItemsRelations = relations(cartItems, ({ one }) => ({
   }),
 }));
 
+export const wishlistsRelations = relations(wishlists, ({ one, many }) => ({
+  user: one(users, {
+    fields: [wishlists.userId],
+    references: [users.id],
+  }),
+  items: many(wishlistItems),
+}));
+
+export const wishlistItemsRelations = relations(wishlistItems, ({ one }) => ({
+  wishlist: one(wishlists, {
+    fields: [wishlistItems.wishlistId],
+    references: [wishlists.id],
+  }),
+  product: one(products, {
+    fields: [wishlistItems.productId],
+    references: [products.id],
+  }),
+}));
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, {
     fields: [orders.userId],
     references: [users.id],
   }),
   items: many(orderItems),
+  shipments: many(orderShipments),
   statusHistory: many(orderStatusHistory),
 }));
 
+export const orderShipmentsRelations = relations(orderShipments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [orderShipments.orderId],
+    references: [orders.id],
+  }),
+  vendor: one(users, {
+    fields: [orderShipments.vendorId],
+    references: [users.id],
+  }),
+  items: many(orderItems),
+}));
+
+export const rfqsRelations = relations(rfqs, ({ one, many }) => ({
+  buyer: one(users, {
+    fields: [rfqs.buyerId],
+    references: [users.id],
+    relationName: 'rfqBuyer',
+  }),
+  vendor: one(users, {
+    fields: [rfqs.vendorId],
+    references: [users.id],
+    relationName: 'rfqVendor',
+  }),
+  order: one(orders, {
+    fields: [rfqs.orderId],
+    references: [orders.id],
+  }),
+  items: many(rfqItems),
+  quotes: many(rfqQuotes),
+}));
+
+export const rfqItemsRelations = relations(rfqItems, ({ one }) => ({
+  rfq: one(rfqs, {
+    fields: [rfqItems.rfqId],
+    references: [rfqs.id],
+  }),
+  product: one(products, {
+    fields: [rfqItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [rfqItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const rfqQuotesRelations = relations(rfqQuotes, ({ one, many }) => ({
+  rfq: one(rfqs, {
+    fields: [rfqQuotes.rfqId],
+    references: [rfqs.id],
+  }),
+  items: many(rfqQuoteItems),
+}));
+
+export const rfqQuoteItemsRelations = relations(rfqQuoteItems, ({ one }) => ({
+  quote: one(rfqQuotes, {
+    fields: [rfqQuoteItems.quoteId],
+    references: [rfqQuotes.id],
+  }),
+  rfqItem: one(rfqItems, {
+    fields: [rfqQuoteItems.rfqItemId],
+    references: [rfqItems.id],
+  }),
+}));
+
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
   order: one(orders, {
     fields: [orderItems.orderId],
     references: [orders.id],
   }),
+  shipment: one(orderShipments, {
+    fields: [orderItems.shipmentId],
+    references: [orderShipments.id],
+  }),
   product: one(products, {
     fields: [orderItems.productId],
     references: [products.id],
@@ -983,8 +1783,9 @@ export const insertOtpVerificationSchema = createInsertSchema(otpVerifications).
   verified: true,
 });
 
-export const insertCategorySchema = createInsertSchema(categories).omit({
-  id: true,
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: z.string().trim().min(1),
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, digits and hyphens").nullable().optional(),
 });
 
 export const insertProductSchema = createInsertSchema(products).omit({
@@ -997,6 +1798,10 @@ export const insertProductSchema = createInsertSchema(products).omit({
   reviewedAt: true,
   reviewNote: true,
   rejectionReason: true,
+  isFeatured: true,
+  featuredFrom: true,
+  featuredUntil: true,
+  featuredRank: true,
 });
 
 export const insertProductMediaSchema = createInsertSchema(productMedia).omit({
@@ -1024,6 +1829,25 @@ export const insertCartItemSchema = createInsertSchema(cartItems).omit({
   createdAt: true,
 });
 
+export const insertVehicleSchema = createInsertSchema(vehicles, {
+  make: z.string().trim().min(1),
+  model: z.string().trim().min(1),
+  yearFrom: z.number().int().min(1900).max(2100).nullable().optional(),
+  yearTo: z.number().int().min(1900).max(2100).nullable().optional(),
+}).omit({
+  createdAt: true,
+});
+
+export const insertUserVehicleSchema = createInsertSchema(userVehicles).omit({
+  userId: true,
+  createdAt: true,
+});
+
+export const insertWishlistSchema = createInsertSchema(wishlists).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   createdAt: true,
@@ -1033,6 +1857,12 @@ export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+export const insertOrderShipmentSchema = createInsertSchema(orderShipments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
   id: true,
   createdAt: true,
@@ -1098,7 +1928,12 @@ export const insertTicketAttachmentSchema = createInsertSchema(ticketAttachments
   createdAt: true,
 });
 
-export const insertVendorNotificationSchema = createInsertSchema(vendorNotifications).omit({
+export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
 });
@@ -1109,16 +1944,47 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type CategoryTreeNode = Category & { children: CategoryTreeNode[] };
 
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
 export type ProductMedia = typeof productMedia.$inferSelect;
 export type InsertProductMedia = z.infer<typeof insertProductMediaSchema>;
+export type ProductMediaVariant = typeof productMediaVariants.$inferSelect;
+
+// A processed product image as the product APIs return it: ready-made srcset strings per format
+// (largest rendition last) plus the original as a fallback for browsers without <picture> support
+export interface ProductImageSet {
+  mediaId: number;
+  isCover: boolean;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  src: string;
+  sources: { type: 'image/avif' | 'image/webp'; srcSet: string }[];
+  variants: Pick<ProductMediaVariant, 'rendition' | 'format' | 'url' | 'width' | 'height'>[];
+}
 
 export type ProductPricingTier = typeof productPricingTiers.$inferSelect;
 export type InsertProductPricingTier = z.infer<typeof insertProductPricingTierSchema>;
 
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+export type CatalogImportJob = typeof catalogImportJobs.$inferSelect;
+export type CatalogImportError = Omit<typeof catalogImportErrors.$inferSelect, 'id' | 'jobId'>;
+export type CatalogImportJobWithErrors = CatalogImportJob & { errors: CatalogImportError[] };
+
+// Dry run of a catalogue file: what each valid row would do, and why the others would be skipped
+export type CatalogImportPreview = {
+  totalRows: number;
+  validRows: number;
+  creates: number;
+  updates: number;
+  rows: { row: number; sku: string; action: 'create' | 'update'; productId?: number }[];
+  errors: CatalogImportError[];
+};
+
 export type ProductReviewNote = typeof productReviewNotes.$inferSelect;
 export type InsertProductReviewNote = z.infer<typeof insertProductReviewNoteSchema>;
 
@@ -1128,15 +1994,142 @@ export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 
+// Faceted product search (GET /api/products/search)
+export const productSearchFacetFields = [
+  'materials', 'features', 'driveTypes', 'sizes', 'colors', 'condition', 'countryOfOrigin', 'vendorId',
+] as const;
+export type ProductSearchFacetField = typeof productSearchFacetFields[number];
+
+export const productSearchSorts = ['relevance', 'price_asc', 'price_desc', 'newest', 'rating'] as const;
+export type ProductSearchSort = typeof productSearchSorts[number];
+
+export type ProductSearchParams = {
+  q?: string;
+  categoryId?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  // Only products that fit this catalogue vehicle (optionally in a specific model year)
+  vehicleId?: number;
+  vehicleYear?: number;
+  filters?: Partial<Record<ProductSearchFacetField, string[]>>;
+  sort?: ProductSearchSort;
+  page?: number;
+  limit?: number;
+};
+
+export type ProductFacetValue = { value: string; label: string; count: number };
+
+export type ProductSearchResult = {
+  items: (Product & { rank?: number; coverImage?: ProductImageSet | null })[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  facets: Record<ProductSearchFacetField, ProductFacetValue[]>;
+};
+
+// Price resolved for a cart line from the product's volume pricing tiers
+// Amounts are in BASE_CURRENCY, converted from the product's list currency at exchangeRate. Without a
+// rate on file exchangeRate is null and the amounts are left in the list currency.
+export type CartItemPricing = {
+  currency: string;
+  exchangeRate: string | null;
+  listPrice: string;
+  unitPrice: string;
+  lineTotal: string;
+  savings: string;
+  appliedTier: { minQuantity: number; maxQuantity: number | null; price: string } | null;
+  nextTier: { minQuantity: number; price: string; quantityNeeded: number; unitSaving: string } | null;
+};
+
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+
+export type ProductVehicleFitment = typeof productVehicleFitments.$inferSelect;
+export type ProductVehicleFitmentWithVehicle = ProductVehicleFitment & { vehicle: Vehicle };
+
+export type UserVehicle = typeof userVehicles.$inferSelect;
+export type InsertUserVehicle = z.infer<typeof insertUserVehicleSchema>;
+export type UserVehicleWithVehicle = UserVehicle & { vehicle: Vehicle };
+
+// One row of a vendor fitment import; the product is matched by ID or by SKU.
+// `row` is the 1-based position in the upload, used when reporting errors.
+export type FitmentImportRow = {
+  row: number;
+  productId?: number;
+  sku?: string;
+  platform?: string;
+  make: string;
+  model: string;
+  variant?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  notes?: string;
+};
+
+export type FitmentImportResult = {
+  linked: number;
+  skipped: number;
+  vehiclesCreated: number;
+  errors: { row: number; error: string }[];
+};
+
+export type Wishlist = typeof wishlists.$inferSelect;
+export type InsertWishlist = z.infer<typeof insertWishlistSchema>;
+
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+
+// Saved item with live product data and change flags since it was saved
+export type WishlistItemWithProduct = WishlistItem & {
+  product: Product;
+  priceDropped: boolean;
+  priceDropAmount: string;
+  backInStock: boolean;
+  inStock: boolean;
+};
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+export type OrderShipment = typeof orderShipments.$inferSelect;
+export type InsertOrderShipment = z.infer<typeof insertOrderShipmentSchema>;
+
+export type Rfq = typeof rfqs.$inferSelect;
+export type RfqItem = typeof rfqItems.$inferSelect;
+export type RfqQuote = typeof rfqQuotes.$inferSelect;
+export type RfqQuoteItem = typeof rfqQuoteItems.$inferSelect;
+
+export type RfqQuoteWithItems = RfqQuote & { items: RfqQuoteItem[] };
+export type RfqWithDetails = Rfq & {
+  items: (RfqItem & { product: Product; variant: ProductVariant | null })[];
+  quotes: RfqQuoteWithItems[];
+  buyer: { id: string; name: string; email: string };
+  vendor: { id: string; name: string };
+};
+
+export type UserSecurityEvent = typeof userSecurityEvents.$inferSelect;
+export type PasswordResetRequest = typeof passwordResetRequests.$inferSelect;
+
+export type UploadedFile = typeof uploadedFiles.$inferSelect;
+export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
+export type UploadPurpose = UploadedFile['purpose'];
+export type VendorPayout = typeof vendorPayouts.$inferSelect;
+export type VendorLedgerTransaction = typeof vendorLedgerTransactions.$inferSelect;
+export type VendorLedgerLine = typeof vendorLedgerLines.$inferSelect;
+// A ledger transaction seen from the vendor's side: positive amounts increase what they are owed
+export type VendorLedgerEntry = VendorLedgerTransaction & { signedAmount: string };
+export type VendorPayoutWithEntries = VendorPayout & { entries: VendorLedgerEntry[] };
+
 export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
 export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
 
+export type StripeWebhookEvent = typeof stripeWebhookEvents.$inferSelect;
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
 export type AuthSession = typeof authSessions.$inferSelect;
 export type InsertAuthSession = z.infer<typeof insertAuthSessionSchema>;
 
@@ -1172,5 +2165,92 @@ export type InsertTicketMessage = z.infer<typeof insertTicketMessageSchema>;
 export type TicketAttachment = typeof ticketAttachments.$inferSelect;
 export type InsertTicketAttachment = z.infer<typeof insertTicketAttachmentSchema>;
 
-export type VendorNotification = typeof vendorNotifications.$inferSelect;
-export type InsertVendorNotification = z.infer<typeof insertVendorNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+export type ComplianceDocument = typeof complianceDocuments.$inferSelect;
+export type DeniedParty = typeof deniedParties.$inferSelect;
+export type RestrictedCountryRule = typeof restrictedCountryRules.$inferSelect;
+export type OrderComplianceReview = typeof orderComplianceReviews.$inferSelect;
+export type ComplianceAuditEntry = typeof complianceAuditLog.$inferSelect;
+export type ComplianceDecision = (typeof complianceDecisionEnum.enumValues)[number];
+export type OrderComplianceReviewWithDetails = OrderComplianceReview & {
+  order: Order;
+  buyer: Pick<User, 'id' | 'name' | 'email'>;
+  document: ComplianceDocument | null;
+};
+
+export type CreditAccount = typeof creditAccounts.$inferSelect;
+export type PaymentTerms = (typeof paymentTermsEnum.enumValues)[number];
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+// Credit account with the live balance: unpaid remainder of issued and overdue invoices
+export type CreditAccountWithBalance = CreditAccount & {
+  outstanding: string;
+  available: string;
+  overdueCount: number;
+};
+export type InvoiceWithDetails = Invoice & {
+  order: Order;
+  buyer: Pick<User, 'id' | 'name' | 'email'>;
+  payments: InvoicePayment[];
+};
+
+// Days to pay for each payment terms value
+export const paymentTermsDays: Record<PaymentTerms, number> = {
+  net_30: 30,
+  net_60: 60,
+};
+
+export type TaxRule = typeof taxRules.$inferSelect;
+export type TaxTreatment = (typeof taxTreatmentEnum.enumValues)[number];
+// Tax columns of an order line
+export type OrderLineTax = { taxRate: string; taxAmount: string; taxTreatment: TaxTreatment; taxLabel: string | null };
+// Tax grouped by rule and rate for display, e.g. "UAE VAT 5%: 12.50"
+export type TaxSummaryLine = { label: string; rate: string; treatment: TaxTreatment; taxableAmount: string; amount: string };
+export type CartTotals = { subtotal: string; taxLines: TaxSummaryLine[]; tax: string; total: string; taxNote: string | null; destinationCountry: string };
+
+// Display label for a summary line, e.g. "UAE VAT (5%)" or "EU VAT (reverse charge)"
+export function describeTaxLine(line: Pick<TaxSummaryLine, 'label' | 'rate' | 'treatment'>): string {
+  switch (line.treatment) {
+    case 'reverse_charge':
+      return `${line.label} (reverse charge)`;
+    case 'exempt':
+      return `${line.label} (exempt)`;
+    case 'zero_rated':
+      return `${line.label} (0%)`;
+    default:
+      return `${line.label} (${parseFloat(line.rate)}%)`;
+  }
+}
+
+// Orders, ledgers, invoices and payouts are kept in the base currency
+export const BASE_CURRENCY = 'AED';
+
+export type FxRate = typeof fxRates.$inferSelect;
+// Rates in force, as BASE_CURRENCY per unit of each currency (the base currency itself is 1)
+export type FxRateTable = { baseCurrency: string; rates: Record<string, number>; asOf: string };
+
+// Digits after the decimal point in each currency's minor unit, as Stripe counts them; the rest use two
+const zeroDecimalCurrencies = ['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+const threeDecimalCurrencies = ['BHD', 'JOD', 'KWD', 'OMR', 'TND'];
+
+export function currencyDecimals(currency: string): number {
+  const code = currency.toUpperCase();
+  if (zeroDecimalCurrencies.includes(code)) return 0;
+  if (threeDecimalCurrencies.includes(code)) return 3;
+  return 2;
+}
+
+// Converts between two currencies through the base currency; null when either rate is unknown
+export function convertCurrency(amount: number, from: string, to: string, rates: Record<string, number>): number | null {
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+  return amount * fromRate / toRate;
+}
+
+export type TaxDocument = typeof taxDocuments.$inferSelect;
+export type TaxDocumentLine = typeof taxDocumentLines.$inferSelect;
+export type TaxDocumentWithLines = TaxDocument & { lines: TaxDocumentLine[] };